@@ -7,11 +7,16 @@ import { config } from './config';
 import { errorHandler, handleUncaughtException, handleUnhandledRejection } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import { generalLimiter } from './middleware/rateLimiter';
+import { requestContextMiddleware } from './middleware/requestContext';
 // Import route files
+import apiKeyRoutes from './routes/apiKey.routes';
+import auditLogRoutes from './routes/auditLog.routes';
 import authRoutes from './routes/auth.routes';
 import employeeRoutes from './routes/employee.routes';
 import facilityDetailsRoutes from './routes/facilityDetails.routes';
+import invitationRoutes from './routes/invitation.routes';
 import iotServiceManagementRoutes from './routes/iotServiceManagement.routes';
+import roleRoutes from './routes/role.routes';
 import rosterRoutes from './routes/roster.routes';
 import serviceManagementRoutes from './routes/serviceManagement.routes';
 import serviceProviderRoutes from './routes/serviceProvider.routes';
@@ -94,6 +99,9 @@ app.use('/api/', generalLimiter);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Request context (actor, IP, user agent) for the audit trail
+app.use(requestContextMiddleware);
+
 // Logging
 if (config.NODE_ENV !== 'test') {
   app.use(morgan('dev'));
@@ -115,7 +123,11 @@ app.get('/health', (req, res) => {
 
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
 app.use('/api/employees', employeeRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/invitations', invitationRoutes);
 app.use('/api/facilities', facilityDetailsRoutes);
 app.use('/api/service-management', serviceManagementRoutes);
 app.use('/api/service-providers', serviceProviderRoutes);
@@ -128,10 +140,54 @@ app.use('/api/rosters', rosterRoutes);
 import weekoffPlannerRoutes from './routes/weekoffPlanner.routes';
 app.use('/api/weekoff-planners', weekoffPlannerRoutes);
 
+// Import and register shift template routes
+import shiftTemplateRoutes from './routes/shiftTemplate.routes';
+app.use('/api/shift-templates', shiftTemplateRoutes);
+
+// Import and register rotation pattern routes
+import rotationPatternRoutes from './routes/rotationPattern.routes';
+app.use('/api/rotation-patterns', rotationPatternRoutes);
+
+// Import and register rotation assignment routes
+import rotationAssignmentRoutes from './routes/rotationAssignment.routes';
+app.use('/api/rotation-assignments', rotationAssignmentRoutes);
+
+// Import and register staffing requirement routes
+import staffingRequirementRoutes from './routes/staffingRequirement.routes';
+app.use('/api/staffing-requirements', staffingRequirementRoutes);
+
+// Import and register shift swap routes
+import shiftSwapRoutes from './routes/shiftSwap.routes';
+app.use('/api/shift-swaps', shiftSwapRoutes);
+
+// Import and register labour rule routes
+import labourRuleRoutes from './routes/labourRule.routes';
+app.use('/api/labour-rules', labourRuleRoutes);
+
 // Import and register leave planner routes
 import leavePlannerRoutes from './routes/leavePlanner.routes';
 app.use('/api/leave-planners', leavePlannerRoutes);
 
+// Import and register leave policy routes
+import leavePolicyRoutes from './routes/leavePolicy.routes';
+app.use('/api/leave-policies', leavePolicyRoutes);
+
+// Import and register holiday calendar routes
+import holidayRoutes from './routes/holiday.routes';
+app.use('/api/holidays', holidayRoutes);
+
+// Import and register approval workflow routes
+import approvalWorkflowRoutes from './routes/approvalWorkflow.routes';
+app.use('/api/approval-workflows', approvalWorkflowRoutes);
+
+// Import and register attendance routes
+import attendanceRoutes from './routes/attendance.routes';
+app.use('/api/attendance', attendanceRoutes);
+
+// Import and register timesheet routes
+import timesheetRoutes from './routes/timesheet.routes';
+app.use('/api/timesheets', timesheetRoutes);
+
 // Import and register hygiene section routes
 import hygieneSectionRoutes from './routes/hygieneSection.routes';
 app.use('/api/hygiene-sections', hygieneSectionRoutes);
@@ -144,10 +200,22 @@ app.use('/api/hygiene-checklists', hygieneChecklistRoutes);
 import dailyChecklistRoutes from './routes/dailyChecklist.routes';
 app.use('/api/daily-checklists', dailyChecklistRoutes);
 
+// Import and register checklist template routes
+import checklistTemplateRoutes from './routes/checklistTemplate.routes';
+app.use('/api/checklist-templates', checklistTemplateRoutes);
+
 // Import and register floor location routes
 import floorLocationRoutes from './routes/floorLocation.routes';
 app.use('/api/floor-locations', floorLocationRoutes);
 
+// Import and register task assignment routes
+import taskAssignmentRoutes from './routes/taskAssignment.routes';
+app.use('/api/task-assignments', taskAssignmentRoutes);
+
+// Import and register storage routes (files behind signed URLs)
+import storageRoutes from './routes/storage.routes';
+app.use('/api/storage', storageRoutes);
+
 // Import and register power management routes
 import powerManagementRoutes from './routes/powerManagement.routes';
 app.use('/api/power-management', powerManagementRoutes);
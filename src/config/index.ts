@@ -19,6 +19,31 @@ interface Config {
   JWT_REFRESH_EXPIRY: JWTExpiration; // Backward compatibility
   DB_NAME: string;
   
+  // Two-Factor Authentication
+  TWO_FACTOR_ISSUER: string;
+  TWO_FACTOR_ENFORCED_ROLES: string[];
+  MFA_TOKEN_EXPIRES_IN: JWTExpiration;
+  
+  // User invitations
+  INVITATION_EXPIRES_IN: JWTExpiration;
+  
+  // Attendance
+  ATTENDANCE_ABSENTEE_CRON: string; // When shifts that have ended are checked for absentees; empty to disable
+  
+  // Shift rotations
+  SHIFT_ROTATION_CRON: string; // When rotation schedules are extended up to the horizon; empty to disable
+  SHIFT_ROTATION_HORIZON_DAYS: number; // How far ahead rotation schedules are materialized
+  
+  // Tasks
+  TASK_OVERDUE_CRON: string; // When open tasks past their due date are marked overdue; empty to disable
+
+  // Checklists
+  CHECKLIST_GENERATION_CRON: string; // When the day's checklists are generated from templates; empty to disable
+
+  // File storage
+  STORAGE_LOCAL_DIR: string; // Directory of the local backend, which keeps uploaded files such as checklist photos
+  STORAGE_URL_EXPIRES_IN: JWTExpiration; // How long signed file URLs, e.g. of checklist photos, stay valid
+  
   // Frontend
   FRONTEND_URL: string;
   CLIENT_URL: string;
@@ -56,6 +81,10 @@ interface Config {
   SMTP_SECURE: boolean;
   SMTP_USER: string;
   SMTP_PASS: string;
+  MAIL_TRANSPORT: 'smtp' | 'ses' | 'file' | 'console';
+  MAIL_FILE_DIR: string; // Output directory for the file transport
+  MAIL_MAX_ATTEMPTS: number;
+  MAIL_RETRY_DELAY_MS: number; // Base delay, doubled after every failed attempt
   
   // Redis Configuration
   REDIS_URL: string;
@@ -97,6 +126,34 @@ const config: Config = {
   JWT_REFRESH_EXPIRY: process.env.JWT_REFRESH_EXPIRES_IN || '30d', // Backward compatibility
   DB_NAME: process.env.DB_NAME || 'starter_app',
   
+  // Two-Factor Authentication
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Facility Management',
+  TWO_FACTOR_ENFORCED_ROLES: (process.env.TWO_FACTOR_ENFORCED_ROLES ?? 'super_admin,facility_manager')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean),
+  MFA_TOKEN_EXPIRES_IN: process.env.MFA_TOKEN_EXPIRES_IN || '5m',
+  
+  // User invitations
+  INVITATION_EXPIRES_IN: process.env.INVITATION_EXPIRES_IN || '7d',
+  
+  // Attendance
+  ATTENDANCE_ABSENTEE_CRON: process.env.ATTENDANCE_ABSENTEE_CRON ?? '*/15 * * * *',
+  
+  // Shift rotations
+  SHIFT_ROTATION_CRON: process.env.SHIFT_ROTATION_CRON ?? '0 1 * * *',
+  SHIFT_ROTATION_HORIZON_DAYS: parseInt(process.env.SHIFT_ROTATION_HORIZON_DAYS || '28', 10),
+  
+  // Tasks
+  TASK_OVERDUE_CRON: process.env.TASK_OVERDUE_CRON ?? '*/15 * * * *',
+
+  // Checklists
+  CHECKLIST_GENERATION_CRON: process.env.CHECKLIST_GENERATION_CRON ?? '5 * * * *',
+
+  // File storage
+  STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || 'uploads/storage',
+  STORAGE_URL_EXPIRES_IN: process.env.STORAGE_URL_EXPIRES_IN || '15m',
+  
   // Frontend
   FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
   CLIENT_URL: process.env.CLIENT_URL || 'http://localhost:3000',
@@ -134,6 +191,12 @@ const config: Config = {
   SMTP_SECURE: process.env.SMTP_SECURE === 'true',
   SMTP_USER: process.env.SMTP_USER || process.env.EMAIL_SMTP_USER || '',
   SMTP_PASS: process.env.SMTP_PASS || process.env.EMAIL_SMTP_PASSWORD || '',
+  MAIL_TRANSPORT: (process.env.MAIL_TRANSPORT as 'smtp' | 'ses' | 'file' | 'console') || (
+    process.env.USE_AWS_SES === 'true' ? 'ses' : process.env.NODE_ENV === 'production' ? 'smtp' : 'console'
+  ),
+  MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || 'tmp/mail',
+  MAIL_MAX_ATTEMPTS: parseInt(process.env.MAIL_MAX_ATTEMPTS || '5', 10),
+  MAIL_RETRY_DELAY_MS: parseInt(process.env.MAIL_RETRY_DELAY_MS || '30000', 10), // 30 seconds
   
   // Redis Configuration
   REDIS_URL: process.env.REDIS_URL || 'redis://localhost:6379',
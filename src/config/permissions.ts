@@ -0,0 +1,332 @@
+import { IUserPermissions } from '../models/User';
+
+// Boolean permission flags of IUserPermissions
+export type PermissionFlag = Exclude<keyof IUserPermissions, 'customPermissions'>;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RoutePermissionRule {
+  method: HttpMethod;
+  path: string; // Full Express route pattern, e.g. /api/leave-planners/:id
+  permissions: PermissionFlag[]; // All listed permissions are required
+}
+
+export const PERMISSION_FLAGS: PermissionFlag[] = [
+  'canManageUsers',
+  'canManageFacilities',
+  'canManageServices',
+  'canManageIOT',
+  'canViewReports',
+  'canManageSettings',
+  'canManageBilling',
+  'canAccessAuditLogs',
+  'canManageEmployees',
+  'canViewEmployeeReports',
+  'canApproveLeaves',
+  'canManageAttendance',
+  'canManageShifts',
+  'canManagePayroll',
+  'canViewSalaryInfo',
+  'canManageDocuments'
+];
+
+// Build rules for several routes that share the same permissions
+const rules = (permissions: PermissionFlag[], routes: [HttpMethod, string][]): RoutePermissionRule[] =>
+  routes.map(([method, path]) => ({ method, path, permissions }));
+
+/**
+ * Central route -> permission matrix.
+ * Routes guarded with AuthMiddleware.authorizeRoute must be listed here; unlisted routes are denied.
+ * Default grants per role come from the role's default permissions in models/User.ts and can be
+ * extended through custom roles (models/Role.ts) and per-user overrides, see PermissionService.hasPermission.
+ */
+export const ROUTE_PERMISSIONS: RoutePermissionRule[] = [
+  // Employees
+  ...rules(['canManageEmployees'], [
+    ['POST', '/api/employees'],
+    ['GET', '/api/employees'],
+    ['GET', '/api/employees/role/:role'],
+    ['GET', '/api/employees/facility/:facilityId'],
+    ['GET', '/api/employees/:id/permissions'],
+    ['DELETE', '/api/employees/:id'],
+    ['PATCH', '/api/employees/:id/restore'],
+    ['PATCH', '/api/employees/:id/status'],
+    ['PATCH', '/api/employees/:id/role'],
+    ['PATCH', '/api/employees/:id/password']
+  ]),
+  ...rules(['canManageEmployees', 'canManageUsers'], [
+    ['PATCH', '/api/employees/:id/permissions']
+  ]),
+
+  // Invitations of users created without a password
+  ...rules(['canManageEmployees'], [
+    ['GET', '/api/invitations'],
+    ['POST', '/api/invitations/:userId/resend'],
+    ['DELETE', '/api/invitations/:userId']
+  ]),
+
+  // Custom roles (permission templates assigned on top of the base role)
+  ...rules(['canManageEmployees'], [
+    ['GET', '/api/roles'],
+    ['GET', '/api/roles/:id'],
+    ['GET', '/api/roles/:id/users']
+  ]),
+  ...rules(['canManageEmployees', 'canManageUsers'], [
+    ['POST', '/api/roles'],
+    ['PATCH', '/api/roles/:id'],
+    ['DELETE', '/api/roles/:id'],
+    ['POST', '/api/roles/:id/users'],
+    ['DELETE', '/api/roles/:id/users/:userId']
+  ]),
+
+  // Facilities: creating, listing and deleting them is platform administration, limited to super admins in the
+  // routes themselves; managing an assigned facility is a permission
+  ...rules(['canManageFacilities'], [
+    ['PUT', '/api/facilities/:id'],
+    ['GET', '/api/facilities/tenant/:tenantId'],
+    ['PUT', '/api/facilities/tenant/:tenantId']
+  ]),
+
+  // Service providers
+  ...rules(['canManageServices'], [
+    ['POST', '/api/service-providers/:facilityId'],
+    ['PUT', '/api/service-providers/provider/:id'],
+    ['DELETE', '/api/service-providers/provider/:id'],
+    ['PATCH', '/api/service-providers/:facilityId/bulk-update']
+  ]),
+
+  // Service catalogues (regular and IoT)
+  ...rules(['canManageServices'], [
+    ['POST', '/api/service-management/initialize'],
+    ['POST', '/api/service-management/facility/:facilityId/add-service'],
+    ['PATCH', '/api/service-management/facility/:facilityId/update-status'],
+    ['PATCH', '/api/service-management/facility/:facilityId/update-details'],
+    ['DELETE', '/api/service-management/facility/:facilityId/remove-service'],
+    ['PATCH', '/api/service-management/facility/:facilityId/bulk-update']
+  ]),
+  ...rules(['canManageIOT'], [
+    ['POST', '/api/iot-service-management/initialize'],
+    ['POST', '/api/iot-service-management/facility/:facilityId/add-service'],
+    ['PATCH', '/api/iot-service-management/facility/:facilityId/update-status'],
+    ['PATCH', '/api/iot-service-management/facility/:facilityId/update-details'],
+    ['DELETE', '/api/iot-service-management/facility/:facilityId/remove-service'],
+    ['PATCH', '/api/iot-service-management/facility/:facilityId/bulk-update']
+  ]),
+  // Wiping a catalogue and cross-facility statistics are platform-level operations
+  ...rules(['canManageServices', 'canManageSettings'], [
+    ['DELETE', '/api/service-management/facility/:facilityId'],
+    ['GET', '/api/service-management/statistics/global']
+  ]),
+  ...rules(['canManageIOT', 'canManageSettings'], [
+    ['DELETE', '/api/iot-service-management/facility/:facilityId'],
+    ['GET', '/api/iot-service-management/statistics/global']
+  ]),
+
+  // Leave management
+  ...rules(['canApproveLeaves'], [
+    ['POST', '/api/leave-planners'],
+    ['GET', '/api/leave-planners'],
+    ['GET', '/api/leave-planners/upcoming'],
+    ['GET', '/api/leave-planners/:id'],
+    ['PATCH', '/api/leave-planners/:id'],
+    ['DELETE', '/api/leave-planners/:id'],
+    ['GET', '/api/leave-planners/balances/:employeeId'],
+    ['GET', '/api/leave-planners/balances/:employeeId/ledger'],
+    ['POST', '/api/leave-planners/:id/approve'],
+    ['POST', '/api/leave-planners/:id/reject'],
+    ['GET', '/api/leave-policies'],
+    ['GET', '/api/leave-policies/:id'],
+    ['GET', '/api/holidays'],
+    ['GET', '/api/holidays/:id'],
+    ['GET', '/api/approval-workflows']
+  ]),
+  // The holiday calendar and approval chains are part of the facility setup
+  ...rules(['canApproveLeaves', 'canManageFacilities'], [
+    ['POST', '/api/holidays'],
+    ['PATCH', '/api/holidays/:id'],
+    ['DELETE', '/api/holidays/:id'],
+    ['PUT', '/api/approval-workflows/:facilityId/:requestType'],
+    ['DELETE', '/api/approval-workflows/:facilityId/:requestType']
+  ]),
+  // Entitlements and manual balance changes affect pay
+  ...rules(['canApproveLeaves', 'canManageEmployees'], [
+    ['POST', '/api/leave-planners/balances/:employeeId/encash'],
+    ['POST', '/api/leave-planners/balances/:employeeId/adjust'],
+    ['POST', '/api/leave-policies'],
+    ['PATCH', '/api/leave-policies/:id'],
+    ['DELETE', '/api/leave-policies/:id']
+  ]),
+
+  // Shifts, rosters, shift swaps and week-offs
+  ...rules(['canManageShifts'], [
+    ['POST', '/api/shift-schedules'],
+    ['GET', '/api/shift-schedules'],
+    ['GET', '/api/shift-schedules/:id'],
+    ['PATCH', '/api/shift-schedules/:id'],
+    ['DELETE', '/api/shift-schedules/:id'],
+    ['POST', '/api/shift-templates'],
+    ['GET', '/api/shift-templates'],
+    ['GET', '/api/shift-templates/:id'],
+    ['PATCH', '/api/shift-templates/:id'],
+    ['DELETE', '/api/shift-templates/:id'],
+    ['POST', '/api/rotation-patterns'],
+    ['GET', '/api/rotation-patterns'],
+    ['GET', '/api/rotation-patterns/:id'],
+    ['PATCH', '/api/rotation-patterns/:id'],
+    ['DELETE', '/api/rotation-patterns/:id'],
+    ['POST', '/api/rotation-assignments'],
+    ['GET', '/api/rotation-assignments'],
+    ['GET', '/api/rotation-assignments/:id'],
+    ['PATCH', '/api/rotation-assignments/:id'],
+    ['DELETE', '/api/rotation-assignments/:id'],
+    ['POST', '/api/rotation-assignments/:id/materialize'],
+    ['POST', '/api/rosters'],
+    ['GET', '/api/rosters'],
+    ['GET', '/api/rosters/:id'],
+    ['PATCH', '/api/rosters/:id'],
+    ['DELETE', '/api/rosters/:id'],
+    ['POST', '/api/rosters/generate'],
+    ['POST', '/api/rosters/publish'],
+    ['POST', '/api/staffing-requirements'],
+    ['GET', '/api/staffing-requirements'],
+    ['PATCH', '/api/staffing-requirements/:id'],
+    ['DELETE', '/api/staffing-requirements/:id'],
+    ['GET', '/api/shift-swaps'],
+    ['GET', '/api/shift-swaps/:id'],
+    ['POST', '/api/shift-swaps/:id/approve'],
+    ['POST', '/api/shift-swaps/:id/reject'],
+    ['GET', '/api/labour-rules/:facilityId'],
+    ['GET', '/api/labour-rules/:facilityId/validate'],
+    ['POST', '/api/weekoff-planners'],
+    ['GET', '/api/weekoff-planners'],
+    ['GET', '/api/weekoff-planners/:id'],
+    ['PATCH', '/api/weekoff-planners/:id'],
+    ['DELETE', '/api/weekoff-planners/:id'],
+    ['POST', '/api/weekoff-planners/:id/approve'],
+    ['POST', '/api/weekoff-planners/:id/reject']
+  ]),
+
+  ...rules(['canManageShifts', 'canManageFacilities'], [
+    ['PUT', '/api/labour-rules/:facilityId']
+  ]),
+
+  // Attendance (check-in and check-out are self-service)
+  ...rules(['canManageAttendance'], [
+    ['GET', '/api/attendance'],
+    ['GET', '/api/attendance/:id'],
+    ['PATCH', '/api/attendance/:id'],
+    ['GET', '/api/attendance/reports/daily'],
+    ['GET', '/api/attendance/reports/monthly'],
+    ['POST', '/api/attendance/mark-absentees'],
+    ['POST', '/api/attendance/import'],
+    ['GET', '/api/attendance/settings/:facilityId'],
+    ['GET', '/api/attendance/settings/:facilityId/qr']
+  ]),
+  ...rules(['canManageAttendance', 'canManageFacilities'], [
+    ['PUT', '/api/attendance/settings/:facilityId'],
+    ['POST', '/api/attendance/settings/:facilityId/qr']
+  ]),
+
+  // Timesheets (supervisors sign off, payroll exports)
+  ...rules(['canManageAttendance'], [
+    ['POST', '/api/timesheets/generate'],
+    ['GET', '/api/timesheets'],
+    ['GET', '/api/timesheets/:id'],
+    ['POST', '/api/timesheets/:id/sign-off']
+  ]),
+  // Reopening a signed-off timesheet changes what payroll is paid on
+  ...rules(['canManageAttendance', 'canManagePayroll'], [
+    ['POST', '/api/timesheets/:id/reopen']
+  ]),
+  ...rules(['canManagePayroll'], [
+    ['GET', '/api/timesheets/export']
+  ]),
+
+  // Hygiene, checklists, floor locations and checklist tasks (starting and completing tasks is self-service)
+  ...rules(['canManageFacilities'], [
+    ['POST', '/api/hygiene-sections'],
+    ['GET', '/api/hygiene-sections'],
+    ['GET', '/api/hygiene-sections/:id'],
+    ['PATCH', '/api/hygiene-sections/:id'],
+    ['DELETE', '/api/hygiene-sections/:id'],
+    ['POST', '/api/hygiene-checklists'],
+    ['GET', '/api/hygiene-checklists'],
+    ['GET', '/api/hygiene-checklists/:id'],
+    ['GET', '/api/hygiene-checklists/:id/download'],
+    ['PATCH', '/api/hygiene-checklists/:id'],
+    ['DELETE', '/api/hygiene-checklists/:id'],
+    ['POST', '/api/hygiene-checklists/:id/versions'],
+    ['POST', '/api/hygiene-checklists/:id/templates'],
+    ['POST', '/api/hygiene-checklists/:id/daily-checklists'],
+    ['POST', '/api/daily-checklists'],
+    ['GET', '/api/daily-checklists'],
+    ['PATCH', '/api/daily-checklists/:id/verify'],
+    ['GET', '/api/daily-checklists/stats'],
+    ['POST', '/api/floor-locations'],
+    ['GET', '/api/floor-locations'],
+    ['GET', '/api/floor-locations/:id'],
+    ['PUT', '/api/floor-locations/:id'],
+    ['DELETE', '/api/floor-locations/:id'],
+    ['GET', '/api/floor-locations/qr-sheet'],
+    ['GET', '/api/floor-locations/:id/qr'],
+    ['POST', '/api/floor-locations/:id/qr/rotate'],
+    ['POST', '/api/checklist-templates'],
+    ['GET', '/api/checklist-templates'],
+    ['GET', '/api/checklist-templates/:id'],
+    ['PATCH', '/api/checklist-templates/:id'],
+    ['DELETE', '/api/checklist-templates/:id'],
+    ['POST', '/api/checklist-templates/:id/generate'],
+    ['POST', '/api/task-assignments'],
+    ['GET', '/api/task-assignments'],
+    ['GET', '/api/task-assignments/:id'],
+    ['PATCH', '/api/task-assignments/:id'],
+    ['DELETE', '/api/task-assignments/:id']
+  ]),
+
+  // API keys of machine-to-machine clients
+  ...rules(['canManageSettings'], [
+    ['POST', '/api/api-keys'],
+    ['GET', '/api/api-keys'],
+    ['GET', '/api/api-keys/:id'],
+    ['PATCH', '/api/api-keys/:id'],
+    ['POST', '/api/api-keys/:id/rotate'],
+    ['DELETE', '/api/api-keys/:id']
+  ]),
+
+  // Audit trail
+  ...rules(['canAccessAuditLogs'], [
+    ['GET', '/api/audit-logs'],
+    ['GET', '/api/audit-logs/:id']
+  ]),
+
+  // Utilities (power, water, quality)
+  ...rules(['canManageFacilities'], [
+    ['POST', '/api/power-management'],
+    ['PUT', '/api/power-management/:id'],
+    ['DELETE', '/api/power-management/:id'],
+    ...(['tanks', 'borewells', 'cauvery', 'tankers'] as const).flatMap(resource => [
+      ['POST', `/api/water-management/${resource}`],
+      ['PUT', `/api/water-management/${resource}/:id`],
+      ['DELETE', `/api/water-management/${resource}/:id`]
+    ] as [HttpMethod, string][]),
+    ...(['stp', 'wtp', 'swimming-pools', 'ro-plants'] as const).flatMap(resource => [
+      ['POST', `/api/quality-management/${resource}`],
+      ['PUT', `/api/quality-management/${resource}/:id`],
+      ['DELETE', `/api/quality-management/${resource}/:id`]
+    ] as [HttpMethod, string][])
+  ])
+];
+
+const routePermissionIndex = new Map<string, RoutePermissionRule>(
+  ROUTE_PERMISSIONS.map(rule => [`${rule.method} ${rule.path}`, rule])
+);
+
+/**
+ * Look up the permission rule for a route
+ * @param method - HTTP method
+ * @param path - Full Express route pattern (req.baseUrl + req.route.path)
+ */
+export const getRoutePermissionRule = (method: string, path: string): RoutePermissionRule | undefined => {
+  const normalizedPath = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  return routePermissionIndex.get(`${method.toUpperCase()} ${normalizedPath}`);
+};
@@ -0,0 +1,230 @@
+import { NextFunction, Response } from 'express';
+import { PermissionFlag } from '../config/permissions';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ApiKey, IApiKey } from '../models/ApiKey';
+import { ApiKeyService } from '../services/apiKey.service';
+import { PermissionService } from '../services/permission.service';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+const KEY_NOTICE = 'Store this key securely, it cannot be retrieved again';
+
+export class ApiKeyController {
+  // Prevent privilege escalation: a key can only carry permissions the current user holds in the key's facility
+  private static findNotHeld(req: AuthenticatedRequest, facilityId: any, permissions: PermissionFlag[] = []): PermissionFlag[] {
+    return permissions.filter(permission => !PermissionService.hasPermission(req.user, permission, facilityId));
+  }
+
+  // Keys of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IApiKey> {
+    const apiKey = await ApiKey.findOne(req.facilityScope!.apply({ _id: req.params.id }));
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+    return apiKey;
+  }
+
+  // Create an API key; the full key is only returned in this response
+  static async createApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, description, facilityId, permissions, allowedIps, expiresAt } = req.body;
+
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only create API keys for your managed facilities', 403);
+      }
+
+      const notHeld = ApiKeyController.findNotHeld(req, facilityId, permissions);
+      if (notHeld.length > 0) {
+        throw new AppError(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`, 403);
+      }
+
+      const { key, prefix, keyHash } = ApiKeyService.generate();
+      const apiKey = await ApiKey.create({
+        name,
+        description,
+        prefix,
+        keyHash,
+        facilityId,
+        permissions,
+        allowedIps,
+        expiresAt,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`API key ${prefix} created for facility ${facilityId} by ${req.user._id}`);
+
+      // keyHash is never returned
+      const { keyHash: _keyHash, ...data } = apiKey.toObject();
+      res.status(201).json({
+        status: 'success',
+        message: KEY_NOTICE,
+        data: { apiKey: data, key }
+      });
+    } catch (error) {
+      logger.error('Create API key error:', error);
+      next(error);
+    }
+  }
+
+  // Get API keys of the facilities in scope
+  static async getApiKeys(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, isActive } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        throw new AppError('You can only view API keys of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition };
+      if (isActive !== undefined) filter.isActive = isActive === 'true';
+
+      const [apiKeys, total] = await Promise.all([
+        ApiKey.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('facilityId', 'siteName city')
+          .populate('createdBy', 'firstName lastName email')
+          .lean(),
+        ApiKey.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: apiKeys.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { apiKeys }
+      });
+    } catch (error) {
+      logger.error('Get API keys error:', error);
+      next(error);
+    }
+  }
+
+  // Get an API key with its usage
+  static async getApiKeyById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKey = await ApiKey.findOne(req.facilityScope!.apply({ _id: req.params.id }))
+        .populate('facilityId', 'siteName city')
+        .populate('createdBy', 'firstName lastName email')
+        .populate('revokedBy', 'firstName lastName email');
+
+      if (!apiKey) {
+        throw new AppError('API key not found', 404);
+      }
+
+      res.json({
+        status: 'success',
+        data: { apiKey }
+      });
+    } catch (error) {
+      logger.error('Get API key by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update the name, permissions, IP allowlist or expiry of an API key
+  static async updateApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, description, permissions, allowedIps, expiresAt } = req.body;
+
+      const apiKey = await ApiKeyController.findInScope(req);
+      if (!apiKey.isActive) {
+        throw new AppError('Revoked API keys cannot be changed', 400);
+      }
+
+      const notHeld = ApiKeyController.findNotHeld(
+        req,
+        apiKey.facilityId,
+        (permissions as PermissionFlag[] | undefined)?.filter(permission => !apiKey.permissions.includes(permission))
+      );
+      if (notHeld.length > 0) {
+        throw new AppError(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`, 403);
+      }
+
+      if (name !== undefined) apiKey.name = name;
+      if (description !== undefined) apiKey.description = description;
+      if (permissions) apiKey.permissions = permissions;
+      if (allowedIps) apiKey.allowedIps = allowedIps;
+      if (expiresAt !== undefined) apiKey.expiresAt = expiresAt ?? undefined;
+      apiKey.updatedBy = req.user._id;
+      await apiKey.save();
+
+      logger.info(`API key ${apiKey.prefix} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'API key updated successfully',
+        data: { apiKey }
+      });
+    } catch (error) {
+      logger.error('Update API key error:', error);
+      next(error);
+    }
+  }
+
+  // Replace the secret of an API key, keeping its settings; the old key stops working immediately
+  static async rotateApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKey = await ApiKeyController.findInScope(req);
+      if (!apiKey.isActive) {
+        throw new AppError('Revoked API keys cannot be rotated', 400);
+      }
+
+      const { key, prefix, keyHash } = ApiKeyService.generate();
+      const previousPrefix = apiKey.prefix;
+      apiKey.prefix = prefix;
+      apiKey.keyHash = keyHash;
+      apiKey.updatedBy = req.user._id;
+      await apiKey.save();
+
+      logger.info(`API key ${previousPrefix} rotated to ${prefix} by ${req.user._id}`);
+
+      const { keyHash: _keyHash, ...data } = apiKey.toObject();
+      res.json({
+        status: 'success',
+        message: KEY_NOTICE,
+        data: { apiKey: data, key }
+      });
+    } catch (error) {
+      logger.error('Rotate API key error:', error);
+      next(error);
+    }
+  }
+
+  // Revoke an API key; revoked keys are kept for their usage history and audit trail
+  static async revokeApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKey = await ApiKeyController.findInScope(req);
+      if (!apiKey.isActive) {
+        throw new AppError('API key is already revoked', 400);
+      }
+
+      apiKey.isActive = false;
+      apiKey.revokedAt = new Date();
+      apiKey.revokedBy = req.user._id;
+      apiKey.updatedBy = req.user._id;
+      await apiKey.save();
+
+      logger.info(`API key ${apiKey.prefix} revoked by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'API key revoked successfully',
+        data: { apiKey }
+      });
+    } catch (error) {
+      logger.error('Revoke API key error:', error);
+      next(error);
+    }
+  }
+}
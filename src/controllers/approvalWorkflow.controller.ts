@@ -0,0 +1,100 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ApprovalRequestType, ApprovalWorkflow } from '../models/ApprovalWorkflow';
+import { logger } from '../utils/logger';
+
+export class ApprovalWorkflowController {
+  // Get the approval chains of a facility; request types without a workflow need a single approval by any approver
+  static async getApprovalWorkflows(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = (req.query.facilityId as string | undefined) || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only view approval workflows of your managed facilities', 403);
+      }
+
+      const requestTypes = req.query.requestType
+        ? [req.query.requestType as ApprovalRequestType]
+        : Object.values(ApprovalRequestType);
+
+      const configured = await ApprovalWorkflow.find({ facilityId, requestType: { $in: requestTypes } })
+        .populate('updatedBy', 'firstName lastName');
+
+      const workflows = requestTypes.map(requestType => {
+        const workflow = configured.find(entry => entry.requestType === requestType);
+        return workflow
+          ? { requestType, configured: true, workflow }
+          : { requestType, configured: false, workflow: null };
+      });
+
+      res.json({
+        status: 'success',
+        data: { facilityId, workflows }
+      });
+    } catch (error) {
+      logger.error('Get approval workflows error:', error);
+      next(error);
+    }
+  }
+
+  // Configure the approval chain of a request type in a facility; requests already submitted keep their chain
+  static async setApprovalWorkflow(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, requestType } = req.params;
+      const { levels, isActive = true } = req.body;
+
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only configure approval workflows of your managed facilities', 403);
+      }
+
+      let workflow = await ApprovalWorkflow.findOne({ facilityId, requestType });
+      const created = !workflow;
+      if (!workflow) {
+        workflow = new ApprovalWorkflow({ facilityId, requestType, createdBy: req.user._id });
+      }
+      workflow.set({ levels, isActive, updatedBy: req.user._id });
+      await workflow.save();
+
+      logger.info(`Approval workflow for ${requestType} in facility ${facilityId} set to [${levels.join(', ')}] by ${req.user._id}`);
+
+      res.status(created ? 201 : 200).json({
+        status: 'success',
+        message: `Approval workflow ${created ? 'created' : 'updated'} successfully`,
+        data: { workflow }
+      });
+    } catch (error) {
+      logger.error('Set approval workflow error:', error);
+      next(error);
+    }
+  }
+
+  // Remove the approval chain of a request type; new requests then need a single approval by any approver
+  static async deleteApprovalWorkflow(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, requestType } = req.params;
+
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only configure approval workflows of your managed facilities', 403);
+      }
+
+      const workflow = await ApprovalWorkflow.findOne({ facilityId, requestType });
+      if (!workflow) {
+        throw new AppError('Approval workflow not found', 404);
+      }
+      await workflow.deleteOne();
+
+      logger.info(`Approval workflow for ${requestType} in facility ${facilityId} removed by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Approval workflow removed; requests now need a single approval'
+      });
+    } catch (error) {
+      logger.error('Delete approval workflow error:', error);
+      next(error);
+    }
+  }
+}
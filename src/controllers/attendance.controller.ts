@@ -0,0 +1,523 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { Attendance, AttendanceStatus, IAttendance, IAttendancePunch } from '../models/Attendance';
+import { AttendanceVerification } from '../models/AttendanceSettings';
+import { Roster } from '../models/Roster';
+import { AttendanceService } from '../services/attendance.service';
+import { PunchImportService } from '../services/punchImport.service';
+import { TimesheetService } from '../services/timesheet.service';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+// Date range filter on the shift date of attendance records (from/to are YYYY-MM-DD)
+const dateRangeFilter = (from?: unknown, to?: unknown): Record<string, Date> | undefined => {
+  if (!from && !to) return undefined;
+  const range: Record<string, Date> = {};
+  if (from) range.$gte = new Date(`${from}T00:00:00.000Z`);
+  if (to) range.$lte = new Date(`${to}T00:00:00.000Z`);
+  return range;
+};
+
+// Longest period a punch log may cover; terminals are usually exported weekly or monthly
+const MAX_IMPORT_RANGE_DAYS = 62;
+
+export class AttendanceController {
+  // Facility of a check-in or check-out: requested, encoded in the scanned QR code, or the user's only facility
+  private static resolvePunchFacility(req: AuthenticatedRequest): string {
+    const facilityId = req.body.facilityId
+      || (req.body.qrCode && AttendanceService.readQrToken(req.body.qrCode)?.facilityId)
+      || req.facilityScope!.defaultFacilityId();
+    if (!facilityId) {
+      throw new AppError('facilityId is required', 400);
+    }
+    if (!req.facilityScope!.allows(facilityId)) {
+      throw new AppError('You can only record attendance at your own facilities', 403);
+    }
+    return facilityId;
+  }
+
+  // Verify presence at the facility and build the punch to record
+  private static async verifyPunch(req: AuthenticatedRequest, facilityId: string) {
+    const settings = await AttendanceService.getSettings(facilityId);
+    const { method, qrCode, location, device } = req.body;
+
+    const presence = AttendanceService.verifyPresence(settings, { method, qrCode, location });
+    if (!presence.verified) {
+      throw new AppError(presence.reason!, 403);
+    }
+
+    const punch: IAttendancePunch = {
+      time: new Date(),
+      method,
+      location,
+      distanceMeters: presence.distanceMeters,
+      device
+    };
+    return { settings, punch };
+  }
+
+  private static async findInScope(req: AuthenticatedRequest): Promise<IAttendance> {
+    const attendance = await Attendance.findOne(req.facilityScope!.apply({ _id: req.params.id }));
+    if (!attendance) {
+      throw new AppError('Attendance record not found', 404);
+    }
+    return attendance;
+  }
+
+  // Check in for the current shift (or an unscheduled day when the employee has no shift)
+  static async checkIn(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolvePunchFacility(req);
+      const { settings, punch } = await AttendanceController.verifyPunch(req, facilityId);
+      const employeeId = req.user._id;
+
+      const open = await Attendance.findOne({ employeeId, 'checkIn.time': { $exists: true }, 'checkOut.time': { $exists: false } });
+      if (open) {
+        throw new AppError('You are still checked in; check out of your previous shift first', 409);
+      }
+
+      const shift = await AttendanceService.findCurrentShift(employeeId, facilityId, settings.timezone, punch.time);
+      const date = shift?.date ?? new Date(`${AttendanceService.localDateKey(punch.time, settings.timezone)}T00:00:00.000Z`);
+      const shiftScheduleId = shift?.shiftScheduleId ?? null;
+
+      let attendance = await Attendance.findOne({ employeeId, date, shiftScheduleId });
+      if (attendance?.checkIn) {
+        throw new AppError('You have already checked in for this shift', 409);
+      }
+      if (!attendance) {
+        attendance = new Attendance({
+          facilityId,
+          employeeId,
+          date,
+          shiftScheduleId,
+          rosterId: shift?.rosterId,
+          scheduledStart: shift?.scheduledStart,
+          scheduledEnd: shift?.scheduledEnd
+        });
+      }
+
+      AttendanceService.applyCheckIn(attendance, punch, settings);
+      attendance.updatedBy = employeeId;
+      await attendance.save();
+
+      if (shift?.rosterId) {
+        await Roster.updateOne(
+          { _id: shift.rosterId, 'shifts._id': shift.rosterEntryId },
+          { $set: { 'shifts.$.status': 'present' } }
+        );
+      }
+
+      logger.info(`Employee ${employeeId} checked in at facility ${facilityId} (${punch.method})`);
+
+      res.status(201).json({
+        status: 'success',
+        message: attendance.lateMinutes > 0
+          ? `Checked in ${attendance.lateMinutes} minute(s) late`
+          : shift ? 'Checked in' : 'Checked in; no shift is scheduled for you at this time',
+        data: { attendance }
+      });
+    } catch (error) {
+      logger.error('Check in error:', error);
+      next(error);
+    }
+  }
+
+  // Check out of the shift the employee is checked in for
+  static async checkOut(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolvePunchFacility(req);
+
+      const attendance = await Attendance.findOne({
+        employeeId: req.user._id,
+        facilityId,
+        'checkIn.time': { $exists: true },
+        'checkOut.time': { $exists: false }
+      }).sort({ 'checkIn.time': -1 });
+      if (!attendance) {
+        throw new AppError('You are not checked in at this facility', 404);
+      }
+
+      const { settings, punch } = await AttendanceController.verifyPunch(req, facilityId);
+      AttendanceService.applyCheckOut(attendance, punch, settings);
+      attendance.updatedBy = req.user._id;
+      await attendance.save();
+
+      logger.info(`Employee ${req.user._id} checked out at facility ${facilityId} (${punch.method})`);
+
+      res.json({
+        status: 'success',
+        message: attendance.earlyExitMinutes > 0
+          ? `Checked out ${attendance.earlyExitMinutes} minute(s) before the end of your shift`
+          : 'Checked out',
+        data: { attendance }
+      });
+    } catch (error) {
+      logger.error('Check out error:', error);
+      next(error);
+    }
+  }
+
+  // Get the signed-in employee's attendance, newest first
+  static async getMyAttendance(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+      const filter: any = { employeeId: req.user._id };
+      const date = dateRangeFilter(req.query.from, req.query.to);
+      if (date) filter.date = date;
+
+      const [records, total] = await Promise.all([
+        Attendance.find(filter)
+          .sort({ date: -1, scheduledStart: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('facilityId', 'siteName city')
+          .populate('shiftScheduleId', 'shiftName startTime endTime'),
+        Attendance.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: records.length,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        data: { records }
+      });
+    } catch (error) {
+      logger.error('Get my attendance error:', error);
+      next(error);
+    }
+  }
+
+  // Get attendance records of the facilities in the user's scope
+  static async getAttendanceRecords(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, employeeId, status, late, earlyExit } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(facilityId as string | undefined);
+      if (facilityCondition === null) {
+        throw new AppError('You can only view attendance of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition };
+      if (employeeId) filter.employeeId = employeeId;
+      if (status) filter.status = status;
+      if (late !== undefined) filter.lateMinutes = late === 'true' ? { $gt: 0 } : 0;
+      if (earlyExit !== undefined) filter.earlyExitMinutes = earlyExit === 'true' ? { $gt: 0 } : 0;
+      const date = dateRangeFilter(req.query.from, req.query.to);
+      if (date) filter.date = date;
+
+      const [records, total] = await Promise.all([
+        Attendance.find(filter)
+          .sort({ date: -1, scheduledStart: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('facilityId', 'siteName city')
+          .populate('employeeId', 'firstName lastName email')
+          .populate('shiftScheduleId', 'shiftName startTime endTime'),
+        Attendance.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: records.length,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        data: { records }
+      });
+    } catch (error) {
+      logger.error('Get attendance records error:', error);
+      next(error);
+    }
+  }
+
+  // Get an attendance record
+  static async getAttendanceById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const attendance = await AttendanceController.findInScope(req);
+      await attendance.populate([
+        { path: 'facilityId', select: 'siteName city' },
+        { path: 'employeeId', select: 'firstName lastName email' },
+        { path: 'shiftScheduleId', select: 'shiftName startTime endTime' },
+        { path: 'updatedBy', select: 'firstName lastName' }
+      ]);
+
+      res.json({
+        status: 'success',
+        data: { attendance }
+      });
+    } catch (error) {
+      logger.error('Get attendance by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Correct an attendance record (e.g. a missed check-out or a wrongly marked absence); remarks are mandatory
+  static async updateAttendance(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const attendance = await AttendanceController.findInScope(req);
+      if (await TimesheetService.findSignedOff(attendance.facilityId, attendance.employeeId, attendance.date)) {
+        throw new AppError('The timesheet covering this attendance is signed off; reopen it before correcting attendance', 409);
+      }
+      const { status, checkInTime, checkOutTime, remarks } = req.body;
+      const settings = await AttendanceService.getSettings(attendance.facilityId);
+
+      if (checkInTime) {
+        AttendanceService.applyCheckIn(attendance, { time: new Date(checkInTime), method: AttendanceVerification.MANUAL }, settings);
+      }
+      if (checkOutTime) {
+        if (!attendance.checkIn) {
+          throw new AppError('A check-out needs a check-in; provide checkInTime as well', 400);
+        }
+        const checkOut = new Date(checkOutTime);
+        if (checkOut <= attendance.checkIn.time) {
+          throw new AppError('checkOutTime must be after the check-in', 400);
+        }
+        AttendanceService.applyCheckOut(attendance, { time: checkOut, method: AttendanceVerification.MANUAL }, settings);
+      } else if (checkInTime && attendance.checkOut) {
+        // Keep the time worked consistent with the corrected check-in
+        AttendanceService.applyCheckOut(attendance, attendance.checkOut, settings);
+      }
+      if (status) {
+        attendance.status = status;
+        attendance.autoMarked = false;
+        if (status !== AttendanceStatus.PRESENT) {
+          attendance.lateMinutes = 0;
+          attendance.earlyExitMinutes = 0;
+        }
+      }
+
+      attendance.remarks = remarks;
+      attendance.updatedBy = req.user._id;
+      await attendance.save();
+
+      if (attendance.rosterId && status) {
+        await Roster.updateOne(
+          { _id: attendance.rosterId, shifts: { $elemMatch: { employeeId: attendance.employeeId, shiftScheduleId: attendance.shiftScheduleId } } },
+          { $set: { 'shifts.$.status': status === AttendanceStatus.ON_LEAVE ? 'leave' : status } }
+        );
+      }
+
+      logger.info(`Attendance ${attendance._id} corrected by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Attendance updated successfully',
+        data: { attendance }
+      });
+    } catch (error) {
+      logger.error('Update attendance error:', error);
+      next(error);
+    }
+  }
+
+  // Resolve the facility of a report or job request within the user's scope
+  private static resolveFacility(req: AuthenticatedRequest, requested?: string): string {
+    const facilityId = requested || req.facilityScope!.defaultFacilityId();
+    if (!facilityId) {
+      throw new AppError('facilityId is required', 400);
+    }
+    if (!req.facilityScope!.allows(facilityId)) {
+      throw new AppError('You can only manage attendance of your managed facilities', 403);
+    }
+    return facilityId;
+  }
+
+  // Daily attendance report of a facility
+  static async getDailyReport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.query.facilityId as string | undefined);
+      const settings = await AttendanceService.getSettings(facilityId);
+      const date = (req.query.date as string | undefined) || AttendanceService.localDateKey(new Date(), settings.timezone);
+
+      const report = await AttendanceService.getDailyReport(facilityId, date, settings);
+
+      res.json({
+        status: 'success',
+        data: { facilityId, ...report }
+      });
+    } catch (error) {
+      logger.error('Get daily attendance report error:', error);
+      next(error);
+    }
+  }
+
+  // Monthly attendance report of a facility, per employee
+  static async getMonthlyReport(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.query.facilityId as string | undefined);
+      const now = new Date();
+      const year = Number(req.query.year) || now.getUTCFullYear();
+      const month = Number(req.query.month) || now.getUTCMonth() + 1;
+
+      const report = await AttendanceService.getMonthlyReport(facilityId, year, month);
+
+      res.json({
+        status: 'success',
+        data: { facilityId, ...report }
+      });
+    } catch (error) {
+      logger.error('Get monthly attendance report error:', error);
+      next(error);
+    }
+  }
+
+  // Mark absentees of a facility's ended shifts now instead of waiting for the scheduled job
+  static async markAbsentees(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.body.facilityId);
+      const settings = await AttendanceService.getSettings(facilityId);
+      const date = req.body.date || AttendanceService.localDateKey(new Date(), settings.timezone);
+
+      const result = await AttendanceService.markAbsenteesForDay(facilityId, date, settings);
+
+      logger.info(`Absentees of ${date} in facility ${facilityId} marked by ${req.user._id}: ${result.absent} absent, ${result.onLeave} on leave`);
+
+      res.json({
+        status: 'success',
+        message: `${result.absent} marked absent, ${result.onLeave} marked on leave`,
+        data: { facilityId, date, ...result }
+      });
+    } catch (error) {
+      logger.error('Mark absentees error:', error);
+      next(error);
+    }
+  }
+
+  // Import a punch log exported by a biometric terminal and reconcile it into attendance records
+  static async importPunchLog(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        throw new AppError('A punch log file is required', 400);
+      }
+      const facilityId = AttendanceController.resolveFacility(req, req.body.facilityId);
+      const settings = await AttendanceService.getSettings(facilityId);
+      const dryRun = req.body.dryRun === true || req.body.dryRun === 'true';
+
+      const log = PunchImportService.parse(req.file.buffer.toString('utf8'), settings.timezone, req.body.dateOrder || 'DMY');
+      if (log.punches.length === 0) {
+        throw new AppError('No punches could be read from the file', 400);
+      }
+      const times = log.punches.map(punch => punch.time.getTime());
+      if (Math.max(...times) - Math.min(...times) > MAX_IMPORT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        throw new AppError(`A punch log can cover at most ${MAX_IMPORT_RANGE_DAYS} days`, 400);
+      }
+
+      const report = await PunchImportService.reconcile(facilityId, log, settings, { dryRun, actor: req.user });
+
+      if (!dryRun) {
+        logger.info(`Punch log ${req.file.originalname} imported into facility ${facilityId} by ${req.user._id}: ${report.records.created} created, ${report.records.updated} updated`);
+      }
+
+      res.json({
+        status: 'success',
+        message: dryRun
+          ? 'Punch log checked, nothing was saved'
+          : `${report.records.created} attendance records created, ${report.records.updated} updated`,
+        data: { facilityId, report }
+      });
+    } catch (error) {
+      logger.error('Import punch log error:', error);
+      next(error);
+    }
+  }
+
+  // Get the attendance settings of a facility (defaults when not configured)
+  static async getSettings(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.params.facilityId);
+      const settings = await AttendanceService.getSettings(facilityId);
+      const { qrTokenId, ...rest } = settings.toObject();
+
+      res.json({
+        status: 'success',
+        data: { settings: { ...rest, hasQrCode: !!qrTokenId } }
+      });
+    } catch (error) {
+      logger.error('Get attendance settings error:', error);
+      next(error);
+    }
+  }
+
+  // Update the attendance settings of a facility
+  static async updateSettings(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.params.facilityId);
+      const settings = await AttendanceService.getSettings(facilityId);
+
+      settings.set(req.body);
+      if (req.body.geofence === null) {
+        settings.geofence = undefined;
+      }
+      if (settings.verificationMethods.includes(AttendanceVerification.GEOFENCE) && !settings.geofence) {
+        throw new AppError('Configure a geofence to accept geofence verification', 400);
+      }
+      settings.createdBy = settings.createdBy ?? req.user._id;
+      settings.updatedBy = req.user._id;
+      await settings.save();
+
+      logger.info(`Attendance settings of facility ${facilityId} updated by ${req.user._id}`);
+
+      const { qrTokenId, ...rest } = settings.toObject();
+      res.json({
+        status: 'success',
+        message: 'Attendance settings updated successfully',
+        data: { settings: { ...rest, hasQrCode: !!qrTokenId } }
+      });
+    } catch (error) {
+      logger.error('Update attendance settings error:', error);
+      next(error);
+    }
+  }
+
+  // Get the facility's current attendance QR code for printing
+  static async getQrCode(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.params.facilityId);
+      const settings = await AttendanceService.getSettings(facilityId);
+
+      const token = AttendanceService.getQrToken(settings);
+      if (!token) {
+        throw new AppError('No attendance QR code has been generated for this facility', 404);
+      }
+
+      res.json({
+        status: 'success',
+        data: {
+          facilityId,
+          issuedAt: settings.qrIssuedAt,
+          qrCode: token,
+          qrCodeImage: await AttendanceService.getQrCodeDataUrl(token)
+        }
+      });
+    } catch (error) {
+      logger.error('Get attendance QR code error:', error);
+      next(error);
+    }
+  }
+
+  // Generate a new attendance QR code; printed copies of the previous code stop working
+  static async regenerateQrCode(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = AttendanceController.resolveFacility(req, req.params.facilityId);
+      const settings = await AttendanceService.getSettings(facilityId);
+
+      const token = await AttendanceService.regenerateQrToken(settings, req.user);
+
+      logger.info(`Attendance QR code of facility ${facilityId} regenerated by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Attendance QR code generated; replace any printed copies of the previous code',
+        data: {
+          facilityId,
+          issuedAt: settings.qrIssuedAt,
+          qrCode: token,
+          qrCodeImage: await AttendanceService.getQrCodeDataUrl(token)
+        }
+      });
+    } catch (error) {
+      logger.error('Regenerate attendance QR code error:', error);
+      next(error);
+    }
+  }
+}
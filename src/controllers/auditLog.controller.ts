@@ -0,0 +1,92 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { AuditLog } from '../models/AuditLog';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+// A date without a time part (YYYY-MM-DD) as an end bound covers that whole day
+const toEndOfRange = (value: string): Date => {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+export class AuditLogController {
+  // Get audit log entries with filters by entity, user, facility, action and date range
+  static async getAuditLogs(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType, entityId, userId, facilityId, action, startDate, endDate } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      // Users limited to some facilities only see entries of those facilities
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError(FACILITY_ACCESS_DENIED_MESSAGE, 403));
+      }
+
+      const filter: any = { ...facilityCondition };
+      if (entityType) filter.entityType = entityType;
+      if (entityId) filter.entityId = entityId;
+      if (userId) filter.userId = userId;
+      if (action) filter.action = action;
+      if (startDate || endDate) {
+        filter.createdAt = {};
+        if (startDate) filter.createdAt.$gte = new Date(startDate as string);
+        if (endDate) filter.createdAt.$lte = toEndOfRange(endDate as string);
+      }
+
+      const [auditLogs, total] = await Promise.all([
+        AuditLog.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('userId', 'firstName lastName email role')
+          .populate('facilityId', 'siteName city')
+          .lean(),
+        AuditLog.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: auditLogs.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { auditLogs }
+      });
+    } catch (error) {
+      logger.error('Get audit logs error:', error);
+      next(error);
+    }
+  }
+
+  // Get a single audit log entry
+  static async getAuditLogById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const auditLog = await AuditLog.findOne({ _id: req.params.id })
+        .populate('userId', 'firstName lastName email role')
+        .populate('facilityId', 'siteName city')
+        .lean();
+
+      // Entries outside the user's facilities are reported as missing
+      if (!auditLog || !req.facilityScope!.allows(auditLog.facilityId)) {
+        return next(new AppError('Audit log entry not found', 404));
+      }
+
+      res.json({
+        status: 'success',
+        data: { auditLog }
+      });
+    } catch (error) {
+      logger.error('Get audit log by ID error:', error);
+      next(error);
+    }
+  }
+}
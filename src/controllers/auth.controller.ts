@@ -4,7 +4,11 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 import { StringValue } from 'ms';
 import { config } from '../config';
 import { AppError } from '../middleware/errorHandler';
-import { User, UserStatus, VerificationStatus } from '../models/User';
+import { AuthenticatedRequest, AuthMiddleware } from '../middleware/auth.middleware';
+import { ISessionRefreshToken, IUser, IUserSession, User, UserStatus, VerificationStatus } from '../models/User';
+import { MailService } from '../services/mail.service';
+import { PermissionService } from '../services/permission.service';
+import { TwoFactorService } from '../services/twoFactor.service';
 import { logger } from '../utils/logger';
 
 // Interface for JWT payload
@@ -12,6 +16,20 @@ interface JWTPayload {
   id: string;
   email: string;
   role: string;
+  sid?: string; // Session (refresh token family) id
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+// Purpose of the short-lived token issued between the password and 2FA steps
+type MfaTokenPurpose = 'mfa_verify' | 'mfa_enroll';
+
+// Interface for MFA pending token payload
+interface MfaTokenPayload {
+  id: string;
+  purpose: MfaTokenPurpose;
+  rememberMe: boolean;
   iat?: number;
   exp?: number;
 }
@@ -51,6 +69,132 @@ export class AuthController {
     return jwt.verify(token, config.JWT_REFRESH_SECRET) as JWTPayload;
   }
 
+  // Hash a refresh token for storage in the session
+  private static hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Issue an access/refresh token pair for a session (refresh token family)
+  private static issueSessionTokens(user: IUser, familyId: string, accessTokenExpiry: string | number) {
+    const tokenPayload = {
+      id: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      sid: familyId
+    };
+
+    const accessToken = AuthController.generateToken(tokenPayload, accessTokenExpiry);
+    // Unique jti so that two refreshes within the same second never produce the same token
+    const refreshToken = AuthController.generateRefreshToken({ ...tokenPayload, jti: crypto.randomUUID() });
+    const { exp } = jwt.decode(refreshToken) as JWTPayload;
+
+    const refreshTokenInfo: ISessionRefreshToken = {
+      familyId,
+      tokenHash: AuthController.hashRefreshToken(refreshToken),
+      expiresAt: new Date((exp as number) * 1000)
+    };
+
+    return { accessToken, refreshToken, refreshTokenInfo };
+  }
+
+  // Get the bearer token of the current request
+  private static getBearerToken(req: Request): string | null {
+    const authHeader = req.headers.authorization;
+    return authHeader && authHeader.startsWith('Bearer ') ? authHeader.split(' ')[1] : null;
+  }
+
+  // Generate the short-lived "mfa pending" token returned after a correct password
+  private static generateMfaToken(user: IUser, purpose: MfaTokenPurpose, rememberMe: boolean): string {
+    const payload: Omit<MfaTokenPayload, 'iat' | 'exp'> = {
+      id: user._id.toString(),
+      purpose,
+      rememberMe
+    };
+    const options: SignOptions = {
+      expiresIn: config.MFA_TOKEN_EXPIRES_IN as StringValue | number
+    };
+    return jwt.sign(payload, config.JWT_SECRET as string, options);
+  }
+
+  // Verify an mfa pending token and make sure it was issued for the expected step
+  private static verifyMfaToken(token: string, purpose: MfaTokenPurpose): MfaTokenPayload | null {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET) as MfaTokenPayload;
+      return decoded.purpose === purpose ? decoded : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Issue access/refresh tokens and record the session once all login factors are satisfied
+  private static async completeLogin(user: IUser, req: Request, rememberMe: boolean) {
+    // Failed attempts only start over once every factor succeeded, so guessing second factors still locks the account
+    await user.resetFailedLogin();
+
+    // Update last login
+    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    await user.updateLastLogin(clientIP);
+
+    // Generate tokens for a new session (refresh token family)
+    const accessTokenExpiry = rememberMe ? '7d' : config.JWT_EXPIRES_IN;
+    const { accessToken, refreshToken, refreshTokenInfo } = AuthController.issueSessionTokens(
+      user,
+      crypto.randomUUID(),
+      accessTokenExpiry
+    );
+
+    // Store session token in user record
+    await user.addSessionToken(accessToken, req.headers['user-agent'], clientIP, refreshTokenInfo);
+
+    return {
+      // Remove sensitive data from response
+      user: user.toJSON(),
+      tokens: {
+        access: {
+          token: accessToken,
+          expiresIn: accessTokenExpiry
+        },
+        refresh: {
+          token: refreshToken,
+          expiresIn: config.JWT_REFRESH_EXPIRES_IN
+        }
+      }
+    };
+  }
+
+  // Generate a pending TOTP secret for the user and return what the authenticator app needs
+  private static async startTwoFactorEnrollment(user: IUser) {
+    const secret = TwoFactorService.generateSecret();
+    const otpAuthUri = TwoFactorService.buildOtpAuthUri(secret, user.email);
+    const qrCode = await TwoFactorService.generateQRCodeDataUrl(otpAuthUri);
+
+    user.security.twoFactorPendingSecret = secret;
+    await user.save();
+
+    return { secret, otpAuthUri, qrCode };
+  }
+
+  // Confirm the pending secret with a first code, enable 2FA and return fresh recovery codes
+  private static async confirmTwoFactorEnrollment(user: IUser, code: string): Promise<string[] | null> {
+    const pendingSecret = user.security.twoFactorPendingSecret;
+    const step = pendingSecret ? TwoFactorService.matchTokenStep(pendingSecret, code) : null;
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = TwoFactorService.generateRecoveryCodes();
+
+    user.security.twoFactorSecret = pendingSecret;
+    user.security.twoFactorPendingSecret = undefined;
+    user.security.twoFactorEnabled = true;
+    user.security.twoFactorEnabledAt = new Date();
+    user.security.twoFactorLastUsedStep = step;
+    user.security.recoveryTokens = recoveryCodes.map(TwoFactorService.hashRecoveryCode);
+    await user.save();
+
+    return recoveryCodes;
+  }
+
   // Login user
   static async login(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -106,52 +250,325 @@ export class AuthController {
         return next(new AppError('Account is not verified. Please verify your email first', 403));
       }
 
-      // Reset failed login attempts on successful login
-      await user.resetFailedLogin();
+      // Second factor: either verify an enrolled authenticator or force enrollment for protected roles
+      const twoFactorEnrollmentRequired = !user.security.twoFactorEnabled && TwoFactorService.isRequiredForRole(user.role);
+      if (user.security.twoFactorEnabled || twoFactorEnrollmentRequired) {
+        const mfaToken = AuthController.generateMfaToken(
+          user,
+          twoFactorEnrollmentRequired ? 'mfa_enroll' : 'mfa_verify',
+          rememberMe
+        );
 
-      // Update last login
-      const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-      await user.updateLastLogin(clientIP);
+        logger.info(`Password verified, awaiting second factor for user: ${user.email}`);
+
+        res.status(200).json({
+          status: 'success',
+          message: twoFactorEnrollmentRequired
+            ? 'Two-factor authentication must be set up for this account'
+            : 'Two-factor authentication code required',
+          data: {
+            mfaRequired: true,
+            mfaEnrollmentRequired: twoFactorEnrollmentRequired,
+            mfaToken,
+            expiresIn: config.MFA_TOKEN_EXPIRES_IN
+          }
+        });
+        return;
+      }
 
-      // Generate tokens
-      const tokenPayload = {
-        id: user._id.toString(),
-        email: user.email,
-        role: user.role
-      };
+      const loginData = await AuthController.completeLogin(user, req, rememberMe);
 
-      const accessTokenExpiry = rememberMe ? '7d' : config.JWT_EXPIRES_IN;
-      const accessToken = AuthController.generateToken(tokenPayload, accessTokenExpiry);
-      const refreshToken = AuthController.generateRefreshToken(tokenPayload);
+      logger.info(`User logged in successfully: ${user.email}`);
 
-      // Store session token in user record
-      await user.addSessionToken(accessToken, req.headers['user-agent'], clientIP);
+      res.status(200).json({
+        status: 'success',
+        message: 'Login successful',
+        data: loginData
+      });
+    } catch (error: any) {
+      logger.error('Login error:', error);
+      return next(new AppError('Login failed', 500));
+    }
+  }
 
-      // Remove sensitive data from response
-      const userResponse = user.toJSON();
+  // Complete login with a TOTP code or a one-time recovery code
+  static async verifyTwoFactorLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code, recoveryCode } = req.body;
 
-      logger.info(`User logged in successfully: ${user.email}`);
+      const decoded = AuthController.verifyMfaToken(mfaToken, 'mfa_verify');
+      if (!decoded) {
+        return next(new AppError('Invalid or expired two-factor session. Please login again', 401));
+      }
+
+      const user = await User.findOne({ _id: decoded.id, isDeleted: false })
+        .select('+security.twoFactorSecret +security.recoveryTokens');
+
+      if (!user || !user.security.twoFactorEnabled || !user.security.twoFactorSecret) {
+        return next(new AppError('Invalid or expired two-factor session. Please login again', 401));
+      }
+
+      if (user.isAccountLocked()) {
+        const lockoutTime = user.security.lockoutUntil;
+        const remainingTime = lockoutTime ? Math.ceil((lockoutTime.getTime() - Date.now()) / (1000 * 60)) : 0;
+        return next(new AppError(`Account is locked. Try again in ${remainingTime} minutes`, 423));
+      }
+
+      if (user.status !== UserStatus.ACTIVE) {
+        return next(new AppError(`Account is ${user.status}. Please contact administrator`, 403));
+      }
+
+      let isValid = false;
+      let remainingRecoveryCodes = 0;
+      if (code) {
+        isValid = await TwoFactorService.consumeToken(user, code);
+      } else if (recoveryCode) {
+        // Recovery codes are single use: the matching hash is removed once consumed
+        isValid = await TwoFactorService.consumeRecoveryCode(user, recoveryCode);
+        if (isValid) {
+          remainingRecoveryCodes = Math.max((user.security.recoveryTokens?.length || 0) - 1, 0);
+          logger.warn(`Recovery code used for user: ${user.email} (${remainingRecoveryCodes} remaining)`);
+        }
+      }
+
+      if (!isValid) {
+        await user.incrementFailedLogin();
+        logger.warn(`Failed two-factor attempt for user: ${user.email}`);
+        return next(new AppError('Invalid two-factor code', 401));
+      }
+
+      const loginData = await AuthController.completeLogin(user, req, decoded.rememberMe);
+
+      logger.info(`User logged in successfully with two-factor authentication: ${user.email}`);
 
       res.status(200).json({
         status: 'success',
         message: 'Login successful',
         data: {
-          user: userResponse,
-          tokens: {
-            access: {
-              token: accessToken,
-              expiresIn: accessTokenExpiry
-            },
-            refresh: {
-              token: refreshToken,
-              expiresIn: config.JWT_REFRESH_EXPIRES_IN
-            }
-          }
+          ...loginData,
+          ...(recoveryCode && { remainingRecoveryCodes })
         }
       });
     } catch (error: any) {
-      logger.error('Login error:', error);
-      return next(new AppError('Login failed', 500));
+      logger.error('Two-factor login error:', error);
+      return next(new AppError('Two-factor verification failed', 500));
+    }
+  }
+
+  // Start mandatory 2FA enrollment during login (role requires 2FA but user has not enrolled yet)
+  static async startLoginTwoFactorEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken } = req.body;
+
+      const decoded = AuthController.verifyMfaToken(mfaToken, 'mfa_enroll');
+      if (!decoded) {
+        return next(new AppError('Invalid or expired two-factor session. Please login again', 401));
+      }
+
+      const user = await User.findOne({ _id: decoded.id, isDeleted: false });
+      if (!user || user.security.twoFactorEnabled) {
+        return next(new AppError('Invalid or expired two-factor session. Please login again', 401));
+      }
+
+      const enrollment = await AuthController.startTwoFactorEnrollment(user);
+
+      logger.info(`Mandatory two-factor enrollment started for user: ${user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Scan the QR code with your authenticator app and confirm with a code',
+        data: enrollment
+      });
+    } catch (error: any) {
+      logger.error('Two-factor enrollment error:', error);
+      return next(new AppError('Failed to start two-factor enrollment', 500));
+    }
+  }
+
+  // Confirm mandatory 2FA enrollment during login and complete the login
+  static async confirmLoginTwoFactorEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body;
+
+      const decoded = AuthController.verifyMfaToken(mfaToken, 'mfa_enroll');
+      if (!decoded) {
+        return next(new AppError('Invalid or expired two-factor session. Please login again', 401));
+      }
+
+      const user = await User.findOne({ _id: decoded.id, isDeleted: false })
+        .select('+security.twoFactorPendingSecret');
+      if (!user || user.security.twoFactorEnabled) {
+        return next(new AppError('Invalid or expired two-factor session. Please login again', 401));
+      }
+
+      const recoveryCodes = await AuthController.confirmTwoFactorEnrollment(user, code);
+      if (!recoveryCodes) {
+        return next(new AppError('Invalid two-factor code', 400));
+      }
+
+      const loginData = await AuthController.completeLogin(user, req, decoded.rememberMe);
+
+      logger.info(`Two-factor authentication enabled and login completed for user: ${user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Two-factor authentication enabled. Store your recovery codes safely',
+        data: {
+          ...loginData,
+          recoveryCodes
+        }
+      });
+    } catch (error: any) {
+      logger.error('Two-factor enrollment confirmation error:', error);
+      return next(new AppError('Failed to confirm two-factor enrollment', 500));
+    }
+  }
+
+  // Start 2FA enrollment for the authenticated user
+  static async setupTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = req.user;
+
+      if (user.security.twoFactorEnabled) {
+        return next(new AppError('Two-factor authentication is already enabled', 400));
+      }
+
+      const enrollment = await AuthController.startTwoFactorEnrollment(user);
+
+      logger.info(`Two-factor enrollment started for user: ${user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Scan the QR code with your authenticator app and confirm with a code',
+        data: enrollment
+      });
+    } catch (error: any) {
+      logger.error('Two-factor setup error:', error);
+      return next(new AppError('Failed to start two-factor setup', 500));
+    }
+  }
+
+  // Confirm 2FA enrollment for the authenticated user with a first code
+  static async enableTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.body;
+
+      const user = await User.findOne({ _id: req.user._id, isDeleted: false })
+        .select('+security.twoFactorPendingSecret');
+
+      if (!user) {
+        return next(new AppError('User not found', 404));
+      }
+
+      if (user.security.twoFactorEnabled) {
+        return next(new AppError('Two-factor authentication is already enabled', 400));
+      }
+
+      if (!user.security.twoFactorPendingSecret) {
+        return next(new AppError('Start two-factor setup before confirming it', 400));
+      }
+
+      const recoveryCodes = await AuthController.confirmTwoFactorEnrollment(user, code);
+      if (!recoveryCodes) {
+        return next(new AppError('Invalid two-factor code', 400));
+      }
+
+      logger.info(`Two-factor authentication enabled for user: ${user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Two-factor authentication enabled. Store your recovery codes safely',
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error: any) {
+      logger.error('Enable two-factor error:', error);
+      return next(new AppError('Failed to enable two-factor authentication', 500));
+    }
+  }
+
+  // Disable 2FA for the authenticated user (requires password and a current code)
+  static async disableTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { password, code } = req.body;
+
+      const user = await User.findOne({ _id: req.user._id, isDeleted: false })
+        .select('+password +security.twoFactorSecret');
+
+      if (!user) {
+        return next(new AppError('User not found', 404));
+      }
+
+      if (!user.security.twoFactorEnabled || !user.security.twoFactorSecret) {
+        return next(new AppError('Two-factor authentication is not enabled', 400));
+      }
+
+      if (TwoFactorService.isRequiredForRole(user.role)) {
+        return next(new AppError('Two-factor authentication is mandatory for your role and cannot be disabled', 403));
+      }
+
+      const isPasswordValid = await user.comparePassword(password);
+      if (!isPasswordValid || !await TwoFactorService.consumeToken(user, code)) {
+        return next(new AppError('Invalid password or two-factor code', 400));
+      }
+
+      user.security.twoFactorEnabled = false;
+      user.security.twoFactorSecret = undefined;
+      user.security.twoFactorPendingSecret = undefined;
+      user.security.twoFactorEnabledAt = undefined;
+      user.security.twoFactorLastUsedStep = undefined;
+      user.security.recoveryTokens = [];
+      await user.save();
+
+      logger.info(`Two-factor authentication disabled for user: ${user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error: any) {
+      logger.error('Disable two-factor error:', error);
+      return next(new AppError('Failed to disable two-factor authentication', 500));
+    }
+  }
+
+  // Replace all recovery codes of the authenticated user (requires a current code)
+  static async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.body;
+
+      const user = await User.findOne({ _id: req.user._id, isDeleted: false })
+        .select('+security.twoFactorSecret');
+
+      if (!user) {
+        return next(new AppError('User not found', 404));
+      }
+
+      if (!user.security.twoFactorEnabled || !user.security.twoFactorSecret) {
+        return next(new AppError('Two-factor authentication is not enabled', 400));
+      }
+
+      if (!await TwoFactorService.consumeToken(user, code)) {
+        return next(new AppError('Invalid two-factor code', 400));
+      }
+
+      const recoveryCodes = TwoFactorService.generateRecoveryCodes();
+      user.security.recoveryTokens = recoveryCodes.map(TwoFactorService.hashRecoveryCode);
+      await user.save();
+
+      logger.info(`Recovery codes regenerated for user: ${user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Recovery codes regenerated. Previous codes are no longer valid',
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error: any) {
+      logger.error('Regenerate recovery codes error:', error);
+      return next(new AppError('Failed to regenerate recovery codes', 500));
     }
   }
 
@@ -187,18 +604,38 @@ export class AuthController {
         return next(new AppError(`Account is ${user.status}`, 403));
       }
 
-      // Generate new access token
-      const tokenPayload = {
-        id: user._id.toString(),
-        email: user.email,
-        role: user.role
-      };
+      // Refresh tokens issued before rotation was introduced carry no session id
+      if (!decoded.sid) {
+        return next(new AppError('Invalid refresh token. Please login again', 401));
+      }
+
+      const session = user.security.sessionTokens?.find(sessionToken => sessionToken.familyId === decoded.sid);
+      if (!session) {
+        return next(new AppError('Session is no longer valid. Please login again', 401));
+      }
 
-      const newAccessToken = AuthController.generateToken(tokenPayload);
+      // Rotate: new access and refresh token for the same family
+      const { accessToken, refreshToken: newRefreshToken, refreshTokenInfo } = AuthController.issueSessionTokens(
+        user,
+        decoded.sid,
+        config.JWT_EXPIRES_IN
+      );
 
-      // Update session token
+      // Only the latest refresh token of a family is valid. Presenting an older one means the
+      // token was stolen or replayed, so the whole family (session) is revoked.
       const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-      await user.addSessionToken(newAccessToken, req.headers['user-agent'], clientIP);
+      const rotated = await user.rotateSessionToken(
+        decoded.sid,
+        AuthController.hashRefreshToken(refreshToken),
+        accessToken,
+        refreshTokenInfo,
+        clientIP
+      );
+      if (!rotated) {
+        await user.revokeSession(decoded.sid);
+        logger.warn(`Refresh token reuse detected for user: ${user.email}, session ${decoded.sid} revoked`);
+        return next(new AppError('Refresh token has already been used. Please login again', 401));
+      }
 
       logger.info(`Token refreshed for user: ${user.email}`);
 
@@ -208,8 +645,12 @@ export class AuthController {
         data: {
           tokens: {
             access: {
-              token: newAccessToken,
+              token: accessToken,
               expiresIn: config.JWT_EXPIRES_IN
+            },
+            refresh: {
+              token: newRefreshToken,
+              expiresIn: config.JWT_REFRESH_EXPIRES_IN
             }
           }
         }
@@ -260,6 +701,62 @@ export class AuthController {
     }
   }
 
+  // List active sessions (devices) of the current user
+  static async getSessions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const currentToken = AuthController.getBearerToken(req);
+      const now = new Date();
+
+      const userSessions: IUserSession[] = req.user.security.sessionTokens || [];
+      const sessions = userSessions
+        .filter(session => session.expiresAt > now)
+        .map(session => ({
+          id: session.familyId || session._id?.toString(),
+          device: session.device,
+          ip: session.ip,
+          createdAt: session.createdAt,
+          // The current session is in use right now; the others as of their last recorded request
+          lastUsedAt: session.token === currentToken ? now : session.lastUsedAt || session.createdAt,
+          expiresAt: session.expiresAt,
+          current: session.token === currentToken
+        }))
+        .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+
+      res.status(200).json({
+        status: 'success',
+        results: sessions.length,
+        data: {
+          sessions
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get sessions error:', error);
+      return next(new AppError('Failed to retrieve sessions', 500));
+    }
+  }
+
+  // Revoke a single session (e.g. a lost device) of the current user
+  static async revokeSession(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const revoked = await req.user.revokeSession(id);
+      if (!revoked) {
+        return next(new AppError('Session not found', 404));
+      }
+
+      logger.info(`Session ${id} revoked by user: ${req.user.email}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Session revoked successfully'
+      });
+    } catch (error: any) {
+      logger.error('Revoke session error:', error);
+      return next(new AppError('Failed to revoke session', 500));
+    }
+  }
+
   // Logout from all devices
   static async logoutAll(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -352,6 +849,19 @@ export class AuthController {
     }
   }
 
+  // Get effective permissions of the current user
+  static async getMyPermissions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        status: 'success',
+        data: PermissionService.getEffectivePermissions(req.user, AuthMiddleware.getRequestFacilityId(req))
+      });
+    } catch (error: any) {
+      logger.error('Get permissions error:', error);
+      return next(new AppError('Failed to retrieve permissions', 500));
+    }
+  }
+
   // Change password
   static async changePassword(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -457,6 +967,33 @@ export class AuthController {
     }
   }
 
+  // Resend the email verification link
+  static async resendVerificationEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const user = await User.findOne({
+        email: email.toLowerCase(),
+        isDeleted: false
+      });
+
+      // Always return success to prevent email enumeration; invited users verify by accepting their invitation
+      const invitationOpen = !!user?.invitation && !user.invitation.acceptedAt;
+      if (user && user.verificationStatus !== VerificationStatus.VERIFIED && !invitationOpen) {
+        await MailService.sendVerificationEmail(user);
+        logger.info(`Verification email resent for user: ${user.email}`);
+      }
+
+      res.status(200).json({
+        status: 'success',
+        message: 'If an unverified account with this email exists, a verification link has been sent'
+      });
+    } catch (error: any) {
+      logger.error('Resend verification email error:', error);
+      return next(new AppError('Failed to send verification email', 500));
+    }
+  }
+
   // Request password reset
   static async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -485,15 +1022,12 @@ export class AuthController {
       const resetToken = user.generatePasswordResetToken();
       await user.save();
 
-      // TODO: Send email with reset token
-      // For now, we'll log it (in production, send via email service)
-      logger.info(`Password reset token for ${user.email}: ${resetToken}`);
+      MailService.sendPasswordResetEmail(user, resetToken);
+      logger.info(`Password reset requested for user: ${user.email}`);
 
       res.status(200).json({
         status: 'success',
-        message: 'If an account with this email exists, a password reset link has been sent',
-        // TODO: Remove this in production
-        ...(config.NODE_ENV === 'development' && { resetToken })
+        message: 'If an account with this email exists, a password reset link has been sent'
       });
     } catch (error: any) {
       logger.error('Forgot password error:', error);
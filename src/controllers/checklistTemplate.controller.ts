@@ -0,0 +1,207 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ChecklistTemplate, IChecklistTemplate } from '../models/ChecklistTemplate';
+import { FloorLocation } from '../models/FloorLocation';
+import { HygieneSection } from '../models/HygieneSection';
+import { AttendanceService } from '../services/attendance.service';
+import { ChecklistTemplateService } from '../services/checklistTemplate.service';
+import { logger } from '../utils/logger';
+
+// Furthest date checklists can be generated for on demand
+const MAX_GENERATE_DAYS = 31;
+
+export class ChecklistTemplateController {
+  // Templates of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IChecklistTemplate> {
+    const template = await ChecklistTemplate.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!template) {
+      throw new AppError('Checklist template not found', 404);
+    }
+    return template;
+  }
+
+  // The hygiene section and floor locations must be the facility's own
+  private static async checkBindings(template: IChecklistTemplate): Promise<void> {
+    const section = await HygieneSection.findOne({ _id: template.hygieneSectionId, facilityId: template.facilityId, isDeleted: false });
+    if (!section || !section.isActive) {
+      throw new AppError('Hygiene section not found at this facility or inactive', 400);
+    }
+
+    const floors = await FloorLocation.countDocuments({ _id: { $in: template.floorLocationIds }, facilityId: template.facilityId, isDeleted: false });
+    if (floors !== template.floorLocationIds.length) {
+      throw new AppError('One or more floor locations were not found at this facility', 400);
+    }
+    if (template.endDate && template.endDate < template.startDate) {
+      throw new AppError('endDate must not be before startDate', 400);
+    }
+  }
+
+  // Create a checklist template; the checklists of today are generated right away
+  static async createChecklistTemplate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only manage checklist templates of your managed facilities', 403);
+      }
+
+      const template = new ChecklistTemplate({
+        ...req.body,
+        facilityId,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+      await ChecklistTemplateController.checkBindings(template);
+      await template.save();
+
+      const checklists = await ChecklistTemplateService.regenerate(template, req.user._id);
+
+      logger.info(`Checklist template ${template._id} (${template.name}) created for facility ${facilityId} by ${req.user._id}: ${checklists.created} checklists`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Checklist template created successfully',
+        data: { template, checklists }
+      });
+    } catch (error) {
+      logger.error('Create checklist template error:', error);
+      next(error);
+    }
+  }
+
+  // Get checklist templates, optionally of a section, department or floor location
+  static async getChecklistTemplates(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { hygieneSectionId, assignedDepartment, floorLocationId, isActive } = req.query;
+
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view checklist templates of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition, isDeleted: false };
+      if (hygieneSectionId) filter.hygieneSectionId = hygieneSectionId;
+      if (assignedDepartment) filter.assignedDepartment = assignedDepartment;
+      if (floorLocationId) filter.floorLocationIds = floorLocationId;
+      if (isActive !== undefined) filter.isActive = isActive === 'true';
+
+      const templates = await ChecklistTemplate.find(filter)
+        .populate('hygieneSectionId', 'sectionName')
+        .populate('floorLocationIds', 'floorName floorNumber')
+        .sort({ name: 1 });
+
+      res.json({
+        status: 'success',
+        results: templates.length,
+        data: { templates }
+      });
+    } catch (error) {
+      logger.error('Get checklist templates error:', error);
+      next(error);
+    }
+  }
+
+  // Get a checklist template
+  static async getChecklistTemplateById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ChecklistTemplateController.findInScope(req);
+      await template.populate([
+        { path: 'hygieneSectionId', select: 'sectionName' },
+        { path: 'floorLocationIds', select: 'floorName floorNumber' }
+      ]);
+
+      res.json({
+        status: 'success',
+        data: { template }
+      });
+    } catch (error) {
+      logger.error('Get checklist template by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update a checklist template; its checklists of today and later that nobody has started are regenerated
+  static async updateChecklistTemplate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ChecklistTemplateController.findInScope(req);
+
+      template.set({ ...req.body, updatedBy: req.user._id });
+      await ChecklistTemplateController.checkBindings(template);
+      await template.save();
+
+      const checklists = await ChecklistTemplateService.regenerate(template, req.user._id);
+
+      logger.info(`Checklist template ${template._id} updated by ${req.user._id}; ${checklists.removed} checklists removed, ${checklists.created} generated`);
+
+      res.json({
+        status: 'success',
+        message: 'Checklist template updated successfully',
+        data: { template, checklists }
+      });
+    } catch (error) {
+      logger.error('Update checklist template error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a checklist template (soft delete) and its checklists of today and later that nobody has started
+  static async deleteChecklistTemplate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ChecklistTemplateController.findInScope(req);
+
+      template.isDeleted = true;
+      template.updatedBy = req.user._id;
+      await template.save();
+      const checklists = await ChecklistTemplateService.regenerate(template, req.user._id);
+
+      logger.info(`Checklist template ${template._id} deleted by ${req.user._id}; ${checklists.removed} checklists removed`);
+
+      res.json({
+        status: 'success',
+        message: 'Checklist template deleted successfully',
+        data: { checklists }
+      });
+    } catch (error) {
+      logger.error('Delete checklist template error:', error);
+      next(error);
+    }
+  }
+
+  // Generate a template's checklists of a date ahead of the scheduled job, e.g. to plan the work of a week
+  static async generateChecklists(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ChecklistTemplateController.findInScope(req);
+      if (!template.isActive) {
+        throw new AppError('Inactive checklist templates are not generated', 400);
+      }
+
+      const { timezone } = await AttendanceService.getSettings(template.facilityId);
+      const today = AttendanceService.localDateKey(new Date(), timezone);
+      const date = req.body.date || today;
+      if (date < today) {
+        throw new AppError('Checklists cannot be generated for past dates', 400);
+      }
+      const ahead = (new Date(`${date}T00:00:00.000Z`).getTime() - new Date(`${today}T00:00:00.000Z`).getTime()) / (24 * 60 * 60 * 1000);
+      if (ahead > MAX_GENERATE_DAYS) {
+        throw new AppError(`Checklists can be generated at most ${MAX_GENERATE_DAYS} days ahead`, 400);
+      }
+      if (!ChecklistTemplateService.occursOn(template, new Date(`${date}T00:00:00.000Z`))) {
+        throw new AppError(`The template does not recur on ${date}`, 400);
+      }
+
+      const checklists = await ChecklistTemplateService.generate(template, date, req.user._id);
+
+      res.json({
+        status: 'success',
+        message: `${checklists.created} checklists generated, ${checklists.skipped} floors already had one`,
+        data: { date, checklists }
+      });
+    } catch (error) {
+      logger.error('Generate checklists error:', error);
+      next(error);
+    }
+  }
+}
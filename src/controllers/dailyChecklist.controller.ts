@@ -1,8 +1,12 @@
 import { Response } from 'express';
+import { Types } from 'mongoose';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
-import { DailyChecklist } from '../models/DailyChecklist';
+import { DailyChecklist, PhotoStage } from '../models/DailyChecklist';
 import { FloorLocation } from '../models/FloorLocation';
 import { HygieneSection } from '../models/HygieneSection';
+import { CHECKLIST_PHOTOS_PER_STAGE, ChecklistPhotoService } from '../services/checklistPhoto.service';
+import { FloorLocationQrService } from '../services/floorLocationQr.service';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 
 /**
  * @desc Create daily checklist for a floor location
@@ -12,7 +16,23 @@ import { HygieneSection } from '../models/HygieneSection';
 export const createDailyChecklist = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { hygieneSectionId, floorLocationId, checklistDate, checklistItems, assignedDepartment } = req.body;
-    const { facilityId } = req.user!;
+    const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+
+    if (!facilityId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'facilityId is required'
+      });
+      return;
+    }
+
+    if (!req.facilityScope!.allows(facilityId)) {
+      res.status(403).json({
+        status: 'error',
+        message: FACILITY_ACCESS_DENIED_MESSAGE
+      });
+      return;
+    }
 
     // Verify floor location belongs to facility
     const floorLocation = await FloorLocation.findOne({
@@ -69,11 +89,12 @@ export const createDailyChecklist = async (req: AuthenticatedRequest, res: Respo
       checklistItems: checklistItems.map((item: any) => ({
         itemName: item.itemName,
         description: item.description,
-        isCompleted: false
+        isCompleted: false,
+        photoRequired: !!item.photoRequired
       })),
       assignedDepartment,
-      createdBy: req.user!.userId,
-      updatedBy: req.user!.userId
+      createdBy: req.user!._id,
+      updatedBy: req.user!._id
     });
 
     await dailyChecklist.save();
@@ -86,7 +107,7 @@ export const createDailyChecklist = async (req: AuthenticatedRequest, res: Respo
     res.status(201).json({
       status: 'success',
       message: 'Daily checklist created successfully',
-      data: { dailyChecklist }
+      data: { dailyChecklist: await ChecklistPhotoService.present(dailyChecklist) }
     });
   } catch (error: any) {
     console.error('Error creating daily checklist:', error);
@@ -104,8 +125,8 @@ export const createDailyChecklist = async (req: AuthenticatedRequest, res: Respo
  */
 export const getDailyChecklists = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { facilityId } = req.user!;
     const { 
+      facilityId,
       page = 1, 
       limit = 10, 
       checklistDate,
@@ -115,7 +136,16 @@ export const getDailyChecklists = async (req: AuthenticatedRequest, res: Respons
       hygieneSectionId 
     } = req.query;
 
-    const query: any = { facilityId, isDeleted: false };
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json({
+        status: 'error',
+        message: FACILITY_ACCESS_DENIED_MESSAGE
+      });
+      return;
+    }
+
+    const query: any = { ...facilityCondition, isDeleted: false };
 
     if (checklistDate) {
       const date = new Date(checklistDate as string);
@@ -166,7 +196,7 @@ export const getDailyChecklists = async (req: AuthenticatedRequest, res: Respons
       status: 'success',
       message: 'Daily checklists retrieved successfully',
       data: {
-        dailyChecklists,
+        dailyChecklists: await ChecklistPhotoService.presentAll(dailyChecklists),
         pagination
       }
     });
@@ -189,12 +219,8 @@ export const getDailyChecklistByQR = async (req: AuthenticatedRequest, res: Resp
     const { qrCode } = req.params;
     const { checklistDate } = req.query;
 
-    // Find floor location by QR code
-    const floorLocation = await FloorLocation.findOne({
-      qrCode,
-      isActive: true,
-      isDeleted: false
-    });
+    // Find floor location by the signed token of its QR code
+    const floorLocation = await FloorLocationQrService.resolve(qrCode, req.facilityScope!.apply({ isActive: true }));
 
     if (!floorLocation) {
       res.status(404).json({
@@ -233,7 +259,7 @@ export const getDailyChecklistByQR = async (req: AuthenticatedRequest, res: Resp
           floorNumber: floorLocation.floorNumber,
           qrCode: floorLocation.qrCode
         },
-        dailyChecklists,
+        dailyChecklists: await ChecklistPhotoService.presentAll(dailyChecklists),
         checklistDate: searchDate
       }
     });
@@ -255,12 +281,12 @@ export const completeChecklistItem = async (req: AuthenticatedRequest, res: Resp
   try {
     const { id, itemIndex } = req.params;
     const { notes } = req.body;
-    const { userId } = req.user!;
+    const userId = req.user!._id;
 
-    const dailyChecklist = await DailyChecklist.findOne({
+    const dailyChecklist = await DailyChecklist.findOne(req.facilityScope!.apply({
       _id: id,
       isDeleted: false
-    });
+    }));
 
     if (!dailyChecklist) {
       res.status(404).json({
@@ -279,6 +305,19 @@ export const completeChecklistItem = async (req: AuthenticatedRequest, res: Resp
       return;
     }
 
+    // Items flagged for photo evidence need their photos first, when the facility requires them
+    const missingPhotos = ChecklistPhotoService.missingStages(
+      dailyChecklist.checklistItems[itemIdx],
+      await ChecklistPhotoService.getRequirement(dailyChecklist.facilityId)
+    );
+    if (missingPhotos.length > 0) {
+      res.status(400).json({
+        status: 'error',
+        message: `Upload ${missingPhotos.map(stage => stage.toLowerCase()).join(' and ')} photos of this item before completing it`
+      });
+      return;
+    }
+
     // Update the specific item
     dailyChecklist.checklistItems[itemIdx].isCompleted = true;
     dailyChecklist.checklistItems[itemIdx].completedAt = new Date();
@@ -306,13 +345,14 @@ export const completeChecklistItem = async (req: AuthenticatedRequest, res: Resp
       { path: 'completedBy', select: 'firstName lastName' },
       { path: 'checklistItems.completedBy', select: 'firstName lastName' }
     ]);
+    const presented = await ChecklistPhotoService.present(dailyChecklist);
 
     res.status(200).json({
       status: 'success',
       message: 'Checklist item completed successfully',
       data: { 
-        dailyChecklist,
-        completedItem: dailyChecklist.checklistItems[itemIdx],
+        dailyChecklist: presented,
+        completedItem: presented.checklistItems[itemIdx],
         wasFirstItem: wasNotStarted,
         allCompleted
       }
@@ -326,6 +366,210 @@ export const completeChecklistItem = async (req: AuthenticatedRequest, res: Resp
   }
 };
 
+/**
+ * @desc Upload before or after photos of a checklist item
+ * @route POST /api/daily-checklists/:id/items/:itemIndex/photos
+ * @access Private (All authenticated users)
+ */
+export const uploadChecklistItemPhotos = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, itemIndex } = req.params;
+    const stage = req.body.stage as PhotoStage;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const userId = req.user!._id;
+
+    if (!Object.values(PhotoStage).includes(stage)) {
+      res.status(400).json({
+        status: 'error',
+        message: `stage must be one of: ${Object.values(PhotoStage).join(', ')}`
+      });
+      return;
+    }
+
+    if (files.length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Attach at least one photo'
+      });
+      return;
+    }
+
+    const dailyChecklist = await DailyChecklist.findOne(req.facilityScope!.apply({
+      _id: id,
+      isDeleted: false
+    }));
+
+    if (!dailyChecklist) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Daily checklist not found'
+      });
+      return;
+    }
+
+    const itemIdx = Number(itemIndex);
+    if (!Number.isInteger(itemIdx) || itemIdx < 0 || itemIdx >= dailyChecklist.checklistItems.length) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid item index'
+      });
+      return;
+    }
+
+    if (dailyChecklist.verifiedBy) {
+      res.status(400).json({
+        status: 'error',
+        message: 'This checklist is verified; its photos can no longer change'
+      });
+      return;
+    }
+
+    const item = dailyChecklist.checklistItems[itemIdx];
+    if (stage === PhotoStage.BEFORE && item.isCompleted) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Before photos can only be added while the item is not completed'
+      });
+      return;
+    }
+
+    const existing = (item.photos || []).filter(photo => photo.stage === stage).length;
+    if (existing + files.length > CHECKLIST_PHOTOS_PER_STAGE) {
+      res.status(400).json({
+        status: 'error',
+        message: `An item can have at most ${CHECKLIST_PHOTOS_PER_STAGE} ${stage.toLowerCase()} photos; it has ${existing}`
+      });
+      return;
+    }
+
+    const processed = [];
+    for (const file of files) {
+      const photo = await ChecklistPhotoService.process(file.originalname, file.buffer);
+      if (!photo) {
+        res.status(400).json({
+          status: 'error',
+          message: `${file.originalname} is not a readable JPEG, PNG or WebP image`
+        });
+        return;
+      }
+      processed.push(photo);
+    }
+
+    const stored = [];
+    try {
+      for (const photo of processed) {
+        stored.push(await ChecklistPhotoService.store(dailyChecklist, stage, photo, userId));
+      }
+      item.photos.push(...stored);
+      dailyChecklist.updatedBy = userId;
+      await dailyChecklist.save();
+    } catch (error) {
+      await ChecklistPhotoService.discard(stored);
+      throw error;
+    }
+
+    await dailyChecklist.populate([
+      { path: 'hygieneSectionId', select: 'sectionName' },
+      { path: 'floorLocationId', select: 'floorName floorNumber' },
+      { path: 'checklistItems.completedBy', select: 'firstName lastName' }
+    ]);
+    const presented = await ChecklistPhotoService.present(dailyChecklist);
+
+    res.status(201).json({
+      status: 'success',
+      message: `${stored.length} photo${stored.length === 1 ? '' : 's'} uploaded`,
+      data: {
+        dailyChecklist: presented,
+        item: presented.checklistItems[itemIdx]
+      }
+    });
+  } catch (error: any) {
+    console.error('Error uploading checklist item photos:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * @desc Remove a photo you uploaded from a checklist item that is not completed yet
+ * @route DELETE /api/daily-checklists/:id/items/:itemIndex/photos/:photoId
+ * @access Private (All authenticated users)
+ */
+export const deleteChecklistItemPhoto = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, itemIndex, photoId } = req.params;
+    const userId = req.user!._id;
+
+    const dailyChecklist = await DailyChecklist.findOne(req.facilityScope!.apply({
+      _id: id,
+      isDeleted: false
+    }));
+
+    if (!dailyChecklist) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Daily checklist not found'
+      });
+      return;
+    }
+
+    const itemIdx = Number(itemIndex);
+    if (!Number.isInteger(itemIdx) || itemIdx < 0 || itemIdx >= dailyChecklist.checklistItems.length) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid item index'
+      });
+      return;
+    }
+
+    const item = dailyChecklist.checklistItems[itemIdx];
+    const photo = (item.photos || []).find(candidate => candidate._id.toString() === photoId);
+    if (!photo) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Photo not found'
+      });
+      return;
+    }
+
+    // Evidence of completed work is kept
+    if (item.isCompleted) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Photos of a completed item cannot be removed'
+      });
+      return;
+    }
+
+    if (photo.uploadedBy.toString() !== userId.toString()) {
+      res.status(403).json({
+        status: 'error',
+        message: 'You can only remove photos you uploaded'
+      });
+      return;
+    }
+
+    const { storageKey, thumbnailKey } = photo;
+    item.photos = item.photos.filter(candidate => candidate._id.toString() !== photoId);
+    dailyChecklist.updatedBy = userId;
+    await dailyChecklist.save();
+    await ChecklistPhotoService.discard([{ storageKey, thumbnailKey }]);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Photo removed'
+    });
+  } catch (error: any) {
+    console.error('Error removing checklist item photo:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Internal server error'
+    });
+  }
+};
+
 /**
  * @desc Verify completed checklist
  * @route PATCH /api/daily-checklists/:id/verify
@@ -334,13 +578,13 @@ export const completeChecklistItem = async (req: AuthenticatedRequest, res: Resp
 export const verifyChecklist = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { userId } = req.user!;
+    const userId = req.user!._id;
 
-    const dailyChecklist = await DailyChecklist.findOne({
+    const dailyChecklist = await DailyChecklist.findOne(req.facilityScope!.apply({
       _id: id,
       overallStatus: 'COMPLETED',
       isDeleted: false
-    });
+    }));
 
     if (!dailyChecklist) {
       res.status(404).json({
@@ -371,7 +615,7 @@ export const verifyChecklist = async (req: AuthenticatedRequest, res: Response):
     res.status(200).json({
       status: 'success',
       message: 'Checklist verified successfully',
-      data: { dailyChecklist }
+      data: { dailyChecklist: await ChecklistPhotoService.present(dailyChecklist) }
     });
   } catch (error: any) {
     console.error('Error verifying checklist:', error);
@@ -389,10 +633,22 @@ export const verifyChecklist = async (req: AuthenticatedRequest, res: Response):
  */
 export const getChecklistStats = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { facilityId } = req.user!;
-    const { startDate, endDate } = req.query;
+    const { facilityId, startDate, endDate } = req.query;
+
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json({
+        status: 'error',
+        message: FACILITY_ACCESS_DENIED_MESSAGE
+      });
+      return;
+    }
 
-    const matchQuery: any = { facilityId, isDeleted: false };
+    // Aggregation does not cast ids, so a single requested facility is matched as an ObjectId
+    const matchQuery: any = {
+      ...(facilityId ? { facilityId: new Types.ObjectId(facilityId as string) } : facilityCondition),
+      isDeleted: false
+    };
 
     if (startDate && endDate) {
       matchQuery.checklistDate = {
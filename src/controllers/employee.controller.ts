@@ -1,11 +1,36 @@
-import { NextFunction, Request, Response } from 'express';
+import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
-import { User, UserRole, UserStatus } from '../models/User';
+import { IUser, User, UserRole, UserStatus } from '../models/User';
+import { PermissionFlag } from '../config/permissions';
+import { InvitationService } from '../services/invitation.service';
+import { MailService } from '../services/mail.service';
+import { PermissionService } from '../services/permission.service';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 import { logger } from '../utils/logger';
 import { validateObjectId, validatePagination } from '../utils/validation';
 
 export class EmployeeController {
+  /**
+   * Restrict an employee query to employees of the caller's facilities (sharing one of their managedFacilities).
+   * Employees outside the scope are then simply not found. The caller's own account stays reachable.
+   */
+  private static scoped<T extends Record<string, any>>(req: AuthenticatedRequest, filter: T): T {
+    if (filter._id && req.user && filter._id.toString() === req.user._id.toString()) {
+      return filter;
+    }
+    return req.facilityScope!.apply(filter, 'managedFacilities');
+  }
+
+  // Facility to resolve an employee's permissions in: the requested one, or the employee's only facility
+  private static getPermissionsFacilityId(req: AuthenticatedRequest, employee: IUser): string | undefined {
+    if (typeof req.query.facilityId === 'string' && req.query.facilityId) {
+      return req.query.facilityId;
+    }
+    const facilityIds = (employee.managedFacilities || []).map(facility => facility.toString());
+    return facilityIds.length === 1 ? facilityIds[0] : undefined;
+  }
+
   // Create new employee
   // Note: SUPER_ADMIN and ADMIN roles cannot be created through this endpoint for security reasons
   // Use User.createSuperAdmin() static method or dedicated admin creation process instead
@@ -27,6 +52,9 @@ export class EmployeeController {
       // Auto-assign facilities from current user (creator)
       // Remove managedFacilities from request body to prevent manual assignment
       delete userData.managedFacilities;
+
+      // Permissions start from the role defaults; individual grants go through the permissions endpoint
+      delete userData.permissions;
       
       // Assign facilities based on current user's role and managed facilities
       if (currentUser && currentUser.managedFacilities && currentUser.managedFacilities.length > 0) {
@@ -60,18 +88,36 @@ export class EmployeeController {
         }
       }
 
+      // Without a password the employee is invited to choose one
+      const invite = !userData.password;
+      if (invite) {
+        delete userData.password;
+      }
+
       // Create new employee
       const employee = new User(userData);
-      await employee.save();
+      if (invite) {
+        // Saves the employee as pending with a fresh invitation and emails the accept link
+        await InvitationService.issue(employee, currentUser);
+      } else {
+        await employee.save();
+
+        // Welcome email with verification link; delivery failures must not fail the request
+        try {
+          await MailService.sendAccountCreatedEmail(employee, currentUser);
+        } catch (mailError: any) {
+          logger.error(`Failed to queue account email for employee ${employee._id}:`, mailError);
+        }
+      }
 
       // Remove password from response
       const employeeResponse = employee.toJSON();
       
-      logger.info(`Employee created successfully: ${employee._id} by ${currentUser?._id || 'system'}`);
+      logger.info(`Employee ${invite ? 'invited' : 'created'} successfully: ${employee._id} by ${currentUser?._id || 'system'}`);
 
       res.status(201).json({
         status: 'success',
-        message: 'Employee created successfully',
+        message: invite ? 'Employee invited successfully' : 'Employee created successfully',
         data: {
           employee: employeeResponse
         }
@@ -121,8 +167,11 @@ export class EmployeeController {
         ];
       }
 
+      // Users limited to some facilities only see employees of those facilities
+      const scopedFilter = EmployeeController.scoped(req, filter);
+
       // Get employees with pagination - select only professional fields
-      const employees = await User.find(filter)
+      const employees = await User.find(scopedFilter)
         .select('-password -permissions -settings.notifications -settings.privacy -security.failedLoginAttempts -security.twoFactorEnabled -security.twoFactorSecret -security.lastPasswordChange -security.lastLoginAt -security.lastLoginIP -isDeleted -deletedAt -deletedBy -assignedFacilities -subordinates -profile.address -profile.emergencyContact -profile.salary -profile.workSchedule -emailVerificationToken -passwordResetToken -verifiedAt')
         .sort({ createdAt: -1 })
         .skip(skip)
@@ -132,7 +181,7 @@ export class EmployeeController {
         .lean();
 
       // Get total count for pagination
-      const total = await User.countDocuments(filter);
+      const total = await User.countDocuments(scopedFilter);
 
       // Transform employee data to flatten profile and clean up response
       const transformedEmployees = employees.map(employee => ({
@@ -181,7 +230,7 @@ export class EmployeeController {
   }
 
   // Get employee by ID
-  static async getEmployeeById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getEmployeeById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -190,11 +239,11 @@ export class EmployeeController {
         return next(new AppError('Invalid employee ID format', 400));
       }
 
-      const employee = await User.findOne({ 
+      const employee = await User.findOne(EmployeeController.scoped(req, { 
         _id: id, 
         isDeleted: false,
         role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-      })
+      }))
         .select('-password -permissions -settings.notifications -settings.privacy -security.failedLoginAttempts -security.twoFactorEnabled -security.twoFactorSecret -security.lastPasswordChange -security.lastLoginAt -security.lastLoginIP -isDeleted -deletedAt -deletedBy -assignedFacilities -subordinates -profile.address -profile.emergencyContact -profile.salary -profile.workSchedule -emailVerificationToken -passwordResetToken -verifiedAt')
         .populate('managedFacilities', 'siteName city facilityType')
         .populate('createdBy', 'firstName lastName email')
@@ -270,12 +319,22 @@ export class EmployeeController {
       delete updateData.updatedAt;
       delete updateData.emailVerificationToken;
       delete updateData.passwordResetToken;
+      delete updateData.permissions; // Managed through the permissions endpoint
+      delete updateData.security;
 
       // Prevent role changes to SUPER_ADMIN or ADMIN
       if (updateData.role === UserRole.SUPER_ADMIN || updateData.role === UserRole.ADMIN) {
         return next(new AppError('Cannot update employee role to SUPER_ADMIN or ADMIN', 403));
       }
 
+      // Employees can only be assigned to facilities in the current user's scope
+      if (updateData.managedFacilities !== undefined) {
+        const facilityIds: unknown[] = Array.isArray(updateData.managedFacilities) ? updateData.managedFacilities : [updateData.managedFacilities];
+        if (!facilityIds.every(facilityId => req.facilityScope!.allows(facilityId))) {
+          return next(new AppError(FACILITY_ACCESS_DENIED_MESSAGE, 403));
+        }
+      }
+
       // Check if email is being updated and if it already exists
       if (updateData.email) {
         const existingUser = await User.findOne({ 
@@ -308,11 +367,11 @@ export class EmployeeController {
       }
 
       const employee = await User.findOneAndUpdate(
-        { 
+        EmployeeController.scoped(req, { 
           _id: id, 
           isDeleted: false,
           role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-        },
+        }),
         updateData,
         { 
           new: true, 
@@ -361,11 +420,11 @@ export class EmployeeController {
       }
 
       // Check if employee exists and is not already deleted
-      const employee = await User.findOne({ 
+      const employee = await User.findOne(EmployeeController.scoped(req, { 
         _id: id, 
         isDeleted: false,
         role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-      });
+      }));
 
       if (!employee) {
         return next(new AppError('Employee not found', 404));
@@ -408,7 +467,7 @@ export class EmployeeController {
   }
 
   // Restore deleted employee
-  static async restoreEmployee(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async restoreEmployee(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -418,11 +477,11 @@ export class EmployeeController {
       }
 
       const employee = await User.findOneAndUpdate(
-        { 
+        EmployeeController.scoped(req, { 
           _id: id, 
           isDeleted: true,
           role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-        },
+        }),
         { 
           isDeleted: false,
           deletedAt: undefined,
@@ -452,7 +511,7 @@ export class EmployeeController {
   }
 
   // Update employee status
-  static async updateEmployeeStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateEmployeeStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const { status } = req.body;
@@ -468,11 +527,11 @@ export class EmployeeController {
       }
 
       const employee = await User.findOneAndUpdate(
-        { 
+        EmployeeController.scoped(req, { 
           _id: id, 
           isDeleted: false,
           role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-        },
+        }),
         { status },
         { new: true }
       ).select('_id email firstName lastName phone role status verificationStatus managedFacilities createdAt updatedAt profile.employeeId profile.department profile.jobTitle profile.employmentStatus profile.workLocation');
@@ -497,7 +556,7 @@ export class EmployeeController {
   }
 
   // Update employee role
-  static async updateEmployeeRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateEmployeeRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const { role } = req.body;
@@ -515,11 +574,11 @@ export class EmployeeController {
       }
 
       const employee = await User.findOneAndUpdate(
-        { 
+        EmployeeController.scoped(req, { 
           _id: id, 
           isDeleted: false,
           role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-        },
+        }),
         { role },
         { new: true }
       ).select('_id email firstName lastName phone role status verificationStatus managedFacilities createdAt updatedAt profile.employeeId profile.department profile.jobTitle profile.employmentStatus profile.workLocation');
@@ -543,6 +602,101 @@ export class EmployeeController {
     }
   }
 
+  // Get effective permissions of an employee
+  static async getEmployeePermissions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!validateObjectId(id)) {
+        return next(new AppError('Invalid employee ID format', 400));
+      }
+
+      const employee = await User.findOne(EmployeeController.scoped(req, { _id: id, isDeleted: false }))
+        .populate(PermissionService.CUSTOM_ROLES_POPULATE);
+      if (!employee) {
+        return next(new AppError('Employee not found', 404));
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          employeeId: employee._id,
+          ...PermissionService.getEffectivePermissions(employee, EmployeeController.getPermissionsFacilityId(req, employee))
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error fetching employee permissions:', error);
+      return next(new AppError('Error fetching employee permissions', 500));
+    }
+  }
+
+  // Grant or revoke individual permissions of an employee as overrides of the role defaults and custom roles
+  static async updateEmployeePermissions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { permissions = {}, customPermissions } = req.body as {
+        permissions?: Partial<Record<PermissionFlag, boolean | null>>; // null clears an override
+        customPermissions?: string[];
+      };
+
+      if (!validateObjectId(id)) {
+        return next(new AppError('Invalid employee ID format', 400));
+      }
+
+      const employee = await User.findOne(EmployeeController.scoped(req, {
+        _id: id,
+        isDeleted: false,
+        role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
+      })).populate(PermissionService.CUSTOM_ROLES_POPULATE);
+      if (!employee) {
+        return next(new AppError('Employee not found', 404));
+      }
+
+      // Prevent privilege escalation: only permissions the current user holds can be granted
+      const flagsToGrant = (Object.keys(permissions) as PermissionFlag[]).filter(flag => permissions[flag]);
+      const customToGrant = (customPermissions || []).filter(
+        permission => !employee.permissions.customPermissions.includes(permission)
+      );
+      const notHeld = [...flagsToGrant, ...customToGrant].filter(
+        permission => !PermissionService.hasPermission(req.user, permission)
+      );
+      if (notHeld.length > 0) {
+        return next(new AppError(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`, 403));
+      }
+
+      const overrides = { ...(employee.permissionOverrides || {}) };
+      for (const [flag, value] of Object.entries(permissions) as [PermissionFlag, boolean | null][]) {
+        if (value === null) {
+          delete overrides[flag];
+        } else {
+          overrides[flag] = value;
+        }
+      }
+      employee.permissionOverrides = overrides;
+      if (customPermissions) {
+        employee.permissions.customPermissions = customPermissions;
+      }
+      employee.updatedBy = req.user._id;
+      employee.markModified('permissions');
+      employee.markModified('permissionOverrides');
+      await employee.save();
+
+      logger.info(`Permissions of employee ${employee._id} updated by ${req.user._id}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Employee permissions updated successfully',
+        data: {
+          employeeId: employee._id,
+          ...PermissionService.getEffectivePermissions(employee, EmployeeController.getPermissionsFacilityId(req, employee))
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error updating employee permissions:', error);
+      return next(new AppError('Error updating employee permissions', 500));
+    }
+  }
+
   // Get employees by role
   static async getEmployeesByRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -560,11 +714,13 @@ export class EmployeeController {
       const validatedPagination = validatePagination(page as string, limit as string);
       const skip = (validatedPagination.page - 1) * validatedPagination.limit;
 
-      const employees = await User.find({ 
-        role, 
+      const filter = EmployeeController.scoped(req, {
+        role,
         isDeleted: false,
         _id: { $ne: req.user?._id } // Exclude current user
-      })
+      });
+
+      const employees = await User.find(filter)
         .select('-password -permissions -settings.notifications -settings.privacy -security.failedLoginAttempts -security.twoFactorEnabled -security.twoFactorSecret -security.lastPasswordChange -security.lastLoginAt -security.lastLoginIP -isDeleted -deletedAt -deletedBy -assignedFacilities -subordinates -profile.address -profile.emergencyContact -profile.salary -profile.workSchedule -emailVerificationToken -passwordResetToken -verifiedAt')
         .sort({ createdAt: -1 })
         .skip(skip)
@@ -572,11 +728,7 @@ export class EmployeeController {
         .populate('managedFacilities', 'siteName city facilityType')
         .lean();
 
-      const total = await User.countDocuments({ 
-        role, 
-        isDeleted: false,
-        _id: { $ne: req.user?._id } // Exclude current user
-      });
+      const total = await User.countDocuments(filter);
 
       // Transform employee data to flatten profile and clean up response
       const transformedEmployees = employees.map(employee => ({
@@ -624,7 +776,7 @@ export class EmployeeController {
   }
 
   // Update employee password
-  static async updateEmployeePassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateEmployeePassword(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const { currentPassword, newPassword } = req.body;
@@ -640,11 +792,11 @@ export class EmployeeController {
       }
 
       // Find employee with password
-      const employee = await User.findOne({ 
+      const employee = await User.findOne(EmployeeController.scoped(req, { 
         _id: id, 
         isDeleted: false,
         role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-      }).select('+password');
+      })).select('+password');
 
       if (!employee) {
         return next(new AppError('Employee not found', 404));
@@ -770,10 +922,10 @@ export class EmployeeController {
       }
 
       // Find employee including deleted ones to get exit details
-      const employee = await User.findOne({ 
+      const employee = await User.findOne(EmployeeController.scoped(req, { 
         _id: id, 
         role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] }
-      }).select('firstName lastName email profile.terminationDate profile.lastWorkingDay profile.exitReason profile.employmentStatus isDeleted deletedAt deletedBy');
+      })).select('firstName lastName email profile.terminationDate profile.lastWorkingDay profile.exitReason profile.employmentStatus isDeleted deletedAt deletedBy');
 
       if (!employee) {
         return next(new AppError('Employee not found', 404));
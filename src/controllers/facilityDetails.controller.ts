@@ -9,6 +9,16 @@ import { validateObjectId, validatePagination } from '../utils/validation';
 import { IoTServiceManagementController } from './iotServiceManagement.controller';
 import { ServiceManagementController } from './serviceManagement.controller';
 
+// Settings are updated one by one so that those not in the request are kept
+const toSettingPaths = (updateData: any): void => {
+  if (updateData.settings) {
+    for (const [key, value] of Object.entries(updateData.settings)) {
+      updateData[`settings.${key}`] = value;
+    }
+    delete updateData.settings;
+  }
+};
+
 export class FacilityDetailsController {
   // Create new facility
   static async createFacility(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
@@ -279,7 +289,7 @@ export class FacilityDetailsController {
     try {
       const { tenantId } = req.params;
 
-      const facility = await FacilityDetails.findOne({ tenantId }).lean();
+      const facility = await FacilityDetails.findOne(req.facilityScope!.apply({ tenantId }, '_id')).lean();
 
       if (!facility) {
         throw new AppError('Facility not found', 404);
@@ -311,9 +321,10 @@ export class FacilityDetailsController {
       delete updateData._id;
       delete updateData.tenantId; // Prevent tenantId modification
       delete updateData.createdAt;
+      toSettingPaths(updateData);
 
-      const facility = await FacilityDetails.findByIdAndUpdate(
-        id,
+      const facility = await FacilityDetails.findOneAndUpdate(
+        req.facilityScope!.apply({ _id: id }, '_id'),
         updateData,
         { new: true, runValidators: true }
       );
@@ -348,9 +359,10 @@ export class FacilityDetailsController {
       delete updateData._id;
       delete updateData.tenantId; // Prevent tenantId modification
       delete updateData.createdAt;
+      toSettingPaths(updateData);
 
       const facility = await FacilityDetails.findOneAndUpdate(
-        { tenantId },
+        req.facilityScope!.apply({ tenantId }, '_id'),
         updateData,
         { new: true, runValidators: true }
       );
@@ -1,7 +1,10 @@
 import { Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { FacilityDetails } from '../models/FacilityDetails';
 import { FloorLocation } from '../models/FloorLocation';
+import { FloorLocationQrService, QrImageFormat } from '../services/floorLocationQr.service';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 
 // Helper function to generate consistent API responses
 const generateResponse = (success: boolean, message: string, statusCode: number, data?: any) => {
@@ -16,7 +19,17 @@ const generateResponse = (success: boolean, message: string, statusCode: number,
 export const createFloorLocation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { floorName, floorNumber, description } = req.body;
-    const { facilityId } = req.user!;
+    const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+
+    if (!facilityId) {
+      res.status(400).json(generateResponse(false, 'facilityId is required', 400));
+      return;
+    }
+
+    if (!req.facilityScope!.allows(facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE, 403));
+      return;
+    }
 
     // Generate unique QR code
     const qrCode = `FL_${facilityId}_${floorNumber}_${uuidv4().substring(0, 8).toUpperCase()}`;
@@ -39,9 +52,10 @@ export const createFloorLocation = async (req: AuthenticatedRequest, res: Respon
       floorNumber,
       qrCode,
       description,
-      createdBy: req.user!.userId,
-      updatedBy: req.user!.userId
+      createdBy: req.user!._id,
+      updatedBy: req.user!._id
     });
+    FloorLocationQrService.issue(floorLocation);
 
     await floorLocation.save();
     await floorLocation.populate([
@@ -63,10 +77,15 @@ export const createFloorLocation = async (req: AuthenticatedRequest, res: Respon
  */
 export const getFloorLocations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { facilityId } = req.user!;
-    const { page = 1, limit = 10, search, isActive } = req.query;
+    const { facilityId, page = 1, limit = 10, search, isActive } = req.query;
 
-    const query: any = { facilityId, isDeleted: false };
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE, 403));
+      return;
+    }
+
+    const query: any = { ...facilityCondition, isDeleted: false };
 
     if (search) {
       query.$or = [
@@ -116,13 +135,11 @@ export const getFloorLocations = async (req: AuthenticatedRequest, res: Response
 export const getFloorLocationById = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { facilityId } = req.user!;
 
-    const floorLocation = await FloorLocation.findOne({
+    const floorLocation = await FloorLocation.findOne(req.facilityScope!.apply({
       _id: id,
-      facilityId,
       isDeleted: false
-    }).populate([
+    })).populate([
       { path: 'createdBy', select: 'firstName lastName email' },
       { path: 'updatedBy', select: 'firstName lastName email' }
     ]);
@@ -148,16 +165,13 @@ export const getFloorLocationByQR = async (req: AuthenticatedRequest, res: Respo
   try {
     const { qrCode } = req.params;
 
-    const floorLocation = await FloorLocation.findOne({
-      qrCode,
-      isActive: true,
-      isDeleted: false
-    }).populate('facilityId', 'facilityName address');
+    const floorLocation = await FloorLocationQrService.resolve(qrCode, req.facilityScope!.apply({ isActive: true }));
 
     if (!floorLocation) {
       res.status(404).json(generateResponse(false, 'Invalid QR code or floor location not found', 404));
       return;
     }
+    await floorLocation.populate('facilityId', 'facilityName address');
 
     res.status(200).json(generateResponse(true, 'Floor location retrieved successfully', 200, floorLocation));
   } catch (error: any) {
@@ -174,14 +188,12 @@ export const getFloorLocationByQR = async (req: AuthenticatedRequest, res: Respo
 export const updateFloorLocation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { facilityId } = req.user!;
     const { floorName, floorNumber, description, isActive } = req.body;
 
-    const floorLocation = await FloorLocation.findOne({
+    const floorLocation = await FloorLocation.findOne(req.facilityScope!.apply({
       _id: id,
-      facilityId,
       isDeleted: false
-    });
+    }));
 
     if (!floorLocation) {
       res.status(404).json(generateResponse(false, 'Floor location not found', 404));
@@ -191,7 +203,7 @@ export const updateFloorLocation = async (req: AuthenticatedRequest, res: Respon
     // Check if floor number is being changed and if it conflicts
     if (floorNumber && floorNumber !== floorLocation.floorNumber) {
       const existingFloor = await FloorLocation.findOne({
-        facilityId,
+        facilityId: floorLocation.facilityId,
         floorNumber,
         _id: { $ne: id },
         isDeleted: false
@@ -208,7 +220,7 @@ export const updateFloorLocation = async (req: AuthenticatedRequest, res: Respon
     if (floorNumber) floorLocation.floorNumber = floorNumber;
     if (description !== undefined) floorLocation.description = description;
     if (isActive !== undefined) floorLocation.isActive = isActive;
-    floorLocation.updatedBy = req.user!.userId;
+    floorLocation.updatedBy = req.user!._id;
 
     await floorLocation.save();
     await floorLocation.populate([
@@ -231,13 +243,11 @@ export const updateFloorLocation = async (req: AuthenticatedRequest, res: Respon
 export const deleteFloorLocation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { facilityId } = req.user!;
 
-    const floorLocation = await FloorLocation.findOne({
+    const floorLocation = await FloorLocation.findOne(req.facilityScope!.apply({
       _id: id,
-      facilityId,
       isDeleted: false
-    });
+    }));
 
     if (!floorLocation) {
       res.status(404).json(generateResponse(false, 'Floor location not found', 404));
@@ -245,7 +255,7 @@ export const deleteFloorLocation = async (req: AuthenticatedRequest, res: Respon
     }
 
     floorLocation.isDeleted = true;
-    floorLocation.updatedBy = req.user!.userId;
+    floorLocation.updatedBy = req.user!._id;
     await floorLocation.save();
 
     res.status(200).json(generateResponse(true, 'Floor location deleted successfully', 200));
@@ -253,4 +263,129 @@ export const deleteFloorLocation = async (req: AuthenticatedRequest, res: Respon
     console.error('Error deleting floor location:', error);
     res.status(500).json(generateResponse(false, 'Internal server error', 500));
   }
-};
\ No newline at end of file
+};
+
+/**
+ * @desc Get the QR code image of a floor location for printing
+ * @route GET /api/floor-locations/:id/qr
+ * @access Private (FACILITY_MANAGER, ADMIN, SUPER_ADMIN)
+ */
+export const getFloorLocationQRCode = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const format = (req.query.format as QrImageFormat) || 'png';
+
+    const floorLocation = await FloorLocation.findOne(req.facilityScope!.apply({
+      _id: id,
+      isDeleted: false
+    })).select('+qrTokenId');
+
+    if (!floorLocation) {
+      res.status(404).json(generateResponse(false, 'Floor location not found', 404));
+      return;
+    }
+
+    const token = await FloorLocationQrService.ensureToken(floorLocation);
+    const image = await FloorLocationQrService.renderImage(token, format);
+
+    res.setHeader('Content-Type', format === 'svg' ? 'image/svg+xml' : 'image/png');
+    res.setHeader('Content-Disposition', `inline; filename="floor-${floorLocation.floorNumber}-qr.${format}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).send(image);
+  } catch (error: any) {
+    console.error('Error rendering floor location QR code:', error);
+    res.status(500).json(generateResponse(false, 'Internal server error', 500));
+  }
+};
+
+/**
+ * @desc Get a printable PDF sheet of the QR labels of a facility's active floor locations
+ * @route GET /api/floor-locations/qr-sheet
+ * @access Private (FACILITY_MANAGER, ADMIN, SUPER_ADMIN)
+ */
+export const getFloorLocationQRSheet = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const facilityId = (req.query.facilityId as string) || req.facilityScope!.defaultFacilityId();
+
+    if (!facilityId) {
+      res.status(400).json(generateResponse(false, 'facilityId is required', 400));
+      return;
+    }
+
+    if (!req.facilityScope!.allows(facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE, 403));
+      return;
+    }
+
+    const [facility, floorLocations] = await Promise.all([
+      FacilityDetails.findById(facilityId).select('siteName'),
+      FloorLocation.find({ facilityId, isActive: true, isDeleted: false })
+        .select('+qrTokenId')
+        .sort({ floorNumber: 1 })
+    ]);
+
+    if (!facility) {
+      res.status(404).json(generateResponse(false, 'Facility not found', 404));
+      return;
+    }
+
+    if (floorLocations.length === 0) {
+      res.status(404).json(generateResponse(false, 'This facility has no active floor locations', 404));
+      return;
+    }
+
+    const sectionNames = await FloorLocationQrService.getSectionNames(facilityId, floorLocations.map(floor => floor._id));
+    const labels = [];
+    for (const floorLocation of floorLocations) {
+      labels.push({
+        facilityName: facility.siteName,
+        floorName: floorLocation.floorName,
+        floorNumber: floorLocation.floorNumber,
+        sectionNames: sectionNames.get(floorLocation._id.toString()) || [],
+        token: await FloorLocationQrService.ensureToken(floorLocation)
+      });
+    }
+
+    const pdf = await FloorLocationQrService.renderSheet(labels);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="floor-qr-codes-${facilityId}.pdf"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).send(pdf);
+  } catch (error: any) {
+    console.error('Error rendering floor location QR sheet:', error);
+    res.status(500).json(generateResponse(false, 'Internal server error', 500));
+  }
+};
+
+/**
+ * @desc Rotate the QR code of a floor location; printed labels of the previous code stop working
+ * @route POST /api/floor-locations/:id/qr/rotate
+ * @access Private (FACILITY_MANAGER, ADMIN, SUPER_ADMIN)
+ */
+export const rotateFloorLocationQRCode = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const floorLocation = await FloorLocation.findOne(req.facilityScope!.apply({
+      _id: id,
+      isDeleted: false
+    })).select('+qrTokenId');
+
+    if (!floorLocation) {
+      res.status(404).json(generateResponse(false, 'Floor location not found', 404));
+      return;
+    }
+
+    const token = await FloorLocationQrService.rotate(floorLocation, req.user!._id);
+
+    res.status(200).json(generateResponse(true, 'QR code rotated; print and replace the label at this floor', 200, {
+      floorLocationId: floorLocation._id,
+      qrIssuedAt: floorLocation.qrIssuedAt,
+      qrCodeImage: await FloorLocationQrService.getDataUrl(token)
+    }));
+  } catch (error: any) {
+    console.error('Error rotating floor location QR code:', error);
+    res.status(500).json(generateResponse(false, 'Internal server error', 500));
+  }
+};
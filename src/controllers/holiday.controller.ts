@@ -0,0 +1,171 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { Holiday, HolidayType, IHoliday } from '../models/Holiday';
+import { HolidayCalendarService } from '../services/holidayCalendar.service';
+import { logger } from '../utils/logger';
+
+export class HolidayController {
+  // Holidays of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IHoliday> {
+    const holiday = await Holiday.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!holiday) {
+      throw new AppError('Holiday not found', 404);
+    }
+    return holiday;
+  }
+
+  private static async ensureUnique(facilityId: any, date: Date, name: string, excludeId?: any): Promise<void> {
+    const filter: any = { facilityId, date, name, isDeleted: false };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await Holiday.findOne(filter).collation({ locale: 'en', strength: 2 });
+    if (existing) {
+      throw new AppError(`Holiday "${name}" already exists on this date`, 409);
+    }
+  }
+
+  // Create a holiday in a facility's calendar
+  static async createHoliday(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, name, date } = req.body;
+
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only manage holidays of your managed facilities', 403);
+      }
+      await HolidayController.ensureUnique(facilityId, new Date(date), name);
+
+      const holiday = await Holiday.create({
+        ...req.body,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`Holiday ${holiday._id} (${name}) created for facility ${facilityId} by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Holiday created successfully',
+        data: { holiday }
+      });
+    } catch (error) {
+      logger.error('Create holiday error:', error);
+      next(error);
+    }
+  }
+
+  // Get the holiday calendar of a facility for a year, with recurring holidays placed on their date in that year
+  static async getHolidayCalendar(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { type, region } = req.query;
+      const year = Number(req.query.year) || new Date().getFullYear();
+
+      const facilityId = (req.query.facilityId as string | undefined) || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only view holidays of your managed facilities', 403);
+      }
+
+      let holidays = await HolidayCalendarService.getOccurrences(
+        facilityId,
+        new Date(Date.UTC(year, 0, 1)),
+        new Date(Date.UTC(year, 11, 31))
+      );
+      if (type) {
+        holidays = holidays.filter(holiday => holiday.type === type);
+      }
+      if (region) {
+        // Regional holidays of other regions are left out
+        holidays = holidays.filter(holiday =>
+          holiday.type !== HolidayType.REGIONAL || HolidayCalendarService.isDayOff(holiday, [region as string])
+        );
+      }
+
+      res.json({
+        status: 'success',
+        results: holidays.length,
+        data: { facilityId, year, holidays }
+      });
+    } catch (error) {
+      logger.error('Get holiday calendar error:', error);
+      next(error);
+    }
+  }
+
+  // Get a holiday
+  static async getHolidayById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const holiday = await Holiday.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }))
+        .populate('facilityId', 'siteName city')
+        .populate('createdBy', 'firstName lastName')
+        .populate('updatedBy', 'firstName lastName');
+
+      if (!holiday) {
+        throw new AppError('Holiday not found', 404);
+      }
+
+      res.json({
+        status: 'success',
+        data: { holiday }
+      });
+    } catch (error) {
+      logger.error('Get holiday by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update a holiday; leave durations already calculated are not changed
+  static async updateHoliday(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const holiday = await HolidayController.findInScope(req);
+
+      holiday.set(req.body);
+      if (holiday.type === HolidayType.REGIONAL && holiday.regions.length === 0) {
+        throw new AppError('Regional holidays must list at least one region', 400);
+      }
+      if (holiday.type !== HolidayType.REGIONAL) {
+        holiday.regions = [];
+      }
+      if (req.body.date || req.body.name) {
+        await HolidayController.ensureUnique(holiday.facilityId, holiday.date, holiday.name, holiday._id);
+      }
+
+      holiday.updatedBy = req.user._id;
+      await holiday.save();
+
+      logger.info(`Holiday ${holiday._id} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Holiday updated successfully',
+        data: { holiday }
+      });
+    } catch (error) {
+      logger.error('Update holiday error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a holiday (soft delete)
+  static async deleteHoliday(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const holiday = await HolidayController.findInScope(req);
+
+      holiday.isDeleted = true;
+      holiday.updatedBy = req.user._id;
+      await holiday.save();
+
+      logger.info(`Holiday ${holiday._id} deleted by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Holiday deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete holiday error:', error);
+      next(error);
+    }
+  }
+}
@@ -1,11 +1,28 @@
 import { NextFunction, Response } from 'express';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
-import { HygieneChecklist } from '../models/HygieneChecklist';
+import { ChecklistTemplate, IRecurrence, RecurrenceFrequency } from '../models/ChecklistTemplate';
+import { DailyChecklist } from '../models/DailyChecklist';
+import { FloorLocation } from '../models/FloorLocation';
+import { HygieneChecklist, IHygieneChecklistItem } from '../models/HygieneChecklist';
 import { HygieneSection } from '../models/HygieneSection';
-import { UserRole } from '../models/User';
+import { AttendanceService } from '../services/attendance.service';
+import { ChecklistFileService } from '../services/checklistFile.service';
+import { ChecklistTemplateService } from '../services/checklistTemplate.service';
 import { validateObjectId } from '../utils/validation';
 
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Uploads that are only checked, or rejected, are not kept
+const discardUpload = (file: Express.Multer.File): Promise<void> => fs.unlink(file.path).catch(() => undefined);
+
+const isDryRun = (req: AuthenticatedRequest): boolean => req.body.dryRun === true || req.body.dryRun === 'true';
+
+const itemLabel = (item: Pick<IHygieneChecklistItem, 'itemName' | 'area'>): string =>
+  (item.area ? `${item.itemName} (${item.area})` : item.itemName);
+
 export class HygieneChecklistController {
   // Create Hygiene Checklist (File Upload)
   static async createHygieneChecklist(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -17,32 +34,15 @@ export class HygieneChecklistController {
         return next(new AppError('Please upload a file', 400));
       }
 
-      // Get facilityId from user's managed facilities
-      let facilityId: string;
-      
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can create hygiene checklist for any facility
-        facilityId = req.body.facilityId;
-        if (!facilityId) {
-          return next(new AppError('facilityId is required', 400));
-        }
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only create for their managed facilities
-        if (req.body.facilityId) {
-          const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-          if (!managedFacilityIds.includes(req.body.facilityId)) {
-            return next(new AppError('You can only create hygiene checklists for your managed facilities', 403));
-          }
-          facilityId = req.body.facilityId;
-        } else {
-          // Use first managed facility if not specified
-          if (user.managedFacilities.length === 0) {
-            return next(new AppError('No managed facilities found', 400));
-          }
-          facilityId = user.managedFacilities[0]._id.toString();
-        }
-      } else {
-        return next(new AppError('Insufficient permissions', 403));
+      // Resolve the target facility within the user's facility scope
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        await discardUpload(file);
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        await discardUpload(file);
+        return next(new AppError('You can only create hygiene checklists for your managed facilities', 403));
       }
 
       // Validate sectionId exists
@@ -52,9 +52,22 @@ export class HygieneChecklistController {
         isDeleted: false 
       });
       if (!sectionExists) {
+        await discardUpload(file);
         return next(new AppError('Invalid section ID or section does not belong to this facility', 400));
       }
 
+      // Read the items of the file; a dry run only previews them
+      const parsed = await ChecklistFileService.parse(file.path, file.originalname);
+      if (isDryRun(req)) {
+        await discardUpload(file);
+        return res.json({ status: 'success', message: 'Checklist checked, nothing was saved', data: { preview: parsed } });
+      }
+      if (parsed.errors.length > 0) {
+        await discardUpload(file);
+        return next(new AppError(`The checklist has errors, fix them and upload it again: ${ChecklistFileService.describe(parsed.errors)}`, 400));
+      }
+
+      const uploadDate = new Date();
       const hygieneChecklistData = {
         facilityId,
         sectionId: req.body.sectionId,
@@ -62,7 +75,19 @@ export class HygieneChecklistController {
         fileName: file.originalname,
         filePath: file.path,
         fileSize: file.size,
+        uploadDate,
         uploadedBy: user._id,
+        items: parsed.items,
+        version: 1,
+        versions: [{
+          version: 1,
+          fileName: file.originalname,
+          filePath: file.path,
+          fileSize: file.size,
+          uploadDate,
+          uploadedBy: user._id,
+          itemCount: parsed.items.length
+        }],
         createdBy: user._id,
         updatedBy: user._id
       };
@@ -77,26 +102,15 @@ export class HygieneChecklistController {
   // Get all Hygiene Checklists (with optional filters)
   static async getAllHygieneChecklists(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
       const { facilityId, sectionId, checklistType, isActive } = req.query;
       const filter: any = { isDeleted: false };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can see all hygiene checklists
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only see hygiene checklists for their managed facilities
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view hygiene checklists for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view hygiene checklists for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       if (sectionId) filter.sectionId = sectionId;
       if (checklistType) filter.checklistType = checklistType;
@@ -120,7 +134,6 @@ export class HygieneChecklistController {
   static async getHygieneChecklistById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid hygiene checklist ID', 400));
       
@@ -134,11 +147,8 @@ export class HygieneChecklistController {
       if (!hygieneChecklist) return next(new AppError('Hygiene checklist not found', 404));
 
       // Check if user has access to this hygiene checklist's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(hygieneChecklist.facilityId.toString())) {
-          return next(new AppError('You can only view hygiene checklists for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(hygieneChecklist.facilityId)) {
+        return next(new AppError('You can only view hygiene checklists for your managed facilities', 403));
       }
 
       res.json({ status: 'success', data: { hygieneChecklist } });
@@ -160,15 +170,17 @@ export class HygieneChecklistController {
       if (!existingHygieneChecklist) return next(new AppError('Hygiene checklist not found', 404));
 
       // Check if user has access to this hygiene checklist's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingHygieneChecklist.facilityId.toString())) {
-          return next(new AppError('You can only update hygiene checklists for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingHygieneChecklist.facilityId)) {
+        return next(new AppError('You can only update hygiene checklists for your managed facilities', 403));
+      }
+      if (req.body.facilityId && !req.facilityScope!.allows(req.body.facilityId)) {
+        return next(new AppError('You can only move hygiene checklists to your managed facilities', 403));
       }
 
+      // Items and versions only change by uploading a new version of the file
+      const { items, version, versions, ...changes } = req.body;
       const updateData = {
-        ...req.body,
+        ...changes,
         updatedBy: user._id
       };
 
@@ -193,7 +205,6 @@ export class HygieneChecklistController {
   static async deleteHygieneChecklist(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid hygiene checklist ID', 400));
       
@@ -202,11 +213,8 @@ export class HygieneChecklistController {
       if (!existingHygieneChecklist) return next(new AppError('Hygiene checklist not found', 404));
 
       // Check if user has access to this hygiene checklist's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingHygieneChecklist.facilityId.toString())) {
-          return next(new AppError('You can only delete hygiene checklists for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingHygieneChecklist.facilityId)) {
+        return next(new AppError('You can only delete hygiene checklists for your managed facilities', 403));
       }
 
       const hygieneChecklist = await HygieneChecklist.findOneAndUpdate(
@@ -225,7 +233,6 @@ export class HygieneChecklistController {
   static async downloadHygieneChecklist(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid hygiene checklist ID', 400));
       
@@ -233,11 +240,8 @@ export class HygieneChecklistController {
       if (!hygieneChecklist) return next(new AppError('Hygiene checklist not found', 404));
 
       // Check if user has access to this hygiene checklist's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(hygieneChecklist.facilityId.toString())) {
-          return next(new AppError('You can only download hygiene checklists for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(hygieneChecklist.facilityId)) {
+        return next(new AppError('You can only download hygiene checklists for your managed facilities', 403));
       }
 
       // Set appropriate headers for file download
@@ -250,4 +254,241 @@ export class HygieneChecklistController {
       next(err);
     }
   }
-}
\ No newline at end of file
+
+  // Upload a new version of a checklist's file; a dry run previews its items and what changed
+  static async uploadHygieneChecklistVersion(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const file = req.file;
+
+      if (!file) return next(new AppError('Please upload a file', 400));
+      if (!validateObjectId(id)) {
+        await discardUpload(file);
+        return next(new AppError('Invalid hygiene checklist ID', 400));
+      }
+
+      const hygieneChecklist = await HygieneChecklist.findOne({ _id: id, isDeleted: false });
+      if (!hygieneChecklist || !req.facilityScope!.allows(hygieneChecklist.facilityId)) {
+        await discardUpload(file);
+        return next(new AppError('Hygiene checklist not found', 404));
+      }
+
+      const parsed = await ChecklistFileService.parse(file.path, file.originalname);
+      const diff = ChecklistFileService.diff(hygieneChecklist.items, parsed.items);
+      if (isDryRun(req)) {
+        await discardUpload(file);
+        return res.json({
+          status: 'success',
+          message: 'Checklist checked, nothing was saved',
+          data: { currentVersion: hygieneChecklist.version, preview: parsed, diff }
+        });
+      }
+      if (parsed.errors.length > 0) {
+        await discardUpload(file);
+        return next(new AppError(`The checklist has errors, fix them and upload it again: ${ChecklistFileService.describe(parsed.errors)}`, 400));
+      }
+      if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+        await discardUpload(file);
+        return next(new AppError(`The file has the same items as version ${hygieneChecklist.version}`, 400));
+      }
+
+      const version = hygieneChecklist.version + 1;
+      const uploadDate = new Date();
+      hygieneChecklist.set({
+        fileName: file.originalname,
+        filePath: file.path,
+        fileSize: file.size,
+        uploadDate,
+        uploadedBy: req.user._id,
+        items: parsed.items,
+        version,
+        updatedBy: req.user._id
+      });
+      hygieneChecklist.versions.push({
+        version,
+        fileName: file.originalname,
+        filePath: file.path,
+        fileSize: file.size,
+        uploadDate,
+        uploadedBy: req.user._id,
+        itemCount: parsed.items.length,
+        changes: {
+          added: diff.added.map(itemLabel),
+          removed: diff.removed.map(itemLabel),
+          changed: diff.changed.map(itemLabel)
+        }
+      });
+      await hygieneChecklist.save();
+
+      res.status(201).json({
+        status: 'success',
+        message: `Version ${version} uploaded: ${diff.added.length} items added, ${diff.removed.length} removed, ${diff.changed.length} changed`,
+        data: { hygieneChecklist, diff }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Turn the items of a checklist into checklist templates, one per department, frequency and floor/area
+  static async createTemplatesFromHygieneChecklist(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { startDate, assignedDepartment, floorLocationIds, weekdays, monthDays } = req.body;
+
+      const hygieneChecklist = await HygieneChecklist.findOne(req.facilityScope!.apply({ _id: id, isDeleted: false }));
+      if (!hygieneChecklist) return next(new AppError('Hygiene checklist not found', 404));
+      if (hygieneChecklist.items.length === 0) {
+        return next(new AppError('No items were read from this checklist\'s file; upload it again as a new version', 400));
+      }
+
+      const section = await HygieneSection.findOne({ _id: hygieneChecklist.sectionId, isActive: true, isDeleted: false });
+      if (!section) return next(new AppError('The hygiene section of this checklist is inactive', 400));
+      if (floorLocationIds?.length) {
+        const found = await FloorLocation.countDocuments({ _id: { $in: floorLocationIds }, facilityId: hygieneChecklist.facilityId, isDeleted: false });
+        if (found !== floorLocationIds.length) {
+          return next(new AppError('One or more floor locations were not found at this facility', 400));
+        }
+      }
+
+      const { groups, problems } = await ChecklistFileService.group(hygieneChecklist.facilityId, hygieneChecklist.items, {
+        assignedDepartment,
+        frequency: hygieneChecklist.checklistType,
+        floorLocationIds
+      });
+      if (problems.length > 0) {
+        return next(new AppError(problems.slice(0, 5).join('; '), 400));
+      }
+
+      // Templates created from an earlier version are replaced; checklists already generated from them are kept
+      const previous = await ChecklistTemplate.find({ hygieneChecklistId: hygieneChecklist._id, isDeleted: false });
+      for (const template of previous) {
+        template.isDeleted = true;
+        template.updatedBy = req.user._id;
+        await template.save();
+        await ChecklistTemplateService.regenerate(template, req.user._id);
+      }
+
+      const start = new Date(`${String(startDate).slice(0, 10)}T00:00:00.000Z`);
+      const baseName = path.parse(hygieneChecklist.fileName).name;
+      const templates = [];
+      let created = 0;
+      for (const group of groups) {
+        const recurrence: Partial<IRecurrence> = { frequency: group.frequency };
+        if (group.frequency === RecurrenceFrequency.WEEKLY) recurrence.weekdays = weekdays?.length ? weekdays : [WEEKDAYS[start.getUTCDay()]];
+        if (group.frequency === RecurrenceFrequency.MONTHLY) recurrence.monthDays = monthDays?.length ? monthDays : [start.getUTCDate()];
+
+        const template = await ChecklistTemplate.create({
+          facilityId: hygieneChecklist.facilityId,
+          hygieneSectionId: hygieneChecklist.sectionId,
+          assignedDepartment: group.assignedDepartment,
+          name: `${baseName} - ${group.frequency}${group.area ? ` - ${group.area}` : ''}`.slice(0, 100),
+          description: `Version ${hygieneChecklist.version} of ${hygieneChecklist.fileName}`,
+          checklistItems: group.items.map(item => ({ itemName: item.itemName, description: item.description })),
+          floorLocationIds: group.floorLocationIds,
+          recurrence,
+          startDate: start,
+          hygieneChecklistId: hygieneChecklist._id,
+          createdBy: req.user._id,
+          updatedBy: req.user._id
+        });
+        created += (await ChecklistTemplateService.regenerate(template, req.user._id)).created;
+        templates.push(template);
+      }
+
+      res.status(201).json({
+        status: 'success',
+        message: `${templates.length} checklist templates created${previous.length ? `, replacing ${previous.length}` : ''}`,
+        results: templates.length,
+        data: { templates, replaced: previous.length, checklists: { created } }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Turn the items of a checklist into the daily checklists of a date, one per department and floor location
+  static async createDailyChecklistsFromHygieneChecklist(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { date, assignedDepartment, floorLocationIds, frequency } = req.body;
+
+      const hygieneChecklist = await HygieneChecklist.findOne(req.facilityScope!.apply({ _id: id, isDeleted: false }));
+      if (!hygieneChecklist) return next(new AppError('Hygiene checklist not found', 404));
+      if (hygieneChecklist.items.length === 0) {
+        return next(new AppError('No items were read from this checklist\'s file; upload it again as a new version', 400));
+      }
+
+      const { timezone } = await AttendanceService.getSettings(hygieneChecklist.facilityId);
+      if (date < AttendanceService.localDateKey(new Date(), timezone)) {
+        return next(new AppError('Checklists cannot be created for past dates', 400));
+      }
+      if (floorLocationIds?.length) {
+        const found = await FloorLocation.countDocuments({ _id: { $in: floorLocationIds }, facilityId: hygieneChecklist.facilityId, isDeleted: false });
+        if (found !== floorLocationIds.length) {
+          return next(new AppError('One or more floor locations were not found at this facility', 400));
+        }
+      }
+
+      const { groups, problems } = await ChecklistFileService.group(hygieneChecklist.facilityId, hygieneChecklist.items, {
+        assignedDepartment,
+        frequency: hygieneChecklist.checklistType,
+        floorLocationIds
+      });
+      if (problems.length > 0) {
+        return next(new AppError(problems.slice(0, 5).join('; '), 400));
+      }
+
+      // One checklist per department and floor, with the items of every frequency asked for
+      const byFloor = new Map<string, { assignedDepartment: string; floorLocationId: unknown; items: IHygieneChecklistItem[] }>();
+      for (const group of groups) {
+        if (frequency && group.frequency !== frequency) continue;
+        for (const floorLocationId of group.floorLocationIds) {
+          const key = `${group.assignedDepartment}|${floorLocationId}`;
+          const entry = byFloor.get(key) ?? { assignedDepartment: group.assignedDepartment, floorLocationId, items: [] };
+          entry.items.push(...group.items);
+          byFloor.set(key, entry);
+        }
+      }
+      if (byFloor.size === 0) {
+        return next(new AppError('No items of this checklist match', 400));
+      }
+
+      const checklistDate = new Date(`${date}T00:00:00.000Z`);
+      const dailyChecklists = [];
+      let skipped = 0;
+      for (const entry of byFloor.values()) {
+        const existing = await DailyChecklist.exists({
+          facilityId: hygieneChecklist.facilityId,
+          hygieneSectionId: hygieneChecklist.sectionId,
+          floorLocationId: entry.floorLocationId,
+          checklistDate,
+          isDeleted: false
+        });
+        if (existing) {
+          skipped++;
+          continue;
+        }
+        dailyChecklists.push(await DailyChecklist.create({
+          facilityId: hygieneChecklist.facilityId,
+          hygieneSectionId: hygieneChecklist.sectionId,
+          floorLocationId: entry.floorLocationId,
+          checklistDate,
+          checklistItems: entry.items.map(item => ({ itemName: item.itemName, description: item.description, isCompleted: false })),
+          assignedDepartment: entry.assignedDepartment,
+          createdBy: req.user._id,
+          updatedBy: req.user._id
+        }));
+      }
+
+      res.status(201).json({
+        status: 'success',
+        message: `${dailyChecklists.length} daily checklists created, ${skipped} floors already had one`,
+        results: dailyChecklists.length,
+        data: { dailyChecklists, skipped }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+}
@@ -2,7 +2,6 @@ import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
 import { HygieneSection } from '../models/HygieneSection';
-import { UserRole } from '../models/User';
 import { validateObjectId } from '../utils/validation';
 
 export class HygieneSectionController {
@@ -11,32 +10,13 @@ export class HygieneSectionController {
     try {
       const user = req.user;
       
-      // Get facilityId from user's managed facilities
-      let facilityId: string;
-      
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can create hygiene section for any facility
-        facilityId = req.body.facilityId;
-        if (!facilityId) {
-          return next(new AppError('facilityId is required', 400));
-        }
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only create for their managed facilities
-        if (req.body.facilityId) {
-          const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-          if (!managedFacilityIds.includes(req.body.facilityId)) {
-            return next(new AppError('You can only create hygiene sections for your managed facilities', 403));
-          }
-          facilityId = req.body.facilityId;
-        } else {
-          // Use first managed facility if not specified
-          if (user.managedFacilities.length === 0) {
-            return next(new AppError('No managed facilities found', 400));
-          }
-          facilityId = user.managedFacilities[0]._id.toString();
-        }
-      } else {
-        return next(new AppError('Insufficient permissions', 403));
+      // Resolve the target facility within the user's facility scope
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only create hygiene sections for your managed facilities', 403));
       }
 
       const hygieneSectionData = {
@@ -56,26 +36,15 @@ export class HygieneSectionController {
   // Get all Hygiene Sections (with optional filters)
   static async getAllHygieneSections(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
       const { facilityId, sectionName, isActive } = req.query;
       const filter: any = { isDeleted: false };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can see all hygiene sections
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only see hygiene sections for their managed facilities
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view hygiene sections for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view hygiene sections for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       if (sectionName) filter.sectionName = { $regex: sectionName, $options: 'i' };
       if (isActive !== undefined) filter.isActive = isActive === 'true';
@@ -96,7 +65,6 @@ export class HygieneSectionController {
   static async getHygieneSectionById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid hygiene section ID', 400));
       
@@ -108,11 +76,8 @@ export class HygieneSectionController {
       if (!hygieneSection) return next(new AppError('Hygiene section not found', 404));
 
       // Check if user has access to this hygiene section's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(hygieneSection.facilityId.toString())) {
-          return next(new AppError('You can only view hygiene sections for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(hygieneSection.facilityId)) {
+        return next(new AppError('You can only view hygiene sections for your managed facilities', 403));
       }
 
       res.json({ status: 'success', data: { hygieneSection } });
@@ -134,11 +99,11 @@ export class HygieneSectionController {
       if (!existingHygieneSection) return next(new AppError('Hygiene section not found', 404));
 
       // Check if user has access to this hygiene section's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingHygieneSection.facilityId.toString())) {
-          return next(new AppError('You can only update hygiene sections for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingHygieneSection.facilityId)) {
+        return next(new AppError('You can only update hygiene sections for your managed facilities', 403));
+      }
+      if (req.body.facilityId && !req.facilityScope!.allows(req.body.facilityId)) {
+        return next(new AppError('You can only move hygiene sections to your managed facilities', 403));
       }
 
       const updateData = {
@@ -165,7 +130,6 @@ export class HygieneSectionController {
   static async deleteHygieneSection(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid hygiene section ID', 400));
       
@@ -174,11 +138,8 @@ export class HygieneSectionController {
       if (!existingHygieneSection) return next(new AppError('Hygiene section not found', 404));
 
       // Check if user has access to this hygiene section's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingHygieneSection.facilityId.toString())) {
-          return next(new AppError('You can only delete hygiene sections for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingHygieneSection.facilityId)) {
+        return next(new AppError('You can only delete hygiene sections for your managed facilities', 403));
       }
 
       const hygieneSection = await HygieneSection.findOneAndUpdate(
@@ -0,0 +1,182 @@
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { User } from '../models/User';
+import { InvitationService } from '../services/invitation.service';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+// Users invited but not yet onboarded
+const OPEN_INVITATION_FILTER = {
+  isDeleted: false,
+  invitation: { $exists: true },
+  'invitation.acceptedAt': { $exists: false }
+};
+
+// Invitation details returned in lists (the token id stays internal)
+const INVITATION_FIELDS = ['invitedBy', 'invitedAt', 'expiresAt', 'sentCount', 'revokedAt', 'revokedBy']
+  .map(field => `invitation.${field}`)
+  .join(' ');
+
+const INVALID_INVITATION_MESSAGE = 'Invalid or expired invitation';
+
+export class InvitationController {
+  // Get invitations that have not been accepted, optionally only pending, expired or revoked ones
+  static async getInvitations(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, search } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const filter: any = { ...OPEN_INVITATION_FILTER };
+      if (status === 'revoked') {
+        filter['invitation.revokedAt'] = { $exists: true };
+      } else if (status === 'pending' || status === 'expired') {
+        filter['invitation.revokedAt'] = { $exists: false };
+        filter['invitation.expiresAt'] = status === 'pending' ? { $gt: new Date() } : { $lte: new Date() };
+      }
+      if (search) {
+        filter.$or = [
+          { firstName: { $regex: search, $options: 'i' } },
+          { lastName: { $regex: search, $options: 'i' } },
+          { email: { $regex: search, $options: 'i' } }
+        ];
+      }
+
+      // Users limited to some facilities only see invitees of those facilities
+      const scopedFilter = req.facilityScope!.apply(filter, 'managedFacilities');
+
+      const [users, total] = await Promise.all([
+        User.find(scopedFilter)
+          .select(`firstName lastName email role status verificationStatus managedFacilities createdAt ${INVITATION_FIELDS}`)
+          .sort({ 'invitation.invitedAt': -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('invitation.invitedBy', 'firstName lastName email')
+          .populate('managedFacilities', 'siteName city')
+          .lean(),
+        User.countDocuments(scopedFilter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: users.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { invitations: users }
+      });
+    } catch (error) {
+      logger.error('Get invitations error:', error);
+      next(error);
+    }
+  }
+
+  // Issue a new invitation link (invalidating the previous one), also for expired or revoked invitations
+  static async resendInvitation(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await User.findOne(
+        req.facilityScope!.apply({ _id: req.params.userId, ...OPEN_INVITATION_FILTER }, 'managedFacilities')
+      );
+      if (!user) {
+        throw new AppError('No open invitation found for this user', 404);
+      }
+
+      await InvitationService.issue(user, req.user);
+
+      logger.info(`Invitation resent to user ${user._id} by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Invitation sent successfully',
+        data: {
+          userId: user._id,
+          email: user.email,
+          invitation: user.toJSON().invitation
+        }
+      });
+    } catch (error) {
+      logger.error('Resend invitation error:', error);
+      next(error);
+    }
+  }
+
+  // Revoke a pending invitation; the account stays inactive unless invited again
+  static async revokeInvitation(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await User.findOne(req.facilityScope!.apply({
+        _id: req.params.userId,
+        ...OPEN_INVITATION_FILTER,
+        'invitation.revokedAt': { $exists: false }
+      }, 'managedFacilities'));
+      if (!user) {
+        throw new AppError('No pending invitation found for this user', 404);
+      }
+
+      await InvitationService.revoke(user, req.user);
+
+      logger.info(`Invitation of user ${user._id} revoked by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Invitation revoked successfully',
+        data: {
+          userId: user._id,
+          email: user.email,
+          invitation: user.toJSON().invitation
+        }
+      });
+    } catch (error) {
+      logger.error('Revoke invitation error:', error);
+      next(error);
+    }
+  }
+
+  // Look up an invitation token so the accept page can show who is being invited (public)
+  static async getInvitationByToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await InvitationService.findByToken(req.params.token);
+      if (!user) {
+        throw new AppError(INVALID_INVITATION_MESSAGE, 400);
+      }
+
+      res.json({
+        status: 'success',
+        data: {
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role,
+          expiresAt: user.invitation!.expiresAt
+        }
+      });
+    } catch (error) {
+      logger.error('Get invitation by token error:', error);
+      next(error);
+    }
+  }
+
+  // Accept an invitation: set the password, verify the email and activate the account (public)
+  static async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await InvitationService.findByToken(req.params.token);
+      if (!user) {
+        throw new AppError(INVALID_INVITATION_MESSAGE, 400);
+      }
+
+      await InvitationService.accept(user, req.body.password);
+
+      logger.info(`Invitation accepted by user: ${user.email}`);
+
+      res.json({
+        status: 'success',
+        message: 'Invitation accepted. You can now sign in with your new password'
+      });
+    } catch (error) {
+      logger.error('Accept invitation error:', error);
+      next(error);
+    }
+  }
+}
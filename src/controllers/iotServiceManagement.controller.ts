@@ -1,22 +1,24 @@
-import { NextFunction, Request, Response } from 'express';
+import { NextFunction, Response } from 'express';
 import mongoose from 'mongoose';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
 import { IoTServiceCategory, IoTServiceManagement } from '../models/IoTServiceManagement';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 import { logger } from '../utils/logger';
 import { validateObjectId, validatePagination } from '../utils/validation';
 
 export class IoTServiceManagementController {
   // Initialize IoT services for a facility
-  static async initializeIoTServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async initializeIoTServices(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { facilityId, facilityName, facilityType, createdBy } = req.body;
+      const { facilityId, facilityName, facilityType } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(createdBy)) {
-        throw new AppError('Invalid user ID', 400);
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError(FACILITY_ACCESS_DENIED_MESSAGE, 403);
       }
 
       // Check if IoT services already exist for this facility
@@ -30,7 +32,7 @@ export class IoTServiceManagementController {
         new mongoose.Types.ObjectId(facilityId),
         facilityName,
         facilityType,
-        new mongoose.Types.ObjectId(createdBy)
+        req.user._id
       );
 
       res.status(201).json({
@@ -47,7 +49,7 @@ export class IoTServiceManagementController {
   }
 
   // Get IoT services by facility ID with auto-initialization
-  static async getIoTServicesByFacilityId(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getIoTServicesByFacilityId(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
       const { category, includeInactive = 'false' } = req.query;
@@ -77,7 +79,7 @@ export class IoTServiceManagementController {
             new mongoose.Types.ObjectId(facilityId),
             facility.siteName,
             facility.facilityType,
-            facility._id // Use facility ID as creator if no user specified
+            req.user._id
           );
 
           services = iotServiceManagement.toObject();
@@ -121,7 +123,7 @@ export class IoTServiceManagementController {
   }
 
   // Get all IoT service management records with pagination
-  static async getAllIoTServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getAllIoTServices(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const {
         search,
@@ -134,8 +136,8 @@ export class IoTServiceManagementController {
 
       const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
 
-      // Build filter object
-      const filter: any = { isDeleted: false };
+      // Build filter object, limited to the facilities the user can access
+      const filter: any = { isDeleted: false, ...req.facilityScope!.condition() };
 
       // Text search
       if (search) {
@@ -199,19 +201,15 @@ export class IoTServiceManagementController {
   }
 
   // Add a new IoT service to a category
-  static async addIoTServiceToCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async addIoTServiceToCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, name, description, isActive = false, status, features, integrationEndpoint, updatedBy } = req.body;
+      const { category, name, description, isActive = false, status, features, integrationEndpoint } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(IoTServiceCategory).includes(category)) {
         throw new AppError('Invalid IoT service category', 400);
       }
@@ -246,7 +244,7 @@ export class IoTServiceManagementController {
       });
 
       // Update updatedBy field
-      iotServiceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      iotServiceManagement.updatedBy = req.user._id;
       await iotServiceManagement.save();
 
       res.status(201).json({
@@ -263,19 +261,15 @@ export class IoTServiceManagementController {
   }
 
   // Update IoT service status (activate/deactivate)
-  static async updateIoTServiceStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateIoTServiceStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, serviceName, isActive, updatedBy } = req.body;
+      const { category, serviceName, isActive } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(IoTServiceCategory).includes(category)) {
         throw new AppError('Invalid IoT service category', 400);
       }
@@ -293,7 +287,7 @@ export class IoTServiceManagementController {
       await iotServiceManagement.updateServiceStatus(category, serviceName, isActive);
       
       // Update updatedBy field
-      iotServiceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      iotServiceManagement.updatedBy = req.user._id;
       await iotServiceManagement.save();
 
       res.json({
@@ -310,19 +304,15 @@ export class IoTServiceManagementController {
   }
 
   // Update IoT service details
-  static async updateIoTServiceDetails(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateIoTServiceDetails(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, oldServiceName, newServiceName, description, status, features, integrationEndpoint, updatedBy } = req.body;
+      const { category, oldServiceName, newServiceName, description, status, features, integrationEndpoint } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(IoTServiceCategory).includes(category)) {
         throw new AppError('Invalid IoT service category', 400);
       }
@@ -363,7 +353,7 @@ export class IoTServiceManagementController {
       if (integrationEndpoint !== undefined) service.integrationEndpoint = integrationEndpoint;
 
       service.updatedAt = new Date();
-      iotServiceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      iotServiceManagement.updatedBy = req.user._id;
       
       await iotServiceManagement.save();
 
@@ -381,19 +371,15 @@ export class IoTServiceManagementController {
   }
 
   // Remove IoT service from category
-  static async removeIoTServiceFromCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async removeIoTServiceFromCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, serviceName, updatedBy } = req.body;
+      const { category, serviceName } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(IoTServiceCategory).includes(category)) {
         throw new AppError('Invalid IoT service category', 400);
       }
@@ -421,7 +407,7 @@ export class IoTServiceManagementController {
       // Remove the service
       serviceCategory.services.splice(serviceIndex, 1);
       serviceCategory.updatedAt = new Date();
-      iotServiceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      iotServiceManagement.updatedBy = req.user._id;
       
       await iotServiceManagement.save();
 
@@ -439,19 +425,15 @@ export class IoTServiceManagementController {
   }
 
   // Bulk update IoT services
-  static async bulkUpdateIoTServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async bulkUpdateIoTServices(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { services, updatedBy } = req.body;
+      const { services } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Array.isArray(services) || services.length === 0) {
         throw new AppError('Please provide an array of IoT services to update', 400);
       }
@@ -480,7 +462,7 @@ export class IoTServiceManagementController {
         }
       }
 
-      iotServiceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      iotServiceManagement.updatedBy = req.user._id;
       await iotServiceManagement.save();
 
       res.json({
@@ -497,7 +479,7 @@ export class IoTServiceManagementController {
   }
 
   // Get IoT service statistics
-  static async getIoTServiceStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getIoTServiceStatistics(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
 
@@ -549,24 +531,19 @@ export class IoTServiceManagementController {
   }
 
   // Delete IoT service management (soft delete)
-  static async deleteIoTServiceManagement(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async deleteIoTServiceManagement(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { updatedBy } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       const iotServiceManagement = await IoTServiceManagement.findOneAndUpdate(
         { facilityId, isDeleted: false },
         { 
           isDeleted: true, 
-          updatedBy: new mongoose.Types.ObjectId(updatedBy),
+          updatedBy: req.user._id,
           lastUpdated: new Date()
         },
         { new: true }
@@ -590,7 +567,7 @@ export class IoTServiceManagementController {
   }
 
   // Get global IoT service statistics (across all facilities)
-  static async getGlobalIoTServiceStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getGlobalIoTServiceStatistics(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const [
         totalFacilities,
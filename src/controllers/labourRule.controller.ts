@@ -0,0 +1,104 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { LabourRuleService } from '../services/labourRule.service';
+import { logger } from '../utils/logger';
+
+// Longest range validated at once
+const MAX_VALIDATION_RANGE_DAYS = 62;
+
+export class LabourRuleController {
+  private static resolveFacility(req: AuthenticatedRequest): string {
+    const { facilityId } = req.params;
+    if (!req.facilityScope!.allows(facilityId)) {
+      throw new AppError('You can only manage labour rules of your managed facilities', 403);
+    }
+    return facilityId;
+  }
+
+  // Get the labour rules of a facility
+  static async getRules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = LabourRuleController.resolveFacility(req);
+      const rules = await LabourRuleService.getRules(facilityId);
+
+      res.json({
+        status: 'success',
+        data: { rules, isDefault: rules.isNew }
+      });
+    } catch (error) {
+      logger.error('Get labour rules error:', error);
+      next(error);
+    }
+  }
+
+  // Update the labour rules of a facility; they apply to later shift, roster and swap writes
+  static async updateRules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = LabourRuleController.resolveFacility(req);
+      const rules = await LabourRuleService.getRules(facilityId);
+
+      rules.set(req.body);
+      if (rules.overtimeDailyHours != null && rules.maxDailyHours != null && rules.overtimeDailyHours > rules.maxDailyHours) {
+        throw new AppError('overtimeDailyHours cannot exceed maxDailyHours', 400);
+      }
+      if (rules.overtimeWeeklyHours != null && rules.maxWeeklyHours != null && rules.overtimeWeeklyHours > rules.maxWeeklyHours) {
+        throw new AppError('overtimeWeeklyHours cannot exceed maxWeeklyHours', 400);
+      }
+      rules.createdBy = rules.createdBy ?? req.user._id;
+      rules.updatedBy = req.user._id;
+      await rules.save();
+
+      logger.info(`Labour rules of facility ${facilityId} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Labour rules updated successfully',
+        data: { rules }
+      });
+    } catch (error) {
+      logger.error('Update labour rules error:', error);
+      next(error);
+    }
+  }
+
+  // List every violation of the labour rules in a facility's plan between two dates
+  static async validateSchedule(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = LabourRuleController.resolveFacility(req);
+      const from = req.query.from as string;
+      const to = req.query.to as string;
+
+      const days = (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000) + 1;
+      if (isNaN(days) || days < 1) {
+        throw new AppError('to must not be before from', 400);
+      }
+      if (days > MAX_VALIDATION_RANGE_DAYS) {
+        throw new AppError(`A schedule can be validated over at most ${MAX_VALIDATION_RANGE_DAYS} days at once`, 400);
+      }
+
+      const { rules, shifts, violations } = await LabourRuleService.validate(facilityId, from, to, {
+        employeeIds: req.query.employeeId ? [req.query.employeeId as string] : undefined,
+        includeDrafts: req.query.includeDrafts === 'true'
+      });
+
+      res.json({
+        status: 'success',
+        results: violations.length,
+        data: {
+          facilityId,
+          from,
+          to,
+          rules,
+          shifts,
+          errors: violations.filter(violation => violation.severity === 'error').length,
+          warnings: violations.filter(violation => violation.severity === 'warning').length,
+          violations
+        }
+      });
+    } catch (error) {
+      logger.error('Validate schedule error:', error);
+      next(error);
+    }
+  }
+}
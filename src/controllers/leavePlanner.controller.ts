@@ -1,60 +1,254 @@
 import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
-import { LeavePlanner } from '../models/LeavePlanner';
-import { UserRole } from '../models/User';
-import { validateObjectId } from '../utils/validation';
+import { ApprovalRequestType } from '../models/ApprovalWorkflow';
+import { LeaveLedgerEntry, LeaveLedgerEntryType } from '../models/LeaveLedger';
+import { ILeavePlanner, LeavePlanner } from '../models/LeavePlanner';
+import { LeaveExceedAction } from '../models/LeavePolicy';
+import { IUser, User } from '../models/User';
+import { ApprovalService } from '../services/approval.service';
+import { HalfDay, HolidayCalendarService, LeaveDuration } from '../services/holidayCalendar.service';
+import { LeaveBalanceService } from '../services/leaveBalance.service';
+import { PermissionService } from '../services/permission.service';
+import { logger } from '../utils/logger';
+import { validateObjectId, validatePagination } from '../utils/validation';
+
+// Statuses holding (or reserving) leave balance
+const BALANCE_STATUSES = ['pending', 'approved'];
+
+// Maintained by the approval actions and balance calculation, never taken from a request body
+const WORKFLOW_FIELDS = [
+  'status', 'approvedBy', 'approvedDate', 'approvalChain', 'approvalLevel', 'approvalHistory',
+  'totalDays', 'lossOfPayDays', 'appliedDate', 'createdBy', 'updatedBy', 'isDeleted'
+];
+
+const omitWorkflowFields = (body: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(Object.entries(body).filter(([field]) => !WORKFLOW_FIELDS.includes(field)));
+
+const POPULATE_LEAVE_PLANNER = [
+  { path: 'facilityId', select: 'siteName city' },
+  { path: 'employeeId', select: 'firstName lastName email' },
+  { path: 'approvedBy', select: 'firstName lastName' },
+  { path: 'approvalHistory.by', select: 'firstName lastName' },
+  { path: 'createdBy', select: 'firstName lastName' },
+  { path: 'updatedBy', select: 'firstName lastName' }
+];
 
 export class LeavePlannerController {
+  /**
+   * Check an application against the employee's leave balance.
+   * @returns the days to record as loss of pay; throws when the policy rejects applications exceeding the balance
+   */
+  private static async resolveLossOfPay(params: {
+    employee: IUser;
+    facilityId: any;
+    leaveType: string;
+    startDate: Date;
+    endDate: Date;
+    halfDay?: HalfDay | null;
+    totalDays: number;
+    leaveId?: any;
+  }): Promise<number> {
+    const check = await LeaveBalanceService.checkApplication(params);
+    if (check.lossOfPayDays > 0 && check.policy?.exceedAction === LeaveExceedAction.REJECT) {
+      // A leave over the year end is reported against the first year it exceeds
+      const short = check.years.length > 1 ? check.years.find(year => year.days > Math.max(year.available, 0)) : undefined;
+      throw new AppError(
+        short
+          ? `Insufficient ${params.leaveType} leave balance for ${short.year}: ${Math.max(short.available, 0)} day(s) available, ${short.days} requested`
+          : `Insufficient ${params.leaveType} leave balance: ${Math.max(check.available, 0)} day(s) available, ${params.totalDays} requested`,
+        400
+      );
+    }
+    return check.lossOfPayDays;
+  }
+
+  // Employee a leave is for; when a facility is given, the employee must work there
+  private static async findEmployee(employeeId: any, facilityId?: any): Promise<IUser> {
+    const employee = await User.findOne({
+      _id: employeeId,
+      isDeleted: false,
+      ...(facilityId && { managedFacilities: facilityId })
+    });
+    if (!employee) {
+      throw new AppError(facilityId ? 'Employee not found in this facility' : 'Employee not found', 404);
+    }
+    return employee;
+  }
+
+  // Working days of a leave, excluding the employee's approved week-offs and the facility's holidays
+  private static async calculateDuration(params: {
+    employee: IUser;
+    facilityId: any;
+    startDate: Date;
+    endDate: Date;
+    halfDay?: HalfDay | null;
+  }): Promise<LeaveDuration> {
+    const { startDate, endDate, halfDay } = params;
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new AppError('Invalid start or end date', 400);
+    }
+    if (endDate < startDate) {
+      throw new AppError('End date must be on or after the start date', 400);
+    }
+    if (halfDay && startDate.toISOString().slice(0, 10) !== endDate.toISOString().slice(0, 10)) {
+      throw new AppError('A half-day leave must start and end on the same day', 400);
+    }
+
+    const duration = await HolidayCalendarService.calculateLeaveDays(params);
+    if (duration.totalDays === 0) {
+      throw new AppError('The selected dates only cover week-offs and holidays', 400);
+    }
+    return duration;
+  }
+
+  // Employee and facility whose balance is requested; the facility defaults to the employee's first one in scope
+  private static async resolveBalanceOwner(req: AuthenticatedRequest): Promise<{ employee: IUser; facilityId: string }> {
+    const employee = await User.findOne({ _id: req.params.employeeId, isDeleted: false });
+    if (!employee) {
+      throw new AppError('Employee not found', 404);
+    }
+
+    const requestedFacilityId = (req.query.facilityId || req.body?.facilityId) as string | undefined;
+    const facilityId = requestedFacilityId
+      || (employee.managedFacilities || []).map(id => id.toString()).find(id => req.facilityScope!.allows(id));
+    if (!facilityId) {
+      throw new AppError('facilityId is required', 400);
+    }
+    if (!req.facilityScope!.allows(facilityId)) {
+      throw new AppError('You can only manage leave balances for your managed facilities', 403);
+    }
+    return { employee, facilityId };
+  }
+
+  /**
+   * Calculate, balance-check and submit a leave application into the facility's approval chain.
+   * Status and approval fields of the request body are ignored: every application starts as pending.
+   */
+  private static async submitLeave(req: AuthenticatedRequest, employee: IUser, facilityId: string) {
+    // Calculate the working days taken as leave
+    const startDate = new Date(req.body.startDate);
+    const endDate = new Date(req.body.endDate);
+    const duration = await LeavePlannerController.calculateDuration({
+      employee,
+      facilityId,
+      startDate,
+      endDate,
+      halfDay: req.body.halfDay
+    });
+    const { totalDays } = duration;
+
+    const lossOfPayDays = await LeavePlannerController.resolveLossOfPay({
+      employee,
+      facilityId,
+      leaveType: req.body.leaveType,
+      startDate,
+      endDate,
+      halfDay: req.body.halfDay,
+      totalDays
+    });
+
+    const leavePlanner = new LeavePlanner({
+      ...omitWorkflowFields(req.body),
+      employeeId: employee._id,
+      facilityId,
+      totalDays,
+      lossOfPayDays,
+      appliedDate: new Date(),
+      createdBy: req.user._id,
+      updatedBy: req.user._id
+    });
+    await ApprovalService.submit(leavePlanner, ApprovalRequestType.LEAVE, req.user);
+    await leavePlanner.save();
+
+    return { leavePlanner, duration, lossOfPayDays };
+  }
+
   // Create Leave Planner
   static async createLeavePlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
-      
-      // Get facilityId from user's managed facilities
-      let facilityId: string;
-      
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can create leave planner for any facility
-        facilityId = req.body.facilityId;
-        if (!facilityId) {
-          return next(new AppError('facilityId is required', 400));
-        }
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only create for their managed facilities
-        if (req.body.facilityId) {
-          const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-          if (!managedFacilityIds.includes(req.body.facilityId)) {
-            return next(new AppError('You can only create leave planners for your managed facilities', 403));
-          }
-          facilityId = req.body.facilityId;
-        } else {
-          // Use first managed facility if not specified
-          if (user.managedFacilities.length === 0) {
-            return next(new AppError('No managed facilities found', 400));
-          }
-          facilityId = user.managedFacilities[0]._id.toString();
-        }
-      } else {
-        return next(new AppError('Insufficient permissions', 403));
+      // Resolve the target facility within the user's facility scope
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only create leave planners for your managed facilities', 403));
       }
 
-      // Calculate total days
-      const startDate = new Date(req.body.startDate);
-      const endDate = new Date(req.body.endDate);
-      const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+      const employee = await LeavePlannerController.findEmployee(req.body.employeeId, facilityId);
+      const { leavePlanner, duration, lossOfPayDays } = await LeavePlannerController.submitLeave(req, employee, facilityId);
 
-      const leavePlannerData = {
-        ...req.body,
-        facilityId,
-        totalDays,
-        appliedDate: new Date(),
-        createdBy: user._id,
-        updatedBy: user._id
-      };
+      res.status(201).json({
+        status: 'success',
+        ...(lossOfPayDays > 0 && { message: `Leave exceeds the available balance; ${lossOfPayDays} day(s) recorded as loss of pay` }),
+        data: { leavePlanner, duration }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Apply for leave as the signed-in employee
+  static async applyForOwnLeave(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only apply for leave in your own facilities', 403));
+      }
+
+      const { leavePlanner, duration, lossOfPayDays } = await LeavePlannerController.submitLeave(req, req.user, facilityId);
 
-      const leavePlanner = await LeavePlanner.create(leavePlannerData);
-      res.status(201).json({ status: 'success', data: { leavePlanner } });
+      res.status(201).json({
+        status: 'success',
+        message: lossOfPayDays > 0
+          ? `Leave applied; ${lossOfPayDays} day(s) exceed your balance and are recorded as loss of pay`
+          : 'Leave applied successfully',
+        data: { leavePlanner, duration }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Get the signed-in employee's own leave applications
+  static async getMyLeavePlanners(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { status, leaveType } = req.query;
+      const filter: any = { employeeId: req.user._id, isDeleted: false };
+      if (status) filter.status = status;
+      if (leaveType) filter.leaveType = leaveType;
+
+      const leavePlanners = await LeavePlanner.find(filter)
+        .populate('facilityId', 'siteName city')
+        .populate('approvedBy', 'firstName lastName')
+        .populate('approvalHistory.by', 'firstName lastName')
+        .sort({ appliedDate: -1 });
+
+      res.json({ status: 'success', data: { leavePlanners } });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Get the signed-in employee's own leave balances
+  static async getMyLeaveBalances(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const facilityId = (req.query.facilityId as string | undefined) || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only view leave balances of your own facilities', 403));
+      }
+      const year = Number(req.query.year) || new Date().getUTCFullYear();
+
+      const balances = await LeaveBalanceService.getBalances(req.user, facilityId, year);
+
+      res.json({ status: 'success', data: { facilityId, year, balances } });
     } catch (err) {
       next(err);
     }
@@ -63,26 +257,15 @@ export class LeavePlannerController {
   // Get all Leave Planners (with optional filters)
   static async getAllLeavePlanners(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
       const { facilityId, employeeId, status, leaveType, startDate, endDate } = req.query;
       const filter: any = { isDeleted: false };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can see all leave planners
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only see leave planners for their managed facilities
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view leave planners for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view leave planners for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       if (employeeId) filter.employeeId = employeeId;
       if (status) filter.status = status;
@@ -108,7 +291,6 @@ export class LeavePlannerController {
   static async getLeavePlannerById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid leave planner ID', 400));
       
@@ -122,11 +304,8 @@ export class LeavePlannerController {
       if (!leavePlanner) return next(new AppError('Leave planner not found', 404));
 
       // Check if user has access to this leave planner's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(leavePlanner.facilityId.toString())) {
-          return next(new AppError('You can only view leave planners for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(leavePlanner.facilityId)) {
+        return next(new AppError('You can only view leave planners for your managed facilities', 403));
       }
 
       res.json({ status: 'success', data: { leavePlanner } });
@@ -148,41 +327,68 @@ export class LeavePlannerController {
       if (!existingLeavePlanner) return next(new AppError('Leave planner not found', 404));
 
       // Check if user has access to this leave planner's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingLeavePlanner.facilityId.toString())) {
-          return next(new AppError('You can only update leave planners for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingLeavePlanner.facilityId)) {
+        return next(new AppError('You can only update leave planners for your managed facilities', 403));
+      }
+      if (req.body.facilityId && !req.facilityScope!.allows(req.body.facilityId)) {
+        return next(new AppError('You can only move leave planners to your managed facilities', 403));
+      }
+      if (req.body.status !== undefined) {
+        return next(new AppError('Use the approve, reject, cancel or withdraw actions to change the status', 400));
       }
 
       const updateData: any = {
-        ...req.body,
+        ...omitWorkflowFields(req.body),
         updatedBy: user._id
       };
 
-      // If dates are updated, recalculate total days
-      if (req.body.startDate || req.body.endDate) {
-        const startDate = new Date(req.body.startDate || existingLeavePlanner.startDate);
-        const endDate = new Date(req.body.endDate || existingLeavePlanner.endDate);
-        updateData.totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+      const employeeId = req.body.employeeId || existingLeavePlanner.employeeId;
+      const facilityId = req.body.facilityId || existingLeavePlanner.facilityId;
+      const startDate = new Date(req.body.startDate || existingLeavePlanner.startDate);
+      const endDate = new Date(req.body.endDate || existingLeavePlanner.endDate);
+      const halfDay = req.body.halfDay !== undefined ? req.body.halfDay : existingLeavePlanner.halfDay;
+      // Moving the leave to another employee or facility must keep it within the employee's facilities
+      const moved = req.body.employeeId !== undefined || req.body.facilityId !== undefined;
+      const employee = await LeavePlannerController.findEmployee(employeeId, moved ? facilityId : undefined);
+
+      // If dates (or anything else affecting working days) are updated, recalculate total days
+      const durationFields = ['employeeId', 'facilityId', 'startDate', 'endDate', 'halfDay'];
+      if (durationFields.some(field => req.body[field] !== undefined)) {
+        const duration = await LeavePlannerController.calculateDuration({
+          employee,
+          facilityId,
+          startDate,
+          endDate,
+          halfDay
+        });
+        updateData.totalDays = duration.totalDays;
       }
 
-      // If status is being approved, set approvedBy and approvedDate
-      if (req.body.status === 'approved' && existingLeavePlanner.status !== 'approved') {
-        updateData.approvedBy = user._id;
-        updateData.approvedDate = new Date();
+      // Re-check the balance when the application changes
+      const balanceFields = [...durationFields, 'leaveType'];
+      if (BALANCE_STATUSES.includes(existingLeavePlanner.status) && balanceFields.some(field => req.body[field] !== undefined)) {
+        updateData.lossOfPayDays = await LeavePlannerController.resolveLossOfPay({
+          employee,
+          facilityId,
+          leaveType: req.body.leaveType || existingLeavePlanner.leaveType,
+          startDate,
+          endDate,
+          halfDay,
+          totalDays: updateData.totalDays ?? existingLeavePlanner.totalDays,
+          leaveId: existingLeavePlanner._id
+        });
       }
 
       const leavePlanner = await LeavePlanner.findOneAndUpdate(
         { _id: id, isDeleted: false },
         updateData,
         { new: true }
-      )
-        .populate('facilityId', 'siteName city')
-        .populate('employeeId', 'firstName lastName email')
-        .populate('approvedBy', 'firstName lastName')
-        .populate('createdBy', 'firstName lastName')
-        .populate('updatedBy', 'firstName lastName');
+      );
+      if (!leavePlanner) return next(new AppError('Leave planner not found', 404));
+
+      // Changing the dates or type of an approved leave moves its debit
+      await LeaveBalanceService.syncLeave(leavePlanner, user._id);
+      await leavePlanner.populate(POPULATE_LEAVE_PLANNER);
 
       res.json({ status: 'success', data: { leavePlanner } });
     } catch (err) {
@@ -190,11 +396,163 @@ export class LeavePlannerController {
     }
   }
 
+  // Leave of a facility in the user's scope; leaves outside the scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<ILeavePlanner> {
+    const leavePlanner = await LeavePlanner.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!leavePlanner) {
+      throw new AppError('Leave planner not found', 404);
+    }
+    return leavePlanner;
+  }
+
+  // Leave the user applied for, or can act on as an approver of its facility
+  private static async findForApplicantOrApprover(req: AuthenticatedRequest): Promise<{ leavePlanner: ILeavePlanner; isApprover: boolean }> {
+    const leavePlanner = await LeavePlanner.findOne({ _id: req.params.id, isDeleted: false });
+    const isApprover = !!leavePlanner
+      && PermissionService.hasPermission(req.user, 'canApproveLeaves', leavePlanner.facilityId)
+      && req.facilityScope!.allows(leavePlanner.facilityId);
+    if (!leavePlanner || (!isApprover && !ApprovalService.isApplicant(leavePlanner, req.user))) {
+      throw new AppError('Leave planner not found', 404);
+    }
+    return { leavePlanner, isApprover };
+  }
+
+  private static async respondWithLeave(res: Response, leavePlanner: ILeavePlanner, message: string) {
+    await leavePlanner.populate(POPULATE_LEAVE_PLANNER);
+    res.json({ status: 'success', message, data: { leavePlanner } });
+  }
+
+  // Approve the current level of a pending leave; the last level approves the leave and debits the balance
+  static async approveLeavePlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const leavePlanner = await LeavePlannerController.findInScope(req);
+      const loaded = ApprovalService.stateOf(leavePlanner);
+      if (leavePlanner.status !== 'pending') {
+        return next(new AppError(`Only pending leaves can be approved; this leave is ${leavePlanner.status}`, 400));
+      }
+      const blocker = ApprovalService.getDecisionBlocker(leavePlanner, req.user);
+      if (blocker) {
+        return next(new AppError(blocker, 403));
+      }
+
+      // The balance may have changed since the application
+      if (ApprovalService.isLastLevel(leavePlanner)) {
+        leavePlanner.lossOfPayDays = await LeavePlannerController.resolveLossOfPay({
+          employee: await LeavePlannerController.findEmployee(leavePlanner.employeeId),
+          facilityId: leavePlanner.facilityId,
+          leaveType: leavePlanner.leaveType,
+          startDate: leavePlanner.startDate,
+          endDate: leavePlanner.endDate,
+          halfDay: leavePlanner.halfDay,
+          totalDays: leavePlanner.totalDays,
+          leaveId: leavePlanner._id
+        });
+      }
+
+      const final = ApprovalService.approve(leavePlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(leavePlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This leave was decided on meanwhile; reload it and try again', 409));
+      }
+      await LeaveBalanceService.syncLeave(saved, req.user._id);
+
+      logger.info(`Leave ${saved._id} approved at level ${saved.approvalLevel} by ${req.user._id}`);
+
+      const nextRole = ApprovalService.pendingRole(saved);
+      await LeavePlannerController.respondWithLeave(
+        res,
+        saved,
+        final ? 'Leave approved' : `Leave approved at level ${saved.approvalLevel}; awaiting approval by a ${nextRole?.replace('_', ' ')}`
+      );
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Reject a pending leave (remarks are mandatory)
+  static async rejectLeavePlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const leavePlanner = await LeavePlannerController.findInScope(req);
+      const loaded = ApprovalService.stateOf(leavePlanner);
+      if (leavePlanner.status !== 'pending') {
+        return next(new AppError(`Only pending leaves can be rejected; this leave is ${leavePlanner.status}`, 400));
+      }
+      const blocker = ApprovalService.getDecisionBlocker(leavePlanner, req.user);
+      if (blocker) {
+        return next(new AppError(blocker, 403));
+      }
+
+      ApprovalService.reject(leavePlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(leavePlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This leave was decided on meanwhile; reload it and try again', 409));
+      }
+
+      logger.info(`Leave ${saved._id} rejected by ${req.user._id}`);
+
+      await LeavePlannerController.respondWithLeave(res, saved, 'Leave rejected');
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Cancel an approved leave and credit its days back; employees can only cancel their own leave before it starts
+  static async cancelLeavePlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { leavePlanner, isApprover } = await LeavePlannerController.findForApplicantOrApprover(req);
+      const loaded = ApprovalService.stateOf(leavePlanner);
+      if (leavePlanner.status !== 'approved') {
+        return next(new AppError(`Only approved leaves can be cancelled; this leave is ${leavePlanner.status}`, 400));
+      }
+      if (!isApprover && leavePlanner.startDate <= new Date()) {
+        return next(new AppError('Leave that has already started can only be cancelled by an approver', 403));
+      }
+
+      ApprovalService.cancel(leavePlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(leavePlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This leave was decided on meanwhile; reload it and try again', 409));
+      }
+      await LeaveBalanceService.syncLeave(saved, req.user._id);
+
+      logger.info(`Leave ${saved._id} cancelled by ${req.user._id}`);
+
+      await LeavePlannerController.respondWithLeave(res, saved, 'Leave cancelled');
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Withdraw a leave application still awaiting approval (applicant only)
+  static async withdrawLeavePlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { leavePlanner } = await LeavePlannerController.findForApplicantOrApprover(req);
+      const loaded = ApprovalService.stateOf(leavePlanner);
+      if (!ApprovalService.isApplicant(leavePlanner, req.user)) {
+        return next(new AppError('Only the applicant can withdraw a leave application', 403));
+      }
+      if (leavePlanner.status !== 'pending') {
+        return next(new AppError(`Only pending leaves can be withdrawn; this leave is ${leavePlanner.status}`, 400));
+      }
+
+      ApprovalService.withdraw(leavePlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(leavePlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This leave was decided on meanwhile; reload it and try again', 409));
+      }
+
+      logger.info(`Leave ${saved._id} withdrawn by ${req.user._id}`);
+
+      await LeavePlannerController.respondWithLeave(res, saved, 'Leave withdrawn');
+    } catch (err) {
+      next(err);
+    }
+  }
+
   // Delete Leave Planner (soft delete)
   static async deleteLeavePlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid leave planner ID', 400));
       
@@ -203,19 +561,19 @@ export class LeavePlannerController {
       if (!existingLeavePlanner) return next(new AppError('Leave planner not found', 404));
 
       // Check if user has access to this leave planner's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingLeavePlanner.facilityId.toString())) {
-          return next(new AppError('You can only delete leave planners for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingLeavePlanner.facilityId)) {
+        return next(new AppError('You can only delete leave planners for your managed facilities', 403));
       }
 
       const leavePlanner = await LeavePlanner.findOneAndUpdate(
         { _id: id, isDeleted: false },
-        { isDeleted: true },
+        { isDeleted: true, updatedBy: req.user._id },
         { new: true }
       );
 
+      // Deleting an approved leave credits its days back
+      if (leavePlanner) await LeaveBalanceService.syncLeave(leavePlanner, req.user._id);
+
       res.json({ status: 'success', message: 'Leave planner deleted', data: { leavePlanner } });
     } catch (err) {
       next(err);
@@ -225,7 +583,6 @@ export class LeavePlannerController {
   // Get upcoming leaves for a facility
   static async getUpcomingLeaves(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
       const { facilityId } = req.query;
       const filter: any = { 
         isDeleted: false, 
@@ -233,20 +590,12 @@ export class LeavePlannerController {
         startDate: { $gte: new Date() }
       };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view leaves for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view leaves for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       const upcomingLeaves = await LeavePlanner.find(filter)
         .populate('facilityId', 'siteName city')
@@ -259,4 +608,159 @@ export class LeavePlannerController {
       next(err);
     }
   }
-}
\ No newline at end of file
+
+  // Get the leave balances of an employee for a year (current year by default)
+  static async getLeaveBalances(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { employee, facilityId } = await LeavePlannerController.resolveBalanceOwner(req);
+      const year = Number(req.query.year) || new Date().getUTCFullYear();
+
+      const balances = await LeaveBalanceService.getBalances(employee, facilityId, year);
+
+      res.json({
+        status: 'success',
+        data: {
+          employee: {
+            _id: employee._id,
+            firstName: employee.firstName,
+            lastName: employee.lastName,
+            employeeType: LeaveBalanceService.employeeTypeOf(employee),
+            hireDate: employee.profile?.hireDate || null
+          },
+          facilityId,
+          year,
+          balances
+        }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Get the ledger entries behind an employee's leave balances
+  static async getLeaveLedger(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { employee, facilityId } = await LeavePlannerController.resolveBalanceOwner(req);
+      const { leaveType, entryType } = req.query;
+      const year = Number(req.query.year) || new Date().getUTCFullYear();
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const filter: any = { employeeId: employee._id, facilityId, year };
+      if (leaveType) filter.leaveType = leaveType;
+      if (entryType) filter.entryType = entryType;
+
+      const [entries, total] = await Promise.all([
+        LeaveLedgerEntry.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('leavePlannerId', 'leaveType startDate endDate totalDays status')
+          .populate('createdBy', 'firstName lastName'),
+        LeaveLedgerEntry.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: entries.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { entries }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Encash unused leave of the current year
+  static async encashLeave(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { employee, facilityId } = await LeavePlannerController.resolveBalanceOwner(req);
+      const { leaveType, days, remarks } = req.body;
+      const year = new Date().getUTCFullYear();
+
+      const policy = await LeaveBalanceService.findPolicy(facilityId, employee, leaveType);
+      if (!policy || !policy.encashable) {
+        return next(new AppError(`${leaveType} leave is not encashable for this employee`, 400));
+      }
+
+      const encashed = await LeaveBalanceService.getEncashedDays(employee._id, leaveType, year);
+      if (encashed + days > policy.maxEncashableDays) {
+        return next(new AppError(
+          `At most ${policy.maxEncashableDays} day(s) of ${leaveType} leave can be encashed per year; ${encashed} already encashed`,
+          400
+        ));
+      }
+
+      // Days reserved by pending applications cannot be encashed
+      const today = new Date();
+      const { available } = await LeaveBalanceService.checkApplication({
+        employee,
+        facilityId,
+        leaveType,
+        startDate: today,
+        endDate: today,
+        totalDays: days
+      });
+      if (days > available) {
+        return next(new AppError(`Insufficient ${leaveType} leave balance: ${Math.max(available, 0)} day(s) available`, 400));
+      }
+
+      const entry = await LeaveLedgerEntry.create({
+        employeeId: employee._id,
+        facilityId,
+        leaveType,
+        year,
+        entryType: LeaveLedgerEntryType.ENCASHMENT,
+        days: -days,
+        policyId: policy._id,
+        remarks,
+        createdBy: req.user._id
+      });
+
+      logger.info(`${days} day(s) of ${leaveType} leave encashed for employee ${employee._id} by ${req.user._id}`);
+
+      res.status(201).json({ status: 'success', message: 'Leave encashed successfully', data: { entry } });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Manually correct a leave balance (e.g. opening balances); positive days credit, negative days debit
+  static async adjustLeaveBalance(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { employee, facilityId } = await LeavePlannerController.resolveBalanceOwner(req);
+      const { leaveType, days, remarks } = req.body;
+      const year = req.body.year || new Date().getUTCFullYear();
+
+      const policy = await LeaveBalanceService.findPolicy(facilityId, employee, leaveType);
+      if (!policy) {
+        return next(new AppError(`No active ${leaveType} leave policy applies to this employee`, 400));
+      }
+
+      // Post the entitlement first so the adjustment applies on top of it
+      await LeaveBalanceService.syncYear(employee, facilityId, policy, year);
+
+      const entry = await LeaveLedgerEntry.create({
+        employeeId: employee._id,
+        facilityId,
+        leaveType,
+        year,
+        entryType: LeaveLedgerEntryType.ADJUSTMENT,
+        days,
+        policyId: policy._id,
+        remarks,
+        createdBy: req.user._id
+      });
+
+      logger.info(`${leaveType} leave balance of employee ${employee._id} adjusted by ${days} day(s) by ${req.user._id}`);
+
+      res.status(201).json({ status: 'success', message: 'Leave balance adjusted successfully', data: { entry } });
+    } catch (err) {
+      next(err);
+    }
+  }
+}
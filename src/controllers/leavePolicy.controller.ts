@@ -0,0 +1,161 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ILeavePolicy, LeavePolicy } from '../models/LeavePolicy';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+export class LeavePolicyController {
+  // Policies of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<ILeavePolicy> {
+    const leavePolicy = await LeavePolicy.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!leavePolicy) {
+      throw new AppError('Leave policy not found', 404);
+    }
+    return leavePolicy;
+  }
+
+  private static async ensureUnique(facilityId: any, employeeType: string, leaveType: string): Promise<void> {
+    const existing = await LeavePolicy.exists({ facilityId, employeeType, leaveType, isDeleted: false });
+    if (existing) {
+      throw new AppError(`A ${leaveType} leave policy for ${employeeType} employees already exists in this facility`, 409);
+    }
+  }
+
+  // Create a leave policy
+  static async createLeavePolicy(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, employeeType, leaveType } = req.body;
+
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only create leave policies for your managed facilities', 403);
+      }
+      await LeavePolicyController.ensureUnique(facilityId, employeeType, leaveType);
+
+      const leavePolicy = await LeavePolicy.create({
+        ...req.body,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`Leave policy ${leavePolicy._id} (${leaveType}, ${employeeType}) created for facility ${facilityId} by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Leave policy created successfully',
+        data: { leavePolicy }
+      });
+    } catch (error) {
+      logger.error('Create leave policy error:', error);
+      next(error);
+    }
+  }
+
+  // Get leave policies of the facilities in scope
+  static async getLeavePolicies(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, employeeType, leaveType, isActive } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        throw new AppError('You can only view leave policies of your managed facilities', 403);
+      }
+
+      const filter: any = { isDeleted: false, ...facilityCondition };
+      if (employeeType) filter.employeeType = employeeType;
+      if (leaveType) filter.leaveType = leaveType;
+      if (isActive !== undefined) filter.isActive = isActive === 'true';
+
+      const [leavePolicies, total] = await Promise.all([
+        LeavePolicy.find(filter)
+          .sort({ facilityId: 1, employeeType: 1, leaveType: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('facilityId', 'siteName city')
+          .lean(),
+        LeavePolicy.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: leavePolicies.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { leavePolicies }
+      });
+    } catch (error) {
+      logger.error('Get leave policies error:', error);
+      next(error);
+    }
+  }
+
+  // Get a leave policy
+  static async getLeavePolicyById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const leavePolicy = await LeavePolicy.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }))
+        .populate('facilityId', 'siteName city')
+        .populate('createdBy', 'firstName lastName')
+        .populate('updatedBy', 'firstName lastName');
+
+      if (!leavePolicy) {
+        throw new AppError('Leave policy not found', 404);
+      }
+
+      res.json({
+        status: 'success',
+        data: { leavePolicy }
+      });
+    } catch (error) {
+      logger.error('Get leave policy by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update a leave policy; accruals already posted are not recalculated
+  static async updateLeavePolicy(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const leavePolicy = await LeavePolicyController.findInScope(req);
+
+      leavePolicy.set(req.body);
+      leavePolicy.updatedBy = req.user._id;
+      await leavePolicy.save();
+
+      logger.info(`Leave policy ${leavePolicy._id} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Leave policy updated successfully',
+        data: { leavePolicy }
+      });
+    } catch (error) {
+      logger.error('Update leave policy error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a leave policy (soft delete); the leave type is no longer tracked, existing ledger entries are kept
+  static async deleteLeavePolicy(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const leavePolicy = await LeavePolicyController.findInScope(req);
+
+      leavePolicy.isDeleted = true;
+      leavePolicy.updatedBy = req.user._id;
+      await leavePolicy.save();
+
+      logger.info(`Leave policy ${leavePolicy._id} deleted by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Leave policy deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete leave policy error:', error);
+      next(error);
+    }
+  }
+}
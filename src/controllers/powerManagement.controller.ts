@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { IPowerManagement, PowerManagement } from '../models/PowerManagement';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 
 const generateResponse = (success: boolean, message: string, data?: any, error?: any) => ({
   success,
@@ -12,6 +13,12 @@ const generateResponse = (success: boolean, message: string, data?: any, error?:
 export const createPowerManagement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const powerManagementData: Partial<IPowerManagement> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(powerManagementData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const powerManagement = new PowerManagement(powerManagementData);
     await powerManagement.save();
@@ -46,7 +53,14 @@ export const getAllPowerManagement = async (req: AuthenticatedRequest, res: Resp
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -87,7 +101,7 @@ export const getPowerManagementById = async (req: AuthenticatedRequest, res: Res
     const { id } = req.params;
     
     const powerManagement = await PowerManagement
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!powerManagement) {
@@ -118,8 +132,13 @@ export const updatePowerManagement = async (req: AuthenticatedRequest, res: Resp
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const powerManagement = await PowerManagement
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!powerManagement) {
@@ -158,7 +177,7 @@ export const deletePowerManagement = async (req: AuthenticatedRequest, res: Resp
   try {
     const { id } = req.params;
 
-    const powerManagement = await PowerManagement.findByIdAndDelete(id);
+    const powerManagement = await PowerManagement.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!powerManagement) {
       res.status(404).json(generateResponse(
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { IROPlant, ISTP, ISwimmingPool, IWTP, ROPlant, STP, SwimmingPool, WTP } from '../models/QualityManagement';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 
 const generateResponse = (success: boolean, message: string, data?: any, error?: any) => ({
   success,
@@ -13,6 +14,12 @@ const generateResponse = (success: boolean, message: string, data?: any, error?:
 export const createSTP = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const stpData: Partial<ISTP> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(stpData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const stp = new STP(stpData);
     await stp.save();
@@ -38,7 +45,14 @@ export const getAllSTP = async (req: AuthenticatedRequest, res: Response): Promi
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -79,7 +93,7 @@ export const getSTPById = async (req: AuthenticatedRequest, res: Response): Prom
     const { id } = req.params;
     
     const stp = await STP
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!stp) {
@@ -110,8 +124,13 @@ export const updateSTP = async (req: AuthenticatedRequest, res: Response): Promi
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const stp = await STP
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!stp) {
@@ -141,7 +160,7 @@ export const deleteSTP = async (req: AuthenticatedRequest, res: Response): Promi
   try {
     const { id } = req.params;
 
-    const stp = await STP.findByIdAndDelete(id);
+    const stp = await STP.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!stp) {
       res.status(404).json(generateResponse(
@@ -169,6 +188,12 @@ export const deleteSTP = async (req: AuthenticatedRequest, res: Response): Promi
 export const createWTP = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const wtpData: Partial<IWTP> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(wtpData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const wtp = new WTP(wtpData);
     await wtp.save();
@@ -194,7 +219,14 @@ export const getAllWTP = async (req: AuthenticatedRequest, res: Response): Promi
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -235,7 +267,7 @@ export const getWTPById = async (req: AuthenticatedRequest, res: Response): Prom
     const { id } = req.params;
     
     const wtp = await WTP
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!wtp) {
@@ -266,8 +298,13 @@ export const updateWTP = async (req: AuthenticatedRequest, res: Response): Promi
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const wtp = await WTP
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!wtp) {
@@ -297,7 +334,7 @@ export const deleteWTP = async (req: AuthenticatedRequest, res: Response): Promi
   try {
     const { id } = req.params;
 
-    const wtp = await WTP.findByIdAndDelete(id);
+    const wtp = await WTP.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!wtp) {
       res.status(404).json(generateResponse(
@@ -325,6 +362,12 @@ export const deleteWTP = async (req: AuthenticatedRequest, res: Response): Promi
 export const createSwimmingPool = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const poolData: Partial<ISwimmingPool> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(poolData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const pool = new SwimmingPool(poolData);
     await pool.save();
@@ -350,7 +393,14 @@ export const getAllSwimmingPools = async (req: AuthenticatedRequest, res: Respon
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -391,7 +441,7 @@ export const getSwimmingPoolById = async (req: AuthenticatedRequest, res: Respon
     const { id } = req.params;
     
     const pool = await SwimmingPool
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!pool) {
@@ -422,8 +472,13 @@ export const updateSwimmingPool = async (req: AuthenticatedRequest, res: Respons
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const pool = await SwimmingPool
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!pool) {
@@ -453,7 +508,7 @@ export const deleteSwimmingPool = async (req: AuthenticatedRequest, res: Respons
   try {
     const { id } = req.params;
 
-    const pool = await SwimmingPool.findByIdAndDelete(id);
+    const pool = await SwimmingPool.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!pool) {
       res.status(404).json(generateResponse(
@@ -481,6 +536,12 @@ export const deleteSwimmingPool = async (req: AuthenticatedRequest, res: Respons
 export const createROPlant = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const roData: Partial<IROPlant> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(roData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const ro = new ROPlant(roData);
     await ro.save();
@@ -506,7 +567,14 @@ export const getAllROPlants = async (req: AuthenticatedRequest, res: Response):
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -547,7 +615,7 @@ export const getROPlantById = async (req: AuthenticatedRequest, res: Response):
     const { id } = req.params;
     
     const ro = await ROPlant
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!ro) {
@@ -578,8 +646,13 @@ export const updateROPlant = async (req: AuthenticatedRequest, res: Response): P
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const ro = await ROPlant
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!ro) {
@@ -609,7 +682,7 @@ export const deleteROPlant = async (req: AuthenticatedRequest, res: Response): P
   try {
     const { id } = req.params;
 
-    const ro = await ROPlant.findByIdAndDelete(id);
+    const ro = await ROPlant.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!ro) {
       res.status(404).json(generateResponse(
@@ -0,0 +1,371 @@
+import { NextFunction, Response } from 'express';
+import { PermissionFlag } from '../config/permissions';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { IRole, Role } from '../models/Role';
+import { User, UserRole } from '../models/User';
+import { PermissionService } from '../services/permission.service';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+// Same comparison as the unique index on roles (case-insensitive names)
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// Users who can be given custom roles: admins already hold every permission
+const ASSIGNABLE_USER_FILTER = { isDeleted: false, role: { $nin: [UserRole.SUPER_ADMIN, UserRole.ADMIN] } };
+
+// Permissions a role template grants
+const grantedPermissions = (permissions: Partial<Record<PermissionFlag, boolean>> = {}, customPermissions: string[] = []): string[] => [
+  ...(Object.keys(permissions) as PermissionFlag[]).filter(flag => permissions[flag]),
+  ...customPermissions
+];
+
+export class RoleController {
+  // Global roles are visible to everyone; facility roles only within the user's facility scope
+  private static canView(req: AuthenticatedRequest, role: IRole): boolean {
+    return !role.facilityId || req.facilityScope!.allows(role.facilityId);
+  }
+
+  // Global roles are platform-wide and can only be changed by users not limited to some facilities
+  private static canManage(req: AuthenticatedRequest, role: { facilityId?: any }): boolean {
+    return role.facilityId ? req.facilityScope!.allows(role.facilityId) : req.facilityScope!.isUnrestricted;
+  }
+
+  // Prevent privilege escalation: only permissions the current user holds where the role applies can be put in or
+  // handed out by a role
+  private static findNotHeld(req: AuthenticatedRequest, facilityId: any, permissions: string[]): string[] {
+    return permissions.filter(permission => !PermissionService.hasPermission(req.user, permission, facilityId));
+  }
+
+  private static async ensureUniqueName(name: string, facilityId: any, excludeId?: any): Promise<void> {
+    const filter: any = { name, facilityId: facilityId || null, isDeleted: false };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await Role.findOne(filter).collation(NAME_COLLATION);
+    if (existing) {
+      throw new AppError(`A role named '${name}' already exists ${facilityId ? 'in this facility' : 'globally'}`, 409);
+    }
+  }
+
+  // Create a custom role
+  static async createRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, description, facilityId = null, permissions = {}, customPermissions = [], isActive } = req.body;
+
+      if (!RoleController.canManage(req, { facilityId })) {
+        throw new AppError(
+          facilityId ? 'You can only create roles for your managed facilities' : 'Only administrators can create global roles',
+          403
+        );
+      }
+
+      const notHeld = RoleController.findNotHeld(req, facilityId, grantedPermissions(permissions, customPermissions));
+      if (notHeld.length > 0) {
+        throw new AppError(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`, 403);
+      }
+
+      await RoleController.ensureUniqueName(name, facilityId);
+
+      const role = await Role.create({
+        name,
+        description,
+        facilityId,
+        permissions,
+        customPermissions,
+        isActive,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`Role ${role.name} (${role._id}) created by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Role created successfully',
+        data: { role }
+      });
+    } catch (error) {
+      logger.error('Create role error:', error);
+      next(error);
+    }
+  }
+
+  // Get roles: global roles plus the roles of the facilities in scope
+  static async getRoles(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { facilityId, scope, isActive, search } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        throw new AppError('You can only view roles of your managed facilities', 403);
+      }
+
+      // An unrestricted scope without a requested facility yields no condition: match every facility role
+      const facilityRoles = Object.keys(facilityCondition).length > 0 ? facilityCondition : { facilityId: { $ne: null } };
+      const filter: any = { isDeleted: false };
+      if (scope === 'global') {
+        filter.facilityId = null;
+      } else if (scope === 'facility') {
+        Object.assign(filter, facilityRoles);
+      } else {
+        filter.$or = [{ facilityId: null }, facilityRoles];
+      }
+      if (isActive !== undefined) filter.isActive = isActive === 'true';
+      if (search) filter.name = { $regex: search, $options: 'i' };
+
+      const [roles, total] = await Promise.all([
+        Role.find(filter)
+          .sort({ facilityId: 1, name: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('facilityId', 'siteName city')
+          .populate('createdBy', 'firstName lastName')
+          .lean(),
+        Role.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: roles.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { roles }
+      });
+    } catch (error) {
+      logger.error('Get roles error:', error);
+      next(error);
+    }
+  }
+
+  // Get a custom role with the number of users holding it
+  static async getRoleById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await Role.findOne({ _id: req.params.id, isDeleted: false })
+        .populate('facilityId', 'siteName city')
+        .populate('createdBy', 'firstName lastName')
+        .populate('updatedBy', 'firstName lastName');
+
+      // Roles of other facilities are reported as missing
+      if (!role || !RoleController.canView(req, role)) {
+        throw new AppError('Role not found', 404);
+      }
+
+      const assignedUsers = await User.countDocuments({ customRoles: role._id, isDeleted: false });
+
+      res.json({
+        status: 'success',
+        data: { role, assignedUsers }
+      });
+    } catch (error) {
+      logger.error('Get role by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update the name, description, permission template or status of a custom role
+  static async updateRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, description, permissions, customPermissions, isActive } = req.body;
+
+      const role = await Role.findOne({ _id: req.params.id, isDeleted: false });
+      if (!role || !RoleController.canView(req, role)) {
+        throw new AppError('Role not found', 404);
+      }
+      if (!RoleController.canManage(req, role)) {
+        throw new AppError('Only administrators can change global roles', 403);
+      }
+
+      // Only newly granted permissions need to be held by the current user
+      const currentGrants = grantedPermissions(role.toObject().permissions, role.customPermissions);
+      const newGrants = grantedPermissions(permissions, customPermissions).filter(permission => !currentGrants.includes(permission));
+      const notHeld = RoleController.findNotHeld(req, role.facilityId, newGrants);
+      if (notHeld.length > 0) {
+        throw new AppError(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`, 403);
+      }
+
+      if (name !== undefined && name !== role.name) {
+        await RoleController.ensureUniqueName(name, role.facilityId, role._id);
+        role.name = name;
+      }
+      if (description !== undefined) role.description = description;
+      if (permissions) {
+        role.permissions = { ...role.toObject().permissions, ...permissions };
+      }
+      if (customPermissions) role.customPermissions = customPermissions;
+      if (isActive !== undefined) role.isActive = isActive;
+      role.updatedBy = req.user._id;
+      await role.save();
+
+      logger.info(`Role ${role._id} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Role updated successfully',
+        data: { role }
+      });
+    } catch (error) {
+      logger.error('Update role error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a custom role (soft delete) and remove it from every user holding it
+  static async deleteRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await Role.findOne({ _id: req.params.id, isDeleted: false });
+      if (!role || !RoleController.canView(req, role)) {
+        throw new AppError('Role not found', 404);
+      }
+      if (!RoleController.canManage(req, role)) {
+        throw new AppError('Only administrators can delete global roles', 403);
+      }
+
+      role.isDeleted = true;
+      role.updatedBy = req.user._id;
+      await role.save();
+
+      const { modifiedCount } = await User.updateMany(
+        { customRoles: role._id },
+        { $pull: { customRoles: role._id }, updatedBy: req.user._id }
+      );
+
+      logger.info(`Role ${role._id} deleted by ${req.user._id}, unassigned from ${modifiedCount} users`);
+
+      res.json({
+        status: 'success',
+        message: 'Role deleted successfully',
+        data: { role, unassignedUsers: modifiedCount }
+      });
+    } catch (error) {
+      logger.error('Delete role error:', error);
+      next(error);
+    }
+  }
+
+  // Get the users a custom role is assigned to (limited to users of the facilities in scope)
+  static async getRoleUsers(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const role = await Role.findOne({ _id: req.params.id, isDeleted: false });
+      if (!role || !RoleController.canView(req, role)) {
+        throw new AppError('Role not found', 404);
+      }
+
+      const filter = req.facilityScope!.apply({ customRoles: role._id, isDeleted: false }, 'managedFacilities');
+      const [users, total] = await Promise.all([
+        User.find(filter)
+          .select('firstName lastName email role status managedFacilities')
+          .sort({ firstName: 1, lastName: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('managedFacilities', 'siteName city')
+          .lean(),
+        User.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: users.length,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        data: { users }
+      });
+    } catch (error) {
+      logger.error('Get role users error:', error);
+      next(error);
+    }
+  }
+
+  // Assign a custom role to users, in addition to their base role
+  static async assignRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userIds } = req.body as { userIds: string[] };
+
+      const role = await Role.findOne({ _id: req.params.id, isDeleted: false });
+      if (!role || !RoleController.canView(req, role)) {
+        throw new AppError('Role not found', 404);
+      }
+      if (!role.isActive) {
+        throw new AppError('Inactive roles cannot be assigned', 400);
+      }
+
+      const notHeld = RoleController.findNotHeld(req, role.facilityId, grantedPermissions(role.toObject().permissions, role.customPermissions));
+      if (notHeld.length > 0) {
+        throw new AppError(`You cannot assign a role with permissions you do not have: ${notHeld.join(', ')}`, 403);
+      }
+
+      // Facility roles only go to users of that facility; restricted users only manage users of their facilities
+      const userFilter = req.facilityScope!.apply({
+        _id: { $in: userIds },
+        ...ASSIGNABLE_USER_FILTER,
+        ...(role.facilityId ? { managedFacilities: role.facilityId } : {})
+      }, 'managedFacilities');
+      const users = await User.find(userFilter).select('_id');
+      if (users.length !== userIds.length) {
+        const found = new Set(users.map(user => user._id.toString()));
+        const missing = userIds.filter(id => !found.has(id));
+        throw new AppError(`Users not found or not eligible for this role: ${missing.join(', ')}`, 404);
+      }
+
+      const { modifiedCount } = await User.updateMany(
+        { _id: { $in: userIds } },
+        { $addToSet: { customRoles: role._id }, updatedBy: req.user._id }
+      );
+
+      logger.info(`Role ${role._id} assigned to ${modifiedCount} users by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Role assigned successfully',
+        data: { roleId: role._id, userIds, newlyAssigned: modifiedCount }
+      });
+    } catch (error) {
+      logger.error('Assign role error:', error);
+      next(error);
+    }
+  }
+
+  // Remove a custom role from a user
+  static async unassignRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      const role = await Role.findOne({ _id: id, isDeleted: false });
+      if (!role || !RoleController.canView(req, role)) {
+        throw new AppError('Role not found', 404);
+      }
+
+      const user = await User.findOne(
+        req.facilityScope!.apply({ _id: userId, customRoles: role._id, ...ASSIGNABLE_USER_FILTER }, 'managedFacilities')
+      );
+      if (!user) {
+        throw new AppError('User not found or does not have this role', 404);
+      }
+
+      user.customRoles = user.customRoles.filter(roleId => !roleId.equals(role._id));
+      user.updatedBy = req.user._id;
+      await user.save();
+
+      logger.info(`Role ${role._id} removed from user ${user._id} by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Role removed from user successfully',
+        data: { roleId: role._id, userId: user._id }
+      });
+    } catch (error) {
+      logger.error('Unassign role error:', error);
+      next(error);
+    }
+  }
+}
@@ -2,41 +2,27 @@ import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
 import { Roster } from '../models/Roster';
-import { UserRole } from '../models/User';
+import { LabourRuleService } from '../services/labourRule.service';
+import { RosterGeneratorService } from '../services/rosterGenerator.service';
+import { logger } from '../utils/logger';
 import { validateObjectId } from '../utils/validation';
 
+// Longest range generated or published at once
+const MAX_ROSTER_RANGE_DAYS = 31;
+
 export class RosterController {
   // Create Roster
   static async createRoster(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const user = req.user;
       
-      // Get facilityId from user's managed facilities
-      let facilityId: string;
-      
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can create roster for any facility
-        facilityId = req.body.facilityId;
-        if (!facilityId) {
-          return next(new AppError('facilityId is required', 400));
-        }
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only create for their managed facilities
-        if (req.body.facilityId) {
-          const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-          if (!managedFacilityIds.includes(req.body.facilityId)) {
-            return next(new AppError('You can only create rosters for your managed facilities', 403));
-          }
-          facilityId = req.body.facilityId;
-        } else {
-          // Use first managed facility if not specified
-          if (user.managedFacilities.length === 0) {
-            return next(new AppError('No managed facilities found', 400));
-          }
-          facilityId = user.managedFacilities[0]._id.toString();
-        }
-      } else {
-        return next(new AppError('Insufficient permissions', 403));
+      // Resolve the target facility within the user's facility scope
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only create rosters for your managed facilities', 403));
       }
 
       const rosterData = {
@@ -46,8 +32,15 @@ export class RosterController {
         updatedBy: user._id
       };
 
-      const roster = await Roster.create(rosterData);
-      res.status(201).json({ status: 'success', data: { roster } });
+      const roster = new Roster(rosterData);
+      await roster.validate();
+      const labour = await LabourRuleService.checkRosters(facilityId, [roster]);
+      if (labour.blocked) {
+        return next(new AppError(`This roster breaks the labour rules: ${LabourRuleService.describe(labour.introduced)}`, 409));
+      }
+
+      await roster.save();
+      res.status(201).json({ status: 'success', data: { roster, labourViolations: labour.introduced } });
     } catch (err) {
       next(err);
     }
@@ -56,28 +49,18 @@ export class RosterController {
   // Get all Rosters (with optional filters)
   static async getAllRosters(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
-      const { facilityId, date } = req.query;
+      const { facilityId, date, status } = req.query;
       const filter: any = { isDeleted: false };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can see all rosters
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only see rosters for their managed facilities
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view rosters for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view rosters for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       if (date) filter.date = date;
+      if (status) filter.status = status;
       
       const rosters = await Roster.find(filter)
         .populate('facilityId', 'siteName city')
@@ -94,7 +77,6 @@ export class RosterController {
   static async getRosterById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid roster ID', 400));
       
@@ -106,11 +88,8 @@ export class RosterController {
       if (!roster) return next(new AppError('Roster not found', 404));
 
       // Check if user has access to this roster's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(roster.facilityId.toString())) {
-          return next(new AppError('You can only view rosters for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(roster.facilityId)) {
+        return next(new AppError('You can only view rosters for your managed facilities', 403));
       }
 
       res.json({ status: 'success', data: { roster } });
@@ -132,11 +111,11 @@ export class RosterController {
       if (!existingRoster) return next(new AppError('Roster not found', 404));
 
       // Check if user has access to this roster's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingRoster.facilityId.toString())) {
-          return next(new AppError('You can only update rosters for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingRoster.facilityId)) {
+        return next(new AppError('You can only update rosters for your managed facilities', 403));
+      }
+      if (req.body.facilityId && !req.facilityScope!.allows(req.body.facilityId)) {
+        return next(new AppError('You can only move rosters to your managed facilities', 403));
       }
 
       const updateData = {
@@ -144,6 +123,14 @@ export class RosterController {
         updatedBy: user._id
       };
 
+      // Check the roster as it will be saved
+      existingRoster.set(updateData);
+      await existingRoster.validate();
+      const labour = await LabourRuleService.checkRosters(existingRoster.facilityId, [existingRoster]);
+      if (labour.blocked) {
+        return next(new AppError(`This roster breaks the labour rules: ${LabourRuleService.describe(labour.introduced)}`, 409));
+      }
+
       const roster = await Roster.findOneAndUpdate(
         { _id: id, isDeleted: false },
         updateData,
@@ -153,7 +140,7 @@ export class RosterController {
         .populate('shifts.employeeId', 'firstName lastName email')
         .populate('shifts.shiftScheduleId', 'shiftName startTime endTime');
 
-      res.json({ status: 'success', data: { roster } });
+      res.json({ status: 'success', data: { roster, labourViolations: labour.introduced } });
     } catch (err) {
       next(err);
     }
@@ -163,7 +150,6 @@ export class RosterController {
   static async deleteRoster(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid roster ID', 400));
       
@@ -172,11 +158,8 @@ export class RosterController {
       if (!existingRoster) return next(new AppError('Roster not found', 404));
 
       // Check if user has access to this roster's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingRoster.facilityId.toString())) {
-          return next(new AppError('You can only delete rosters for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingRoster.facilityId)) {
+        return next(new AppError('You can only delete rosters for your managed facilities', 403));
       }
 
       const roster = await Roster.findOneAndUpdate(
@@ -190,4 +173,73 @@ export class RosterController {
       next(err);
     }
   }
+
+  // Resolve the facility and date range of a generation or publication request
+  private static resolveRange(req: AuthenticatedRequest): { facilityId: string; from: string; to: string } | AppError {
+    const { from, to } = req.body;
+    const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+    if (!facilityId) {
+      return new AppError('facilityId is required', 400);
+    }
+    if (!req.facilityScope!.allows(facilityId)) {
+      return new AppError('You can only manage rosters for your managed facilities', 403);
+    }
+
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000) + 1;
+    if (isNaN(days) || days < 1) {
+      return new AppError('to must not be before from', 400);
+    }
+    if (days > MAX_ROSTER_RANGE_DAYS) {
+      return new AppError(`A roster range can cover at most ${MAX_ROSTER_RANGE_DAYS} days`, 400);
+    }
+    return { facilityId, from, to };
+  }
+
+  // Generate draft rosters of a facility from its shift schedules, week-offs, leaves and staffing requirements
+  static async generateRosters(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const range = RosterController.resolveRange(req);
+      if (range instanceof AppError) return next(range);
+      const { facilityId, from, to } = range;
+
+      const result = await RosterGeneratorService.generate(facilityId, from, to, req.user);
+      const { violations: labourViolations } = await LabourRuleService.validate(facilityId, from, to, { includeDrafts: true });
+
+      logger.info(`Draft rosters ${from} to ${to} generated for facility ${facilityId} by ${req.user._id}: ${result.days.length} days, ${result.unfilledSlots.length} unfilled slots`);
+
+      res.status(201).json({
+        status: 'success',
+        message: `${result.days.length} draft rosters generated`,
+        data: { facilityId, from, to, ...result, labourViolations }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Publish the reviewed draft rosters of a facility
+  static async publishRosters(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const range = RosterController.resolveRange(req);
+      if (range instanceof AppError) return next(range);
+      const { facilityId, from, to } = range;
+
+      const labour = await LabourRuleService.checkPublication(facilityId, from, to);
+      if (labour.blocked) {
+        return next(new AppError(`These rosters break the labour rules: ${LabourRuleService.describe(labour.introduced)}`, 409));
+      }
+
+      const result = await RosterGeneratorService.publish(facilityId, from, to, req.user);
+
+      logger.info(`Rosters ${from} to ${to} of facility ${facilityId} published by ${req.user._id}: ${result.published} published`);
+
+      res.json({
+        status: 'success',
+        message: `${result.published} rosters published`,
+        data: { facilityId, from, to, ...result, labourViolations: labour.introduced }
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
 }
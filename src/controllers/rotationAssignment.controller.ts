@@ -0,0 +1,203 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { IRotationAssignment, RotationAssignment } from '../models/RotationAssignment';
+import { RotationPattern } from '../models/RotationPattern';
+import { User } from '../models/User';
+import { ShiftRotationService } from '../services/shiftRotation.service';
+import { logger } from '../utils/logger';
+
+// Furthest date an assignment can be materialized to on demand
+const MAX_MATERIALIZE_DAYS = 366;
+
+export class RotationAssignmentController {
+  // Assignments of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IRotationAssignment> {
+    const assignment = await RotationAssignment.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!assignment) {
+      throw new AppError('Rotation assignment not found', 404);
+    }
+    return assignment;
+  }
+
+  // An employee follows at most one rotation on any date
+  private static async checkEmployees(assignment: IRotationAssignment): Promise<void> {
+    const found = await User.countDocuments({ _id: { $in: assignment.employeeIds }, isDeleted: false });
+    if (found !== assignment.employeeIds.length) {
+      throw new AppError('One or more employees were not found', 400);
+    }
+    if (!assignment.isActive) {
+      return;
+    }
+
+    const overlapping = await RotationAssignment.findOne({
+      _id: { $ne: assignment._id },
+      employeeIds: { $in: assignment.employeeIds },
+      isActive: true,
+      isDeleted: false,
+      ...(assignment.endDate ? { startDate: { $lte: assignment.endDate } } : {}),
+      $or: [{ endDate: null }, { endDate: { $gte: assignment.startDate } }]
+    });
+    if (overlapping) {
+      throw new AppError(`One or more employees already follow rotation assignment ${overlapping._id} on these dates`, 409);
+    }
+  }
+
+  // Assign a rotation pattern to an employee or a team; their schedules are materialized up to the horizon
+  static async createRotationAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pattern = await RotationPattern.findOne(req.facilityScope!.apply({ _id: req.body.rotationPatternId, isDeleted: false }));
+      if (!pattern) {
+        throw new AppError('Rotation pattern not found', 404);
+      }
+
+      const assignment = new RotationAssignment({
+        ...req.body,
+        facilityId: pattern.facilityId,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+      await RotationAssignmentController.checkEmployees(assignment);
+      await assignment.save();
+
+      const schedules = await ShiftRotationService.materialize(assignment, req.user._id);
+
+      logger.info(`Rotation assignment ${assignment._id} (pattern ${pattern.name}, ${assignment.employeeIds.length} employees) created by ${req.user._id}: ${schedules.created} schedules`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Rotation assignment created successfully',
+        data: { assignment, schedules }
+      });
+    } catch (error) {
+      logger.error('Create rotation assignment error:', error);
+      next(error);
+    }
+  }
+
+  // Get rotation assignments, optionally of a pattern or an employee
+  static async getRotationAssignments(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { rotationPatternId, employeeId, isActive } = req.query;
+
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view rotation assignments of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition, isDeleted: false };
+      if (rotationPatternId) filter.rotationPatternId = rotationPatternId;
+      if (employeeId) filter.employeeIds = employeeId;
+      if (isActive !== undefined) filter.isActive = isActive === 'true';
+
+      const assignments = await RotationAssignment.find(filter)
+        .populate('rotationPatternId', 'name')
+        .populate('employeeIds', 'firstName lastName profile.employeeId')
+        .sort({ startDate: -1 });
+
+      res.json({
+        status: 'success',
+        results: assignments.length,
+        data: { assignments }
+      });
+    } catch (error) {
+      logger.error('Get rotation assignments error:', error);
+      next(error);
+    }
+  }
+
+  // Get a rotation assignment
+  static async getRotationAssignmentById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const assignment = await RotationAssignmentController.findInScope(req);
+      await assignment.populate([
+        { path: 'rotationPatternId', select: 'name steps' },
+        { path: 'employeeIds', select: 'firstName lastName profile.employeeId' }
+      ]);
+
+      res.json({
+        status: 'success',
+        data: { assignment }
+      });
+    } catch (error) {
+      logger.error('Get rotation assignment by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update a rotation assignment; its future schedules are re-materialized
+  static async updateRotationAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const assignment = await RotationAssignmentController.findInScope(req);
+
+      assignment.set({ ...req.body, updatedBy: req.user._id });
+      if (assignment.endDate && assignment.endDate < assignment.startDate) {
+        throw new AppError('endDate must not be before startDate', 400);
+      }
+      await RotationAssignmentController.checkEmployees(assignment);
+      await assignment.save();
+
+      const schedules = await ShiftRotationService.materialize(assignment, req.user._id);
+
+      logger.info(`Rotation assignment ${assignment._id} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Rotation assignment updated successfully',
+        data: { assignment, schedules }
+      });
+    } catch (error) {
+      logger.error('Update rotation assignment error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a rotation assignment (soft delete) and the schedules it materialized from today on
+  static async deleteRotationAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const assignment = await RotationAssignmentController.findInScope(req);
+
+      assignment.isDeleted = true;
+      assignment.updatedBy = req.user._id;
+      await assignment.save();
+      const schedules = await ShiftRotationService.materialize(assignment, req.user._id);
+
+      logger.info(`Rotation assignment ${assignment._id} deleted by ${req.user._id}; ${schedules.removed} future schedules removed`);
+
+      res.json({
+        status: 'success',
+        message: 'Rotation assignment deleted successfully',
+        data: { schedules }
+      });
+    } catch (error) {
+      logger.error('Delete rotation assignment error:', error);
+      next(error);
+    }
+  }
+
+  // Materialize an assignment's schedules further ahead than the horizon, e.g. to plan a roster
+  static async materializeRotationAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const assignment = await RotationAssignmentController.findInScope(req);
+      if (!assignment.isActive) {
+        throw new AppError('Inactive rotation assignments are not materialized', 400);
+      }
+
+      const until = new Date(`${req.body.until}T00:00:00.000Z`);
+      if (until.getTime() - Date.now() > MAX_MATERIALIZE_DAYS * 24 * 60 * 60 * 1000) {
+        throw new AppError(`Schedules can be materialized at most ${MAX_MATERIALIZE_DAYS} days ahead`, 400);
+      }
+      const horizon = ShiftRotationService.horizon();
+      const schedules = await ShiftRotationService.materialize(assignment, req.user._id, until > horizon ? until : horizon);
+
+      res.json({
+        status: 'success',
+        message: `${schedules.created} schedules created, ${schedules.updated} updated, ${schedules.removed} removed`,
+        data: { assignment, schedules }
+      });
+    } catch (error) {
+      logger.error('Materialize rotation assignment error:', error);
+      next(error);
+    }
+  }
+}
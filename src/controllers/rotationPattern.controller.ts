@@ -0,0 +1,157 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { RotationAssignment } from '../models/RotationAssignment';
+import { IRotationPattern, IRotationStep, RotationPattern } from '../models/RotationPattern';
+import { ShiftTemplate } from '../models/ShiftTemplate';
+import { ShiftRotationService } from '../services/shiftRotation.service';
+import { logger } from '../utils/logger';
+
+export class RotationPatternController {
+  // Patterns of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IRotationPattern> {
+    const pattern = await RotationPattern.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!pattern) {
+      throw new AppError('Rotation pattern not found', 404);
+    }
+    return pattern;
+  }
+
+  // The steps of a pattern can only use templates of its own facility
+  private static async checkSteps(facilityId: any, steps: IRotationStep[]): Promise<void> {
+    const templateIds = [...new Set(steps.filter(step => step.shiftTemplateId).map(step => String(step.shiftTemplateId)))];
+    if (templateIds.length === 0) {
+      throw new AppError('A rotation pattern needs at least one step with a shift', 400);
+    }
+
+    const found = await ShiftTemplate.countDocuments({ _id: { $in: templateIds }, facilityId, isDeleted: false });
+    if (found !== templateIds.length) {
+      throw new AppError('Every shift template of a pattern must belong to its facility', 400);
+    }
+  }
+
+  // Create a rotation pattern
+  static async createRotationPattern(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only manage rotation patterns of your managed facilities', 403);
+      }
+      await RotationPatternController.checkSteps(facilityId, req.body.steps);
+
+      const pattern = await RotationPattern.create({
+        ...req.body,
+        facilityId,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`Rotation pattern ${pattern._id} (${pattern.name}) created for facility ${facilityId} by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Rotation pattern created successfully',
+        data: { pattern, cycleDays: ShiftRotationService.cycleLength(pattern) }
+      });
+    } catch (error) {
+      logger.error('Create rotation pattern error:', error);
+      next(error);
+    }
+  }
+
+  // Get the rotation patterns of a facility, or of every facility in the user's scope
+  static async getRotationPatterns(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view rotation patterns of your managed facilities', 403);
+      }
+
+      const patterns = await RotationPattern.find({ ...facilityCondition, isDeleted: false })
+        .populate('steps.shiftTemplateId', 'name startTime endTime')
+        .sort({ name: 1 });
+
+      res.json({
+        status: 'success',
+        results: patterns.length,
+        data: { patterns }
+      });
+    } catch (error) {
+      logger.error('Get rotation patterns error:', error);
+      next(error);
+    }
+  }
+
+  // Get a rotation pattern
+  static async getRotationPatternById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pattern = await RotationPatternController.findInScope(req);
+      await pattern.populate('steps.shiftTemplateId', 'name startTime endTime breakDuration');
+
+      res.json({
+        status: 'success',
+        data: { pattern }
+      });
+    } catch (error) {
+      logger.error('Get rotation pattern by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update a rotation pattern; the future schedules of employees following it are re-materialized
+  static async updateRotationPattern(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pattern = await RotationPatternController.findInScope(req);
+      if (req.body.steps) {
+        await RotationPatternController.checkSteps(pattern.facilityId, req.body.steps);
+      }
+
+      pattern.set({ ...req.body, updatedBy: req.user._id });
+      await pattern.save();
+
+      const schedules = req.body.steps
+        ? await ShiftRotationService.rematerializePattern(pattern._id, req.user._id)
+        : null;
+
+      logger.info(`Rotation pattern ${pattern._id} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Rotation pattern updated successfully',
+        data: { pattern, cycleDays: ShiftRotationService.cycleLength(pattern), schedules }
+      });
+    } catch (error) {
+      logger.error('Update rotation pattern error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a rotation pattern (soft delete); patterns still assigned cannot be deleted
+  static async deleteRotationPattern(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pattern = await RotationPatternController.findInScope(req);
+
+      const assignments = await RotationAssignment.countDocuments({ rotationPatternId: pattern._id, isActive: true, isDeleted: false });
+      if (assignments > 0) {
+        throw new AppError(`This rotation pattern has ${assignments} active assignment(s)`, 409);
+      }
+
+      pattern.isDeleted = true;
+      pattern.updatedBy = req.user._id;
+      await pattern.save();
+
+      logger.info(`Rotation pattern ${pattern._id} deleted by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Rotation pattern deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete rotation pattern error:', error);
+      next(error);
+    }
+  }
+}
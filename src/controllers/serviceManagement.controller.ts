@@ -1,22 +1,24 @@
-import { NextFunction, Request, Response } from 'express';
+import { NextFunction, Response } from 'express';
 import mongoose from 'mongoose';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
 import { ServiceCategory, ServiceManagement } from '../models/ServiceManagement';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 import { logger } from '../utils/logger';
 import { validateObjectId, validatePagination } from '../utils/validation';
 
 export class ServiceManagementController {
   // Initialize services for a facility
-  static async initializeServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async initializeServices(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { facilityId, facilityName, facilityType, createdBy } = req.body;
+      const { facilityId, facilityName, facilityType } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(createdBy)) {
-        throw new AppError('Invalid user ID', 400);
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError(FACILITY_ACCESS_DENIED_MESSAGE, 403);
       }
 
       // Check if services already exist for this facility
@@ -30,7 +32,7 @@ export class ServiceManagementController {
         new mongoose.Types.ObjectId(facilityId),
         facilityName,
         facilityType,
-        new mongoose.Types.ObjectId(createdBy)
+        req.user._id
       );
 
       res.status(201).json({
@@ -47,7 +49,7 @@ export class ServiceManagementController {
   }
 
   // Get services by facility ID
-  static async getServicesByFacilityId(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getServicesByFacilityId(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
       const { category, includeInactive = 'false' } = req.query;
@@ -79,7 +81,7 @@ export class ServiceManagementController {
             facilityId,
             facility.siteName,
             facility.facilityType,
-            facilityId // Use facility ID as createdBy since we don't have user context
+            req.user._id
           );
 
           // Fetch the newly created services
@@ -132,7 +134,7 @@ export class ServiceManagementController {
   }
 
   // Get all service management records with pagination
-  static async getAllServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getAllServices(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const {
         search,
@@ -144,8 +146,8 @@ export class ServiceManagementController {
 
       const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
 
-      // Build filter object
-      const filter: any = { isDeleted: false };
+      // Build filter object, limited to the facilities the user can access
+      const filter: any = { isDeleted: false, ...req.facilityScope!.condition() };
 
       // Text search
       if (search) {
@@ -204,19 +206,15 @@ export class ServiceManagementController {
   }
 
   // Add a new service to a category
-  static async addServiceToCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async addServiceToCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, name, description, isActive = false, updatedBy } = req.body;
+      const { category, name, description, isActive = false } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(ServiceCategory).includes(category)) {
         throw new AppError('Invalid service category', 400);
       }
@@ -248,7 +246,7 @@ export class ServiceManagementController {
       });
 
       // Update updatedBy field
-      serviceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      serviceManagement.updatedBy = req.user._id;
       await serviceManagement.save();
 
       res.status(201).json({
@@ -265,19 +263,15 @@ export class ServiceManagementController {
   }
 
   // Update service status (activate/deactivate)
-  static async updateServiceStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateServiceStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, serviceName, isActive, updatedBy } = req.body;
+      const { category, serviceName, isActive } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(ServiceCategory).includes(category)) {
         throw new AppError('Invalid service category', 400);
       }
@@ -295,7 +289,7 @@ export class ServiceManagementController {
       await serviceManagement.updateServiceStatus(category, serviceName, isActive);
       
       // Update updatedBy field
-      serviceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      serviceManagement.updatedBy = req.user._id;
       await serviceManagement.save();
 
       res.json({
@@ -312,19 +306,15 @@ export class ServiceManagementController {
   }
 
   // Update service details (name, description)
-  static async updateServiceDetails(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateServiceDetails(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, oldServiceName, newServiceName, description, updatedBy } = req.body;
+      const { category, oldServiceName, newServiceName, description } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(ServiceCategory).includes(category)) {
         throw new AppError('Invalid service category', 400);
       }
@@ -364,7 +354,7 @@ export class ServiceManagementController {
       }
 
       service.updatedAt = new Date();
-      serviceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      serviceManagement.updatedBy = req.user._id;
       
       await serviceManagement.save();
 
@@ -382,19 +372,15 @@ export class ServiceManagementController {
   }
 
   // Remove service from category
-  static async removeServiceFromCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async removeServiceFromCategory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { category, serviceName, updatedBy } = req.body;
+      const { category, serviceName } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Object.values(ServiceCategory).includes(category)) {
         throw new AppError('Invalid service category', 400);
       }
@@ -422,7 +408,7 @@ export class ServiceManagementController {
       // Remove the service
       serviceCategory.services.splice(serviceIndex, 1);
       serviceCategory.updatedAt = new Date();
-      serviceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      serviceManagement.updatedBy = req.user._id;
       
       await serviceManagement.save();
 
@@ -440,19 +426,15 @@ export class ServiceManagementController {
   }
 
   // Bulk update services
-  static async bulkUpdateServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async bulkUpdateServices(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { services, updatedBy } = req.body;
+      const { services } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       if (!Array.isArray(services) || services.length === 0) {
         throw new AppError('Please provide an array of services to update', 400);
       }
@@ -481,7 +463,7 @@ export class ServiceManagementController {
         }
       }
 
-      serviceManagement.updatedBy = new mongoose.Types.ObjectId(updatedBy);
+      serviceManagement.updatedBy = req.user._id;
       await serviceManagement.save();
 
       res.json({
@@ -498,7 +480,7 @@ export class ServiceManagementController {
   }
 
   // Get service statistics
-  static async getServiceStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getServiceStatistics(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
 
@@ -547,24 +529,19 @@ export class ServiceManagementController {
   }
 
   // Delete service management (soft delete)
-  static async deleteServiceManagement(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async deleteServiceManagement(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
-      const { updatedBy } = req.body;
 
       if (!validateObjectId(facilityId)) {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      if (!validateObjectId(updatedBy)) {
-        throw new AppError('Invalid user ID', 400);
-      }
-
       const serviceManagement = await ServiceManagement.findOneAndUpdate(
         { facilityId, isDeleted: false },
         { 
           isDeleted: true, 
-          updatedBy: new mongoose.Types.ObjectId(updatedBy),
+          updatedBy: req.user._id,
           lastUpdated: new Date()
         },
         { new: true }
@@ -588,7 +565,7 @@ export class ServiceManagementController {
   }
 
   // Get global service statistics (across all facilities)
-  static async getGlobalServiceStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getGlobalServiceStatistics(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const [
         totalFacilities,
@@ -652,8 +629,8 @@ export class ServiceManagementController {
     }
   }
 
-  // Debug endpoint to check facility and service status
-  static async debugFacilityServices(req: Request, res: Response, next: NextFunction): Promise<void> {
+  // Diagnostics for a facility's service catalogues, including soft-deleted records (admin only)
+  static async getFacilityServiceDiagnostics(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { facilityId } = req.params;
 
@@ -661,60 +638,55 @@ export class ServiceManagementController {
         throw new AppError('Invalid facility ID', 400);
       }
 
-      // Get facility details
       const { FacilityDetails } = await import('../models/FacilityDetails');
-      const facility = await FacilityDetails.findById(facilityId).lean();
+      const { IoTServiceManagement } = await import('../models/IoTServiceManagement');
 
-      // Get service management details
-      const services = await ServiceManagement.findOne({ 
-        facilityId, 
-        isDeleted: false 
-      }).lean();
+      const [facility, serviceRecords, iotServiceRecords] = await Promise.all([
+        FacilityDetails.findById(facilityId).lean(),
+        ServiceManagement.find({ facilityId }).sort({ lastUpdated: -1 }).lean(),
+        IoTServiceManagement.find({ facilityId }).sort({ lastUpdated: -1 }).lean()
+      ]);
 
-      // Get all service management records for this facility (including deleted)
-      const allServices = await ServiceManagement.find({ facilityId }).lean();
+      const summarizeRecord = (record: any) => ({
+        _id: record._id,
+        facilityType: record.facilityType,
+        isDeleted: record.isDeleted,
+        totalServicesAvailable: record.totalServicesAvailable,
+        totalServicesActive: record.totalServicesActive,
+        categories: record.serviceCategories.map((cat: any) => ({
+          category: cat.category,
+          totalCount: cat.totalCount,
+          activeCount: cat.activeCount,
+          servicesCount: cat.services.length
+        })),
+        createdBy: record.createdBy,
+        updatedBy: record.updatedBy,
+        lastUpdated: record.lastUpdated
+      });
+
+      logger.info(`Service diagnostics for facility ${facilityId} requested by ${req.user.email}`);
 
       res.json({
         status: 'success',
         data: {
-          facilityExists: !!facility,
           facility: facility ? {
             _id: facility._id,
             siteName: facility.siteName,
             facilityType: facility.facilityType,
             createdAt: facility.createdAt
           } : null,
-          servicesExists: !!services,
-          services: services ? {
-            _id: services._id,
-            facilityId: services.facilityId,
-            facilityType: services.facilityType,
-            totalServicesAvailable: services.totalServicesAvailable,
-            totalServicesActive: services.totalServicesActive,
-            isDeleted: services.isDeleted,
-            categoriesCount: services.serviceCategories.length,
-            categories: services.serviceCategories.map(cat => ({
-              category: cat.category,
-              totalCount: cat.totalCount,
-              activeCount: cat.activeCount,
-              servicesCount: cat.services.length
-            }))
-          } : null,
-          allServiceRecords: allServices.map(srv => ({
-            _id: srv._id,
-            isDeleted: srv.isDeleted,
-            lastUpdated: srv.lastUpdated,
-            facilityType: srv.facilityType
-          })),
-          debug: {
-            facilityIdType: typeof facilityId,
-            facilityIdLength: facilityId.length,
-            searchQuery: { facilityId, isDeleted: false }
+          services: {
+            active: serviceRecords.some(record => !record.isDeleted),
+            records: serviceRecords.map(summarizeRecord)
+          },
+          iotServices: {
+            active: iotServiceRecords.some(record => !record.isDeleted),
+            records: iotServiceRecords.map(summarizeRecord)
           }
         }
       });
     } catch (error) {
-      logger.error('Debug facility services error:', error);
+      logger.error('Facility service diagnostics error:', error);
       next(error);
     }
   }
@@ -192,7 +192,7 @@ export class ServiceProviderController {
   }
 
   // Get service provider by ID
-  static async getServiceProviderById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getServiceProviderById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -200,10 +200,10 @@ export class ServiceProviderController {
         throw new AppError('Invalid service provider ID', 400);
       }
 
-      const serviceProvider = await ServiceProvider.findOne({
+      const serviceProvider = await ServiceProvider.findOne(req.facilityScope!.apply({
         _id: new mongoose.Types.ObjectId(id),
         isDeleted: false
-      })
+      }))
         .populate('createdBy', 'firstName lastName email')
         .populate('updatedBy', 'firstName lastName email')
         .populate('facilityId', 'siteName city facilityType');
@@ -225,7 +225,7 @@ export class ServiceProviderController {
   }
 
   // Update service provider
-  static async updateServiceProvider(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async updateServiceProvider(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const {
@@ -253,10 +253,10 @@ export class ServiceProviderController {
         throw new AppError('Invalid user ID', 400);
       }
 
-      const serviceProvider = await ServiceProvider.findOne({
+      const serviceProvider = await ServiceProvider.findOne(req.facilityScope!.apply({
         _id: new mongoose.Types.ObjectId(id),
         isDeleted: false
-      });
+      }));
 
       if (!serviceProvider) {
         throw new AppError('Service provider not found', 404);
@@ -339,7 +339,7 @@ export class ServiceProviderController {
   }
 
   // Delete service provider (soft delete)
-  static async deleteServiceProvider(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async deleteServiceProvider(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const { updatedBy } = req.body;
@@ -353,10 +353,10 @@ export class ServiceProviderController {
       }
 
       const serviceProvider = await ServiceProvider.findOneAndUpdate(
-        {
+        req.facilityScope!.apply({
           _id: new mongoose.Types.ObjectId(id),
           isDeleted: false
-        },
+        }),
         {
           isDeleted: true,
           updatedBy: new mongoose.Types.ObjectId(updatedBy)
@@ -2,7 +2,7 @@ import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
 import { ShiftSchedule } from '../models/ShiftSchedule';
-import { UserRole } from '../models/User';
+import { LabourRuleService } from '../services/labourRule.service';
 import { validateObjectId } from '../utils/validation';
 
 export class ShiftScheduleController {
@@ -11,32 +11,13 @@ export class ShiftScheduleController {
     try {
       const user = req.user;
       
-      // Get facilityId from user's managed facilities
-      let facilityId: string;
-      
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can create shift for any facility
-        facilityId = req.body.facilityId;
-        if (!facilityId) {
-          return next(new AppError('facilityId is required', 400));
-        }
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only create for their managed facilities
-        if (req.body.facilityId) {
-          const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-          if (!managedFacilityIds.includes(req.body.facilityId)) {
-            return next(new AppError('You can only create shift schedules for your managed facilities', 403));
-          }
-          facilityId = req.body.facilityId;
-        } else {
-          // Use first managed facility if not specified
-          if (user.managedFacilities.length === 0) {
-            return next(new AppError('No managed facilities found', 400));
-          }
-          facilityId = user.managedFacilities[0]._id.toString();
-        }
-      } else {
-        return next(new AppError('Insufficient permissions', 403));
+      // Resolve the target facility within the user's facility scope
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only create shift schedules for your managed facilities', 403));
       }
 
       const shiftData = {
@@ -46,8 +27,15 @@ export class ShiftScheduleController {
         updatedBy: user._id
       };
 
-      const shift = await ShiftSchedule.create(shiftData);
-      res.status(201).json({ status: 'success', data: { shift } });
+      const shift = new ShiftSchedule(shiftData);
+      await shift.validate();
+      const labour = await LabourRuleService.checkSchedule(shift);
+      if (labour?.blocked) {
+        return next(new AppError(`This shift breaks the labour rules: ${LabourRuleService.describe(labour.introduced)}`, 409));
+      }
+
+      await shift.save();
+      res.status(201).json({ status: 'success', data: { shift, labourViolations: labour?.introduced ?? [] } });
     } catch (err) {
       next(err);
     }
@@ -56,26 +44,15 @@ export class ShiftScheduleController {
   // Get all Shift Schedules (with optional filters)
   static async getAllShifts(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
       const { facilityId, employeeId, rosterDate } = req.query;
       const filter: any = { isDeleted: false };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can see all shift schedules
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only see shift schedules for their managed facilities
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view shift schedules for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view shift schedules for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       if (employeeId) filter.employeeId = employeeId;
       if (rosterDate) filter.rosterDate = rosterDate;
@@ -96,7 +73,6 @@ export class ShiftScheduleController {
   static async getShiftById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid shift ID', 400));
       
@@ -109,11 +85,8 @@ export class ShiftScheduleController {
       if (!shift) return next(new AppError('Shift not found', 404));
 
       // Check if user has access to this shift's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(shift.facilityId.toString())) {
-          return next(new AppError('You can only view shift schedules for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(shift.facilityId)) {
+        return next(new AppError('You can only view shift schedules for your managed facilities', 403));
       }
 
       res.json({ status: 'success', data: { shift } });
@@ -135,11 +108,11 @@ export class ShiftScheduleController {
       if (!existingShift) return next(new AppError('Shift not found', 404));
 
       // Check if user has access to this shift's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingShift.facilityId.toString())) {
-          return next(new AppError('You can only update shift schedules for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingShift.facilityId)) {
+        return next(new AppError('You can only update shift schedules for your managed facilities', 403));
+      }
+      if (req.body.facilityId && !req.facilityScope!.allows(req.body.facilityId)) {
+        return next(new AppError('You can only move shift schedules to your managed facilities', 403));
       }
 
       const updateData = {
@@ -147,6 +120,14 @@ export class ShiftScheduleController {
         updatedBy: user._id
       };
 
+      // Check the schedule as it will be saved
+      existingShift.set(updateData);
+      await existingShift.validate();
+      const labour = await LabourRuleService.checkSchedule(existingShift);
+      if (labour?.blocked) {
+        return next(new AppError(`This shift breaks the labour rules: ${LabourRuleService.describe(labour.introduced)}`, 409));
+      }
+
       const shift = await ShiftSchedule.findOneAndUpdate(
         { _id: id, isDeleted: false },
         updateData,
@@ -157,7 +138,7 @@ export class ShiftScheduleController {
         .populate('createdBy', 'firstName lastName')
         .populate('updatedBy', 'firstName lastName');
 
-      res.json({ status: 'success', data: { shift } });
+      res.json({ status: 'success', data: { shift, labourViolations: labour?.introduced ?? [] } });
     } catch (err) {
       next(err);
     }
@@ -167,7 +148,6 @@ export class ShiftScheduleController {
   static async deleteShift(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid shift ID', 400));
       
@@ -176,11 +156,8 @@ export class ShiftScheduleController {
       if (!existingShift) return next(new AppError('Shift not found', 404));
 
       // Check if user has access to this shift's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingShift.facilityId.toString())) {
-          return next(new AppError('You can only delete shift schedules for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingShift.facilityId)) {
+        return next(new AppError('You can only delete shift schedules for your managed facilities', 403));
       }
 
       const shift = await ShiftSchedule.findOneAndUpdate(
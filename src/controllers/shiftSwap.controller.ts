@@ -0,0 +1,374 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ApprovalRequestType } from '../models/ApprovalWorkflow';
+import { IRoster, Roster, RosterStatus } from '../models/Roster';
+import { ShiftSchedule } from '../models/ShiftSchedule';
+import { IShiftSwapRequest, ShiftSwapRequest, ShiftSwapType } from '../models/ShiftSwapRequest';
+import { User } from '../models/User';
+import { ApprovalService } from '../services/approval.service';
+import { AttendanceService } from '../services/attendance.service';
+import { ShiftSwapService } from '../services/shiftSwap.service';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+const POPULATE_SHIFT_SWAP = [
+  { path: 'facilityId', select: 'siteName city' },
+  { path: 'employeeId', select: 'firstName lastName email' },
+  { path: 'counterpartId', select: 'firstName lastName email' },
+  { path: 'shift.shiftScheduleId', select: 'shiftName startTime endTime' },
+  { path: 'counterpartShift.shiftScheduleId', select: 'shiftName startTime endTime' },
+  { path: 'approvedBy', select: 'firstName lastName' },
+  { path: 'approvalHistory.by', select: 'firstName lastName' }
+];
+
+// Swaps still open on a roster entry
+const OPEN_STATUSES = ['proposed', 'pending'];
+
+const isSameUser = (id: unknown, user: AuthenticatedRequest['user']): boolean => String(id) === user._id.toString();
+
+export class ShiftSwapController {
+  // Swaps of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IShiftSwapRequest> {
+    const swap = await ShiftSwapRequest.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!swap) {
+      throw new AppError('Shift swap not found', 404);
+    }
+    return swap;
+  }
+
+  // Swap the user proposed or was asked to take part in
+  private static async findAsParticipant(req: AuthenticatedRequest): Promise<IShiftSwapRequest> {
+    const swap = await ShiftSwapRequest.findOne({
+      _id: req.params.id,
+      isDeleted: false,
+      $or: [{ employeeId: req.user._id }, { counterpartId: req.user._id }]
+    });
+    if (!swap) {
+      throw new AppError('Shift swap not found', 404);
+    }
+    return swap;
+  }
+
+  // Roster entry of an employee on a published roster
+  private static async findRosterEntry(rosterEntryId: string, employeeId: string, facilityId?: unknown): Promise<IRoster | null> {
+    const roster = await Roster.findOne({
+      ...(facilityId ? { facilityId } : {}),
+      isDeleted: false,
+      shifts: { $elemMatch: { _id: rosterEntryId, employeeId } }
+    });
+    if (roster?.status === RosterStatus.DRAFT) {
+      throw new AppError('Shifts of draft rosters cannot be swapped', 400);
+    }
+    return roster;
+  }
+
+  private static async respondWithSwap(res: Response, swap: IShiftSwapRequest, message: string, statusCode = 200) {
+    await swap.populate(POPULATE_SHIFT_SWAP);
+    res.status(statusCode).json({ status: 'success', message, data: { swap } });
+  }
+
+  // Propose to give one of your shifts to a colleague (cover) or to exchange it for one of theirs (swap)
+  static async proposeShiftSwap(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { type, rosterEntryId, counterpartId, counterpartRosterEntryId, reason } = req.body;
+      if (isSameUser(counterpartId, req.user)) {
+        throw new AppError('You cannot swap a shift with yourself', 400);
+      }
+
+      const roster = await ShiftSwapController.findRosterEntry(rosterEntryId, req.user._id.toString());
+      if (!roster) {
+        throw new AppError('Roster entry not found', 404);
+      }
+      if (!req.facilityScope!.allows(roster.facilityId)) {
+        throw new AppError('You can only swap shifts at your own facilities', 403);
+      }
+
+      const counterpart = await User.findOne({ _id: counterpartId, isDeleted: false });
+      if (!counterpart) {
+        throw new AppError('Counterpart not found', 404);
+      }
+
+      let counterpartRoster: IRoster | null = null;
+      if (type === ShiftSwapType.SWAP) {
+        counterpartRoster = await ShiftSwapController.findRosterEntry(counterpartRosterEntryId, counterpartId, roster.facilityId);
+        if (!counterpartRoster) {
+          throw new AppError('The counterpart\'s roster entry was not found at this facility', 404);
+        }
+      } else if (!await ShiftSchedule.exists({ facilityId: roster.facilityId, employeeId: counterpartId, isDeleted: false })) {
+        throw new AppError('The counterpart has no shifts at this facility', 400);
+      }
+
+      const entryIds = [rosterEntryId, counterpartRosterEntryId].filter(Boolean);
+      const open = await ShiftSwapRequest.findOne({
+        status: { $in: OPEN_STATUSES },
+        isDeleted: false,
+        $or: [{ 'shift.rosterEntryId': { $in: entryIds } }, { 'counterpartShift.rosterEntryId': { $in: entryIds } }]
+      });
+      if (open) {
+        throw new AppError(`This shift already takes part in shift swap ${open._id}`, 409);
+      }
+
+      const { timezone } = await AttendanceService.getSettings(roster.facilityId);
+      const shift = await ShiftSwapService.describeShift(roster, rosterEntryId, timezone);
+      const counterpartShift = counterpartRoster
+        ? await ShiftSwapService.describeShift(counterpartRoster, counterpartRosterEntryId, timezone)
+        : null;
+      if (!shift || (counterpartRoster && !counterpartShift)) {
+        throw new AppError('The shift schedule of this roster entry no longer exists', 409);
+      }
+
+      const swap = new ShiftSwapRequest({
+        facilityId: roster.facilityId,
+        type,
+        employeeId: req.user._id,
+        shift,
+        counterpartId,
+        counterpartShift,
+        reason,
+        status: 'proposed',
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+      const blockers = await ShiftSwapService.getBlockers(swap);
+      if (blockers.length > 0) {
+        throw new AppError(`This ${type} is not allowed: ${blockers.join('; ')}`, 409);
+      }
+      await swap.save();
+
+      logger.info(`Shift ${type} ${swap._id} proposed by ${req.user._id} to ${counterpartId}`);
+
+      await ShiftSwapController.respondWithSwap(res, swap, `Shift ${type} proposed; awaiting ${counterpart.firstName}'s answer`, 201);
+    } catch (error) {
+      logger.error('Propose shift swap error:', error);
+      next(error);
+    }
+  }
+
+  // Get the swaps the user proposed or was asked to take part in
+  static async getMyShiftSwaps(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filter: any = { isDeleted: false, $or: [{ employeeId: req.user._id }, { counterpartId: req.user._id }] };
+      if (req.query.status) filter.status = req.query.status;
+
+      const swaps = await ShiftSwapRequest.find(filter)
+        .populate(POPULATE_SHIFT_SWAP)
+        .sort({ 'shift.date': -1, createdAt: -1 });
+
+      res.json({
+        status: 'success',
+        results: swaps.length,
+        data: { swaps }
+      });
+    } catch (error) {
+      logger.error('Get my shift swaps error:', error);
+      next(error);
+    }
+  }
+
+  // Accept a swap proposed to you; it then goes through the facility's approval chain
+  static async acceptShiftSwap(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const swap = await ShiftSwapController.findAsParticipant(req);
+      if (!isSameUser(swap.counterpartId, req.user)) {
+        throw new AppError('Only the counterpart can accept a shift swap', 403);
+      }
+      if (swap.status !== 'proposed') {
+        throw new AppError(`Only proposed shift swaps can be accepted; this one is ${swap.status}`, 400);
+      }
+      const blockers = await ShiftSwapService.getBlockers(swap);
+      if (blockers.length > 0) {
+        throw new AppError(`This ${swap.type} is no longer allowed: ${blockers.join('; ')}`, 409);
+      }
+
+      swap.counterpartRespondedAt = new Date();
+      swap.updatedBy = req.user._id;
+      await ApprovalService.submit(swap, ApprovalRequestType.SHIFT_SWAP, req.user);
+      await swap.save();
+
+      logger.info(`Shift swap ${swap._id} accepted by ${req.user._id}`);
+
+      await ShiftSwapController.respondWithSwap(res, swap, 'Shift swap accepted; awaiting approval');
+    } catch (error) {
+      logger.error('Accept shift swap error:', error);
+      next(error);
+    }
+  }
+
+  // Decline a swap proposed to you
+  static async declineShiftSwap(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const swap = await ShiftSwapController.findAsParticipant(req);
+      if (!isSameUser(swap.counterpartId, req.user)) {
+        throw new AppError('Only the counterpart can decline a shift swap', 403);
+      }
+      if (swap.status !== 'proposed') {
+        throw new AppError(`Only proposed shift swaps can be declined; this one is ${swap.status}`, 400);
+      }
+
+      swap.status = 'declined';
+      swap.declineReason = req.body.reason;
+      swap.counterpartRespondedAt = new Date();
+      swap.updatedBy = req.user._id;
+      await swap.save();
+
+      logger.info(`Shift swap ${swap._id} declined by ${req.user._id}`);
+
+      await ShiftSwapController.respondWithSwap(res, swap, 'Shift swap declined');
+    } catch (error) {
+      logger.error('Decline shift swap error:', error);
+      next(error);
+    }
+  }
+
+  // Withdraw a swap you proposed, before it is approved
+  static async withdrawShiftSwap(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const swap = await ShiftSwapController.findAsParticipant(req);
+      if (!ApprovalService.isApplicant(swap, req.user)) {
+        throw new AppError('Only the employee who proposed a shift swap can withdraw it', 403);
+      }
+      if (!OPEN_STATUSES.includes(swap.status)) {
+        throw new AppError(`Only proposed or pending shift swaps can be withdrawn; this one is ${swap.status}`, 400);
+      }
+
+      ApprovalService.withdraw(swap, req.user, req.body.remarks);
+      await swap.save();
+
+      logger.info(`Shift swap ${swap._id} withdrawn by ${req.user._id}`);
+
+      await ShiftSwapController.respondWithSwap(res, swap, 'Shift swap withdrawn');
+    } catch (error) {
+      logger.error('Withdraw shift swap error:', error);
+      next(error);
+    }
+  }
+
+  // Get the shift swaps of the facilities in the user's scope
+  static async getShiftSwaps(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { employeeId, status, type, from, to } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view shift swaps of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition, isDeleted: false };
+      if (employeeId) filter.$or = [{ employeeId }, { counterpartId: employeeId }];
+      if (status) filter.status = status;
+      if (type) filter.type = type;
+      if (from || to) {
+        filter['shift.date'] = {};
+        if (from) filter['shift.date'].$gte = new Date(`${from}T00:00:00.000Z`);
+        if (to) filter['shift.date'].$lte = new Date(`${to}T00:00:00.000Z`);
+      }
+
+      const [swaps, total] = await Promise.all([
+        ShiftSwapRequest.find(filter)
+          .populate(POPULATE_SHIFT_SWAP)
+          .sort({ 'shift.date': -1, createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        ShiftSwapRequest.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: swaps.length,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        data: { swaps }
+      });
+    } catch (error) {
+      logger.error('Get shift swaps error:', error);
+      next(error);
+    }
+  }
+
+  // Get a shift swap, with what would currently prevent it
+  static async getShiftSwapById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const swap = await ShiftSwapController.findInScope(req);
+      const blockers = OPEN_STATUSES.includes(swap.status) ? await ShiftSwapService.getBlockers(swap) : [];
+      await swap.populate(POPULATE_SHIFT_SWAP);
+
+      res.json({
+        status: 'success',
+        data: { swap, blockers }
+      });
+    } catch (error) {
+      logger.error('Get shift swap by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Approve the current level of a pending swap; the final approval updates the rosters and schedules
+  static async approveShiftSwap(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const swap = await ShiftSwapController.findInScope(req);
+      if (swap.status !== 'pending') {
+        throw new AppError(`Only pending shift swaps can be approved; this one is ${swap.status}`, 400);
+      }
+      if (isSameUser(swap.counterpartId, req.user)) {
+        throw new AppError('You cannot approve or reject a shift swap you take part in', 403);
+      }
+      const blocker = ApprovalService.getDecisionBlocker(swap, req.user);
+      if (blocker) {
+        throw new AppError(blocker, 403);
+      }
+      const blockers = await ShiftSwapService.getBlockers(swap);
+      if (blockers.length > 0) {
+        throw new AppError(`This ${swap.type} is no longer allowed: ${blockers.join('; ')}`, 409);
+      }
+
+      const final = ApprovalService.approve(swap, req.user, req.body.remarks);
+      if (!final) {
+        await swap.save();
+      } else if (!await ShiftSwapService.apply(swap, req.user)) {
+        throw new AppError('The roster changed while the shift swap was being approved; please try again', 409);
+      }
+
+      logger.info(`Shift swap ${swap._id} approved at level ${swap.approvalLevel} by ${req.user._id}${final ? '; rosters updated' : ''}`);
+
+      const nextRole = ApprovalService.pendingRole(swap);
+      await ShiftSwapController.respondWithSwap(
+        res,
+        swap,
+        final
+          ? 'Shift swap approved and applied to the roster'
+          : `Shift swap approved at level ${swap.approvalLevel}; awaiting approval by a ${nextRole?.replace('_', ' ')}`
+      );
+    } catch (error) {
+      logger.error('Approve shift swap error:', error);
+      next(error);
+    }
+  }
+
+  // Reject a pending swap (remarks are mandatory)
+  static async rejectShiftSwap(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const swap = await ShiftSwapController.findInScope(req);
+      if (swap.status !== 'pending') {
+        throw new AppError(`Only pending shift swaps can be rejected; this one is ${swap.status}`, 400);
+      }
+      if (isSameUser(swap.counterpartId, req.user)) {
+        throw new AppError('You cannot approve or reject a shift swap you take part in', 403);
+      }
+      const blocker = ApprovalService.getDecisionBlocker(swap, req.user);
+      if (blocker) {
+        throw new AppError(blocker, 403);
+      }
+
+      ApprovalService.reject(swap, req.user, req.body.remarks);
+      await swap.save();
+
+      logger.info(`Shift swap ${swap._id} rejected by ${req.user._id}`);
+
+      await ShiftSwapController.respondWithSwap(res, swap, 'Shift swap rejected');
+    } catch (error) {
+      logger.error('Reject shift swap error:', error);
+      next(error);
+    }
+  }
+}
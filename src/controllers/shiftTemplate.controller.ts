@@ -0,0 +1,148 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { RotationPattern } from '../models/RotationPattern';
+import { IShiftTemplate, ShiftTemplate } from '../models/ShiftTemplate';
+import { ShiftRotationService } from '../services/shiftRotation.service';
+import { logger } from '../utils/logger';
+
+export class ShiftTemplateController {
+  // Templates of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IShiftTemplate> {
+    const template = await ShiftTemplate.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!template) {
+      throw new AppError('Shift template not found', 404);
+    }
+    return template;
+  }
+
+  private static async ensureUnique(facilityId: any, name: string, excludeId?: any): Promise<void> {
+    const filter: any = { facilityId, name, isDeleted: false };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await ShiftTemplate.findOne(filter).collation({ locale: 'en', strength: 2 });
+    if (existing) {
+      throw new AppError(`Shift template "${name}" already exists`, 409);
+    }
+  }
+
+  // Create a shift template of a facility
+  static async createShiftTemplate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only manage shift templates of your managed facilities', 403);
+      }
+      await ShiftTemplateController.ensureUnique(facilityId, req.body.name);
+
+      const template = await ShiftTemplate.create({
+        ...req.body,
+        facilityId,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`Shift template ${template._id} (${template.name}) created for facility ${facilityId} by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Shift template created successfully',
+        data: { template }
+      });
+    } catch (error) {
+      logger.error('Create shift template error:', error);
+      next(error);
+    }
+  }
+
+  // Get the shift templates of a facility, or of every facility in the user's scope
+  static async getShiftTemplates(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view shift templates of your managed facilities', 403);
+      }
+
+      const templates = await ShiftTemplate.find({ ...facilityCondition, isDeleted: false })
+        .sort({ startTime: 1, name: 1 });
+
+      res.json({
+        status: 'success',
+        results: templates.length,
+        data: { templates }
+      });
+    } catch (error) {
+      logger.error('Get shift templates error:', error);
+      next(error);
+    }
+  }
+
+  // Get a shift template
+  static async getShiftTemplateById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ShiftTemplateController.findInScope(req);
+
+      res.json({
+        status: 'success',
+        data: { template }
+      });
+    } catch (error) {
+      logger.error('Get shift template by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Update a shift template; schedules of today and later dates materialized from it follow the change
+  static async updateShiftTemplate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ShiftTemplateController.findInScope(req);
+      if (req.body.name) {
+        await ShiftTemplateController.ensureUnique(template.facilityId, req.body.name, template._id);
+      }
+
+      template.set({ ...req.body, updatedBy: req.user._id });
+      await template.save();
+      const updatedSchedules = await ShiftRotationService.propagateTemplate(template, req.user._id);
+
+      logger.info(`Shift template ${template._id} updated by ${req.user._id}; ${updatedSchedules} future schedules updated`);
+
+      res.json({
+        status: 'success',
+        message: 'Shift template updated successfully',
+        data: { template, updatedSchedules }
+      });
+    } catch (error) {
+      logger.error('Update shift template error:', error);
+      next(error);
+    }
+  }
+
+  // Delete a shift template (soft delete); templates used by a rotation pattern cannot be deleted
+  static async deleteShiftTemplate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const template = await ShiftTemplateController.findInScope(req);
+
+      const patterns = await RotationPattern.countDocuments({ 'steps.shiftTemplateId': template._id, isDeleted: false });
+      if (patterns > 0) {
+        throw new AppError(`This shift template is used by ${patterns} rotation pattern(s)`, 409);
+      }
+
+      template.isDeleted = true;
+      template.updatedBy = req.user._id;
+      await template.save();
+
+      logger.info(`Shift template ${template._id} deleted by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Shift template deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete shift template error:', error);
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { IStaffingRequirement, StaffingRequirement } from '../models/StaffingRequirement';
+import { logger } from '../utils/logger';
+
+export class StaffingRequirementController {
+  // Requirements of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IStaffingRequirement> {
+    const requirement = await StaffingRequirement.findOne(req.facilityScope!.apply({ _id: req.params.id }));
+    if (!requirement) {
+      throw new AppError('Staffing requirement not found', 404);
+    }
+    return requirement;
+  }
+
+  private static async ensureUnique(facilityId: any, shiftName: string, department?: string | null, excludeId?: any): Promise<void> {
+    const filter: any = { facilityId, shiftName, department: department || null };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await StaffingRequirement.findOne(filter).collation({ locale: 'en', strength: 2 });
+    if (existing) {
+      throw new AppError(`A staffing requirement for shift "${shiftName}"${department ? ` and department "${department}"` : ''} already exists`, 409);
+    }
+  }
+
+  // Set the minimum headcount of a shift, optionally for one department
+  static async createStaffingRequirement(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only manage staffing requirements of your managed facilities', 403);
+      }
+      await StaffingRequirementController.ensureUnique(facilityId, req.body.shiftName, req.body.department);
+
+      const requirement = await StaffingRequirement.create({
+        ...req.body,
+        facilityId,
+        department: req.body.department || null,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+
+      logger.info(`Staffing requirement ${requirement._id} (${requirement.shiftName}: ${requirement.minHeadcount}) created for facility ${facilityId} by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Staffing requirement created successfully',
+        data: { requirement }
+      });
+    } catch (error) {
+      logger.error('Create staffing requirement error:', error);
+      next(error);
+    }
+  }
+
+  // Get the staffing requirements of a facility
+  static async getStaffingRequirements(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = (req.query.facilityId as string | undefined) || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only view staffing requirements of your managed facilities', 403);
+      }
+
+      const filter: any = { facilityId };
+      if (req.query.shiftName) filter.shiftName = req.query.shiftName;
+
+      const requirements = await StaffingRequirement.find(filter)
+        .sort({ shiftName: 1, department: 1 })
+        .populate('updatedBy', 'firstName lastName');
+
+      res.json({
+        status: 'success',
+        results: requirements.length,
+        data: { facilityId, requirements }
+      });
+    } catch (error) {
+      logger.error('Get staffing requirements error:', error);
+      next(error);
+    }
+  }
+
+  // Update a staffing requirement; rosters already generated are not changed
+  static async updateStaffingRequirement(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const requirement = await StaffingRequirementController.findInScope(req);
+
+      requirement.set(req.body);
+      if (req.body.shiftName || req.body.department !== undefined) {
+        requirement.department = requirement.department || null;
+        await StaffingRequirementController.ensureUnique(requirement.facilityId, requirement.shiftName, requirement.department, requirement._id);
+      }
+
+      requirement.updatedBy = req.user._id;
+      await requirement.save();
+
+      logger.info(`Staffing requirement ${requirement._id} updated by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Staffing requirement updated successfully',
+        data: { requirement }
+      });
+    } catch (error) {
+      logger.error('Update staffing requirement error:', error);
+      next(error);
+    }
+  }
+
+  // Remove a staffing requirement
+  static async deleteStaffingRequirement(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const requirement = await StaffingRequirementController.findInScope(req);
+      await requirement.deleteOne();
+
+      logger.info(`Staffing requirement ${requirement._id} deleted by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Staffing requirement deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete staffing requirement error:', error);
+      next(error);
+    }
+  }
+}
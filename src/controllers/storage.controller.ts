@@ -0,0 +1,30 @@
+import { NextFunction, Request, Response } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { StorageService } from '../services/storage.service';
+import { logger } from '../utils/logger';
+
+export class StorageController {
+  // Serve a stored file to anyone holding a signed URL of it that has not expired
+  static async getFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const key = StorageService.readUrlToken(req.params.token);
+      if (!key) {
+        throw new AppError('This link is invalid or has expired', 403);
+      }
+
+      const file = await StorageService.get(key);
+      if (!file) {
+        throw new AppError('File not found', 404);
+      }
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      // Signed URLs are meant to be embedded by the frontend, which is served from another origin
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      res.send(file.data);
+    } catch (error) {
+      logger.error('Get stored file error:', error);
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,333 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { FloorLocation } from '../models/FloorLocation';
+import { HygieneChecklist } from '../models/HygieneChecklist';
+import { HygieneSection } from '../models/HygieneSection';
+import { ITaskAssignment, OPEN_TASK_STATUSES, TaskAssignment, TaskStatus } from '../models/TaskAssignment';
+import { TaskCompletion } from '../models/TaskCompletion';
+import { User, UserStatus } from '../models/User';
+import { TaskAssignmentService } from '../services/taskAssignment.service';
+import { FacilityScope } from '../utils/facilityScope';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+const POPULATE_TASK = [
+  { path: 'facilityId', select: 'siteName city' },
+  { path: 'sectionId', select: 'sectionName' },
+  { path: 'checklistId', select: 'checklistType fileName' },
+  { path: 'employeeId', select: 'firstName lastName email' },
+  { path: 'floorLocationId', select: 'floorName floorNumber' },
+  { path: 'assignedBy', select: 'firstName lastName' }
+];
+
+const isOpen = (task: ITaskAssignment): boolean => OPEN_TASK_STATUSES.includes(task.status as TaskStatus);
+
+export class TaskAssignmentController {
+  // Tasks of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<ITaskAssignment> {
+    const task = await TaskAssignment.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+    return task;
+  }
+
+  // Task assigned to the signed-in employee
+  private static async findOwn(req: AuthenticatedRequest): Promise<ITaskAssignment> {
+    const task = await TaskAssignment.findOne({ _id: req.params.id, employeeId: req.user._id, isDeleted: false });
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+    return task;
+  }
+
+  // Active employee working at the facility
+  private static async findAssignee(employeeId: string, facilityId: unknown) {
+    const employee = await User.findOne({ _id: employeeId, isDeleted: false }).select('firstName lastName role status managedFacilities');
+    if (!employee) {
+      throw new AppError('Employee not found', 404);
+    }
+    if (employee.status !== UserStatus.ACTIVE) {
+      throw new AppError('Tasks can only be assigned to active employees', 400);
+    }
+    if (!FacilityScope.forUser(employee).allows(facilityId)) {
+      throw new AppError('The employee does not work at this facility', 400);
+    }
+    return employee;
+  }
+
+  // Status of an open task once its due date is set or changed
+  private static openStatus(task: ITaskAssignment, now = new Date()): TaskStatus {
+    if (task.dueDate && task.dueDate < now) {
+      return TaskStatus.OVERDUE;
+    }
+    return task.startedAt ? TaskStatus.IN_PROGRESS : TaskStatus.ASSIGNED;
+  }
+
+  // Assign a checklist task at a floor location to an employee
+  static async createTaskAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sectionId, checklistId, employeeId, floorLocationId, taskType, priority, dueDate, notes } = req.body;
+      const facilityId = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        throw new AppError('facilityId is required', 400);
+      }
+      if (!req.facilityScope!.allows(facilityId)) {
+        throw new AppError('You can only assign tasks at your managed facilities', 403);
+      }
+
+      const [floorLocation, section, checklist] = await Promise.all([
+        FloorLocation.findOne({ _id: floorLocationId, facilityId, isDeleted: false }),
+        HygieneSection.findOne({ _id: sectionId, facilityId, isDeleted: false }),
+        HygieneChecklist.findOne({ _id: checklistId, facilityId, isDeleted: false })
+      ]);
+      if (!floorLocation || !floorLocation.isActive) {
+        throw new AppError('Floor location not found at this facility or inactive', 400);
+      }
+      if (!section || !section.isActive) {
+        throw new AppError('Hygiene section not found at this facility or inactive', 400);
+      }
+      if (!checklist || !checklist.isActive) {
+        throw new AppError('Checklist not found at this facility or inactive', 400);
+      }
+      if (checklist.sectionId.toString() !== section._id.toString()) {
+        throw new AppError('The checklist does not belong to this hygiene section', 400);
+      }
+      await TaskAssignmentController.findAssignee(employeeId, facilityId);
+
+      const task = await TaskAssignment.create({
+        facilityId,
+        sectionId,
+        checklistId,
+        employeeId,
+        floorLocationId,
+        taskType,
+        priority,
+        dueDate,
+        notes,
+        assignedBy: req.user._id,
+        createdBy: req.user._id,
+        updatedBy: req.user._id
+      });
+      await task.populate(POPULATE_TASK);
+
+      logger.info(`Task ${task._id} at floor ${floorLocationId} assigned to ${employeeId} by ${req.user._id}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Task assigned successfully',
+        data: { task }
+      });
+    } catch (error) {
+      logger.error('Create task assignment error:', error);
+      next(error);
+    }
+  }
+
+  // Get the tasks of the facilities in the user's scope
+  static async getTaskAssignments(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { employeeId, floorLocationId, sectionId, status, priority, taskType, dueFrom, dueTo } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view tasks of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition, isDeleted: false };
+      if (employeeId) filter.employeeId = employeeId;
+      if (floorLocationId) filter.floorLocationId = floorLocationId;
+      if (sectionId) filter.sectionId = sectionId;
+      if (status) filter.status = status;
+      if (priority) filter.priority = priority;
+      if (taskType) filter.taskType = taskType;
+      if (dueFrom || dueTo) {
+        filter.dueDate = {};
+        if (dueFrom) filter.dueDate.$gte = new Date(dueFrom as string);
+        if (dueTo) filter.dueDate.$lte = new Date(dueTo as string);
+      }
+
+      const [tasks, total] = await Promise.all([
+        TaskAssignment.find(filter)
+          .populate(POPULATE_TASK)
+          .sort({ assignedDate: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        TaskAssignment.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: tasks.length,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        data: { tasks }
+      });
+    } catch (error) {
+      logger.error('Get task assignments error:', error);
+      next(error);
+    }
+  }
+
+  // Get the signed-in employee's tasks; open ones by default, earliest due first
+  static async getMyTasks(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filter: any = {
+        employeeId: req.user._id,
+        isDeleted: false,
+        status: req.query.status || { $in: OPEN_TASK_STATUSES }
+      };
+      if (req.query.floorLocationId) filter.floorLocationId = req.query.floorLocationId;
+
+      const tasks = await TaskAssignment.find(filter)
+        .populate(POPULATE_TASK)
+        .sort({ dueDate: 1, assignedDate: 1 });
+
+      res.json({
+        status: 'success',
+        results: tasks.length,
+        data: { tasks }
+      });
+    } catch (error) {
+      logger.error('Get my tasks error:', error);
+      next(error);
+    }
+  }
+
+  // Get a task with its completion record
+  static async getTaskAssignmentById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const task = await TaskAssignmentController.findInScope(req);
+      const completion = await TaskCompletion.findOne({ taskAssignmentId: task._id, isDeleted: false })
+        .populate('employeeId', 'firstName lastName email');
+      await task.populate(POPULATE_TASK);
+
+      res.json({
+        status: 'success',
+        data: { task, completion }
+      });
+    } catch (error) {
+      logger.error('Get task assignment by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Reassign, reprioritise or reschedule an open task
+  static async updateTaskAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const task = await TaskAssignmentController.findInScope(req);
+      if (!isOpen(task)) {
+        throw new AppError('Completed tasks cannot be changed', 400);
+      }
+
+      const { employeeId, priority, dueDate, notes } = req.body;
+      if (employeeId && employeeId !== task.employeeId.toString()) {
+        await TaskAssignmentController.findAssignee(employeeId, task.facilityId);
+        task.employeeId = employeeId;
+        // The new assignee has not started yet
+        task.startedAt = undefined;
+      }
+      if (priority) task.priority = priority;
+      if (dueDate !== undefined) task.dueDate = dueDate ?? undefined;
+      if (notes !== undefined) task.notes = notes;
+      task.status = TaskAssignmentController.openStatus(task);
+      task.updatedBy = req.user._id;
+      await task.save();
+      await task.populate(POPULATE_TASK);
+
+      res.json({
+        status: 'success',
+        message: 'Task updated successfully',
+        data: { task }
+      });
+    } catch (error) {
+      logger.error('Update task assignment error:', error);
+      next(error);
+    }
+  }
+
+  // Delete an open task; completed tasks are kept as proof of work
+  static async deleteTaskAssignment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const task = await TaskAssignmentController.findInScope(req);
+      if (!isOpen(task)) {
+        throw new AppError('Completed tasks cannot be deleted', 400);
+      }
+
+      task.isDeleted = true;
+      task.updatedBy = req.user._id;
+      await task.save();
+
+      res.json({
+        status: 'success',
+        message: 'Task deleted successfully'
+      });
+    } catch (error) {
+      logger.error('Delete task assignment error:', error);
+      next(error);
+    }
+  }
+
+  // Start working on one of your tasks
+  static async startTask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const task = await TaskAssignmentController.findOwn(req);
+      if (task.startedAt || !isOpen(task)) {
+        throw new AppError(`Only tasks not started yet can be started; this one is ${task.status}`, 400);
+      }
+
+      task.startedAt = new Date();
+      task.status = TaskAssignmentController.openStatus(task);
+      task.updatedBy = req.user._id;
+      await task.save();
+
+      res.json({
+        status: 'success',
+        message: 'Task started',
+        data: { task }
+      });
+    } catch (error) {
+      logger.error('Start task error:', error);
+      next(error);
+    }
+  }
+
+  // Complete one of your tasks by scanning the QR code of its floor
+  static async completeTask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const task = await TaskAssignmentController.findOwn(req);
+      if (!isOpen(task)) {
+        throw new AppError('This task is already completed', 400);
+      }
+
+      const { qrCode, notes, gpsLocation, deviceInfo } = req.body;
+      const scan = await TaskAssignmentService.verifyFloorScan(task, qrCode);
+      if (!scan.verified) {
+        throw new AppError(scan.reason!, 403);
+      }
+
+      const completion = await TaskAssignmentService.complete(task, {
+        qrCode,
+        notes,
+        gpsLocation,
+        deviceInfo: deviceInfo || req.get('user-agent'),
+        ipAddress: req.ip
+      }, req.user);
+      if (!completion) {
+        throw new AppError('This task was completed meanwhile', 409);
+      }
+
+      logger.info(`Task ${task._id} completed by ${req.user._id} at floor ${task.floorLocationId}`);
+
+      res.json({
+        status: 'success',
+        message: 'Task completed',
+        data: { task, completion }
+      });
+    } catch (error) {
+      logger.error('Complete task error:', error);
+      next(error);
+    }
+  }
+}
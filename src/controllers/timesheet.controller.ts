@@ -0,0 +1,235 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ITimesheet, Timesheet, TimesheetStatus } from '../models/Timesheet';
+import { AttendanceService } from '../services/attendance.service';
+import { TimesheetService } from '../services/timesheet.service';
+import { logger } from '../utils/logger';
+import { validatePagination } from '../utils/validation';
+
+const POPULATE_TIMESHEET = [
+  { path: 'facilityId', select: 'siteName city' },
+  { path: 'employeeId', select: 'firstName lastName email profile.employeeId' },
+  { path: 'signedOffBy', select: 'firstName lastName' },
+  { path: 'generatedBy', select: 'firstName lastName' }
+];
+
+export class TimesheetController {
+  // Timesheets of facilities outside the user's scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<ITimesheet> {
+    const timesheet = await Timesheet.findOne(req.facilityScope!.apply({ _id: req.params.id }));
+    if (!timesheet) {
+      throw new AppError('Timesheet not found', 404);
+    }
+    return timesheet;
+  }
+
+  // Resolve the facility of a request within the user's scope
+  private static resolveFacility(req: AuthenticatedRequest, requested?: string): string {
+    const facilityId = requested || req.facilityScope!.defaultFacilityId();
+    if (!facilityId) {
+      throw new AppError('facilityId is required', 400);
+    }
+    if (!req.facilityScope!.allows(facilityId)) {
+      throw new AppError('You can only manage timesheets of your managed facilities', 403);
+    }
+    return facilityId;
+  }
+
+  // Generate (or refresh the drafts of) a facility's timesheets for a week or a month
+  static async generateTimesheets(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = TimesheetController.resolveFacility(req, req.body.facilityId);
+      const { period, date, employeeIds } = req.body;
+
+      const result = await TimesheetService.generate(facilityId, period, date, req.user, { employeeIds });
+
+      logger.info(`Timesheets of facility ${facilityId} for ${result.periodStart} to ${result.periodEnd} generated by ${req.user._id}: ${result.created} created, ${result.updated} updated`);
+
+      res.status(201).json({
+        status: 'success',
+        message: `${result.created} timesheets created, ${result.updated} updated`
+          + (result.signedOff.length > 0 ? `; ${result.signedOff.length} already signed off were left unchanged` : ''),
+        results: result.timesheets.length,
+        data: { facilityId, ...result }
+      });
+    } catch (error) {
+      logger.error('Generate timesheets error:', error);
+      next(error);
+    }
+  }
+
+  // Get the timesheets of the facilities in the user's scope, without their entries
+  static async getTimesheets(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { employeeId, period, status, from, to } = req.query;
+      const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+
+      const facilityCondition = req.facilityScope!.condition(req.query.facilityId as string | undefined);
+      if (!facilityCondition) {
+        throw new AppError('You can only view timesheets of your managed facilities', 403);
+      }
+
+      const filter: any = { ...facilityCondition };
+      if (employeeId) filter.employeeId = employeeId;
+      if (period) filter.period = period;
+      if (status) filter.status = status;
+      if (from) filter.periodEnd = { $gte: new Date(`${from}T00:00:00.000Z`) };
+      if (to) filter.periodStart = { $lte: new Date(`${to}T00:00:00.000Z`) };
+
+      const [timesheets, total] = await Promise.all([
+        Timesheet.find(filter)
+          .select('-entries')
+          .populate(POPULATE_TIMESHEET)
+          .sort({ periodStart: -1, createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Timesheet.countDocuments(filter)
+      ]);
+
+      res.json({
+        status: 'success',
+        results: timesheets.length,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+        data: { timesheets }
+      });
+    } catch (error) {
+      logger.error('Get timesheets error:', error);
+      next(error);
+    }
+  }
+
+  // Get the signed-in employee's timesheets, newest first
+  static async getMyTimesheets(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filter: any = { employeeId: req.user._id };
+      if (req.query.period) filter.period = req.query.period;
+      if (req.query.status) filter.status = req.query.status;
+
+      const timesheets = await Timesheet.find(filter)
+        .populate(POPULATE_TIMESHEET)
+        .sort({ periodStart: -1 });
+
+      res.json({
+        status: 'success',
+        results: timesheets.length,
+        data: { timesheets }
+      });
+    } catch (error) {
+      logger.error('Get my timesheets error:', error);
+      next(error);
+    }
+  }
+
+  // Export the signed-off timesheets of a week or month as CSV for payroll
+  static async exportTimesheets(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const facilityId = TimesheetController.resolveFacility(req, req.query.facilityId as string | undefined);
+      const period = req.query.period as ITimesheet['period'];
+      const { start } = TimesheetService.periodOf(period, req.query.date as string);
+
+      const timesheets = await Timesheet.find({
+        facilityId,
+        period,
+        periodStart: new Date(`${start}T00:00:00.000Z`),
+        status: (req.query.status as string | undefined) || TimesheetStatus.SIGNED_OFF
+      })
+        .select('-entries')
+        .populate(POPULATE_TIMESHEET)
+        .sort({ createdAt: 1 });
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="timesheets-${period}-${start}.csv"`);
+      res.send(TimesheetService.toCsv(timesheets));
+    } catch (error) {
+      logger.error('Export timesheets error:', error);
+      next(error);
+    }
+  }
+
+  // Get a timesheet with its entries, and whether attendance changed since it was generated
+  static async getTimesheetById(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const timesheet = await TimesheetController.findInScope(req);
+      const outdated = timesheet.status === TimesheetStatus.DRAFT && await TimesheetService.isOutdated(timesheet);
+      await timesheet.populate([...POPULATE_TIMESHEET, { path: 'entries.shiftScheduleId', select: 'shiftName startTime endTime' }]);
+
+      res.json({
+        status: 'success',
+        data: { timesheet, outdated }
+      });
+    } catch (error) {
+      logger.error('Get timesheet by ID error:', error);
+      next(error);
+    }
+  }
+
+  // Sign off a timesheet once its period has ended; it is then frozen for payroll
+  static async signOffTimesheet(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const timesheet = await TimesheetController.findInScope(req);
+      if (timesheet.status === TimesheetStatus.SIGNED_OFF) {
+        throw new AppError('Timesheet is already signed off', 400);
+      }
+      if (timesheet.employeeId.toString() === req.user._id.toString()) {
+        throw new AppError('You cannot sign off your own timesheet', 403);
+      }
+
+      const settings = await AttendanceService.getSettings(timesheet.facilityId);
+      const today = AttendanceService.localDateKey(new Date(), settings.timezone);
+      if (timesheet.periodEnd.toISOString().slice(0, 10) >= today) {
+        throw new AppError('A timesheet can be signed off once its period has ended', 400);
+      }
+      if (await TimesheetService.isOutdated(timesheet)) {
+        throw new AppError('Attendance changed since this timesheet was generated; regenerate it before signing off', 409);
+      }
+      if (timesheet.totals.missingCheckOuts > 0) {
+        throw new AppError(`${timesheet.totals.missingCheckOuts} shift(s) have no check-out; correct the attendance and regenerate the timesheet first`, 409);
+      }
+
+      timesheet.status = TimesheetStatus.SIGNED_OFF;
+      timesheet.signedOffBy = req.user._id;
+      timesheet.signedOffAt = new Date();
+      timesheet.remarks = req.body.remarks;
+      await timesheet.save();
+
+      logger.info(`Timesheet ${timesheet._id} signed off by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Timesheet signed off successfully',
+        data: { timesheet }
+      });
+    } catch (error) {
+      logger.error('Sign off timesheet error:', error);
+      next(error);
+    }
+  }
+
+  // Reopen a signed-off timesheet so attendance can be corrected and the timesheet regenerated
+  static async reopenTimesheet(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const timesheet = await TimesheetController.findInScope(req);
+      if (timesheet.status !== TimesheetStatus.SIGNED_OFF) {
+        throw new AppError('Only signed-off timesheets can be reopened', 400);
+      }
+
+      timesheet.status = TimesheetStatus.DRAFT;
+      timesheet.signedOffBy = undefined;
+      timesheet.signedOffAt = undefined;
+      timesheet.remarks = req.body.remarks;
+      await timesheet.save();
+
+      logger.info(`Timesheet ${timesheet._id} reopened by ${req.user._id}`);
+
+      res.json({
+        status: 'success',
+        message: 'Timesheet reopened',
+        data: { timesheet }
+      });
+    } catch (error) {
+      logger.error('Reopen timesheet error:', error);
+      next(error);
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { NextFunction, Request, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
 import { User, UserRole, UserStatus } from '../models/User';
+import { InvitationService } from '../services/invitation.service';
+import { MailService } from '../services/mail.service';
 import { logger } from '../utils/logger';
 import { validateObjectId, validatePagination } from '../utils/validation';
 
@@ -27,6 +29,9 @@ export class UserController {
       // Auto-assign facilities from current user (creator)
       // Remove managedFacilities from request body to prevent manual assignment
       delete userData.managedFacilities;
+
+      // Permissions start from the role defaults; individual grants go through the permissions endpoint
+      delete userData.permissions;
       
       // Assign facilities based on current user's role and managed facilities
       if (currentUser && currentUser.managedFacilities && currentUser.managedFacilities.length > 0) {
@@ -60,18 +65,36 @@ export class UserController {
         }
       }
 
+      // Without a password the user is invited to choose one
+      const invite = !userData.password;
+      if (invite) {
+        delete userData.password;
+      }
+
       // Create new user
       const user = new User(userData);
-      await user.save();
+      if (invite) {
+        // Saves the user as pending with a fresh invitation and emails the accept link
+        await InvitationService.issue(user, currentUser);
+      } else {
+        await user.save();
+
+        // Welcome email with verification link; delivery failures must not fail the request
+        try {
+          await MailService.sendAccountCreatedEmail(user, currentUser);
+        } catch (mailError: any) {
+          logger.error(`Failed to queue account email for user ${user._id}:`, mailError);
+        }
+      }
 
       // Remove password from response
       const userResponse = user.toJSON();
       
-      logger.info(`User created successfully: ${user._id} by ${currentUser?._id || 'system'}`);
+      logger.info(`User ${invite ? 'invited' : 'created'} successfully: ${user._id} by ${currentUser?._id || 'system'}`);
 
       res.status(201).json({
         status: 'success',
-        message: 'User created successfully',
+        message: invite ? 'User invited successfully' : 'User created successfully',
         data: {
           user: userResponse
         }
@@ -197,6 +220,8 @@ export class UserController {
       delete updateData.updatedAt;
       delete updateData.emailVerificationToken;
       delete updateData.passwordResetToken;
+      delete updateData.permissions; // Managed through the permissions endpoint
+      delete updateData.security;
 
       // Check if email is being updated and if it already exists
       if (updateData.email) {
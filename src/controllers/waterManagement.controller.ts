@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { Borewell, Cauvery, IBorewell, ICauvery, ITanker, IWaterTank, Tanker, WaterTank } from '../models/WaterManagement';
+import { FACILITY_ACCESS_DENIED_MESSAGE } from '../utils/facilityScope';
 
 const generateResponse = (success: boolean, message: string, data?: any, error?: any) => ({
   success,
@@ -13,6 +14,12 @@ const generateResponse = (success: boolean, message: string, data?: any, error?:
 export const createWaterTank = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const waterTankData: Partial<IWaterTank> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(waterTankData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const waterTank = new WaterTank(waterTankData);
     await waterTank.save();
@@ -38,7 +45,14 @@ export const getAllWaterTanks = async (req: AuthenticatedRequest, res: Response)
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
     if (type) filter.type = type;
 
     const skip = (Number(page) - 1) * Number(limit);
@@ -80,7 +94,7 @@ export const getWaterTankById = async (req: AuthenticatedRequest, res: Response)
     const { id } = req.params;
     
     const waterTank = await WaterTank
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!waterTank) {
@@ -111,8 +125,13 @@ export const updateWaterTank = async (req: AuthenticatedRequest, res: Response):
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const waterTank = await WaterTank
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!waterTank) {
@@ -142,7 +161,7 @@ export const deleteWaterTank = async (req: AuthenticatedRequest, res: Response):
   try {
     const { id } = req.params;
 
-    const waterTank = await WaterTank.findByIdAndDelete(id);
+    const waterTank = await WaterTank.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!waterTank) {
       res.status(404).json(generateResponse(
@@ -170,6 +189,12 @@ export const deleteWaterTank = async (req: AuthenticatedRequest, res: Response):
 export const createBorewell = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const borewellData: Partial<IBorewell> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(borewellData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const borewell = new Borewell(borewellData);
     await borewell.save();
@@ -195,7 +220,14 @@ export const getAllBorewells = async (req: AuthenticatedRequest, res: Response):
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -236,7 +268,7 @@ export const getBorewellById = async (req: AuthenticatedRequest, res: Response):
     const { id } = req.params;
     
     const borewell = await Borewell
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!borewell) {
@@ -267,8 +299,13 @@ export const updateBorewell = async (req: AuthenticatedRequest, res: Response):
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const borewell = await Borewell
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!borewell) {
@@ -298,7 +335,7 @@ export const deleteBorewell = async (req: AuthenticatedRequest, res: Response):
   try {
     const { id } = req.params;
 
-    const borewell = await Borewell.findByIdAndDelete(id);
+    const borewell = await Borewell.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!borewell) {
       res.status(404).json(generateResponse(
@@ -326,6 +363,12 @@ export const deleteBorewell = async (req: AuthenticatedRequest, res: Response):
 export const createCauvery = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const cauveryData: Partial<ICauvery> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(cauveryData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const cauvery = new Cauvery(cauveryData);
     await cauvery.save();
@@ -351,7 +394,14 @@ export const getAllCauvery = async (req: AuthenticatedRequest, res: Response): P
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -392,7 +442,7 @@ export const getCauveryById = async (req: AuthenticatedRequest, res: Response):
     const { id } = req.params;
     
     const cauvery = await Cauvery
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!cauvery) {
@@ -423,8 +473,13 @@ export const updateCauvery = async (req: AuthenticatedRequest, res: Response): P
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const cauvery = await Cauvery
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!cauvery) {
@@ -454,7 +509,7 @@ export const deleteCauvery = async (req: AuthenticatedRequest, res: Response): P
   try {
     const { id } = req.params;
 
-    const cauvery = await Cauvery.findByIdAndDelete(id);
+    const cauvery = await Cauvery.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!cauvery) {
       res.status(404).json(generateResponse(
@@ -482,6 +537,12 @@ export const deleteCauvery = async (req: AuthenticatedRequest, res: Response): P
 export const createTanker = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const tankerData: Partial<ITanker> = req.body;
+
+    // Writes are only allowed into facilities within the user's scope
+    if (!req.facilityScope!.allows(tankerData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
     
     const tanker = new Tanker(tankerData);
     await tanker.save();
@@ -507,7 +568,14 @@ export const getAllTankers = async (req: AuthenticatedRequest, res: Response): P
     
     const filter: any = {};
     if (status) filter.status = status;
-    if (facilityId) filter.facilityId = facilityId;
+
+    // Restrict to the requested facility, or to all facilities in the user's scope
+    const facilityCondition = req.facilityScope!.condition(facilityId);
+    if (!facilityCondition) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+    Object.assign(filter, facilityCondition);
 
     const skip = (Number(page) - 1) * Number(limit);
     
@@ -548,7 +616,7 @@ export const getTankerById = async (req: AuthenticatedRequest, res: Response): P
     const { id } = req.params;
     
     const tanker = await Tanker
-      .findById(id)
+      .findOne(req.facilityScope!.apply({ _id: id }))
       .populate('facilityId', 'name');
 
     if (!tanker) {
@@ -579,8 +647,13 @@ export const updateTanker = async (req: AuthenticatedRequest, res: Response): Pr
     const { id } = req.params;
     const updateData = req.body;
 
+    if (updateData.facilityId && !req.facilityScope!.allows(updateData.facilityId)) {
+      res.status(403).json(generateResponse(false, FACILITY_ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const tanker = await Tanker
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+      .findOneAndUpdate(req.facilityScope!.apply({ _id: id }), updateData, { new: true, runValidators: true })
       .populate('facilityId', 'name');
 
     if (!tanker) {
@@ -610,7 +683,7 @@ export const deleteTanker = async (req: AuthenticatedRequest, res: Response): Pr
   try {
     const { id } = req.params;
 
-    const tanker = await Tanker.findByIdAndDelete(id);
+    const tanker = await Tanker.findOneAndDelete(req.facilityScope!.apply({ _id: id }));
 
     if (!tanker) {
       res.status(404).json(generateResponse(
@@ -1,52 +1,67 @@
 import { NextFunction, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/errorHandler';
-import { UserRole } from '../models/User';
-import { WeekoffPlanner } from '../models/WeekoffPlanner';
+import { ApprovalRequestType } from '../models/ApprovalWorkflow';
+import { User } from '../models/User';
+import { IWeekoffPlanner, WeekoffPlanner } from '../models/WeekoffPlanner';
+import { ApprovalService } from '../services/approval.service';
+import { PermissionService } from '../services/permission.service';
+import { logger } from '../utils/logger';
 import { validateObjectId } from '../utils/validation';
 
+// Maintained by the approval actions, never taken from a request body
+const WORKFLOW_FIELDS = [
+  'status', 'approvedBy', 'approvedDate', 'approvalChain', 'approvalLevel', 'approvalHistory',
+  'createdBy', 'updatedBy', 'isDeleted'
+];
+
+const omitWorkflowFields = (body: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(Object.entries(body).filter(([field]) => !WORKFLOW_FIELDS.includes(field)));
+
+const POPULATE_WEEKOFF_PLANNER = [
+  { path: 'facilityId', select: 'siteName city' },
+  { path: 'employeeId', select: 'firstName lastName email' },
+  { path: 'approvedBy', select: 'firstName lastName' },
+  { path: 'approvalHistory.by', select: 'firstName lastName' },
+  { path: 'createdBy', select: 'firstName lastName' },
+  { path: 'updatedBy', select: 'firstName lastName' }
+];
+
 export class WeekoffPlannerController {
+  // Week-offs are planned only for employees working at the planner's facility
+  private static async checkEmployee(employeeId: any, facilityId: any): Promise<void> {
+    const employee = await User.exists({ _id: employeeId, isDeleted: false, managedFacilities: facilityId });
+    if (!employee) {
+      throw new AppError('Employee not found in this facility', 404);
+    }
+  }
+
   // Create Weekoff Planner
   static async createWeekoffPlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const user = req.user;
       
-      // Get facilityId from user's managed facilities
-      let facilityId: string;
-      
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can create weekoff planner for any facility
-        facilityId = req.body.facilityId;
-        if (!facilityId) {
-          return next(new AppError('facilityId is required', 400));
-        }
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only create for their managed facilities
-        if (req.body.facilityId) {
-          const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-          if (!managedFacilityIds.includes(req.body.facilityId)) {
-            return next(new AppError('You can only create weekoff planners for your managed facilities', 403));
-          }
-          facilityId = req.body.facilityId;
-        } else {
-          // Use first managed facility if not specified
-          if (user.managedFacilities.length === 0) {
-            return next(new AppError('No managed facilities found', 400));
-          }
-          facilityId = user.managedFacilities[0]._id.toString();
-        }
-      } else {
-        return next(new AppError('Insufficient permissions', 403));
+      // Resolve the target facility within the user's facility scope
+      const facilityId: string | undefined = req.body.facilityId || req.facilityScope!.defaultFacilityId();
+      if (!facilityId) {
+        return next(new AppError('facilityId is required', 400));
       }
+      if (!req.facilityScope!.allows(facilityId)) {
+        return next(new AppError('You can only create weekoff planners for your managed facilities', 403));
+      }
+      await WeekoffPlannerController.checkEmployee(req.body.employeeId, facilityId);
 
       const weekoffPlannerData = {
-        ...req.body,
+        ...omitWorkflowFields(req.body),
         facilityId,
         createdBy: user._id,
         updatedBy: user._id
       };
 
-      const weekoffPlanner = await WeekoffPlanner.create(weekoffPlannerData);
+      // Every request starts as pending at the first level of the facility's approval chain
+      const weekoffPlanner = new WeekoffPlanner(weekoffPlannerData);
+      await ApprovalService.submit(weekoffPlanner, ApprovalRequestType.WEEKOFF, user);
+      await weekoffPlanner.save();
       res.status(201).json({ status: 'success', data: { weekoffPlanner } });
     } catch (err) {
       next(err);
@@ -56,26 +71,15 @@ export class WeekoffPlannerController {
   // Get all Weekoff Planners (with optional filters)
   static async getAllWeekoffPlanners(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
-      const user = req.user;
       const { facilityId, employeeId, status, weekStartDate } = req.query;
       const filter: any = { isDeleted: false };
 
-      // Apply facility-based filtering based on user role
-      if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
-        // Super admin and admin can see all weekoff planners
-        if (facilityId) filter.facilityId = facilityId;
-      } else if (user.role === UserRole.FACILITY_MANAGER) {
-        // Facility manager can only see weekoff planners for their managed facilities
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId) {
-          if (!managedFacilityIds.includes(facilityId as string)) {
-            return next(new AppError('You can only view weekoff planners for your managed facilities', 403));
-          }
-          filter.facilityId = facilityId;
-        } else {
-          filter.facilityId = { $in: managedFacilityIds };
-        }
+      // Restrict to the requested facility, or to every facility in the user's scope
+      const facilityCondition = req.facilityScope!.condition(facilityId);
+      if (!facilityCondition) {
+        return next(new AppError('You can only view weekoff planners for your managed facilities', 403));
       }
+      Object.assign(filter, facilityCondition);
 
       if (employeeId) filter.employeeId = employeeId;
       if (status) filter.status = status;
@@ -97,7 +101,6 @@ export class WeekoffPlannerController {
   static async getWeekoffPlannerById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid weekoff planner ID', 400));
       
@@ -110,11 +113,8 @@ export class WeekoffPlannerController {
       if (!weekoffPlanner) return next(new AppError('Weekoff planner not found', 404));
 
       // Check if user has access to this weekoff planner's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(weekoffPlanner.facilityId.toString())) {
-          return next(new AppError('You can only view weekoff planners for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(weekoffPlanner.facilityId)) {
+        return next(new AppError('You can only view weekoff planners for your managed facilities', 403));
       }
 
       res.json({ status: 'success', data: { weekoffPlanner } });
@@ -136,15 +136,24 @@ export class WeekoffPlannerController {
       if (!existingWeekoffPlanner) return next(new AppError('Weekoff planner not found', 404));
 
       // Check if user has access to this weekoff planner's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingWeekoffPlanner.facilityId.toString())) {
-          return next(new AppError('You can only update weekoff planners for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingWeekoffPlanner.facilityId)) {
+        return next(new AppError('You can only update weekoff planners for your managed facilities', 403));
+      }
+      if (req.body.facilityId && !req.facilityScope!.allows(req.body.facilityId)) {
+        return next(new AppError('You can only move weekoff planners to your managed facilities', 403));
+      }
+      if (req.body.status !== undefined) {
+        return next(new AppError('Use the approve, reject, cancel or withdraw actions to change the status', 400));
+      }
+      if (req.body.employeeId !== undefined || req.body.facilityId !== undefined) {
+        await WeekoffPlannerController.checkEmployee(
+          req.body.employeeId || existingWeekoffPlanner.employeeId,
+          req.body.facilityId || existingWeekoffPlanner.facilityId
+        );
       }
 
       const updateData = {
-        ...req.body,
+        ...omitWorkflowFields(req.body),
         updatedBy: user._id
       };
 
@@ -164,11 +173,149 @@ export class WeekoffPlannerController {
     }
   }
 
+  // Weekoff planner of a facility in the user's scope; planners outside the scope are reported as missing
+  private static async findInScope(req: AuthenticatedRequest): Promise<IWeekoffPlanner> {
+    const weekoffPlanner = await WeekoffPlanner.findOne(req.facilityScope!.apply({ _id: req.params.id, isDeleted: false }));
+    if (!weekoffPlanner) {
+      throw new AppError('Weekoff planner not found', 404);
+    }
+    return weekoffPlanner;
+  }
+
+  // Weekoff planner of the user, or one they can act on as an approver of its facility
+  private static async findForApplicantOrApprover(req: AuthenticatedRequest): Promise<{ weekoffPlanner: IWeekoffPlanner; isApprover: boolean }> {
+    const weekoffPlanner = await WeekoffPlanner.findOne({ _id: req.params.id, isDeleted: false });
+    const isApprover = !!weekoffPlanner
+      && PermissionService.hasPermission(req.user, 'canManageShifts', weekoffPlanner.facilityId)
+      && req.facilityScope!.allows(weekoffPlanner.facilityId);
+    if (!weekoffPlanner || (!isApprover && !ApprovalService.isApplicant(weekoffPlanner, req.user))) {
+      throw new AppError('Weekoff planner not found', 404);
+    }
+    return { weekoffPlanner, isApprover };
+  }
+
+  private static async respondWithWeekoff(res: Response, weekoffPlanner: IWeekoffPlanner, message: string) {
+    await weekoffPlanner.populate(POPULATE_WEEKOFF_PLANNER);
+    res.json({ status: 'success', message, data: { weekoffPlanner } });
+  }
+
+  // Approve the current level of a pending weekoff planner
+  static async approveWeekoffPlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const weekoffPlanner = await WeekoffPlannerController.findInScope(req);
+      const loaded = ApprovalService.stateOf(weekoffPlanner);
+      if (weekoffPlanner.status !== 'pending') {
+        return next(new AppError(`Only pending weekoff planners can be approved; this one is ${weekoffPlanner.status}`, 400));
+      }
+      const blocker = ApprovalService.getDecisionBlocker(weekoffPlanner, req.user);
+      if (blocker) {
+        return next(new AppError(blocker, 403));
+      }
+
+      const final = ApprovalService.approve(weekoffPlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(weekoffPlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This weekoff planner was decided on meanwhile; reload it and try again', 409));
+      }
+
+      logger.info(`Weekoff planner ${saved._id} approved at level ${saved.approvalLevel} by ${req.user._id}`);
+
+      const nextRole = ApprovalService.pendingRole(saved);
+      await WeekoffPlannerController.respondWithWeekoff(
+        res,
+        saved,
+        final
+          ? 'Weekoff planner approved'
+          : `Weekoff planner approved at level ${saved.approvalLevel}; awaiting approval by a ${nextRole?.replace('_', ' ')}`
+      );
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Reject a pending weekoff planner (remarks are mandatory)
+  static async rejectWeekoffPlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const weekoffPlanner = await WeekoffPlannerController.findInScope(req);
+      const loaded = ApprovalService.stateOf(weekoffPlanner);
+      if (weekoffPlanner.status !== 'pending') {
+        return next(new AppError(`Only pending weekoff planners can be rejected; this one is ${weekoffPlanner.status}`, 400));
+      }
+      const blocker = ApprovalService.getDecisionBlocker(weekoffPlanner, req.user);
+      if (blocker) {
+        return next(new AppError(blocker, 403));
+      }
+
+      ApprovalService.reject(weekoffPlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(weekoffPlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This weekoff planner was decided on meanwhile; reload it and try again', 409));
+      }
+
+      logger.info(`Weekoff planner ${saved._id} rejected by ${req.user._id}`);
+
+      await WeekoffPlannerController.respondWithWeekoff(res, saved, 'Weekoff planner rejected');
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Cancel an approved weekoff planner; employees can only cancel their own before the week starts
+  static async cancelWeekoffPlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { weekoffPlanner, isApprover } = await WeekoffPlannerController.findForApplicantOrApprover(req);
+      const loaded = ApprovalService.stateOf(weekoffPlanner);
+      if (weekoffPlanner.status !== 'approved') {
+        return next(new AppError(`Only approved weekoff planners can be cancelled; this one is ${weekoffPlanner.status}`, 400));
+      }
+      if (!isApprover && weekoffPlanner.weekStartDate <= new Date()) {
+        return next(new AppError('A week that has already started can only be cancelled by an approver', 403));
+      }
+
+      ApprovalService.cancel(weekoffPlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(weekoffPlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This weekoff planner was decided on meanwhile; reload it and try again', 409));
+      }
+
+      logger.info(`Weekoff planner ${saved._id} cancelled by ${req.user._id}`);
+
+      await WeekoffPlannerController.respondWithWeekoff(res, saved, 'Weekoff planner cancelled');
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  // Withdraw a weekoff request still awaiting approval (applicant only)
+  static async withdrawWeekoffPlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { weekoffPlanner } = await WeekoffPlannerController.findForApplicantOrApprover(req);
+      const loaded = ApprovalService.stateOf(weekoffPlanner);
+      if (!ApprovalService.isApplicant(weekoffPlanner, req.user)) {
+        return next(new AppError('Only the applicant can withdraw a weekoff request', 403));
+      }
+      if (weekoffPlanner.status !== 'pending') {
+        return next(new AppError(`Only pending weekoff planners can be withdrawn; this one is ${weekoffPlanner.status}`, 400));
+      }
+
+      ApprovalService.withdraw(weekoffPlanner, req.user, req.body.remarks);
+      const saved = await ApprovalService.saveDecision(weekoffPlanner, loaded);
+      if (!saved) {
+        return next(new AppError('This weekoff planner was decided on meanwhile; reload it and try again', 409));
+      }
+
+      logger.info(`Weekoff planner ${saved._id} withdrawn by ${req.user._id}`);
+
+      await WeekoffPlannerController.respondWithWeekoff(res, saved, 'Weekoff planner withdrawn');
+    } catch (err) {
+      next(err);
+    }
+  }
+
   // Delete Weekoff Planner (soft delete)
   static async deleteWeekoffPlanner(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const user = req.user;
       
       if (!validateObjectId(id)) return next(new AppError('Invalid weekoff planner ID', 400));
       
@@ -177,11 +324,8 @@ export class WeekoffPlannerController {
       if (!existingWeekoffPlanner) return next(new AppError('Weekoff planner not found', 404));
 
       // Check if user has access to this weekoff planner's facility
-      if (user.role === UserRole.FACILITY_MANAGER) {
-        const managedFacilityIds = user.managedFacilities.map((f: any) => f._id.toString());
-        if (!managedFacilityIds.includes(existingWeekoffPlanner.facilityId.toString())) {
-          return next(new AppError('You can only delete weekoff planners for your managed facilities', 403));
-        }
+      if (!req.facilityScope!.allows(existingWeekoffPlanner.facilityId)) {
+        return next(new AppError('You can only delete weekoff planners for your managed facilities', 403));
       }
 
       const weekoffPlanner = await WeekoffPlanner.findOneAndUpdate(
@@ -1,9 +1,18 @@
 import { NextFunction, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
-import { User, UserRole, UserStatus } from '../models/User';
+import { getRoutePermissionRule, PermissionFlag } from '../config/permissions';
+import { IApiKey } from '../models/ApiKey';
+import { IUserSession, User, UserRole, UserStatus } from '../models/User';
+import { ApiKeyService } from '../services/apiKey.service';
+import { PermissionService } from '../services/permission.service';
+import { FACILITY_ACCESS_DENIED_MESSAGE, FacilityScope } from '../utils/facilityScope';
 import { logger } from '../utils/logger';
 import { AppError } from './errorHandler';
+import { setRequestActor } from './requestContext';
+
+// A session's last activity is written at most this often, not on every request
+const SESSION_ACTIVITY_INTERVAL_MS = 60 * 1000;
 
 // Interface for JWT payload
 interface JWTPayload {
@@ -17,11 +26,22 @@ interface JWTPayload {
 // Interface for authenticated request
 export interface AuthenticatedRequest extends Request {
   user?: any;
+  facilityScope?: FacilityScope; // Facilities the user may access, set by authenticate
+  apiKey?: IApiKey; // Set when the request is authenticated with an X-API-Key instead of a user token
 }
 
 export class AuthMiddleware {
-  // Middleware to check if user is authenticated
+  // Middleware to check if the request is authenticated with a user token or an API key (X-API-Key)
   static async authenticate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    const apiKey = req.get('x-api-key');
+    if (apiKey && !req.headers.authorization) {
+      return AuthMiddleware.authenticateApiKey(req, res, next, apiKey);
+    }
+    return AuthMiddleware.authenticateUser(req, res, next);
+  }
+
+  // Middleware to check if user is authenticated with a user token (for account routes not available to API keys)
+  static async authenticateUser(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       // Get token from header
       const authHeader = req.headers.authorization;
@@ -55,7 +75,8 @@ export class AuthMiddleware {
         _id: decoded.id, 
         isDeleted: false 
       })
-        .populate('managedFacilities', 'siteName city facilityType');
+        .populate('managedFacilities', 'siteName city facilityType')
+        .populate(PermissionService.CUSTOM_ROLES_POPULATE);
 
       if (!user) {
         return next(new AppError('User no longer exists. Please login again', 401));
@@ -74,13 +95,20 @@ export class AuthMiddleware {
       }
 
       // Check if token is in user's active sessions (optional security check)
-      const isValidSession = user.security.sessionTokens?.some((session: any) => session.token === token);
-      if (!isValidSession) {
+      const session = user.security.sessionTokens?.find((sessionToken: IUserSession) => sessionToken.token === token);
+      if (!session) {
         return next(new AppError('Session is no longer valid. Please login again', 401));
       }
 
-      // Attach user to request object
+      if (!session.lastUsedAt || Date.now() - session.lastUsedAt.getTime() >= SESSION_ACTIVITY_INTERVAL_MS) {
+        user.touchSession(token)
+          .catch(error => logger.error(`Could not record session activity of user ${user.email}:`, error));
+      }
+
+      // Attach user and facility scope to request object
       req.user = user;
+      req.facilityScope = FacilityScope.forUser(user);
+      setRequestActor({ userId: user._id.toString(), email: user.email, role: user.role });
       next();
     } catch (error: any) {
       logger.error('Authentication error:', error);
@@ -88,6 +116,56 @@ export class AuthMiddleware {
     }
   }
 
+  // Authenticate a machine-to-machine client: the request acts as the key's creator, limited to the key's facility and permissions
+  private static async authenticateApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction, presentedKey: string): Promise<void> {
+    try {
+      const apiKey = await ApiKeyService.findByKey(presentedKey);
+      if (!apiKey) {
+        return next(new AppError('Invalid API key', 401));
+      }
+
+      if (!apiKey.isActive || apiKey.revokedAt) {
+        return next(new AppError('API key has been revoked', 401));
+      }
+
+      if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+        return next(new AppError('API key has expired', 401));
+      }
+
+      const ip = ApiKeyService.normalizeIp(req.ip);
+      if (!ApiKeyService.isIpAllowed(apiKey, ip)) {
+        logger.warn(`API key ${apiKey.prefix} used from disallowed IP ${ip}`);
+        return next(new AppError('API key is not allowed from this IP address', 403));
+      }
+
+      // The key only works while its creator is active and still has access to the key's facility
+      const user = await User.findOne({ _id: apiKey.createdBy, isDeleted: false })
+        .populate('managedFacilities', 'siteName city facilityType')
+        .populate(PermissionService.CUSTOM_ROLES_POPULATE);
+
+      if (!user || user.status !== UserStatus.ACTIVE) {
+        return next(new AppError('The owner of this API key is no longer active', 401));
+      }
+
+      if (!FacilityScope.forUser(user).allows(apiKey.facilityId)) {
+        return next(new AppError(FACILITY_ACCESS_DENIED_MESSAGE, 403));
+      }
+
+      // Limits PermissionService checks on this user to the key's permissions
+      user.$locals.apiKey = apiKey;
+
+      req.user = user;
+      req.apiKey = apiKey;
+      req.facilityScope = new FacilityScope([apiKey.facilityId.toString()]);
+      setRequestActor({ userId: user._id.toString(), email: user.email, role: user.role, apiKeyId: apiKey._id.toString() });
+      ApiKeyService.recordUsage(apiKey, ip);
+      next();
+    } catch (error: any) {
+      logger.error('API key authentication error:', error);
+      return next(new AppError('Authentication failed', 500));
+    }
+  }
+
   // Middleware to check if user has required role(s)
   static authorize(...allowedRoles: UserRole[]) {
     return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
@@ -96,6 +174,11 @@ export class AuthMiddleware {
           return next(new AppError('Authentication required', 401));
         }
 
+        // Role-restricted resources are only available to signed-in users
+        if (req.apiKey) {
+          return next(new AppError('This resource is not available to API keys', 403));
+        }
+
         const userRole = req.user.role as UserRole;
 
         // Super admin has access to everything
@@ -141,6 +224,61 @@ export class AuthMiddleware {
     )(req, res, next);
   }
 
+  /**
+   * Facility a request acts in, which decides the facility roles that count for it: the facilityId given in the
+   * path, query or body (none when they name different facilities), otherwise the user's only facility.
+   */
+  static getRequestFacilityId(req: AuthenticatedRequest): string | undefined {
+    const requested = new Set(
+      [req.params?.facilityId, req.query?.facilityId, req.body?.facilityId].filter(
+        (id): id is string => typeof id === 'string' && id.length > 0
+      )
+    );
+    if (requested.size > 0) {
+      return requested.size === 1 ? [...requested][0] : undefined;
+    }
+
+    const facilityIds = req.facilityScope?.facilityIds;
+    return facilityIds?.length === 1 ? facilityIds[0] : undefined;
+  }
+
+  // Middleware to check if user has all of the given permissions (flags or custom permissions)
+  static requirePermission(...permissions: (PermissionFlag | string)[]) {
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+      try {
+        if (!req.user) {
+          return next(new AppError('Authentication required', 401));
+        }
+
+        const facilityId = AuthMiddleware.getRequestFacilityId(req);
+        const missing = permissions.filter(permission => !PermissionService.hasPermission(req.user, permission, facilityId));
+        if (missing.length > 0) {
+          logger.warn(`Permission denied for user ${req.user._id} on ${req.method} ${req.originalUrl}: missing ${missing.join(', ')}`);
+          return next(new AppError('Insufficient permissions to access this resource', 403));
+        }
+
+        next();
+      } catch (error: any) {
+        logger.error('Permission check error:', error);
+        return next(new AppError('Authorization failed', 500));
+      }
+    };
+  }
+
+  // Middleware to authorize the matched route against the central route permission matrix (config/permissions)
+  static authorizeRoute(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+    const routePath = `${req.baseUrl}${req.route?.path ?? ''}`;
+    const rule = getRoutePermissionRule(req.method, routePath);
+
+    // Deny by default so a guarded route can never be exposed by a missing matrix entry
+    if (!rule) {
+      logger.error(`No permission rule configured for ${req.method} ${routePath}`);
+      return next(new AppError('Insufficient permissions to access this resource', 403));
+    }
+
+    AuthMiddleware.requirePermission(...rule.permissions)(req, res, next);
+  }
+
   // Middleware to check if user can access their own resources or has admin privileges
   static requireOwnershipOrAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
     try {
@@ -148,6 +286,10 @@ export class AuthMiddleware {
         return next(new AppError('Authentication required', 401));
       }
 
+      if (req.apiKey) {
+        return next(new AppError('This resource is not available to API keys', 403));
+      }
+
       const userRole = req.user.role as UserRole;
       const userId = req.user._id.toString();
       const targetUserId = req.params.id || req.params.userId;
@@ -177,36 +319,19 @@ export class AuthMiddleware {
     }
   }
 
-  // Middleware to check if user has permission to manage facilities
+  // Middleware to check that the facility in the route params (facilityId) is within the user's facility scope
   static requireFacilityAccess(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
     try {
       if (!req.user) {
         return next(new AppError('Authentication required', 401));
       }
 
-      const userRole = req.user.role as UserRole;
-      const facilityId = req.params.facilityId;
-
-      // Super admin and admin have access to all facilities
-      if (userRole === UserRole.SUPER_ADMIN || userRole === UserRole.ADMIN) {
-        return next();
+      const scope = req.facilityScope ?? FacilityScope.forUser(req.user);
+      if (!scope.allows(req.params.facilityId)) {
+        return next(new AppError(FACILITY_ACCESS_DENIED_MESSAGE, 403));
       }
 
-      // Facility managers can access their assigned facilities
-      if (userRole === UserRole.FACILITY_MANAGER) {
-        const managedFacilities = req.user.managedFacilities.map((f: any) => f._id.toString());
-        if (facilityId && managedFacilities.includes(facilityId)) {
-          return next();
-        }
-      }
-
-      // Other roles can access facilities they manage
-      const managedFacilities = req.user.managedFacilities.map((f: any) => f._id.toString());
-      if (facilityId && managedFacilities.includes(facilityId)) {
-        return next();
-      }
-
-      return next(new AppError('Access denied. You do not have permission to access this facility', 403));
+      next();
     } catch (error: any) {
       logger.error('Facility access check error:', error);
       return next(new AppError('Facility access check failed', 500));
@@ -234,10 +359,12 @@ export class AuthMiddleware {
         const user = await User.findOne({ 
           _id: decoded.id, 
           isDeleted: false 
-        });
+        }).populate(PermissionService.CUSTOM_ROLES_POPULATE);
 
         if (user && user.status === UserStatus.ACTIVE && !user.isAccountLocked()) {
           req.user = user;
+          req.facilityScope = FacilityScope.forUser(user);
+          setRequestActor({ userId: user._id.toString(), email: user.email, role: user.role });
         }
       } catch (error) {
         // Ignore token errors in optional auth
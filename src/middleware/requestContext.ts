@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+
+export interface RequestActor {
+  userId: string;
+  email?: string;
+  role?: string;
+  apiKeyId?: string; // Set when the request is authenticated with an API key of the user
+}
+
+// Per-request data made available to code that has no access to req (e.g. Mongoose middleware)
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+  method: string;
+  path: string;
+  actor?: RequestActor;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Open a request context for the rest of the middleware chain; register after the body parsers
+export const requestContextMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  storage.run({
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+    method: req.method,
+    path: req.originalUrl
+  }, next);
+};
+
+// Context of the request currently being handled, if any
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+// Record the authenticated user on the current request context
+export const setRequestActor = (actor: RequestActor): void => {
+  const context = storage.getStore();
+  if (context) {
+    context.actor = actor;
+  }
+};
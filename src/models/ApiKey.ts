@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PERMISSION_FLAGS, PermissionFlag } from '../config/permissions';
+import { auditTrail } from './plugins/auditTrail';
+
+// Credential for machine-to-machine clients (BMS gateways, attendance devices, IoT integrations).
+// A key acts on behalf of the user who created it, limited to one facility and a set of permissions.
+export interface IApiKey extends Document {
+  name: string;
+  description?: string;
+  prefix: string; // Public part of the key used to identify it, e.g. fmk_1a2b3c4d
+  keyHash: string; // SHA-256 of the full key; the key itself is only shown once on creation
+  facilityId: mongoose.Types.ObjectId;
+  permissions: PermissionFlag[];
+  allowedIps: string[]; // IPs or CIDR ranges; empty allows every address
+  expiresAt?: Date;
+  isActive: boolean;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  usageCount: number;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  description: { type: String, trim: true, maxlength: 500 },
+  prefix: { type: String, required: true, unique: true },
+  keyHash: { type: String, required: true, select: false },
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  permissions: [{ type: String, enum: PERMISSION_FLAGS }],
+  allowedIps: [{ type: String, trim: true }],
+  expiresAt: { type: Date },
+  isActive: { type: Boolean, default: true },
+  revokedAt: { type: Date },
+  revokedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  lastUsedAt: { type: Date },
+  lastUsedIp: { type: String },
+  usageCount: { type: Number, default: 0 },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true,
+  collection: 'apikeys'
+});
+
+ApiKeySchema.index({ facilityId: 1, isActive: 1 });
+ApiKeySchema.index({ createdBy: 1 });
+
+// Record every change in the audit log (usage bookkeeping is not an audited change)
+ApiKeySchema.plugin(auditTrail, {
+  exclude: ['lastUsedAt', 'lastUsedIp', 'usageCount'],
+  redact: ['keyHash']
+});
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { UserRole } from './User';
+import { auditTrail } from './plugins/auditTrail';
+
+// Requests going through an approval chain
+export enum ApprovalRequestType {
+  LEAVE = 'leave',
+  WEEKOFF = 'weekoff',
+  SHIFT_SWAP = 'shift_swap'
+}
+
+export enum ApprovalAction {
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved', // One level approved; the request is approved once every level has
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled',
+  WITHDRAWN = 'withdrawn'
+}
+
+// Roles that can make up the levels of an approval chain
+export const APPROVER_ROLES = [UserRole.SUPERVISOR, UserRole.FACILITY_MANAGER, UserRole.ADMIN];
+
+export interface IApprovalHistoryEntry {
+  action: ApprovalAction;
+  level?: number; // 1-based level approved or rejected
+  by: mongoose.Types.ObjectId;
+  role: string; // Role of the user at the time
+  at: Date;
+  remarks?: string;
+}
+
+// Approval state kept on every approvable document (leave and week-off planners, shift swaps)
+export interface IApprovable {
+  approvalChain: UserRole[]; // Approver role per level, captured when the request is submitted; empty for a single approval by any approver
+  approvalLevel: number; // Levels approved so far
+  approvalHistory: IApprovalHistoryEntry[];
+}
+
+export const ApprovalHistoryEntrySchema = new Schema<IApprovalHistoryEntry>({
+  action: { type: String, enum: Object.values(ApprovalAction), required: true },
+  level: { type: Number },
+  by: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  role: { type: String, required: true },
+  at: { type: Date, default: Date.now },
+  remarks: { type: String, trim: true, maxlength: 500 }
+}, { _id: false });
+
+export const approvableFields = {
+  approvalChain: [{ type: String, enum: APPROVER_ROLES }],
+  approvalLevel: { type: Number, default: 0 },
+  approvalHistory: { type: [ApprovalHistoryEntrySchema], default: [] }
+};
+
+// Approval chain of one request type in a facility
+export interface IApprovalWorkflow extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  requestType: ApprovalRequestType;
+  levels: UserRole[]; // e.g. [supervisor, facility_manager]
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApprovalWorkflowSchema = new Schema<IApprovalWorkflow>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  requestType: { type: String, enum: Object.values(ApprovalRequestType), required: true },
+  levels: {
+    type: [{ type: String, enum: APPROVER_ROLES }],
+    validate: {
+      validator: (levels: string[]) => levels.length > 0 && levels.length <= 5,
+      message: 'An approval chain has between 1 and 5 levels'
+    }
+  },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true,
+  collection: 'approvalworkflows'
+});
+
+ApprovalWorkflowSchema.index({ facilityId: 1, requestType: 1 }, { unique: true });
+
+// Record every change in the audit log
+ApprovalWorkflowSchema.plugin(auditTrail);
+
+export const ApprovalWorkflow = mongoose.model<IApprovalWorkflow>('ApprovalWorkflow', ApprovalWorkflowSchema);
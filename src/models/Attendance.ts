@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AttendanceVerification } from './AttendanceSettings';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum AttendanceStatus {
+  PRESENT = 'present',
+  ABSENT = 'absent', // Marked automatically when a shift ends without a check-in
+  ON_LEAVE = 'on_leave'
+}
+
+// Check-in or check-out of an employee
+export interface IAttendancePunch {
+  time: Date;
+  method: AttendanceVerification;
+  location?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number; // Reported accuracy of the device location in meters
+  };
+  distanceMeters?: number; // Distance from the centre of the facility's geofence
+  device?: string;
+}
+
+export interface IAttendance extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  employeeId: mongoose.Types.ObjectId;
+  date: Date; // Day the shift starts on (facility's local date, stored as UTC midnight)
+  shiftScheduleId?: mongoose.Types.ObjectId;
+  rosterId?: mongoose.Types.ObjectId;
+  scheduledStart?: Date;
+  scheduledEnd?: Date;
+  status: AttendanceStatus;
+  checkIn?: IAttendancePunch;
+  checkOut?: IAttendancePunch;
+  lateMinutes: number; // Minutes after the shift start (beyond the grace period) the employee checked in
+  earlyExitMinutes: number; // Minutes before the shift end (beyond the grace period) the employee checked out
+  workedMinutes: number;
+  autoMarked: boolean; // Status set by the end-of-shift job rather than by a check-in
+  leavePlannerId?: mongoose.Types.ObjectId;
+  remarks?: string;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AttendancePunchSchema = new Schema<IAttendancePunch>({
+  time: { type: Date, required: true },
+  method: { type: String, enum: Object.values(AttendanceVerification), required: true },
+  location: {
+    latitude: { type: Number, min: -90, max: 90 },
+    longitude: { type: Number, min: -180, max: 180 },
+    accuracy: { type: Number, min: 0 }
+  },
+  distanceMeters: { type: Number },
+  device: { type: String, trim: true, maxlength: 200 }
+}, { _id: false });
+
+const AttendanceSchema = new Schema<IAttendance>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  employeeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  date: { type: Date, required: true },
+  shiftScheduleId: { type: Schema.Types.ObjectId, ref: 'ShiftSchedule', default: null },
+  rosterId: { type: Schema.Types.ObjectId, ref: 'Roster' },
+  scheduledStart: { type: Date },
+  scheduledEnd: { type: Date },
+  status: { type: String, enum: Object.values(AttendanceStatus), default: AttendanceStatus.PRESENT },
+  checkIn: { type: AttendancePunchSchema },
+  checkOut: { type: AttendancePunchSchema },
+  lateMinutes: { type: Number, default: 0 },
+  earlyExitMinutes: { type: Number, default: 0 },
+  workedMinutes: { type: Number, default: 0 },
+  autoMarked: { type: Boolean, default: false },
+  leavePlannerId: { type: Schema.Types.ObjectId, ref: 'LeavePlanner' },
+  remarks: { type: String, trim: true, maxlength: 500 },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true,
+  collection: 'attendance'
+});
+
+// One record per employee and shift
+AttendanceSchema.index({ employeeId: 1, date: 1, shiftScheduleId: 1 }, { unique: true });
+AttendanceSchema.index({ facilityId: 1, date: 1 });
+
+// Record every change in the audit log
+AttendanceSchema.plugin(auditTrail);
+
+export const Attendance = mongoose.model<IAttendance>('Attendance', AttendanceSchema);
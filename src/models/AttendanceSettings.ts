@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// Ways an employee can prove presence at the facility when checking in or out
+export enum AttendanceVerification {
+  QR = 'qr', // Scanning the facility's attendance QR code
+  GEOFENCE = 'geofence', // Device location within the facility's geofence
+  MANUAL = 'manual', // Recorded or corrected by a manager
+  BIOMETRIC = 'biometric' // Imported from the punch log of a biometric terminal
+}
+
+export interface IGeofence {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+// Attendance configuration of a facility
+export interface IAttendanceSettings extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  timezone: string; // IANA time zone the shift times of the facility are in, e.g. Asia/Kolkata
+  verificationMethods: AttendanceVerification[]; // Methods accepted at check-in and check-out
+  geofence?: IGeofence;
+  lateGraceMinutes: number;
+  earlyExitGraceMinutes: number;
+  qrTokenId?: string; // Id of the current QR code; regenerating it invalidates printed codes
+  qrIssuedAt?: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GeofenceSchema = new Schema<IGeofence>({
+  latitude: { type: Number, required: true, min: -90, max: 90 },
+  longitude: { type: Number, required: true, min: -180, max: 180 },
+  radiusMeters: { type: Number, required: true, min: 10, max: 10000 }
+}, { _id: false });
+
+const AttendanceSettingsSchema = new Schema<IAttendanceSettings>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true, unique: true },
+  timezone: { type: String, default: 'UTC' },
+  verificationMethods: {
+    type: [{ type: String, enum: [AttendanceVerification.QR, AttendanceVerification.GEOFENCE] }],
+    default: [AttendanceVerification.QR, AttendanceVerification.GEOFENCE]
+  },
+  geofence: { type: GeofenceSchema },
+  lateGraceMinutes: { type: Number, default: 10, min: 0, max: 240 },
+  earlyExitGraceMinutes: { type: Number, default: 10, min: 0, max: 240 },
+  qrTokenId: { type: String, select: false },
+  qrIssuedAt: { type: Date },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true,
+  collection: 'attendancesettings'
+});
+
+// Record every change in the audit log
+AttendanceSettingsSchema.plugin(auditTrail);
+
+export const AttendanceSettings = mongoose.model<IAttendanceSettings>('AttendanceSettings', AttendanceSettingsSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore'
+}
+
+export interface IAuditChange {
+  field: string; // Dot path of the changed field, e.g. shifts or profile.department
+  before?: any;
+  after?: any;
+}
+
+export interface IAuditLog extends Document {
+  action: AuditAction;
+  entityType: string; // Model name, e.g. Roster
+  entityId: mongoose.Types.ObjectId;
+  facilityId?: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  userEmail?: string;
+  userRole?: string;
+  apiKeyId?: mongoose.Types.ObjectId; // API key the change was made with, if any
+  ip?: string;
+  userAgent?: string;
+  requestMethod?: string;
+  requestPath?: string;
+  changes: IAuditChange[];
+  createdAt: Date;
+}
+
+const AuditChangeSchema = new Schema<IAuditChange>({
+  field: { type: String, required: true },
+  before: { type: Schema.Types.Mixed },
+  after: { type: Schema.Types.Mixed }
+}, { _id: false });
+
+const AuditLogSchema = new Schema<IAuditLog>({
+  action: { type: String, enum: Object.values(AuditAction), required: true },
+  entityType: { type: String, required: true },
+  entityId: { type: Schema.Types.ObjectId, required: true },
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails' },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  userEmail: { type: String },
+  userRole: { type: String },
+  apiKeyId: { type: Schema.Types.ObjectId, ref: 'ApiKey' },
+  ip: { type: String },
+  userAgent: { type: String },
+  requestMethod: { type: String },
+  requestPath: { type: String },
+  changes: { type: [AuditChangeSchema], default: [] }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'auditlogs'
+});
+
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ userId: 1, createdAt: -1 });
+AuditLogSchema.index({ facilityId: 1, createdAt: -1 });
+AuditLogSchema.index({ createdAt: -1 });
+
+// Audit entries are append-only: existing entries can never be modified or removed
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error('Audit log entries are append-only'));
+};
+
+AuditLogSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return rejectMutation(next);
+  }
+  next();
+});
+AuditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  { document: false, query: true },
+  rejectMutation
+);
+AuditLogSchema.pre('deleteOne', { document: true, query: false }, rejectMutation);
+
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ChecklistDepartment } from './DailyChecklist';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly', // On the listed weekdays
+  MONTHLY = 'monthly', // On the listed days of the month
+  CUSTOM = 'custom' // Every intervalDays days from the start date
+}
+
+export interface IChecklistTemplateItem {
+  itemName: string;
+  description?: string;
+  photoRequired?: boolean; // Photo evidence is required when the facility enforces it
+}
+
+export interface IRecurrence {
+  frequency: RecurrenceFrequency;
+  weekdays: string[]; // ["monday", ...]
+  monthDays: number[]; // 1-31; days a month does not have fall on its last day
+  intervalDays?: number;
+}
+
+/**
+ * Reusable checklist of a hygiene section and department, generated as a daily checklist for each of its floor
+ * locations on the dates its recurrence falls on, between startDate and endDate.
+ */
+export interface IChecklistTemplate extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  hygieneSectionId: mongoose.Types.ObjectId;
+  assignedDepartment: ChecklistDepartment;
+  name: string;
+  description?: string;
+  checklistItems: IChecklistTemplateItem[];
+  floorLocationIds: mongoose.Types.ObjectId[];
+  recurrence: IRecurrence;
+  startDate: Date;
+  endDate?: Date | null; // Open-ended when null
+  generatedUntil?: Date | null; // Last date the scheduled generation ran for
+  hygieneChecklistId?: mongoose.Types.ObjectId; // Uploaded checklist the template was created from
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChecklistTemplateSchema = new Schema<IChecklistTemplate>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  hygieneSectionId: { type: Schema.Types.ObjectId, ref: 'HygieneSection', required: true },
+  assignedDepartment: { type: String, enum: Object.values(ChecklistDepartment), required: true },
+  name: { type: String, required: true, trim: true },
+  description: { type: String, trim: true },
+  checklistItems: {
+    type: [{
+      _id: false,
+      itemName: { type: String, required: true, trim: true },
+      description: { type: String, trim: true },
+      photoRequired: { type: Boolean, default: false }
+    }],
+    validate: {
+      validator: (items: IChecklistTemplateItem[]) => items.length > 0,
+      message: 'A checklist template needs at least one item'
+    }
+  },
+  floorLocationIds: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'FloorLocation' }],
+    validate: {
+      validator: (floorLocationIds: mongoose.Types.ObjectId[]) => floorLocationIds.length > 0,
+      message: 'A checklist template needs at least one floor location'
+    }
+  },
+  recurrence: {
+    frequency: { type: String, enum: Object.values(RecurrenceFrequency), required: true },
+    weekdays: [{ type: String }],
+    monthDays: [{ type: Number, min: 1, max: 31 }],
+    intervalDays: { type: Number, min: 1 }
+  },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, default: null },
+  generatedUntil: { type: Date, default: null },
+  hygieneChecklistId: { type: Schema.Types.ObjectId, ref: 'HygieneChecklist' },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'checklisttemplates'
+});
+
+ChecklistTemplateSchema.index({ facilityId: 1, isDeleted: 1 });
+ChecklistTemplateSchema.index({ hygieneSectionId: 1 });
+ChecklistTemplateSchema.index({ floorLocationIds: 1 });
+ChecklistTemplateSchema.index({ isActive: 1, generatedUntil: 1 });
+ChecklistTemplateSchema.index({ hygieneChecklistId: 1 });
+
+// Record every change in the audit log
+ChecklistTemplateSchema.plugin(auditTrail);
+
+export const ChecklistTemplate = mongoose.model<IChecklistTemplate>('ChecklistTemplate', ChecklistTemplateSchema);
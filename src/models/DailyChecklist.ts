@@ -1,4 +1,33 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum ChecklistDepartment {
+  HOUSEKEEPING = 'HOUSEKEEPING',
+  GARDENING = 'GARDENING',
+  PEST_CONTROL = 'PEST_CONTROL'
+}
+
+export enum PhotoStage {
+  BEFORE = 'BEFORE',
+  AFTER = 'AFTER'
+}
+
+// Photo taken as evidence of a checklist item's work; the files are kept in the file storage
+export interface IChecklistPhoto {
+  _id: mongoose.Types.ObjectId;
+  stage: PhotoStage;
+  storageKey: string;
+  thumbnailKey: string;
+  contentType: string;
+  fileName: string; // As uploaded
+  fileSize: number;
+  width?: number;
+  height?: number;
+  takenAt?: Date; // From the photo's EXIF data
+  location?: { latitude: number; longitude: number }; // From the photo's EXIF data
+  uploadedBy: mongoose.Types.ObjectId;
+  uploadedAt: Date;
+}
 
 export interface IDailyChecklist extends Document {
   facilityId: mongoose.Types.ObjectId;
@@ -12,11 +41,14 @@ export interface IDailyChecklist extends Document {
     completedAt?: Date;
     completedBy?: mongoose.Types.ObjectId;
     notes?: string;
+    photoRequired: boolean; // Photo evidence is required when the facility enforces it
+    photos: IChecklistPhoto[];
   }>;
   overallStatus: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
   startedAt?: Date;
   completedAt?: Date;
   assignedDepartment: string; // 'HOUSEKEEPING' | 'GARDENING' | 'PEST_CONTROL'
+  checklistTemplateId?: mongoose.Types.ObjectId; // Template the checklist was generated from
   completedBy?: mongoose.Types.ObjectId; // Employee who completed the checklist
   verifiedBy?: mongoose.Types.ObjectId; // Supervisor who verified the work
   verifiedAt?: Date;
@@ -39,7 +71,25 @@ const DailyChecklistSchema = new Schema<IDailyChecklist>({
     isCompleted: { type: Boolean, default: false },
     completedAt: { type: Date },
     completedBy: { type: Schema.Types.ObjectId, ref: 'User' },
-    notes: { type: String }
+    notes: { type: String },
+    photoRequired: { type: Boolean, default: false },
+    photos: [{
+      stage: { type: String, enum: Object.values(PhotoStage), required: true },
+      storageKey: { type: String, required: true },
+      thumbnailKey: { type: String, required: true },
+      contentType: { type: String, required: true },
+      fileName: { type: String, required: true },
+      fileSize: { type: Number, required: true },
+      width: { type: Number },
+      height: { type: Number },
+      takenAt: { type: Date },
+      location: {
+        latitude: { type: Number, min: -90, max: 90 },
+        longitude: { type: Number, min: -180, max: 180 }
+      },
+      uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+      uploadedAt: { type: Date, default: Date.now }
+    }]
   }],
   overallStatus: { 
     type: String, 
@@ -51,8 +101,9 @@ const DailyChecklistSchema = new Schema<IDailyChecklist>({
   assignedDepartment: { 
     type: String, 
     required: true,
-    enum: ['HOUSEKEEPING', 'GARDENING', 'PEST_CONTROL']
+    enum: Object.values(ChecklistDepartment)
   },
+  checklistTemplateId: { type: Schema.Types.ObjectId, ref: 'ChecklistTemplate' },
   completedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   verifiedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   verifiedAt: { type: Date },
@@ -98,6 +149,7 @@ DailyChecklistSchema.index({ checklistDate: 1 });
 DailyChecklistSchema.index({ overallStatus: 1 });
 DailyChecklistSchema.index({ assignedDepartment: 1 });
 DailyChecklistSchema.index({ isActive: 1 });
+DailyChecklistSchema.index({ checklistTemplateId: 1, checklistDate: 1 });
 
 // Compound index for efficient querying
 DailyChecklistSchema.index({ 
@@ -107,4 +159,7 @@ DailyChecklistSchema.index({
   hygieneSectionId: 1 
 });
 
+// Record every change in the audit log
+DailyChecklistSchema.plugin(auditTrail);
+
 export const DailyChecklist = mongoose.model<IDailyChecklist>('DailyChecklist', DailyChecklistSchema);
\ No newline at end of file
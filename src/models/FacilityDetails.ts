@@ -1,4 +1,17 @@
 import { Document, model, Schema, Types } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// Photos required on checklist items flagged in their template as needing photo evidence
+export enum PhotoEvidenceRequirement {
+  OPTIONAL = 'OPTIONAL', // Not enforced
+  AFTER = 'AFTER',
+  BEFORE_AND_AFTER = 'BEFORE_AND_AFTER'
+}
+
+export interface IFacilitySettings {
+  checklistPhotoEvidence?: PhotoEvidenceRequirement; // OPTIONAL when not set
+  [key: string]: any;
+}
 
 export interface IFacilityDetails extends Document {
   _id: Types.ObjectId;
@@ -12,7 +25,7 @@ export interface IFacilityDetails extends Document {
   email?: string;
   facilityType: string;
   additionalInfo?: any;
-  settings?: any;
+  settings?: IFacilitySettings;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -114,4 +127,7 @@ facilityDetailsSchema.index({
   clientName: 'text'
 });
 
+// Record every change in the audit log
+facilityDetailsSchema.plugin(auditTrail, { facilityField: '_id' });
+
 export const FacilityDetails = model<IFacilityDetails>('FacilityDetails', facilityDetailsSchema, 'facilityDetails');
@@ -1,10 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 export interface IFloorLocation extends Document {
   facilityId: mongoose.Types.ObjectId;
   floorName: string; // 'Floor 1', 'Floor 2', 'Ground Floor', etc.
   floorNumber: number; // 1, 2, 3, etc.
-  qrCode: string; // Unique QR code identifier
+  qrCode: string; // Unique identifier printed on the label; scans carry a signed token instead
+  qrTokenId?: string; // Id of the current signed QR code; rotating it invalidates printed codes
+  qrIssuedAt?: Date;
   description?: string;
   isActive: boolean;
   createdBy: mongoose.Types.ObjectId;
@@ -17,6 +20,8 @@ const FloorLocationSchema = new Schema<IFloorLocation>({
   floorName: { type: String, required: true },
   floorNumber: { type: Number, required: true },
   qrCode: { type: String, required: true, unique: true },
+  qrTokenId: { type: String, select: false },
+  qrIssuedAt: { type: Date },
   description: { type: String },
   isActive: { type: Boolean, default: true },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
@@ -24,7 +29,13 @@ const FloorLocationSchema = new Schema<IFloorLocation>({
   isDeleted: { type: Boolean, default: false, index: true }
 }, {
   timestamps: true,
-  collection: 'floorlocations'
+  collection: 'floorlocations',
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.qrTokenId;
+      return ret;
+    }
+  }
 });
 
 // Indexes for better query performance
@@ -33,4 +44,7 @@ FloorLocationSchema.index({ qrCode: 1 });
 FloorLocationSchema.index({ floorNumber: 1 });
 FloorLocationSchema.index({ isActive: 1 });
 
+// Record every change in the audit log
+FloorLocationSchema.plugin(auditTrail);
+
 export const FloorLocation = mongoose.model<IFloorLocation>('FloorLocation', FloorLocationSchema);
\ No newline at end of file
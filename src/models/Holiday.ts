@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum HolidayType {
+  PUBLIC = 'public', // Holiday for everyone in the facility
+  REGIONAL = 'regional', // Holiday for employees based in one of the listed regions
+  OPTIONAL = 'optional' // Listed in the calendar, but a working day unless the employee takes leave
+}
+
+// Entry of a facility's holiday calendar
+export interface IHoliday extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  date: Date; // For recurring holidays, the first occurrence
+  recurring: boolean; // Repeats every year on the same month and day
+  type: HolidayType;
+  regions: string[]; // States or cities of the employees a regional holiday applies to
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HolidaySchema = new Schema<IHoliday>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  description: { type: String, trim: true, maxlength: 500 },
+  date: { type: Date, required: true },
+  recurring: { type: Boolean, default: false },
+  type: { type: String, enum: Object.values(HolidayType), default: HolidayType.PUBLIC },
+  regions: [{ type: String, trim: true }],
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'holidays'
+});
+
+HolidaySchema.index({ facilityId: 1, date: 1 });
+
+// A holiday is only listed once per date in a facility
+HolidaySchema.index(
+  { facilityId: 1, date: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 }, partialFilterExpression: { isDeleted: false } }
+);
+
+// Record every change in the audit log
+HolidaySchema.plugin(auditTrail);
+
+export const Holiday = mongoose.model<IHoliday>('Holiday', HolidaySchema);
@@ -1,4 +1,27 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// Item read from the uploaded file
+export interface IHygieneChecklistItem {
+  row: number; // Row of the sheet it was read from
+  itemName: string;
+  description?: string;
+  frequency?: string; // 'daily', 'weekly', 'monthly'; the checklist type when absent
+  department?: string; // 'HOUSEKEEPING' | 'GARDENING' | 'PEST_CONTROL'
+  area?: string; // Floor or area as written in the file
+}
+
+// Uploaded file of a version, with what changed from the previous version
+export interface IHygieneChecklistVersion {
+  version: number;
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  uploadDate: Date;
+  uploadedBy: mongoose.Types.ObjectId;
+  itemCount: number;
+  changes?: { added: string[]; removed: string[]; changed: string[] }; // Item names
+}
 
 export interface IHygieneChecklist extends Document {
   facilityId: mongoose.Types.ObjectId;
@@ -9,6 +32,9 @@ export interface IHygieneChecklist extends Document {
   fileSize: number; // File size in bytes
   uploadDate: Date;
   uploadedBy: mongoose.Types.ObjectId;
+  items: IHygieneChecklistItem[]; // Items of the current version
+  version: number;
+  versions: IHygieneChecklistVersion[];
   isActive: boolean;
   createdBy: mongoose.Types.ObjectId;
   updatedBy: mongoose.Types.ObjectId;
@@ -24,6 +50,31 @@ const HygieneChecklistSchema = new Schema<IHygieneChecklist>({
   fileSize: { type: Number, required: true },
   uploadDate: { type: Date, default: Date.now },
   uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  items: [{
+    _id: false,
+    row: { type: Number, required: true },
+    itemName: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    frequency: { type: String, enum: ['daily', 'weekly', 'monthly'] },
+    department: { type: String, enum: ['HOUSEKEEPING', 'GARDENING', 'PEST_CONTROL'] },
+    area: { type: String, trim: true }
+  }],
+  version: { type: Number, default: 1 },
+  versions: [{
+    _id: false,
+    version: { type: Number, required: true },
+    fileName: { type: String, required: true },
+    filePath: { type: String, required: true },
+    fileSize: { type: Number, required: true },
+    uploadDate: { type: Date, default: Date.now },
+    uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    itemCount: { type: Number, default: 0 },
+    changes: {
+      added: [{ type: String }],
+      removed: [{ type: String }],
+      changed: [{ type: String }]
+    }
+  }],
   isActive: { type: Boolean, default: true },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
@@ -40,4 +91,7 @@ HygieneChecklistSchema.index({ checklistType: 1 });
 HygieneChecklistSchema.index({ uploadDate: -1 });
 HygieneChecklistSchema.index({ isActive: 1 });
 
+// Record every change in the audit log
+HygieneChecklistSchema.plugin(auditTrail);
+
 export const HygieneChecklist = mongoose.model<IHygieneChecklist>('HygieneChecklist', HygieneChecklistSchema);
\ No newline at end of file
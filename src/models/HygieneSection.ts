@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 export interface IHygieneSection extends Document {
   facilityId: mongoose.Types.ObjectId;
@@ -28,4 +29,7 @@ HygieneSectionSchema.index({ facilityId: 1, isDeleted: 1 });
 HygieneSectionSchema.index({ sectionName: 1 });
 HygieneSectionSchema.index({ isActive: 1 });
 
+// Record every change in the audit log
+HygieneSectionSchema.plugin(auditTrail);
+
 export const HygieneSection = mongoose.model<IHygieneSection>('HygieneSection', HygieneSectionSchema);
\ No newline at end of file
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 // Enum for IoT service categories
 export enum IoTServiceCategory {
@@ -499,4 +500,7 @@ export interface IIoTServiceManagementModel extends mongoose.Model<IIoTServiceMa
   ): Promise<IIoTServiceManagement>;
 }
 
+// Record every change in the audit log
+IoTServiceManagementSchema.plugin(auditTrail);
+
 export const IoTServiceManagement = mongoose.model<IIoTServiceManagement, IIoTServiceManagementModel>('IoTServiceManagement', IoTServiceManagementSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// What happens when a shift, roster or swap write breaks a rule
+export enum LabourRuleEnforcement {
+  BLOCK = 'block', // The write is refused
+  WARN = 'warn' // The write goes through and the violations are returned with it
+}
+
+/**
+ * Working-time rules of a facility. Hours are worked hours (shift length minus break) counted on the date a
+ * shift starts; weeks run Monday to Sunday. A limit set to null is not checked. The overtime thresholds and
+ * multipliers also apply to timesheets.
+ */
+export interface ILabourRules extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  maxDailyHours: number | null;
+  maxWeeklyHours: number | null;
+  minRestHours: number | null; // Between the end of a shift and the start of the next
+  maxConsecutiveNights: number | null;
+  minWeeklyOffDays: number | null; // Days without a shift every week
+  overtimeDailyHours: number | null; // Hours beyond which a day is overtime; reported as a warning
+  overtimeWeeklyHours: number | null; // Hours beyond which a week is overtime; reported as a warning
+  overtimeMultiplier: number; // Pay rate of overtime, relative to regular hours
+  nightOvertimeMultiplier: number; // Pay rate of overtime worked in a night shift
+  holidayMultiplier: number; // Pay rate of every hour worked on a holiday, which all count as overtime
+  enforcement: LabourRuleEnforcement;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LabourRulesSchema = new Schema<ILabourRules>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true, unique: true },
+  maxDailyHours: { type: Number, default: 12, min: 1, max: 24 },
+  maxWeeklyHours: { type: Number, default: 60, min: 1, max: 168 },
+  minRestHours: { type: Number, default: 8, min: 0, max: 48 },
+  maxConsecutiveNights: { type: Number, default: 4, min: 1, max: 31 },
+  minWeeklyOffDays: { type: Number, default: 1, min: 0, max: 7 },
+  overtimeDailyHours: { type: Number, default: 8, min: 1, max: 24 },
+  overtimeWeeklyHours: { type: Number, default: 48, min: 1, max: 168 },
+  overtimeMultiplier: { type: Number, default: 1.5, min: 1, max: 5 },
+  nightOvertimeMultiplier: { type: Number, default: 1.75, min: 1, max: 5 },
+  holidayMultiplier: { type: Number, default: 2, min: 1, max: 5 },
+  enforcement: { type: String, enum: Object.values(LabourRuleEnforcement), default: LabourRuleEnforcement.BLOCK },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true,
+  collection: 'labourrules'
+});
+
+// Record every change in the audit log
+LabourRulesSchema.plugin(auditTrail);
+
+export const LabourRules = mongoose.model<ILabourRules>('LabourRules', LabourRulesSchema);
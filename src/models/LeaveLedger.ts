@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LEAVE_TYPES, LeaveType } from './LeavePlanner';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum LeaveLedgerEntryType {
+  ACCRUAL = 'accrual',
+  CARRY_FORWARD = 'carry_forward',
+  LAPSE = 'lapse', // Unused days above the carry-forward limit at year end
+  DEBIT = 'debit', // Approved leave
+  CREDIT = 'credit', // Leave cancelled, rejected or shortened after approval
+  ENCASHMENT = 'encashment',
+  ADJUSTMENT = 'adjustment'
+}
+
+/**
+ * Append-only movement of an employee's leave balance for one leave type and calendar year.
+ * The balance is the sum of `days` (credits positive, debits negative); entries are never edited.
+ */
+export interface ILeaveLedgerEntry extends Document {
+  employeeId: mongoose.Types.ObjectId;
+  facilityId: mongoose.Types.ObjectId;
+  leaveType: LeaveType;
+  year: number;
+  entryType: LeaveLedgerEntryType;
+  days: number;
+  period?: string; // Accrual month/year ('2026-03', '2026'); makes generated entries idempotent
+  leavePlannerId?: mongoose.Types.ObjectId;
+  policyId?: mongoose.Types.ObjectId;
+  remarks?: string;
+  createdBy?: mongoose.Types.ObjectId; // Unset for entries generated from the policy
+  createdAt: Date;
+}
+
+const LeaveLedgerEntrySchema = new Schema<ILeaveLedgerEntry>({
+  employeeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  leaveType: { type: String, enum: LEAVE_TYPES, required: true },
+  year: { type: Number, required: true },
+  entryType: { type: String, enum: Object.values(LeaveLedgerEntryType), required: true },
+  days: { type: Number, required: true },
+  period: { type: String },
+  leavePlannerId: { type: Schema.Types.ObjectId, ref: 'LeavePlanner' },
+  policyId: { type: Schema.Types.ObjectId, ref: 'LeavePolicy' },
+  remarks: { type: String, trim: true, maxlength: 500 },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'leaveledger'
+});
+
+LeaveLedgerEntrySchema.index({ employeeId: 1, year: 1, leaveType: 1 });
+LeaveLedgerEntrySchema.index({ leavePlannerId: 1 });
+
+// Generated entries (accruals, carry-forward, lapse) are posted at most once per period
+LeaveLedgerEntrySchema.index(
+  { employeeId: 1, leaveType: 1, year: 1, entryType: 1, period: 1 },
+  { unique: true, partialFilterExpression: { period: { $type: 'string' } } }
+);
+
+// Record every change in the audit log
+LeaveLedgerEntrySchema.plugin(auditTrail);
+
+export const LeaveLedgerEntry = mongoose.model<ILeaveLedgerEntry>('LeaveLedgerEntry', LeaveLedgerEntrySchema);
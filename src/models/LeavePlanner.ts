@@ -1,14 +1,21 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IApprovable, approvableFields } from './ApprovalWorkflow';
+import { auditTrail } from './plugins/auditTrail';
 
-export interface ILeavePlanner extends Document {
+export const LEAVE_TYPES = ['sick', 'annual', 'emergency', 'maternity', 'paternity', 'personal', 'casual', 'bereavement'] as const;
+export type LeaveType = typeof LEAVE_TYPES[number];
+
+export interface ILeavePlanner extends Document, IApprovable {
   facilityId: mongoose.Types.ObjectId;
   employeeId: mongoose.Types.ObjectId;
   leaveType: string; // 'sick', 'annual', 'emergency', 'maternity', 'personal', etc.
   startDate: Date;
   endDate: Date;
-  totalDays: number;
+  halfDay?: 'first_half' | 'second_half' | null; // Single-day leave covering half of the day
+  totalDays: number; // Working days, excluding week-offs and holidays
+  lossOfPayDays: number; // Part of totalDays not covered by the leave balance (unpaid)
   reason?: string;
-  status: string; // 'pending', 'approved', 'rejected'
+  status: string; // 'pending', 'approved', 'rejected', 'cancelled', 'withdrawn'
   appliedDate: Date;
   approvedBy?: mongoose.Types.ObjectId;
   approvedDate?: Date;
@@ -23,22 +30,25 @@ const LeavePlannerSchema = new Schema<ILeavePlanner>({
   employeeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   leaveType: { 
     type: String, 
-    enum: ['sick', 'annual', 'emergency', 'maternity', 'paternity', 'personal', 'casual', 'bereavement'],
+    enum: LEAVE_TYPES,
     required: true 
   },
   startDate: { type: Date, required: true },
   endDate: { type: Date, required: true },
+  halfDay: { type: String, enum: ['first_half', 'second_half', null], default: null },
   totalDays: { type: Number, required: true },
+  lossOfPayDays: { type: Number, default: 0, min: 0 },
   reason: { type: String },
   status: { 
     type: String, 
-    enum: ['pending', 'approved', 'rejected'], 
+    enum: ['pending', 'approved', 'rejected', 'cancelled', 'withdrawn'], 
     default: 'pending' 
   },
   appliedDate: { type: Date, default: Date.now },
   approvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   approvedDate: { type: Date },
   remarks: { type: String },
+  ...approvableFields,
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   isDeleted: { type: Boolean, default: false, index: true }
@@ -55,4 +65,7 @@ LeavePlannerSchema.index({ status: 1 });
 LeavePlannerSchema.index({ leaveType: 1 });
 LeavePlannerSchema.index({ appliedDate: -1 });
 
+// Record every change in the audit log
+LeavePlannerSchema.plugin(auditTrail);
+
 export const LeavePlanner = mongoose.model<ILeavePlanner>('LeavePlanner', LeavePlannerSchema);
\ No newline at end of file
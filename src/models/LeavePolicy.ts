@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LEAVE_TYPES, LeaveType } from './LeavePlanner';
+import { EmployeeType } from './User';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum LeaveAccrualFrequency {
+  YEARLY = 'yearly', // Full entitlement credited on 1 January
+  MONTHLY = 'monthly' // One twelfth credited at the start of every month
+}
+
+// What happens to applications exceeding the available balance
+export enum LeaveExceedAction {
+  REJECT = 'reject',
+  LOSS_OF_PAY = 'loss_of_pay' // The uncovered days are accepted as unpaid leave
+}
+
+// Entitlement of one leave type for one employee type in a facility
+export interface ILeavePolicy extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  employeeType: EmployeeType;
+  leaveType: LeaveType;
+  annualEntitlement: number; // Days per calendar year
+  accrualFrequency: LeaveAccrualFrequency;
+  proRateFromHireDate: boolean; // Only credit the months from profile.hireDate in the year of joining
+  carryForwardLimit: number; // Unused days carried into the next year; the rest lapses
+  encashable: boolean;
+  maxEncashableDays: number; // Per calendar year
+  exceedAction: LeaveExceedAction;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LeavePolicySchema = new Schema<ILeavePolicy>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  employeeType: { type: String, enum: Object.values(EmployeeType), required: true },
+  leaveType: { type: String, enum: LEAVE_TYPES, required: true },
+  annualEntitlement: { type: Number, required: true, min: 0, max: 366 },
+  accrualFrequency: {
+    type: String,
+    enum: Object.values(LeaveAccrualFrequency),
+    default: LeaveAccrualFrequency.YEARLY
+  },
+  proRateFromHireDate: { type: Boolean, default: true },
+  carryForwardLimit: { type: Number, default: 0, min: 0 },
+  encashable: { type: Boolean, default: false },
+  maxEncashableDays: { type: Number, default: 0, min: 0 },
+  exceedAction: {
+    type: String,
+    enum: Object.values(LeaveExceedAction),
+    default: LeaveExceedAction.REJECT
+  },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'leavepolicies'
+});
+
+// One policy per facility, employee type and leave type
+LeavePolicySchema.index(
+  { facilityId: 1, employeeType: 1, leaveType: 1 },
+  { unique: true, partialFilterExpression: { isDeleted: false } }
+);
+
+// Record every change in the audit log
+LeavePolicySchema.plugin(auditTrail);
+
+export const LeavePolicy = mongoose.model<ILeavePolicy>('LeavePolicy', LeavePolicySchema);
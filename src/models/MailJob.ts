@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A mail waiting to be delivered, or retried after a failed attempt. Jobs are removed once the mail is sent or
+ * dropped, so the collection only holds undelivered mails. Their bodies can contain one-time links (password reset,
+ * invitation) and are therefore not recorded in the audit log.
+ */
+export interface IMailJob extends Document {
+  message: {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+  };
+  attempts: number;
+  nextAttemptAt: Date; // Also pushed ahead while an attempt is in progress, so no other instance picks the job
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MailJobSchema = new Schema<IMailJob>({
+  message: {
+    type: new Schema({
+      to: { type: String, required: true },
+      subject: { type: String, required: true },
+      html: { type: String, required: true },
+      text: { type: String, required: true }
+    }, { _id: false }),
+    required: true
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, required: true, default: Date.now },
+  lastError: { type: String }
+}, {
+  timestamps: true
+});
+
+MailJobSchema.index({ nextAttemptAt: 1 });
+
+export const MailJob = mongoose.model<IMailJob>('MailJob', MailJobSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 export interface IPowerManagement extends Document {
   meterId: string;
@@ -70,4 +71,7 @@ PowerManagementSchema.index({ facilityId: 1 });
 PowerManagementSchema.index({ meterId: 1 });
 PowerManagementSchema.index({ status: 1 });
 
+// Record every change in the audit log
+PowerManagementSchema.plugin(auditTrail);
+
 export const PowerManagement = mongoose.model<IPowerManagement>('PowerManagement', PowerManagementSchema);
\ No newline at end of file
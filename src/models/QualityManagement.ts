@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 // STP (Sewage Treatment Plant) Interface
 export interface ISTP extends Document {
@@ -279,6 +280,12 @@ WTPSchema.index({ facilityId: 1 });
 SwimmingPoolSchema.index({ facilityId: 1 });
 ROPlantSchema.index({ facilityId: 1 });
 
+// Record every change in the audit log
+STPSchema.plugin(auditTrail);
+WTPSchema.plugin(auditTrail);
+SwimmingPoolSchema.plugin(auditTrail);
+ROPlantSchema.plugin(auditTrail);
+
 export const STP = mongoose.model<ISTP>('STP', STPSchema);
 export const WTP = mongoose.model<IWTP>('WTP', WTPSchema);
 export const SwimmingPool = mongoose.model<ISwimmingPool>('SwimmingPool', SwimmingPoolSchema);
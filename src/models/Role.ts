@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PERMISSION_FLAGS, PermissionFlag } from '../config/permissions';
+import { auditTrail } from './plugins/auditTrail';
+
+// Named permission template (e.g. "Security Supervisor") assigned to users on top of their base UserRole
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  facilityId?: mongoose.Types.ObjectId | null; // null for a global role usable in every facility
+  permissions: Partial<Record<PermissionFlag, boolean>>; // Flags granted by the template
+  customPermissions: string[];
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RolePermissionsSchema = new Schema(
+  PERMISSION_FLAGS.reduce((fields, flag) => ({ ...fields, [flag]: { type: Boolean, default: false } }), {}),
+  { _id: false }
+);
+
+const RoleSchema = new Schema<IRole>({
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  description: { type: String, trim: true, maxlength: 500 },
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', default: null },
+  permissions: { type: RolePermissionsSchema, default: () => ({}) },
+  customPermissions: [{ type: String, trim: true }],
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'roles'
+});
+
+// Role names are unique within a facility (and among global roles)
+RoleSchema.index(
+  { facilityId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 }, partialFilterExpression: { isDeleted: false } }
+);
+
+// Record every change in the audit log
+RoleSchema.plugin(auditTrail);
+
+export const Role = mongoose.model<IRole>('Role', RoleSchema);
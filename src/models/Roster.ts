@@ -1,4 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// Draft rosters are proposals under review; only published rosters decide who works
+export enum RosterStatus {
+  DRAFT = 'draft',
+  PUBLISHED = 'published'
+}
+
+// Staffing minimum a generated roster could not meet
+export interface IUnfilledSlot {
+  shiftName: string;
+  department?: string | null;
+  required: number;
+  assigned: number;
+}
 
 export interface IRoster extends Document {
   facilityId: mongoose.Types.ObjectId;
@@ -6,9 +21,14 @@ export interface IRoster extends Document {
   shifts: Array<{
     shiftScheduleId: mongoose.Types.ObjectId;
     employeeId: mongoose.Types.ObjectId;
-    status: string; // e.g. 'present', 'absent', 'leave', etc.
+    status: string; // e.g. 'scheduled', 'present', 'absent', 'leave'; kept in sync by check-ins and the end-of-shift absentee marking
     remarks?: string;
   }>;
+  status: RosterStatus;
+  generated: boolean; // Built by the roster generator rather than entry by entry
+  unfilledSlots: IUnfilledSlot[];
+  publishedBy?: mongoose.Types.ObjectId;
+  publishedAt?: Date;
   createdBy: mongoose.Types.ObjectId;
   updatedBy: mongoose.Types.ObjectId;
   isDeleted: boolean;
@@ -25,6 +45,19 @@ const RosterSchema = new Schema<IRoster>({
       remarks: { type: String }
     }
   ],
+  status: { type: String, enum: Object.values(RosterStatus), default: RosterStatus.PUBLISHED },
+  generated: { type: Boolean, default: false },
+  unfilledSlots: [
+    {
+      _id: false,
+      shiftName: { type: String, required: true },
+      department: { type: String, default: null },
+      required: { type: Number, required: true },
+      assigned: { type: Number, required: true }
+    }
+  ],
+  publishedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  publishedAt: { type: Date },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   isDeleted: { type: Boolean, default: false, index: true }
@@ -33,4 +66,9 @@ const RosterSchema = new Schema<IRoster>({
   collection: 'rosters'
 });
 
+RosterSchema.index({ facilityId: 1, date: 1, status: 1 });
+
+// Record every change in the audit log
+RosterSchema.plugin(auditTrail);
+
 export const Roster = mongoose.model<IRoster>('Roster', RosterSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// Rotation pattern followed by an employee or a team from a start date
+export interface IRotationAssignment extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  rotationPatternId: mongoose.Types.ObjectId;
+  employeeIds: mongoose.Types.ObjectId[]; // The employee, or every member of the team
+  teamName?: string;
+  startDate: Date;
+  endDate?: Date | null; // Open-ended when null
+  startOffset: number; // Day of the cycle the assignment starts on (0-based), to stagger teams on the same pattern
+  materializedUntil?: Date | null; // Last date shift schedules were created for
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RotationAssignmentSchema = new Schema<IRotationAssignment>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  rotationPatternId: { type: Schema.Types.ObjectId, ref: 'RotationPattern', required: true },
+  employeeIds: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    validate: {
+      validator: (employeeIds: mongoose.Types.ObjectId[]) => employeeIds.length > 0,
+      message: 'A rotation assignment needs at least one employee'
+    }
+  },
+  teamName: { type: String, trim: true },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, default: null },
+  startOffset: { type: Number, default: 0, min: 0 },
+  materializedUntil: { type: Date, default: null },
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'rotationassignments'
+});
+
+RotationAssignmentSchema.index({ facilityId: 1, isDeleted: 1 });
+RotationAssignmentSchema.index({ rotationPatternId: 1, isActive: 1 });
+RotationAssignmentSchema.index({ employeeIds: 1 });
+
+// Record every change in the audit log
+RotationAssignmentSchema.plugin(auditTrail);
+
+export const RotationAssignment = mongoose.model<IRotationAssignment>('RotationAssignment', RotationAssignmentSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// A run of consecutive days on one shift template, or off when shiftTemplateId is null
+export interface IRotationStep {
+  shiftTemplateId: mongoose.Types.ObjectId | null;
+  days: number;
+}
+
+/**
+ * Repeating sequence of shifts, e.g. 14 days morning then 14 days night, or 4 days on and 2 off.
+ * The cycle restarts after its last step.
+ */
+export interface IRotationPattern extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  steps: IRotationStep[];
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RotationPatternSchema = new Schema<IRotationPattern>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  name: { type: String, required: true, trim: true },
+  description: { type: String, trim: true },
+  steps: {
+    type: [{
+      _id: false,
+      shiftTemplateId: { type: Schema.Types.ObjectId, ref: 'ShiftTemplate', default: null },
+      days: { type: Number, required: true, min: 1 }
+    }],
+    validate: {
+      validator: (steps: IRotationStep[]) => steps.length > 0 && steps.some(step => step.shiftTemplateId),
+      message: 'A rotation pattern needs at least one step with a shift'
+    }
+  },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'rotationpatterns'
+});
+
+RotationPatternSchema.index({ facilityId: 1, isDeleted: 1 });
+RotationPatternSchema.index({ 'steps.shiftTemplateId': 1 });
+
+// Record every change in the audit log
+RotationPatternSchema.plugin(auditTrail);
+
+export const RotationPattern = mongoose.model<IRotationPattern>('RotationPattern', RotationPatternSchema);
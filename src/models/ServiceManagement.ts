@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 // Enum for service categories
 export enum ServiceCategory {
@@ -335,4 +336,7 @@ export interface IServiceManagementModel extends mongoose.Model<IServiceManageme
   ): Promise<IServiceManagement>;
 }
 
+// Record every change in the audit log
+ServiceManagementSchema.plugin(auditTrail);
+
 export const ServiceManagement = mongoose.model<IServiceManagement, IServiceManagementModel>('ServiceManagement', ServiceManagementSchema);
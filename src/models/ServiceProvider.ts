@@ -1,4 +1,5 @@
 import { Document, model, Model, Schema, Types } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 // Service Category enum (matching ServiceManagement categories)
 export enum ServiceCategory {
@@ -245,4 +246,7 @@ serviceProviderSchema.statics.getActiveProviders = function(facilityId: Types.Ob
   }).populate('createdBy', 'firstName lastName email');
 };
 
+// Record every change in the audit log
+serviceProviderSchema.plugin(auditTrail);
+
 export const ServiceProvider = model<IServiceProvider, IServiceProviderModel>('ServiceProvider', serviceProviderSchema, 'serviceProviders');
\ No newline at end of file
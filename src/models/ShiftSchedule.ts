@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 export interface IShiftSchedule extends Document {
   facilityId: mongoose.Types.ObjectId;
@@ -8,7 +9,10 @@ export interface IShiftSchedule extends Document {
   endTime: string;   // HH:MM
   workingDays: string[]; // ["monday", ...]
   breakDuration: number; // in minutes
-  rosterDate: Date;
+  rosterDate: Date; // First date the schedule applies to
+  effectiveUntil?: Date | null; // Last date it applies to; open-ended when null
+  shiftTemplateId?: mongoose.Types.ObjectId | null; // Template the schedule was materialized from
+  rotationAssignmentId?: mongoose.Types.ObjectId | null; // Rotation that materialized it (one schedule per date)
   createdBy: mongoose.Types.ObjectId;
   updatedBy: mongoose.Types.ObjectId;
   isDeleted: boolean;
@@ -23,6 +27,9 @@ const ShiftScheduleSchema = new Schema<IShiftSchedule>({
   workingDays: [{ type: String, required: true }],
   breakDuration: { type: Number, default: 60 },
   rosterDate: { type: Date, required: true },
+  effectiveUntil: { type: Date, default: null },
+  shiftTemplateId: { type: Schema.Types.ObjectId, ref: 'ShiftTemplate', default: null },
+  rotationAssignmentId: { type: Schema.Types.ObjectId, ref: 'RotationAssignment', default: null },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   isDeleted: { type: Boolean, default: false, index: true }
@@ -31,4 +38,10 @@ const ShiftScheduleSchema = new Schema<IShiftSchedule>({
   collection: 'shiftschedules'
 });
 
+ShiftScheduleSchema.index({ rotationAssignmentId: 1, employeeId: 1, rosterDate: 1 });
+ShiftScheduleSchema.index({ shiftTemplateId: 1, rosterDate: 1 });
+
+// Record every change in the audit log
+ShiftScheduleSchema.plugin(auditTrail);
+
 export const ShiftSchedule = mongoose.model<IShiftSchedule>('ShiftSchedule', ShiftScheduleSchema);
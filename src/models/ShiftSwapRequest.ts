@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IApprovable, approvableFields } from './ApprovalWorkflow';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum ShiftSwapType {
+  SWAP = 'swap', // The employees exchange their shifts
+  COVER = 'cover' // The counterpart works the requester's shift
+}
+
+export const SHIFT_SWAP_STATUSES = ['proposed', 'pending', 'approved', 'rejected', 'declined', 'withdrawn'] as const;
+
+// A roster entry taking part in a swap
+export interface ISwapShift {
+  rosterId: mongoose.Types.ObjectId;
+  rosterEntryId: mongoose.Types.ObjectId;
+  shiftScheduleId: mongoose.Types.ObjectId;
+  date: Date;
+  scheduledStart: Date;
+}
+
+/**
+ * Shift swap or cover proposed by an employee for one of their roster entries.
+ * The counterpart accepts or declines it, then it goes through the facility's approval chain.
+ */
+export interface IShiftSwapRequest extends Document, IApprovable {
+  facilityId: mongoose.Types.ObjectId;
+  type: ShiftSwapType;
+  employeeId: mongoose.Types.ObjectId; // Requester
+  shift: ISwapShift; // Requester's shift given away
+  counterpartId: mongoose.Types.ObjectId;
+  counterpartShift?: ISwapShift | null; // Counterpart's shift taken in exchange (swaps only)
+  reason?: string;
+  status: typeof SHIFT_SWAP_STATUSES[number]; // 'proposed' awaits the counterpart, 'pending' the approvers
+  counterpartRespondedAt?: Date;
+  declineReason?: string;
+  approvedBy?: mongoose.Types.ObjectId;
+  approvedDate?: Date;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SwapShiftSchema = new Schema<ISwapShift>({
+  rosterId: { type: Schema.Types.ObjectId, ref: 'Roster', required: true },
+  rosterEntryId: { type: Schema.Types.ObjectId, required: true },
+  shiftScheduleId: { type: Schema.Types.ObjectId, ref: 'ShiftSchedule', required: true },
+  date: { type: Date, required: true },
+  scheduledStart: { type: Date, required: true }
+}, { _id: false });
+
+const ShiftSwapRequestSchema = new Schema<IShiftSwapRequest>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  type: { type: String, enum: Object.values(ShiftSwapType), required: true },
+  employeeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  shift: { type: SwapShiftSchema, required: true },
+  counterpartId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  counterpartShift: { type: SwapShiftSchema, default: null },
+  reason: { type: String, trim: true, maxlength: 500 },
+  status: { type: String, enum: SHIFT_SWAP_STATUSES, default: 'proposed' },
+  counterpartRespondedAt: { type: Date },
+  declineReason: { type: String, trim: true, maxlength: 500 },
+  approvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  approvedDate: { type: Date },
+  ...approvableFields,
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'shiftswaprequests'
+});
+
+ShiftSwapRequestSchema.index({ facilityId: 1, status: 1 });
+ShiftSwapRequestSchema.index({ employeeId: 1, status: 1 });
+ShiftSwapRequestSchema.index({ counterpartId: 1, status: 1 });
+ShiftSwapRequestSchema.index({ 'shift.rosterEntryId': 1 });
+
+// Record every change in the audit log
+ShiftSwapRequestSchema.plugin(auditTrail);
+
+export const ShiftSwapRequest = mongoose.model<IShiftSwapRequest>('ShiftSwapRequest', ShiftSwapRequestSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// Shift of a facility defined once (e.g. "Morning 06:00-14:00") and used by rotation patterns
+export interface IShiftTemplate extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  name: string; // Becomes the shiftName of the schedules materialized from it
+  startTime: string; // HH:MM
+  endTime: string;   // HH:MM, earlier than startTime for shifts crossing midnight
+  breakDuration: number; // in minutes
+  description?: string;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShiftTemplateSchema = new Schema<IShiftTemplate>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  name: { type: String, required: true, trim: true },
+  startTime: { type: String, required: true },
+  endTime: { type: String, required: true },
+  breakDuration: { type: Number, default: 60 },
+  description: { type: String, trim: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  isDeleted: { type: Boolean, default: false, index: true }
+}, {
+  timestamps: true,
+  collection: 'shifttemplates'
+});
+
+ShiftTemplateSchema.index({ facilityId: 1, isDeleted: 1 });
+
+// Record every change in the audit log
+ShiftTemplateSchema.plugin(auditTrail);
+
+export const ShiftTemplate = mongoose.model<IShiftTemplate>('ShiftTemplate', ShiftTemplateSchema);
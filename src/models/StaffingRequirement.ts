@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+export const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Minimum number of employees a shift of a facility needs, optionally from one department
+export interface IStaffingRequirement extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  shiftName: string; // Matches the shiftName of shift schedules
+  department?: string | null; // Department of the employees counted (profile.department); null counts everyone
+  minHeadcount: number;
+  days: string[]; // Weekdays the minimum applies to; empty for every day
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StaffingRequirementSchema = new Schema<IStaffingRequirement>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  shiftName: { type: String, required: true, trim: true },
+  department: { type: String, trim: true, default: null },
+  minHeadcount: { type: Number, required: true, min: 1 },
+  days: [{ type: String, enum: WEEKDAY_NAMES }],
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true,
+  collection: 'staffingrequirements'
+});
+
+StaffingRequirementSchema.index({ facilityId: 1, shiftName: 1, department: 1 }, { unique: true });
+
+// Record every change in the audit log
+StaffingRequirementSchema.plugin(auditTrail);
+
+export const StaffingRequirement = mongoose.model<IStaffingRequirement>('StaffingRequirement', StaffingRequirementSchema);
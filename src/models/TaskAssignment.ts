@@ -1,4 +1,28 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
+
+// assigned -> in_progress -> completed; open tasks past their due date become overdue and can still be completed
+export enum TaskStatus {
+  ASSIGNED = 'assigned',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  OVERDUE = 'overdue'
+}
+
+export enum TaskPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high'
+}
+
+export enum TaskType {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly'
+}
+
+// Tasks the employee still has to complete
+export const OPEN_TASK_STATUSES = [TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS, TaskStatus.OVERDUE];
 
 export interface ITaskAssignment extends Document {
   facilityId: mongoose.Types.ObjectId;
@@ -11,6 +35,9 @@ export interface ITaskAssignment extends Document {
   taskType: string; // 'daily', 'weekly', 'monthly'
   priority: string; // 'low', 'medium', 'high'
   status: string; // 'assigned', 'in_progress', 'completed', 'overdue'
+  notes?: string; // Instructions for the employee
+  startedAt?: Date;
+  completedAt?: Date;
   assignedBy: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
   updatedBy: mongoose.Types.ObjectId;
@@ -25,9 +52,12 @@ const TaskAssignmentSchema = new Schema<ITaskAssignment>({
   floorLocationId: { type: Schema.Types.ObjectId, ref: 'FloorLocation', required: true },
   assignedDate: { type: Date, default: Date.now },
   dueDate: { type: Date },
-  taskType: { type: String, required: true }, // 'daily', 'weekly', 'monthly'
-  priority: { type: String, default: 'medium' }, // 'low', 'medium', 'high'
-  status: { type: String, default: 'assigned' }, // 'assigned', 'in_progress', 'completed', 'overdue'
+  taskType: { type: String, enum: Object.values(TaskType), required: true },
+  priority: { type: String, enum: Object.values(TaskPriority), default: TaskPriority.MEDIUM },
+  status: { type: String, enum: Object.values(TaskStatus), default: TaskStatus.ASSIGNED },
+  notes: { type: String, trim: true, maxlength: 1000 },
+  startedAt: { type: Date },
+  completedAt: { type: Date },
   assignedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
@@ -46,4 +76,7 @@ TaskAssignmentSchema.index({ assignedDate: -1 });
 TaskAssignmentSchema.index({ dueDate: 1 });
 TaskAssignmentSchema.index({ taskType: 1 });
 
+// Record every change in the audit log
+TaskAssignmentSchema.plugin(auditTrail);
+
 export const TaskAssignment = mongoose.model<ITaskAssignment>('TaskAssignment', TaskAssignmentSchema);
\ No newline at end of file
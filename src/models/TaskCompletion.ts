@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 export interface ITaskCompletion extends Document {
   taskAssignmentId: mongoose.Types.ObjectId;
@@ -48,4 +49,10 @@ TaskCompletionSchema.index({ floorLocationId: 1, isDeleted: 1 });
 TaskCompletionSchema.index({ qrCodeScanned: 1 });
 TaskCompletionSchema.index({ completedAt: -1 });
 
+// A task is completed once
+TaskCompletionSchema.index({ taskAssignmentId: 1 }, { unique: true, partialFilterExpression: { isDeleted: false } });
+
+// Record every change in the audit log
+TaskCompletionSchema.plugin(auditTrail);
+
 export const TaskCompletion = mongoose.model<ITaskCompletion>('TaskCompletion', TaskCompletionSchema);
\ No newline at end of file
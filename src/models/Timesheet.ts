@@ -0,0 +1,157 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AttendanceStatus } from './Attendance';
+import { auditTrail } from './plugins/auditTrail';
+
+export enum TimesheetPeriod {
+  WEEKLY = 'weekly', // Monday to Sunday
+  MONTHLY = 'monthly' // Calendar month
+}
+
+// Draft timesheets are regenerated from attendance; signed-off ones are frozen for payroll
+export enum TimesheetStatus {
+  DRAFT = 'draft',
+  SIGNED_OFF = 'signed_off'
+}
+
+export enum OvertimeKind {
+  STANDARD = 'standard',
+  NIGHT = 'night', // Worked in a night shift
+  HOLIDAY = 'holiday' // Worked on a holiday that applies to the employee
+}
+
+// One attendance record of a timesheet
+export interface ITimesheetEntry {
+  date: Date; // Day the shift starts on
+  attendanceId: mongoose.Types.ObjectId;
+  shiftScheduleId?: mongoose.Types.ObjectId | null; // None for unscheduled attendance
+  shiftName?: string;
+  status: AttendanceStatus;
+  scheduledMinutes: number; // Shift length minus break
+  workedMinutes: number; // Check-in to check-out minus the shift's break
+  regularMinutes: number;
+  overtimeMinutes: number;
+  overtimeKind?: OvertimeKind;
+  lateMinutes: number;
+  earlyExitMinutes: number;
+  missingCheckOut: boolean; // Checked in without checking out, so no time worked is counted
+  night: boolean;
+  holiday?: string; // Name of the holiday falling on the date
+}
+
+export interface ITimesheetTotals {
+  shifts: number;
+  contractedHours: number; // From the employee's work schedule, prorated to the period
+  scheduledHours: number;
+  workedHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  standardOvertimeHours: number;
+  nightOvertimeHours: number;
+  holidayOvertimeHours: number;
+  weightedOvertimeHours: number; // Overtime hours times their multipliers
+  lateDays: number;
+  lateMinutes: number;
+  earlyExitMinutes: number;
+  absences: number;
+  leaveDays: number;
+  missingCheckOuts: number;
+}
+
+// Overtime thresholds and multipliers the timesheet was computed with
+export interface ITimesheetRules {
+  overtimeDailyHours: number | null;
+  overtimeWeeklyHours: number | null;
+  overtimeMultiplier: number;
+  nightOvertimeMultiplier: number;
+  holidayMultiplier: number;
+}
+
+// Hours of an employee at a facility over a week or a month, computed from attendance against scheduled shifts
+export interface ITimesheet extends Document {
+  facilityId: mongoose.Types.ObjectId;
+  employeeId: mongoose.Types.ObjectId;
+  period: TimesheetPeriod;
+  periodStart: Date;
+  periodEnd: Date;
+  status: TimesheetStatus;
+  entries: ITimesheetEntry[];
+  totals: ITimesheetTotals;
+  rules: ITimesheetRules;
+  generatedAt: Date;
+  generatedBy: mongoose.Types.ObjectId;
+  signedOffBy?: mongoose.Types.ObjectId;
+  signedOffAt?: Date;
+  remarks?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimesheetEntrySchema = new Schema<ITimesheetEntry>({
+  date: { type: Date, required: true },
+  attendanceId: { type: Schema.Types.ObjectId, ref: 'Attendance', required: true },
+  shiftScheduleId: { type: Schema.Types.ObjectId, ref: 'ShiftSchedule', default: null },
+  shiftName: { type: String },
+  status: { type: String, enum: Object.values(AttendanceStatus), required: true },
+  scheduledMinutes: { type: Number, default: 0 },
+  workedMinutes: { type: Number, default: 0 },
+  regularMinutes: { type: Number, default: 0 },
+  overtimeMinutes: { type: Number, default: 0 },
+  overtimeKind: { type: String, enum: Object.values(OvertimeKind) },
+  lateMinutes: { type: Number, default: 0 },
+  earlyExitMinutes: { type: Number, default: 0 },
+  missingCheckOut: { type: Boolean, default: false },
+  night: { type: Boolean, default: false },
+  holiday: { type: String }
+}, { _id: false });
+
+const TimesheetSchema = new Schema<ITimesheet>({
+  facilityId: { type: Schema.Types.ObjectId, ref: 'FacilityDetails', required: true },
+  employeeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  period: { type: String, enum: Object.values(TimesheetPeriod), required: true },
+  periodStart: { type: Date, required: true },
+  periodEnd: { type: Date, required: true },
+  status: { type: String, enum: Object.values(TimesheetStatus), default: TimesheetStatus.DRAFT },
+  entries: { type: [TimesheetEntrySchema], default: [] },
+  totals: {
+    shifts: { type: Number, default: 0 },
+    contractedHours: { type: Number, default: 0 },
+    scheduledHours: { type: Number, default: 0 },
+    workedHours: { type: Number, default: 0 },
+    regularHours: { type: Number, default: 0 },
+    overtimeHours: { type: Number, default: 0 },
+    standardOvertimeHours: { type: Number, default: 0 },
+    nightOvertimeHours: { type: Number, default: 0 },
+    holidayOvertimeHours: { type: Number, default: 0 },
+    weightedOvertimeHours: { type: Number, default: 0 },
+    lateDays: { type: Number, default: 0 },
+    lateMinutes: { type: Number, default: 0 },
+    earlyExitMinutes: { type: Number, default: 0 },
+    absences: { type: Number, default: 0 },
+    leaveDays: { type: Number, default: 0 },
+    missingCheckOuts: { type: Number, default: 0 }
+  },
+  rules: {
+    overtimeDailyHours: { type: Number, default: null },
+    overtimeWeeklyHours: { type: Number, default: null },
+    overtimeMultiplier: { type: Number, required: true },
+    nightOvertimeMultiplier: { type: Number, required: true },
+    holidayMultiplier: { type: Number, required: true }
+  },
+  generatedAt: { type: Date, required: true },
+  generatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  signedOffBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  signedOffAt: { type: Date },
+  remarks: { type: String, trim: true, maxlength: 500 }
+}, {
+  timestamps: true,
+  collection: 'timesheets'
+});
+
+// One timesheet per employee, facility and period
+TimesheetSchema.index({ employeeId: 1, facilityId: 1, period: 1, periodStart: 1 }, { unique: true });
+TimesheetSchema.index({ facilityId: 1, period: 1, periodStart: 1 });
+
+// Record every change in the audit log
+TimesheetSchema.plugin(auditTrail);
+
+export const Timesheet = mongoose.model<ITimesheet>('Timesheet', TimesheetSchema);
@@ -1,6 +1,7 @@
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 // Enum for user roles
 export enum UserRole {
@@ -170,14 +171,44 @@ export interface IUserSecurity {
   lastLoginIP?: string;
   twoFactorEnabled: boolean;
   twoFactorSecret?: string;
-  recoveryTokens?: string[];
-  sessionTokens?: {
-    token: string;
-    createdAt: Date;
-    expiresAt: Date;
-    device?: string;
-    ip?: string;
-  }[];
+  twoFactorPendingSecret?: string; // Secret awaiting confirmation with a first code
+  twoFactorEnabledAt?: Date;
+  twoFactorLastUsedStep?: number; // TOTP time step of the last accepted code; codes up to it are rejected
+  recoveryTokens?: string[]; // SHA-256 hashes of unused recovery codes
+  sessionTokens?: IUserSession[];
+}
+
+// One entry per signed-in device. familyId identifies the refresh token family of the session;
+// only the latest refresh token of a family is valid (stored as SHA-256 hash).
+export interface IUserSession {
+  _id?: Types.ObjectId;
+  token: string; // Current access token
+  familyId?: string;
+  refreshTokenHash?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  expiresAt: Date;
+  device?: string;
+  ip?: string;
+}
+
+// Refresh token details stored alongside a session
+export interface ISessionRefreshToken {
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+// Pending or past invitation of a user created without a password
+export interface IUserInvitation {
+  tokenId?: string; // jti of the currently valid invitation token; cleared on acceptance or revocation
+  invitedBy?: Types.ObjectId;
+  invitedAt: Date; // When the current token was issued
+  expiresAt: Date;
+  sentCount: number;
+  acceptedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
 }
 
 // Main User interface
@@ -194,6 +225,8 @@ export interface IUser extends Document {
   status: UserStatus;
   verificationStatus: VerificationStatus;
   permissions: IUserPermissions;
+  permissionOverrides: Partial<Record<Exclude<keyof IUserPermissions, 'customPermissions'>, boolean>>; // Explicit per-user grants/denials
+  customRoles: Types.ObjectId[]; // Custom role templates assigned on top of the base role
   profile: IUserProfile;
   settings: IUserSettings;
   security: IUserSecurity;
@@ -201,6 +234,9 @@ export interface IUser extends Document {
   // Facility associations
   managedFacilities: Types.ObjectId[];
   
+  // Invitation (users created without a password)
+  invitation?: IUserInvitation;
+  
   // Verification tokens
   emailVerificationToken?: string;
   emailVerificationExpires?: Date;
@@ -230,8 +266,11 @@ export interface IUser extends Document {
   isAccountLocked(): boolean;
   incrementFailedLogin(): Promise<void>;
   resetFailedLogin(): Promise<void>;
-  addSessionToken(token: string, device?: string, ip?: string): Promise<void>;
+  addSessionToken(token: string, device?: string, ip?: string, refreshToken?: ISessionRefreshToken): Promise<void>;
+  rotateSessionToken(familyId: string, presentedTokenHash: string, token: string, refreshToken: ISessionRefreshToken, ip?: string): Promise<boolean>;
+  touchSession(token: string): Promise<void>;
   removeSessionToken(token: string): Promise<void>;
+  revokeSession(sessionId: string): Promise<boolean>;
   clearAllSessions(): Promise<void>;
   
   // Employee-specific methods
@@ -420,7 +459,8 @@ const UserSchema = new Schema<IUser>({
   },
   password: {
     type: String,
-    required: [true, 'Password is required'],
+    // Invited users choose their password when accepting the invitation
+    required: [function(this: IUser) { return !this.invitation || !!this.invitation.acceptedAt; }, 'Password is required'],
     minlength: [8, 'Password must be at least 8 characters long'],
     select: false // Don't include password in queries by default
   },
@@ -583,10 +623,16 @@ const UserSchema = new Schema<IUser>({
     lastLoginIP: { type: String },
     twoFactorEnabled: { type: Boolean, default: false },
     twoFactorSecret: { type: String, select: false },
+    twoFactorPendingSecret: { type: String, select: false },
+    twoFactorEnabledAt: { type: Date },
+    twoFactorLastUsedStep: { type: Number, select: false },
     recoveryTokens: [{ type: String, select: false }],
     sessionTokens: [{
       token: { type: String, required: true },
+      familyId: { type: String },
+      refreshTokenHash: { type: String },
       createdAt: { type: Date, default: Date.now },
+      lastUsedAt: { type: Date },
       expiresAt: { type: Date, required: true },
       device: { type: String },
       ip: { type: String }
@@ -599,6 +645,31 @@ const UserSchema = new Schema<IUser>({
     ref: 'FacilityDetails' 
   }],
   
+  // Custom roles and per-user permission overrides (resolved by PermissionService)
+  customRoles: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Role'
+  }],
+  permissionOverrides: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  
+  // Invitation (users created without a password)
+  invitation: {
+    type: new Schema({
+      tokenId: { type: String, select: false },
+      invitedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+      invitedAt: { type: Date, required: true },
+      expiresAt: { type: Date, required: true },
+      sentCount: { type: Number, default: 1 },
+      acceptedAt: { type: Date },
+      revokedAt: { type: Date },
+      revokedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+    }, { _id: false }),
+    default: undefined
+  },
+  
   // Verification tokens
   emailVerificationToken: { type: String, select: false },
   emailVerificationExpires: { type: Date, select: false },
@@ -631,7 +702,9 @@ const UserSchema = new Schema<IUser>({
       delete ret.password;
       delete ret.emailVerificationToken;
       delete ret.passwordResetToken;
+      delete ret.invitation?.tokenId;
       delete ret.security?.twoFactorSecret;
+      delete ret.security?.twoFactorPendingSecret;
       delete ret.security?.recoveryTokens;
       delete ret.security?.sessionTokens; // Remove session tokens from JSON response
       delete ret.__v;
@@ -659,6 +732,7 @@ UserSchema.index({ status: 1 });
 UserSchema.index({ verificationStatus: 1 });
 UserSchema.index({ isDeleted: 1 });
 UserSchema.index({ managedFacilities: 1 });
+UserSchema.index({ customRoles: 1 });
 UserSchema.index({ createdAt: -1 });
 UserSchema.index({ 'security.lastLoginAt': -1 });
 
@@ -704,6 +778,10 @@ UserSchema.pre('save', async function(next) {
 
 // Instance method to compare password
 UserSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
+  // Invited users have no password until they accept their invitation
+  if (!this.password) {
+    return false;
+  }
   return bcrypt.compare(candidatePassword, this.password);
 };
 
@@ -764,11 +842,20 @@ UserSchema.methods.resetFailedLogin = async function(): Promise<void> {
 };
 
 // Add session token
-UserSchema.methods.addSessionToken = async function(token: string, device?: string, ip?: string): Promise<void> {
-  const sessionToken = {
+UserSchema.methods.addSessionToken = async function(
+  token: string,
+  device?: string,
+  ip?: string,
+  refreshToken?: ISessionRefreshToken
+): Promise<void> {
+  const sessionToken: IUserSession = {
     token,
+    familyId: refreshToken?.familyId,
+    refreshTokenHash: refreshToken?.tokenHash,
     createdAt: new Date(),
-    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+    lastUsedAt: new Date(),
+    // Sessions with a refresh token live as long as the refresh token
+    expiresAt: refreshToken?.expiresAt || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
     device,
     ip
   };
@@ -791,6 +878,60 @@ UserSchema.methods.removeSessionToken = async function(token: string): Promise<v
   await this.save();
 };
 
+/**
+ * Rotate the tokens of a session (refresh token family), provided the presented refresh token is still the
+ * session's current one. Checking and replacing it is a single conditional update, so of two requests presenting
+ * the same refresh token only one rotates it.
+ * @returns false when the session is gone or the presented token was already rotated out (i.e. reused)
+ */
+UserSchema.methods.rotateSessionToken = async function(
+  familyId: string,
+  presentedTokenHash: string,
+  token: string,
+  refreshToken: ISessionRefreshToken,
+  ip?: string
+): Promise<boolean> {
+  const result = await (this.constructor as IUserModel).updateOne(
+    {
+      _id: this._id,
+      'security.sessionTokens': { $elemMatch: { familyId, refreshTokenHash: presentedTokenHash } }
+    },
+    {
+      $set: {
+        'security.sessionTokens.$.token': token,
+        'security.sessionTokens.$.refreshTokenHash': refreshToken.tokenHash,
+        'security.sessionTokens.$.expiresAt': refreshToken.expiresAt,
+        'security.sessionTokens.$.lastUsedAt': new Date(),
+        ...(ip && { 'security.sessionTokens.$.ip': ip })
+      }
+    }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Record that the session of an access token was just used; the loaded document is left as it is
+UserSchema.methods.touchSession = async function(token: string): Promise<void> {
+  await (this.constructor as IUserModel).updateOne(
+    { _id: this._id, 'security.sessionTokens.token': token },
+    { $set: { 'security.sessionTokens.$.lastUsedAt': new Date() } }
+  );
+};
+
+// Revoke a single session by its id (refresh token family id, or entry id for sessions without one)
+UserSchema.methods.revokeSession = async function(sessionId: string): Promise<boolean> {
+  const matches: Record<string, unknown>[] = [{ familyId: sessionId }];
+  if (Types.ObjectId.isValid(sessionId)) {
+    matches.push({ _id: new Types.ObjectId(sessionId) });
+  }
+
+  // Pulled in one update so that sessions changed meanwhile by other requests are kept
+  const result = await (this.constructor as IUserModel).updateOne(
+    { _id: this._id },
+    { $pull: { 'security.sessionTokens': { $or: matches } } }
+  );
+  return result.modifiedCount > 0;
+};
+
 // Clear all sessions
 UserSchema.methods.clearAllSessions = async function(): Promise<void> {
   this.security.sessionTokens = [];
@@ -988,4 +1129,20 @@ export interface IUserModel extends mongoose.Model<IUser> {
   }>;
 }
 
+// Record every change in the audit log
+UserSchema.plugin(auditTrail, {
+  facilityField: null,
+  // Login bookkeeping changes on every sign-in and is not an audited change
+  exclude: ['security.sessionTokens', 'security.lastLoginAt', 'security.lastLoginIP', 'security.failedLoginAttempts', 'security.lockoutUntil', 'security.twoFactorLastUsedStep'],
+  redact: [
+    'password',
+    'emailVerificationToken',
+    'passwordResetToken',
+    'invitation.tokenId',
+    'security.twoFactorSecret',
+    'security.twoFactorPendingSecret',
+    'security.recoveryTokens'
+  ]
+});
+
 export const User = mongoose.model<IUser, IUserModel>('User', UserSchema);
\ No newline at end of file
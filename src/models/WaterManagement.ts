@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { auditTrail } from './plugins/auditTrail';
 
 export interface IWaterTank extends Document {
   tankName: string;
@@ -216,6 +217,12 @@ BorewellSchema.index({ facilityId: 1 });
 CauverySchema.index({ facilityId: 1 });
 TankerSchema.index({ facilityId: 1 });
 
+// Record every change in the audit log
+WaterTankSchema.plugin(auditTrail);
+BorewellSchema.plugin(auditTrail);
+CauverySchema.plugin(auditTrail);
+TankerSchema.plugin(auditTrail);
+
 export const WaterTank = mongoose.model<IWaterTank>('WaterTank', WaterTankSchema);
 export const Borewell = mongoose.model<IBorewell>('Borewell', BorewellSchema);
 export const Cauvery = mongoose.model<ICauvery>('Cauvery', CauverySchema);
@@ -1,13 +1,17 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IApprovable, approvableFields } from './ApprovalWorkflow';
+import { auditTrail } from './plugins/auditTrail';
 
-export interface IWeekoffPlanner extends Document {
+export interface IWeekoffPlanner extends Document, IApprovable {
   facilityId: mongoose.Types.ObjectId;
   employeeId: mongoose.Types.ObjectId;
   weekStartDate: Date;
   weekEndDate: Date;
   weekoffDays: string[]; // ["monday", "tuesday", etc.]
   reason?: string;
-  status: string; // 'pending', 'approved', 'rejected'
+  status: string; // 'pending', 'approved', 'rejected', 'cancelled', 'withdrawn'
+  approvedBy?: mongoose.Types.ObjectId;
+  approvedDate?: Date;
   createdBy: mongoose.Types.ObjectId;
   updatedBy: mongoose.Types.ObjectId;
   isDeleted: boolean;
@@ -20,7 +24,10 @@ const WeekoffPlannerSchema = new Schema<IWeekoffPlanner>({
   weekEndDate: { type: Date, required: true },
   weekoffDays: [{ type: String, required: true }],
   reason: { type: String },
-  status: { type: String, enum: ['pending', 'approved', 'rejected'], default: 'pending' },
+  status: { type: String, enum: ['pending', 'approved', 'rejected', 'cancelled', 'withdrawn'], default: 'pending' },
+  approvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  approvedDate: { type: Date },
+  ...approvableFields,
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   updatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   isDeleted: { type: Boolean, default: false, index: true }
@@ -35,4 +42,7 @@ WeekoffPlannerSchema.index({ employeeId: 1, isDeleted: 1 });
 WeekoffPlannerSchema.index({ weekStartDate: 1, weekEndDate: 1 });
 WeekoffPlannerSchema.index({ status: 1 });
 
+// Record every change in the audit log
+WeekoffPlannerSchema.plugin(auditTrail);
+
 export const WeekoffPlanner = mongoose.model<IWeekoffPlanner>('WeekoffPlanner', WeekoffPlannerSchema);
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { Query, Schema } from 'mongoose';
+import { AuditService } from '../../services/audit.service';
+
+export interface AuditTrailOptions {
+  facilityField?: string | null; // Field holding the facility id, 'facilityId' by default; null when the entity has none
+  exclude?: string[]; // Fields never recorded (e.g. login bookkeeping)
+  redact?: string[]; // Fields recorded as changed without their values (e.g. password)
+}
+
+// Upper bound on the documents snapshotted for a single updateMany/deleteMany
+const MAX_BULK_SNAPSHOT = 1000;
+
+const UPDATE_QUERIES = ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'] as const;
+const DELETE_QUERIES = ['deleteOne', 'deleteMany', 'findOneAndDelete'] as const;
+const SINGLE_DOCUMENT_QUERIES = ['updateOne', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'findOneAndDelete'];
+
+// Snapshots taken before a query runs, keyed by the query object
+const querySnapshots = new WeakMap<object, Record<string, any>[]>();
+
+const toSnapshot = (doc: any): Record<string, any> =>
+  doc.toObject({ depopulate: true, virtuals: false, getters: false, transform: false });
+
+const snapshotQueryTargets = async (query: Query<any, any>): Promise<Record<string, any>[]> => {
+  const single = SINGLE_DOCUMENT_QUERIES.includes((query as any).op);
+  const { sort, session } = query.getOptions();
+  // Read inside the query's transaction, if any, so the snapshot sees what the query will change
+  const finder = query.model.find(query.getFilter()).limit(single ? 1 : MAX_BULK_SNAPSHOT).session(session ?? null).lean();
+  if (sort) {
+    finder.sort(sort);
+  }
+  return (await finder) as Record<string, any>[];
+};
+
+/**
+ * Mongoose plugin recording every create, update, delete and restore of a model in the audit log,
+ * with a field-level before/after diff. Covers document saves/deletes, insertMany and query updates/deletes.
+ */
+export function auditTrail(schema: Schema, options: AuditTrailOptions = {}): void {
+  const record = (entityType: string, before: Record<string, any> | null, after: Record<string, any> | null) =>
+    AuditService.recordChange({ ...options, entityType, before, after });
+
+  // Document loaded from the database: keep its state to diff against on save
+  schema.post('init', function (this: any) {
+    this.$locals.auditSnapshot = toSnapshot(this);
+  });
+
+  schema.pre('save', function (this: any, next) {
+    this.$locals.auditIsNew = this.isNew;
+    next();
+  });
+
+  schema.post('save', function (this: any, doc: any) {
+    const after = toSnapshot(doc);
+    const before = doc.$locals.auditIsNew ? null : doc.$locals.auditSnapshot ?? null;
+    doc.$locals.auditSnapshot = after;
+    // A document saved without having been loaded (and not new) has no baseline to diff against
+    if (before || doc.$locals.auditIsNew) {
+      void record((doc.constructor as any).modelName, before, after);
+    }
+  });
+
+  schema.post('deleteOne', { document: true, query: false }, function (this: any, doc: any) {
+    void record((doc.constructor as any).modelName, toSnapshot(doc), null);
+  });
+
+  schema.post('insertMany', function (this: any, docs: any[]) {
+    for (const doc of docs) {
+      void record(this.modelName, null, toSnapshot(doc));
+    }
+  });
+
+  schema.pre([...UPDATE_QUERIES, ...DELETE_QUERIES], { document: false, query: true }, async function (this: Query<any, any>) {
+    querySnapshots.set(this, await snapshotQueryTargets(this));
+  });
+
+  schema.post([...UPDATE_QUERIES], { document: false, query: true }, async function (this: Query<any, any>) {
+    const beforeDocs = querySnapshots.get(this) || [];
+    querySnapshots.delete(this);
+    if (beforeDocs.length === 0) {
+      return;
+    }
+
+    const afterDocs = await this.model.find({ _id: { $in: beforeDocs.map(doc => doc._id) } })
+      .session(this.getOptions().session ?? null)
+      .lean();
+    const afterById = new Map(afterDocs.map((doc: any) => [doc._id.toString(), doc]));
+    for (const before of beforeDocs) {
+      const after = afterById.get(before._id.toString());
+      if (after) {
+        void record(this.model.modelName, before, after);
+      }
+    }
+  });
+
+  schema.post([...DELETE_QUERIES], { document: false, query: true }, async function (this: Query<any, any>) {
+    const beforeDocs = querySnapshots.get(this) || [];
+    querySnapshots.delete(this);
+    for (const before of beforeDocs) {
+      void record(this.model.modelName, before, null);
+    }
+  });
+}
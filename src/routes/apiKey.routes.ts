@@ -0,0 +1,282 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKey.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  apiKeyIdParamSchema,
+  apiKeyQuerySchema,
+  createApiKeySchema,
+  updateApiKeySchema
+} from '../validations/apiKey.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       description: |
+ *         Credential for machine-to-machine clients, sent in the X-API-Key header. Requests made with a key act
+ *         on behalf of the key's creator, limited to the key's facility and permissions.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: BMS gateway
+ *         description:
+ *           type: string
+ *         prefix:
+ *           type: string
+ *           description: Public part of the key identifying it
+ *           example: fmk_1a2b3c4d
+ *         facilityId:
+ *           type: string
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [canManageIOT]
+ *         allowedIps:
+ *           type: array
+ *           description: IP addresses or CIDR ranges the key may be used from; empty allows every address
+ *           items:
+ *             type: string
+ *           example: [203.0.113.10, 10.0.0.0/24]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *         lastUsedIp:
+ *           type: string
+ *         usageCount:
+ *           type: integer
+ *         createdBy:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: |
+ *       The full key is only returned in this response. Only permissions held by the current user can be given
+ *       to the key. API keys cannot manage API keys.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - facilityId
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               facilityId:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               allowedIps:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: API key created; data.key holds the full key
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing permissions, facility access or permission not held by the current user
+ */
+router.post('/', AuthMiddleware.authenticateUser, AuthMiddleware.authorizeRoute, validateRequest(createApiKeySchema), ApiKeyController.createApiKey);
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: List API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: API keys with their usage
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/', AuthMiddleware.authenticateUser, AuthMiddleware.authorizeRoute, validateRequest(apiKeyQuerySchema, 'query'), ApiKeyController.getApiKeys);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   get:
+ *     summary: Get an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key with its usage
+ *       404:
+ *         description: API key not found
+ */
+router.get('/:id', AuthMiddleware.authenticateUser, AuthMiddleware.authorizeRoute, validateRequest(apiKeyIdParamSchema, 'params'), ApiKeyController.getApiKeyById);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   patch:
+ *     summary: Update an API key
+ *     description: Change the name, permissions, IP allowlist or expiry (null removes it). The facility cannot change.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               allowedIps:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: API key updated successfully
+ *       400:
+ *         description: Validation error or revoked key
+ *       403:
+ *         description: Permission not held by the current user
+ *       404:
+ *         description: API key not found
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticateUser,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(apiKeyIdParamSchema, 'params'),
+  validateRequest(updateApiKeySchema),
+  ApiKeyController.updateApiKey
+);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}/rotate:
+ *   post:
+ *     summary: Rotate an API key
+ *     description: Issues a new key with the same settings. The previous key stops working immediately.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key rotated; data.key holds the new full key
+ *       400:
+ *         description: Revoked key
+ *       404:
+ *         description: API key not found
+ */
+router.post('/:id/rotate', AuthMiddleware.authenticateUser, AuthMiddleware.authorizeRoute, validateRequest(apiKeyIdParamSchema, 'params'), ApiKeyController.rotateApiKey);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       400:
+ *         description: API key is already revoked
+ *       404:
+ *         description: API key not found
+ */
+router.delete('/:id', AuthMiddleware.authenticateUser, AuthMiddleware.authorizeRoute, validateRequest(apiKeyIdParamSchema, 'params'), ApiKeyController.revokeApiKey);
+
+export default router;
@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import { ApprovalWorkflowController } from '../controllers/approvalWorkflow.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  approvalWorkflowParamSchema,
+  approvalWorkflowQuerySchema,
+  setApprovalWorkflowSchema
+} from '../validations/approval.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApprovalWorkflow:
+ *       type: object
+ *       description: |
+ *         Approval chain of leave, week-off or shift swap requests in a facility. Each level names the role that
+ *         approves it, in order; admins can act at any level and nobody can approve their own request. The chain
+ *         is captured on a request when it is submitted, so changes only apply to new requests.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         requestType:
+ *           type: string
+ *           enum: [leave, weekoff, shift_swap]
+ *         levels:
+ *           type: array
+ *           minItems: 1
+ *           maxItems: 5
+ *           items:
+ *             type: string
+ *             enum: [supervisor, facility_manager, admin]
+ *           example: [supervisor, facility_manager]
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/approval-workflows:
+ *   get:
+ *     summary: Get the approval workflows of a facility
+ *     description: One entry per request type; unconfigured types need a single approval by any approver of the facility.
+ *     tags: [Approval Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Required unless the user manages a single facility
+ *       - in: query
+ *         name: requestType
+ *         schema:
+ *           type: string
+ *           enum: [leave, weekoff, shift_swap]
+ *     responses:
+ *       200:
+ *         description: Approval workflows of the facility
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(approvalWorkflowQuerySchema, 'query'), ApprovalWorkflowController.getApprovalWorkflows);
+
+/**
+ * @swagger
+ * /api/approval-workflows/{facilityId}/{requestType}:
+ *   put:
+ *     summary: Configure the approval chain of a request type in a facility
+ *     tags: [Approval Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [leave, weekoff, shift_swap]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - levels
+ *             properties:
+ *               levels:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [supervisor, facility_manager, admin]
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Approval workflow updated successfully
+ *       201:
+ *         description: Approval workflow created successfully
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.put('/:facilityId/:requestType',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalWorkflowParamSchema, 'params'),
+  validateRequest(setApprovalWorkflowSchema),
+  ApprovalWorkflowController.setApprovalWorkflow
+);
+
+/**
+ * @swagger
+ * /api/approval-workflows/{facilityId}/{requestType}:
+ *   delete:
+ *     summary: Remove the approval chain of a request type in a facility
+ *     description: New requests then need a single approval by any approver; pending requests keep their chain.
+ *     tags: [Approval Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [leave, weekoff, shift_swap]
+ *     responses:
+ *       200:
+ *         description: Approval workflow removed
+ *       404:
+ *         description: Approval workflow not found
+ */
+router.delete('/:facilityId/:requestType', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(approvalWorkflowParamSchema, 'params'), ApprovalWorkflowController.deleteApprovalWorkflow);
+
+export default router;
@@ -0,0 +1,632 @@
+import { Router } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { AttendanceController } from '../controllers/attendance.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { validateRequest } from '../utils/validation';
+import {
+  attendanceFacilityParamSchema,
+  attendanceIdParamSchema,
+  attendancePunchSchema,
+  attendanceQuerySchema,
+  dailyAttendanceReportSchema,
+  importPunchLogSchema,
+  markAbsenteesSchema,
+  monthlyAttendanceReportSchema,
+  myAttendanceQuerySchema,
+  updateAttendanceSchema,
+  updateAttendanceSettingsSchema
+} from '../validations/attendance.validation';
+
+const router = Router();
+
+// Punch logs exported by biometric terminals are read from memory, never stored
+const punchLogUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    // Accept only CSV and text exports
+    if (['.csv', '.txt'].includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Only CSV or TXT punch logs are allowed', 400));
+    }
+  },
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB limit
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Attendance:
+ *       type: object
+ *       description: |
+ *         Attendance of an employee for one shift. The shift comes from the day's roster, or from the employee's
+ *         shift schedule when the facility has no roster for the day. Check-ins without a shift are recorded
+ *         without scheduled times.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         employeeId:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *           description: Local date the shift starts on
+ *         shiftScheduleId:
+ *           type: string
+ *           nullable: true
+ *         rosterId:
+ *           type: string
+ *         scheduledStart:
+ *           type: string
+ *           format: date-time
+ *         scheduledEnd:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [present, absent, on_leave]
+ *         checkIn:
+ *           $ref: '#/components/schemas/AttendancePunch'
+ *         checkOut:
+ *           $ref: '#/components/schemas/AttendancePunch'
+ *         lateMinutes:
+ *           type: integer
+ *           description: Minutes late when beyond the facility's grace period, 0 otherwise
+ *         earlyExitMinutes:
+ *           type: integer
+ *           description: Minutes before the shift end when beyond the grace period, 0 otherwise
+ *         workedMinutes:
+ *           type: integer
+ *         autoMarked:
+ *           type: boolean
+ *           description: Absence or leave marked automatically after the shift ended
+ *         remarks:
+ *           type: string
+ *     AttendancePunch:
+ *       type: object
+ *       properties:
+ *         time:
+ *           type: string
+ *           format: date-time
+ *         method:
+ *           type: string
+ *           enum: [qr, geofence, manual, biometric]
+ *         location:
+ *           type: object
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *             accuracy:
+ *               type: number
+ *         distanceMeters:
+ *           type: number
+ *         device:
+ *           type: string
+ *     AttendancePunchRequest:
+ *       type: object
+ *       required:
+ *         - method
+ *       properties:
+ *         facilityId:
+ *           type: string
+ *           description: Optional when scanning a QR code or when the employee belongs to a single facility
+ *         method:
+ *           type: string
+ *           enum: [qr, geofence]
+ *         qrCode:
+ *           type: string
+ *           description: Content of the scanned facility QR code (required for qr)
+ *         location:
+ *           type: object
+ *           description: Device location (required for geofence)
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *             accuracy:
+ *               type: number
+ *         device:
+ *           type: string
+ *     AttendanceSettings:
+ *       type: object
+ *       properties:
+ *         facilityId:
+ *           type: string
+ *         timezone:
+ *           type: string
+ *           default: UTC
+ *           description: IANA time zone of the facility's shift times
+ *         verificationMethods:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [qr, geofence]
+ *         geofence:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *             radiusMeters:
+ *               type: number
+ *         lateGraceMinutes:
+ *           type: integer
+ *           default: 10
+ *         earlyExitGraceMinutes:
+ *           type: integer
+ *           default: 10
+ *         hasQrCode:
+ *           type: boolean
+ *         qrIssuedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/attendance/check-in:
+ *   post:
+ *     summary: Check in at a facility
+ *     description: |
+ *       Presence is verified by the facility's QR code or by the device location being inside its geofence.
+ *       The check-in is recorded against the employee's current shift and flagged late after the grace period.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AttendancePunchRequest'
+ *     responses:
+ *       201:
+ *         description: Checked in
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Presence could not be verified, or not a member of the facility
+ *       409:
+ *         description: Already checked in
+ */
+router.post('/check-in', AuthMiddleware.authenticateUser, validateRequest(attendancePunchSchema), AttendanceController.checkIn);
+
+/**
+ * @swagger
+ * /api/attendance/check-out:
+ *   post:
+ *     summary: Check out of the current shift
+ *     description: Verified like check-in; flagged as an early exit before the shift end minus the grace period.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AttendancePunchRequest'
+ *     responses:
+ *       200:
+ *         description: Checked out
+ *       403:
+ *         description: Presence could not be verified
+ *       404:
+ *         description: Not checked in at this facility
+ */
+router.post('/check-out', AuthMiddleware.authenticateUser, validateRequest(attendancePunchSchema), AttendanceController.checkOut);
+
+/**
+ * @swagger
+ * /api/attendance/me:
+ *   get:
+ *     summary: Get the signed-in employee's attendance
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Attendance records, newest first
+ */
+router.get('/me', AuthMiddleware.authenticateUser, validateRequest(myAttendanceQuerySchema, 'query'), AttendanceController.getMyAttendance);
+
+/**
+ * @swagger
+ * /api/attendance:
+ *   get:
+ *     summary: Get attendance records
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [present, absent, on_leave]
+ *       - in: query
+ *         name: late
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: earlyExit
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Attendance records, newest first
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(attendanceQuerySchema, 'query'), AttendanceController.getAttendanceRecords);
+
+/**
+ * @swagger
+ * /api/attendance/reports/daily:
+ *   get:
+ *     summary: Daily attendance report of a facility
+ *     description: Records of the day with a summary, plus the scheduled shifts nobody has checked in for yet.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today in the facility's time zone
+ *     responses:
+ *       200:
+ *         description: Daily report
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/reports/daily', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(dailyAttendanceReportSchema, 'query'), AttendanceController.getDailyReport);
+
+/**
+ * @swagger
+ * /api/attendance/reports/monthly:
+ *   get:
+ *     summary: Monthly attendance report of a facility
+ *     description: Per employee days present, absent and on leave, late arrivals, early exits and hours worked.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: month
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *     responses:
+ *       200:
+ *         description: Monthly report
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/reports/monthly', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(monthlyAttendanceReportSchema, 'query'), AttendanceController.getMonthlyReport);
+
+/**
+ * @swagger
+ * /api/attendance/mark-absentees:
+ *   post:
+ *     summary: Mark absentees of ended shifts now
+ *     description: |
+ *       Runs the end-of-shift marking (normally scheduled by ATTENDANCE_ABSENTEE_CRON) for one facility and date.
+ *       Employees with an approved leave are marked on leave.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Number of employees marked absent and on leave
+ */
+router.post('/mark-absentees', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(markAbsenteesSchema), AttendanceController.markAbsentees);
+
+/**
+ * @swagger
+ * /api/attendance/import:
+ *   post:
+ *     summary: Import a punch log from a biometric terminal
+ *     description: |
+ *       Reads a CSV or TXT export with one punch per line (employee code, timestamp, device id, in/out flag),
+ *       either with a header row naming the columns or in that order. Employee codes are matched to the
+ *       employee id of user profiles and timestamps without a UTC offset are local times of the facility.
+ *       Punches are paired into check-ins and check-outs per shift; re-importing the same log changes nothing.
+ *       The report lists invalid lines, unknown codes, shifts with a single punch and punches outside any shift.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *                 description: ID of the facility (optional for users with a single facility)
+ *               dateOrder:
+ *                 type: string
+ *                 enum: [DMY, MDY, YMD]
+ *                 default: DMY
+ *                 description: Order of day, month and year in dates such as 05/03/2026
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Return the reconciliation report without saving anything
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Punch log (.csv or .txt, up to 5MB)
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *       400:
+ *         description: Missing or unreadable file
+ */
+router.post(
+  '/import',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  punchLogUpload.single('file'),
+  validateRequest(importPunchLogSchema),
+  AttendanceController.importPunchLog
+);
+
+/**
+ * @swagger
+ * /api/attendance/settings/{facilityId}:
+ *   get:
+ *     summary: Get the attendance settings of a facility
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance settings (defaults when not configured)
+ */
+router.get('/settings/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(attendanceFacilityParamSchema, 'params'), AttendanceController.getSettings);
+
+/**
+ * @swagger
+ * /api/attendance/settings/{facilityId}:
+ *   put:
+ *     summary: Update the attendance settings of a facility
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AttendanceSettings'
+ *     responses:
+ *       200:
+ *         description: Attendance settings updated successfully
+ *       400:
+ *         description: Validation error
+ */
+router.put('/settings/:facilityId',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(attendanceFacilityParamSchema, 'params'),
+  validateRequest(updateAttendanceSettingsSchema),
+  AttendanceController.updateSettings
+);
+
+/**
+ * @swagger
+ * /api/attendance/settings/{facilityId}/qr:
+ *   get:
+ *     summary: Get the attendance QR code of a facility
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: QR code content and a PNG data URL for printing
+ *       404:
+ *         description: No QR code generated yet
+ */
+router.get('/settings/:facilityId/qr', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(attendanceFacilityParamSchema, 'params'), AttendanceController.getQrCode);
+
+/**
+ * @swagger
+ * /api/attendance/settings/{facilityId}/qr:
+ *   post:
+ *     summary: Generate a new attendance QR code for a facility
+ *     description: Printed copies of the previous code stop working.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: QR code content and a PNG data URL for printing
+ */
+router.post('/settings/:facilityId/qr', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(attendanceFacilityParamSchema, 'params'), AttendanceController.regenerateQrCode);
+
+/**
+ * @swagger
+ * /api/attendance/{id}:
+ *   get:
+ *     summary: Get an attendance record
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance record
+ *       404:
+ *         description: Attendance record not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(attendanceIdParamSchema, 'params'), AttendanceController.getAttendanceById);
+
+/**
+ * @swagger
+ * /api/attendance/{id}:
+ *   patch:
+ *     summary: Correct an attendance record
+ *     description: Corrected times are recorded as manual punches and late/early minutes are recalculated. Remarks are mandatory.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [present, absent, on_leave]
+ *               checkInTime:
+ *                 type: string
+ *                 format: date-time
+ *               checkOutTime:
+ *                 type: string
+ *                 format: date-time
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Attendance updated successfully
+ *       404:
+ *         description: Attendance record not found
+ *       409:
+ *         description: The timesheet covering the record is signed off
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(attendanceIdParamSchema, 'params'),
+  validateRequest(updateAttendanceSchema),
+  AttendanceController.updateAttendance
+);
+
+export default router;
@@ -0,0 +1,150 @@
+import { Router } from 'express';
+import { AuditLogController } from '../controllers/auditLog.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import { auditLogIdParamSchema, auditLogQuerySchema } from '../validations/auditLog.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditLog:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         action:
+ *           type: string
+ *           enum: [create, update, delete, restore]
+ *         entityType:
+ *           type: string
+ *           description: Model name of the changed entity, e.g. Roster or WaterTank
+ *         entityId:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *           description: Facility the entity belongs to, when it has one
+ *         userId:
+ *           type: string
+ *           description: User who made the change
+ *         userEmail:
+ *           type: string
+ *         userRole:
+ *           type: string
+ *         ip:
+ *           type: string
+ *         userAgent:
+ *           type: string
+ *         requestMethod:
+ *           type: string
+ *         requestPath:
+ *           type: string
+ *         changes:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               field:
+ *                 type: string
+ *                 description: Dot path of the changed field
+ *               before:
+ *                 description: Value before the change (absent for new fields)
+ *               after:
+ *                 description: Value after the change (absent for removed fields)
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/audit-logs:
+ *   get:
+ *     summary: Query the audit trail
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Requires the canAccessAuditLogs permission. Users limited to some facilities only see entries of those facilities.
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete, restore]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive; a date without time covers the whole day
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Audit log entries, newest first
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Missing canAccessAuditLogs permission or facility access
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(auditLogQuerySchema, 'query'), AuditLogController.getAuditLogs);
+
+/**
+ * @swagger
+ * /api/audit-logs/{id}:
+ *   get:
+ *     summary: Get an audit log entry
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Audit log entry
+ *       403:
+ *         description: Missing canAccessAuditLogs permission
+ *       404:
+ *         description: Audit log entry not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(auditLogIdParamSchema, 'params'), AuditLogController.getAuditLogById);
+
+export default router;
@@ -1,12 +1,22 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { authLimiter, emailLimiter, passwordResetLimiter } from '../middleware/rateLimiter';
 import { validateRequest } from '../utils/validation';
 import {
   changePasswordSchema,
+  confirmTwoFactorEnrollmentSchema,
+  disableTwoFactorSchema,
   forgotPasswordSchema,
   loginSchema,
-  refreshTokenSchema
+  refreshTokenSchema,
+  resendVerificationSchema,
+  resetPasswordSchema,
+  sessionIdParamSchema,
+  tokenParamSchema,
+  twoFactorCodeSchema,
+  twoFactorEnrollmentSchema,
+  verifyTwoFactorSchema
 } from '../validations/auth.validation';
 
 const router = Router();
@@ -116,6 +126,93 @@ const router = Router();
  *       example:
  *         email: "user@example.com"
  * 
+ *     MfaChallengeResponse:
+ *       type: object
+ *       description: Returned by login instead of tokens when a second factor is required
+ *       properties:
+ *         status:
+ *           type: string
+ *           example: "success"
+ *         message:
+ *           type: string
+ *           example: "Two-factor authentication code required"
+ *         data:
+ *           type: object
+ *           properties:
+ *             mfaRequired:
+ *               type: boolean
+ *               example: true
+ *             mfaEnrollmentRequired:
+ *               type: boolean
+ *               description: True when the user's role requires 2FA but no authenticator is enrolled yet
+ *             mfaToken:
+ *               type: string
+ *               description: Short-lived token to pass to /api/auth/2fa/verify or /api/auth/2fa/enroll
+ *             expiresIn:
+ *               type: string
+ *               example: "5m"
+ * 
+ *     TwoFactorEnrollment:
+ *       type: object
+ *       properties:
+ *         secret:
+ *           type: string
+ *           description: Base32 secret for manual entry in the authenticator app
+ *         otpAuthUri:
+ *           type: string
+ *           example: "otpauth://totp/Facility%20Management%3Aadmin%40example.com?secret=..."
+ *         qrCode:
+ *           type: string
+ *           description: PNG data URL of the otpauth URI
+ * 
+ *     TwoFactorCodeRequest:
+ *       type: object
+ *       required:
+ *         - code
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: 6-digit code from the authenticator app
+ *       example:
+ *         code: "123456"
+ * 
+ *     TwoFactorVerifyRequest:
+ *       type: object
+ *       required:
+ *         - mfaToken
+ *       properties:
+ *         mfaToken:
+ *           type: string
+ *         code:
+ *           type: string
+ *           description: 6-digit code from the authenticator app
+ *         recoveryCode:
+ *           type: string
+ *           description: One-time recovery code (XXXXX-XXXXX)
+ *       oneOf:
+ *         - required: [mfaToken, code]
+ *         - required: [mfaToken, recoveryCode]
+ *       example:
+ *         mfaToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *         code: "123456"
+ * 
+ *     RecoveryCodesResponse:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           example: "success"
+ *         message:
+ *           type: string
+ *         data:
+ *           type: object
+ *           properties:
+ *             recoveryCodes:
+ *               type: array
+ *               items:
+ *                 type: string
+ *               example: ["A1B2C-3D4E5", "F6A7B-8C9D0"]
+ * 
  *     ResetPasswordRequest:
  *       type: object
  *       required:
@@ -150,11 +247,13 @@ const router = Router();
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a second factor is required (mfaRequired)
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/LoginResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/LoginResponse'
+ *                 - $ref: '#/components/schemas/MfaChallengeResponse'
  *       400:
  *         description: Invalid input data
  *         content:
@@ -187,7 +286,10 @@ router.post('/login', validateRequest(loginSchema), AuthController.login);
  * /api/auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Get a new access token using a valid refresh token
+ *     description: |
+ *       Get a new access token using a valid refresh token. Refresh tokens are rotated on every use:
+ *       the response contains a new refresh token and the old one stops working. Presenting an
+ *       already-used refresh token revokes the whole session.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -222,6 +324,13 @@ router.post('/login', validateRequest(loginSchema), AuthController.login);
  *                               type: string
  *                             expiresIn:
  *                               type: string
+ *                         refresh:
+ *                           type: object
+ *                           properties:
+ *                             token:
+ *                               type: string
+ *                             expiresIn:
+ *                               type: string
  *       400:
  *         description: Refresh token is required
  *         content:
@@ -229,7 +338,7 @@ router.post('/login', validateRequest(loginSchema), AuthController.login);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       401:
- *         description: Invalid refresh token
+ *         description: Invalid, revoked or reused refresh token
  *         content:
  *           application/json:
  *             schema:
@@ -301,6 +410,102 @@ router.post('/logout', AuthController.logout);
  */
 router.post('/logout-all', AuthController.logoutAll);
 
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: List the devices the current user is signed in on, with IP and last-used time
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 results:
+ *                   type: integer
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           device:
+ *                             type: string
+ *                             description: User agent of the device
+ *                           ip:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           lastUsedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           expiresAt:
+ *                             type: string
+ *                             format: date-time
+ *                           current:
+ *                             type: boolean
+ *                             description: True for the session making this request
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/sessions', AuthMiddleware.authenticateUser, AuthController.getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Sign out a single device. Its access and refresh tokens stop working immediately.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session id from GET /api/auth/sessions
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/sessions/:id',
+  AuthMiddleware.authenticateUser,
+  validateRequest(sessionIdParamSchema, 'params'),
+  AuthController.revokeSession
+);
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -339,7 +544,67 @@ router.post('/logout-all', AuthController.logoutAll);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/profile', AuthMiddleware.authenticate, AuthController.getProfile);
+router.get('/profile', AuthMiddleware.authenticateUser, AuthController.getProfile);
+
+/**
+ * @swagger
+ * /api/auth/permissions:
+ *   get:
+ *     summary: Get effective permissions of the current user
+ *     description: Resolved permission flags (role defaults plus individual grants), custom permissions and the API routes they unlock. Custom roles of a facility only count in that facility.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Facility to resolve the permissions in (defaults to the user's only facility)
+ *     responses:
+ *       200:
+ *         description: Permissions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                     facilityId:
+ *                       type: string
+ *                       nullable: true
+ *                     permissions:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: boolean
+ *                     customPermissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     routes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           method:
+ *                             type: string
+ *                           path:
+ *                             type: string
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/permissions', AuthMiddleware.authenticate, AuthController.getMyPermissions);
 
 /**
  * @swagger
@@ -384,7 +649,7 @@ router.get('/profile', AuthMiddleware.authenticate, AuthController.getProfile);
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.patch('/change-password', 
-  AuthMiddleware.authenticate, 
+  AuthMiddleware.authenticateUser, 
   validateRequest(changePasswordSchema), 
   AuthController.changePassword
 );
@@ -423,7 +688,393 @@ router.patch('/change-password',
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/forgot-password', validateRequest(forgotPasswordSchema), AuthController.forgotPassword);
+router.post('/forgot-password', passwordResetLimiter, validateRequest(forgotPasswordSchema), AuthController.forgotPassword);
+
+/**
+ * @swagger
+ * /api/auth/reset-password/{token}:
+ *   post:
+ *     summary: Reset password
+ *     description: Set a new password using the token from the password reset email. All sessions are logged out.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Password reset token from the email link
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResetPasswordRequest'
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Password reset successfully"
+ *       400:
+ *         description: Invalid or expired reset token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/reset-password/:token',
+  passwordResetLimiter,
+  validateRequest(tokenParamSchema, 'params'),
+  validateRequest(resetPasswordSchema),
+  AuthController.resetPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email/{token}:
+ *   post:
+ *     summary: Verify email address
+ *     description: Verify the user's email using the token from the verification email and activate the account
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Verification token from the email link
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 message:
+ *                   type: string
+ *                   example: "Email verified successfully"
+ *       400:
+ *         description: Invalid or expired verification token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/verify-email/:token', validateRequest(tokenParamSchema, 'params'), AuthController.verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Resend verification email
+ *     description: Send a new email verification link to an unverified account
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Verification email sent (if an unverified account exists)
+ *       400:
+ *         description: Email is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/resend-verification', emailLimiter, validateRequest(resendVerificationSchema), AuthController.resendVerificationEmail);
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     summary: Complete login with a second factor
+ *     description: Exchange the mfaToken returned by login and a TOTP or recovery code for access/refresh tokens
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResponse'
+ *       401:
+ *         description: Invalid two-factor code or expired mfaToken
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       423:
+ *         description: Account locked due to failed attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/verify', authLimiter, validateRequest(verifyTwoFactorSchema), AuthController.verifyTwoFactorLogin);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll:
+ *   post:
+ *     summary: Start mandatory two-factor enrollment during login
+ *     description: For roles that require 2FA, generate an authenticator secret using the mfaToken returned by login
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mfaToken]
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       401:
+ *         description: Invalid or expired mfaToken
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/enroll', authLimiter, validateRequest(twoFactorEnrollmentSchema), AuthController.startLoginTwoFactorEnrollment);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll/confirm:
+ *   post:
+ *     summary: Confirm mandatory two-factor enrollment and complete login
+ *     description: Verify the first authenticator code, enable 2FA and return tokens together with recovery codes
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mfaToken, code]
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled and login successful (response also contains data.recoveryCodes)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResponse'
+ *       400:
+ *         description: Invalid two-factor code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Invalid or expired mfaToken
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/enroll/confirm', authLimiter, validateRequest(confirmTwoFactorEnrollmentSchema), AuthController.confirmLoginTwoFactorEnrollment);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor setup
+ *     description: Generate a new authenticator secret and QR code for the current user. 2FA is enabled only after confirming a code.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Setup started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "success"
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/setup', AuthMiddleware.authenticateUser, AuthController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Enable two-factor authentication
+ *     description: Confirm the pending authenticator secret with a code. Recovery codes are returned once.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodesResponse'
+ *       400:
+ *         description: Invalid code, no pending setup, or already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/enable',
+  AuthMiddleware.authenticateUser,
+  validateRequest(twoFactorCodeSchema),
+  AuthController.enableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Disable 2FA for the current user. Not allowed for roles where 2FA is mandatory.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password, code]
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid password or code, or 2FA not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Two-factor authentication is mandatory for this role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/disable',
+  AuthMiddleware.authenticateUser,
+  validateRequest(disableTwoFactorSchema),
+  AuthController.disableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replace all recovery codes of the current user. Previous codes stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodesResponse'
+ *       400:
+ *         description: Invalid code or 2FA not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/recovery-codes',
+  AuthMiddleware.authenticateUser,
+  validateRequest(twoFactorCodeSchema),
+  AuthController.regenerateRecoveryCodes
+);
 
 
 
@@ -0,0 +1,336 @@
+import { Router } from 'express';
+import { ChecklistTemplateController } from '../controllers/checklistTemplate.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  checklistTemplateIdParamSchema,
+  checklistTemplateQuerySchema,
+  createChecklistTemplateSchema,
+  generateChecklistsSchema,
+  updateChecklistTemplateSchema
+} from '../validations/checklistTemplate.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ChecklistRecurrence:
+ *       type: object
+ *       required:
+ *         - frequency
+ *       properties:
+ *         frequency:
+ *           type: string
+ *           enum: [daily, weekly, monthly, custom]
+ *         weekdays:
+ *           type: array
+ *           description: Weekly only
+ *           items:
+ *             type: string
+ *             enum: [monday, tuesday, wednesday, thursday, friday, saturday, sunday]
+ *         monthDays:
+ *           type: array
+ *           description: Monthly only; days a month does not have (e.g. 31) fall on its last day
+ *           items:
+ *             type: integer
+ *             minimum: 1
+ *             maximum: 31
+ *         intervalDays:
+ *           type: integer
+ *           minimum: 2
+ *           description: Custom only; every so many days from the start date
+ *     ChecklistTemplate:
+ *       type: object
+ *       description: |
+ *         Reusable checklist of a hygiene section and department. A daily checklist is generated for each of its
+ *         floor locations on the dates its recurrence falls on, in the facility's timezone. Floors that already
+ *         have a checklist of the section on the date are skipped.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         hygieneSectionId:
+ *           type: string
+ *         assignedDepartment:
+ *           type: string
+ *           enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         checklistItems:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               itemName:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               photoRequired:
+ *                 type: boolean
+ *                 description: Photo evidence is required to complete the item when the facility enforces it
+ *         floorLocationIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         recurrence:
+ *           $ref: '#/components/schemas/ChecklistRecurrence'
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         generatedUntil:
+ *           type: string
+ *           format: date
+ *           description: Last date the scheduled generation ran for
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/checklist-templates:
+ *   post:
+ *     summary: Create a checklist template
+ *     description: The template's checklists of today are generated right away.
+ *     tags: [Checklist Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - hygieneSectionId
+ *               - assignedDepartment
+ *               - name
+ *               - checklistItems
+ *               - floorLocationIds
+ *               - recurrence
+ *               - startDate
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               hygieneSectionId:
+ *                 type: string
+ *               assignedDepartment:
+ *                 type: string
+ *                 enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               checklistItems:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - itemName
+ *                   properties:
+ *                     itemName:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     photoRequired:
+ *                       type: boolean
+ *               floorLocationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               recurrence:
+ *                 $ref: '#/components/schemas/ChecklistRecurrence'
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Template created, with the number of checklists generated
+ *       400:
+ *         description: Hygiene section or floor locations not found at the facility
+ *   get:
+ *     summary: Get checklist templates
+ *     tags: [Checklist Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: hygieneSectionId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: assignedDepartment
+ *         schema:
+ *           type: string
+ *           enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *       - in: query
+ *         name: floorLocationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Checklist templates
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createChecklistTemplateSchema), ChecklistTemplateController.createChecklistTemplate);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(checklistTemplateQuerySchema, 'query'), ChecklistTemplateController.getChecklistTemplates);
+
+/**
+ * @swagger
+ * /api/checklist-templates/{id}:
+ *   get:
+ *     summary: Get a checklist template
+ *     tags: [Checklist Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checklist template
+ *       404:
+ *         description: Checklist template not found
+ *   patch:
+ *     summary: Update a checklist template
+ *     description: |
+ *       Past checklists are kept as they are. The template's checklists of today and later that nobody has
+ *       started are regenerated from the updated template. A new recurrence replaces the previous one.
+ *     tags: [Checklist Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               assignedDepartment:
+ *                 type: string
+ *                 enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               checklistItems:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               floorLocationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               recurrence:
+ *                 $ref: '#/components/schemas/ChecklistRecurrence'
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Template updated, with the checklists removed and generated again
+ *       404:
+ *         description: Checklist template not found
+ *   delete:
+ *     summary: Delete a checklist template
+ *     description: Its checklists of today and later that nobody has started are removed; the others are kept.
+ *     tags: [Checklist Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       404:
+ *         description: Checklist template not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(checklistTemplateIdParamSchema, 'params'), ChecklistTemplateController.getChecklistTemplateById);
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(checklistTemplateIdParamSchema, 'params'),
+  validateRequest(updateChecklistTemplateSchema),
+  ChecklistTemplateController.updateChecklistTemplate
+);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(checklistTemplateIdParamSchema, 'params'), ChecklistTemplateController.deleteChecklistTemplate);
+
+/**
+ * @swagger
+ * /api/checklist-templates/{id}/generate:
+ *   post:
+ *     summary: Generate a template's checklists of a date ahead of the scheduled job
+ *     tags: [Checklist Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: Today (the default) up to 31 days ahead, in the facility's timezone
+ *     responses:
+ *       200:
+ *         description: Checklists generated, and floors that already had one
+ *       400:
+ *         description: Template inactive, or the date is past, too far ahead or not a date the template recurs on
+ */
+router.post('/:id/generate',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(checklistTemplateIdParamSchema, 'params'),
+  validateRequest(generateChecklistsSchema),
+  ChecklistTemplateController.generateChecklists
+);
+
+export default router;
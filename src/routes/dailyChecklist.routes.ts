@@ -1,16 +1,57 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
 import {
     completeChecklistItem,
     createDailyChecklist,
+    deleteChecklistItemPhoto,
     getChecklistStats,
     getDailyChecklistByQR,
     getDailyChecklists,
+    uploadChecklistItemPhotos,
     verifyChecklist
 } from '../controllers/dailyChecklist.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import {
+    CHECKLIST_PHOTO_MAX_BYTES,
+    CHECKLIST_PHOTOS_PER_UPLOAD,
+    ChecklistPhotoService
+} from '../services/checklistPhoto.service';
+import { validateRequest } from '../utils/validation';
+import { getChecklistStatsValidation } from '../validations/dailyChecklist.validation';
 
 const router = express.Router();
 
+// Photos are read from memory, checked and thumbnailed before they are put in the file storage
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    // Accept only image types the thumbnails can be made from
+    if (ChecklistPhotoService.isSupportedType(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Only JPEG, PNG or WebP photos are allowed', 400));
+    }
+  },
+  limits: {
+    fileSize: CHECKLIST_PHOTO_MAX_BYTES,
+    files: CHECKLIST_PHOTOS_PER_UPLOAD
+  }
+}).array('photos', CHECKLIST_PHOTOS_PER_UPLOAD);
+
+// Report the upload limits as bad requests rather than server errors
+const uploadPhotos = (req: Request, res: Response, next: NextFunction) => {
+  photoUpload(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Photos cannot exceed ${CHECKLIST_PHOTO_MAX_BYTES / (1024 * 1024)}MB`
+        : `Upload at most ${CHECKLIST_PHOTOS_PER_UPLOAD} photos at a time, in the photos field`;
+      return next(new AppError(message, 400));
+    }
+    next(error);
+  });
+};
+
 /**
  * @swagger
  * components:
@@ -52,6 +93,13 @@ const router = express.Router();
  *                 type: string
  *               notes:
  *                 type: string
+ *               photoRequired:
+ *                 type: boolean
+ *                 description: Photo evidence is required to complete the item when the facility enforces it
+ *               photos:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ChecklistPhoto'
  *         overallStatus:
  *           type: string
  *           enum: [PENDING, IN_PROGRESS, COMPLETED]
@@ -76,6 +124,50 @@ const router = express.Router();
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     ChecklistPhoto:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         stage:
+ *           type: string
+ *           enum: [BEFORE, AFTER]
+ *         contentType:
+ *           type: string
+ *         fileName:
+ *           type: string
+ *         fileSize:
+ *           type: number
+ *         width:
+ *           type: number
+ *         height:
+ *           type: number
+ *         takenAt:
+ *           type: string
+ *           format: date-time
+ *           description: Capture time from the photo's EXIF data
+ *         location:
+ *           type: object
+ *           description: Capture location from the photo's EXIF data
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *         uploadedBy:
+ *           type: string
+ *         uploadedAt:
+ *           type: string
+ *           format: date-time
+ *         url:
+ *           type: string
+ *           description: Signed URL of the photo; needs no authentication and expires at urlExpiresAt
+ *         thumbnailUrl:
+ *           type: string
+ *           description: Signed URL of a JPEG thumbnail of at most 320 x 320 pixels
+ *         urlExpiresAt:
+ *           type: string
+ *           format: date-time
  */
 
 /**
@@ -115,6 +207,8 @@ const router = express.Router();
  *                       type: string
  *                     description:
  *                       type: string
+ *                     photoRequired:
+ *                       type: boolean
  *               assignedDepartment:
  *                 type: string
  *                 enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
@@ -128,7 +222,7 @@ const router = express.Router();
  *       500:
  *         description: Internal server error
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, createDailyChecklist);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, createDailyChecklist);
 
 /**
  * @swagger
@@ -187,7 +281,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, cre
  *       500:
  *         description: Internal server error
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, getDailyChecklists);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, getDailyChecklists);
 
 /**
  * @swagger
@@ -203,7 +297,7 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, getD
  *         required: true
  *         schema:
  *           type: string
- *         description: QR code of the floor location
+ *         description: Signed token read from the floor location's QR code
  *       - in: query
  *         name: checklistDate
  *         schema:
@@ -214,7 +308,7 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, getD
  *       200:
  *         description: Daily checklists retrieved successfully
  *       404:
- *         description: Invalid QR code
+ *         description: Invalid or rotated QR code
  *       401:
  *         description: Unauthorized
  *       500:
@@ -258,7 +352,7 @@ router.get('/qr/:qrCode', AuthMiddleware.authenticate, getDailyChecklistByQR);
  *       404:
  *         description: Daily checklist not found
  *       400:
- *         description: Invalid item index
+ *         description: Invalid item index, or photos the facility requires for the item are missing
  *       401:
  *         description: Unauthorized
  *       500:
@@ -266,6 +360,94 @@ router.get('/qr/:qrCode', AuthMiddleware.authenticate, getDailyChecklistByQR);
  */
 router.patch('/:id/items/:itemIndex/complete', AuthMiddleware.authenticate, completeChecklistItem);
 
+/**
+ * @swagger
+ * /api/daily-checklists/{id}/items/{itemIndex}/photos:
+ *   post:
+ *     summary: Upload before or after photos of a checklist item
+ *     description: |
+ *       Up to 5 JPEG, PNG or WebP photos of at most 10MB each per upload, and 10 photos per item and stage. The
+ *       capture time and location are read from the photos' EXIF data and a thumbnail is made of each. Before
+ *       photos can only be added while the item is not completed; no photos can be added once the checklist is
+ *       verified.
+ *     tags: [Daily Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemIndex
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - stage
+ *               - photos
+ *             properties:
+ *               stage:
+ *                 type: string
+ *                 enum: [BEFORE, AFTER]
+ *               photos:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Photos uploaded, with the checklist and its signed photo URLs
+ *       400:
+ *         description: Invalid stage or item, unreadable or oversized photos, too many photos, or the checklist is verified
+ *       404:
+ *         description: Daily checklist not found
+ */
+router.post('/:id/items/:itemIndex/photos', AuthMiddleware.authenticate, uploadPhotos, uploadChecklistItemPhotos);
+
+/**
+ * @swagger
+ * /api/daily-checklists/{id}/items/{itemIndex}/photos/{photoId}:
+ *   delete:
+ *     summary: Remove a photo you uploaded from an item that is not completed yet
+ *     tags: [Daily Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemIndex
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: photoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Photo removed
+ *       400:
+ *         description: The item is completed
+ *       403:
+ *         description: The photo was uploaded by someone else
+ *       404:
+ *         description: Daily checklist or photo not found
+ */
+router.delete('/:id/items/:itemIndex/photos/:photoId', AuthMiddleware.authenticate, deleteChecklistItemPhoto);
+
 /**
  * @swagger
  * /api/daily-checklists/{id}/verify:
@@ -293,7 +475,7 @@ router.patch('/:id/items/:itemIndex/complete', AuthMiddleware.authenticate, comp
  *       500:
  *         description: Internal server error
  */
-router.patch('/:id/verify', AuthMiddleware.authenticate, AuthMiddleware.requireManager, verifyChecklist);
+router.patch('/:id/verify', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, verifyChecklist);
 
 /**
  * @swagger
@@ -305,6 +487,11 @@ router.patch('/:id/verify', AuthMiddleware.authenticate, AuthMiddleware.requireM
  *       - bearerAuth: []
  *     parameters:
  *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Facility to report on (defaults to all facilities the user can access)
+ *       - in: query
  *         name: startDate
  *         schema:
  *           type: string
@@ -319,11 +506,13 @@ router.patch('/:id/verify', AuthMiddleware.authenticate, AuthMiddleware.requireM
  *     responses:
  *       200:
  *         description: Statistics retrieved successfully
+ *       400:
+ *         description: Invalid facility ID or date range
  *       401:
  *         description: Unauthorized
  *       500:
  *         description: Internal server error
  */
-router.get('/stats', AuthMiddleware.authenticate, AuthMiddleware.requireManager, getChecklistStats);
+router.get('/stats', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(getChecklistStatsValidation, 'query'), getChecklistStats);
 
 export default router;
\ No newline at end of file
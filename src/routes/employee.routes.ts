@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { EmployeeController } from '../controllers/employee.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
-import { validateDeleteEmployee } from '../validations/employee.validation';
+import { validateDeleteEmployee, validateUpdatePermissions } from '../validations/employee.validation';
 
 const router = Router();
 
@@ -80,6 +80,7 @@ const router = Router();
  * /api/employees:
  *   post:
  *     summary: Create a new employee
+ *     description: Without a password the employee is created as pending and emailed an invitation to choose one (see /api/invitations).
  *     tags: [Employee Management]
  *     security:
  *       - bearerAuth: []
@@ -93,7 +94,6 @@ const router = Router();
  *               - email
  *               - firstName
  *               - lastName
- *               - password
  *             properties:
  *               email:
  *                 type: string
@@ -107,6 +107,7 @@ const router = Router();
  *               password:
  *                 type: string
  *                 minLength: 8
+ *                 description: Initial password; omit to invite the employee by email instead
  *               phone:
  *                 type: string
  *               role:
@@ -141,7 +142,7 @@ const router = Router();
  *       500:
  *         description: Internal server error
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, EmployeeController.createEmployee);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.createEmployee);
 
 /**
  * @swagger
@@ -220,7 +221,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Emp
  *       500:
  *         description: Internal server error
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, EmployeeController.getAllEmployees);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.getAllEmployees);
 
 /**
  * @swagger
@@ -466,7 +467,7 @@ router.put('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireOwnershipO
  *       500:
  *         description: Internal server error
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireSupervisor, validateDeleteEmployee, EmployeeController.deleteEmployee);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateDeleteEmployee, EmployeeController.deleteEmployee);
 
 /**
  * @swagger
@@ -509,7 +510,7 @@ router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireSupervi
  *       500:
  *         description: Internal server error
  */
-router.patch('/:id/restore', AuthMiddleware.authenticate, AuthMiddleware.requireSupervisor, EmployeeController.restoreEmployee);
+router.patch('/:id/restore', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.restoreEmployee);
 
 /**
  * @swagger
@@ -548,7 +549,7 @@ router.patch('/:id/restore', AuthMiddleware.authenticate, AuthMiddleware.require
  *       500:
  *         description: Internal server error
  */
-router.patch('/:id/status', AuthMiddleware.authenticate, AuthMiddleware.requireSupervisor, EmployeeController.updateEmployeeStatus);
+router.patch('/:id/status', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.updateEmployeeStatus);
 
 /**
  * @swagger
@@ -587,7 +588,94 @@ router.patch('/:id/status', AuthMiddleware.authenticate, AuthMiddleware.requireS
  *       500:
  *         description: Internal server error
  */
-router.patch('/:id/role', AuthMiddleware.authenticate, AuthMiddleware.requireSupervisor, EmployeeController.updateEmployeeRole);
+router.patch('/:id/role', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.updateEmployeeRole);
+
+/**
+ * @swagger
+ * /api/employees/{id}/permissions:
+ *   get:
+ *     summary: Get effective permissions of an employee
+ *     description: Resolved permission flags (role defaults, custom roles and per-user overrides) and the API routes they unlock. Custom roles of a facility only count in that facility.
+ *     tags: [Employee Management]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Employee ID
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Facility to resolve the permissions in (defaults to the employee's only facility)
+ *     responses:
+ *       200:
+ *         description: Effective permissions retrieved successfully
+ *       400:
+ *         description: Invalid employee ID format
+ *       403:
+ *         description: Forbidden - insufficient permissions
+ *       404:
+ *         description: Employee not found
+ */
+router.get('/:id/permissions', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.getEmployeePermissions);
+
+/**
+ * @swagger
+ * /api/employees/{id}/permissions:
+ *   patch:
+ *     summary: Grant or revoke employee permissions
+ *     description: |
+ *       Override individual permission flags on top of the role defaults and custom roles, e.g. grant canApproveLeaves
+ *       to a supervisor or deny it despite a custom role. An override set to null is removed.
+ *       Only permissions held by the current user can be granted.
+ *     tags: [Employee Management]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Employee ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               permissions:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: boolean
+ *                   nullable: true
+ *                 example:
+ *                   canApproveLeaves: true
+ *               customPermissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Employee permissions updated successfully
+ *       400:
+ *         description: Validation error or invalid employee ID format
+ *       403:
+ *         description: Forbidden - insufficient permissions or permission not held by the current user
+ *       404:
+ *         description: Employee not found
+ */
+router.patch('/:id/permissions',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateUpdatePermissions,
+  EmployeeController.updateEmployeePermissions
+);
 
 /**
  * @swagger
@@ -628,7 +716,7 @@ router.patch('/:id/role', AuthMiddleware.authenticate, AuthMiddleware.requireSup
  *       500:
  *         description: Internal server error
  */
-router.get('/role/:role', AuthMiddleware.authenticate, AuthMiddleware.requireManager, EmployeeController.getEmployeesByRole);
+router.get('/role/:role', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.getEmployeesByRole);
 
 /**
  * @swagger
@@ -672,7 +760,7 @@ router.get('/role/:role', AuthMiddleware.authenticate, AuthMiddleware.requireMan
  *       500:
  *         description: Internal server error
  */
-router.patch('/:id/password', AuthMiddleware.authenticate, AuthMiddleware.requireSupervisor, EmployeeController.updateEmployeePassword);
+router.patch('/:id/password', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, EmployeeController.updateEmployeePassword);
 
 /**
  * @swagger
@@ -752,7 +840,7 @@ router.patch('/:id/password', AuthMiddleware.authenticate, AuthMiddleware.requir
  *       500:
  *         description: Internal server error
  */
-router.get('/facility/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.requireManager, EmployeeController.getEmployeesByFacility);
+router.get('/facility/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, EmployeeController.getEmployeesByFacility);
 
 /**
  * @swagger
@@ -500,6 +500,16 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireSuperAdmin
  *               facilityType:
  *                 type: string
  *                 enum: [residential, corporate, industrial, hospitality]
+ *               settings:
+ *                 type: object
+ *                 description: Only the settings sent are changed
+ *                 properties:
+ *                   checklistPhotoEvidence:
+ *                     type: string
+ *                     enum: [OPTIONAL, AFTER, BEFORE_AND_AFTER]
+ *                     description: |
+ *                       Photos required to complete checklist items flagged as needing photo evidence in their
+ *                       template; OPTIONAL (the default) does not enforce them
  *     responses:
  *       200:
  *         description: Facility updated successfully
@@ -512,7 +522,7 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireSuperAdmin
  *       404:
  *         description: Facility not found
  */
-router.put('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, validateUpdateFacility, FacilityDetailsController.updateFacility);
+router.put('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateUpdateFacility, FacilityDetailsController.updateFacility);
 
 /**
  * @swagger
@@ -568,7 +578,7 @@ router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireSuperAd
  *       404:
  *         description: Facility not found
  */
-router.get('/tenant/:tenantId', AuthMiddleware.authenticate, AuthMiddleware.requireManager, FacilityDetailsController.getFacilityByTenantId);
+router.get('/tenant/:tenantId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, FacilityDetailsController.getFacilityByTenantId);
 
 /**
  * @swaggerr
@@ -610,6 +620,16 @@ router.get('/tenant/:tenantId', AuthMiddleware.authenticate, AuthMiddleware.requ
  *               facilityType:
  *                 type: string
  *                 enum: [residential, corporate, industrial, hospitality]
+ *               settings:
+ *                 type: object
+ *                 description: Only the settings sent are changed
+ *                 properties:
+ *                   checklistPhotoEvidence:
+ *                     type: string
+ *                     enum: [OPTIONAL, AFTER, BEFORE_AND_AFTER]
+ *                     description: |
+ *                       Photos required to complete checklist items flagged as needing photo evidence in their
+ *                       template; OPTIONAL (the default) does not enforce them
  *     responses:
  *       200:
  *         description: Facility updated successfully
@@ -622,7 +642,7 @@ router.get('/tenant/:tenantId', AuthMiddleware.authenticate, AuthMiddleware.requ
  *       404:
  *         description: Facility not found
  */
-router.put('/tenant/:tenantId', AuthMiddleware.authenticate, AuthMiddleware.requireManager, validateUpdateFacility, FacilityDetailsController.updateFacilityByTenantId);
+router.put('/tenant/:tenantId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateUpdateFacility, FacilityDetailsController.updateFacilityByTenantId);
 
 /**
  * @swaggerr
@@ -4,11 +4,21 @@ import {
     deleteFloorLocation,
     getFloorLocationById,
     getFloorLocationByQR,
+    getFloorLocationQRCode,
+    getFloorLocationQRSheet,
     getFloorLocations,
+    rotateFloorLocationQRCode,
     updateFloorLocation
 } from '../controllers/floorLocation.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
-import { validateFloorLocation, validateFloorLocationUpdate } from '../validations/floorLocation.validation';
+import { validateRequest } from '../utils/validation';
+import {
+    floorLocationIdParamSchema,
+    floorLocationQRQuerySchema,
+    floorLocationQRSheetQuerySchema,
+    validateFloorLocation,
+    validateFloorLocationUpdate
+} from '../validations/floorLocation.validation';
 
 const router = express.Router();
 
@@ -33,7 +43,11 @@ const router = express.Router();
  *           description: Numeric identifier for the floor
  *         qrCode:
  *           type: string
- *           description: Unique QR code for this floor location
+ *           description: Unique identifier of this floor location, printed on its label
+ *         qrIssuedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the floor's current QR code was issued or last rotated
  *         description:
  *           type: string
  *           description: Optional description of the floor location
@@ -85,7 +99,7 @@ const router = express.Router();
  */
 router.post('/', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateFloorLocation,
   createFloorLocation
 );
@@ -125,10 +139,46 @@ router.post('/',
  */
 router.get('/', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   getFloorLocations
 );
 
+/**
+ * @swagger
+ * /api/floor-locations/qr-sheet:
+ *   get:
+ *     summary: Get a printable PDF of the QR labels of a facility's floor locations
+ *     description: |
+ *       One A4 label per active floor location, six to a page, with the facility, floor and the hygiene sections
+ *       cleaned there. The QR codes carry a signed token; floors without one are issued a code.
+ *     tags: [Floor Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF sheet of QR labels
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Facility not found or it has no active floor locations
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/qr-sheet',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(floorLocationQRSheetQuerySchema, 'query'),
+  getFloorLocationQRSheet
+);
+
 /**
  * @swagger
  * /api/floor-locations/{id}:
@@ -153,10 +203,85 @@ router.get('/',
  */
 router.get('/:id', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   getFloorLocationById
 );
 
+/**
+ * @swagger
+ * /api/floor-locations/{id}/qr:
+ *   get:
+ *     summary: Get the QR code image of a floor location
+ *     description: The code carries a signed token that stays the same until the code is rotated.
+ *     tags: [Floor Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, svg]
+ *           default: png
+ *     responses:
+ *       200:
+ *         description: QR code image
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Floor location not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/:id/qr',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(floorLocationIdParamSchema, 'params'),
+  validateRequest(floorLocationQRQuerySchema, 'query'),
+  getFloorLocationQRCode
+);
+
+/**
+ * @swagger
+ * /api/floor-locations/{id}/qr/rotate:
+ *   post:
+ *     summary: Rotate the QR code of a floor location
+ *     description: For a compromised code. Printed labels of the previous code stop working and must be replaced.
+ *     tags: [Floor Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: QR code rotated, with the new code as a PNG data URL
+ *       404:
+ *         description: Floor location not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/:id/qr/rotate',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(floorLocationIdParamSchema, 'params'),
+  rotateFloorLocationQRCode
+);
+
 /**
  * @swagger
  * /api/floor-locations/qr/{qrCode}:
@@ -171,7 +296,7 @@ router.get('/:id',
  *         required: true
  *         schema:
  *           type: string
- *         description: QR code to scan
+ *         description: Signed token read from the floor's QR code
  *     responses:
  *       200:
  *         description: Floor location retrieved successfully
@@ -226,7 +351,7 @@ router.get('/qr/:qrCode',
  */
 router.put('/:id', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateFloorLocationUpdate,
   updateFloorLocation
 );
@@ -255,7 +380,7 @@ router.put('/:id',
  */
 router.delete('/:id', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteFloorLocation
 );
 
@@ -0,0 +1,227 @@
+import { Router } from 'express';
+import { HolidayController } from '../controllers/holiday.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  createHolidaySchema,
+  holidayIdParamSchema,
+  holidayQuerySchema,
+  updateHolidaySchema
+} from '../validations/holiday.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Holiday:
+ *       type: object
+ *       description: |
+ *         Entry of a facility's holiday calendar. Public holidays and regional holidays of the employee's region
+ *         (profile address state or city) are not counted in leave durations; optional holidays are.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Independence Day
+ *         description:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *           description: Date of the holiday; for recurring holidays the first occurrence
+ *         recurring:
+ *           type: boolean
+ *           default: false
+ *           description: Repeats every year on the same month and day
+ *         type:
+ *           type: string
+ *           enum: [public, regional, optional]
+ *           default: public
+ *         regions:
+ *           type: array
+ *           description: States or cities a regional holiday applies to
+ *           items:
+ *             type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/holidays:
+ *   post:
+ *     summary: Add a holiday to a facility's calendar
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - facilityId
+ *               - name
+ *               - date
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               recurring:
+ *                 type: boolean
+ *               type:
+ *                 type: string
+ *                 enum: [public, regional, optional]
+ *               regions:
+ *                 type: array
+ *                 description: Required for regional holidays
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Holiday created successfully
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing permissions or facility access
+ *       409:
+ *         description: A holiday with this name already exists on this date
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createHolidaySchema), HolidayController.createHoliday);
+
+/**
+ * @swagger
+ * /api/holidays:
+ *   get:
+ *     summary: Get the holiday calendar of a facility
+ *     description: Holidays of one year in date order, with recurring holidays placed on their date in that year.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Required unless the user manages a single facility
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Calendar year (defaults to the current year)
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [public, regional, optional]
+ *       - in: query
+ *         name: region
+ *         schema:
+ *           type: string
+ *         description: Leave out regional holidays of other regions
+ *     responses:
+ *       200:
+ *         description: Holiday occurrences with their date (YYYY-MM-DD) and holidayId
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(holidayQuerySchema, 'query'), HolidayController.getHolidayCalendar);
+
+/**
+ * @swagger
+ * /api/holidays/{id}:
+ *   get:
+ *     summary: Get a holiday
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday
+ *       404:
+ *         description: Holiday not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(holidayIdParamSchema, 'params'), HolidayController.getHolidayById);
+
+/**
+ * @swagger
+ * /api/holidays/{id}:
+ *   patch:
+ *     summary: Update a holiday
+ *     description: Leaves already applied for keep the duration calculated when they were applied for or last changed.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Holiday'
+ *     responses:
+ *       200:
+ *         description: Holiday updated successfully
+ *       404:
+ *         description: Holiday not found
+ *       409:
+ *         description: A holiday with this name already exists on this date
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(holidayIdParamSchema, 'params'),
+  validateRequest(updateHolidaySchema),
+  HolidayController.updateHoliday
+);
+
+/**
+ * @swagger
+ * /api/holidays/{id}:
+ *   delete:
+ *     summary: Delete a holiday (soft delete)
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday deleted successfully
+ *       404:
+ *         description: Holiday not found
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(holidayIdParamSchema, 'params'), HolidayController.deleteHoliday);
+
+export default router;
@@ -3,6 +3,15 @@ import multer from 'multer';
 import path from 'path';
 import { HygieneChecklistController } from '../controllers/hygieneChecklist.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import { ChecklistFileService } from '../services/checklistFile.service';
+import { validateRequest } from '../utils/validation';
+import {
+  hygieneChecklistDailyChecklistsSchema,
+  hygieneChecklistIdParamSchema,
+  hygieneChecklistTemplatesSchema,
+  uploadHygieneChecklistVersionSchema
+} from '../validations/hygieneChecklist.validation';
 
 const router = Router();
 
@@ -18,12 +27,11 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req: any, file: any, cb: any) => {
-  // Accept only Excel files
-  if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || 
-      file.mimetype === 'application/vnd.ms-excel') {
+  // Accept only spreadsheets whose items can be read
+  if (ChecklistFileService.isSupported(file.originalname)) {
     cb(null, true);
   } else {
-    cb(new Error('Only Excel files are allowed'), false);
+    cb(new AppError('Only XLSX or CSV checklists are allowed; save .xls workbooks as .xlsx', 400), false);
   }
 };
 
@@ -78,6 +86,48 @@ const upload = multer({
  *         uploadedBy:
  *           type: string
  *           description: ID of user who uploaded the file
+ *         items:
+ *           type: array
+ *           description: Items read from the file of the current version
+ *           items:
+ *             $ref: '#/components/schemas/HygieneChecklistItem'
+ *         version:
+ *           type: integer
+ *           description: Current version of the file
+ *         versions:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               version:
+ *                 type: integer
+ *               fileName:
+ *                 type: string
+ *               fileSize:
+ *                 type: number
+ *               uploadDate:
+ *                 type: string
+ *                 format: date-time
+ *               uploadedBy:
+ *                 type: string
+ *               itemCount:
+ *                 type: integer
+ *               changes:
+ *                 type: object
+ *                 description: Names of the items added, removed and changed from the previous version
+ *                 properties:
+ *                   added:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   removed:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   changed:
+ *                     type: array
+ *                     items:
+ *                       type: string
  *         isActive:
  *           type: boolean
  *           default: true
@@ -96,6 +146,49 @@ const upload = multer({
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     HygieneChecklistItem:
+ *       type: object
+ *       properties:
+ *         row:
+ *           type: integer
+ *           description: Row of the sheet the item was read from
+ *         itemName:
+ *           type: string
+ *         description:
+ *           type: string
+ *         frequency:
+ *           type: string
+ *           enum: [daily, weekly, monthly]
+ *           description: The checklist type applies when absent
+ *         department:
+ *           type: string
+ *           enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *         area:
+ *           type: string
+ *           description: Floor or area as written in the file, matched to floor locations by name or number
+ *     HygieneChecklistPreview:
+ *       type: object
+ *       properties:
+ *         sheetName:
+ *           type: string
+ *         totalRows:
+ *           type: integer
+ *         items:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/HygieneChecklistItem'
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               row:
+ *                 type: integer
+ *                 description: Row of the sheet; 0 for problems with the file as a whole
+ *               column:
+ *                 type: string
+ *               message:
+ *                 type: string
  */
 
 /**
@@ -103,6 +196,10 @@ const upload = multer({
  * /api/hygiene-checklists:
  *   post:
  *     summary: Upload a new hygiene checklist
+ *     description: |
+ *       The items of the file (XLSX or CSV, one item per row) are read from the columns named by its header row:
+ *       item name (required), description, frequency, department and floor/area. With dryRun the items and
+ *       row-level errors are returned without saving anything; otherwise a file with errors is rejected.
  *     tags: [Hygiene Checklists]
  *     security:
  *       - bearerAuth: []
@@ -130,18 +227,33 @@ const upload = multer({
  *               file:
  *                 type: string
  *                 format: binary
- *                 description: Excel file to upload
+ *                 description: XLSX or CSV file to upload
+ *               dryRun:
+ *                 type: boolean
+ *                 description: Only preview the items and errors of the file
  *     responses:
+ *       200:
+ *         description: Dry run; preview of the file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     preview:
+ *                       $ref: '#/components/schemas/HygieneChecklistPreview'
  *       201:
  *         description: Hygiene checklist uploaded successfully
  *       400:
- *         description: Bad request or invalid file
+ *         description: Bad request, invalid file or rows with errors
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, upload.single('file'), HygieneChecklistController.createHygieneChecklist);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, upload.single('file'), HygieneChecklistController.createHygieneChecklist);
 
 /**
  * @swagger
@@ -180,7 +292,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, upl
  *       403:
  *         description: Forbidden
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneChecklistController.getAllHygieneChecklists);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneChecklistController.getAllHygieneChecklists);
 
 /**
  * @swagger
@@ -209,7 +321,7 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Hygi
  *       404:
  *         description: Hygiene checklist not found
  */
-router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneChecklistController.getHygieneChecklistById);
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneChecklistController.getHygieneChecklistById);
 
 /**
  * @swagger
@@ -243,7 +355,174 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, H
  *       404:
  *         description: Hygiene checklist not found
  */
-router.get('/:id/download', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneChecklistController.downloadHygieneChecklist);
+router.get('/:id/download', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneChecklistController.downloadHygieneChecklist);
+
+/**
+ * @swagger
+ * /api/hygiene-checklists/{id}/versions:
+ *   post:
+ *     summary: Upload a new version of a hygiene checklist
+ *     description: |
+ *       Items are matched with the current version by name and floor/area. With dryRun the items, row-level
+ *       errors and the items added, removed and changed are returned without saving anything.
+ *     tags: [Hygiene Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               dryRun:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Dry run; preview of the file and its differences with the current version
+ *       201:
+ *         description: New version uploaded, with its differences with the previous version
+ *       400:
+ *         description: Invalid file, rows with errors, or no changes from the current version
+ *       404:
+ *         description: Hygiene checklist not found
+ */
+router.post('/:id/versions',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  upload.single('file'),
+  validateRequest(hygieneChecklistIdParamSchema, 'params'),
+  validateRequest(uploadHygieneChecklistVersionSchema),
+  HygieneChecklistController.uploadHygieneChecklistVersion
+);
+
+/**
+ * @swagger
+ * /api/hygiene-checklists/{id}/templates:
+ *   post:
+ *     summary: Create checklist templates from a hygiene checklist
+ *     description: |
+ *       One template per department, frequency and floor/area of the items, recurring from the start date
+ *       (weekly on its weekday and monthly on its day unless weekdays or monthDays are given). Templates created
+ *       from the checklist before are replaced; the daily checklists already generated from them are kept.
+ *     tags: [Hygiene Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               assignedDepartment:
+ *                 type: string
+ *                 enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *                 description: Department of the items without one
+ *               floorLocationIds:
+ *                 type: array
+ *                 description: Floor locations of the items without a floor/area
+ *                 items:
+ *                   type: string
+ *               weekdays:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               monthDays:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       201:
+ *         description: Checklist templates created
+ *       400:
+ *         description: Items without a department, frequency or floor location, or floors/areas matching no floor location
+ *       404:
+ *         description: Hygiene checklist not found
+ */
+router.post('/:id/templates',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(hygieneChecklistIdParamSchema, 'params'),
+  validateRequest(hygieneChecklistTemplatesSchema),
+  HygieneChecklistController.createTemplatesFromHygieneChecklist
+);
+
+/**
+ * @swagger
+ * /api/hygiene-checklists/{id}/daily-checklists:
+ *   post:
+ *     summary: Create the daily checklists of a date from a hygiene checklist
+ *     description: One daily checklist per department and floor location; floors that already have a checklist of the section on the date are skipped.
+ *     tags: [Hygiene Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - date
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               assignedDepartment:
+ *                 type: string
+ *                 enum: [HOUSEKEEPING, GARDENING, PEST_CONTROL]
+ *               floorLocationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               frequency:
+ *                 type: string
+ *                 enum: [daily, weekly, monthly]
+ *                 description: Only the items of this frequency
+ *     responses:
+ *       201:
+ *         description: Daily checklists created, and floors skipped
+ *       400:
+ *         description: Past date, or items that cannot be placed
+ *       404:
+ *         description: Hygiene checklist not found
+ */
+router.post('/:id/daily-checklists',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(hygieneChecklistIdParamSchema, 'params'),
+  validateRequest(hygieneChecklistDailyChecklistsSchema),
+  HygieneChecklistController.createDailyChecklistsFromHygieneChecklist
+);
 
 /**
  * @swagger
@@ -283,7 +562,7 @@ router.get('/:id/download', AuthMiddleware.authenticate, AuthMiddleware.requireM
  *       404:
  *         description: Hygiene checklist not found
  */
-router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneChecklistController.updateHygieneChecklist);
+router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneChecklistController.updateHygieneChecklist);
 
 /**
  * @swagger
@@ -312,6 +591,6 @@ router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager,
  *       404:
  *         description: Hygiene checklist not found
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneChecklistController.deleteHygieneChecklist);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneChecklistController.deleteHygieneChecklist);
 
 export default router;
\ No newline at end of file
@@ -89,7 +89,7 @@ const router = Router();
  *       403:
  *         description: Forbidden
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneSectionController.createHygieneSection);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneSectionController.createHygieneSection);
 
 /**
  * @swagger
@@ -123,7 +123,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Hyg
  *       403:
  *         description: Forbidden
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneSectionController.getAllHygieneSections);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneSectionController.getAllHygieneSections);
 
 /**
  * @swagger
@@ -152,7 +152,7 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Hygi
  *       404:
  *         description: Hygiene section not found
  */
-router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneSectionController.getHygieneSectionById);
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneSectionController.getHygieneSectionById);
 
 /**
  * @swagger
@@ -194,7 +194,7 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, H
  *       404:
  *         description: Hygiene section not found
  */
-router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneSectionController.updateHygieneSection);
+router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneSectionController.updateHygieneSection);
 
 /**
  * @swagger
@@ -223,6 +223,6 @@ router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager,
  *       404:
  *         description: Hygiene section not found
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, HygieneSectionController.deleteHygieneSection);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, HygieneSectionController.deleteHygieneSection);
 
 export default router;
\ No newline at end of file
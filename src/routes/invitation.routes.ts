@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { InvitationController } from '../controllers/invitation.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { passwordResetLimiter } from '../middleware/rateLimiter';
+import { validateRequest } from '../utils/validation';
+import { resetPasswordSchema, tokenParamSchema } from '../validations/auth.validation';
+import { invitationQuerySchema, invitationUserParamSchema } from '../validations/invitation.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Invitation:
+ *       type: object
+ *       description: |
+ *         Invitation of a user created without a password (POST /api/users or POST /api/employees with no password).
+ *         The invitee receives an emailed link to choose a password, which also verifies the email address.
+ *       properties:
+ *         invitedBy:
+ *           type: string
+ *         invitedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the current invitation link was issued
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         sentCount:
+ *           type: integer
+ *         acceptedAt:
+ *           type: string
+ *           format: date-time
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *         revokedBy:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   get:
+ *     summary: List invitations that have not been accepted
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, expired, revoked]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches first name, last name or email
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Invited users with their invitation
+ *       403:
+ *         description: Missing permissions
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(invitationQuerySchema, 'query'), InvitationController.getInvitations);
+
+/**
+ * @swagger
+ * /api/invitations/accept/{token}:
+ *   get:
+ *     summary: Look up an invitation
+ *     description: Public. Returns who is being invited so the accept page can greet the invitee.
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitee name, email, role and invitation expiry
+ *       400:
+ *         description: Invalid or expired invitation
+ */
+router.get('/accept/:token', validateRequest(tokenParamSchema, 'params'), InvitationController.getInvitationByToken);
+
+/**
+ * @swagger
+ * /api/invitations/accept/{token}:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: Public. Sets the invitee's password, verifies their email and activates the account.
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResetPasswordRequest'
+ *     responses:
+ *       200:
+ *         description: Invitation accepted; the user can sign in
+ *       400:
+ *         description: Invalid or expired invitation, or password does not meet the requirements
+ */
+router.post('/accept/:token',
+  passwordResetLimiter,
+  validateRequest(tokenParamSchema, 'params'),
+  validateRequest(resetPasswordSchema),
+  InvitationController.acceptInvitation
+);
+
+/**
+ * @swagger
+ * /api/invitations/{userId}/resend:
+ *   post:
+ *     summary: Resend an invitation
+ *     description: Emails a new invitation link with a fresh expiry. Previous links stop working. Also re-invites users whose invitation was revoked.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation sent
+ *       404:
+ *         description: No open invitation for this user
+ */
+router.post('/:userId/resend',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(invitationUserParamSchema, 'params'),
+  InvitationController.resendInvitation
+);
+
+/**
+ * @swagger
+ * /api/invitations/{userId}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     description: The invitation link stops working and the account is set inactive until the user is invited again.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       404:
+ *         description: No pending invitation for this user
+ */
+router.delete('/:userId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(invitationUserParamSchema, 'params'), InvitationController.revokeInvitation);
+
+export default router;
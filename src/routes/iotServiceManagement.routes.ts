@@ -1,10 +1,10 @@
 import { Router } from 'express';
 import { IoTServiceManagementController } from '../controllers/iotServiceManagement.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
 import { generalLimiter } from '../middleware/rateLimiter';
 import {
     validateAddIoTServiceToCategory,
     validateBulkUpdateIoTServices,
-    validateDeleteIoTServiceManagement,
     validateInitializeIoTServices,
     validateIoTServiceQuery,
     validateRemoveIoTServiceFromCategory,
@@ -23,6 +23,8 @@ router.use(generalLimiter);
  *   post:
  *     summary: Initialize IoT services for a facility (DEPRECATED - IoT Services are auto-initialized when creating facility)
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     deprecated: true
  *     description: This endpoint is deprecated. IoT services are now automatically initialized when a facility is created.
  *     requestBody:
@@ -35,7 +37,6 @@ router.use(generalLimiter);
  *               - facilityId
  *               - facilityName
  *               - facilityType
- *               - createdBy
  *             properties:
  *               facilityId:
  *                 type: string
@@ -44,9 +45,6 @@ router.use(generalLimiter);
  *                 type: string
  *               facilityType:
  *                 type: string
- *               createdBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       201:
  *         description: IoT services initialized successfully
@@ -56,7 +54,7 @@ router.use(generalLimiter);
  *         description: Internal server error
  */
 // DEPRECATED: IoT services are now auto-initialized when creating facility
-router.post('/initialize', validateInitializeIoTServices, IoTServiceManagementController.initializeIoTServices);
+router.post('/initialize', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateInitializeIoTServices, IoTServiceManagementController.initializeIoTServices);
 
 /**
  * @swagger
@@ -64,6 +62,8 @@ router.post('/initialize', validateInitializeIoTServices, IoTServiceManagementCo
  *   get:
  *     summary: Get all IoT service management records with pagination
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -113,7 +113,7 @@ router.post('/initialize', validateInitializeIoTServices, IoTServiceManagementCo
  *       500:
  *         description: Internal server error
  */
-router.get('/', validateIoTServiceQuery, IoTServiceManagementController.getAllIoTServices);
+router.get('/', AuthMiddleware.authenticate, validateIoTServiceQuery, IoTServiceManagementController.getAllIoTServices);
 
 /**
  * @swagger
@@ -121,6 +121,8 @@ router.get('/', validateIoTServiceQuery, IoTServiceManagementController.getAllIo
  *   get:
  *     summary: Get IoT services by facility ID with auto-initialization
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -147,7 +149,7 @@ router.get('/', validateIoTServiceQuery, IoTServiceManagementController.getAllIo
  *       500:
  *         description: Internal server error
  */
-router.get('/facility/:facilityId', IoTServiceManagementController.getIoTServicesByFacilityId);
+router.get('/facility/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.requireFacilityAccess, IoTServiceManagementController.getIoTServicesByFacilityId);
 
 /**
  * @swagger
@@ -155,6 +157,8 @@ router.get('/facility/:facilityId', IoTServiceManagementController.getIoTService
  *   post:
  *     summary: Add a new IoT service to a category
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -172,7 +176,6 @@ router.get('/facility/:facilityId', IoTServiceManagementController.getIoTService
  *               - category
  *               - name
  *               - description
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
@@ -194,9 +197,6 @@ router.get('/facility/:facilityId', IoTServiceManagementController.getIoTService
  *               integrationEndpoint:
  *                 type: string
  *                 format: uri
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       201:
  *         description: IoT service added successfully
@@ -207,7 +207,7 @@ router.get('/facility/:facilityId', IoTServiceManagementController.getIoTService
  *       500:
  *         description: Internal server error
  */
-router.post('/facility/:facilityId/add-service', validateAddIoTServiceToCategory, IoTServiceManagementController.addIoTServiceToCategory);
+router.post('/facility/:facilityId/add-service', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateAddIoTServiceToCategory, IoTServiceManagementController.addIoTServiceToCategory);
 
 /**
  * @swagger
@@ -215,6 +215,8 @@ router.post('/facility/:facilityId/add-service', validateAddIoTServiceToCategory
  *   patch:
  *     summary: Update IoT service status (activate/deactivate)
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -232,7 +234,6 @@ router.post('/facility/:facilityId/add-service', validateAddIoTServiceToCategory
  *               - category
  *               - serviceName
  *               - isActive
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
@@ -241,9 +242,6 @@ router.post('/facility/:facilityId/add-service', validateAddIoTServiceToCategory
  *                 type: string
  *               isActive:
  *                 type: boolean
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: IoT service status updated successfully
@@ -254,7 +252,7 @@ router.post('/facility/:facilityId/add-service', validateAddIoTServiceToCategory
  *       500:
  *         description: Internal server error
  */
-router.patch('/facility/:facilityId/update-status', validateUpdateIoTServiceStatus, IoTServiceManagementController.updateIoTServiceStatus);
+router.patch('/facility/:facilityId/update-status', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateUpdateIoTServiceStatus, IoTServiceManagementController.updateIoTServiceStatus);
 
 /**
  * @swagger
@@ -262,6 +260,8 @@ router.patch('/facility/:facilityId/update-status', validateUpdateIoTServiceStat
  *   patch:
  *     summary: Update IoT service details (name, description, status, etc.)
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -278,7 +278,6 @@ router.patch('/facility/:facilityId/update-status', validateUpdateIoTServiceStat
  *             required:
  *               - category
  *               - oldServiceName
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
@@ -299,9 +298,6 @@ router.patch('/facility/:facilityId/update-status', validateUpdateIoTServiceStat
  *               integrationEndpoint:
  *                 type: string
  *                 format: uri
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: IoT service details updated successfully
@@ -312,7 +308,7 @@ router.patch('/facility/:facilityId/update-status', validateUpdateIoTServiceStat
  *       500:
  *         description: Internal server error
  */
-router.patch('/facility/:facilityId/update-details', validateUpdateIoTServiceDetails, IoTServiceManagementController.updateIoTServiceDetails);
+router.patch('/facility/:facilityId/update-details', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateUpdateIoTServiceDetails, IoTServiceManagementController.updateIoTServiceDetails);
 
 /**
  * @swagger
@@ -320,6 +316,8 @@ router.patch('/facility/:facilityId/update-details', validateUpdateIoTServiceDet
  *   delete:
  *     summary: Remove IoT service from category
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -336,16 +334,12 @@ router.patch('/facility/:facilityId/update-details', validateUpdateIoTServiceDet
  *             required:
  *               - category
  *               - serviceName
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
  *                 enum: [Attendance Management, HK/Garden/Pest Monitoring, Assets Management, Water Management, Power Management, Complaint Management]
  *               serviceName:
  *                 type: string
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: IoT service removed successfully
@@ -356,7 +350,7 @@ router.patch('/facility/:facilityId/update-details', validateUpdateIoTServiceDet
  *       500:
  *         description: Internal server error
  */
-router.delete('/facility/:facilityId/remove-service', validateRemoveIoTServiceFromCategory, IoTServiceManagementController.removeIoTServiceFromCategory);
+router.delete('/facility/:facilityId/remove-service', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateRemoveIoTServiceFromCategory, IoTServiceManagementController.removeIoTServiceFromCategory);
 
 /**
  * @swagger
@@ -364,6 +358,8 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveIoTServiceFr
  *   patch:
  *     summary: Bulk update IoT services
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -379,7 +375,6 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveIoTServiceFr
  *             type: object
  *             required:
  *               - services
- *               - updatedBy
  *             properties:
  *               services:
  *                 type: array
@@ -393,9 +388,6 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveIoTServiceFr
  *                       type: string
  *                     isActive:
  *                       type: boolean
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: IoT services updated successfully
@@ -406,7 +398,7 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveIoTServiceFr
  *       500:
  *         description: Internal server error
  */
-router.patch('/facility/:facilityId/bulk-update', validateBulkUpdateIoTServices, IoTServiceManagementController.bulkUpdateIoTServices);
+router.patch('/facility/:facilityId/bulk-update', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateBulkUpdateIoTServices, IoTServiceManagementController.bulkUpdateIoTServices);
 
 /**
  * @swagger
@@ -414,6 +406,8 @@ router.patch('/facility/:facilityId/bulk-update', validateBulkUpdateIoTServices,
  *   get:
  *     summary: Get IoT service statistics for a facility
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -429,7 +423,7 @@ router.patch('/facility/:facilityId/bulk-update', validateBulkUpdateIoTServices,
  *       500:
  *         description: Internal server error
  */
-router.get('/facility/:facilityId/statistics', IoTServiceManagementController.getIoTServiceStatistics);
+router.get('/facility/:facilityId/statistics', AuthMiddleware.authenticate, AuthMiddleware.requireFacilityAccess, IoTServiceManagementController.getIoTServiceStatistics);
 
 /**
  * @swagger
@@ -437,6 +431,8 @@ router.get('/facility/:facilityId/statistics', IoTServiceManagementController.ge
  *   delete:
  *     summary: Delete IoT service management (soft delete)
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -444,18 +440,6 @@ router.get('/facility/:facilityId/statistics', IoTServiceManagementController.ge
  *         schema:
  *           type: string
  *           format: objectId
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - updatedBy
- *             properties:
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: IoT service management deleted successfully
@@ -464,7 +448,7 @@ router.get('/facility/:facilityId/statistics', IoTServiceManagementController.ge
  *       500:
  *         description: Internal server error
  */
-router.delete('/facility/:facilityId', validateDeleteIoTServiceManagement, IoTServiceManagementController.deleteIoTServiceManagement);
+router.delete('/facility/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, IoTServiceManagementController.deleteIoTServiceManagement);
 
 /**
  * @swagger
@@ -472,12 +456,14 @@ router.delete('/facility/:facilityId', validateDeleteIoTServiceManagement, IoTSe
  *   get:
  *     summary: Get global IoT service statistics
  *     tags: [IoT Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Global IoT service statistics including adoption rates
  *       500:
  *         description: Internal server error
  */
-router.get('/statistics/global', IoTServiceManagementController.getGlobalIoTServiceStatistics);
+router.get('/statistics/global', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, IoTServiceManagementController.getGlobalIoTServiceStatistics);
 
 export default router;
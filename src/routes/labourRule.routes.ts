@@ -0,0 +1,216 @@
+import { Router } from 'express';
+import { LabourRuleController } from '../controllers/labourRule.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  labourRuleFacilityParamSchema,
+  updateLabourRulesSchema,
+  validateScheduleQuerySchema
+} from '../validations/labourRule.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LabourRules:
+ *       type: object
+ *       description: |
+ *         Working-time rules of a facility, checked when shift schedules, rosters and shift swaps are written.
+ *         Hours are worked hours (shift length minus break) counted on the date a shift starts; a shift ending at
+ *         or before its start time ends the next day. Weeks run Monday to Sunday. A limit set to null is not checked.
+ *         Writes are only refused for violations they introduce, and only when enforcement is block.
+ *       properties:
+ *         facilityId:
+ *           type: string
+ *         maxDailyHours:
+ *           type: number
+ *           nullable: true
+ *           default: 12
+ *         maxWeeklyHours:
+ *           type: number
+ *           nullable: true
+ *           default: 60
+ *         minRestHours:
+ *           type: number
+ *           nullable: true
+ *           default: 8
+ *           description: Between the end of a shift and the start of the next
+ *         maxConsecutiveNights:
+ *           type: integer
+ *           nullable: true
+ *           default: 4
+ *           description: Night shifts cross midnight or start before 05:00
+ *         minWeeklyOffDays:
+ *           type: integer
+ *           nullable: true
+ *           default: 1
+ *         overtimeDailyHours:
+ *           type: number
+ *           nullable: true
+ *           default: 8
+ *           description: Hours beyond which a day is overtime (reported as a warning)
+ *         overtimeWeeklyHours:
+ *           type: number
+ *           nullable: true
+ *           default: 48
+ *           description: Hours beyond which a week is overtime (reported as a warning)
+ *         overtimeMultiplier:
+ *           type: number
+ *           default: 1.5
+ *           description: Pay rate of overtime on timesheets, relative to regular hours
+ *         nightOvertimeMultiplier:
+ *           type: number
+ *           default: 1.75
+ *           description: Pay rate of overtime worked in a night shift
+ *         holidayMultiplier:
+ *           type: number
+ *           default: 2
+ *           description: Pay rate of hours worked on a holiday, which all count as overtime
+ *         enforcement:
+ *           type: string
+ *           enum: [block, warn]
+ *           default: block
+ *           description: Whether writes breaking a rule are refused or go through with the violations returned
+ *     LabourViolation:
+ *       type: object
+ *       properties:
+ *         rule:
+ *           type: string
+ *           enum: [max_daily_hours, max_weekly_hours, min_rest, max_consecutive_nights, weekly_off, daily_overtime, weekly_overtime]
+ *         severity:
+ *           type: string
+ *           enum: [error, warning]
+ *         employeeId:
+ *           type: string
+ *         employeeName:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *           description: Day of the violation, or Monday of its week for weekly rules
+ *         message:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/labour-rules/{facilityId}:
+ *   get:
+ *     summary: Get the labour rules of a facility
+ *     tags: [Labour Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Labour rules (defaults when not configured)
+ */
+router.get('/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(labourRuleFacilityParamSchema, 'params'), LabourRuleController.getRules);
+
+/**
+ * @swagger
+ * /api/labour-rules/{facilityId}:
+ *   put:
+ *     summary: Update the labour rules of a facility
+ *     tags: [Labour Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabourRules'
+ *     responses:
+ *       200:
+ *         description: Labour rules updated successfully
+ *       400:
+ *         description: Validation error, or an overtime threshold above its maximum
+ */
+router.put('/:facilityId',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(labourRuleFacilityParamSchema, 'params'),
+  validateRequest(updateLabourRulesSchema),
+  LabourRuleController.updateRules
+);
+
+/**
+ * @swagger
+ * /api/labour-rules/{facilityId}/validate:
+ *   get:
+ *     summary: Validate the schedule of a facility
+ *     description: |
+ *       Lists every violation of the labour rules between two dates (at most 62 days), from the published rosters
+ *       and, on days without one, the shift schedules. Weekly rules cover every week overlapping the range.
+ *     tags: [Labour Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: facilityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDrafts
+ *         schema:
+ *           type: boolean
+ *         description: Count draft rosters on days without a published one
+ *     responses:
+ *       200:
+ *         description: Violations, by date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     shifts:
+ *                       type: integer
+ *                       description: Shifts planned in the range
+ *                     errors:
+ *                       type: integer
+ *                     warnings:
+ *                       type: integer
+ *                     violations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/LabourViolation'
+ *       400:
+ *         description: Invalid range
+ */
+router.get('/:facilityId/validate', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(labourRuleFacilityParamSchema, 'params'), validateRequest(validateScheduleQuerySchema, 'query'), LabourRuleController.validateSchedule);
+
+export default router;
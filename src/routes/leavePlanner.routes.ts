@@ -1,6 +1,19 @@
 import { Router } from 'express';
 import { LeavePlannerController } from '../controllers/leavePlanner.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  approvalActionSchema,
+  approvalIdParamSchema,
+  rejectRequestSchema
+} from '../validations/approval.validation';
+import {
+  adjustLeaveBalanceSchema,
+  encashLeaveSchema,
+  leaveBalanceParamSchema,
+  leaveBalanceQuerySchema,
+  leaveLedgerQuerySchema
+} from '../validations/leaveBalance.validation';
 
 const router = Router();
 
@@ -40,17 +53,25 @@ const router = Router();
  *           type: string
  *           format: date
  *           description: End date of the leave
+ *         halfDay:
+ *           type: string
+ *           enum: [first_half, second_half]
+ *           nullable: true
+ *           description: Half-day leave; startDate and endDate must be the same day
  *         totalDays:
  *           type: number
- *           description: Total number of leave days (auto-calculated)
+ *           description: Working days of leave (auto-calculated, excluding approved week-offs and holidays)
+ *         lossOfPayDays:
+ *           type: number
+ *           description: Days not covered by the leave balance, taken as unpaid leave (when the leave policy allows loss of pay)
  *         reason:
  *           type: string
  *           description: Reason for the leave
  *         status:
  *           type: string
- *           enum: [pending, approved, rejected]
+ *           enum: [pending, approved, rejected, cancelled, withdrawn]
  *           default: pending
- *           description: Status of the leave request
+ *           description: Status of the leave request, changed through the approve, reject, cancel and withdraw actions
  *         appliedDate:
  *           type: string
  *           format: date-time
@@ -62,6 +83,19 @@ const router = Router();
  *           type: string
  *           format: date-time
  *           description: Date when leave was approved
+ *         approvalChain:
+ *           type: array
+ *           description: Approver role per level, captured from the facility's approval workflow when the leave was applied for (empty for a single approval by any approver)
+ *           items:
+ *             type: string
+ *             enum: [supervisor, facility_manager, admin]
+ *         approvalLevel:
+ *           type: integer
+ *           description: Levels approved so far
+ *         approvalHistory:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ApprovalHistoryEntry'
  *         remarks:
  *           type: string
  *           description: Additional remarks or comments
@@ -80,6 +114,26 @@ const router = Router();
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     ApprovalHistoryEntry:
+ *       type: object
+ *       properties:
+ *         action:
+ *           type: string
+ *           enum: [submitted, approved, rejected, cancelled, withdrawn]
+ *         level:
+ *           type: integer
+ *           description: Level approved or rejected (1-based)
+ *         by:
+ *           type: string
+ *           description: ID of the user who acted
+ *         role:
+ *           type: string
+ *           description: Role of the user at the time
+ *         at:
+ *           type: string
+ *           format: date-time
+ *         remarks:
+ *           type: string
  */
 
 /**
@@ -87,6 +141,11 @@ const router = Router();
  * /api/leave-planners:
  *   post:
  *     summary: Create a new leave planner
+ *     description: |
+ *       When a leave policy applies to the employee, the application is checked against the available balance
+ *       (balance minus other pending applications). Exceeding applications are rejected or get the excess
+ *       recorded as lossOfPayDays, depending on the policy. totalDays only counts working days: the employee's
+ *       approved week-offs and the facility's holidays are excluded (data.duration has the breakdown).
  *     tags: [Leave Planners]
  *     security:
  *       - bearerAuth: []
@@ -120,6 +179,10 @@ const router = Router();
  *                 type: string
  *                 format: date
  *                 description: End date of the leave
+ *               halfDay:
+ *                 type: string
+ *                 enum: [first_half, second_half]
+ *                 description: Take only half of a single day
  *               reason:
  *                 type: string
  *                 description: Reason for the leave
@@ -143,13 +206,13 @@ const router = Router();
  *                     leavePlanner:
  *                       $ref: '#/components/schemas/LeavePlanner'
  *       400:
- *         description: Bad request
+ *         description: Bad request or insufficient leave balance
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, LeavePlannerController.createLeavePlanner);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, LeavePlannerController.createLeavePlanner);
 
 /**
  * @swagger
@@ -174,7 +237,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Lea
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, approved, rejected]
+ *           enum: [pending, approved, rejected, cancelled]
  *         description: Filter by status
  *       - in: query
  *         name: leaveType
@@ -217,7 +280,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Lea
  *       403:
  *         description: Forbidden
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, LeavePlannerController.getAllLeavePlanners);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, LeavePlannerController.getAllLeavePlanners);
 
 /**
  * @swagger
@@ -256,7 +319,312 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Leav
  *       403:
  *         description: Forbidden
  */
-router.get('/upcoming', AuthMiddleware.authenticate, AuthMiddleware.requireManager, LeavePlannerController.getUpcomingLeaves);
+router.get('/upcoming', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, LeavePlannerController.getUpcomingLeaves);
+
+/**
+ * @swagger
+ * /api/leave-planners/me:
+ *   post:
+ *     summary: Apply for leave as the signed-in employee
+ *     description: |
+ *       Same checks as creating a leave planner, for the signed-in user. The application starts as pending at the
+ *       first level of the facility's approval chain.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leaveType
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *                 description: Required when the employee belongs to several facilities
+ *               leaveType:
+ *                 type: string
+ *                 enum: [sick, annual, emergency, maternity, paternity, personal, casual, bereavement]
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               halfDay:
+ *                 type: string
+ *                 enum: [first_half, second_half]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Leave applied successfully
+ *       400:
+ *         description: Bad request or insufficient leave balance
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a member of the facility
+ */
+router.post('/me', AuthMiddleware.authenticateUser, LeavePlannerController.applyForOwnLeave);
+
+/**
+ * @swagger
+ * /api/leave-planners/me:
+ *   get:
+ *     summary: Get the signed-in employee's leave applications
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, cancelled, withdrawn]
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave applications with their approval history, newest first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me', AuthMiddleware.authenticateUser, LeavePlannerController.getMyLeavePlanners);
+
+/**
+ * @swagger
+ * /api/leave-planners/me/balances:
+ *   get:
+ *     summary: Get the signed-in employee's leave balances
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Leave balances per leave type
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a member of the facility
+ */
+router.get('/me/balances', AuthMiddleware.authenticateUser, validateRequest(leaveBalanceQuerySchema, 'query'), LeavePlannerController.getMyLeaveBalances);
+
+/**
+ * @swagger
+ * /api/leave-planners/balances/{employeeId}:
+ *   get:
+ *     summary: Get the leave balances of an employee
+ *     description: |
+ *       One entry per leave type tracked by a leave policy (or with ledger history) for the year. Accruals and
+ *       carry-forward due so far are posted before the balances are computed.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Facility whose policies apply (defaults to the employee's first facility in scope)
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Calendar year (defaults to the current year)
+ *     responses:
+ *       200:
+ *         description: |
+ *           Per leave type: carriedForward, accrued, used, encashed, adjusted, lapsed, balance, pending
+ *           (days reserved by pending applications) and available (balance minus pending)
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Employee not found
+ */
+router.get('/balances/:employeeId',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(leaveBalanceParamSchema, 'params'),
+  validateRequest(leaveBalanceQuerySchema, 'query'),
+  LeavePlannerController.getLeaveBalances
+);
+
+/**
+ * @swagger
+ * /api/leave-planners/balances/{employeeId}/ledger:
+ *   get:
+ *     summary: Get the leave ledger of an employee
+ *     description: Append-only entries behind the balances; credits are positive and debits negative.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entryType
+ *         schema:
+ *           type: string
+ *           enum: [accrual, carry_forward, lapse, debit, credit, encashment, adjustment]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Ledger entries, newest first
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Employee not found
+ */
+router.get('/balances/:employeeId/ledger',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(leaveBalanceParamSchema, 'params'),
+  validateRequest(leaveLedgerQuerySchema, 'query'),
+  LeavePlannerController.getLeaveLedger
+);
+
+/**
+ * @swagger
+ * /api/leave-planners/balances/{employeeId}/encash:
+ *   post:
+ *     summary: Encash unused leave
+ *     description: Only for encashable leave policies, within the yearly encashment limit and the available balance.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leaveType
+ *               - days
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               leaveType:
+ *                 type: string
+ *               days:
+ *                 type: number
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Leave encashed successfully
+ *       400:
+ *         description: Not encashable, encashment limit reached or insufficient balance
+ */
+router.post('/balances/:employeeId/encash',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(leaveBalanceParamSchema, 'params'),
+  validateRequest(encashLeaveSchema),
+  LeavePlannerController.encashLeave
+);
+
+/**
+ * @swagger
+ * /api/leave-planners/balances/{employeeId}/adjust:
+ *   post:
+ *     summary: Adjust a leave balance
+ *     description: Manual correction, e.g. opening balances. Positive days credit the balance, negative days debit it.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leaveType
+ *               - days
+ *               - remarks
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               year:
+ *                 type: integer
+ *               leaveType:
+ *                 type: string
+ *               days:
+ *                 type: number
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Leave balance adjusted successfully
+ *       400:
+ *         description: No leave policy applies to the employee
+ */
+router.post('/balances/:employeeId/adjust',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(leaveBalanceParamSchema, 'params'),
+  validateRequest(adjustLeaveBalanceSchema),
+  LeavePlannerController.adjustLeaveBalance
+);
 
 /**
  * @swagger
@@ -298,13 +666,16 @@ router.get('/upcoming', AuthMiddleware.authenticate, AuthMiddleware.requireManag
  *       404:
  *         description: Leave planner not found
  */
-router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, LeavePlannerController.getLeavePlannerById);
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, LeavePlannerController.getLeavePlannerById);
 
 /**
  * @swagger
  * /api/leave-planners/{id}:
  *   patch:
  *     summary: Update leave planner
+ *     description: |
+ *       The status cannot be changed here: use the approve, reject, cancel and withdraw actions. Deleting an
+ *       approved leave credits its days back. The balance is checked again when the dates or type change.
  *     tags: [Leave Planners]
  *     security:
  *       - bearerAuth: []
@@ -331,11 +702,12 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, L
  *               endDate:
  *                 type: string
  *                 format: date
- *               reason:
+ *               halfDay:
  *                 type: string
- *               status:
+ *                 enum: [first_half, second_half]
+ *                 nullable: true
+ *               reason:
  *                 type: string
- *                 enum: [pending, approved, rejected]
  *               remarks:
  *                 type: string
  *     responses:
@@ -363,7 +735,171 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, L
  *       404:
  *         description: Leave planner not found
  */
-router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, LeavePlannerController.updateLeavePlanner);
+router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, LeavePlannerController.updateLeavePlanner);
+
+/**
+ * @swagger
+ * /api/leave-planners/{id}/approve:
+ *   post:
+ *     summary: Approve the current level of a pending leave
+ *     description: Completes the leave once the last level of its approval chain is approved, debiting the paid days from the balance. The applicant cannot approve their own leave.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Level approved, or leave approved at the last level
+ *       400:
+ *         description: Leave is not pending
+ *       403:
+ *         description: Own leave, or the current level needs another role
+ *       404:
+ *         description: Leave planner not found
+ */
+router.post('/:id/approve',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  LeavePlannerController.approveLeavePlanner
+);
+
+/**
+ * @swagger
+ * /api/leave-planners/{id}/reject:
+ *   post:
+ *     summary: Reject a pending leave
+ *     description: Remarks are mandatory and shown to the applicant.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Leave rejected
+ *       400:
+ *         description: Missing remarks or leave is not pending
+ *       403:
+ *         description: Own leave, or the current level needs another role
+ *       404:
+ *         description: Leave planner not found
+ */
+router.post('/:id/reject',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(rejectRequestSchema),
+  LeavePlannerController.rejectLeavePlanner
+);
+
+/**
+ * @swagger
+ * /api/leave-planners/{id}/cancel:
+ *   post:
+ *     summary: Cancel an approved leave
+ *     description: The applicant can cancel before the leave starts; approvers of the facility at any time. The days are credited back to the balance.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Leave cancelled
+ *       400:
+ *         description: Leave is not approved
+ *       403:
+ *         description: Leave has started and the user is not an approver
+ *       404:
+ *         description: Leave planner not found
+ */
+router.post('/:id/cancel',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  LeavePlannerController.cancelLeavePlanner
+);
+
+/**
+ * @swagger
+ * /api/leave-planners/{id}/withdraw:
+ *   post:
+ *     summary: Withdraw a pending leave application
+ *     description: Only the applicant can withdraw, while the leave is still awaiting approval.
+ *     tags: [Leave Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Leave withdrawn
+ *       400:
+ *         description: Leave is not pending
+ *       403:
+ *         description: Not the applicant
+ *       404:
+ *         description: Leave planner not found
+ */
+router.post('/:id/withdraw',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  LeavePlannerController.withdrawLeavePlanner
+);
 
 /**
  * @swagger
@@ -408,6 +944,6 @@ router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager,
  *       404:
  *         description: Leave planner not found
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, LeavePlannerController.deleteLeavePlanner);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, LeavePlannerController.deleteLeavePlanner);
 
 export default router;
\ No newline at end of file
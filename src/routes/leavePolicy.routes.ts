@@ -0,0 +1,253 @@
+import { Router } from 'express';
+import { LeavePolicyController } from '../controllers/leavePolicy.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  createLeavePolicySchema,
+  leavePolicyIdParamSchema,
+  leavePolicyQuerySchema,
+  updateLeavePolicySchema
+} from '../validations/leavePolicy.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LeavePolicy:
+ *       type: object
+ *       description: |
+ *         Entitlement of one leave type for one employee type in a facility. Leave types without an active
+ *         policy for the employee are not balance-tracked.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         employeeType:
+ *           type: string
+ *           enum: [permanent, contract, intern, part_time, freelancer, consultant]
+ *         leaveType:
+ *           type: string
+ *           enum: [sick, annual, emergency, maternity, paternity, personal, casual, bereavement]
+ *         annualEntitlement:
+ *           type: number
+ *           description: Days per calendar year
+ *           example: 18
+ *         accrualFrequency:
+ *           type: string
+ *           enum: [yearly, monthly]
+ *           default: yearly
+ *           description: yearly credits the entitlement on 1 January, monthly credits one twelfth every month
+ *         proRateFromHireDate:
+ *           type: boolean
+ *           default: true
+ *           description: In the year of joining, only credit the months from the employee's hire date
+ *         carryForwardLimit:
+ *           type: number
+ *           default: 0
+ *           description: Unused days carried into the next year; the rest lapses
+ *         encashable:
+ *           type: boolean
+ *           default: false
+ *         maxEncashableDays:
+ *           type: number
+ *           default: 0
+ *           description: Days that can be encashed per calendar year
+ *         exceedAction:
+ *           type: string
+ *           enum: [reject, loss_of_pay]
+ *           default: reject
+ *           description: Whether applications exceeding the available balance are rejected or accepted with the excess as loss of pay
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/leave-policies:
+ *   post:
+ *     summary: Create a leave policy
+ *     tags: [Leave Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - facilityId
+ *               - employeeType
+ *               - leaveType
+ *               - annualEntitlement
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               employeeType:
+ *                 type: string
+ *               leaveType:
+ *                 type: string
+ *               annualEntitlement:
+ *                 type: number
+ *               accrualFrequency:
+ *                 type: string
+ *                 enum: [yearly, monthly]
+ *               proRateFromHireDate:
+ *                 type: boolean
+ *               carryForwardLimit:
+ *                 type: number
+ *               encashable:
+ *                 type: boolean
+ *               maxEncashableDays:
+ *                 type: number
+ *               exceedAction:
+ *                 type: string
+ *                 enum: [reject, loss_of_pay]
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Leave policy created successfully
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing permissions or facility access
+ *       409:
+ *         description: A policy for this employee type and leave type already exists in the facility
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createLeavePolicySchema), LeavePolicyController.createLeavePolicy);
+
+/**
+ * @swagger
+ * /api/leave-policies:
+ *   get:
+ *     summary: List leave policies
+ *     tags: [Leave Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Leave policies
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(leavePolicyQuerySchema, 'query'), LeavePolicyController.getLeavePolicies);
+
+/**
+ * @swagger
+ * /api/leave-policies/{id}:
+ *   get:
+ *     summary: Get a leave policy
+ *     tags: [Leave Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave policy
+ *       404:
+ *         description: Leave policy not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(leavePolicyIdParamSchema, 'params'), LeavePolicyController.getLeavePolicyById);
+
+/**
+ * @swagger
+ * /api/leave-policies/{id}:
+ *   patch:
+ *     summary: Update a leave policy
+ *     description: Changes apply to accruals posted from now on; accruals already in employees' ledgers are kept.
+ *     tags: [Leave Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LeavePolicy'
+ *     responses:
+ *       200:
+ *         description: Leave policy updated successfully
+ *       404:
+ *         description: Leave policy not found
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(leavePolicyIdParamSchema, 'params'),
+  validateRequest(updateLeavePolicySchema),
+  LeavePolicyController.updateLeavePolicy
+);
+
+/**
+ * @swagger
+ * /api/leave-policies/{id}:
+ *   delete:
+ *     summary: Delete a leave policy (soft delete)
+ *     description: The leave type is no longer balance-tracked for the employee type; existing ledger entries are kept.
+ *     tags: [Leave Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave policy deleted successfully
+ *       404:
+ *         description: Leave policy not found
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(leavePolicyIdParamSchema, 'params'), LeavePolicyController.deleteLeavePolicy);
+
+export default router;
@@ -112,7 +112,7 @@ const router = express.Router();
  */
 router.post('/', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreatePowerManagement, 
   createPowerManagement
 );
@@ -243,7 +243,7 @@ router.get('/:id',
  */
 router.put('/:id', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdatePowerManagement, 
   updatePowerManagement
 );
@@ -275,7 +275,7 @@ router.put('/:id',
  */
 router.delete('/:id', 
   AuthMiddleware.authenticate, 
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deletePowerManagement
 );
 
@@ -259,7 +259,7 @@ const router = express.Router();
  */
 router.post('/stp',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateSTP,
   createSTP
 );
@@ -368,7 +368,7 @@ router.get('/stp/:id',
  */
 router.put('/stp/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateSTP,
   updateSTP
 );
@@ -399,14 +399,14 @@ router.put('/stp/:id',
  */
 router.delete('/stp/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteSTP
 );
 
 // WTP ROUTES
 router.post('/wtp',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateWTP,
   createWTP
 );
@@ -423,21 +423,21 @@ router.get('/wtp/:id',
 
 router.put('/wtp/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateWTP,
   updateWTP
 );
 
 router.delete('/wtp/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteWTP
 );
 
 // SWIMMING POOL ROUTES
 router.post('/swimming-pools',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateSwimmingPool,
   createSwimmingPool
 );
@@ -454,21 +454,21 @@ router.get('/swimming-pools/:id',
 
 router.put('/swimming-pools/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateSwimmingPool,
   updateSwimmingPool
 );
 
 router.delete('/swimming-pools/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteSwimmingPool
 );
 
 // RO PLANT ROUTES
 router.post('/ro-plants',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateROPlant,
   createROPlant
 );
@@ -485,14 +485,14 @@ router.get('/ro-plants/:id',
 
 router.put('/ro-plants/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateROPlant,
   updateROPlant
 );
 
 router.delete('/ro-plants/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteROPlant
 );
 
@@ -0,0 +1,372 @@
+import { Router } from 'express';
+import { RoleController } from '../controllers/role.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  assignRoleSchema,
+  createRoleSchema,
+  roleAssignmentParamSchema,
+  roleIdParamSchema,
+  roleQuerySchema,
+  updateRoleSchema
+} from '../validations/role.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Role:
+ *       type: object
+ *       description: |
+ *         Named permission template assigned to users on top of their base role.
+ *         A user's permissions resolve as per-user overrides first, then the base role defaults and
+ *         customPermissions, then the templates of the user's active custom roles.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Security Supervisor
+ *         description:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *           nullable: true
+ *           description: Facility owning the role; null for a global role usable in every facility
+ *         permissions:
+ *           type: object
+ *           additionalProperties:
+ *             type: boolean
+ *           example:
+ *             canManageAttendance: true
+ *             canManageShifts: true
+ *         customPermissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *         createdBy:
+ *           type: string
+ *         updatedBy:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/roles:
+ *   post:
+ *     summary: Create a custom role
+ *     description: |
+ *       Global roles can only be created by users not limited to some facilities. Only permissions held by the
+ *       current user can be put in the template.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               facilityId:
+ *                 type: string
+ *                 nullable: true
+ *               permissions:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: boolean
+ *               customPermissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Role created successfully
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing permissions, facility access or permission not held by the current user
+ *       409:
+ *         description: A role with this name already exists in the facility (or globally)
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createRoleSchema), RoleController.createRole);
+
+/**
+ * @swagger
+ * /api/roles:
+ *   get:
+ *     summary: List custom roles
+ *     description: Global roles plus the roles of the facilities the user can access
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [global, facility]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(roleQuerySchema, 'query'), RoleController.getRoles);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   get:
+ *     summary: Get a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role with the number of users it is assigned to
+ *       404:
+ *         description: Role not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(roleIdParamSchema, 'params'), RoleController.getRoleById);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   patch:
+ *     summary: Update a custom role
+ *     description: Changes apply immediately to every user holding the role. The facility of a role cannot be changed.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: boolean
+ *               customPermissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *       403:
+ *         description: Global role changed by a facility-limited user, or permission not held by the current user
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: A role with this name already exists
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(roleIdParamSchema, 'params'),
+  validateRequest(updateRoleSchema),
+  RoleController.updateRole
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: Soft deletes the role and removes it from every user holding it
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted successfully
+ *       403:
+ *         description: Global role deleted by a facility-limited user
+ *       404:
+ *         description: Role not found
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(roleIdParamSchema, 'params'), RoleController.deleteRole);
+
+/**
+ * @swagger
+ * /api/roles/{id}/users:
+ *   get:
+ *     summary: List the users a custom role is assigned to
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Users holding the role
+ *       404:
+ *         description: Role not found
+ */
+router.get('/:id/users', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(roleIdParamSchema, 'params'), RoleController.getRoleUsers);
+
+/**
+ * @swagger
+ * /api/roles/{id}/users:
+ *   post:
+ *     summary: Assign a custom role to users
+ *     description: |
+ *       Users keep their base role and gain the role's permissions. Facility roles can only be assigned to users of
+ *       that facility, and only roles whose permissions the current user holds can be assigned.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userIds
+ *             properties:
+ *               userIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Role assigned successfully
+ *       400:
+ *         description: Validation error or inactive role
+ *       403:
+ *         description: Role grants permissions the current user does not hold
+ *       404:
+ *         description: Role or users not found
+ */
+router.post('/:id/users',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(roleIdParamSchema, 'params'),
+  validateRequest(assignRoleSchema),
+  RoleController.assignRole
+);
+
+/**
+ * @swagger
+ * /api/roles/{id}/users/{userId}:
+ *   delete:
+ *     summary: Remove a custom role from a user
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role removed from the user
+ *       404:
+ *         description: Role not found or user does not have it
+ */
+router.delete('/:id/users/:userId',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(roleAssignmentParamSchema, 'params'),
+  RoleController.unassignRole
+);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { RosterController } from '../controllers/roster.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import { rosterRangeSchema } from '../validations/roster.validation';
 
 const router = Router();
 
@@ -39,11 +41,39 @@ const router = Router();
  *                 description: Reference to employee
  *               status:
  *                 type: string
- *                 enum: [present, absent, leave, sick]
+ *                 enum: [scheduled, present, absent, leave, sick]
  *                 description: Employee status for the shift
  *               remarks:
  *                 type: string
  *                 description: Optional remarks
+ *         status:
+ *           type: string
+ *           enum: [draft, published]
+ *           default: published
+ *           description: Draft rosters are under review and do not decide who works until published
+ *         generated:
+ *           type: boolean
+ *           description: Built by the roster generator
+ *         unfilledSlots:
+ *           type: array
+ *           description: Staffing minimums the generator could not meet
+ *           items:
+ *             type: object
+ *             properties:
+ *               shiftName:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *                 nullable: true
+ *               required:
+ *                 type: integer
+ *               assigned:
+ *                 type: integer
+ *         publishedBy:
+ *           type: string
+ *         publishedAt:
+ *           type: string
+ *           format: date-time
  *         createdBy:
  *           type: string
  *           description: ID of user who created the roster
@@ -126,8 +156,10 @@ const router = Router();
  *         description: Bad request
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: The roster breaks the facility's labour rules
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, RosterController.createRoster);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, RosterController.createRoster);
 
 /**
  * @swagger
@@ -149,6 +181,12 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Ros
  *           type: string
  *           format: date
  *         description: Filter by date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, published]
+ *         description: Filter by roster status
  *     responses:
  *       200:
  *         description: Rosters retrieved successfully
@@ -170,7 +208,88 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Ros
  *       401:
  *         description: Unauthorized
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, RosterController.getAllRosters);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, RosterController.getAllRosters);
+
+/**
+ * @swagger
+ * /api/rosters/generate:
+ *   post:
+ *     summary: Generate draft rosters for a date range
+ *     description: |
+ *       Builds one draft roster per day from the facility's shift schedules. Employees are rostered on the working
+ *       days of their schedules unless on an approved leave, an approved week-off or a holiday that applies to them,
+ *       then moved between shifts to meet the staffing requirements, night shifts going to those who worked the
+ *       fewest in the previous four weeks. Earlier drafts of the range are replaced; days with a published roster
+ *       are skipped. Minimums that cannot be met are listed as unfilled slots.
+ *     tags: [Rosters]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - from
+ *               - to
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *                 description: Required unless the user manages a single facility
+ *               from:
+ *                 type: string
+ *                 format: date
+ *               to:
+ *                 type: string
+ *                 format: date
+ *                 description: At most 31 days after from
+ *     responses:
+ *       201:
+ *         description: Draft rosters per day, skipped dates, unfilled slots, night shifts per employee and labour rule violations
+ *       400:
+ *         description: Invalid date range
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.post('/generate', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(rosterRangeSchema), RosterController.generateRosters);
+
+/**
+ * @swagger
+ * /api/rosters/publish:
+ *   post:
+ *     summary: Publish the draft rosters of a date range
+ *     description: Drafts of days that already have a published roster are left as drafts and reported as conflicts.
+ *     tags: [Rosters]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - from
+ *               - to
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               from:
+ *                 type: string
+ *                 format: date
+ *               to:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Number of rosters published, conflicting dates and labour rule warnings
+ *       400:
+ *         description: Invalid date range
+ *       409:
+ *         description: Publishing would break the facility's labour rules
+ */
+router.post('/publish', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(rosterRangeSchema), RosterController.publishRosters);
 
 /**
  * @swagger
@@ -210,7 +329,7 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Rost
  *       404:
  *         description: Roster not found
  */
-router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, RosterController.getRosterById);
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, RosterController.getRosterById);
 
 /**
  * @swagger
@@ -275,8 +394,10 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, R
  *         description: Unauthorized
  *       404:
  *         description: Roster not found
+ *       409:
+ *         description: The roster breaks the facility's labour rules
  */
-router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, RosterController.updateRoster);
+router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, RosterController.updateRoster);
 
 /**
  * @swagger
@@ -319,6 +440,6 @@ router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager,
  *       404:
  *         description: Roster not found
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, RosterController.deleteRoster);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, RosterController.deleteRoster);
 
 export default router;
@@ -0,0 +1,230 @@
+import { Router } from 'express';
+import { RotationAssignmentController } from '../controllers/rotationAssignment.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  createRotationAssignmentSchema,
+  materializeRotationSchema,
+  rotationAssignmentIdParamSchema,
+  shiftRotationQuerySchema,
+  updateRotationAssignmentSchema
+} from '../validations/shiftRotation.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RotationAssignment:
+ *       type: object
+ *       description: |
+ *         Rotation pattern followed by an employee or a team from a start date. One shift schedule per employee
+ *         and working day is materialized up to SHIFT_ROTATION_HORIZON_DAYS ahead and extended daily. Team members
+ *         share the same cycle; use separate assignments with different start offsets to stagger them.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         rotationPatternId:
+ *           type: string
+ *         employeeIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         teamName:
+ *           type: string
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         startOffset:
+ *           type: integer
+ *           default: 0
+ *           description: Day of the cycle (0-based) the assignment starts on
+ *         materializedUntil:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ */
+
+/**
+ * @swagger
+ * /api/rotation-assignments:
+ *   post:
+ *     summary: Assign a rotation pattern to an employee or a team
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RotationAssignment'
+ *     responses:
+ *       201:
+ *         description: Rotation assignment and the schedules materialized
+ *       404:
+ *         description: Rotation pattern not found
+ *       409:
+ *         description: An employee already follows another rotation on these dates
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createRotationAssignmentSchema), RotationAssignmentController.createRotationAssignment);
+
+/**
+ * @swagger
+ * /api/rotation-assignments:
+ *   get:
+ *     summary: Get rotation assignments
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rotationPatternId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Rotation assignments
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(shiftRotationQuerySchema, 'query'), RotationAssignmentController.getRotationAssignments);
+
+/**
+ * @swagger
+ * /api/rotation-assignments/{id}:
+ *   get:
+ *     summary: Get a rotation assignment
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation assignment
+ *       404:
+ *         description: Rotation assignment not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(rotationAssignmentIdParamSchema, 'params'), RotationAssignmentController.getRotationAssignmentById);
+
+/**
+ * @swagger
+ * /api/rotation-assignments/{id}:
+ *   patch:
+ *     summary: Update a rotation assignment
+ *     description: Future schedules are re-materialized; deactivating the assignment removes them.
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RotationAssignment'
+ *     responses:
+ *       200:
+ *         description: Rotation assignment and the schedules created, updated and removed
+ *       409:
+ *         description: An employee already follows another rotation on these dates
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(rotationAssignmentIdParamSchema, 'params'),
+  validateRequest(updateRotationAssignmentSchema),
+  RotationAssignmentController.updateRotationAssignment
+);
+
+/**
+ * @swagger
+ * /api/rotation-assignments/{id}/materialize:
+ *   post:
+ *     summary: Materialize the schedules of a rotation assignment further ahead
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - until
+ *             properties:
+ *               until:
+ *                 type: string
+ *                 format: date
+ *                 description: At most a year ahead
+ *     responses:
+ *       200:
+ *         description: Schedules created, updated and removed
+ */
+router.post('/:id/materialize',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(rotationAssignmentIdParamSchema, 'params'),
+  validateRequest(materializeRotationSchema),
+  RotationAssignmentController.materializeRotationAssignment
+);
+
+/**
+ * @swagger
+ * /api/rotation-assignments/{id}:
+ *   delete:
+ *     summary: Delete a rotation assignment
+ *     description: The schedules it materialized for today and later dates are removed.
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation assignment deleted successfully
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(rotationAssignmentIdParamSchema, 'params'), RotationAssignmentController.deleteRotationAssignment);
+
+export default router;
@@ -0,0 +1,166 @@
+import { Router } from 'express';
+import { RotationPatternController } from '../controllers/rotationPattern.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  createRotationPatternSchema,
+  rotationPatternIdParamSchema,
+  shiftRotationQuerySchema,
+  updateRotationPatternSchema
+} from '../validations/shiftRotation.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RotationPattern:
+ *       type: object
+ *       description: |
+ *         Repeating sequence of shifts. Each step is a run of days on one shift template, or days off when
+ *         shiftTemplateId is null; the cycle restarts after the last step. For example two weeks of mornings then
+ *         two weeks of nights is [{Morning, 14}, {Night, 14}] and four on, two off is [{Morning, 4}, {null, 2}].
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         steps:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               shiftTemplateId:
+ *                 type: string
+ *                 nullable: true
+ *               days:
+ *                 type: integer
+ *                 minimum: 1
+ */
+
+/**
+ * @swagger
+ * /api/rotation-patterns:
+ *   post:
+ *     summary: Create a rotation pattern
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RotationPattern'
+ *     responses:
+ *       201:
+ *         description: Rotation pattern and its cycle length in days
+ *       400:
+ *         description: Invalid steps
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createRotationPatternSchema), RotationPatternController.createRotationPattern);
+
+/**
+ * @swagger
+ * /api/rotation-patterns:
+ *   get:
+ *     summary: Get rotation patterns
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation patterns
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(shiftRotationQuerySchema, 'query'), RotationPatternController.getRotationPatterns);
+
+/**
+ * @swagger
+ * /api/rotation-patterns/{id}:
+ *   get:
+ *     summary: Get a rotation pattern
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation pattern with its shift templates
+ *       404:
+ *         description: Rotation pattern not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(rotationPatternIdParamSchema, 'params'), RotationPatternController.getRotationPatternById);
+
+/**
+ * @swagger
+ * /api/rotation-patterns/{id}:
+ *   patch:
+ *     summary: Update a rotation pattern
+ *     description: Changing the steps re-materializes the future schedules of every active assignment of the pattern.
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RotationPattern'
+ *     responses:
+ *       200:
+ *         description: Rotation pattern and the schedules created, updated and removed
+ *       404:
+ *         description: Rotation pattern not found
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(rotationPatternIdParamSchema, 'params'),
+  validateRequest(updateRotationPatternSchema),
+  RotationPatternController.updateRotationPattern
+);
+
+/**
+ * @swagger
+ * /api/rotation-patterns/{id}:
+ *   delete:
+ *     summary: Delete a rotation pattern
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation pattern deleted successfully
+ *       409:
+ *         description: The pattern has active assignments
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(rotationPatternIdParamSchema, 'params'), RotationPatternController.deleteRotationPattern);
+
+export default router;
@@ -1,10 +1,10 @@
 import { Router } from 'express';
 import { ServiceManagementController } from '../controllers/serviceManagement.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
 import { generalLimiter } from '../middleware/rateLimiter';
 import {
     validateAddServiceToCategory,
     validateBulkUpdateServices,
-    validateDeleteServiceManagement,
     validateInitializeServices,
     validateRemoveServiceFromCategory,
     validateServiceQuery,
@@ -23,6 +23,8 @@ router.use(generalLimiter);
  *   post:
  *     summary: Manually initialize services for a facility (for existing facilities without services)
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     description: This endpoint can be used to initialize services for existing facilities that don't have services yet.
  *     requestBody:
  *       required: true
@@ -34,7 +36,6 @@ router.use(generalLimiter);
  *               - facilityId
  *               - facilityName
  *               - facilityType
- *               - createdBy
  *             properties:
  *               facilityId:
  *                 type: string
@@ -44,9 +45,6 @@ router.use(generalLimiter);
  *               facilityType:
  *                 type: string
  *                 description: Type of facility (e.g., residential, commercial, industrial, corporate, mixed, etc.)
- *               createdBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       201:
  *         description: Services initialized successfully
@@ -55,7 +53,7 @@ router.use(generalLimiter);
  *       500:
  *         description: Internal server error
  */
-router.post('/initialize', validateInitializeServices, ServiceManagementController.initializeServices);
+router.post('/initialize', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateInitializeServices, ServiceManagementController.initializeServices);
 
 /**
  * @swagger
@@ -63,6 +61,8 @@ router.post('/initialize', validateInitializeServices, ServiceManagementControll
  *   get:
  *     summary: Get all service management records with pagination
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -108,7 +108,7 @@ router.post('/initialize', validateInitializeServices, ServiceManagementControll
  *       500:
  *         description: Internal server error
  */
-router.get('/', validateServiceQuery, ServiceManagementController.getAllServices);
+router.get('/', AuthMiddleware.authenticate, validateServiceQuery, ServiceManagementController.getAllServices);
 
 /**
  * @swagger
@@ -116,6 +116,8 @@ router.get('/', validateServiceQuery, ServiceManagementController.getAllServices
  *   get:
  *     summary: Get services by facility ID
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -142,7 +144,7 @@ router.get('/', validateServiceQuery, ServiceManagementController.getAllServices
  *       500:
  *         description: Internal server error
  */
-router.get('/facility/:facilityId', ServiceManagementController.getServicesByFacilityId);
+router.get('/facility/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.requireFacilityAccess, ServiceManagementController.getServicesByFacilityId);
 
 /**
  * @swagger
@@ -150,6 +152,8 @@ router.get('/facility/:facilityId', ServiceManagementController.getServicesByFac
  *   post:
  *     summary: Add a new service to a category
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -167,7 +171,6 @@ router.get('/facility/:facilityId', ServiceManagementController.getServicesByFac
  *               - category
  *               - name
  *               - description
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
@@ -179,9 +182,6 @@ router.get('/facility/:facilityId', ServiceManagementController.getServicesByFac
  *               isActive:
  *                 type: boolean
  *                 default: false
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       201:
  *         description: Service added successfully
@@ -192,7 +192,7 @@ router.get('/facility/:facilityId', ServiceManagementController.getServicesByFac
  *       500:
  *         description: Internal server error
  */
-router.post('/facility/:facilityId/add-service', validateAddServiceToCategory, ServiceManagementController.addServiceToCategory);
+router.post('/facility/:facilityId/add-service', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateAddServiceToCategory, ServiceManagementController.addServiceToCategory);
 
 /**
  * @swagger
@@ -200,6 +200,8 @@ router.post('/facility/:facilityId/add-service', validateAddServiceToCategory, S
  *   patch:
  *     summary: Update service status (activate/deactivate)
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -217,7 +219,6 @@ router.post('/facility/:facilityId/add-service', validateAddServiceToCategory, S
  *               - category
  *               - serviceName
  *               - isActive
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
@@ -226,9 +227,6 @@ router.post('/facility/:facilityId/add-service', validateAddServiceToCategory, S
  *                 type: string
  *               isActive:
  *                 type: boolean
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: Service status updated successfully
@@ -239,7 +237,7 @@ router.post('/facility/:facilityId/add-service', validateAddServiceToCategory, S
  *       500:
  *         description: Internal server error
  */
-router.patch('/facility/:facilityId/update-status', validateUpdateServiceStatus, ServiceManagementController.updateServiceStatus);
+router.patch('/facility/:facilityId/update-status', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateUpdateServiceStatus, ServiceManagementController.updateServiceStatus);
 
 /**
  * @swagger
@@ -247,6 +245,8 @@ router.patch('/facility/:facilityId/update-status', validateUpdateServiceStatus,
  *   patch:
  *     summary: Update service details (name, description)
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -263,7 +263,6 @@ router.patch('/facility/:facilityId/update-status', validateUpdateServiceStatus,
  *             required:
  *               - category
  *               - oldServiceName
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
@@ -274,9 +273,6 @@ router.patch('/facility/:facilityId/update-status', validateUpdateServiceStatus,
  *                 type: string
  *               description:
  *                 type: string
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: Service details updated successfully
@@ -287,7 +283,7 @@ router.patch('/facility/:facilityId/update-status', validateUpdateServiceStatus,
  *       500:
  *         description: Internal server error
  */
-router.patch('/facility/:facilityId/update-details', validateUpdateServiceDetails, ServiceManagementController.updateServiceDetails);
+router.patch('/facility/:facilityId/update-details', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateUpdateServiceDetails, ServiceManagementController.updateServiceDetails);
 
 /**
  * @swagger
@@ -295,6 +291,8 @@ router.patch('/facility/:facilityId/update-details', validateUpdateServiceDetail
  *   delete:
  *     summary: Remove service from category
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -311,16 +309,12 @@ router.patch('/facility/:facilityId/update-details', validateUpdateServiceDetail
  *             required:
  *               - category
  *               - serviceName
- *               - updatedBy
  *             properties:
  *               category:
  *                 type: string
  *                 enum: [Soft Services, Technical Services, AMC Services]
  *               serviceName:
  *                 type: string
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: Service removed successfully
@@ -331,7 +325,7 @@ router.patch('/facility/:facilityId/update-details', validateUpdateServiceDetail
  *       500:
  *         description: Internal server error
  */
-router.delete('/facility/:facilityId/remove-service', validateRemoveServiceFromCategory, ServiceManagementController.removeServiceFromCategory);
+router.delete('/facility/:facilityId/remove-service', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateRemoveServiceFromCategory, ServiceManagementController.removeServiceFromCategory);
 
 /**
  * @swagger
@@ -339,6 +333,8 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveServiceFromC
  *   patch:
  *     summary: Bulk update services
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -354,7 +350,6 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveServiceFromC
  *             type: object
  *             required:
  *               - services
- *               - updatedBy
  *             properties:
  *               services:
  *                 type: array
@@ -368,9 +363,6 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveServiceFromC
  *                       type: string
  *                     isActive:
  *                       type: boolean
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: Services updated successfully
@@ -381,7 +373,7 @@ router.delete('/facility/:facilityId/remove-service', validateRemoveServiceFromC
  *       500:
  *         description: Internal server error
  */
-router.patch('/facility/:facilityId/bulk-update', validateBulkUpdateServices, ServiceManagementController.bulkUpdateServices);
+router.patch('/facility/:facilityId/bulk-update', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, validateBulkUpdateServices, ServiceManagementController.bulkUpdateServices);
 
 /**
  * @swagger
@@ -389,6 +381,8 @@ router.patch('/facility/:facilityId/bulk-update', validateBulkUpdateServices, Se
  *   get:
  *     summary: Get service statistics for a facility
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -404,7 +398,7 @@ router.patch('/facility/:facilityId/bulk-update', validateBulkUpdateServices, Se
  *       500:
  *         description: Internal server error
  */
-router.get('/facility/:facilityId/statistics', ServiceManagementController.getServiceStatistics);
+router.get('/facility/:facilityId/statistics', AuthMiddleware.authenticate, AuthMiddleware.requireFacilityAccess, ServiceManagementController.getServiceStatistics);
 
 /**
  * @swagger
@@ -412,6 +406,8 @@ router.get('/facility/:facilityId/statistics', ServiceManagementController.getSe
  *   delete:
  *     summary: Delete service management (soft delete)
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -419,18 +415,6 @@ router.get('/facility/:facilityId/statistics', ServiceManagementController.getSe
  *         schema:
  *           type: string
  *           format: objectId
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - updatedBy
- *             properties:
- *               updatedBy:
- *                 type: string
- *                 format: objectId
  *     responses:
  *       200:
  *         description: Service management deleted successfully
@@ -439,7 +423,7 @@ router.get('/facility/:facilityId/statistics', ServiceManagementController.getSe
  *       500:
  *         description: Internal server error
  */
-router.delete('/facility/:facilityId', validateDeleteServiceManagement, ServiceManagementController.deleteServiceManagement);
+router.delete('/facility/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, AuthMiddleware.requireFacilityAccess, ServiceManagementController.deleteServiceManagement);
 
 /**
  * @swagger
@@ -447,20 +431,25 @@ router.delete('/facility/:facilityId', validateDeleteServiceManagement, ServiceM
  *   get:
  *     summary: Get global service statistics
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Global service statistics
  *       500:
  *         description: Internal server error
  */
-router.get('/statistics/global', ServiceManagementController.getGlobalServiceStatistics);
+router.get('/statistics/global', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, ServiceManagementController.getGlobalServiceStatistics);
 
 /**
  * @swagger
- * /api/service-management/debug/{facilityId}:
+ * /api/service-management/diagnostics/{facilityId}:
  *   get:
- *     summary: Debug facility and service information
+ *     summary: Diagnose a facility's service and IoT service catalogues (admin only)
  *     tags: [Service Management]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Lists every service management and IoT service management record of the facility, including soft-deleted ones.
  *     parameters:
  *       - in: path
  *         name: facilityId
@@ -470,12 +459,16 @@ router.get('/statistics/global', ServiceManagementController.getGlobalServiceSta
  *           format: objectId
  *     responses:
  *       200:
- *         description: Debug information about facility and services
- *       404:
- *         description: Facility not found
+ *         description: Diagnostic information about the facility and its service catalogues
+ *       400:
+ *         description: Invalid facility ID
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
  *       500:
  *         description: Internal server error
  */
-router.get('/debug/:facilityId', ServiceManagementController.debugFacilityServices);
+router.get('/diagnostics/:facilityId', AuthMiddleware.authenticate, AuthMiddleware.requireAdmin, ServiceManagementController.getFacilityServiceDiagnostics);
 
 export default router;
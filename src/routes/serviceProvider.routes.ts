@@ -1,7 +1,6 @@
 import { Router } from 'express';
 import { ServiceProviderController } from '../controllers/serviceProvider.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
-import { UserRole } from '../models/User';
 
 const router = Router();
 
@@ -173,7 +172,8 @@ const router = Router();
 router.post(
   '/:facilityId',
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.FACILITY_MANAGER),
+  AuthMiddleware.requireFacilityAccess,
+  AuthMiddleware.authorizeRoute,
   ServiceProviderController.createServiceProvider
 );
 
@@ -262,6 +262,7 @@ router.post(
 router.get(
   '/:facilityId',
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireFacilityAccess,
   ServiceProviderController.getAllServiceProviders
 );
 
@@ -287,6 +288,7 @@ router.get(
 router.get(
   '/:facilityId/active',
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireFacilityAccess,
   ServiceProviderController.getActiveServiceProviders
 );
 
@@ -319,6 +321,7 @@ router.get(
 router.get(
   '/:facilityId/category/:category',
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireFacilityAccess,
   ServiceProviderController.getServiceProvidersByCategory
 );
 
@@ -368,6 +371,7 @@ router.get(
 router.get(
   '/:facilityId/search',
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireFacilityAccess,
   ServiceProviderController.searchServiceProviders
 );
 
@@ -393,6 +397,7 @@ router.get(
 router.get(
   '/:facilityId/statistics',
   AuthMiddleware.authenticate,
+  AuthMiddleware.requireFacilityAccess,
   ServiceProviderController.getServiceProviderStatistics
 );
 
@@ -488,7 +493,7 @@ router.get(
 router.put(
   '/provider/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.FACILITY_MANAGER),
+  AuthMiddleware.authorizeRoute,
   ServiceProviderController.updateServiceProvider
 );
 
@@ -527,7 +532,7 @@ router.put(
 router.delete(
   '/provider/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.FACILITY_MANAGER),
+  AuthMiddleware.authorizeRoute,
   ServiceProviderController.deleteServiceProvider
 );
 
@@ -576,7 +581,8 @@ router.delete(
 router.patch(
   '/:facilityId/bulk-update',
   AuthMiddleware.authenticate,
-  AuthMiddleware.authorize(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.FACILITY_MANAGER),
+  AuthMiddleware.requireFacilityAccess,
+  AuthMiddleware.authorizeRoute,
   ServiceProviderController.bulkUpdateServiceProviders
 );
 
@@ -54,7 +54,20 @@ const router = Router();
  *         rosterDate:
  *           type: string
  *           format: date
- *           description: Date for the roster
+ *           description: First date the schedule applies to
+ *         effectiveUntil:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: Last date the schedule applies to; open-ended when null
+ *         shiftTemplateId:
+ *           type: string
+ *           nullable: true
+ *           description: Shift template the schedule was materialized from
+ *         rotationAssignmentId:
+ *           type: string
+ *           nullable: true
+ *           description: Rotation assignment that materialized the schedule (one per employee and date)
  *         createdBy:
  *           type: string
  *           description: ID of user who created the shift schedule
@@ -150,8 +163,10 @@ const router = Router();
  *         description: Bad request
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: The shift breaks the facility's labour rules
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, ShiftScheduleController.createShift);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, ShiftScheduleController.createShift);
 
 /**
  * @swagger
@@ -199,7 +214,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Shi
  *       401:
  *         description: Unauthorized
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, ShiftScheduleController.getAllShifts);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, ShiftScheduleController.getAllShifts);
 
 /**
  * @swagger
@@ -239,7 +254,7 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Shif
  *       404:
  *         description: Shift schedule not found
  */
-router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, ShiftScheduleController.getShiftById);
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, ShiftScheduleController.getShiftById);
 
 /**
  * @swagger
@@ -305,8 +320,10 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, S
  *         description: Unauthorized
  *       404:
  *         description: Shift schedule not found
+ *       409:
+ *         description: The shift breaks the facility's labour rules
  */
-router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, ShiftScheduleController.updateShift);
+router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, ShiftScheduleController.updateShift);
 
 /**
  * @swagger
@@ -349,6 +366,6 @@ router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager,
  *       404:
  *         description: Shift schedule not found
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, ShiftScheduleController.deleteShift);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, ShiftScheduleController.deleteShift);
 
 export default router;
@@ -0,0 +1,424 @@
+import { Router } from 'express';
+import { ShiftSwapController } from '../controllers/shiftSwap.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  approvalActionSchema,
+  approvalIdParamSchema,
+  rejectRequestSchema
+} from '../validations/approval.validation';
+import {
+  declineShiftSwapSchema,
+  myShiftSwapsQuerySchema,
+  proposeShiftSwapSchema,
+  shiftSwapQuerySchema
+} from '../validations/shiftSwap.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SwapShift:
+ *       type: object
+ *       properties:
+ *         rosterId:
+ *           type: string
+ *         rosterEntryId:
+ *           type: string
+ *         shiftScheduleId:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *         scheduledStart:
+ *           type: string
+ *           format: date-time
+ *     ShiftSwapRequest:
+ *       type: object
+ *       description: |
+ *         Shift swap or cover between two employees. The requester proposes it, the counterpart accepts or declines,
+ *         then it goes through the facility's shift_swap approval chain. The final approval moves the roster entries
+ *         (and the one-day shift schedules behind them) in a single transaction. A swap is refused while a shift has
+ *         started, an employee taking a shift is on leave, week-off or a holiday, the swap breaks the facility's
+ *         labour rules (see /api/labour-rules), or a shift would drop below its staffing minimum.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [swap, cover]
+ *           description: A cover hands the requester's shift to the counterpart; a swap also hands the counterpart's shift to the requester
+ *         employeeId:
+ *           type: string
+ *           description: Employee who proposed the swap
+ *         shift:
+ *           $ref: '#/components/schemas/SwapShift'
+ *         counterpartId:
+ *           type: string
+ *         counterpartShift:
+ *           allOf:
+ *             - $ref: '#/components/schemas/SwapShift'
+ *           nullable: true
+ *         reason:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [proposed, pending, approved, rejected, declined, withdrawn]
+ *           description: proposed awaits the counterpart, pending the approvers
+ *         counterpartRespondedAt:
+ *           type: string
+ *           format: date-time
+ *         declineReason:
+ *           type: string
+ *         approvedBy:
+ *           type: string
+ *         approvedDate:
+ *           type: string
+ *           format: date-time
+ *         approvalChain:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [supervisor, facility_manager, admin]
+ *         approvalLevel:
+ *           type: integer
+ *         approvalHistory:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ApprovalHistoryEntry'
+ */
+
+/**
+ * @swagger
+ * /api/shift-swaps:
+ *   post:
+ *     summary: Propose a shift swap or cover
+ *     description: Offer one of your roster entries to a colleague, in exchange for one of theirs for a swap.
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - rosterEntryId
+ *               - counterpartId
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [swap, cover]
+ *               rosterEntryId:
+ *                 type: string
+ *                 description: Your roster entry to give away
+ *               counterpartId:
+ *                 type: string
+ *               counterpartRosterEntryId:
+ *                 type: string
+ *                 description: The counterpart's roster entry you take (swaps only)
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Swap proposed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     swap:
+ *                       $ref: '#/components/schemas/ShiftSwapRequest'
+ *       404:
+ *         description: Roster entry or counterpart not found
+ *       409:
+ *         description: The shift already takes part in a swap, or the swap breaks a rule (the reasons are listed)
+ *   get:
+ *     summary: Get the shift swaps of the facilities in your scope
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *         description: Requester or counterpart
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [proposed, pending, approved, rejected, declined, withdrawn]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [swap, cover]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Shift swaps, latest shifts first
+ */
+router.post('/', AuthMiddleware.authenticateUser, validateRequest(proposeShiftSwapSchema), ShiftSwapController.proposeShiftSwap);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(shiftSwapQuerySchema, 'query'), ShiftSwapController.getShiftSwaps);
+
+/**
+ * @swagger
+ * /api/shift-swaps/me:
+ *   get:
+ *     summary: Get the shift swaps you proposed or were asked to take part in
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [proposed, pending, approved, rejected, declined, withdrawn]
+ *     responses:
+ *       200:
+ *         description: Your shift swaps
+ */
+router.get('/me', AuthMiddleware.authenticateUser, validateRequest(myShiftSwapsQuerySchema, 'query'), ShiftSwapController.getMyShiftSwaps);
+
+/**
+ * @swagger
+ * /api/shift-swaps/{id}:
+ *   get:
+ *     summary: Get a shift swap
+ *     description: Open swaps come with the reasons that would currently prevent them, if any.
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shift swap and its blockers
+ *       404:
+ *         description: Shift swap not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(approvalIdParamSchema, 'params'), ShiftSwapController.getShiftSwapById);
+
+/**
+ * @swagger
+ * /api/shift-swaps/{id}/accept:
+ *   post:
+ *     summary: Accept a shift swap proposed to you
+ *     description: The swap is checked again and submitted to the facility's approval chain.
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Swap accepted and pending approval
+ *       400:
+ *         description: Swap is not proposed
+ *       403:
+ *         description: Not the counterpart
+ *       409:
+ *         description: The swap breaks a rule (the reasons are listed)
+ */
+router.post('/:id/accept', AuthMiddleware.authenticateUser, validateRequest(approvalIdParamSchema, 'params'), ShiftSwapController.acceptShiftSwap);
+
+/**
+ * @swagger
+ * /api/shift-swaps/{id}/decline:
+ *   post:
+ *     summary: Decline a shift swap proposed to you
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Swap declined
+ *       400:
+ *         description: Swap is not proposed
+ *       403:
+ *         description: Not the counterpart
+ */
+router.post('/:id/decline',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(declineShiftSwapSchema),
+  ShiftSwapController.declineShiftSwap
+);
+
+/**
+ * @swagger
+ * /api/shift-swaps/{id}/withdraw:
+ *   post:
+ *     summary: Withdraw a shift swap you proposed
+ *     description: Possible until the swap is approved.
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Swap withdrawn
+ *       400:
+ *         description: Swap is neither proposed nor pending
+ *       403:
+ *         description: Not the requester
+ */
+router.post('/:id/withdraw',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  ShiftSwapController.withdrawShiftSwap
+);
+
+/**
+ * @swagger
+ * /api/shift-swaps/{id}/approve:
+ *   post:
+ *     summary: Approve the current level of a pending shift swap
+ *     description: |
+ *       The swap is checked again first. The final approval moves the roster entries and shift schedules
+ *       atomically; neither employee taking part in the swap can approve it.
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Swap approved at the current level, or approved and applied
+ *       400:
+ *         description: Swap is not pending
+ *       403:
+ *         description: The user takes part in the swap or is not the approver of the current level
+ *       409:
+ *         description: The swap breaks a rule or the roster changed meanwhile
+ */
+router.post('/:id/approve',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  ShiftSwapController.approveShiftSwap
+);
+
+/**
+ * @swagger
+ * /api/shift-swaps/{id}/reject:
+ *   post:
+ *     summary: Reject a pending shift swap
+ *     tags: [Shift Swaps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Swap rejected
+ *       400:
+ *         description: Swap is not pending
+ *       403:
+ *         description: The user takes part in the swap or is not the approver of the current level
+ */
+router.post('/:id/reject',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(rejectRequestSchema),
+  ShiftSwapController.rejectShiftSwap
+);
+
+export default router;
@@ -0,0 +1,172 @@
+import { Router } from 'express';
+import { ShiftTemplateController } from '../controllers/shiftTemplate.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  createShiftTemplateSchema,
+  shiftRotationQuerySchema,
+  shiftTemplateIdParamSchema,
+  updateShiftTemplateSchema
+} from '../validations/shiftRotation.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ShiftTemplate:
+ *       type: object
+ *       description: |
+ *         Shift of a facility defined once and used by rotation patterns. Changing a template updates the shift
+ *         schedules of today and later dates materialized from it; past schedules keep their times.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Morning
+ *         startTime:
+ *           type: string
+ *           example: '06:00'
+ *         endTime:
+ *           type: string
+ *           example: '14:00'
+ *           description: Earlier than startTime for shifts crossing midnight
+ *         breakDuration:
+ *           type: number
+ *           default: 60
+ *           description: Break duration in minutes
+ *         description:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/shift-templates:
+ *   post:
+ *     summary: Create a shift template
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShiftTemplate'
+ *     responses:
+ *       201:
+ *         description: Shift template created successfully
+ *       409:
+ *         description: A template with this name already exists
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createShiftTemplateSchema), ShiftTemplateController.createShiftTemplate);
+
+/**
+ * @swagger
+ * /api/shift-templates:
+ *   get:
+ *     summary: Get shift templates
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shift templates
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(shiftRotationQuerySchema, 'query'), ShiftTemplateController.getShiftTemplates);
+
+/**
+ * @swagger
+ * /api/shift-templates/{id}:
+ *   get:
+ *     summary: Get a shift template
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shift template
+ *       404:
+ *         description: Shift template not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(shiftTemplateIdParamSchema, 'params'), ShiftTemplateController.getShiftTemplateById);
+
+/**
+ * @swagger
+ * /api/shift-templates/{id}:
+ *   patch:
+ *     summary: Update a shift template
+ *     description: Shift schedules of today and later dates materialized from the template are updated as well.
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShiftTemplate'
+ *     responses:
+ *       200:
+ *         description: Shift template and number of schedules updated
+ *       404:
+ *         description: Shift template not found
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(shiftTemplateIdParamSchema, 'params'),
+  validateRequest(updateShiftTemplateSchema),
+  ShiftTemplateController.updateShiftTemplate
+);
+
+/**
+ * @swagger
+ * /api/shift-templates/{id}:
+ *   delete:
+ *     summary: Delete a shift template
+ *     tags: [Shift Rotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shift template deleted successfully
+ *       409:
+ *         description: The template is used by a rotation pattern
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(shiftTemplateIdParamSchema, 'params'), ShiftTemplateController.deleteShiftTemplate);
+
+export default router;
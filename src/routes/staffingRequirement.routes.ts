@@ -0,0 +1,176 @@
+import { Router } from 'express';
+import { StaffingRequirementController } from '../controllers/staffingRequirement.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  createStaffingRequirementSchema,
+  staffingRequirementIdParamSchema,
+  staffingRequirementQuerySchema,
+  updateStaffingRequirementSchema
+} from '../validations/staffingRequirement.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StaffingRequirement:
+ *       type: object
+ *       description: |
+ *         Minimum number of employees a shift of a facility needs, used by the roster generator. With a department
+ *         only employees of that department (profile.department) count towards the minimum.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         shiftName:
+ *           type: string
+ *           description: Shift name of the shift schedules it applies to
+ *           example: Night
+ *         department:
+ *           type: string
+ *           nullable: true
+ *           example: Security
+ *         minHeadcount:
+ *           type: integer
+ *           minimum: 1
+ *         days:
+ *           type: array
+ *           description: Weekdays the minimum applies to; empty for every day
+ *           items:
+ *             type: string
+ *             enum: [sunday, monday, tuesday, wednesday, thursday, friday, saturday]
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/staffing-requirements:
+ *   post:
+ *     summary: Set the minimum headcount of a shift
+ *     tags: [Staffing Requirements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - shiftName
+ *               - minHeadcount
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               shiftName:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *               minHeadcount:
+ *                 type: integer
+ *               days:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Staffing requirement created successfully
+ *       409:
+ *         description: The shift already has a requirement for this department
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createStaffingRequirementSchema), StaffingRequirementController.createStaffingRequirement);
+
+/**
+ * @swagger
+ * /api/staffing-requirements:
+ *   get:
+ *     summary: Get the staffing requirements of a facility
+ *     tags: [Staffing Requirements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *         description: Required unless the user manages a single facility
+ *       - in: query
+ *         name: shiftName
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Staffing requirements of the facility
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(staffingRequirementQuerySchema, 'query'), StaffingRequirementController.getStaffingRequirements);
+
+/**
+ * @swagger
+ * /api/staffing-requirements/{id}:
+ *   patch:
+ *     summary: Update a staffing requirement
+ *     tags: [Staffing Requirements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StaffingRequirement'
+ *     responses:
+ *       200:
+ *         description: Staffing requirement updated successfully
+ *       404:
+ *         description: Staffing requirement not found
+ */
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(staffingRequirementIdParamSchema, 'params'),
+  validateRequest(updateStaffingRequirementSchema),
+  StaffingRequirementController.updateStaffingRequirement
+);
+
+/**
+ * @swagger
+ * /api/staffing-requirements/{id}:
+ *   delete:
+ *     summary: Delete a staffing requirement
+ *     tags: [Staffing Requirements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Staffing requirement deleted successfully
+ *       404:
+ *         description: Staffing requirement not found
+ */
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(staffingRequirementIdParamSchema, 'params'), StaffingRequirementController.deleteStaffingRequirement);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { StorageController } from '../controllers/storage.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/storage/{token}:
+ *   get:
+ *     summary: Get a stored file by its signed URL
+ *     description: |
+ *       Signed URLs are returned with the records files belong to, such as the photos of checklist items. They need
+ *       no authentication and stop working when they expire (STORAGE_URL_EXPIRES_IN); fetch the record again for
+ *       fresh ones.
+ *     tags: [Storage]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: The link is invalid or has expired
+ *       404:
+ *         description: File not found
+ */
+router.get('/:token', StorageController.getFile);
+
+export default router;
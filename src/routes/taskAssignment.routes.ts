@@ -0,0 +1,422 @@
+import { Router } from 'express';
+import { TaskAssignmentController } from '../controllers/taskAssignment.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import { approvalIdParamSchema } from '../validations/approval.validation';
+import {
+  completeTaskSchema,
+  createTaskAssignmentSchema,
+  myTasksQuerySchema,
+  taskAssignmentQuerySchema,
+  updateTaskAssignmentSchema
+} from '../validations/taskAssignment.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TaskAssignment:
+ *       type: object
+ *       description: |
+ *         Checklist task of an employee at a floor location. Tasks move from assigned to in_progress (when the
+ *         employee starts) to completed (when the employee scans the floor's QR code); open tasks past their due
+ *         date become overdue and can still be completed.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         sectionId:
+ *           type: string
+ *         checklistId:
+ *           type: string
+ *         employeeId:
+ *           type: string
+ *         floorLocationId:
+ *           type: string
+ *         assignedDate:
+ *           type: string
+ *           format: date-time
+ *         dueDate:
+ *           type: string
+ *           format: date-time
+ *         taskType:
+ *           type: string
+ *           enum: [daily, weekly, monthly]
+ *         priority:
+ *           type: string
+ *           enum: [low, medium, high]
+ *         status:
+ *           type: string
+ *           enum: [assigned, in_progress, completed, overdue]
+ *         notes:
+ *           type: string
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *         assignedBy:
+ *           type: string
+ *     TaskCompletion:
+ *       type: object
+ *       description: Proof of work of a completed task
+ *       properties:
+ *         taskAssignmentId:
+ *           type: string
+ *         employeeId:
+ *           type: string
+ *         floorLocationId:
+ *           type: string
+ *         qrCodeScanned:
+ *           type: string
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *         completionNotes:
+ *           type: string
+ *         gpsLocation:
+ *           type: object
+ *           properties:
+ *             latitude:
+ *               type: number
+ *             longitude:
+ *               type: number
+ *         deviceInfo:
+ *           type: string
+ *         ipAddress:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/task-assignments:
+ *   post:
+ *     summary: Assign a checklist task to an employee
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sectionId
+ *               - checklistId
+ *               - employeeId
+ *               - floorLocationId
+ *               - taskType
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               sectionId:
+ *                 type: string
+ *               checklistId:
+ *                 type: string
+ *                 description: Checklist of the section to follow
+ *               employeeId:
+ *                 type: string
+ *               floorLocationId:
+ *                 type: string
+ *               taskType:
+ *                 type: string
+ *                 enum: [daily, weekly, monthly]
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high]
+ *                 default: medium
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Task assigned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     task:
+ *                       $ref: '#/components/schemas/TaskAssignment'
+ *       400:
+ *         description: Floor location, section or checklist not found at the facility, or the employee does not work there
+ *       404:
+ *         description: Employee not found
+ *   get:
+ *     summary: Get the tasks of the facilities in your scope
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: floorLocationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sectionId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [assigned, in_progress, completed, overdue]
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high]
+ *       - in: query
+ *         name: taskType
+ *         schema:
+ *           type: string
+ *           enum: [daily, weekly, monthly]
+ *       - in: query
+ *         name: dueFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dueTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Tasks, latest assigned first
+ */
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(createTaskAssignmentSchema), TaskAssignmentController.createTaskAssignment);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(taskAssignmentQuerySchema, 'query'), TaskAssignmentController.getTaskAssignments);
+
+/**
+ * @swagger
+ * /api/task-assignments/me:
+ *   get:
+ *     summary: Get your tasks
+ *     description: Open tasks (assigned, in progress or overdue) unless a status is asked for, earliest due first.
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [assigned, in_progress, completed, overdue]
+ *       - in: query
+ *         name: floorLocationId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Your tasks
+ */
+router.get('/me', AuthMiddleware.authenticateUser, validateRequest(myTasksQuerySchema, 'query'), TaskAssignmentController.getMyTasks);
+
+/**
+ * @swagger
+ * /api/task-assignments/{id}:
+ *   get:
+ *     summary: Get a task
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Task and its completion record, if completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     task:
+ *                       $ref: '#/components/schemas/TaskAssignment'
+ *                     completion:
+ *                       $ref: '#/components/schemas/TaskCompletion'
+ *       404:
+ *         description: Task not found
+ *   patch:
+ *     summary: Update an open task
+ *     description: Reassigning a task resets its start. A due date in the past makes the task overdue.
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               employeeId:
+ *                 type: string
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high]
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Task updated
+ *       400:
+ *         description: Task is completed, or the employee cannot be assigned
+ *       404:
+ *         description: Task not found
+ *   delete:
+ *     summary: Delete an open task
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Task deleted
+ *       400:
+ *         description: Completed tasks are kept
+ *       404:
+ *         description: Task not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(approvalIdParamSchema, 'params'), TaskAssignmentController.getTaskAssignmentById);
+router.patch('/:id',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(updateTaskAssignmentSchema),
+  TaskAssignmentController.updateTaskAssignment
+);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(approvalIdParamSchema, 'params'), TaskAssignmentController.deleteTaskAssignment);
+
+/**
+ * @swagger
+ * /api/task-assignments/{id}/start:
+ *   post:
+ *     summary: Start one of your tasks
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Task in progress (or still overdue when past its due date)
+ *       400:
+ *         description: Task already started or completed
+ *       404:
+ *         description: Task not found among yours
+ */
+router.post('/:id/start', AuthMiddleware.authenticateUser, validateRequest(approvalIdParamSchema, 'params'), TaskAssignmentController.startTask);
+
+/**
+ * @swagger
+ * /api/task-assignments/{id}/complete:
+ *   post:
+ *     summary: Complete one of your tasks
+ *     description: |
+ *       Requires the QR code of the task's floor location, scanned on site. The scan is recorded with the device
+ *       location, device (the User-Agent when deviceInfo is not given) and IP address as proof of work.
+ *     tags: [Task Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - qrCode
+ *             properties:
+ *               qrCode:
+ *                 type: string
+ *                 description: Signed token read from the QR code at the task's floor
+ *               notes:
+ *                 type: string
+ *               gpsLocation:
+ *                 type: object
+ *                 properties:
+ *                   latitude:
+ *                     type: number
+ *                   longitude:
+ *                     type: number
+ *               deviceInfo:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Task completed, with its completion record
+ *       400:
+ *         description: Task already completed
+ *       403:
+ *         description: The QR code is not the one of the task's floor, or the floor is inactive
+ *       404:
+ *         description: Task not found among yours
+ *       409:
+ *         description: The task was completed meanwhile
+ */
+router.post('/:id/complete',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(completeTaskSchema),
+  TaskAssignmentController.completeTask
+);
+
+export default router;
@@ -0,0 +1,424 @@
+import { Router } from 'express';
+import { TimesheetController } from '../controllers/timesheet.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import { approvalActionSchema, approvalIdParamSchema } from '../validations/approval.validation';
+import {
+  exportTimesheetsQuerySchema,
+  generateTimesheetsSchema,
+  myTimesheetsQuerySchema,
+  reopenTimesheetSchema,
+  timesheetQuerySchema
+} from '../validations/timesheet.validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TimesheetEntry:
+ *       type: object
+ *       description: One attendance record of the period
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         attendanceId:
+ *           type: string
+ *         shiftScheduleId:
+ *           type: string
+ *           nullable: true
+ *           description: Null for attendance without a scheduled shift
+ *         shiftName:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [present, absent, on_leave]
+ *         scheduledMinutes:
+ *           type: integer
+ *           description: Shift length minus break
+ *         workedMinutes:
+ *           type: integer
+ *           description: Check-in to check-out minus the shift's break
+ *         regularMinutes:
+ *           type: integer
+ *         overtimeMinutes:
+ *           type: integer
+ *         overtimeKind:
+ *           type: string
+ *           enum: [standard, night, holiday]
+ *         lateMinutes:
+ *           type: integer
+ *         earlyExitMinutes:
+ *           type: integer
+ *         missingCheckOut:
+ *           type: boolean
+ *         night:
+ *           type: boolean
+ *         holiday:
+ *           type: string
+ *           description: Name of the holiday falling on the date
+ *     Timesheet:
+ *       type: object
+ *       description: |
+ *         Hours of an employee at a facility over a week (Monday to Sunday) or a calendar month, computed from
+ *         attendance against the scheduled shifts. Hours worked on a holiday that applies to the employee are all
+ *         overtime; other hours become overtime beyond the facility's daily and weekly overtime thresholds
+ *         (see /api/labour-rules). Overtime in a night shift is paid at the night overtime multiplier.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         facilityId:
+ *           type: string
+ *         employeeId:
+ *           type: string
+ *         period:
+ *           type: string
+ *           enum: [weekly, monthly]
+ *         periodStart:
+ *           type: string
+ *           format: date
+ *         periodEnd:
+ *           type: string
+ *           format: date
+ *         status:
+ *           type: string
+ *           enum: [draft, signed_off]
+ *         entries:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TimesheetEntry'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             shifts:
+ *               type: integer
+ *             contractedHours:
+ *               type: number
+ *               description: Weekly hours of the employee's work schedule, prorated to the period
+ *             scheduledHours:
+ *               type: number
+ *             workedHours:
+ *               type: number
+ *             regularHours:
+ *               type: number
+ *             overtimeHours:
+ *               type: number
+ *             standardOvertimeHours:
+ *               type: number
+ *             nightOvertimeHours:
+ *               type: number
+ *             holidayOvertimeHours:
+ *               type: number
+ *             weightedOvertimeHours:
+ *               type: number
+ *               description: Overtime hours times their multipliers
+ *             lateDays:
+ *               type: integer
+ *             lateMinutes:
+ *               type: integer
+ *             earlyExitMinutes:
+ *               type: integer
+ *             absences:
+ *               type: integer
+ *             leaveDays:
+ *               type: integer
+ *             missingCheckOuts:
+ *               type: integer
+ *         rules:
+ *           type: object
+ *           description: Overtime thresholds and multipliers the timesheet was computed with
+ *         generatedAt:
+ *           type: string
+ *           format: date-time
+ *         signedOffBy:
+ *           type: string
+ *         signedOffAt:
+ *           type: string
+ *           format: date-time
+ *         remarks:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/timesheets/generate:
+ *   post:
+ *     summary: Generate the timesheets of a week or month
+ *     description: |
+ *       Creates a timesheet for every employee with attendance at the facility in the week or month the date falls
+ *       in, and recomputes existing drafts. Shifts that ended without a check-in are marked absent (or on leave)
+ *       first. Signed-off timesheets are left unchanged.
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - period
+ *               - date
+ *             properties:
+ *               facilityId:
+ *                 type: string
+ *               period:
+ *                 type: string
+ *                 enum: [weekly, monthly]
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: Any day of the week or month
+ *               employeeIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Timesheets created or updated, and employees whose timesheet is already signed off
+ *       403:
+ *         description: Missing permissions or facility access
+ */
+router.post('/generate', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(generateTimesheetsSchema), TimesheetController.generateTimesheets);
+
+/**
+ * @swagger
+ * /api/timesheets/export:
+ *   get:
+ *     summary: Export the timesheets of a week or month as CSV
+ *     description: One row per timesheet with its totals, for payroll. Only signed-off timesheets unless another status is asked for.
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: period
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [weekly, monthly]
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Any day of the week or month
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, signed_off]
+ *           default: signed_off
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+router.get('/export', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(exportTimesheetsQuerySchema, 'query'), TimesheetController.exportTimesheets);
+
+/**
+ * @swagger
+ * /api/timesheets/me:
+ *   get:
+ *     summary: Get your timesheets
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [weekly, monthly]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, signed_off]
+ *     responses:
+ *       200:
+ *         description: Your timesheets, latest period first
+ */
+router.get('/me', AuthMiddleware.authenticateUser, validateRequest(myTimesheetsQuerySchema, 'query'), TimesheetController.getMyTimesheets);
+
+/**
+ * @swagger
+ * /api/timesheets:
+ *   get:
+ *     summary: Get the timesheets of the facilities in your scope
+ *     description: Timesheets are listed without their entries.
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facilityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [weekly, monthly]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, signed_off]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Timesheets overlapping the range, latest period first
+ */
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(timesheetQuerySchema, 'query'), TimesheetController.getTimesheets);
+
+/**
+ * @swagger
+ * /api/timesheets/{id}:
+ *   get:
+ *     summary: Get a timesheet
+ *     description: Drafts come with whether attendance was recorded or corrected since they were generated.
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Timesheet with its entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     timesheet:
+ *                       $ref: '#/components/schemas/Timesheet'
+ *                     outdated:
+ *                       type: boolean
+ *       404:
+ *         description: Timesheet not found
+ */
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, validateRequest(approvalIdParamSchema, 'params'), TimesheetController.getTimesheetById);
+
+/**
+ * @swagger
+ * /api/timesheets/{id}/sign-off:
+ *   post:
+ *     summary: Sign off a timesheet
+ *     description: |
+ *       Possible once the period has ended, for someone else's timesheet. Signed-off timesheets are no longer
+ *       regenerated and the attendance they cover cannot be corrected until they are reopened.
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Timesheet signed off
+ *       400:
+ *         description: Already signed off, or the period has not ended
+ *       403:
+ *         description: Your own timesheet
+ *       409:
+ *         description: Attendance changed since the timesheet was generated, or a shift has no check-out
+ */
+router.post('/:id/sign-off',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  TimesheetController.signOffTimesheet
+);
+
+/**
+ * @swagger
+ * /api/timesheets/{id}/reopen:
+ *   post:
+ *     summary: Reopen a signed-off timesheet
+ *     tags: [Timesheets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Timesheet reopened as a draft
+ *       400:
+ *         description: Timesheet is not signed off
+ */
+router.post('/:id/reopen',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(reopenTimesheetSchema),
+  TimesheetController.reopenTimesheet
+);
+
+export default router;
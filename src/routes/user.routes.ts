@@ -76,6 +76,7 @@ const router = Router();
  * /api/users:
  *   post:
  *     summary: Create a new user
+ *     description: Without a password the user is created as pending and emailed an invitation to choose one (see /api/invitations).
  *     tags: [Users]
  *     requestBody:
  *       required: true
@@ -87,7 +88,6 @@ const router = Router();
  *               - email
  *               - firstName
  *               - lastName
- *               - password
  *             properties:
  *               email:
  *                 type: string
@@ -101,6 +101,7 @@ const router = Router();
  *               password:
  *                 type: string
  *                 minLength: 8
+ *                 description: Initial password; omit to invite the user by email instead
  *               phone:
  *                 type: string
  *               role:
@@ -189,7 +189,7 @@ const router = express.Router();
  */
 router.post('/tanks',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateWaterTank,
   createWaterTank
 );
@@ -303,7 +303,7 @@ router.get('/tanks/:id',
  */
 router.put('/tanks/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateWaterTank,
   updateWaterTank
 );
@@ -334,7 +334,7 @@ router.put('/tanks/:id',
  */
 router.delete('/tanks/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteWaterTank
 );
 
@@ -393,7 +393,7 @@ router.delete('/tanks/:id',
  */
 router.post('/borewells',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateBorewell,
   createBorewell
 );
@@ -526,7 +526,7 @@ router.get('/borewells/:id',
  */
 router.put('/borewells/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateBorewell,
   updateBorewell
 );
@@ -558,7 +558,7 @@ router.put('/borewells/:id',
  */
 router.delete('/borewells/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteBorewell
 );
 
@@ -604,7 +604,7 @@ router.delete('/borewells/:id',
  */
 router.post('/cauvery',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateCauvery,
   createCauvery
 );
@@ -729,7 +729,7 @@ router.get('/cauvery/:id',
  */
 router.put('/cauvery/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateCauvery,
   updateCauvery
 );
@@ -761,14 +761,14 @@ router.put('/cauvery/:id',
  */
 router.delete('/cauvery/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteCauvery
 );
 
 // TANKER ROUTES
 router.post('/tankers',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateCreateTanker,
   createTanker
 );
@@ -785,14 +785,14 @@ router.get('/tankers/:id',
 
 router.put('/tankers/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   validateUpdateTanker,
   updateTanker
 );
 
 router.delete('/tankers/:id',
   AuthMiddleware.authenticate,
-  AuthMiddleware.requireManager,
+  AuthMiddleware.authorizeRoute,
   deleteTanker
 );
 
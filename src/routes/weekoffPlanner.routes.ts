@@ -1,6 +1,12 @@
 import { Router } from 'express';
 import { WeekoffPlannerController } from '../controllers/weekoffPlanner.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../utils/validation';
+import {
+  approvalActionSchema,
+  approvalIdParamSchema,
+  rejectRequestSchema
+} from '../validations/approval.validation';
 
 const router = Router();
 
@@ -47,9 +53,28 @@ const router = Router();
  *           description: Optional reason for weekoff
  *         status:
  *           type: string
- *           enum: [pending, approved, rejected]
+ *           enum: [pending, approved, rejected, cancelled, withdrawn]
  *           default: pending
- *           description: Status of the weekoff request
+ *           description: Status of the weekoff request, changed through the approve, reject, cancel and withdraw actions
+ *         approvedBy:
+ *           type: string
+ *           description: ID of user who gave the final approval
+ *         approvedDate:
+ *           type: string
+ *           format: date-time
+ *         approvalChain:
+ *           type: array
+ *           description: Approver role per level, captured from the facility's approval workflow on creation
+ *           items:
+ *             type: string
+ *             enum: [supervisor, facility_manager, admin]
+ *         approvalLevel:
+ *           type: integer
+ *           description: Levels approved so far
+ *         approvalHistory:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ApprovalHistoryEntry'
  *         createdBy:
  *           type: string
  *           description: ID of user who created the weekoff planner
@@ -72,6 +97,7 @@ const router = Router();
  * /api/weekoff-planners:
  *   post:
  *     summary: Create a new weekoff planner
+ *     description: The request starts as pending at the first level of the facility's approval chain.
  *     tags: [Weekoff Planners]
  *     security:
  *       - bearerAuth: []
@@ -110,10 +136,6 @@ const router = Router();
  *               reason:
  *                 type: string
  *                 description: Optional reason for weekoff
- *               status:
- *                 type: string
- *                 enum: [pending, approved, rejected]
- *                 default: pending
  *     responses:
  *       201:
  *         description: Weekoff planner created successfully
@@ -137,7 +159,7 @@ const router = Router();
  *       403:
  *         description: Forbidden
  */
-router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, WeekoffPlannerController.createWeekoffPlanner);
+router.post('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, WeekoffPlannerController.createWeekoffPlanner);
 
 /**
  * @swagger
@@ -193,7 +215,7 @@ router.post('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Wee
  *       403:
  *         description: Forbidden
  */
-router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, WeekoffPlannerController.getAllWeekoffPlanners);
+router.get('/', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, WeekoffPlannerController.getAllWeekoffPlanners);
 
 /**
  * @swagger
@@ -235,13 +257,14 @@ router.get('/', AuthMiddleware.authenticate, AuthMiddleware.requireManager, Week
  *       404:
  *         description: Weekoff planner not found
  */
-router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, WeekoffPlannerController.getWeekoffPlannerById);
+router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, WeekoffPlannerController.getWeekoffPlannerById);
 
 /**
  * @swagger
  * /api/weekoff-planners/{id}:
  *   patch:
  *     summary: Update weekoff planner
+ *     description: The status cannot be changed here; use the approve, reject, cancel and withdraw actions.
  *     tags: [Weekoff Planners]
  *     security:
  *       - bearerAuth: []
@@ -272,9 +295,6 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, W
  *                   enum: [monday, tuesday, wednesday, thursday, friday, saturday, sunday]
  *               reason:
  *                 type: string
- *               status:
- *                 type: string
- *                 enum: [pending, approved, rejected]
  *     responses:
  *       200:
  *         description: Weekoff planner updated successfully
@@ -300,7 +320,171 @@ router.get('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, W
  *       404:
  *         description: Weekoff planner not found
  */
-router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, WeekoffPlannerController.updateWeekoffPlanner);
+router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, WeekoffPlannerController.updateWeekoffPlanner);
+
+/**
+ * @swagger
+ * /api/weekoff-planners/{id}/approve:
+ *   post:
+ *     summary: Approve the current level of a pending weekoff request
+ *     description: The weekoffs count as days off once the last level of the approval chain is approved. The employee cannot approve their own request.
+ *     tags: [Weekoff Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Level approved, or weekoff approved at the last level
+ *       400:
+ *         description: Weekoff planner is not pending
+ *       403:
+ *         description: Own request, or the current level needs another role
+ *       404:
+ *         description: Weekoff planner not found
+ */
+router.post('/:id/approve',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  WeekoffPlannerController.approveWeekoffPlanner
+);
+
+/**
+ * @swagger
+ * /api/weekoff-planners/{id}/reject:
+ *   post:
+ *     summary: Reject a pending weekoff request
+ *     description: Remarks are mandatory and shown to the employee.
+ *     tags: [Weekoff Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - remarks
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Weekoff rejected
+ *       400:
+ *         description: Missing remarks or weekoff planner is not pending
+ *       403:
+ *         description: Own request, or the current level needs another role
+ *       404:
+ *         description: Weekoff planner not found
+ */
+router.post('/:id/reject',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.authorizeRoute,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(rejectRequestSchema),
+  WeekoffPlannerController.rejectWeekoffPlanner
+);
+
+/**
+ * @swagger
+ * /api/weekoff-planners/{id}/cancel:
+ *   post:
+ *     summary: Cancel an approved weekoff planner
+ *     description: The employee can cancel before the week starts; shift managers of the facility at any time.
+ *     tags: [Weekoff Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Weekoff cancelled
+ *       400:
+ *         description: Weekoff planner is not approved
+ *       403:
+ *         description: Week has started and the user is not a shift manager
+ *       404:
+ *         description: Weekoff planner not found
+ */
+router.post('/:id/cancel',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  WeekoffPlannerController.cancelWeekoffPlanner
+);
+
+/**
+ * @swagger
+ * /api/weekoff-planners/{id}/withdraw:
+ *   post:
+ *     summary: Withdraw a pending weekoff request
+ *     description: Only the employee the weekoffs are for can withdraw, while the request is still awaiting approval.
+ *     tags: [Weekoff Planners]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               remarks:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Weekoff withdrawn
+ *       400:
+ *         description: Weekoff planner is not pending
+ *       403:
+ *         description: Not the employee
+ *       404:
+ *         description: Weekoff planner not found
+ */
+router.post('/:id/withdraw',
+  AuthMiddleware.authenticateUser,
+  validateRequest(approvalIdParamSchema, 'params'),
+  validateRequest(approvalActionSchema),
+  WeekoffPlannerController.withdrawWeekoffPlanner
+);
 
 /**
  * @swagger
@@ -345,6 +529,6 @@ router.patch('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager,
  *       404:
  *         description: Weekoff planner not found
  */
-router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.requireManager, WeekoffPlannerController.deleteWeekoffPlanner);
+router.delete('/:id', AuthMiddleware.authenticate, AuthMiddleware.authorizeRoute, WeekoffPlannerController.deleteWeekoffPlanner);
 
 export default router;
\ No newline at end of file
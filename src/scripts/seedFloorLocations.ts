@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import { FloorLocation } from '../models/FloorLocation';
+import { FloorLocationQrService } from '../services/floorLocationQr.service';
 
 // This script helps create floor locations with QR codes for testing
 // Run with: npm run seed:floors
@@ -73,6 +74,7 @@ const seedFloorLocations = async () => {
         ...floor,
         qrCode
       });
+      FloorLocationQrService.issue(floorLocation);
 
       await floorLocation.save();
       createdFloors.push(floorLocation);
@@ -82,11 +84,11 @@ const seedFloorLocations = async () => {
 
     console.log(`\n✅ Successfully created ${createdFloors.length} floor locations`);
     
-    // Display QR codes for easy reference
-    console.log('\n📱 QR Codes for testing:');
+    // Display the signed tokens the QR codes carry, for scanning without a printed label
+    console.log('\n📱 QR tokens for testing:');
     console.log('=' .repeat(60));
     createdFloors.forEach(floor => {
-      console.log(`${floor.floorName}: ${floor.qrCode}`);
+      console.log(`${floor.floorName}: ${FloorLocationQrService.getToken(floor)}`);
     });
     console.log('=' .repeat(60));
     
@@ -95,7 +97,7 @@ const seedFloorLocations = async () => {
     console.log('2. Create hygiene sections using the hygiene section API');
     console.log('3. Upload hygiene checklists using the hygiene checklist API');
     console.log('4. Create daily checklists using the daily checklist API');
-    console.log('5. Test QR code scanning with the generated codes above');
+    console.log('5. Print the QR labels from GET /api/floor-locations/qr-sheet, or test scanning with the tokens above');
 
   } catch (error) {
     console.error('Error seeding floor locations:', error);
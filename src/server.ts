@@ -1,6 +1,11 @@
 import mongoose from 'mongoose';
 import { app } from './app';
 import { config } from './config';
+import { AttendanceService } from './services/attendance.service';
+import { ChecklistTemplateService } from './services/checklistTemplate.service';
+import { MailService } from './services/mail.service';
+import { ShiftRotationService } from './services/shiftRotation.service';
+import { TaskAssignmentService } from './services/taskAssignment.service';
 import { logger } from './utils/logger';
 
 const startServer = async () => {
@@ -9,6 +14,21 @@ const startServer = async () => {
     await mongoose.connect(config.MONGODB_URI);
     logger.info('Connected to MongoDB');
 
+    // Deliver mails that were still queued when the server last stopped
+    MailService.startQueue();
+
+    // Mark absentees once their shift has ended
+    AttendanceService.startAbsenteeJob();
+
+    // Keep shift schedules of rotation patterns materialized ahead
+    ShiftRotationService.startMaterializeJob();
+
+    // Mark open tasks past their due date as overdue
+    TaskAssignmentService.startOverdueJob();
+
+    // Generate each day's checklists from the checklist templates
+    ChecklistTemplateService.startGenerationJob();
+
     // Start the server with port fallback
     let currentPort = config.PORT;
     let server;
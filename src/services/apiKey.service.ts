@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { BlockList, isIP } from 'net';
+import { ApiKey, IApiKey } from '../models/ApiKey';
+import { logger } from '../utils/logger';
+
+const KEY_TYPE = 'fmk';
+const PREFIX_BYTES = 4;
+const SECRET_BYTES = 32;
+
+// Full key format: fmk_<prefix id>_<secret>
+const KEY_PATTERN = /^(fmk_[0-9a-f]{8})_([A-Za-z0-9_-]{43})$/;
+
+export interface GeneratedApiKey {
+  key: string; // Full key, returned to the client once and never stored
+  prefix: string;
+  keyHash: string;
+}
+
+export class ApiKeyService {
+  // Generate a new random key with its public prefix and hash
+  static generate(): GeneratedApiKey {
+    const prefix = `${KEY_TYPE}_${crypto.randomBytes(PREFIX_BYTES).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(SECRET_BYTES).toString('base64url')}`;
+    return { key, prefix, keyHash: ApiKeyService.hash(key) };
+  }
+
+  static hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  // Find the key matching a presented X-API-Key value; null for malformed or unknown keys
+  static async findByKey(presentedKey: string): Promise<IApiKey | null> {
+    const match = KEY_PATTERN.exec(presentedKey.trim());
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ prefix: match[1] }).select('+keyHash');
+    if (!apiKey) {
+      return null;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(ApiKeyService.hash(match[0]), 'hex');
+    return crypto.timingSafeEqual(expected, actual) ? apiKey : null;
+  }
+
+  // Requests through a proxy report IPv4 clients as IPv4-mapped IPv6 addresses
+  static normalizeIp(ip?: string): string {
+    return (ip || '').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+  }
+
+  // Check an IP or CIDR range entry of an allowlist
+  static isValidIpRule(rule: string): boolean {
+    const [address, bits, ...rest] = rule.split('/');
+    const family = isIP(address);
+    if (!family || rest.length > 0) {
+      return false;
+    }
+    if (bits === undefined) {
+      return true;
+    }
+    const prefixLength = Number(bits);
+    return /^\d+$/.test(bits) && prefixLength <= (family === 4 ? 32 : 128);
+  }
+
+  // Check the client IP against the key's allowlist; an empty allowlist allows every address
+  static isIpAllowed(apiKey: Pick<IApiKey, 'allowedIps'>, ip: string): boolean {
+    if (!apiKey.allowedIps || apiKey.allowedIps.length === 0) {
+      return true;
+    }
+
+    const family = isIP(ip);
+    if (!family) {
+      return false;
+    }
+
+    const blockList = new BlockList();
+    for (const rule of apiKey.allowedIps) {
+      const [address, bits] = rule.split('/');
+      const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+      if (bits === undefined) {
+        blockList.addAddress(address, type);
+      } else {
+        blockList.addSubnet(address, Number(bits), type);
+      }
+    }
+    return blockList.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  /**
+   * Record a use of a key. Written straight to the collection: usage bookkeeping happens on every
+   * request and must neither go through the audit trail nor delay the request.
+   */
+  static recordUsage(apiKey: IApiKey, ip: string): void {
+    ApiKey.collection.updateOne(
+      { _id: apiKey._id },
+      { $set: { lastUsedAt: new Date(), lastUsedIp: ip }, $inc: { usageCount: 1 } }
+    ).catch(error => logger.error(`Failed to record usage of API key ${apiKey.prefix}:`, error));
+  }
+}
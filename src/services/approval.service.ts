@@ -0,0 +1,137 @@
+import mongoose, { Document, FilterQuery, Model } from 'mongoose';
+import { ApprovalAction, ApprovalRequestType, ApprovalWorkflow, IApprovable } from '../models/ApprovalWorkflow';
+import { IUser, UserRole } from '../models/User';
+
+// Leave or week-off planner, or shift swap, going through approval
+export interface ApprovableRequest extends IApprovable {
+  employeeId: mongoose.Types.ObjectId;
+  facilityId: mongoose.Types.ObjectId;
+  status: string;
+  approvedBy?: mongoose.Types.ObjectId;
+  approvedDate?: Date;
+  updatedBy: mongoose.Types.ObjectId;
+}
+
+// Status and approval level a request was loaded in, before a decision is taken on it
+export interface ApprovalState {
+  status: string;
+  approvalLevel: number;
+}
+
+// Admins can act at any level of a chain
+const OVERRIDE_ROLES = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
+
+/**
+ * Approval chains of leave, week-off and shift swap requests.
+ * A facility can configure the approver role of every level (e.g. supervisor then facility manager);
+ * without a configuration a single approval by any approver of the facility is enough.
+ * The permission to approve (canApproveLeaves, canManageShifts) is enforced by the route matrix.
+ */
+export class ApprovalService {
+  // Approver roles of a facility's chain; empty when none is configured
+  static async getChain(facilityId: mongoose.Types.ObjectId | string, requestType: ApprovalRequestType): Promise<UserRole[]> {
+    const workflow = await ApprovalWorkflow.findOne({ facilityId, requestType, isActive: true }).lean();
+    return workflow?.levels ?? [];
+  }
+
+  // Put a new request at the start of its facility's chain
+  static async submit(request: ApprovableRequest, requestType: ApprovalRequestType, actor: IUser): Promise<void> {
+    request.status = 'pending';
+    request.approvalChain = await ApprovalService.getChain(request.facilityId, requestType);
+    request.approvalLevel = 0;
+    request.approvalHistory = [ApprovalService.entry(ApprovalAction.SUBMITTED, actor)];
+  }
+
+  // Role expected at the current level, or null when any approver may act
+  static pendingRole(request: ApprovableRequest): UserRole | null {
+    return request.approvalChain?.[request.approvalLevel ?? 0] ?? null;
+  }
+
+  static isApplicant(request: ApprovableRequest, user: IUser): boolean {
+    return request.employeeId.toString() === user._id.toString();
+  }
+
+  // Whether approving the current level completes the chain
+  static isLastLevel(request: ApprovableRequest): boolean {
+    return (request.approvalLevel ?? 0) + 1 >= Math.max(request.approvalChain?.length ?? 0, 1);
+  }
+
+  /**
+   * Why the user cannot approve or reject a pending request at its current level, or null when they can.
+   * Facility access and the approval permission are checked by the caller.
+   */
+  static getDecisionBlocker(request: ApprovableRequest, user: IUser): string | null {
+    if (ApprovalService.isApplicant(request, user)) {
+      return 'You cannot approve or reject your own request';
+    }
+
+    const role = ApprovalService.pendingRole(request);
+    if (role && user.role !== role && !OVERRIDE_ROLES.includes(user.role as UserRole)) {
+      return `This request is awaiting approval by a ${role.replace('_', ' ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Approve the current level.
+   * @returns true when this was the last level and the request is now approved
+   */
+  static approve(request: ApprovableRequest, actor: IUser, remarks?: string): boolean {
+    const final = ApprovalService.isLastLevel(request);
+    const level = (request.approvalLevel ?? 0) + 1;
+    request.approvalHistory.push(ApprovalService.entry(ApprovalAction.APPROVED, actor, remarks, level));
+    request.approvalLevel = level;
+    request.updatedBy = actor._id;
+
+    if (final) {
+      request.status = 'approved';
+      request.approvedBy = actor._id;
+      request.approvedDate = new Date();
+    }
+    return final;
+  }
+
+  static reject(request: ApprovableRequest, actor: IUser, remarks: string): void {
+    request.approvalHistory.push(ApprovalService.entry(ApprovalAction.REJECTED, actor, remarks, (request.approvalLevel ?? 0) + 1));
+    request.status = 'rejected';
+    request.updatedBy = actor._id;
+  }
+
+  // Call off an approved request
+  static cancel(request: ApprovableRequest, actor: IUser, remarks?: string): void {
+    request.approvalHistory.push(ApprovalService.entry(ApprovalAction.CANCELLED, actor, remarks));
+    request.status = 'cancelled';
+    request.updatedBy = actor._id;
+  }
+
+  // The applicant takes back a request still awaiting approval
+  static withdraw(request: ApprovableRequest, actor: IUser, remarks?: string): void {
+    request.approvalHistory.push(ApprovalService.entry(ApprovalAction.WITHDRAWN, actor, remarks));
+    request.status = 'withdrawn';
+    request.updatedBy = actor._id;
+  }
+
+  static stateOf(request: ApprovableRequest): ApprovalState {
+    return { status: request.status, approvalLevel: request.approvalLevel ?? 0 };
+  }
+
+  /**
+   * Save a decision taken on a loaded request, provided the request is still in the state it was loaded in.
+   * The check and the write are a single update, so two decisions taken at the same time cannot both be saved.
+   * @returns the saved request, or null when it was decided on in the meantime
+   */
+  static async saveDecision<T extends ApprovableRequest & Document>(request: T, loaded: ApprovalState): Promise<T | null> {
+    const model = request.constructor as Model<T>;
+    const filter = {
+      _id: request._id,
+      status: loaded.status,
+      // Requests submitted before approval chains were introduced have no level
+      approvalLevel: loaded.approvalLevel === 0 ? { $in: [0, null] } : loaded.approvalLevel
+    } as FilterQuery<T>;
+    return model.findOneAndUpdate(filter, request.getChanges(), { new: true });
+  }
+
+  private static entry(action: ApprovalAction, actor: IUser, remarks?: string, level?: number) {
+    return { action, level, by: actor._id, role: actor.role, at: new Date(), remarks };
+  }
+}
@@ -0,0 +1,507 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import cron from 'node-cron';
+import QRCode from 'qrcode';
+import { config } from '../config';
+import { Attendance, AttendanceStatus, IAttendance, IAttendancePunch } from '../models/Attendance';
+import { AttendanceSettings, AttendanceVerification, IAttendanceSettings } from '../models/AttendanceSettings';
+import { ILeavePlanner, LeavePlanner } from '../models/LeavePlanner';
+import { IRoster, Roster, RosterStatus } from '../models/Roster';
+import { IShiftSchedule, ShiftSchedule } from '../models/ShiftSchedule';
+import { IUser, User } from '../models/User';
+import { logger } from '../utils/logger';
+import { HolidayCalendarService } from './holidayCalendar.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// A shift an employee is expected to work, from the day's roster or from their shift schedule
+export interface ExpectedShift {
+  employeeId: mongoose.Types.ObjectId;
+  shiftScheduleId: mongoose.Types.ObjectId;
+  shiftName: string;
+  rosterId?: mongoose.Types.ObjectId;
+  rosterEntryId?: mongoose.Types.ObjectId;
+  date: Date; // Local date the shift starts on, as UTC midnight
+  scheduledStart: Date;
+  scheduledEnd: Date;
+}
+
+export interface PresenceCheck {
+  verified: boolean;
+  reason?: string; // Why presence could not be verified
+  distanceMeters?: number;
+}
+
+export interface AbsenteeMarkingResult {
+  absent: number;
+  onLeave: number;
+}
+
+// Payload of a facility's attendance QR code; jti must match the facility's current code
+interface AttendanceQrPayload {
+  facilityId: string;
+  purpose: 'attendance';
+  jti: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const EARTH_RADIUS_METERS = 6371000;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+const minutesBetween = (from: Date, to: Date): number => Math.floor((to.getTime() - from.getTime()) / MINUTE_MS);
+
+// Offset of a time zone from UTC at the given instant
+const timezoneOffsetMs = (instant: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(instant);
+  const part = (type: string): number => Number(parts.find(entry => entry.type === type)?.value);
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * Attendance of employees against their shifts.
+ * Shift times (ShiftSchedule.startTime/endTime) are local times of the facility's time zone; a shift
+ * ending at or before its start time ends the next day.
+ */
+export class AttendanceService {
+  // Attendance settings of a facility, or unsaved defaults when none are configured
+  static async getSettings(facilityId: ObjectIdLike): Promise<IAttendanceSettings> {
+    const settings = await AttendanceSettings.findOne({ facilityId }).select('+qrTokenId');
+    return settings ?? new AttendanceSettings({ facilityId });
+  }
+
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Local date (YYYY-MM-DD) of an instant in a time zone
+  static localDateKey(instant: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+  }
+
+  // Instant of a local date and HH:MM(:SS) time in a time zone
+  static zonedTime(dateKey: string, time: string, timezone: string): Date {
+    const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+    const asUtc = fromDateKey(dateKey).getTime() + (hours * 60 + minutes) * MINUTE_MS + seconds * 1000;
+    return new Date(asUtc - timezoneOffsetMs(new Date(asUtc), timezone));
+  }
+
+  static shiftWindow(shift: Pick<IShiftSchedule, 'startTime' | 'endTime'>, dateKey: string, timezone: string): { start: Date; end: Date } {
+    const start = AttendanceService.zonedTime(dateKey, shift.startTime, timezone);
+    let end = AttendanceService.zonedTime(dateKey, shift.endTime, timezone);
+    if (end <= start) {
+      // Overnight: the end is on the next local date, in that date's offset should the clocks change overnight
+      const nextDateKey = toDateKey(new Date(fromDateKey(dateKey).getTime() + DAY_MS));
+      end = AttendanceService.zonedTime(nextDateKey, shift.endTime, timezone);
+    }
+    return { start, end };
+  }
+
+  /**
+   * Shifts starting on a local date. The day's published roster decides who works when the facility has one;
+   * otherwise the shift schedules with that weekday among their working days apply.
+   */
+  static async getExpectedShifts(facilityId: ObjectIdLike, dateKey: string, timezone: string, employeeId?: ObjectIdLike): Promise<ExpectedShift[]> {
+    const day = fromDateKey(dateKey);
+    const rosters = await Roster.find({
+      facilityId,
+      isDeleted: false,
+      status: { $ne: RosterStatus.DRAFT },
+      date: { $gte: day, $lt: new Date(day.getTime() + DAY_MS) }
+    }).lean<IRoster[]>();
+
+    let entries: { employeeId: mongoose.Types.ObjectId; shiftScheduleId: mongoose.Types.ObjectId; rosterId?: mongoose.Types.ObjectId; rosterEntryId?: mongoose.Types.ObjectId }[];
+    if (rosters.length > 0) {
+      entries = rosters.flatMap(roster => roster.shifts.map((entry: any) => ({
+        employeeId: entry.employeeId,
+        shiftScheduleId: entry.shiftScheduleId,
+        rosterId: roster._id as mongoose.Types.ObjectId,
+        rosterEntryId: entry._id
+      })));
+    } else {
+      const schedules = await ShiftSchedule.find({
+        facilityId,
+        isDeleted: false,
+        workingDays: { $regex: `^${WEEKDAYS[day.getUTCDay()]}$`, $options: 'i' },
+        rosterDate: { $lte: day },
+        $or: [{ effectiveUntil: null }, { effectiveUntil: { $gte: day } }]
+      }).select('_id employeeId').lean<IShiftSchedule[]>();
+      entries = schedules.map(schedule => ({
+        employeeId: schedule.employeeId,
+        shiftScheduleId: schedule._id as mongoose.Types.ObjectId
+      }));
+    }
+
+    if (employeeId) {
+      entries = entries.filter(entry => entry.employeeId.toString() === employeeId.toString());
+    }
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const schedules = await ShiftSchedule.find({
+      _id: { $in: entries.map(entry => entry.shiftScheduleId) },
+      isDeleted: false
+    }).lean<IShiftSchedule[]>();
+    const scheduleById = new Map(schedules.map(schedule => [String(schedule._id), schedule]));
+
+    return entries.flatMap(entry => {
+      const schedule = scheduleById.get(entry.shiftScheduleId.toString());
+      if (!schedule) {
+        return [];
+      }
+      const { start, end } = AttendanceService.shiftWindow(schedule, dateKey, timezone);
+      return [{ ...entry, shiftName: schedule.shiftName, date: day, scheduledStart: start, scheduledEnd: end }];
+    });
+  }
+
+  // Shift the employee is checking in for: the earliest of yesterday's and today's shifts that has not ended yet
+  static async findCurrentShift(employeeId: ObjectIdLike, facilityId: ObjectIdLike, timezone: string, now: Date): Promise<ExpectedShift | null> {
+    const today = AttendanceService.localDateKey(now, timezone);
+    const yesterday = toDateKey(new Date(fromDateKey(today).getTime() - DAY_MS));
+
+    const shifts = [
+      ...await AttendanceService.getExpectedShifts(facilityId, yesterday, timezone, employeeId),
+      ...await AttendanceService.getExpectedShifts(facilityId, today, timezone, employeeId)
+    ];
+    return shifts
+      .filter(shift => shift.scheduledEnd > now)
+      .sort((a, b) => a.scheduledStart.getTime() - b.scheduledStart.getTime())[0] ?? null;
+  }
+
+  // Great-circle distance between two points
+  static distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+    const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+  }
+
+  // Check that the employee is at the facility, by its QR code or by the device location
+  static verifyPresence(settings: IAttendanceSettings, punch: {
+    method: AttendanceVerification;
+    qrCode?: string;
+    location?: IAttendancePunch['location'];
+  }): PresenceCheck {
+    if (!settings.verificationMethods.includes(punch.method)) {
+      return { verified: false, reason: `This facility accepts ${settings.verificationMethods.join(' or ')} verification` };
+    }
+
+    if (punch.method === AttendanceVerification.QR) {
+      const payload = punch.qrCode ? AttendanceService.readQrToken(punch.qrCode) : null;
+      if (!payload || payload.facilityId !== settings.facilityId.toString() || payload.jti !== settings.qrTokenId) {
+        return { verified: false, reason: 'Invalid or outdated attendance QR code' };
+      }
+      return { verified: true };
+    }
+
+    if (!settings.geofence) {
+      return { verified: false, reason: 'No geofence is configured for this facility' };
+    }
+    if (!punch.location) {
+      return { verified: false, reason: 'The device location is required for geofence verification' };
+    }
+    const distanceMeters = Math.round(AttendanceService.distanceMeters(settings.geofence, punch.location));
+    if (distanceMeters > settings.geofence.radiusMeters) {
+      return {
+        verified: false,
+        distanceMeters,
+        reason: `You are ${distanceMeters} m from the facility; attendance can be recorded within ${settings.geofence.radiusMeters} m`
+      };
+    }
+    return { verified: true, distanceMeters };
+  }
+
+  // Token encoded in the facility's current attendance QR code; the same until the code is regenerated
+  static getQrToken(settings: IAttendanceSettings): string | null {
+    if (!settings.qrTokenId) {
+      return null;
+    }
+    return jwt.sign(
+      { facilityId: settings.facilityId.toString(), purpose: 'attendance' },
+      config.JWT_SECRET as string,
+      { jwtid: settings.qrTokenId, noTimestamp: true }
+    );
+  }
+
+  // Issue a new QR code for the facility; previously printed codes stop working
+  static async regenerateQrToken(settings: IAttendanceSettings, actor: IUser): Promise<string> {
+    settings.qrTokenId = crypto.randomUUID();
+    settings.qrIssuedAt = new Date();
+    settings.createdBy = settings.createdBy ?? actor._id;
+    settings.updatedBy = actor._id;
+    await settings.save();
+    return AttendanceService.getQrToken(settings)!;
+  }
+
+  // PNG data URL of a QR code to print and put up at the facility
+  static async getQrCodeDataUrl(token: string): Promise<string> {
+    return QRCode.toDataURL(token, { errorCorrectionLevel: 'M', margin: 2, width: 512 });
+  }
+
+  // Payload of a well-formed attendance QR token; null otherwise (whether it is current is checked separately)
+  static readQrToken(token: string): AttendanceQrPayload | null {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET) as AttendanceQrPayload;
+      return decoded.purpose === 'attendance' && decoded.jti ? decoded : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Record a check-in and how late it is against the scheduled start
+  static applyCheckIn(attendance: IAttendance, punch: IAttendancePunch, settings: IAttendanceSettings): void {
+    attendance.checkIn = punch;
+    attendance.status = AttendanceStatus.PRESENT;
+    attendance.autoMarked = false;
+
+    const lateMinutes = attendance.scheduledStart ? minutesBetween(attendance.scheduledStart, punch.time) : 0;
+    attendance.lateMinutes = lateMinutes > settings.lateGraceMinutes ? lateMinutes : 0;
+  }
+
+  // Record a check-out, how early it is against the scheduled end and the time worked
+  static applyCheckOut(attendance: IAttendance, punch: IAttendancePunch, settings: IAttendanceSettings): void {
+    attendance.checkOut = punch;
+
+    const earlyMinutes = attendance.scheduledEnd ? minutesBetween(punch.time, attendance.scheduledEnd) : 0;
+    attendance.earlyExitMinutes = earlyMinutes > settings.earlyExitGraceMinutes ? earlyMinutes : 0;
+    attendance.workedMinutes = attendance.checkIn ? Math.max(minutesBetween(attendance.checkIn.time, punch.time), 0) : 0;
+  }
+
+  /**
+   * Mark employees whose shift on a local date has ended without a check-in: on leave when an approved leave
+   * covers the date, absent otherwise. Scheduled (not rostered) shifts falling on a week-off or holiday are skipped.
+   * Safe to run repeatedly: shifts that already have an attendance record are left alone.
+   */
+  static async markAbsenteesForDay(facilityId: ObjectIdLike, dateKey: string, settings: IAttendanceSettings, now = new Date()): Promise<AbsenteeMarkingResult> {
+    const result: AbsenteeMarkingResult = { absent: 0, onLeave: 0 };
+    const day = fromDateKey(dateKey);
+
+    const ended = (await AttendanceService.getExpectedShifts(facilityId, dateKey, settings.timezone))
+      .filter(shift => shift.scheduledEnd <= now);
+    if (ended.length === 0) {
+      return result;
+    }
+
+    const existing = await Attendance.find({
+      date: day,
+      employeeId: { $in: ended.map(shift => shift.employeeId) }
+    }).select('employeeId shiftScheduleId').lean<IAttendance[]>();
+    const recorded = new Set(existing.map(record => `${record.employeeId}:${record.shiftScheduleId}`));
+    const missing = ended.filter(shift => !recorded.has(`${shift.employeeId}:${shift.shiftScheduleId}`));
+    if (missing.length === 0) {
+      return result;
+    }
+
+    const employeeIds = missing.map(shift => shift.employeeId);
+    const [employees, leaves] = await Promise.all([
+      User.find({ _id: { $in: employeeIds } }),
+      LeavePlanner.find({
+        employeeId: { $in: employeeIds },
+        status: 'approved',
+        isDeleted: false,
+        startDate: { $lte: day },
+        endDate: { $gte: day }
+      }).lean<ILeavePlanner[]>()
+    ]);
+
+    for (const shift of missing) {
+      const leave = leaves.find(entry => entry.employeeId.toString() === shift.employeeId.toString());
+      if (!leave && !shift.rosterId) {
+        const employee = employees.find(entry => entry._id.toString() === shift.employeeId.toString());
+        if (!employee) continue;
+        const duration = await HolidayCalendarService.calculateLeaveDays({ employee, facilityId, startDate: day, endDate: day });
+        if (duration.totalDays === 0) continue;
+      }
+
+      try {
+        await Attendance.create({
+          facilityId,
+          employeeId: shift.employeeId,
+          date: day,
+          shiftScheduleId: shift.shiftScheduleId,
+          rosterId: shift.rosterId,
+          scheduledStart: shift.scheduledStart,
+          scheduledEnd: shift.scheduledEnd,
+          status: leave ? AttendanceStatus.ON_LEAVE : AttendanceStatus.ABSENT,
+          leavePlannerId: leave?._id,
+          autoMarked: true
+        });
+      } catch (error: any) {
+        // Checked in meanwhile
+        if (error.code === 11000) continue;
+        throw error;
+      }
+
+      if (shift.rosterId) {
+        await Roster.updateOne(
+          { _id: shift.rosterId, 'shifts._id': shift.rosterEntryId },
+          { $set: { 'shifts.$.status': leave ? 'leave' : 'absent' } }
+        );
+      }
+      if (leave) result.onLeave++;
+      else result.absent++;
+    }
+
+    return result;
+  }
+
+  // Mark absentees of every facility for the shifts of yesterday and today that have ended
+  static async markAbsentees(now = new Date()): Promise<AbsenteeMarkingResult> {
+    const since = new Date(now.getTime() - 2 * DAY_MS);
+    const [scheduled, rostered] = await Promise.all([
+      ShiftSchedule.distinct('facilityId', { isDeleted: false }),
+      Roster.distinct('facilityId', { isDeleted: false, status: { $ne: RosterStatus.DRAFT }, date: { $gte: since } })
+    ]);
+    const facilityIds = [...new Set([...scheduled, ...rostered].map(String))];
+
+    const total: AbsenteeMarkingResult = { absent: 0, onLeave: 0 };
+    for (const facilityId of facilityIds) {
+      const settings = await AttendanceService.getSettings(facilityId);
+      const today = AttendanceService.localDateKey(now, settings.timezone);
+      const yesterday = toDateKey(new Date(fromDateKey(today).getTime() - DAY_MS));
+
+      for (const dateKey of [yesterday, today]) {
+        const result = await AttendanceService.markAbsenteesForDay(facilityId, dateKey, settings, now);
+        total.absent += result.absent;
+        total.onLeave += result.onLeave;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Attendance of a facility on a local date: the records of the day plus the expected shifts nobody has
+   * checked in for yet (status not_checked_in).
+   */
+  static async getDailyReport(facilityId: ObjectIdLike, dateKey: string, settings: IAttendanceSettings) {
+    const day = fromDateKey(dateKey);
+    const [records, expected] = await Promise.all([
+      Attendance.find({ facilityId, date: day })
+        .populate('employeeId', 'firstName lastName email')
+        .populate('shiftScheduleId', 'shiftName startTime endTime')
+        .sort({ scheduledStart: 1, 'checkIn.time': 1 })
+        .lean(),
+      AttendanceService.getExpectedShifts(facilityId, dateKey, settings.timezone)
+    ]);
+
+    const recorded = new Set(records.map((record: any) => `${record.employeeId?._id}:${record.shiftScheduleId?._id ?? null}`));
+    const notCheckedIn = expected.filter(shift => !recorded.has(`${shift.employeeId}:${shift.shiftScheduleId}`));
+    const employees = await User.find({ _id: { $in: notCheckedIn.map(shift => shift.employeeId) } })
+      .select('firstName lastName email')
+      .lean();
+
+    const summary = {
+      scheduled: expected.length,
+      present: records.filter(record => record.status === AttendanceStatus.PRESENT).length,
+      late: records.filter(record => record.lateMinutes > 0).length,
+      earlyExit: records.filter(record => record.earlyExitMinutes > 0).length,
+      absent: records.filter(record => record.status === AttendanceStatus.ABSENT).length,
+      onLeave: records.filter(record => record.status === AttendanceStatus.ON_LEAVE).length,
+      notCheckedIn: notCheckedIn.length
+    };
+
+    return {
+      date: dateKey,
+      summary,
+      records,
+      notCheckedIn: notCheckedIn.map(shift => ({
+        employee: employees.find(employee => String(employee._id) === shift.employeeId.toString()) ?? shift.employeeId,
+        shiftScheduleId: shift.shiftScheduleId,
+        shiftName: shift.shiftName,
+        scheduledStart: shift.scheduledStart,
+        scheduledEnd: shift.scheduledEnd
+      }))
+    };
+  }
+
+  // Per-employee totals of a facility's attendance in a calendar month
+  static async getMonthlyReport(facilityId: ObjectIdLike, year: number, month: number) {
+    const from = new Date(Date.UTC(year, month - 1, 1));
+    const to = new Date(Date.UTC(year, month, 1));
+
+    const employees = await Attendance.aggregate([
+      { $match: { facilityId: new mongoose.Types.ObjectId(facilityId.toString()), date: { $gte: from, $lt: to } } },
+      {
+        $group: {
+          _id: '$employeeId',
+          present: { $sum: { $cond: [{ $eq: ['$status', AttendanceStatus.PRESENT] }, 1, 0] } },
+          absent: { $sum: { $cond: [{ $eq: ['$status', AttendanceStatus.ABSENT] }, 1, 0] } },
+          onLeave: { $sum: { $cond: [{ $eq: ['$status', AttendanceStatus.ON_LEAVE] }, 1, 0] } },
+          lateDays: { $sum: { $cond: [{ $gt: ['$lateMinutes', 0] }, 1, 0] } },
+          lateMinutes: { $sum: '$lateMinutes' },
+          earlyExitDays: { $sum: { $cond: [{ $gt: ['$earlyExitMinutes', 0] }, 1, 0] } },
+          earlyExitMinutes: { $sum: '$earlyExitMinutes' },
+          workedMinutes: { $sum: '$workedMinutes' }
+        }
+      },
+      { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'employee' } },
+      { $unwind: { path: '$employee', preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          _id: 0,
+          employeeId: '$_id',
+          firstName: '$employee.firstName',
+          lastName: '$employee.lastName',
+          email: '$employee.email',
+          present: 1,
+          absent: 1,
+          onLeave: 1,
+          lateDays: 1,
+          lateMinutes: 1,
+          earlyExitDays: 1,
+          earlyExitMinutes: 1,
+          workedHours: { $round: [{ $divide: ['$workedMinutes', 60] }, 2] }
+        }
+      },
+      { $sort: { firstName: 1, lastName: 1 } }
+    ]);
+
+    const totals = employees.reduce((sum, row) => ({
+      present: sum.present + row.present,
+      absent: sum.absent + row.absent,
+      onLeave: sum.onLeave + row.onLeave,
+      lateDays: sum.lateDays + row.lateDays,
+      earlyExitDays: sum.earlyExitDays + row.earlyExitDays
+    }), { present: 0, absent: 0, onLeave: 0, lateDays: 0, earlyExitDays: 0 });
+
+    return { year, month, totals, employees };
+  }
+
+  // Schedule the end-of-shift absentee marking (ATTENDANCE_ABSENTEE_CRON)
+  static startAbsenteeJob(): void {
+    if (!config.ATTENDANCE_ABSENTEE_CRON || config.NODE_ENV === 'test') {
+      return;
+    }
+
+    cron.schedule(config.ATTENDANCE_ABSENTEE_CRON, () => {
+      AttendanceService.markAbsentees()
+        .then(({ absent, onLeave }) => {
+          if (absent + onLeave > 0) {
+            logger.info(`Attendance: marked ${absent} absent and ${onLeave} on leave after their shift ended`);
+          }
+        })
+        .catch(error => logger.error('Absentee marking failed:', error));
+    });
+    logger.info(`Absentee marking scheduled (${config.ATTENDANCE_ABSENTEE_CRON})`);
+  }
+}
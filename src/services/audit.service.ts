@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import { getRequestContext } from '../middleware/requestContext';
+import { AuditAction, AuditLog, IAuditChange } from '../models/AuditLog';
+import { logger } from '../utils/logger';
+
+const REDACTED_VALUE = '[REDACTED]';
+
+// Bookkeeping fields that never produce audit changes
+const ALWAYS_EXCLUDED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+export interface AuditDiffOptions {
+  exclude?: string[]; // Fields (and their sub-fields) left out of the diff
+  redact?: string[]; // Fields whose change is recorded without the values
+}
+
+export interface AuditChangeInput extends AuditDiffOptions {
+  entityType: string;
+  before: Record<string, any> | null; // null for creates
+  after: Record<string, any> | null; // null for hard deletes
+  facilityField?: string | null; // Field holding the facility id (null when the entity has none)
+}
+
+const isPlainObject = (value: any): boolean =>
+  value !== null &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !(value instanceof mongoose.Types.ObjectId) &&
+  !Buffer.isBuffer(value);
+
+const matchesField = (field: string, candidates: string[]): boolean =>
+  candidates.some(candidate => field === candidate || field.startsWith(`${candidate}.`));
+
+// Convert ObjectIds, dates and nested values to plain JSON values
+const normalize = (value: any): any => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+// Flatten nested objects to dot paths; arrays are compared as a whole
+const flatten = (value: Record<string, any>, prefix: string = '', output: Record<string, any> = {}): Record<string, any> => {
+  for (const [key, nested] of Object.entries(value)) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(nested) && Object.keys(nested).length > 0) {
+      flatten(nested, field, output);
+    } else {
+      output[field] = normalize(nested);
+    }
+  }
+  return output;
+};
+
+const readField = (source: Record<string, any> | null, field: string): any =>
+  field.split('.').reduce((value: any, key) => (value == null ? undefined : value[key]), source);
+
+export class AuditService {
+  // Field-level differences between two snapshots of an entity
+  static diff(
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+    options: AuditDiffOptions = {}
+  ): IAuditChange[] {
+    const exclude = [...ALWAYS_EXCLUDED_FIELDS, ...(options.exclude || [])];
+    const redact = options.redact || [];
+    const flatBefore = before ? flatten(before) : {};
+    const flatAfter = after ? flatten(after) : {};
+    const fields = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])).sort();
+
+    const changes: IAuditChange[] = [];
+    for (const field of fields) {
+      if (matchesField(field, exclude)) {
+        continue;
+      }
+      const previous = flatBefore[field];
+      const next = flatAfter[field];
+      if (JSON.stringify(previous) === JSON.stringify(next)) {
+        continue;
+      }
+      if (matchesField(field, redact)) {
+        changes.push({ field, before: previous === undefined ? undefined : REDACTED_VALUE, after: next === undefined ? undefined : REDACTED_VALUE });
+      } else {
+        changes.push({ field, before: previous, after: next });
+      }
+    }
+    return changes;
+  }
+
+  // Derive the audit action from the before/after snapshots (soft deletes toggle isDeleted)
+  static resolveAction(before: Record<string, any> | null, after: Record<string, any> | null): AuditAction {
+    if (!before) return AuditAction.CREATE;
+    if (!after) return AuditAction.DELETE;
+    if (Boolean(before.isDeleted) !== Boolean(after.isDeleted)) {
+      return after.isDeleted ? AuditAction.DELETE : AuditAction.RESTORE;
+    }
+    return AuditAction.UPDATE;
+  }
+
+  /**
+   * Record a change to an entity together with the actor and request details of the current request.
+   * Failures are logged and never propagated so auditing cannot break the audited operation.
+   */
+  static async recordChange(input: AuditChangeInput): Promise<void> {
+    try {
+      const { entityType, before, after } = input;
+      const snapshot = after || before;
+      if (!snapshot?._id) {
+        return;
+      }
+
+      const action = AuditService.resolveAction(before, after);
+      const changes = AuditService.diff(before, after, input);
+      if (action === AuditAction.UPDATE && changes.length === 0) {
+        return;
+      }
+
+      const context = getRequestContext();
+      const facilityField = input.facilityField === undefined ? 'facilityId' : input.facilityField;
+      const facilityId = facilityField ? readField(snapshot, facilityField) : undefined;
+
+      // Outside an authenticated request, fall back to the audit fields written by the operation itself
+      let userId = context?.actor?.userId;
+      if (!userId) {
+        const updatedByChanged = changes.some(change => change.field === 'updatedBy');
+        userId = action === AuditAction.CREATE
+          ? snapshot.createdBy?.toString()
+          : updatedByChanged ? snapshot.updatedBy?.toString() : undefined;
+      }
+
+      await AuditLog.create({
+        action,
+        entityType,
+        entityId: snapshot._id,
+        facilityId: facilityId && mongoose.Types.ObjectId.isValid(facilityId.toString()) ? facilityId : undefined,
+        userId: userId && mongoose.Types.ObjectId.isValid(userId) ? userId : undefined,
+        userEmail: context?.actor?.email,
+        userRole: context?.actor?.role,
+        apiKeyId: context?.actor?.apiKeyId,
+        ip: context?.ip,
+        userAgent: context?.userAgent,
+        requestMethod: context?.method,
+        requestPath: context?.path,
+        changes
+      });
+    } catch (error) {
+      logger.error(`Failed to record audit log for ${input.entityType}:`, error);
+    }
+  }
+}
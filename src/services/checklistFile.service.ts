@@ -0,0 +1,371 @@
+import ExcelJS from 'exceljs';
+import { promises as fs } from 'fs';
+import mongoose from 'mongoose';
+import path from 'path';
+import { RecurrenceFrequency } from '../models/ChecklistTemplate';
+import { ChecklistDepartment } from '../models/DailyChecklist';
+import { FloorLocation } from '../models/FloorLocation';
+import { IHygieneChecklistItem } from '../models/HygieneChecklist';
+
+export type ChecklistItemFrequency = RecurrenceFrequency.DAILY | RecurrenceFrequency.WEEKLY | RecurrenceFrequency.MONTHLY;
+
+export interface ChecklistRowError {
+  row: number; // Row of the sheet (1-based); 0 for problems with the file as a whole
+  column?: string;
+  message: string;
+}
+
+export interface ParsedChecklistFile {
+  sheetName?: string;
+  totalRows: number;
+  items: IHygieneChecklistItem[];
+  errors: ChecklistRowError[];
+}
+
+export interface ChecklistItemChange {
+  itemName: string;
+  area?: string;
+  changes: Partial<Record<'description' | 'frequency' | 'department', { from?: string; to?: string }>>;
+}
+
+// Items added, removed and changed between two versions; items are matched by name and floor/area
+export interface ChecklistDiff {
+  added: IHygieneChecklistItem[];
+  removed: IHygieneChecklistItem[];
+  changed: ChecklistItemChange[];
+  unchanged: number;
+}
+
+// Items of one department and frequency, at the same floor locations
+export interface ChecklistItemGroup {
+  assignedDepartment: ChecklistDepartment;
+  frequency: ChecklistItemFrequency;
+  area?: string;
+  floorLocationIds: mongoose.Types.ObjectId[];
+  items: IHygieneChecklistItem[];
+}
+
+// Departments and frequencies of items without their own, and floors of items without a floor/area
+export interface ChecklistGroupDefaults {
+  assignedDepartment?: ChecklistDepartment;
+  frequency?: string;
+  floorLocationIds?: string[];
+}
+
+export const CHECKLIST_FILE_EXTENSIONS = ['.xlsx', '.csv'];
+
+// Longest checklist read from a file
+const MAX_ROWS = 1000;
+// Rows searched for the header, below titles and logos
+const HEADER_SEARCH_ROWS = 10;
+
+// Normalized header names of the columns of checklist sheets
+const COLUMN_ALIASES: Record<'itemName' | 'description' | 'frequency' | 'department' | 'area', string[]> = {
+  itemName: ['item', 'itemname', 'items', 'task', 'taskname', 'activity', 'activities', 'checkpoint', 'checklistitem', 'particulars', 'name'],
+  description: ['description', 'details', 'instructions', 'instruction', 'procedure', 'method', 'remarks', 'notes'],
+  frequency: ['frequency', 'freq', 'schedule', 'recurrence', 'periodicity', 'interval'],
+  department: ['department', 'dept', 'team', 'service', 'category'],
+  area: ['floor', 'area', 'location', 'floorarea', 'floorlocation', 'zone', 'place', 'floorname']
+};
+
+const FREQUENCY_ALIASES: Record<ChecklistItemFrequency, string[]> = {
+  [RecurrenceFrequency.DAILY]: ['daily', 'day', 'everyday', 'eachday', 'onceaday', 'd'],
+  [RecurrenceFrequency.WEEKLY]: ['weekly', 'week', 'everyweek', 'onceaweek', 'w'],
+  [RecurrenceFrequency.MONTHLY]: ['monthly', 'month', 'everymonth', 'onceamonth', 'm']
+};
+
+const DEPARTMENT_ALIASES: Record<ChecklistDepartment, string[]> = {
+  [ChecklistDepartment.HOUSEKEEPING]: ['housekeeping', 'hk', 'cleaning', 'janitorial'],
+  [ChecklistDepartment.GARDENING]: ['gardening', 'garden', 'horticulture', 'landscaping'],
+  [ChecklistDepartment.PEST_CONTROL]: ['pestcontrol', 'pest', 'fumigation']
+};
+
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const itemKey = (item: Pick<IHygieneChecklistItem, 'itemName' | 'area'>): string =>
+  `${item.itemName.trim().toLowerCase()}|${(item.area || '').trim().toLowerCase()}`;
+
+const findAlias = <T extends string>(aliases: Record<T, string[]>, value: string): T | undefined => {
+  const normalized = normalize(value);
+  return (Object.keys(aliases) as T[]).find(key => aliases[key].includes(normalized));
+};
+
+// Split CSV content into rows of fields, honouring double-quoted fields that span lines
+const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+  const delimiter = [',', ';', '\t'].find(candidate => firstLine.includes(candidate)) ?? ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(current.trim());
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(current.trim());
+      rows.push(row);
+      row = [];
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current || row.length > 0) {
+    row.push(current.trim());
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Checklists uploaded by clients as spreadsheets (XLSX or CSV, one item per row). Columns are found by their
+ * header, which may sit below a title: item name (required), description, frequency, department and floor/area.
+ * Rows that cannot be used are reported with their row number so the file can be fixed before it is saved.
+ */
+export class ChecklistFileService {
+  static isSupported(fileName: string): boolean {
+    return CHECKLIST_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+  }
+
+  // Rows of the first sheet with content, as text
+  private static async readRows(filePath: string, fileName: string): Promise<{ sheetName?: string; rows: string[][] }> {
+    if (path.extname(fileName).toLowerCase() === '.csv') {
+      return { rows: parseCsv(await fs.readFile(filePath, 'utf8')) };
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+    const worksheet = workbook.worksheets.find(sheet => sheet.actualRowCount > 0);
+    if (!worksheet) {
+      return { rows: [] };
+    }
+
+    const rows: string[][] = [];
+    worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const fields: string[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        fields.push(row.getCell(column).text.trim());
+      }
+      rows[rowNumber - 1] = fields;
+    });
+    return { sheetName: worksheet.name, rows: Array.from(rows, fields => fields ?? []) };
+  }
+
+  // Column positions named by a header row, or null when the row is not a header
+  private static mapHeader(fields: string[]): Partial<Record<keyof typeof COLUMN_ALIASES, number>> | null {
+    const headers = fields.map(normalize);
+    const found: Partial<Record<keyof typeof COLUMN_ALIASES, number>> = {};
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [keyof typeof COLUMN_ALIASES, string[]][]) {
+      const index = headers.findIndex((header, position) =>
+        aliases.includes(header) && !Object.values(found).includes(position)
+      );
+      if (index >= 0) found[column] = index;
+    }
+    return found.itemName !== undefined ? found : null;
+  }
+
+  // Read the items of an uploaded checklist; unusable rows are reported rather than failing the file
+  static async parse(filePath: string, fileName: string): Promise<ParsedChecklistFile> {
+    const result: ParsedChecklistFile = { totalRows: 0, items: [], errors: [] };
+    let sheet: { sheetName?: string; rows: string[][] };
+    try {
+      sheet = await ChecklistFileService.readRows(filePath, fileName);
+    } catch (error) {
+      result.errors.push({ row: 0, message: 'The file could not be read as a spreadsheet' });
+      return result;
+    }
+    result.sheetName = sheet.sheetName;
+
+    const headerIndex = sheet.rows.slice(0, HEADER_SEARCH_ROWS).findIndex(fields => ChecklistFileService.mapHeader(fields));
+    if (headerIndex < 0) {
+      result.errors.push({ row: 0, message: 'No header row with an item column (e.g. "Item", "Task" or "Activity") was found' });
+      return result;
+    }
+    const columns = ChecklistFileService.mapHeader(sheet.rows[headerIndex])!;
+    const seen = new Map<string, number>();
+
+    for (let index = headerIndex + 1; index < sheet.rows.length; index++) {
+      const fields = sheet.rows[index];
+      if (fields.every(field => !field)) continue;
+      const row = index + 1;
+      result.totalRows++;
+      if (result.totalRows > MAX_ROWS) {
+        result.errors.push({ row, message: `A checklist can have at most ${MAX_ROWS} items` });
+        break;
+      }
+
+      const cell = (column: keyof typeof COLUMN_ALIASES): string => (columns[column] !== undefined ? fields[columns[column]!] ?? '' : '');
+      const rowErrors: ChecklistRowError[] = [];
+      const itemName = cell('itemName');
+      const description = cell('description');
+      const area = cell('area');
+
+      if (!itemName) {
+        rowErrors.push({ row, column: 'itemName', message: 'Item name is missing' });
+      } else if (itemName.length > 200) {
+        rowErrors.push({ row, column: 'itemName', message: 'Item name is longer than 200 characters' });
+      }
+      if (description.length > 500) {
+        rowErrors.push({ row, column: 'description', message: 'Description is longer than 500 characters' });
+      }
+      if (area.length > 100) {
+        rowErrors.push({ row, column: 'area', message: 'Floor/area is longer than 100 characters' });
+      }
+
+      let frequency: ChecklistItemFrequency | undefined;
+      if (cell('frequency')) {
+        frequency = findAlias(FREQUENCY_ALIASES, cell('frequency'));
+        if (!frequency) {
+          rowErrors.push({ row, column: 'frequency', message: `Unknown frequency "${cell('frequency')}"; use daily, weekly or monthly` });
+        }
+      }
+      let department: ChecklistDepartment | undefined;
+      if (cell('department')) {
+        department = findAlias(DEPARTMENT_ALIASES, cell('department'));
+        if (!department) {
+          rowErrors.push({ row, column: 'department', message: `Unknown department "${cell('department')}"; use housekeeping, gardening or pest control` });
+        }
+      }
+
+      if (itemName && rowErrors.length === 0) {
+        const key = itemKey({ itemName, area });
+        const duplicateOf = seen.get(key);
+        if (duplicateOf) {
+          rowErrors.push({ row, column: 'itemName', message: `Same item and floor/area as row ${duplicateOf}` });
+        } else {
+          seen.set(key, row);
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        result.errors.push(...rowErrors);
+        continue;
+      }
+      result.items.push({
+        row,
+        itemName,
+        description: description || undefined,
+        frequency,
+        department,
+        area: area || undefined
+      });
+    }
+
+    if (result.items.length === 0 && result.errors.length === 0) {
+      result.errors.push({ row: 0, message: 'The file has no checklist items' });
+    }
+    return result;
+  }
+
+  // Short description of row errors, for error messages
+  static describe(errors: ChecklistRowError[], limit = 5): string {
+    const described = errors.slice(0, limit).map(error => (error.row ? `row ${error.row}: ${error.message}` : error.message));
+    return errors.length > limit ? `${described.join('; ')} and ${errors.length - limit} more` : described.join('; ');
+  }
+
+  // Items added, removed and changed from one version of a checklist to the next
+  static diff(previous: IHygieneChecklistItem[], next: IHygieneChecklistItem[]): ChecklistDiff {
+    const previousByKey = new Map(previous.map(item => [itemKey(item), item]));
+    const result: ChecklistDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+    for (const item of next) {
+      const key = itemKey(item);
+      const before = previousByKey.get(key);
+      previousByKey.delete(key);
+      if (!before) {
+        result.added.push(item);
+        continue;
+      }
+
+      const changes: ChecklistItemChange['changes'] = {};
+      for (const field of ['description', 'frequency', 'department'] as const) {
+        if ((before[field] || undefined) !== (item[field] || undefined)) {
+          changes[field] = { from: before[field] || undefined, to: item[field] || undefined };
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        result.changed.push({ itemName: item.itemName, area: item.area, changes });
+      } else {
+        result.unchanged++;
+      }
+    }
+    result.removed = [...previousByKey.values()];
+    return result;
+  }
+
+  /**
+   * Group the items of a checklist by department, frequency and floor/area, matching floors/areas to the
+   * facility's floor locations by name or number. Problems (unknown floors, missing defaults) are returned
+   * instead of groups.
+   */
+  static async group(
+    facilityId: mongoose.Types.ObjectId,
+    items: IHygieneChecklistItem[],
+    defaults: ChecklistGroupDefaults
+  ): Promise<{ groups: ChecklistItemGroup[]; problems: string[] }> {
+    const problems: string[] = [];
+    const floorLocations = await FloorLocation.find({ facilityId, isActive: true, isDeleted: false }).select('floorName floorNumber');
+    const floorsByArea = new Map<string, mongoose.Types.ObjectId>();
+    for (const floorLocation of floorLocations) {
+      floorsByArea.set(normalize(floorLocation.floorName), floorLocation._id);
+      floorsByArea.set(normalize(String(floorLocation.floorNumber)), floorLocation._id);
+    }
+
+    const defaultFrequency = defaults.frequency ? findAlias(FREQUENCY_ALIASES, defaults.frequency) : undefined;
+    const unknownAreas = new Set<string>();
+    const groups = new Map<string, ChecklistItemGroup>();
+    for (const item of items) {
+      const assignedDepartment = (item.department as ChecklistDepartment | undefined) ?? defaults.assignedDepartment;
+      if (!assignedDepartment) {
+        problems.push(`Item "${item.itemName}" (row ${item.row}) has no department; give a default department`);
+        continue;
+      }
+      const frequency = (item.frequency as ChecklistItemFrequency | undefined) ?? defaultFrequency;
+      if (!frequency) {
+        problems.push(`Item "${item.itemName}" (row ${item.row}) has no frequency and the checklist type is not daily, weekly or monthly`);
+        continue;
+      }
+
+      let floorLocationIds: mongoose.Types.ObjectId[];
+      if (item.area) {
+        const floorLocationId = floorsByArea.get(normalize(item.area));
+        if (!floorLocationId) {
+          unknownAreas.add(item.area);
+          continue;
+        }
+        floorLocationIds = [floorLocationId];
+      } else if (defaults.floorLocationIds?.length) {
+        floorLocationIds = defaults.floorLocationIds.map(id => new mongoose.Types.ObjectId(id));
+      } else {
+        problems.push(`Item "${item.itemName}" (row ${item.row}) has no floor/area; give default floor locations`);
+        continue;
+      }
+
+      const area = item.area ? normalize(item.area) : '';
+      const key = `${assignedDepartment}|${frequency}|${area}`;
+      const group = groups.get(key) ?? { assignedDepartment, frequency, area: item.area, floorLocationIds, items: [] };
+      group.items.push(item);
+      groups.set(key, group);
+    }
+
+    if (unknownAreas.size > 0) {
+      problems.unshift(`No active floor location of the facility is named or numbered ${[...unknownAreas].map(area => `"${area}"`).join(', ')}`);
+    }
+    return { groups: [...groups.values()], problems };
+  }
+}
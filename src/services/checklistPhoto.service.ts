@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import exifr from 'exifr';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import { IChecklistPhoto, IDailyChecklist, PhotoStage } from '../models/DailyChecklist';
+import { FacilityDetails, PhotoEvidenceRequirement } from '../models/FacilityDetails';
+import { logger } from '../utils/logger';
+import { StorageService } from './storage.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+type ChecklistItem = IDailyChecklist['checklistItems'][number];
+
+export const CHECKLIST_PHOTO_MAX_BYTES = 10 * 1024 * 1024; // 10MB per photo
+export const CHECKLIST_PHOTOS_PER_UPLOAD = 5;
+export const CHECKLIST_PHOTOS_PER_STAGE = 10; // Per item
+
+// An uploaded photo that could be read, with what was taken from it
+export interface ProcessedPhoto {
+  fileName: string;
+  data: Buffer;
+  contentType: string;
+  extension: string;
+  thumbnail: Buffer; // JPEG
+  width?: number;
+  height?: number;
+  takenAt?: Date;
+  location?: { latitude: number; longitude: number };
+}
+
+// Image formats accepted as photos, by the format sharp reads from the file itself
+const PHOTO_FORMATS: Record<string, { contentType: string; extension: string }> = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  png: { contentType: 'image/png', extension: 'png' },
+  webp: { contentType: 'image/webp', extension: 'webp' }
+};
+
+const THUMBNAIL_SIZE = 320;
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+/**
+ * Photos taken as evidence of the work on checklist items, before and after it. The original and a server-made
+ * thumbnail are kept in the file storage; clients only ever get signed URLs that expire. Facilities can require
+ * photos on the items their templates flag, in which case such an item cannot be completed without them.
+ */
+export class ChecklistPhotoService {
+  // Whether an upload's declared type is one of the accepted image types (the content is checked when processed)
+  static isSupportedType(mimeType: string): boolean {
+    return Object.values(PHOTO_FORMATS).some(format => format.contentType === mimeType);
+  }
+
+  /**
+   * Read an uploaded photo and make its thumbnail.
+   * @returns null when the file is not a readable JPEG, PNG or WebP image
+   */
+  static async process(fileName: string, data: Buffer): Promise<ProcessedPhoto | null> {
+    const metadata = await sharp(data).metadata().catch(() => null);
+    const format = metadata?.format ? PHOTO_FORMATS[metadata.format] : undefined;
+    if (!metadata || !format) {
+      return null;
+    }
+
+    const thumbnail = await sharp(data)
+      .rotate() // Upright by the EXIF orientation
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer()
+      .catch(() => null);
+    if (!thumbnail) {
+      return null;
+    }
+
+    // Orientations 5-8 are rotated by 90 degrees
+    const sideways = (metadata.orientation || 1) >= 5;
+    return {
+      fileName,
+      data,
+      ...format,
+      thumbnail,
+      width: sideways ? metadata.height : metadata.width,
+      height: sideways ? metadata.width : metadata.height,
+      ...await ChecklistPhotoService.readExif(data)
+    };
+  }
+
+  /**
+   * When and where a photo was taken, from its EXIF data. The capture time has no time zone in EXIF and is read
+   * as the server's local time unless the camera recorded its offset.
+   */
+  static async readExif(data: Buffer): Promise<Pick<ProcessedPhoto, 'takenAt' | 'location'>> {
+    const result: Pick<ProcessedPhoto, 'takenAt' | 'location'> = {};
+    try {
+      const tags = await exifr.parse(data, { pick: ['DateTimeOriginal', 'CreateDate', 'OffsetTimeOriginal'] });
+      const takenAt: unknown = tags?.DateTimeOriginal || tags?.CreateDate;
+      if (takenAt instanceof Date && !Number.isNaN(takenAt.getTime())) {
+        const offset = typeof tags.OffsetTimeOriginal === 'string' ? tags.OffsetTimeOriginal.match(/^([+-])(\d{2}):(\d{2})$/) : null;
+        result.takenAt = offset
+          ? new Date(Date.UTC(takenAt.getFullYear(), takenAt.getMonth(), takenAt.getDate(), takenAt.getHours(), takenAt.getMinutes(), takenAt.getSeconds())
+            - (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3])) * 60 * 1000)
+          : takenAt;
+      }
+
+      const gps = await exifr.gps(data);
+      if (gps && isCoordinate(gps.latitude, 90) && isCoordinate(gps.longitude, 180)) {
+        result.location = { latitude: gps.latitude, longitude: gps.longitude };
+      }
+    } catch (error) {
+      // Photos without readable EXIF data are accepted as they are
+    }
+    return result;
+  }
+
+  // Keep a processed photo and its thumbnail in the file storage; the returned photo is not yet on the checklist
+  static async store(checklist: IDailyChecklist, stage: PhotoStage, photo: ProcessedPhoto, actorId: ObjectIdLike): Promise<IChecklistPhoto> {
+    const baseKey = `checklist-photos/${checklist.facilityId}/${checklist._id}/${crypto.randomUUID()}`;
+    const storageKey = `${baseKey}.${photo.extension}`;
+    const thumbnailKey = `${baseKey}-thumbnail.jpg`;
+
+    await StorageService.put(storageKey, photo.data, photo.contentType);
+    try {
+      await StorageService.put(thumbnailKey, photo.thumbnail, 'image/jpeg');
+    } catch (error) {
+      await StorageService.remove(storageKey);
+      throw error;
+    }
+
+    return {
+      _id: new mongoose.Types.ObjectId(),
+      stage,
+      storageKey,
+      thumbnailKey,
+      contentType: photo.contentType,
+      fileName: photo.fileName,
+      fileSize: photo.data.length,
+      width: photo.width,
+      height: photo.height,
+      takenAt: photo.takenAt,
+      location: photo.location,
+      uploadedBy: new mongoose.Types.ObjectId(actorId.toString()),
+      uploadedAt: new Date()
+    };
+  }
+
+  // Remove the files of photos that are no longer on a checklist
+  static async discard(photos: Pick<IChecklistPhoto, 'storageKey' | 'thumbnailKey'>[]): Promise<void> {
+    await StorageService.remove(...photos.flatMap(photo => [photo.storageKey, photo.thumbnailKey]));
+  }
+
+  // The facility's photo evidence setting
+  static async getRequirement(facilityId: ObjectIdLike): Promise<PhotoEvidenceRequirement> {
+    const facility = await FacilityDetails.findById(facilityId).select('settings');
+    const requirement = facility?.settings?.checklistPhotoEvidence;
+    return Object.values(PhotoEvidenceRequirement).includes(requirement as PhotoEvidenceRequirement)
+      ? requirement as PhotoEvidenceRequirement
+      : PhotoEvidenceRequirement.OPTIONAL;
+  }
+
+  // Stages an item still needs a photo of before it can be completed
+  static missingStages(item: ChecklistItem, requirement: PhotoEvidenceRequirement): PhotoStage[] {
+    if (!item.photoRequired || requirement === PhotoEvidenceRequirement.OPTIONAL) {
+      return [];
+    }
+    const required = requirement === PhotoEvidenceRequirement.BEFORE_AND_AFTER
+      ? [PhotoStage.BEFORE, PhotoStage.AFTER]
+      : [PhotoStage.AFTER];
+    return required.filter(stage => !(item.photos || []).some(photo => photo.stage === stage));
+  }
+
+  /**
+   * A checklist as returned to clients: the storage keys of its photos are replaced with signed URLs of the photo
+   * and its thumbnail, valid for a limited time.
+   */
+  static async present(checklist: IDailyChecklist): Promise<Record<string, any>> {
+    const json = checklist.toJSON() as Record<string, any>;
+    json.checklistItems = await Promise.all((json.checklistItems || []).map(async (item: Record<string, any>) => ({
+      ...item,
+      photos: await Promise.all((item.photos || []).map((photo: IChecklistPhoto) => ChecklistPhotoService.presentPhoto(photo)))
+    })));
+    return json;
+  }
+
+  static async presentAll(checklists: IDailyChecklist[]): Promise<Record<string, any>[]> {
+    return Promise.all(checklists.map(checklist => ChecklistPhotoService.present(checklist)));
+  }
+
+  private static async presentPhoto(photo: IChecklistPhoto): Promise<Record<string, any>> {
+    const { storageKey, thumbnailKey, ...rest } = photo;
+    try {
+      const [original, thumbnail] = await Promise.all([
+        StorageService.getSignedUrl(storageKey),
+        StorageService.getSignedUrl(thumbnailKey)
+      ]);
+      return { ...rest, url: original.url, thumbnailUrl: thumbnail.url, urlExpiresAt: original.expiresAt };
+    } catch (error) {
+      logger.error(`Could not sign the URLs of checklist photo ${photo._id}:`, error);
+      return { ...rest, url: null, thumbnailUrl: null, urlExpiresAt: null };
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import mongoose from 'mongoose';
+import cron from 'node-cron';
+import { config } from '../config';
+import { ChecklistTemplate, IChecklistTemplate, RecurrenceFrequency } from '../models/ChecklistTemplate';
+import { DailyChecklist } from '../models/DailyChecklist';
+import { FloorLocation } from '../models/FloorLocation';
+import { HygieneSection } from '../models/HygieneSection';
+import { logger } from '../utils/logger';
+import { AttendanceService } from './attendance.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export interface GenerationResult {
+  created: number;
+  skipped: number; // Floors that already had a checklist of the section on the date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Checklist dates are calendar dates, stored as UTC midnight
+const startOfDay = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Checklist templates are generated into daily checklists, one per floor location of the template, on the dates
+ * their recurrence falls on. A scheduled job generates the checklists of each facility's current day in its
+ * timezone. A floor that already has a checklist of the section on the date, created by hand or by another
+ * template, is left alone. Past checklists are never changed: editing a template only regenerates its checklists
+ * of today and later that nobody has started.
+ */
+export class ChecklistTemplateService {
+  // Whether the template's recurrence falls on a date
+  static occursOn(template: Pick<IChecklistTemplate, 'recurrence' | 'startDate' | 'endDate'>, date: Date): boolean {
+    const day = startOfDay(date);
+    if (day < startOfDay(template.startDate) || (template.endDate && day > startOfDay(template.endDate))) {
+      return false;
+    }
+
+    const { frequency, weekdays, monthDays, intervalDays } = template.recurrence;
+    switch (frequency) {
+      case RecurrenceFrequency.DAILY:
+        return true;
+      case RecurrenceFrequency.WEEKLY:
+        return (weekdays || []).includes(WEEKDAYS[day.getUTCDay()]);
+      case RecurrenceFrequency.MONTHLY: {
+        const dayOfMonth = day.getUTCDate();
+        const lastDay = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+        const days = monthDays || [];
+        return days.includes(dayOfMonth) || (dayOfMonth === lastDay && days.some(monthDay => monthDay > lastDay));
+      }
+      case RecurrenceFrequency.CUSTOM: {
+        const elapsed = Math.round((day.getTime() - startOfDay(template.startDate).getTime()) / DAY_MS);
+        return elapsed % (intervalDays || 1) === 0;
+      }
+      default:
+        return false;
+    }
+  }
+
+  // Generate the checklists of a template for a date, skipping floors that already have one of the section
+  static async generate(template: IChecklistTemplate, dateKey: string, actorId: ObjectIdLike): Promise<GenerationResult> {
+    const result: GenerationResult = { created: 0, skipped: 0 };
+    const day = fromDateKey(dateKey);
+    if (!template.isActive || template.isDeleted || !ChecklistTemplateService.occursOn(template, day)) {
+      return result;
+    }
+
+    const section = await HygieneSection.findOne({ _id: template.hygieneSectionId, isActive: true, isDeleted: false });
+    if (section) {
+      const floorLocations = await FloorLocation.find({
+        _id: { $in: template.floorLocationIds },
+        facilityId: template.facilityId,
+        isActive: true,
+        isDeleted: false
+      }).select('_id');
+      const existing = await DailyChecklist.distinct('floorLocationId', {
+        facilityId: template.facilityId,
+        hygieneSectionId: template.hygieneSectionId,
+        floorLocationId: { $in: floorLocations.map(floorLocation => floorLocation._id) },
+        checklistDate: day,
+        isDeleted: false
+      });
+      const taken = new Set(existing.map(String));
+
+      for (const floorLocation of floorLocations) {
+        if (taken.has(String(floorLocation._id))) {
+          result.skipped++;
+          continue;
+        }
+        await DailyChecklist.create({
+          facilityId: template.facilityId,
+          hygieneSectionId: template.hygieneSectionId,
+          floorLocationId: floorLocation._id,
+          checklistDate: day,
+          checklistItems: template.checklistItems.map(item => ({
+            itemName: item.itemName,
+            description: item.description,
+            isCompleted: false,
+            photoRequired: !!item.photoRequired
+          })),
+          assignedDepartment: template.assignedDepartment,
+          checklistTemplateId: template._id,
+          createdBy: actorId,
+          updatedBy: actorId
+        });
+        result.created++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Bring the checklists of a template in line after it changed: its checklists of today and later that nobody
+   * has started are removed and generated again from the template as it is now.
+   */
+  static async regenerate(template: IChecklistTemplate, actorId: ObjectIdLike): Promise<GenerationResult & { removed: number }> {
+    const { timezone } = await AttendanceService.getSettings(template.facilityId);
+    const today = AttendanceService.localDateKey(new Date(), timezone);
+
+    const untouched = await DailyChecklist.find({
+      checklistTemplateId: template._id,
+      checklistDate: { $gte: fromDateKey(today) },
+      overallStatus: 'PENDING',
+      completedItems: 0,
+      isDeleted: false
+    }).select('checklistDate');
+    if (untouched.length > 0) {
+      await DailyChecklist.updateMany(
+        { _id: { $in: untouched.map(checklist => checklist._id) } },
+        { isDeleted: true, updatedBy: actorId }
+      );
+    }
+
+    const dateKeys = new Set([today, ...untouched.map(checklist => toDateKey(checklist.checklistDate))]);
+    const total = { created: 0, skipped: 0, removed: untouched.length };
+    for (const dateKey of [...dateKeys].sort()) {
+      const result = await ChecklistTemplateService.generate(template, dateKey, actorId);
+      total.created += result.created;
+      total.skipped += result.skipped;
+    }
+    return total;
+  }
+
+  // Generate the checklists of every active template for its facility's current day
+  static async generateAll(now = new Date()): Promise<GenerationResult> {
+    // Local dates are at most a day away from the UTC date
+    const templates = await ChecklistTemplate.find({
+      isActive: true,
+      isDeleted: false,
+      startDate: { $lte: new Date(startOfDay(now).getTime() + DAY_MS) },
+      $or: [{ endDate: null }, { endDate: { $gte: new Date(startOfDay(now).getTime() - DAY_MS) } }]
+    });
+
+    const todayByFacility = new Map<string, string>();
+    const total: GenerationResult = { created: 0, skipped: 0 };
+    for (const template of templates) {
+      const facilityId = String(template.facilityId);
+      if (!todayByFacility.has(facilityId)) {
+        const { timezone } = await AttendanceService.getSettings(facilityId);
+        todayByFacility.set(facilityId, AttendanceService.localDateKey(now, timezone));
+      }
+      const today = todayByFacility.get(facilityId)!;
+      if (template.generatedUntil && template.generatedUntil >= fromDateKey(today)) {
+        continue;
+      }
+
+      const result = await ChecklistTemplateService.generate(template, today, template.updatedBy);
+      await ChecklistTemplate.updateOne({ _id: template._id }, { generatedUntil: fromDateKey(today) });
+      total.created += result.created;
+      total.skipped += result.skipped;
+    }
+    return total;
+  }
+
+  // Generate each day's checklists from the templates (CHECKLIST_GENERATION_CRON)
+  static startGenerationJob(): void {
+    if (!config.CHECKLIST_GENERATION_CRON || config.NODE_ENV === 'test') {
+      return;
+    }
+
+    cron.schedule(config.CHECKLIST_GENERATION_CRON, () => {
+      ChecklistTemplateService.generateAll()
+        .then(({ created }) => {
+          if (created > 0) {
+            logger.info(`Checklist templates: ${created} daily checklists generated`);
+          }
+        })
+        .catch(error => logger.error('Checklist generation failed:', error));
+    });
+    logger.info(`Checklist generation scheduled (${config.CHECKLIST_GENERATION_CRON})`);
+  }
+}
@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose, { FilterQuery } from 'mongoose';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { config } from '../config';
+import { ChecklistTemplate } from '../models/ChecklistTemplate';
+import { DailyChecklist } from '../models/DailyChecklist';
+import { FloorLocation, IFloorLocation } from '../models/FloorLocation';
+import { HygieneSection } from '../models/HygieneSection';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type QrImageFormat = 'png' | 'svg';
+
+// Payload of a floor location's QR code; jti must match the floor's current code
+interface FloorQrPayload {
+  floorLocationId: string;
+  facilityId: string;
+  purpose: 'floor-location';
+  jti: string;
+}
+
+// One label of a printable QR sheet
+export interface FloorQrLabel {
+  facilityName: string;
+  floorName: string;
+  floorNumber: number;
+  sectionNames: string[];
+  token: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SECTION_LOOKBACK_DAYS = 30;
+
+// A4 sheet of 2 x 3 labels, in points
+const SHEET_MARGIN = 36;
+const LABEL_COLUMNS = 2;
+const LABEL_ROWS = 3;
+const LABEL_GAP = 12;
+const LABEL_PADDING = 12;
+const LABEL_QR_SIZE = 150;
+
+/**
+ * The QR code at a floor location encodes a token signed with the server secret, not the floor's plain qrCode
+ * string, so a code can only be obtained by scanning the printed label (or from a manager). Each floor has one
+ * current token; rotating it after a label was copied or leaked makes every printed copy of the old one invalid.
+ */
+export class FloorLocationQrService {
+  // Give the floor a new QR code; not saved
+  static issue(floorLocation: IFloorLocation): void {
+    floorLocation.qrTokenId = crypto.randomUUID();
+    floorLocation.qrIssuedAt = new Date();
+  }
+
+  // Token encoded in the floor's current QR code; the same until the code is rotated
+  static getToken(floorLocation: IFloorLocation): string | null {
+    if (!floorLocation.qrTokenId) {
+      return null;
+    }
+    return jwt.sign(
+      {
+        floorLocationId: floorLocation._id.toString(),
+        facilityId: floorLocation.facilityId.toString(),
+        purpose: 'floor-location'
+      },
+      config.JWT_SECRET as string,
+      { jwtid: floorLocation.qrTokenId, noTimestamp: true }
+    );
+  }
+
+  /**
+   * Token of the floor's current QR code, issuing one for floors created before codes were signed.
+   * The floor must be loaded with +qrTokenId.
+   */
+  static async ensureToken(floorLocation: IFloorLocation): Promise<string> {
+    if (!floorLocation.qrTokenId) {
+      FloorLocationQrService.issue(floorLocation);
+      await floorLocation.save();
+    }
+    return FloorLocationQrService.getToken(floorLocation)!;
+  }
+
+  // Replace the floor's QR code; printed labels of the previous code stop working
+  static async rotate(floorLocation: IFloorLocation, actorId: ObjectIdLike): Promise<string> {
+    FloorLocationQrService.issue(floorLocation);
+    floorLocation.updatedBy = new mongoose.Types.ObjectId(actorId.toString());
+    await floorLocation.save();
+    return FloorLocationQrService.getToken(floorLocation)!;
+  }
+
+  // Payload of a well-formed floor QR token; null otherwise (whether it is current is checked separately)
+  static readToken(token: string): FloorQrPayload | null {
+    try {
+      const decoded = jwt.verify(token.trim(), config.JWT_SECRET) as FloorQrPayload;
+      return decoded.purpose === 'floor-location' && decoded.jti ? decoded : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Floor location of a scanned QR code, among the floors matching the filter.
+   * @returns null when the token is forged, rotated out or of a floor outside the filter
+   */
+  static async resolve(token: string, filter: FilterQuery<IFloorLocation> = {}): Promise<IFloorLocation | null> {
+    const payload = FloorLocationQrService.readToken(token);
+    if (!payload || !mongoose.isValidObjectId(payload.floorLocationId)) {
+      return null;
+    }
+
+    const floorLocation = await FloorLocation.findOne({
+      ...filter,
+      _id: payload.floorLocationId,
+      isDeleted: false
+    }).select('+qrTokenId');
+    if (!floorLocation || floorLocation.qrTokenId !== payload.jti || floorLocation.facilityId.toString() !== payload.facilityId) {
+      return null;
+    }
+    return floorLocation;
+  }
+
+  // QR code image of a token, as PNG bytes or SVG markup
+  static async renderImage(token: string, format: QrImageFormat): Promise<Buffer | string> {
+    if (format === 'svg') {
+      return QRCode.toString(token, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+    }
+    return QRCode.toBuffer(token, { type: 'png', errorCorrectionLevel: 'M', margin: 2, width: 512 });
+  }
+
+  // PNG data URL of a token, to show in the app after rotating a code
+  static async getDataUrl(token: string): Promise<string> {
+    return QRCode.toDataURL(token, { errorCorrectionLevel: 'M', margin: 2, width: 512 });
+  }
+
+  /**
+   * Names of the hygiene sections cleaned at each floor: those of the active checklist templates covering it and
+   * of its checklists of the last days and ahead.
+   */
+  static async getSectionNames(facilityId: ObjectIdLike, floorLocationIds: ObjectIdLike[]): Promise<Map<string, string[]>> {
+    const floorIds = floorLocationIds.map(id => new mongoose.Types.ObjectId(id.toString()));
+    const since = new Date(Date.now() - SECTION_LOOKBACK_DAYS * DAY_MS);
+
+    const [templates, checklists] = await Promise.all([
+      ChecklistTemplate.find({ facilityId, floorLocationIds: { $in: floorIds }, isActive: true, isDeleted: false })
+        .select('hygieneSectionId floorLocationIds'),
+      DailyChecklist.aggregate<{ _id: { floorLocationId: mongoose.Types.ObjectId; hygieneSectionId: mongoose.Types.ObjectId } }>([
+        { $match: { facilityId: new mongoose.Types.ObjectId(facilityId.toString()), floorLocationId: { $in: floorIds }, checklistDate: { $gte: since }, isDeleted: false } },
+        { $group: { _id: { floorLocationId: '$floorLocationId', hygieneSectionId: '$hygieneSectionId' } } }
+      ])
+    ]);
+
+    const sectionIdsByFloor = new Map<string, Set<string>>();
+    const add = (floorLocationId: ObjectIdLike, sectionId: ObjectIdLike) => {
+      const key = floorLocationId.toString();
+      if (!sectionIdsByFloor.has(key)) {
+        sectionIdsByFloor.set(key, new Set());
+      }
+      sectionIdsByFloor.get(key)!.add(sectionId.toString());
+    };
+    const floorKeys = new Set(floorIds.map(String));
+    for (const template of templates) {
+      template.floorLocationIds.filter(id => floorKeys.has(id.toString())).forEach(id => add(id, template.hygieneSectionId));
+    }
+    for (const { _id } of checklists) {
+      add(_id.floorLocationId, _id.hygieneSectionId);
+    }
+
+    const allSectionIds = [...new Set([...sectionIdsByFloor.values()].flatMap(ids => [...ids]))];
+    const sections = await HygieneSection.find({ _id: { $in: allSectionIds }, isActive: true, isDeleted: false }).select('sectionName');
+    const sectionNames = new Map(sections.map(section => [section._id.toString(), section.sectionName]));
+
+    const result = new Map<string, string[]>();
+    for (const [floorLocationId, sectionIds] of sectionIdsByFloor) {
+      result.set(floorLocationId, [...sectionIds]
+        .map(id => sectionNames.get(id))
+        .filter((name): name is string => !!name)
+        .sort((a, b) => a.localeCompare(b)));
+    }
+    return result;
+  }
+
+  // Printable A4 PDF of QR labels, six to a page
+  static async renderSheet(labels: FloorQrLabel[]): Promise<Buffer> {
+    const images = await Promise.all(labels.map(label =>
+      QRCode.toBuffer(label.token, { type: 'png', errorCorrectionLevel: 'M', margin: 1, width: 600 })
+    ));
+
+    const doc = new PDFDocument({ size: 'A4', margin: SHEET_MARGIN });
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const labelWidth = (doc.page.width - 2 * SHEET_MARGIN - (LABEL_COLUMNS - 1) * LABEL_GAP) / LABEL_COLUMNS;
+    const labelHeight = (doc.page.height - 2 * SHEET_MARGIN - (LABEL_ROWS - 1) * LABEL_GAP) / LABEL_ROWS;
+    const textWidth = labelWidth - 2 * LABEL_PADDING;
+    const perPage = LABEL_COLUMNS * LABEL_ROWS;
+
+    labels.forEach((label, index) => {
+      if (index > 0 && index % perPage === 0) {
+        doc.addPage();
+      }
+      const slot = index % perPage;
+      const x = SHEET_MARGIN + (slot % LABEL_COLUMNS) * (labelWidth + LABEL_GAP);
+      const y = SHEET_MARGIN + Math.floor(slot / LABEL_COLUMNS) * (labelHeight + LABEL_GAP);
+
+      doc.save().lineWidth(0.5).dash(4, { space: 3 }).rect(x, y, labelWidth, labelHeight).stroke().restore();
+
+      const textX = x + LABEL_PADDING;
+      doc.font('Helvetica').fontSize(9).fillColor('#555555')
+        .text(label.facilityName, textX, y + LABEL_PADDING, { width: textWidth, align: 'center', lineBreak: false, ellipsis: true });
+      doc.font('Helvetica-Bold').fontSize(15).fillColor('#000000')
+        .text(label.floorName, textX, y + LABEL_PADDING + 14, { width: textWidth, align: 'center', lineBreak: false, ellipsis: true });
+      doc.font('Helvetica').fontSize(9)
+        .text(`Floor ${label.floorNumber}`, textX, y + LABEL_PADDING + 34, { width: textWidth, align: 'center' });
+
+      doc.image(images[index], x + (labelWidth - LABEL_QR_SIZE) / 2, y + LABEL_PADDING + 50, { width: LABEL_QR_SIZE, height: LABEL_QR_SIZE });
+
+      const sectionsY = y + LABEL_PADDING + 56 + LABEL_QR_SIZE;
+      doc.font('Helvetica').fontSize(8).fillColor('#333333')
+        .text(label.sectionNames.length > 0 ? label.sectionNames.join(' · ') : 'No hygiene sections scheduled', textX, sectionsY, {
+          width: textWidth,
+          height: y + labelHeight - LABEL_PADDING - sectionsY,
+          align: 'center',
+          ellipsis: true
+        });
+    });
+
+    doc.end();
+    return done;
+  }
+}
@@ -0,0 +1,170 @@
+import mongoose from 'mongoose';
+import { Holiday, HolidayType, IHoliday } from '../models/Holiday';
+import { IUser } from '../models/User';
+import { IWeekoffPlanner, WeekoffPlanner } from '../models/WeekoffPlanner';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type HalfDay = 'first_half' | 'second_half';
+
+// One date on which a holiday falls (recurring holidays have one occurrence per year)
+export interface HolidayOccurrence {
+  holidayId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  type: HolidayType;
+  regions: string[];
+  recurring: boolean;
+  date: string; // YYYY-MM-DD
+}
+
+// Breakdown of the days between the start and end of a leave
+export interface LeaveDuration {
+  totalDays: number; // Working days taken as leave
+  daysByYear: Record<number, number>; // totalDays split by the calendar year the days fall in
+  calendarDays: number;
+  weekoffDates: string[];
+  holidays: { date: string; name: string }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Leave and holiday dates are calendar dates, compared in UTC
+const startOfDay = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export class HolidayCalendarService {
+  // Holidays of a facility falling between two dates (inclusive), recurring ones expanded per year
+  static async getOccurrences(facilityId: ObjectIdLike, from: Date, to: Date): Promise<HolidayOccurrence[]> {
+    const start = startOfDay(from);
+    const end = startOfDay(to);
+
+    const holidays = await Holiday.find({
+      facilityId,
+      isDeleted: false,
+      $or: [
+        { recurring: true, date: { $lte: end } },
+        { recurring: false, date: { $gte: start, $lte: end } }
+      ]
+    }).lean<IHoliday[]>();
+
+    const occurrences: HolidayOccurrence[] = [];
+    for (const holiday of holidays) {
+      const first = startOfDay(new Date(holiday.date));
+      const dates = holiday.recurring
+        ? HolidayCalendarService.yearlyDates(first, start, end)
+        : [first];
+
+      for (const date of dates) {
+        occurrences.push({
+          holidayId: holiday._id as mongoose.Types.ObjectId,
+          name: holiday.name,
+          description: holiday.description,
+          type: holiday.type,
+          regions: holiday.regions || [],
+          recurring: holiday.recurring,
+          date: toDateKey(date)
+        });
+      }
+    }
+
+    return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Anniversaries of a recurring holiday within a range; 29 February only recurs in leap years
+  private static yearlyDates(first: Date, start: Date, end: Date): Date[] {
+    const dates: Date[] = [];
+    for (let year = Math.max(first.getUTCFullYear(), start.getUTCFullYear()); year <= end.getUTCFullYear(); year++) {
+      const date = new Date(Date.UTC(year, first.getUTCMonth(), first.getUTCDate()));
+      if (date.getUTCDate() === first.getUTCDate() && date >= start && date <= end) {
+        dates.push(date);
+      }
+    }
+    return dates;
+  }
+
+  // Regions (state and city) an employee is based in, used to match regional holidays
+  static regionsOf(employee: IUser): string[] {
+    const address = employee.profile?.address;
+    return [address?.state, address?.city].filter((region): region is string => !!region);
+  }
+
+  // Whether a holiday is a day off for employees based in the given regions; optional holidays never are
+  static isDayOff(occurrence: Pick<HolidayOccurrence, 'type' | 'regions'>, regions: string[]): boolean {
+    if (occurrence.type === HolidayType.PUBLIC) {
+      return true;
+    }
+    if (occurrence.type === HolidayType.REGIONAL) {
+      const normalized = regions.map(region => region.trim().toLowerCase());
+      return occurrence.regions.some(region => normalized.includes(region.trim().toLowerCase()));
+    }
+    return false;
+  }
+
+  /**
+   * Working days between two dates (inclusive) for an employee: the facility's holidays that apply to the
+   * employee and the week-offs of the employee's approved week-off planners are not counted.
+   * A half-day leave must start and end on the same day and counts half a day.
+   */
+  static async calculateLeaveDays(params: {
+    employee: IUser;
+    facilityId: ObjectIdLike;
+    startDate: Date;
+    endDate: Date;
+    halfDay?: HalfDay | null;
+  }): Promise<LeaveDuration> {
+    const { employee, facilityId, halfDay } = params;
+    const start = startOfDay(params.startDate);
+    const end = startOfDay(params.endDate);
+
+    const [occurrences, weekoffPlanners] = await Promise.all([
+      HolidayCalendarService.getOccurrences(facilityId, start, end),
+      WeekoffPlanner.find({
+        employeeId: employee._id,
+        status: 'approved',
+        isDeleted: false,
+        weekStartDate: { $lte: end },
+        weekEndDate: { $gte: start }
+      }).lean<IWeekoffPlanner[]>()
+    ]);
+
+    const regions = HolidayCalendarService.regionsOf(employee);
+    const holidayNames = new Map<string, string>();
+    for (const occurrence of occurrences) {
+      if (HolidayCalendarService.isDayOff(occurrence, regions) && !holidayNames.has(occurrence.date)) {
+        holidayNames.set(occurrence.date, occurrence.name);
+      }
+    }
+
+    const isWeekoff = (date: Date): boolean => weekoffPlanners.some(planner =>
+      startOfDay(new Date(planner.weekStartDate)) <= date &&
+      startOfDay(new Date(planner.weekEndDate)) >= date &&
+      (planner.weekoffDays || []).some(day => day.toLowerCase() === WEEKDAYS[date.getUTCDay()])
+    );
+
+    const duration: LeaveDuration = { totalDays: 0, daysByYear: {}, calendarDays: 0, weekoffDates: [], holidays: [] };
+    for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+      const date = new Date(time);
+      const key = toDateKey(date);
+      duration.calendarDays++;
+
+      if (holidayNames.has(key)) {
+        duration.holidays.push({ date: key, name: holidayNames.get(key)! });
+      } else if (isWeekoff(date)) {
+        duration.weekoffDates.push(key);
+      } else {
+        duration.totalDays++;
+        duration.daysByYear[date.getUTCFullYear()] = (duration.daysByYear[date.getUTCFullYear()] ?? 0) + 1;
+      }
+    }
+
+    if (halfDay) {
+      duration.totalDays /= 2;
+      for (const year of Object.keys(duration.daysByYear)) {
+        duration.daysByYear[Number(year)] /= 2;
+      }
+    }
+    return duration;
+  }
+}
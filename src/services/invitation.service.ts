@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { StringValue } from 'ms';
+import { config } from '../config';
+import { IUser, User, UserStatus, VerificationStatus } from '../models/User';
+import { MailService } from './mail.service';
+
+// Payload of an invitation token; jti must match the user's current invitation so resent or revoked links stop working
+interface InvitationTokenPayload {
+  id: string;
+  purpose: 'invitation';
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+export class InvitationService {
+  /**
+   * Issue a new invitation token for a user created without a password and email the accept link.
+   * Any previously issued token of the user is invalidated.
+   */
+  static async issue(user: IUser, invitedBy?: IUser): Promise<IUser> {
+    const tokenId = crypto.randomUUID();
+    const options: SignOptions = {
+      expiresIn: config.INVITATION_EXPIRES_IN as StringValue | number,
+      jwtid: tokenId
+    };
+    const token = jwt.sign({ id: user._id.toString(), purpose: 'invitation' }, config.JWT_SECRET as string, options);
+    const { exp } = jwt.decode(token) as InvitationTokenPayload;
+
+    user.invitation = {
+      tokenId,
+      invitedBy: invitedBy?._id ?? user.invitation?.invitedBy,
+      invitedAt: new Date(),
+      expiresAt: new Date(exp! * 1000),
+      sentCount: (user.invitation?.sentCount ?? 0) + 1
+    };
+    user.status = UserStatus.PENDING;
+    user.verificationStatus = VerificationStatus.PENDING;
+    await user.save();
+
+    MailService.sendInvitationEmail(user, token, invitedBy);
+    return user;
+  }
+
+  // Resolve the user of a valid, unexpired, still current invitation token; null otherwise
+  static async findByToken(token: string): Promise<IUser | null> {
+    let decoded: InvitationTokenPayload;
+    try {
+      decoded = jwt.verify(token, config.JWT_SECRET) as InvitationTokenPayload;
+    } catch (error) {
+      return null;
+    }
+
+    if (decoded.purpose !== 'invitation' || !decoded.jti) {
+      return null;
+    }
+
+    return User.findOne({
+      _id: decoded.id,
+      isDeleted: false,
+      'invitation.tokenId': decoded.jti,
+      'invitation.acceptedAt': { $exists: false },
+      'invitation.revokedAt': { $exists: false }
+    });
+  }
+
+  // Set the invitee's password and activate the account; accepting the emailed link also verifies the email
+  static async accept(user: IUser, password: string): Promise<IUser> {
+    user.password = password;
+    user.invitation!.acceptedAt = new Date();
+    user.invitation!.tokenId = undefined;
+    user.verificationStatus = VerificationStatus.VERIFIED;
+    user.status = UserStatus.ACTIVE;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+    return user;
+  }
+
+  // Invalidate the pending invitation of a user; the account stays inactive until invited again
+  static async revoke(user: IUser, revokedBy: IUser): Promise<IUser> {
+    user.invitation!.tokenId = undefined;
+    user.invitation!.revokedAt = new Date();
+    user.invitation!.revokedBy = revokedBy._id;
+    user.status = UserStatus.INACTIVE;
+    await user.save();
+    return user;
+  }
+}
@@ -0,0 +1,358 @@
+import mongoose from 'mongoose';
+import { ILabourRules, LabourRuleEnforcement, LabourRules } from '../models/LabourRules';
+import { IRoster, Roster, RosterStatus } from '../models/Roster';
+import { IShiftSchedule, ShiftSchedule } from '../models/ShiftSchedule';
+import { WEEKDAY_NAMES } from '../models/StaffingRequirement';
+import { IUser, User } from '../models/User';
+import { AttendanceService } from './attendance.service';
+import { RosterGeneratorService } from './rosterGenerator.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type LabourRule =
+  | 'max_daily_hours'
+  | 'max_weekly_hours'
+  | 'min_rest'
+  | 'max_consecutive_nights'
+  | 'weekly_off'
+  | 'daily_overtime'
+  | 'weekly_overtime';
+
+export interface LabourViolation {
+  rule: LabourRule;
+  severity: 'error' | 'warning'; // Overtime is only a warning
+  employeeId: string;
+  employeeName?: string;
+  date: string; // Day of the violation, or Monday of its week for weekly rules
+  message: string;
+}
+
+// A shift an employee is planned to work, from a roster or a shift schedule
+export interface PlannedShift {
+  employeeId: string;
+  shiftName: string;
+  date: string; // Local date the shift starts on
+  start: Date;
+  end: Date;
+  hours: number; // Worked hours, break excluded
+  night: boolean;
+}
+
+// Unsaved changes checked before they are written
+export interface PlanChanges {
+  schedules?: IShiftSchedule[]; // Added, or replacing the schedule with the same _id; deleted ones are dropped
+  rosters?: IRoster[]; // Added, or replacing the roster with the same _id; deleted ones are dropped
+}
+
+export interface LabourCheck {
+  violations: LabourViolation[]; // Every violation once the changes are made
+  introduced: LabourViolation[]; // Those the changes cause
+  blocked: boolean; // Whether the changes must be refused
+}
+
+// Rosters and schedules of a facility around a range
+interface Plan {
+  timezone: string;
+  from: string;
+  to: string;
+  rosters: IRoster[];
+  schedules: IShiftSchedule[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// Days loaded around a range so rest periods, night streaks and weeks crossing its edges are evaluated
+const CONTEXT_DAYS = 7;
+// Days from its start (or today) a schedule change is checked over; open-ended schedules repeat weekly
+const SCHEDULE_CHECK_DAYS = 28;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+const addDays = (dateKey: string, days: number): string => toDateKey(new Date(fromDateKey(dateKey).getTime() + days * DAY_MS));
+const weekStart = (dateKey: string): string => addDays(dateKey, -((fromDateKey(dateKey).getUTCDay() + 6) % 7));
+const round = (hours: number): number => Math.round(hours * 100) / 100;
+const sameText = (a?: string | null, b?: string | null): boolean => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+const violationKey = (violation: LabourViolation): string => `${violation.rule}|${violation.employeeId}|${violation.date}`;
+
+/**
+ * Working-time rules of a facility applied to its plan: the published rosters, or the shift schedules on days
+ * without one (like attendance). Shift times are local to the facility's time zone and a shift ending at or
+ * before its start time ends the next day, so rest periods and hours of night shifts are measured across
+ * midnight. Writes are only refused for violations they introduce, so an existing breach does not lock a plan.
+ */
+export class LabourRuleService {
+  // Labour rules of a facility, or unsaved defaults when none are configured
+  static async getRules(facilityId: ObjectIdLike): Promise<ILabourRules> {
+    const rules = await LabourRules.findOne({ facilityId });
+    return rules ?? new LabourRules({ facilityId });
+  }
+
+  static toPlannedShift(employeeId: ObjectIdLike, schedule: IShiftSchedule, dateKey: string, timezone: string): PlannedShift {
+    const { start, end } = AttendanceService.shiftWindow(schedule, dateKey, timezone);
+    return {
+      employeeId: employeeId.toString(),
+      shiftName: schedule.shiftName,
+      date: dateKey,
+      start,
+      end,
+      hours: Math.max((end.getTime() - start.getTime()) / HOUR_MS - (schedule.breakDuration ?? 0) / 60, 0),
+      night: RosterGeneratorService.isNightShift(schedule)
+    };
+  }
+
+  // Violations of the rules by planned shifts, for the days (and weeks overlapping) between two dates
+  static evaluate(rules: ILabourRules, shifts: PlannedShift[], from: string, to: string): LabourViolation[] {
+    const inRange = (dateKey: string): boolean => dateKey >= from && dateKey <= to;
+    const violations: LabourViolation[] = [];
+
+    const byEmployee = new Map<string, PlannedShift[]>();
+    for (const shift of shifts) {
+      byEmployee.set(shift.employeeId, [...(byEmployee.get(shift.employeeId) ?? []), shift]);
+    }
+
+    for (const [employeeId, own] of byEmployee) {
+      own.sort((a, b) => a.start.getTime() - b.start.getTime());
+      const add = (rule: LabourRule, severity: LabourViolation['severity'], date: string, message: string): void => {
+        violations.push({ rule, severity, employeeId, date, message });
+      };
+
+      const days = new Map<string, number>();
+      const weeks = new Map<string, { hours: number; days: Set<string> }>();
+      for (const shift of own) {
+        days.set(shift.date, (days.get(shift.date) ?? 0) + shift.hours);
+        const week = weeks.get(weekStart(shift.date)) ?? { hours: 0, days: new Set<string>() };
+        week.hours += shift.hours;
+        week.days.add(shift.date);
+        weeks.set(weekStart(shift.date), week);
+      }
+
+      for (const [date, hours] of days) {
+        if (!inRange(date)) continue;
+        if (rules.maxDailyHours != null && hours > rules.maxDailyHours) {
+          add('max_daily_hours', 'error', date, `${round(hours)}h scheduled on ${date}; at most ${rules.maxDailyHours}h are allowed`);
+        } else if (rules.overtimeDailyHours != null && hours > rules.overtimeDailyHours) {
+          add('daily_overtime', 'warning', date, `${round(hours - rules.overtimeDailyHours)}h of overtime on ${date}`);
+        }
+      }
+
+      for (const [monday, week] of weeks) {
+        if (monday > to || addDays(monday, 6) < from) continue;
+        if (rules.maxWeeklyHours != null && week.hours > rules.maxWeeklyHours) {
+          add('max_weekly_hours', 'error', monday, `${round(week.hours)}h scheduled in the week of ${monday}; at most ${rules.maxWeeklyHours}h are allowed`);
+        } else if (rules.overtimeWeeklyHours != null && week.hours > rules.overtimeWeeklyHours) {
+          add('weekly_overtime', 'warning', monday, `${round(week.hours - rules.overtimeWeeklyHours)}h of overtime in the week of ${monday}`);
+        }
+        if (rules.minWeeklyOffDays != null && 7 - week.days.size < rules.minWeeklyOffDays) {
+          add('weekly_off', 'error', monday, `${week.days.size} working days in the week of ${monday}; at least ${rules.minWeeklyOffDays} day(s) off are required`);
+        }
+      }
+
+      // Rest after the shift ending last so far, which a long shift may keep going past shorter ones
+      let previous = own[0];
+      for (const shift of own.slice(1)) {
+        if (inRange(previous.date) || inRange(shift.date)) {
+          const rest = (shift.start.getTime() - previous.end.getTime()) / HOUR_MS;
+          if (rest < 0) {
+            add('min_rest', 'error', shift.date, `The ${shift.shiftName} shift of ${shift.date} overlaps the ${previous.shiftName} shift of ${previous.date}`);
+          } else if (rules.minRestHours != null && rest < rules.minRestHours) {
+            add('min_rest', 'error', shift.date, `Only ${round(rest)}h of rest between the ${previous.shiftName} shift of ${previous.date} and the ${shift.shiftName} shift of ${shift.date}; at least ${rules.minRestHours}h are required`);
+          }
+        }
+        if (shift.end > previous.end) {
+          previous = shift;
+        }
+      }
+
+      if (rules.maxConsecutiveNights != null) {
+        const nights = [...new Set(own.filter(shift => shift.night).map(shift => shift.date))].sort();
+        let streak = 0;
+        let reported = false;
+        nights.forEach((date, index) => {
+          const continues = index > 0 && addDays(nights[index - 1], 1) === date;
+          streak = continues ? streak + 1 : 1;
+          reported = continues && reported;
+          if (streak > rules.maxConsecutiveNights! && !reported && inRange(date)) {
+            add('max_consecutive_nights', 'error', date, `${streak} night shifts in a row up to ${date}; at most ${rules.maxConsecutiveNights} are allowed`);
+            reported = true;
+          }
+        });
+      }
+    }
+
+    return violations.sort((a, b) => a.date.localeCompare(b.date) || a.employeeId.localeCompare(b.employeeId));
+  }
+
+  // Violations of a facility's plan between two dates (inclusive), optionally counting draft rosters
+  static async validate(facilityId: ObjectIdLike, from: string, to: string, options: { employeeIds?: ObjectIdLike[]; includeDrafts?: boolean } = {}) {
+    const [rules, plan] = await Promise.all([
+      LabourRuleService.getRules(facilityId),
+      LabourRuleService.loadPlan(facilityId, from, to, !!options.includeDrafts)
+    ]);
+    const shifts = LabourRuleService.buildShifts(plan, {}, options.employeeIds);
+    const violations = LabourRuleService.evaluate(rules, shifts, from, to);
+    return {
+      rules,
+      shifts: shifts.filter(shift => shift.date >= from && shift.date <= to).length,
+      violations: await LabourRuleService.withNames(violations)
+    };
+  }
+
+  // Violations unsaved changes would introduce between two dates
+  static async check(facilityId: ObjectIdLike, from: string, to: string, changes: PlanChanges, options: { employeeIds?: ObjectIdLike[]; includeDrafts?: boolean } = {}): Promise<LabourCheck> {
+    const [rules, plan] = await Promise.all([
+      LabourRuleService.getRules(facilityId),
+      LabourRuleService.loadPlan(facilityId, from, to, !!options.includeDrafts)
+    ]);
+    const before = new Set(LabourRuleService.evaluate(rules, LabourRuleService.buildShifts(plan, {}, options.employeeIds), from, to).map(violationKey));
+    const violations = await LabourRuleService.withNames(
+      LabourRuleService.evaluate(rules, LabourRuleService.buildShifts(plan, changes, options.employeeIds), from, to)
+    );
+    const introduced = violations.filter(violation => !before.has(violationKey(violation)));
+    return {
+      violations,
+      introduced,
+      blocked: rules.enforcement === LabourRuleEnforcement.BLOCK && introduced.some(violation => violation.severity === 'error')
+    };
+  }
+
+  // Check a shift schedule about to be created or updated over its coming weeks; null when it is over
+  static async checkSchedule(schedule: IShiftSchedule): Promise<LabourCheck | null> {
+    const today = toDateKey(new Date());
+    const start = toDateKey(new Date(schedule.rosterDate));
+    const from = start > today ? start : today;
+    let to = addDays(from, SCHEDULE_CHECK_DAYS - 1);
+    if (schedule.effectiveUntil && toDateKey(new Date(schedule.effectiveUntil)) < to) {
+      to = toDateKey(new Date(schedule.effectiveUntil));
+    }
+    if (to < from) {
+      return null;
+    }
+    return LabourRuleService.check(schedule.facilityId, from, to, { schedules: [schedule] }, { employeeIds: [schedule.employeeId] });
+  }
+
+  // Check rosters of a facility about to be created or changed, for their employees (or the given ones)
+  static async checkRosters(facilityId: ObjectIdLike, rosters: IRoster[], employeeIds?: ObjectIdLike[]): Promise<LabourCheck> {
+    const dates = rosters.map(roster => toDateKey(new Date(roster.date))).sort();
+    return LabourRuleService.check(facilityId, dates[0], dates[dates.length - 1], { rosters }, {
+      employeeIds: employeeIds ?? rosters.flatMap(roster => roster.shifts.map(entry => entry.employeeId)),
+      includeDrafts: rosters.some(roster => roster.status === RosterStatus.DRAFT)
+    });
+  }
+
+  // Check the publication of the draft rosters between two dates; drafts of dates already published stay aside
+  static async checkPublication(facilityId: ObjectIdLike, from: string, to: string): Promise<LabourCheck> {
+    const drafts = await Roster.find({
+      facilityId,
+      isDeleted: false,
+      status: RosterStatus.DRAFT,
+      date: { $gte: fromDateKey(from), $lt: new Date(fromDateKey(to).getTime() + DAY_MS) }
+    }).lean<IRoster[]>();
+    return LabourRuleService.check(facilityId, from, to, {
+      rosters: drafts.map(roster => ({ ...roster, status: RosterStatus.PUBLISHED }) as IRoster)
+    });
+  }
+
+  // Errors among violations as one line, for error messages
+  static describe(violations: LabourViolation[]): string {
+    return violations
+      .filter(violation => violation.severity === 'error')
+      .map(violation => `${violation.employeeName ?? violation.employeeId}: ${violation.message}`)
+      .join('; ');
+  }
+
+  private static async withNames(violations: LabourViolation[]): Promise<LabourViolation[]> {
+    if (violations.length === 0) {
+      return violations;
+    }
+    const users = await User.find({ _id: { $in: [...new Set(violations.map(violation => violation.employeeId))] } })
+      .select('firstName lastName')
+      .lean<IUser[]>();
+    const names = new Map(users.map(user => [user._id.toString(), `${user.firstName} ${user.lastName}`]));
+    return violations.map(violation => ({ ...violation, employeeName: names.get(violation.employeeId) }));
+  }
+
+  private static async loadPlan(facilityId: ObjectIdLike, from: string, to: string, includeDrafts: boolean): Promise<Plan> {
+    const planFrom = addDays(from, -CONTEXT_DAYS);
+    const planTo = addDays(to, CONTEXT_DAYS);
+    const start = fromDateKey(planFrom);
+    const end = fromDateKey(planTo);
+
+    const [settings, rosters, schedules] = await Promise.all([
+      AttendanceService.getSettings(facilityId),
+      Roster.find({
+        facilityId,
+        isDeleted: false,
+        ...(includeDrafts ? {} : { status: { $ne: RosterStatus.DRAFT } }),
+        date: { $gte: start, $lt: new Date(end.getTime() + DAY_MS) }
+      }).lean<IRoster[]>(),
+      ShiftSchedule.find({
+        facilityId,
+        isDeleted: false,
+        rosterDate: { $lte: end },
+        $or: [{ effectiveUntil: null }, { effectiveUntil: { $gte: start } }]
+      }).lean<IShiftSchedule[]>()
+    ]);
+
+    // Roster entries may point at schedules outside the range
+    const loaded = new Set(schedules.map(schedule => String(schedule._id)));
+    const missing = [...new Set(rosters.flatMap(roster => roster.shifts.map(entry => entry.shiftScheduleId.toString())))]
+      .filter(id => !loaded.has(id));
+    if (missing.length > 0) {
+      schedules.push(...await ShiftSchedule.find({ _id: { $in: missing }, isDeleted: false }).lean<IShiftSchedule[]>());
+    }
+
+    return { timezone: settings.timezone, from: planFrom, to: planTo, rosters, schedules };
+  }
+
+  private static buildShifts(plan: Plan, changes: PlanChanges, employeeIds?: ObjectIdLike[]): PlannedShift[] {
+    const schedules = new Map(plan.schedules.map(schedule => [String(schedule._id), schedule]));
+    for (const schedule of changes.schedules ?? []) {
+      if (schedule.isDeleted) schedules.delete(String(schedule._id));
+      else schedules.set(String(schedule._id), schedule);
+    }
+    const rosters = new Map(plan.rosters.map(roster => [String(roster._id), roster]));
+    for (const roster of changes.rosters ?? []) {
+      if (roster.isDeleted) rosters.delete(String(roster._id));
+      else rosters.set(String(roster._id), roster);
+    }
+
+    const rostersByDate = new Map<string, IRoster[]>();
+    for (const roster of rosters.values()) {
+      const dateKey = toDateKey(new Date(roster.date));
+      rostersByDate.set(dateKey, [...(rostersByDate.get(dateKey) ?? []), roster]);
+    }
+    const wanted = employeeIds ? new Set(employeeIds.map(String)) : null;
+    const isWanted = (employeeId: ObjectIdLike): boolean => !wanted || wanted.has(employeeId.toString());
+
+    const shifts: PlannedShift[] = [];
+    for (let dateKey = plan.from; dateKey <= plan.to; dateKey = addDays(dateKey, 1)) {
+      // Published rosters decide who works; drafts only count on days without one
+      const dayRosters = rostersByDate.get(dateKey) ?? [];
+      const published = dayRosters.filter(roster => roster.status !== RosterStatus.DRAFT);
+      const deciding = published.length > 0 ? published : dayRosters;
+
+      if (deciding.length > 0) {
+        for (const entry of deciding.flatMap(roster => roster.shifts)) {
+          const schedule = schedules.get(entry.shiftScheduleId.toString());
+          if (schedule && isWanted(entry.employeeId)) {
+            shifts.push(LabourRuleService.toPlannedShift(entry.employeeId, schedule, dateKey, plan.timezone));
+          }
+        }
+        continue;
+      }
+
+      const day = fromDateKey(dateKey);
+      const weekday = WEEKDAY_NAMES[day.getUTCDay()];
+      for (const schedule of schedules.values()) {
+        const applies = isWanted(schedule.employeeId)
+          && new Date(schedule.rosterDate) <= day
+          && (!schedule.effectiveUntil || new Date(schedule.effectiveUntil) >= day)
+          && (schedule.workingDays || []).some(workingDay => sameText(workingDay, weekday));
+        if (applies) {
+          shifts.push(LabourRuleService.toPlannedShift(schedule.employeeId, schedule, dateKey, plan.timezone));
+        }
+      }
+    }
+    return shifts;
+  }
+}
@@ -0,0 +1,444 @@
+import mongoose from 'mongoose';
+import { ILeaveLedgerEntry, LeaveLedgerEntry, LeaveLedgerEntryType } from '../models/LeaveLedger';
+import { ILeavePlanner, LeavePlanner, LeaveType } from '../models/LeavePlanner';
+import { ILeavePolicy, LeaveAccrualFrequency, LeavePolicy } from '../models/LeavePolicy';
+import { EmployeeType, IUser, User } from '../models/User';
+import { HalfDay, HolidayCalendarService } from './holidayCalendar.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// Balance of one calendar year a leave application falls in
+export interface LeaveBalanceYearCheck {
+  year: number;
+  days: number; // Days of the application falling in the year
+  balance: number;
+  pending: number; // Paid days of other pending applications
+  available: number;
+}
+
+// Outcome of checking a leave application against the employee's balance; the totals are summed over its years
+export interface LeaveBalanceCheck {
+  policy: ILeavePolicy | null; // null when the leave type is not tracked for the employee
+  balance: number;
+  pending: number; // Paid days of other pending applications
+  available: number;
+  lossOfPayDays: number; // Days exceeding the available balance
+  years: LeaveBalanceYearCheck[];
+}
+
+// Dates of a leave, from which its days are split by calendar year
+export interface LeavePeriod {
+  employee: IUser;
+  facilityId: ObjectIdLike;
+  startDate: Date;
+  endDate: Date;
+  halfDay?: HalfDay | null;
+}
+
+export interface LeaveBalanceSummary {
+  leaveType: LeaveType;
+  policy: Pick<ILeavePolicy, '_id' | 'annualEntitlement' | 'accrualFrequency' | 'carryForwardLimit' | 'encashable' | 'maxEncashableDays' | 'exceedAction'> | null;
+  carriedForward: number;
+  accrued: number;
+  used: number; // Approved leave net of credits back
+  encashed: number;
+  adjusted: number;
+  lapsed: number;
+  balance: number;
+  pending: number;
+  available: number;
+}
+
+const round = (days: number): number => Math.round(days * 100) / 100;
+
+// Pro-rated yearly entitlements are rounded to half days
+const roundHalf = (days: number): number => Math.round(days * 2) / 2;
+
+const toObjectId = (id: ObjectIdLike): mongoose.Types.ObjectId =>
+  typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+
+const isDuplicateKeyError = (error: any): boolean =>
+  error?.code === 11000 || (Array.isArray(error?.writeErrors) && error.writeErrors.every((e: any) => e.code === 11000));
+
+export class LeaveBalanceService {
+  static employeeTypeOf(employee: IUser): EmployeeType {
+    return employee.profile?.employeeType || EmployeeType.PERMANENT;
+  }
+
+  // Active policy of a leave type for the employee's type in a facility
+  static findPolicy(facilityId: ObjectIdLike, employee: IUser, leaveType: string) {
+    return LeavePolicy.findOne({
+      facilityId,
+      employeeType: LeaveBalanceService.employeeTypeOf(employee),
+      leaveType,
+      isActive: true,
+      isDeleted: false
+    });
+  }
+
+  /**
+   * Post the accruals of a year that are due today, and the carry-forward from the previous year.
+   * Balances are brought up to date lazily whenever they are read or used, so no scheduled job is needed.
+   */
+  static async syncYear(employee: IUser, facilityId: ObjectIdLike, policy: ILeavePolicy, year: number): Promise<void> {
+    const now = new Date();
+    const hireDate = employee.profile?.hireDate ? new Date(employee.profile.hireDate) : null;
+    if (year > now.getUTCFullYear() || (hireDate && year < hireDate.getUTCFullYear())) {
+      return;
+    }
+
+    // Accruals of the previous year are only owed when the employee was already employed (or tracked) then
+    const previousYear = year - 1;
+    const trackedLastYear = hireDate
+      ? hireDate.getUTCFullYear() <= previousYear
+      : !!(await LeaveLedgerEntry.exists({ employeeId: employee._id, leaveType: policy.leaveType, year: previousYear }));
+    if (trackedLastYear) {
+      await LeaveBalanceService.postAccruals(employee, facilityId, policy, previousYear, now, hireDate);
+      await LeaveBalanceService.postCarryForward(employee, facilityId, policy, year);
+    }
+
+    await LeaveBalanceService.postAccruals(employee, facilityId, policy, year, now, hireDate);
+  }
+
+  private static async postAccruals(
+    employee: IUser,
+    facilityId: ObjectIdLike,
+    policy: ILeavePolicy,
+    year: number,
+    now: Date,
+    hireDate: Date | null
+  ): Promise<void> {
+    const joinedThisYear = hireDate?.getUTCFullYear() === year;
+    const firstMonth = joinedThisYear && policy.proRateFromHireDate ? hireDate!.getUTCMonth() : 0;
+    const lastMonth = year === now.getUTCFullYear() ? now.getUTCMonth() : 11;
+    if (firstMonth > lastMonth) {
+      return;
+    }
+
+    const accruals: { period: string; days: number }[] = [];
+    if (policy.accrualFrequency === LeaveAccrualFrequency.MONTHLY) {
+      const monthly = round(policy.annualEntitlement / 12);
+      for (let month = firstMonth; month <= lastMonth; month++) {
+        accruals.push({ period: `${year}-${String(month + 1).padStart(2, '0')}`, days: monthly });
+      }
+    } else {
+      const days = firstMonth > 0 ? roundHalf(policy.annualEntitlement * (12 - firstMonth) / 12) : policy.annualEntitlement;
+      accruals.push({ period: `${year}`, days });
+    }
+
+    await LeaveBalanceService.postPeriodic(employee, facilityId, policy, year, LeaveLedgerEntryType.ACCRUAL, accruals);
+  }
+
+  // Carry the unused balance of the previous year into `year` up to the policy limit; the rest lapses
+  private static async postCarryForward(employee: IUser, facilityId: ObjectIdLike, policy: ILeavePolicy, year: number): Promise<void> {
+    const carried = await LeaveLedgerEntry.exists({
+      employeeId: employee._id,
+      leaveType: policy.leaveType,
+      year,
+      entryType: LeaveLedgerEntryType.CARRY_FORWARD
+    });
+    if (carried) {
+      return;
+    }
+
+    const unused = Math.max(await LeaveBalanceService.getBalance(employee._id, policy.leaveType, year - 1), 0);
+    const carryForward = round(Math.min(unused, policy.carryForwardLimit));
+    const lapsed = round(unused - carryForward);
+
+    // Posted even when nothing is carried so the previous year is only closed once
+    await LeaveBalanceService.postPeriodic(employee, facilityId, policy, year, LeaveLedgerEntryType.CARRY_FORWARD, [
+      { period: `${year}`, days: carryForward }
+    ]);
+    if (lapsed > 0) {
+      await LeaveBalanceService.postPeriodic(employee, facilityId, policy, year - 1, LeaveLedgerEntryType.LAPSE, [
+        { period: `${year - 1}`, days: -lapsed }
+      ]);
+    }
+  }
+
+  // Insert the generated entries not posted yet; concurrent requests posting the same period are harmless
+  private static async postPeriodic(
+    employee: IUser,
+    facilityId: ObjectIdLike,
+    policy: ILeavePolicy,
+    year: number,
+    entryType: LeaveLedgerEntryType,
+    entries: { period: string; days: number }[]
+  ): Promise<void> {
+    const posted = await LeaveLedgerEntry.find({
+      employeeId: employee._id,
+      leaveType: policy.leaveType,
+      year,
+      entryType,
+      period: { $in: entries.map(entry => entry.period) }
+    }).distinct('period');
+
+    const missing = entries.filter(entry => !posted.includes(entry.period));
+    if (missing.length === 0) {
+      return;
+    }
+
+    try {
+      await LeaveLedgerEntry.insertMany(missing.map(entry => ({
+        employeeId: employee._id,
+        facilityId,
+        leaveType: policy.leaveType,
+        year,
+        entryType,
+        days: entry.days,
+        period: entry.period,
+        policyId: policy._id
+      })), { ordered: false });
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  // Sum of the ledger of one leave type and year, optionally ignoring the entries of one leave
+  static async getBalance(employeeId: ObjectIdLike, leaveType: string, year: number, excludeLeaveId?: ObjectIdLike): Promise<number> {
+    const match: Record<string, any> = { employeeId: toObjectId(employeeId), leaveType, year };
+    if (excludeLeaveId) {
+      match.leavePlannerId = { $ne: toObjectId(excludeLeaveId) };
+    }
+    const [result] = await LeaveLedgerEntry.aggregate([
+      { $match: match },
+      { $group: { _id: null, days: { $sum: '$days' } } }
+    ]);
+    return round(result?.days ?? 0);
+  }
+
+  // Paid days of pending applications starting in a year, which are reserved against the balance
+  static async getPendingDays(employeeId: ObjectIdLike, year: number, leaveType?: string, excludeLeaveId?: ObjectIdLike): Promise<Record<string, number>> {
+    const match: Record<string, any> = {
+      employeeId: toObjectId(employeeId),
+      status: 'pending',
+      isDeleted: false,
+      startDate: { $gte: new Date(Date.UTC(year, 0, 1)), $lt: new Date(Date.UTC(year + 1, 0, 1)) }
+    };
+    if (leaveType) match.leaveType = leaveType;
+    if (excludeLeaveId) match._id = { $ne: toObjectId(excludeLeaveId) };
+
+    const results = await LeavePlanner.aggregate([
+      { $match: match },
+      { $group: { _id: '$leaveType', days: { $sum: { $subtract: ['$totalDays', { $ifNull: ['$lossOfPayDays', 0] }] } } } }
+    ]);
+    return results.reduce((pending, { _id, days }) => ({ ...pending, [_id]: round(days) }), {} as Record<string, number>);
+  }
+
+  /**
+   * Check an application (new or changed) against the balance of each year its days fall in.
+   * Days beyond the available balance are returned as loss-of-pay; the caller rejects the application
+   * instead when the policy says so.
+   */
+  static async checkApplication(params: LeavePeriod & {
+    leaveType: string;
+    totalDays: number;
+    leaveId?: ObjectIdLike;
+  }): Promise<LeaveBalanceCheck> {
+    const { employee, facilityId, leaveType, totalDays, leaveId } = params;
+
+    const policy = await LeaveBalanceService.findPolicy(facilityId, employee, leaveType);
+    if (!policy) {
+      return { policy: null, balance: 0, pending: 0, available: 0, lossOfPayDays: 0, years: [] };
+    }
+
+    const years: LeaveBalanceYearCheck[] = [];
+    for (const [year, days] of await LeaveBalanceService.splitByYear(params, totalDays)) {
+      await LeaveBalanceService.syncYear(employee, facilityId, policy, year);
+
+      // The application's own debit (if already approved) is replaced, not added to
+      const balance = await LeaveBalanceService.getBalance(employee._id, leaveType, year, leaveId);
+      const pending = (await LeaveBalanceService.getPendingDays(employee._id, year, leaveType, leaveId))[leaveType] ?? 0;
+      years.push({ year, days, balance, pending, available: round(balance - pending) });
+    }
+
+    // Loss-of-pay days are the last days of a leave (see getPaidDaysByYear): from the first year whose share
+    // exceeds its balance on, the rest of the leave is unpaid
+    let paidDays = 0;
+    for (const { days, available } of years) {
+      const covered = Math.min(days, Math.max(available, 0));
+      paidDays += covered;
+      if (covered < days) {
+        break;
+      }
+    }
+
+    const sum = (field: 'balance' | 'pending' | 'available') => round(years.reduce((total, year) => total + year[field], 0));
+    return {
+      policy,
+      balance: sum('balance'),
+      pending: sum('pending'),
+      available: sum('available'),
+      lossOfPayDays: round(Math.max(totalDays - paidDays, 0)),
+      years
+    };
+  }
+
+  /**
+   * Paid days of a leave per calendar year. The working days of a leave spanning a year end are debited to the
+   * year they fall in, earliest first; its loss-of-pay days are the last ones.
+   */
+  static async getPaidDaysByYear(leave: ILeavePlanner, employee: IUser): Promise<Map<number, number>> {
+    return LeaveBalanceService.splitByYear({
+      employee,
+      facilityId: leave.facilityId,
+      startDate: new Date(leave.startDate),
+      endDate: new Date(leave.endDate),
+      halfDay: leave.halfDay
+    }, round(leave.totalDays - (leave.lossOfPayDays || 0)));
+  }
+
+  // Spread days of a leave over the years its working days fall in, earliest first
+  private static async splitByYear(period: LeavePeriod, days: number): Promise<Map<number, number>> {
+    const startYear = period.startDate.getUTCFullYear();
+    if (period.endDate.getUTCFullYear() === startYear) {
+      return new Map([[startYear, days]]);
+    }
+
+    const { daysByYear } = await HolidayCalendarService.calculateLeaveDays(period);
+    const years = Object.keys(daysByYear).map(Number).sort((a, b) => a - b);
+    if (years.length === 0) {
+      return new Map([[startYear, days]]);
+    }
+
+    // The last year takes what is left, should the calendar have changed since the leave was calculated
+    const daysPerYear = new Map<number, number>();
+    let remaining = days;
+    years.forEach((year, index) => {
+      const yearDays = index === years.length - 1 ? remaining : Math.min(daysByYear[year], remaining);
+      if (yearDays > 0) {
+        daysPerYear.set(year, round(yearDays));
+        remaining = round(remaining - yearDays);
+      }
+    });
+    return daysPerYear;
+  }
+
+  /**
+   * Bring the ledger in line with a leave: approved leaves of a tracked leave type are debited with their
+   * paid days (in the year each day falls in), anything else (pending, rejected, cancelled, deleted) holds no
+   * debit. Changes of dates, type or status after approval post the difference, so calling this after every
+   * change is safe.
+   */
+  static async syncLeave(leave: ILeavePlanner, actorId?: ObjectIdLike): Promise<void> {
+    const key = (leaveType: string, entryYear: number) => `${leaveType}:${entryYear}`;
+
+    const desired = new Map<string, number>();
+    if (leave.status === 'approved' && !leave.isDeleted) {
+      const employee = await User.findById(leave.employeeId);
+      const policy = employee && await LeaveBalanceService.findPolicy(leave.facilityId, employee, leave.leaveType);
+      if (policy) {
+        const paidByYear = await LeaveBalanceService.getPaidDaysByYear(leave, employee);
+        for (const [year, days] of paidByYear) {
+          desired.set(key(leave.leaveType, year), -days);
+        }
+      }
+    }
+
+    const entries = await LeaveLedgerEntry.find({ leavePlannerId: leave._id }).lean<ILeaveLedgerEntry[]>();
+    const current = new Map<string, number>();
+    for (const entry of entries) {
+      const entryKey = key(entry.leaveType, entry.year);
+      current.set(entryKey, round((current.get(entryKey) ?? 0) + entry.days));
+    }
+
+    const corrections = [...new Set([...desired.keys(), ...current.keys()])]
+      .map(entryKey => {
+        const [leaveType, entryYear] = entryKey.split(':');
+        const days = round((desired.get(entryKey) ?? 0) - (current.get(entryKey) ?? 0));
+        let remarks = days < 0 ? 'Leave approved' : `Leave ${leave.isDeleted ? 'deleted' : leave.status}`;
+        if (desired.has(entryKey) && current.has(entryKey)) {
+          remarks = 'Approved leave changed';
+        }
+        return { leaveType, year: Number(entryYear), days, remarks };
+      })
+      .filter(correction => correction.days !== 0);
+
+    if (corrections.length === 0) {
+      return;
+    }
+
+    await LeaveLedgerEntry.insertMany(corrections.map(correction => ({
+      employeeId: leave.employeeId,
+      facilityId: leave.facilityId,
+      leaveType: correction.leaveType,
+      year: correction.year,
+      entryType: correction.days < 0 ? LeaveLedgerEntryType.DEBIT : LeaveLedgerEntryType.CREDIT,
+      days: correction.days,
+      leavePlannerId: leave._id,
+      remarks: correction.remarks,
+      createdBy: actorId
+    })));
+  }
+
+  // Balances of every leave type tracked for the employee in a facility for one year
+  static async getBalances(employee: IUser, facilityId: ObjectIdLike, year: number): Promise<LeaveBalanceSummary[]> {
+    const policies = await LeavePolicy.find({
+      facilityId,
+      employeeType: LeaveBalanceService.employeeTypeOf(employee),
+      isActive: true,
+      isDeleted: false
+    }).sort({ leaveType: 1 });
+
+    for (const policy of policies) {
+      await LeaveBalanceService.syncYear(employee, facilityId, policy, year);
+    }
+
+    const [totals, pending] = await Promise.all([
+      LeaveLedgerEntry.aggregate([
+        { $match: { employeeId: employee._id, year } },
+        { $group: { _id: { leaveType: '$leaveType', entryType: '$entryType' }, days: { $sum: '$days' } } }
+      ]),
+      LeaveBalanceService.getPendingDays(employee._id, year)
+    ]);
+
+    const byType = new Map<string, Partial<Record<LeaveLedgerEntryType, number>>>();
+    for (const { _id, days } of totals) {
+      byType.set(_id.leaveType, { ...byType.get(_id.leaveType), [_id.entryType]: days });
+    }
+
+    // Leave types with history but no active policy any more are still reported
+    const leaveTypes = [...new Set([...policies.map(policy => policy.leaveType), ...byType.keys()])] as LeaveType[];
+
+    return leaveTypes.map(leaveType => {
+      const policy = policies.find(p => p.leaveType === leaveType);
+      const sums = byType.get(leaveType) ?? {};
+      const sum = (...types: LeaveLedgerEntryType[]) => round(types.reduce((total, type) => total + (sums[type] ?? 0), 0));
+      const balance = sum(...Object.values(LeaveLedgerEntryType));
+      const pendingDays = pending[leaveType] ?? 0;
+
+      return {
+        leaveType,
+        policy: policy ? {
+          _id: policy._id,
+          annualEntitlement: policy.annualEntitlement,
+          accrualFrequency: policy.accrualFrequency,
+          carryForwardLimit: policy.carryForwardLimit,
+          encashable: policy.encashable,
+          maxEncashableDays: policy.maxEncashableDays,
+          exceedAction: policy.exceedAction
+        } : null,
+        carriedForward: sum(LeaveLedgerEntryType.CARRY_FORWARD),
+        accrued: sum(LeaveLedgerEntryType.ACCRUAL),
+        used: -sum(LeaveLedgerEntryType.DEBIT, LeaveLedgerEntryType.CREDIT),
+        encashed: -sum(LeaveLedgerEntryType.ENCASHMENT),
+        adjusted: sum(LeaveLedgerEntryType.ADJUSTMENT),
+        lapsed: -sum(LeaveLedgerEntryType.LAPSE),
+        balance,
+        pending: pendingDays,
+        available: round(balance - pendingDays)
+      };
+    });
+  }
+
+  // Days of a leave type already encashed in a year
+  static async getEncashedDays(employeeId: ObjectIdLike, leaveType: string, year: number): Promise<number> {
+    const [result] = await LeaveLedgerEntry.aggregate([
+      { $match: { employeeId: toObjectId(employeeId), leaveType, year, entryType: LeaveLedgerEntryType.ENCASHMENT } },
+      { $group: { _id: null, days: { $sum: '$days' } } }
+    ]);
+    return round(-(result?.days ?? 0));
+  }
+}
@@ -0,0 +1,289 @@
+import AWS from 'aws-sdk';
+import fs from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import path from 'path';
+import { config } from '../config';
+import { IMailJob, MailJob } from '../models/MailJob';
+import { IUser, VerificationStatus } from '../models/User';
+import { logger } from '../utils/logger';
+import { MailTemplateContext, MailTemplateName, renderMailTemplate } from './mailTemplates';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// A transport delivers one message or throws; the queue takes care of retries
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Must match the expiries set by User.generatePasswordResetToken / generateEmailVerificationToken
+const PASSWORD_RESET_EXPIRES_MINUTES = 60;
+const EMAIL_VERIFICATION_EXPIRES_HOURS = 24;
+
+// How long a job is held by the instance sending it; a job of an instance that died mid-send is retried after this
+const MAIL_SEND_LEASE_MS = 5 * 60 * 1000;
+
+const buildFrontendUrl = (pathname: string): string => `${config.FRONTEND_URL.replace(/\/+$/, '')}${pathname}`;
+
+const formatFromAddress = (): string => `"${config.FROM_NAME}" <${config.FROM_EMAIL}>`;
+
+const createSmtpTransport = (): MailTransport => {
+  const transporter: Transporter = nodemailer.createTransport({
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT,
+    secure: config.SMTP_SECURE,
+    auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASS } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: formatFromAddress(), ...message });
+    }
+  };
+};
+
+const createSesTransport = (): MailTransport => {
+  const ses = new AWS.SES({
+    region: config.AWS_SES_REGION,
+    ...(config.AWS_ACCESS_KEY_ID && {
+      accessKeyId: config.AWS_ACCESS_KEY_ID,
+      secretAccessKey: config.AWS_SECRET_ACCESS_KEY
+    })
+  });
+
+  return {
+    name: 'ses',
+    async send(message) {
+      await ses.sendEmail({
+        Source: formatFromAddress(),
+        Destination: { ToAddresses: [message.to] },
+        Message: {
+          Subject: { Data: message.subject, Charset: 'UTF-8' },
+          Body: {
+            Html: { Data: message.html, Charset: 'UTF-8' },
+            Text: { Data: message.text, Charset: 'UTF-8' }
+          }
+        }
+      }).promise();
+    }
+  };
+};
+
+// Writes every message as an .eml file so it can be opened in a mail client during development
+const createFileTransport = (): MailTransport => {
+  const transporter: Transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail({ from: formatFromAddress(), ...message });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const fileName = `${Date.now()}-${safeRecipient}.eml`;
+
+      await fs.mkdir(config.MAIL_FILE_DIR, { recursive: true });
+      await fs.writeFile(path.join(config.MAIL_FILE_DIR, fileName), info.message as Buffer);
+      logger.info(`Mail to ${message.to} written to ${path.join(config.MAIL_FILE_DIR, fileName)}`);
+    }
+  };
+};
+
+const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  async send(message) {
+    logger.info(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+});
+
+/**
+ * Sends the application's mails through the configured transport. Queued mails are kept in the mailjobs collection
+ * until delivered, so they survive restarts and are retried by whichever instance is running.
+ */
+export class MailService {
+  private static transport: MailTransport | null = null;
+  private static timer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  // Resolve the configured transport once
+  private static getTransport(): MailTransport {
+    if (!MailService.transport) {
+      switch (config.MAIL_TRANSPORT) {
+        case 'smtp':
+          MailService.transport = createSmtpTransport();
+          break;
+        case 'ses':
+          MailService.transport = createSesTransport();
+          break;
+        case 'file':
+          MailService.transport = createFileTransport();
+          break;
+        default:
+          MailService.transport = createConsoleTransport();
+      }
+      logger.info(`Mail service using ${MailService.transport.name} transport`);
+    }
+    return MailService.transport;
+  }
+
+  // Replace the transport (e.g. with an in-memory one in tests)
+  static setTransport(transport: MailTransport | null): void {
+    MailService.transport = transport;
+  }
+
+  // Send a message immediately, without retries
+  static async send(message: MailMessage): Promise<void> {
+    await MailService.getTransport().send(message);
+  }
+
+  // Queue a message for delivery; failures are retried with exponential backoff
+  static enqueue(message: MailMessage): void {
+    MailJob.create({ message, nextAttemptAt: new Date() })
+      .then(() => MailService.schedule(0))
+      .catch(error => {
+        // Still try the message once rather than lose it
+        logger.error(`Could not queue mail to ${message.to}, sending it without retries:`, error);
+        MailService.send(message)
+          .catch(sendError => logger.error(`Mail to ${message.to} ("${message.subject}") failed: ${sendError.message}`));
+      });
+  }
+
+  // Deliver the mails left in the queue by the previous run; call once connected to the database
+  static startQueue(): void {
+    MailService.schedule(0);
+  }
+
+  // Render a template and queue it for delivery
+  static sendTemplate<T extends MailTemplateName>(to: string, template: T, context: MailTemplateContext[T]): void {
+    const rendered = renderMailTemplate(template, context, config.FROM_NAME);
+    MailService.enqueue({ to, ...rendered });
+  }
+
+  // Send the password reset link for a freshly generated reset token
+  static sendPasswordResetEmail(user: IUser, resetToken: string): void {
+    MailService.sendTemplate(user.email, 'passwordReset', {
+      firstName: user.firstName,
+      resetUrl: buildFrontendUrl(`/reset-password/${resetToken}`),
+      expiresInMinutes: PASSWORD_RESET_EXPIRES_MINUTES
+    });
+  }
+
+  // Generate a verification token, persist it and send the verification link
+  static async sendVerificationEmail(user: IUser): Promise<void> {
+    const verificationToken = user.generateEmailVerificationToken();
+    await user.save();
+
+    MailService.sendTemplate(user.email, 'emailVerification', {
+      firstName: user.firstName,
+      verificationUrl: buildFrontendUrl(`/verify-email/${verificationToken}`),
+      expiresInHours: EMAIL_VERIFICATION_EXPIRES_HOURS
+    });
+  }
+
+  // Notify a user created by an administrator; includes a verification link when the account is not verified yet
+  static async sendAccountCreatedEmail(user: IUser, createdBy?: IUser): Promise<void> {
+    let verificationUrl: string | undefined;
+    if (user.verificationStatus !== VerificationStatus.VERIFIED) {
+      const verificationToken = user.generateEmailVerificationToken();
+      await user.save();
+      verificationUrl = buildFrontendUrl(`/verify-email/${verificationToken}`);
+    }
+
+    MailService.sendTemplate(user.email, 'accountCreated', {
+      firstName: user.firstName,
+      email: user.email,
+      username: user.username,
+      role: user.role.replace(/_/g, ' '),
+      createdByName: createdBy ? `${createdBy.firstName} ${createdBy.lastName}` : undefined,
+      loginUrl: buildFrontendUrl('/login'),
+      verificationUrl
+    });
+  }
+
+  // Send the invitation link for a freshly issued invitation token
+  static sendInvitationEmail(user: IUser, invitationToken: string, invitedBy?: IUser): void {
+    MailService.sendTemplate(user.email, 'invitation', {
+      firstName: user.firstName,
+      email: user.email,
+      role: user.role.replace(/_/g, ' '),
+      invitedByName: invitedBy ? `${invitedBy.firstName} ${invitedBy.lastName}` : undefined,
+      acceptUrl: buildFrontendUrl(`/accept-invitation/${invitationToken}`),
+      expiresOn: user.invitation!.expiresAt.toUTCString()
+    });
+  }
+
+  // Queue statistics for diagnostics
+  static async getQueueStats(): Promise<{ pending: number; transport: string }> {
+    return {
+      pending: await MailJob.countDocuments(),
+      transport: config.MAIL_TRANSPORT
+    };
+  }
+
+  private static schedule(delayMs: number): void {
+    if (MailService.timer) {
+      clearTimeout(MailService.timer);
+    }
+    MailService.timer = setTimeout(() => {
+      MailService.timer = null;
+      void MailService.processQueue();
+    }, Math.max(delayMs, 0));
+    // Pending retries must not keep the process alive on shutdown
+    MailService.timer.unref();
+  }
+
+  // Take the next due job, holding it for the length of the lease
+  private static async claimNextJob(): Promise<IMailJob | null> {
+    return MailJob.findOneAndUpdate(
+      { nextAttemptAt: { $lte: new Date() } },
+      { $inc: { attempts: 1 }, $set: { nextAttemptAt: new Date(Date.now() + MAIL_SEND_LEASE_MS) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  private static async deliver(job: IMailJob): Promise<void> {
+    const { to, subject, html, text } = job.message;
+    const message: MailMessage = { to, subject, html, text };
+    try {
+      await MailService.send(message);
+      await MailJob.deleteOne({ _id: job._id });
+    } catch (error: any) {
+      if (job.attempts >= config.MAIL_MAX_ATTEMPTS) {
+        await MailJob.deleteOne({ _id: job._id });
+        logger.error(`Mail to ${message.to} ("${message.subject}") dropped after ${job.attempts} attempts: ${error.message}`);
+      } else {
+        const delay = config.MAIL_RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+        await MailJob.updateOne({ _id: job._id }, { $set: { nextAttemptAt: new Date(Date.now() + delay), lastError: error.message } });
+        logger.warn(`Mail to ${message.to} failed (attempt ${job.attempts}/${config.MAIL_MAX_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s: ${error.message}`);
+      }
+    }
+  }
+
+  private static async processQueue(): Promise<void> {
+    if (MailService.processing) {
+      return;
+    }
+    MailService.processing = true;
+
+    try {
+      let job: IMailJob | null;
+      while ((job = await MailService.claimNextJob())) {
+        await MailService.deliver(job);
+      }
+
+      const next = await MailJob.findOne().sort({ nextAttemptAt: 1 }).select('nextAttemptAt');
+      if (next) {
+        MailService.schedule(next.nextAttemptAt.getTime() - Date.now());
+      }
+    } catch (error) {
+      logger.error('Mail queue processing failed:', error);
+      MailService.schedule(config.MAIL_RETRY_DELAY_MS);
+    } finally {
+      MailService.processing = false;
+    }
+  }
+}
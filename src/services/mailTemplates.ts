@@ -0,0 +1,189 @@
+import Handlebars from 'handlebars';
+
+export type MailTemplateName = 'passwordReset' | 'emailVerification' | 'accountCreated' | 'invitation';
+
+export interface MailTemplateContext {
+  passwordReset: {
+    firstName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  emailVerification: {
+    firstName: string;
+    verificationUrl: string;
+    expiresInHours: number;
+  };
+  accountCreated: {
+    firstName: string;
+    email: string;
+    username?: string;
+    role: string;
+    createdByName?: string;
+    loginUrl: string;
+    verificationUrl?: string;
+  };
+  invitation: {
+    firstName: string;
+    email: string;
+    role: string;
+    invitedByName?: string;
+    acceptUrl: string;
+    expiresOn: string;
+  };
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface MailTemplateSource {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Shared HTML wrapper; the template body is injected as {{{body}}}
+const LAYOUT = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f2933;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:6px;">
+      <tr>
+        <td style="padding:24px 32px;border-bottom:1px solid #e4e7eb;font-size:18px;font-weight:bold;">{{appName}}</td>
+      </tr>
+      <tr>
+        <td style="padding:24px 32px;font-size:14px;line-height:1.6;">{{{body}}}</td>
+      </tr>
+      <tr>
+        <td style="padding:16px 32px;border-top:1px solid #e4e7eb;font-size:12px;color:#7b8794;">
+          This is an automated message from {{appName}}. Please do not reply.
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+const BUTTON = (urlVariable: string, label: string) =>
+  `<p style="margin:24px 0;"><a href="{{${urlVariable}}}" style="background:#2563eb;color:#ffffff;padding:10px 20px;border-radius:4px;text-decoration:none;display:inline-block;">${label}</a></p>
+<p style="font-size:12px;color:#7b8794;">If the button does not work, copy this link into your browser:<br>{{${urlVariable}}}</p>`;
+
+const TEMPLATES: Record<MailTemplateName, MailTemplateSource> = {
+  passwordReset: {
+    subject: 'Reset your {{appName}} password',
+    html: `<p>Hi {{firstName}},</p>
+<p>We received a request to reset your password. Use the button below to choose a new one.</p>
+${BUTTON('resetUrl', 'Reset password')}
+<p>This link expires in {{expiresInMinutes}} minutes. If you did not request a password reset, you can ignore this email.</p>`,
+    text: `Hi {{firstName}},
+
+We received a request to reset your password. Open the link below to choose a new one:
+
+{{resetUrl}}
+
+This link expires in {{expiresInMinutes}} minutes. If you did not request a password reset, you can ignore this email.`
+  },
+  emailVerification: {
+    subject: 'Verify your {{appName}} email address',
+    html: `<p>Hi {{firstName}},</p>
+<p>Please confirm your email address to activate your account.</p>
+${BUTTON('verificationUrl', 'Verify email')}
+<p>This link expires in {{expiresInHours}} hours.</p>`,
+    text: `Hi {{firstName}},
+
+Please confirm your email address to activate your account:
+
+{{verificationUrl}}
+
+This link expires in {{expiresInHours}} hours.`
+  },
+  accountCreated: {
+    subject: 'Your {{appName}} account has been created',
+    html: `<p>Hi {{firstName}},</p>
+<p>{{#if createdByName}}{{createdByName}} has created{{else}}An administrator has created{{/if}} a {{appName}} account for you.</p>
+<ul>
+  <li>Email: {{email}}</li>
+  {{#if username}}<li>Username: {{username}}</li>{{/if}}
+  <li>Role: {{role}}</li>
+</ul>
+{{#if verificationUrl}}
+<p>Before you can sign in, please verify your email address.</p>
+${BUTTON('verificationUrl', 'Verify email')}
+{{else}}
+${BUTTON('loginUrl', 'Sign in')}
+{{/if}}
+<p>Your administrator will share your initial password with you separately.</p>`,
+    text: `Hi {{firstName}},
+
+{{#if createdByName}}{{createdByName}} has created{{else}}An administrator has created{{/if}} a {{appName}} account for you.
+
+Email: {{email}}
+{{#if username}}Username: {{username}}
+{{/if}}Role: {{role}}
+
+{{#if verificationUrl}}Before you can sign in, please verify your email address:
+{{verificationUrl}}{{else}}Sign in at: {{loginUrl}}{{/if}}
+
+Your administrator will share your initial password with you separately.`
+  },
+  invitation: {
+    subject: "You're invited to {{appName}}",
+    html: `<p>Hi {{firstName}},</p>
+<p>{{#if invitedByName}}{{invitedByName}} has invited you{{else}}You have been invited{{/if}} to join {{appName}} as {{role}}.</p>
+<p>Accept the invitation to choose your password and activate your account ({{email}}).</p>
+${BUTTON('acceptUrl', 'Accept invitation')}
+<p>This invitation expires on {{expiresOn}}. If you were not expecting it, you can ignore this email.</p>`,
+    text: `Hi {{firstName}},
+
+{{#if invitedByName}}{{invitedByName}} has invited you{{else}}You have been invited{{/if}} to join {{appName}} as {{role}}.
+
+Accept the invitation to choose your password and activate your account ({{email}}):
+
+{{acceptUrl}}
+
+This invitation expires on {{expiresOn}}. If you were not expecting it, you can ignore this email.`
+  }
+};
+
+const compiledLayout = Handlebars.compile(LAYOUT);
+const compiledTemplates = new Map<MailTemplateName, {
+  subject: HandlebarsTemplateDelegate;
+  html: HandlebarsTemplateDelegate;
+  text: HandlebarsTemplateDelegate;
+}>();
+
+const getCompiledTemplate = (name: MailTemplateName) => {
+  let compiled = compiledTemplates.get(name);
+  if (!compiled) {
+    const source = TEMPLATES[name];
+    compiled = {
+      subject: Handlebars.compile(source.subject, { noEscape: true }),
+      html: Handlebars.compile(source.html),
+      // Plain text bodies must not be HTML-escaped
+      text: Handlebars.compile(source.text, { noEscape: true })
+    };
+    compiledTemplates.set(name, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * Render a mail template to subject, HTML and plain text
+ * @param name - Template name
+ * @param context - Template variables
+ * @param appName - Product name shown in the subject and layout
+ */
+export const renderMailTemplate = <T extends MailTemplateName>(
+  name: T,
+  context: MailTemplateContext[T],
+  appName: string
+): RenderedTemplate => {
+  const compiled = getCompiledTemplate(name);
+  const data = { ...context, appName };
+
+  return {
+    subject: compiled.subject(data),
+    html: compiledLayout({ appName, body: compiled.html(data) }),
+    text: compiled.text(data)
+  };
+};
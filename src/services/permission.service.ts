@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import { PERMISSION_FLAGS, PermissionFlag, ROUTE_PERMISSIONS } from '../config/permissions';
+import { IApiKey } from '../models/ApiKey';
+import { IRole } from '../models/Role';
+import { IUser, UserRole } from '../models/User';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export interface EffectivePermissions {
+  role: UserRole;
+  facilityId: string | null; // Facility the permissions were resolved for; null for global roles only
+  customRoles: { _id: string; name: string; facilityId: string | null }[];
+  permissions: Record<PermissionFlag, boolean>;
+  permissionOverrides: Partial<Record<PermissionFlag, boolean>>;
+  customPermissions: string[];
+  routes: { method: string; path: string }[];
+}
+
+export class PermissionService {
+  // Populate options loading the custom roles that take part in permission resolution
+  static readonly CUSTOM_ROLES_POPULATE = {
+    path: 'customRoles',
+    match: { isDeleted: false, isActive: true },
+    select: 'name facilityId permissions customPermissions isActive isDeleted'
+  };
+
+  // Custom roles of a user that are loaded; unpopulated role ids grant nothing
+  static getAssignedRoles(user: IUser): IRole[] {
+    return ((user.customRoles || []) as any[]).filter(
+      role => role && role.permissions && role.isActive !== false && !role.isDeleted
+    ) as IRole[];
+  }
+
+  // Assigned custom roles that apply in a facility: the global ones and those of that facility
+  static getRolesForFacility(user: IUser, facilityId?: ObjectIdLike | null): IRole[] {
+    const facilityKey = facilityId ? facilityId.toString() : null;
+    return PermissionService.getAssignedRoles(user).filter(
+      role => !role.facilityId || role.facilityId.toString() === facilityKey
+    );
+  }
+
+  /**
+   * Check a single permission the same way AuthMiddleware.requirePermission does.
+   * Resolution order: per-user override, then the user's own flags and customPermissions
+   * (base role defaults plus legacy grants), then the templates of the assigned custom roles.
+   * A facility role only counts when the check is for its facility; without a facility only global roles do.
+   * With an API key, only permissions listed on the key are considered.
+   */
+  static hasPermission(user: IUser, permission: PermissionFlag | string, facilityId?: ObjectIdLike | null): boolean {
+    // Requests authenticated with an API key never exceed the key's permissions
+    const apiKey = user.$locals?.apiKey as IApiKey | undefined;
+    if (apiKey && !apiKey.permissions.includes(permission as PermissionFlag)) {
+      return false;
+    }
+
+    // Super admin has access to everything
+    if (user.role === UserRole.SUPER_ADMIN) {
+      return true;
+    }
+
+    const override = user.permissionOverrides?.[permission as PermissionFlag];
+    if (typeof override === 'boolean') {
+      return override;
+    }
+
+    if (user.hasPermission(permission as PermissionFlag)) {
+      return true;
+    }
+
+    return PermissionService.getRolesForFacility(user, facilityId).some(role =>
+      role.permissions?.[permission as PermissionFlag] === true ||
+      role.customPermissions.includes('all') ||
+      role.customPermissions.includes(permission)
+    );
+  }
+
+  // Resolve every permission flag of a user in a facility and the matrix routes those permissions unlock
+  static getEffectivePermissions(user: IUser, facilityId?: ObjectIdLike | null): EffectivePermissions {
+    const permissions = PERMISSION_FLAGS.reduce((resolved, flag) => {
+      resolved[flag] = PermissionService.hasPermission(user, flag, facilityId);
+      return resolved;
+    }, {} as Record<PermissionFlag, boolean>);
+
+    const routes = ROUTE_PERMISSIONS
+      .filter(rule => rule.permissions.every(permission => permissions[permission]))
+      .map(({ method, path }) => ({ method, path }));
+
+    const roles = PermissionService.getAssignedRoles(user);
+    const customPermissions = new Set([
+      ...(user.permissions?.customPermissions || []),
+      ...PermissionService.getRolesForFacility(user, facilityId).flatMap(role => role.customPermissions)
+    ]);
+
+    return {
+      role: user.role,
+      facilityId: facilityId ? facilityId.toString() : null,
+      customRoles: roles.map(role => ({
+        _id: role._id.toString(),
+        name: role.name,
+        facilityId: role.facilityId ? role.facilityId.toString() : null
+      })),
+      permissions,
+      permissionOverrides: user.permissionOverrides || {},
+      customPermissions: [...customPermissions],
+      routes
+    };
+  }
+}
@@ -0,0 +1,466 @@
+import mongoose from 'mongoose';
+import { Attendance, AttendanceStatus, IAttendancePunch } from '../models/Attendance';
+import { AttendanceVerification, IAttendanceSettings } from '../models/AttendanceSettings';
+import { Roster } from '../models/Roster';
+import { IUser, User } from '../models/User';
+import { AttendanceService, ExpectedShift } from './attendance.service';
+
+export type PunchDirection = 'in' | 'out';
+
+// Order of day, month and year in non-ISO dates of a punch log (e.g. 05/03/2026)
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+// One punch read from a punch log
+export interface RawPunch {
+  line: number;
+  code: string; // Employee code enrolled on the terminal (profile.employeeId)
+  time: Date;
+  dateKey: string; // Local date of the punch (YYYY-MM-DD)
+  deviceId?: string;
+  direction?: PunchDirection; // Absent when the terminal does not record in/out
+}
+
+export interface ParsedPunchLog {
+  totalLines: number;
+  punches: RawPunch[];
+  invalidLines: { line: number; reason: string; content: string }[];
+}
+
+export type PunchAnomalyType = 'single_punch' | 'outside_shift';
+
+export interface PunchAnomaly {
+  type: PunchAnomalyType;
+  employeeId: mongoose.Types.ObjectId;
+  code: string;
+  name: string;
+  date: string;
+  shiftName?: string;
+  punches: { time: Date; direction?: PunchDirection; deviceId?: string }[];
+}
+
+export interface PunchImportReport {
+  totalLines: number;
+  parsedPunches: number;
+  duplicatePunches: number;
+  invalidLines: ParsedPunchLog['invalidLines'];
+  unmatchedCodes: { code: string; punches: number; reason: 'unknown' | 'ambiguous' }[];
+  anomalies: PunchAnomaly[];
+  records: { created: number; updated: number; unchanged: number };
+  dryRun: boolean;
+}
+
+// Punches this close to the previous punch of the same employee and direction are repeats
+const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+// How far before the start and after the end of a shift punches still count towards it
+const SHIFT_MATCH_WINDOW_MS = 4 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest list of invalid lines and anomalies returned in a report
+const MAX_REPORTED = 500;
+
+// Normalized header names of the columns of punch logs exported by common terminals
+const COLUMN_ALIASES: Record<'code' | 'timestamp' | 'date' | 'time' | 'device' | 'direction', string[]> = {
+  code: ['employeecode', 'empcode', 'employeeid', 'empid', 'employeeno', 'empno', 'code', 'userid', 'enrollno', 'enrollnumber', 'badgeno', 'badge', 'pin', 'acno', 'id'],
+  timestamp: ['timestamp', 'datetime', 'punchtime', 'logtime', 'checktime', 'punchdatetime'],
+  date: ['date', 'punchdate', 'logdate'],
+  time: ['time'],
+  device: ['deviceid', 'device', 'terminalid', 'terminal', 'machineid', 'machine', 'machineno', 'deviceno', 'sn'],
+  direction: ['inout', 'direction', 'flag', 'inoutflag', 'checktype', 'punchtype', 'type', 'status', 'state', 'mode']
+};
+
+const IN_FLAGS = ['in', 'i', '0', 'checkin', 'cin', 'clockin', 'entry'];
+const OUT_FLAGS = ['out', 'o', '1', 'checkout', 'cout', 'clockout', 'exit'];
+
+const DATE_TIME_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AaPp][Mm])?$/;
+const DATE_PATTERN = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?(\s*[AaPp][Mm])?$/;
+// Timestamps carrying their own UTC offset are not converted from the facility's time zone
+const ABSOLUTE_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Split a delimited line, honouring double-quoted fields
+const splitLine = (line: string, delimiter: string | null): string[] => {
+  if (!delimiter) {
+    return line.trim().split(/\s+/);
+  }
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+const parseDirection = (value?: string): PunchDirection | undefined => {
+  const flag = value?.toLowerCase().replace(/[\s\-_/]/g, '');
+  if (!flag) return undefined;
+  if (IN_FLAGS.includes(flag)) return 'in';
+  if (OUT_FLAGS.includes(flag)) return 'out';
+  return undefined;
+};
+
+/**
+ * Import of punch logs exported by standalone biometric terminals (CSV or TXT, one punch per line:
+ * employee code, timestamp, device id, in/out flag). Columns are found by their header when the file has one
+ * and are positional otherwise; timestamps without an offset are local times of the facility.
+ */
+export class PunchImportService {
+  // Local date and instant of a punch timestamp; null when it cannot be read
+  static parseTimestamp(value: string, timezone: string, dateOrder: DateOrder): { time: Date; dateKey: string } | null {
+    const text = value.trim();
+    if (ABSOLUTE_TIMESTAMP_PATTERN.test(text)) {
+      const time = new Date(text);
+      return isNaN(time.getTime()) ? null : { time, dateKey: AttendanceService.localDateKey(time, timezone) };
+    }
+
+    const match = DATE_TIME_PATTERN.exec(text);
+    if (!match) {
+      return null;
+    }
+    const [, first, second, third, hourText, minuteText, secondText = '0', meridiem] = match;
+    let year: number;
+    let month: number;
+    let day: number;
+    if (first.length === 4 || dateOrder === 'YMD') {
+      [year, month, day] = [Number(first), Number(second), Number(third)];
+    } else if (dateOrder === 'MDY') {
+      [month, day, year] = [Number(first), Number(second), Number(third)];
+    } else {
+      [day, month, year] = [Number(first), Number(second), Number(third)];
+    }
+    if (year < 100) {
+      year += 2000;
+    }
+
+    let hours = Number(hourText);
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours = (hours % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    }
+    const minutes = Number(minuteText);
+    const seconds = Number(secondText);
+    if (hours > 23 || minutes > 59 || seconds > 59) {
+      return null;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    const dateKey = `${year}-${pad(month)}-${pad(day)}`;
+    return { time: AttendanceService.zonedTime(dateKey, `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`, timezone), dateKey };
+  }
+
+  // Column positions named by a header line, or null when the line is not a header
+  private static mapHeader(fields: string[]): Partial<Record<keyof typeof COLUMN_ALIASES, number>> | null {
+    const headers = fields.map(normalizeHeader);
+    const found: Partial<Record<keyof typeof COLUMN_ALIASES, number>> = {};
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [keyof typeof COLUMN_ALIASES, string[]][]) {
+      const index = headers.findIndex((header, position) =>
+        aliases.includes(header) && !Object.values(found).includes(position)
+      );
+      if (index >= 0) found[column] = index;
+    }
+    const hasTime = found.timestamp !== undefined || found.date !== undefined || found.time !== undefined;
+    return found.code !== undefined && hasTime ? found : null;
+  }
+
+  // Read the punches of a punch log; unreadable lines are reported rather than failing the import
+  static parse(content: string, timezone: string, dateOrder: DateOrder = 'DMY'): ParsedPunchLog {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const result: ParsedPunchLog = { totalLines: 0, punches: [], invalidLines: [] };
+
+    const firstLine = lines.find(line => line.trim()) ?? '';
+    const delimiter = ['\t', ',', ';', '|'].find(candidate => firstLine.includes(candidate)) ?? null;
+
+    // Columns are mapped by name when the first line is a header
+    const columns = PunchImportService.mapHeader(splitLine(firstLine, delimiter));
+
+    let headerSkipped = false;
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (!line) return;
+      if (columns && !headerSkipped) {
+        headerSkipped = true;
+        return;
+      }
+      result.totalLines++;
+
+      const fields = splitLine(line, delimiter && line.includes(delimiter) ? delimiter : null);
+      let code: string | undefined;
+      let timestamp: string | undefined;
+      let deviceId: string | undefined;
+      let flag: string | undefined;
+
+      if (columns) {
+        code = fields[columns.code!];
+        if (columns.date !== undefined && columns.time !== undefined) {
+          timestamp = `${fields[columns.date]} ${fields[columns.time]}`;
+        } else {
+          timestamp = fields[columns.timestamp ?? columns.time ?? columns.date!];
+        }
+        deviceId = columns.device !== undefined ? fields[columns.device] : undefined;
+        flag = columns.direction !== undefined ? fields[columns.direction] : undefined;
+      } else {
+        // Positional: code, timestamp (possibly split into date and time), device id, in/out flag
+        code = fields[0];
+        let rest: string[];
+        if (DATE_PATTERN.test(fields[1] ?? '') && TIME_PATTERN.test(fields[2] ?? '')) {
+          const meridiem = /^[AaPp][Mm]$/.test(fields[3] ?? '') ? ` ${fields[3]}` : '';
+          timestamp = `${fields[1]} ${fields[2]}${meridiem}`;
+          rest = fields.slice(meridiem ? 4 : 3);
+        } else {
+          timestamp = fields[1];
+          rest = fields.slice(2);
+        }
+        [deviceId, flag] = rest;
+      }
+
+      const lineNumber = index + 1;
+      const invalid = (reason: string): void => {
+        result.invalidLines.push({ line: lineNumber, reason, content: line.slice(0, 200) });
+      };
+      if (!code) {
+        invalid('Missing employee code');
+        return;
+      }
+      if (!timestamp) {
+        invalid('Missing timestamp');
+        return;
+      }
+      const parsed = PunchImportService.parseTimestamp(timestamp, timezone, dateOrder);
+      if (!parsed) {
+        invalid(`Unreadable timestamp "${timestamp}"`);
+        return;
+      }
+
+      result.punches.push({
+        line: lineNumber,
+        code,
+        time: parsed.time,
+        dateKey: parsed.dateKey,
+        deviceId: deviceId || undefined,
+        direction: parseDirection(flag)
+      });
+    });
+
+    return result;
+  }
+
+  // Employees enrolled on the terminals, by code; codes shared by several employees prefer those of the facility
+  private static async matchEmployees(facilityId: string, codes: string[]) {
+    const users = await User.find({ 'profile.employeeId': { $in: codes }, isDeleted: false })
+      .select('firstName lastName profile.employeeId managedFacilities');
+
+    const byCode = new Map<string, IUser>();
+    const ambiguous = new Set<string>();
+    for (const code of codes) {
+      let candidates = users.filter(user => user.profile?.employeeId === code);
+      if (candidates.length > 1) {
+        candidates = candidates.filter(user => (user.managedFacilities || []).some(id => id.toString() === facilityId));
+      }
+      if (candidates.length === 1) {
+        byCode.set(code, candidates[0]);
+      } else if (candidates.length > 1 || users.some(user => user.profile?.employeeId === code)) {
+        ambiguous.add(code);
+      }
+    }
+    return { byCode, ambiguous };
+  }
+
+  // Drop repeated punches: the same direction within a short time of the previous punch
+  private static dedupe(punches: RawPunch[]): { kept: RawPunch[]; duplicates: number } {
+    const sorted = [...punches].sort((a, b) => a.time.getTime() - b.time.getTime());
+    const kept: RawPunch[] = [];
+    let duplicates = 0;
+    for (const punch of sorted) {
+      const previous = kept[kept.length - 1];
+      if (previous
+        && punch.time.getTime() - previous.time.getTime() <= DUPLICATE_WINDOW_MS
+        && (punch.direction === previous.direction || !punch.direction || !previous.direction)) {
+        duplicates++;
+        continue;
+      }
+      kept.push(punch);
+    }
+    return { kept, duplicates };
+  }
+
+  // Shift of the employee a punch belongs to: the one whose (widened) window contains it, closest first
+  private static matchShift(punch: RawPunch, shifts: ExpectedShift[]): ExpectedShift | null {
+    let best: { shift: ExpectedShift; distance: number } | null = null;
+    for (const shift of shifts) {
+      const time = punch.time.getTime();
+      const start = shift.scheduledStart.getTime();
+      const end = shift.scheduledEnd.getTime();
+      if (time < start - SHIFT_MATCH_WINDOW_MS || time > end + SHIFT_MATCH_WINDOW_MS) continue;
+      const distance = time < start ? start - time : time > end ? time - end : 0;
+      if (!best || distance < best.distance) {
+        best = { shift, distance };
+      }
+    }
+    return best?.shift ?? null;
+  }
+
+  /**
+   * Pair the punches of a log into attendance records against the employees' shifts and report what could
+   * not be reconciled. The first punch (or first "in") of a shift is the check-in and the last (or last "out")
+   * the check-out; existing records keep their earliest check-in and latest check-out, so re-importing a
+   * log changes nothing. With dryRun the report is produced without saving.
+   */
+  static async reconcile(facilityId: string, log: ParsedPunchLog, settings: IAttendanceSettings, options: { dryRun?: boolean; actor: IUser }): Promise<PunchImportReport> {
+    const report: PunchImportReport = {
+      totalLines: log.totalLines,
+      parsedPunches: log.punches.length,
+      duplicatePunches: 0,
+      invalidLines: log.invalidLines.slice(0, MAX_REPORTED),
+      unmatchedCodes: [],
+      anomalies: [],
+      records: { created: 0, updated: 0, unchanged: 0 },
+      dryRun: !!options.dryRun
+    };
+    if (log.punches.length === 0) {
+      return report;
+    }
+
+    const codes = [...new Set(log.punches.map(punch => punch.code))];
+    const { byCode, ambiguous } = await PunchImportService.matchEmployees(facilityId, codes);
+    for (const code of codes) {
+      if (!byCode.has(code)) {
+        report.unmatchedCodes.push({
+          code,
+          punches: log.punches.filter(punch => punch.code === code).length,
+          reason: ambiguous.has(code) ? 'ambiguous' : 'unknown'
+        });
+      }
+    }
+
+    // Expected shifts of every day covered by the log, including the day before for overnight shifts
+    const dateKeys = log.punches.map(punch => punch.dateKey).sort();
+    const shiftsByDate = new Map<string, ExpectedShift[]>();
+    for (let time = new Date(dateKeys[0]).getTime() - DAY_MS; time <= new Date(dateKeys[dateKeys.length - 1]).getTime(); time += DAY_MS) {
+      const dateKey = new Date(time).toISOString().slice(0, 10);
+      shiftsByDate.set(dateKey, await AttendanceService.getExpectedShifts(facilityId, dateKey, settings.timezone));
+    }
+
+    for (const [code, employee] of byCode) {
+      const { kept, duplicates } = PunchImportService.dedupe(log.punches.filter(punch => punch.code === code));
+      report.duplicatePunches += duplicates;
+      const employeeShifts = [...shiftsByDate.values()].flat()
+        .filter(shift => shift.employeeId.toString() === employee._id.toString());
+
+      // Group the punches per shift; punches matching no shift are grouped per local day
+      const groups = new Map<string, { shift: ExpectedShift | null; dateKey: string; punches: RawPunch[] }>();
+      for (const punch of kept) {
+        const shift = PunchImportService.matchShift(punch, employeeShifts);
+        const dateKey = shift ? shift.date.toISOString().slice(0, 10) : punch.dateKey;
+        const key = shift ? `${dateKey}:${shift.shiftScheduleId}` : `${dateKey}:unscheduled`;
+        const group = groups.get(key) ?? { shift, dateKey, punches: [] };
+        group.punches.push(punch);
+        groups.set(key, group);
+      }
+
+      for (const group of groups.values()) {
+        const anomaly = (type: PunchAnomalyType): void => {
+          report.anomalies.push({
+            type,
+            employeeId: employee._id,
+            code,
+            name: `${employee.firstName} ${employee.lastName}`,
+            date: group.dateKey,
+            shiftName: group.shift?.shiftName,
+            punches: group.punches.map(({ time, direction, deviceId }) => ({ time, direction, deviceId }))
+          });
+        };
+        if (!group.shift) anomaly('outside_shift');
+        if (group.punches.length === 1) anomaly('single_punch');
+
+        const outcome = await PunchImportService.saveGroup(facilityId, employee, group, settings, options);
+        report.records[outcome]++;
+      }
+    }
+
+    report.anomalies = report.anomalies.slice(0, MAX_REPORTED);
+    return report;
+  }
+
+  // Record the punches of one shift (or unscheduled day) of an employee
+  private static async saveGroup(
+    facilityId: string,
+    employee: IUser,
+    group: { shift: ExpectedShift | null; dateKey: string; punches: RawPunch[] },
+    settings: IAttendanceSettings,
+    options: { dryRun?: boolean; actor: IUser }
+  ): Promise<'created' | 'updated' | 'unchanged'> {
+    const { shift, punches } = group;
+    const toPunch = (punch: RawPunch): IAttendancePunch => ({ time: punch.time, method: AttendanceVerification.BIOMETRIC, device: punch.deviceId });
+
+    // A lone "out" punch is a check-out without check-in
+    const first = punches.find(punch => punch.direction !== 'out') ?? (punches.length > 1 ? punches[0] : undefined);
+    const outs = punches.filter(punch => punch.direction === 'out' && punch !== first);
+    const last = outs[outs.length - 1] ?? (punches.length > 1 ? punches[punches.length - 1] : first ? undefined : punches[0]);
+
+    const date = new Date(`${group.dateKey}T00:00:00.000Z`);
+    const shiftScheduleId = shift?.shiftScheduleId ?? null;
+    let attendance = await Attendance.findOne({ employeeId: employee._id, date, shiftScheduleId });
+    const created = !attendance;
+    if (!attendance) {
+      attendance = new Attendance({
+        facilityId,
+        employeeId: employee._id,
+        date,
+        shiftScheduleId,
+        rosterId: shift?.rosterId,
+        scheduledStart: shift?.scheduledStart,
+        scheduledEnd: shift?.scheduledEnd
+      });
+    }
+
+    let checkInChanged = false;
+    if (first && (!attendance.checkIn || first.time < attendance.checkIn.time)) {
+      AttendanceService.applyCheckIn(attendance, toPunch(first), settings);
+      checkInChanged = true;
+    }
+    if (last && (!attendance.checkOut || last.time > attendance.checkOut.time)) {
+      AttendanceService.applyCheckOut(attendance, toPunch(last), settings);
+    } else if (checkInChanged && attendance.checkOut) {
+      AttendanceService.applyCheckOut(attendance, attendance.checkOut, settings);
+    }
+    if (attendance.status !== AttendanceStatus.PRESENT || attendance.autoMarked) {
+      // Punches prove presence, also over an absence marked at the end of the shift
+      attendance.status = AttendanceStatus.PRESENT;
+      attendance.autoMarked = false;
+    }
+
+    if (!attendance.isNew && !attendance.isModified()) {
+      return 'unchanged';
+    }
+    if (!options.dryRun) {
+      attendance.updatedBy = options.actor._id;
+      await attendance.save();
+      if (shift?.rosterId) {
+        await Roster.updateOne(
+          { _id: shift.rosterId, 'shifts._id': shift.rosterEntryId },
+          { $set: { 'shifts.$.status': 'present' } }
+        );
+      }
+    }
+    return created ? 'created' : 'updated';
+  }
+}
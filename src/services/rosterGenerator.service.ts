@@ -0,0 +1,330 @@
+import mongoose from 'mongoose';
+import { ILeavePlanner, LeavePlanner } from '../models/LeavePlanner';
+import { IRoster, IUnfilledSlot, Roster, RosterStatus } from '../models/Roster';
+import { IShiftSchedule, ShiftSchedule } from '../models/ShiftSchedule';
+import { IStaffingRequirement, StaffingRequirement, WEEKDAY_NAMES } from '../models/StaffingRequirement';
+import { IUser, User, UserStatus } from '../models/User';
+import { IWeekoffPlanner, WeekoffPlanner } from '../models/WeekoffPlanner';
+import { HolidayCalendarService, HolidayOccurrence } from './holidayCalendar.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type UnavailabilityReason = 'leave' | 'weekoff' | 'holiday';
+
+// Outcome of the generation of one day
+export interface GeneratedRosterDay {
+  date: string;
+  rosterId: mongoose.Types.ObjectId;
+  assigned: number;
+  unavailable: Record<UnavailabilityReason, number>;
+  unfilledSlots: IUnfilledSlot[];
+}
+
+export interface RosterGenerationResult {
+  days: GeneratedRosterDay[];
+  skippedDates: { date: string; reason: string }[];
+  unfilledSlots: (IUnfilledSlot & { date: string })[];
+  nightShifts: { employeeId: mongoose.Types.ObjectId; name: string; count: number }[]; // Night shifts per employee in the generated range
+}
+
+export interface RosterPublicationResult {
+  published: number;
+  conflicts: string[]; // Dates of drafts left unpublished because a published roster exists
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Night shifts worked over this many days before the range count towards the rotation
+const NIGHT_HISTORY_DAYS = 28;
+// Shifts starting before this time of day are night shifts, like those crossing midnight
+const NIGHT_START_BEFORE_MINUTES = 5 * 60;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+const sameText = (a?: string | null, b?: string | null): boolean => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Draft rosters built from the shift schedules of a facility. Every employee due to work on a day (one of their
+ * schedules has the weekday among its working days) is rostered unless on an approved leave, an approved week-off
+ * or a holiday that applies to them. Employees are then moved between shifts to meet the facility's staffing
+ * minimums, night shifts going to those who worked the fewest of them; minimums that cannot be met are reported
+ * as unfilled slots. Drafts do not affect attendance until a manager publishes them.
+ */
+export class RosterGeneratorService {
+  static isNightShift(shift: Pick<IShiftSchedule, 'startTime' | 'endTime'>): boolean {
+    const start = minutesOf(shift.startTime);
+    return minutesOf(shift.endTime) <= start || start < NIGHT_START_BEFORE_MINUTES;
+  }
+
+  // Generate the draft rosters of a facility between two dates (inclusive), replacing earlier drafts
+  static async generate(facilityId: ObjectIdLike, from: string, to: string, actor: IUser): Promise<RosterGenerationResult> {
+    const start = fromDateKey(from);
+    const end = fromDateKey(to);
+    const result: RosterGenerationResult = { days: [], skippedDates: [], unfilledSlots: [], nightShifts: [] };
+
+    const [schedules, requirements, existing, holidays] = await Promise.all([
+      ShiftSchedule.find({
+        facilityId,
+        isDeleted: false,
+        rosterDate: { $lte: end },
+        $or: [{ effectiveUntil: null }, { effectiveUntil: { $gte: start } }]
+      })
+        .sort({ rosterDate: -1, createdAt: -1 })
+        .lean<IShiftSchedule[]>(),
+      StaffingRequirement.find({ facilityId, isActive: true }).lean<IStaffingRequirement[]>(),
+      Roster.find({ facilityId, isDeleted: false, date: { $gte: start, $lt: new Date(end.getTime() + DAY_MS) } })
+        .select('date status')
+        .lean<IRoster[]>(),
+      HolidayCalendarService.getOccurrences(facilityId, start, end)
+    ]);
+
+    const employeeIds = [...new Set(schedules.map(schedule => schedule.employeeId.toString()))];
+    const [employees, leaves, weekoffs] = await Promise.all([
+      User.find({
+        _id: { $in: employeeIds },
+        isDeleted: false,
+        status: { $nin: [UserStatus.INACTIVE, UserStatus.SUSPENDED, UserStatus.BLOCKED] }
+      }).select('firstName lastName profile.department profile.address').lean<IUser[]>(),
+      LeavePlanner.find({
+        employeeId: { $in: employeeIds },
+        status: 'approved',
+        isDeleted: false,
+        startDate: { $lt: new Date(end.getTime() + DAY_MS) },
+        endDate: { $gte: start }
+      }).select('employeeId startDate endDate').lean<ILeavePlanner[]>(),
+      WeekoffPlanner.find({
+        employeeId: { $in: employeeIds },
+        status: 'approved',
+        isDeleted: false,
+        weekStartDate: { $lte: end },
+        weekEndDate: { $gte: start }
+      }).select('employeeId weekStartDate weekEndDate weekoffDays').lean<IWeekoffPlanner[]>()
+    ]);
+    const employeeById = new Map(employees.map(employee => [employee._id.toString(), employee]));
+
+    const nightCounts = await RosterGeneratorService.recentNightCounts(facilityId, start);
+    const generatedNights = new Map<string, number>();
+    const nightsOf = (employeeId: string): number => (nightCounts.get(employeeId) ?? 0) + (generatedNights.get(employeeId) ?? 0);
+
+    // Earlier drafts of the range are replaced; published rosters are left to the manager
+    const published = new Set(existing.filter(roster => roster.status !== RosterStatus.DRAFT).map(roster => toDateKey(roster.date)));
+    await Roster.updateMany(
+      { facilityId, isDeleted: false, status: RosterStatus.DRAFT, date: { $gte: start, $lt: new Date(end.getTime() + DAY_MS) } },
+      { isDeleted: true, updatedBy: actor._id }
+    );
+
+    for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+      const day = new Date(time);
+      const dateKey = toDateKey(day);
+      if (published.has(dateKey)) {
+        result.skippedDates.push({ date: dateKey, reason: 'A published roster already exists for this date' });
+        continue;
+      }
+      const weekday = WEEKDAY_NAMES[day.getUTCDay()];
+
+      // The latest schedule of each shift name defines the shift for employees without their own
+      const activeSchedules = schedules.filter(schedule => new Date(schedule.rosterDate) <= day
+        && (!schedule.effectiveUntil || new Date(schedule.effectiveUntil) >= day));
+      const shiftDefinitions = new Map<string, IShiftSchedule>();
+      for (const schedule of activeSchedules) {
+        if (!shiftDefinitions.has(schedule.shiftName)) shiftDefinitions.set(schedule.shiftName, schedule);
+      }
+
+      // Employees due to work and available, with the shifts their own schedules offer on this weekday
+      const unavailable: Record<UnavailabilityReason, number> = { leave: 0, weekoff: 0, holiday: 0 };
+      const options = new Map<string, IShiftSchedule[]>();
+      for (const schedule of activeSchedules) {
+        if (!(schedule.workingDays || []).some(workingDay => sameText(workingDay, weekday))) continue;
+        const employeeId = schedule.employeeId.toString();
+        if (!employeeById.has(employeeId)) continue;
+        options.set(employeeId, [...(options.get(employeeId) ?? []), schedule]);
+      }
+      for (const employeeId of [...options.keys()]) {
+        const reason = RosterGeneratorService.unavailability(employeeById.get(employeeId)!, day, { leaves, weekoffs, holidays });
+        if (reason) {
+          unavailable[reason]++;
+          options.delete(employeeId);
+        }
+      }
+
+      const dayRequirements = requirements
+        .filter(requirement => !requirement.days?.length || requirement.days.includes(weekday))
+        .sort((a, b) => {
+          const aNight = shiftDefinitions.has(a.shiftName) && RosterGeneratorService.isNightShift(shiftDefinitions.get(a.shiftName)!);
+          const bNight = shiftDefinitions.has(b.shiftName) && RosterGeneratorService.isNightShift(shiftDefinitions.get(b.shiftName)!);
+          return Number(bNight) - Number(aNight) || b.minHeadcount - a.minHeadcount;
+        });
+
+      const assignment = new Map<string, IShiftSchedule>();
+      const countsTowards = (employeeId: string, requirement: IStaffingRequirement): boolean =>
+        !requirement.department || sameText(employeeById.get(employeeId)!.profile?.department, requirement.department);
+      const headcount = (requirement: IStaffingRequirement): number => [...assignment.entries()]
+        .filter(([employeeId, schedule]) => schedule.shiftName === requirement.shiftName && countsTowards(employeeId, requirement))
+        .length;
+      const deficit = (shiftName: string): number => dayRequirements
+        .filter(requirement => requirement.shiftName === shiftName)
+        .reduce((total, requirement) => total + Math.max(requirement.minHeadcount - headcount(requirement), 0), 0);
+      // Whether moving the employee away keeps their current shift at its minimums
+      const canRelease = (employeeId: string): boolean => {
+        const current = assignment.get(employeeId)!;
+        return dayRequirements
+          .filter(requirement => requirement.shiftName === current.shiftName && countsTowards(employeeId, requirement))
+          .every(requirement => headcount(requirement) > requirement.minHeadcount);
+      };
+
+      // Employees with one shift first, then those who can work several, fewest night shifts first
+      const candidates = [...options.keys()].sort((a, b) =>
+        Number(new Set(options.get(a)!.map(schedule => schedule.shiftName)).size > 1)
+        - Number(new Set(options.get(b)!.map(schedule => schedule.shiftName)).size > 1)
+        || nightsOf(a) - nightsOf(b)
+      );
+      for (const employeeId of candidates) {
+        const choices = options.get(employeeId)!;
+        const choice = [...choices].sort((a, b) =>
+          deficit(b.shiftName) - deficit(a.shiftName)
+          || Number(RosterGeneratorService.isNightShift(a)) - Number(RosterGeneratorService.isNightShift(b))
+        )[0];
+        assignment.set(employeeId, choice);
+      }
+
+      // Meet the minimums by moving employees from shifts staffed above theirs
+      for (const requirement of dayRequirements) {
+        const definition = shiftDefinitions.get(requirement.shiftName);
+        if (!definition) continue;
+        const night = RosterGeneratorService.isNightShift(definition);
+
+        while (headcount(requirement) < requirement.minHeadcount) {
+          const donors = [...assignment.keys()]
+            .filter(employeeId => assignment.get(employeeId)!.shiftName !== requirement.shiftName
+              && countsTowards(employeeId, requirement)
+              && canRelease(employeeId));
+          if (donors.length === 0) break;
+
+          const ownSchedule = (employeeId: string): IShiftSchedule | undefined => activeSchedules.find(schedule =>
+            schedule.employeeId.toString() === employeeId && schedule.shiftName === requirement.shiftName
+          );
+          donors.sort((a, b) =>
+            Number(!!ownSchedule(b)) - Number(!!ownSchedule(a))
+            || (night ? nightsOf(a) - nightsOf(b) : nightsOf(b) - nightsOf(a))
+          );
+          assignment.set(donors[0], ownSchedule(donors[0]) ?? definition);
+        }
+      }
+
+      const unfilledSlots: IUnfilledSlot[] = dayRequirements
+        .map(requirement => ({
+          shiftName: requirement.shiftName,
+          department: requirement.department ?? null,
+          required: requirement.minHeadcount,
+          assigned: headcount(requirement)
+        }))
+        .filter(slot => slot.assigned < slot.required);
+
+      for (const [employeeId, schedule] of assignment) {
+        if (RosterGeneratorService.isNightShift(schedule)) {
+          generatedNights.set(employeeId, (generatedNights.get(employeeId) ?? 0) + 1);
+        }
+      }
+
+      const roster = await Roster.create({
+        facilityId,
+        date: day,
+        shifts: [...assignment.entries()]
+          .sort(([, a], [, b]) => a.startTime.localeCompare(b.startTime) || a.shiftName.localeCompare(b.shiftName))
+          .map(([employeeId, schedule]) => ({ shiftScheduleId: schedule._id, employeeId, status: 'scheduled' })),
+        status: RosterStatus.DRAFT,
+        generated: true,
+        unfilledSlots,
+        createdBy: actor._id,
+        updatedBy: actor._id
+      });
+
+      result.days.push({ date: dateKey, rosterId: roster._id as mongoose.Types.ObjectId, assigned: assignment.size, unavailable, unfilledSlots });
+      result.unfilledSlots.push(...unfilledSlots.map(slot => ({ date: dateKey, ...slot })));
+    }
+
+    result.nightShifts = [...generatedNights.entries()]
+      .map(([employeeId, count]) => {
+        const employee = employeeById.get(employeeId)!;
+        return { employeeId: employee._id, name: `${employee.firstName} ${employee.lastName}`, count };
+      })
+      .sort((a, b) => b.count - a.count);
+    return result;
+  }
+
+  // Publish the draft rosters of a facility between two dates (inclusive)
+  static async publish(facilityId: ObjectIdLike, from: string, to: string, actor: IUser): Promise<RosterPublicationResult> {
+    const range = { $gte: fromDateKey(from), $lt: new Date(fromDateKey(to).getTime() + DAY_MS) };
+    const rosters = await Roster.find({ facilityId, isDeleted: false, date: range }).select('date status').lean<IRoster[]>();
+
+    const publishedDates = new Set(rosters.filter(roster => roster.status !== RosterStatus.DRAFT).map(roster => toDateKey(roster.date)));
+    const drafts = rosters.filter(roster => roster.status === RosterStatus.DRAFT);
+    const publishable = drafts.filter(roster => !publishedDates.has(toDateKey(roster.date)));
+
+    if (publishable.length > 0) {
+      await Roster.updateMany(
+        { _id: { $in: publishable.map(roster => roster._id) } },
+        { status: RosterStatus.PUBLISHED, publishedBy: actor._id, publishedAt: new Date(), updatedBy: actor._id }
+      );
+    }
+    return {
+      published: publishable.length,
+      conflicts: drafts.filter(roster => publishedDates.has(toDateKey(roster.date))).map(roster => toDateKey(roster.date))
+    };
+  }
+
+  // Why an employee cannot be rostered on a day, or null when available
+  static unavailability(employee: IUser, day: Date, calendar: {
+    leaves: ILeavePlanner[];
+    weekoffs: IWeekoffPlanner[];
+    holidays: HolidayOccurrence[];
+  }): UnavailabilityReason | null {
+    const employeeId = employee._id.toString();
+    const dateKey = toDateKey(day);
+
+    const onLeave = calendar.leaves.some(leave => leave.employeeId.toString() === employeeId
+      && toDateKey(new Date(leave.startDate)) <= dateKey
+      && toDateKey(new Date(leave.endDate)) >= dateKey);
+    if (onLeave) return 'leave';
+
+    const onWeekoff = calendar.weekoffs.some(weekoff => weekoff.employeeId.toString() === employeeId
+      && toDateKey(new Date(weekoff.weekStartDate)) <= dateKey
+      && toDateKey(new Date(weekoff.weekEndDate)) >= dateKey
+      && (weekoff.weekoffDays || []).some(weekoffDay => sameText(weekoffDay, WEEKDAY_NAMES[day.getUTCDay()])));
+    if (onWeekoff) return 'weekoff';
+
+    const regions = HolidayCalendarService.regionsOf(employee);
+    const onHoliday = calendar.holidays.some(holiday => holiday.date === dateKey && HolidayCalendarService.isDayOff(holiday, regions));
+    return onHoliday ? 'holiday' : null;
+  }
+
+  // Night shifts per employee in the published rosters of the weeks before a date
+  private static async recentNightCounts(facilityId: ObjectIdLike, before: Date): Promise<Map<string, number>> {
+    const rosters = await Roster.find({
+      facilityId,
+      isDeleted: false,
+      status: { $ne: RosterStatus.DRAFT },
+      date: { $gte: new Date(before.getTime() - NIGHT_HISTORY_DAYS * DAY_MS), $lt: before }
+    }).select('shifts').lean<IRoster[]>();
+
+    const entries = rosters.flatMap(roster => roster.shifts);
+    const schedules = await ShiftSchedule.find({ _id: { $in: entries.map(entry => entry.shiftScheduleId) } })
+      .select('startTime endTime')
+      .lean<IShiftSchedule[]>();
+    const nightScheduleIds = new Set(schedules
+      .filter(schedule => RosterGeneratorService.isNightShift(schedule))
+      .map(schedule => String(schedule._id)));
+
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      if (nightScheduleIds.has(entry.shiftScheduleId.toString())) {
+        const employeeId = entry.employeeId.toString();
+        counts.set(employeeId, (counts.get(employeeId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,218 @@
+import mongoose from 'mongoose';
+import cron from 'node-cron';
+import { config } from '../config';
+import { IRotationAssignment, RotationAssignment } from '../models/RotationAssignment';
+import { IRotationPattern, RotationPattern } from '../models/RotationPattern';
+import { IShiftSchedule, ShiftSchedule } from '../models/ShiftSchedule';
+import { IShiftTemplate, ShiftTemplate } from '../models/ShiftTemplate';
+import { logger } from '../utils/logger';
+import { ShiftSwapService } from './shiftSwap.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export interface MaterializationResult {
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Schedules are calendar dates, compared in UTC
+const startOfDay = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Shift templates and rotation patterns are materialized into one-day shift schedules (rosterDate and
+ * effectiveUntil on the same date) for every employee of a rotation assignment, up to a rolling horizon
+ * (SHIFT_ROTATION_HORIZON_DAYS). Attendance and roster generation keep reading shift schedules only.
+ * Past dates are never rewritten, so attendance history keeps the shift it was recorded against, and neither are
+ * the dates an approved shift swap changed for an employee.
+ */
+export class ShiftRotationService {
+  static cycleLength(pattern: Pick<IRotationPattern, 'steps'>): number {
+    return pattern.steps.reduce((total, step) => total + step.days, 0);
+  }
+
+  // Template of the shift worked on a date under an assignment, or null on a day off
+  static templateOn(pattern: Pick<IRotationPattern, 'steps'>, assignment: Pick<IRotationAssignment, 'startDate' | 'startOffset'>, date: Date): mongoose.Types.ObjectId | null {
+    const length = ShiftRotationService.cycleLength(pattern);
+    const elapsed = Math.round((startOfDay(date).getTime() - startOfDay(assignment.startDate).getTime()) / DAY_MS);
+    let position = (((elapsed + (assignment.startOffset || 0)) % length) + length) % length;
+    for (const step of pattern.steps) {
+      if (position < step.days) {
+        return step.shiftTemplateId;
+      }
+      position -= step.days;
+    }
+    return null;
+  }
+
+  // Horizon up to which schedules are kept materialized
+  static horizon(now = new Date()): Date {
+    return new Date(startOfDay(now).getTime() + config.SHIFT_ROTATION_HORIZON_DAYS * DAY_MS);
+  }
+
+  /**
+   * Bring the future schedules of an assignment in line with its pattern, from today up to a date (by default
+   * the horizon, or the date it was already materialized to when further). Schedules of dates that became days
+   * off, of employees removed from the assignment and of dates after its end are removed.
+   */
+  static async materialize(assignment: IRotationAssignment, actorId: ObjectIdLike, until?: Date): Promise<MaterializationResult> {
+    const result: MaterializationResult = { created: 0, updated: 0, removed: 0 };
+    const today = startOfDay(new Date());
+    const from = new Date(Math.max(today.getTime(), startOfDay(assignment.startDate).getTime()));
+    const horizon = ShiftRotationService.horizon();
+    let to = startOfDay(until ?? (assignment.materializedUntil && assignment.materializedUntil > horizon ? assignment.materializedUntil : horizon));
+    if (assignment.endDate && startOfDay(assignment.endDate) < to) {
+      to = startOfDay(assignment.endDate);
+    }
+    const active = assignment.isActive && !assignment.isDeleted;
+
+    const existing = await ShiftSchedule.find({
+      rotationAssignmentId: assignment._id,
+      isDeleted: false,
+      rosterDate: { $gte: today }
+    });
+    const existingByKey = new Map(existing.map(schedule => [`${schedule.employeeId}|${toDateKey(schedule.rosterDate)}`, schedule]));
+    const keep = await ShiftSwapService.swappedDays(assignment.employeeIds, today);
+
+    const pattern = active ? await RotationPattern.findOne({ _id: assignment.rotationPatternId, isDeleted: false }).lean<IRotationPattern>() : null;
+    if (pattern && from <= to) {
+      const templates = await ShiftTemplate.find({
+        _id: { $in: pattern.steps.map(step => step.shiftTemplateId).filter(Boolean) },
+        isDeleted: false
+      }).lean<IShiftTemplate[]>();
+      const templateById = new Map(templates.map(template => [String(template._id), template]));
+
+      for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+        const date = new Date(time);
+        const templateId = ShiftRotationService.templateOn(pattern, assignment, date);
+        const template = templateId ? templateById.get(templateId.toString()) : undefined;
+        if (!template) continue;
+
+        const fields = {
+          shiftName: template.name,
+          startTime: template.startTime,
+          endTime: template.endTime,
+          breakDuration: template.breakDuration,
+          shiftTemplateId: template._id
+        };
+        for (const employeeId of assignment.employeeIds) {
+          const key = `${employeeId}|${toDateKey(date)}`;
+          if (keep.has(key)) continue;
+          keep.add(key);
+          const schedule = existingByKey.get(key);
+          if (!schedule) {
+            await ShiftSchedule.create({
+              ...fields,
+              facilityId: assignment.facilityId,
+              employeeId,
+              workingDays: [WEEKDAYS[date.getUTCDay()]],
+              rosterDate: date,
+              effectiveUntil: date,
+              rotationAssignmentId: assignment._id,
+              createdBy: actorId,
+              updatedBy: actorId
+            });
+            result.created++;
+          } else if (ShiftRotationService.differs(schedule, fields)) {
+            schedule.set({ ...fields, updatedBy: actorId });
+            await schedule.save();
+            result.updated++;
+          }
+        }
+      }
+    }
+
+    const stale = existing.filter(schedule => !keep.has(`${schedule.employeeId}|${toDateKey(schedule.rosterDate)}`));
+    if (stale.length > 0) {
+      await ShiftSchedule.updateMany(
+        { _id: { $in: stale.map(schedule => schedule._id) } },
+        { isDeleted: true, updatedBy: actorId }
+      );
+      result.removed = stale.length;
+    }
+
+    assignment.materializedUntil = active && pattern && from <= to ? to : null;
+    await RotationAssignment.updateOne({ _id: assignment._id }, { materializedUntil: assignment.materializedUntil });
+    return result;
+  }
+
+  // Re-materialize the assignments following a pattern after it changed
+  static async rematerializePattern(patternId: ObjectIdLike, actorId: ObjectIdLike): Promise<MaterializationResult> {
+    const assignments = await RotationAssignment.find({ rotationPatternId: patternId, isActive: true, isDeleted: false });
+    const total: MaterializationResult = { created: 0, updated: 0, removed: 0 };
+    for (const assignment of assignments) {
+      const result = await ShiftRotationService.materialize(assignment, actorId);
+      total.created += result.created;
+      total.updated += result.updated;
+      total.removed += result.removed;
+    }
+    return total;
+  }
+
+  // Apply a template change to the schedules of today and later dates materialized from it
+  static async propagateTemplate(template: IShiftTemplate, actorId: ObjectIdLike): Promise<number> {
+    const result = await ShiftSchedule.updateMany(
+      { shiftTemplateId: template._id, isDeleted: false, rosterDate: { $gte: startOfDay(new Date()) } },
+      {
+        shiftName: template.name,
+        startTime: template.startTime,
+        endTime: template.endTime,
+        breakDuration: template.breakDuration,
+        updatedBy: actorId
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  // Extend every active assignment up to the horizon
+  static async materializeAll(): Promise<MaterializationResult> {
+    const horizon = ShiftRotationService.horizon();
+    const assignments = await RotationAssignment.find({
+      isActive: true,
+      isDeleted: false,
+      $and: [
+        { $or: [{ materializedUntil: null }, { materializedUntil: { $lt: horizon } }] },
+        { $or: [{ endDate: null }, { endDate: { $gte: startOfDay(new Date()) } }] }
+      ]
+    });
+
+    const total: MaterializationResult = { created: 0, updated: 0, removed: 0 };
+    for (const assignment of assignments) {
+      const result = await ShiftRotationService.materialize(assignment, assignment.updatedBy, horizon);
+      total.created += result.created;
+      total.updated += result.updated;
+      total.removed += result.removed;
+    }
+    return total;
+  }
+
+  private static differs(schedule: IShiftSchedule, fields: Pick<IShiftSchedule, 'shiftName' | 'startTime' | 'endTime' | 'breakDuration'> & { shiftTemplateId: unknown }): boolean {
+    return schedule.shiftName !== fields.shiftName
+      || schedule.startTime !== fields.startTime
+      || schedule.endTime !== fields.endTime
+      || schedule.breakDuration !== fields.breakDuration
+      || String(schedule.shiftTemplateId) !== String(fields.shiftTemplateId);
+  }
+
+  // Keep rotation schedules materialized up to the horizon (SHIFT_ROTATION_CRON)
+  static startMaterializeJob(): void {
+    if (!config.SHIFT_ROTATION_CRON || config.NODE_ENV === 'test') {
+      return;
+    }
+
+    cron.schedule(config.SHIFT_ROTATION_CRON, () => {
+      ShiftRotationService.materializeAll()
+        .then(({ created, removed }) => {
+          if (created + removed > 0) {
+            logger.info(`Shift rotations: ${created} schedules created and ${removed} removed`);
+          }
+        })
+        .catch(error => logger.error('Shift rotation materialization failed:', error));
+    });
+    logger.info(`Shift rotation materialization scheduled (${config.SHIFT_ROTATION_CRON})`);
+  }
+}
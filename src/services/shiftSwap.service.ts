@@ -0,0 +1,273 @@
+import mongoose from 'mongoose';
+import { ILeavePlanner, LeavePlanner } from '../models/LeavePlanner';
+import { IRoster, Roster, RosterStatus } from '../models/Roster';
+import { IShiftSchedule, ShiftSchedule } from '../models/ShiftSchedule';
+import { IShiftSwapRequest, ISwapShift, ShiftSwapRequest, ShiftSwapType } from '../models/ShiftSwapRequest';
+import { IStaffingRequirement, StaffingRequirement, WEEKDAY_NAMES } from '../models/StaffingRequirement';
+import { IUser, User } from '../models/User';
+import { IWeekoffPlanner, WeekoffPlanner } from '../models/WeekoffPlanner';
+import { AttendanceService } from './attendance.service';
+import { HolidayCalendarService } from './holidayCalendar.service';
+import { LabourRuleService } from './labourRule.service';
+import { RosterGeneratorService } from './rosterGenerator.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// A roster entry changing hands when a swap is applied
+interface ShiftMove {
+  from: mongoose.Types.ObjectId;
+  to: mongoose.Types.ObjectId;
+  shift: ISwapShift;
+}
+
+// Raised inside the transaction to roll back a swap whose roster changed meanwhile
+class SwapConflict extends Error {}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+const sameText = (a?: string | null, b?: string | null): boolean => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+const nameOf = (user?: IUser): string => (user ? `${user.firstName} ${user.lastName}` : 'The employee');
+
+/**
+ * Shift swaps and covers between employees. A cover hands the requester's roster entry to the counterpart; a swap
+ * also hands the counterpart's entry to the requester. A swap is checked when proposed, accepted and approved:
+ * the shifts must still be on a published roster and not have started, nobody may take a shift on a day of leave,
+ * week-off or holiday, the swapped rosters must not break the facility's labour rules (hours, rest periods, night
+ * streaks) and no shift may drop below its staffing minimums.
+ */
+export class ShiftSwapService {
+  // Swap-ready description of a roster entry, or null when it or its schedule no longer exists
+  static async describeShift(roster: IRoster, rosterEntryId: ObjectIdLike, timezone: string): Promise<ISwapShift | null> {
+    const entry = roster.shifts.find((shift: any) => shift._id.toString() === rosterEntryId.toString());
+    if (!entry) {
+      return null;
+    }
+    const schedule = await ShiftSchedule.findOne({ _id: entry.shiftScheduleId, isDeleted: false }).lean<IShiftSchedule>();
+    if (!schedule) {
+      return null;
+    }
+
+    const date = fromDateKey(toDateKey(roster.date));
+    return {
+      rosterId: roster._id as mongoose.Types.ObjectId,
+      rosterEntryId: new mongoose.Types.ObjectId(rosterEntryId.toString()),
+      shiftScheduleId: schedule._id as mongoose.Types.ObjectId,
+      date,
+      scheduledStart: AttendanceService.shiftWindow(schedule, toDateKey(date), timezone).start
+    };
+  }
+
+  static moves(swap: Pick<IShiftSwapRequest, 'type' | 'employeeId' | 'counterpartId' | 'shift' | 'counterpartShift'>): ShiftMove[] {
+    const moves: ShiftMove[] = [{ from: swap.employeeId, to: swap.counterpartId, shift: swap.shift }];
+    if (swap.type === ShiftSwapType.SWAP && swap.counterpartShift) {
+      moves.push({ from: swap.counterpartId, to: swap.employeeId, shift: swap.counterpartShift });
+    }
+    return moves;
+  }
+
+  // Reasons the swap cannot be carried out as things stand; empty when it can
+  static async getBlockers(swap: IShiftSwapRequest, now = new Date()): Promise<string[]> {
+    const moves = ShiftSwapService.moves(swap);
+    const [rosters, users] = await Promise.all([
+      Roster.find({ _id: { $in: moves.map(move => move.shift.rosterId) }, isDeleted: false }).lean<IRoster[]>(),
+      User.find({ _id: { $in: [swap.employeeId, swap.counterpartId] } })
+        .select('firstName lastName profile.department profile.address')
+        .lean<IUser[]>()
+    ]);
+    const userById = new Map(users.map(user => [user._id.toString(), user]));
+
+    const blockers: string[] = [];
+    for (const move of moves) {
+      const dateKey = toDateKey(move.shift.date);
+      const roster = rosters.find(candidate => candidate._id.toString() === move.shift.rosterId.toString());
+      const entry = roster?.shifts.find((shift: any) => shift._id.toString() === move.shift.rosterEntryId.toString());
+      if (!roster || !entry) {
+        blockers.push(`The shift of ${dateKey} is no longer on the roster`);
+      } else if (roster.status === RosterStatus.DRAFT) {
+        blockers.push(`The roster of ${dateKey} is not published`);
+      } else if (entry.employeeId.toString() !== move.from.toString()) {
+        blockers.push(`The shift of ${dateKey} is no longer assigned to ${nameOf(userById.get(move.from.toString()))}`);
+      } else if (move.shift.scheduledStart <= now) {
+        blockers.push(`The shift of ${dateKey} has already started`);
+      }
+    }
+    if (blockers.length > 0) {
+      return blockers;
+    }
+
+    blockers.push(...await ShiftSwapService.availabilityBlockers(swap.facilityId, moves, userById));
+    blockers.push(...await ShiftSwapService.labourBlockers(swap.facilityId, moves, rosters));
+    blockers.push(...await ShiftSwapService.staffingBlockers(swap.facilityId, moves, rosters));
+    return blockers;
+  }
+
+  /**
+   * Hand the roster entries over and move the one-day shift schedules behind them (e.g. those materialized from a
+   * rotation) in a single transaction, and save the swap with them. Open-ended schedules are left alone: the roster
+   * decides who works on the day.
+   * @returns false when a roster entry changed hands meanwhile; nothing is written then
+   */
+  static async apply(swap: IShiftSwapRequest, actor: IUser): Promise<boolean> {
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        for (const move of ShiftSwapService.moves(swap)) {
+          const result = await Roster.updateOne(
+            {
+              _id: move.shift.rosterId,
+              isDeleted: false,
+              shifts: { $elemMatch: { _id: move.shift.rosterEntryId, employeeId: move.from } }
+            },
+            {
+              $set: {
+                'shifts.$.employeeId': move.to,
+                'shifts.$.remarks': `${swap.type === ShiftSwapType.SWAP ? 'Swapped' : 'Covered'} (shift swap ${swap._id})`,
+                updatedBy: actor._id
+              }
+            },
+            { session }
+          );
+          if (result.modifiedCount !== 1) {
+            throw new SwapConflict();
+          }
+
+          await ShiftSchedule.updateOne(
+            { _id: move.shift.shiftScheduleId, employeeId: move.from, effectiveUntil: move.shift.date, isDeleted: false },
+            { employeeId: move.to, updatedBy: actor._id },
+            { session }
+          );
+        }
+        await swap.save({ session });
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof SwapConflict) {
+        return false;
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  // Employee and date pairs changed by approved swaps from a date on; rotations leave them as swapped
+  static async swappedDays(employeeIds: ObjectIdLike[], from: Date): Promise<Set<string>> {
+    const swaps = await ShiftSwapRequest.find({
+      status: 'approved',
+      isDeleted: false,
+      $and: [
+        { $or: [{ employeeId: { $in: employeeIds } }, { counterpartId: { $in: employeeIds } }] },
+        { $or: [{ 'shift.date': { $gte: from } }, { 'counterpartShift.date': { $gte: from } }] }
+      ]
+    }).select('type employeeId counterpartId shift counterpartShift').lean<IShiftSwapRequest[]>();
+
+    const days = new Set<string>();
+    for (const swap of swaps) {
+      for (const move of ShiftSwapService.moves(swap)) {
+        days.add(`${move.from}|${toDateKey(move.shift.date)}`);
+        days.add(`${move.to}|${toDateKey(move.shift.date)}`);
+      }
+    }
+    return days;
+  }
+
+  // Nobody takes a shift on a day of approved leave, week-off or holiday
+  private static async availabilityBlockers(facilityId: ObjectIdLike, moves: ShiftMove[], userById: Map<string, IUser>): Promise<string[]> {
+    const dates = moves.map(move => move.shift.date.getTime());
+    const start = new Date(Math.min(...dates));
+    const end = new Date(Math.max(...dates));
+    const employeeIds = moves.map(move => move.to);
+
+    const [leaves, weekoffs, holidays] = await Promise.all([
+      LeavePlanner.find({
+        employeeId: { $in: employeeIds },
+        status: 'approved',
+        isDeleted: false,
+        startDate: { $lt: new Date(end.getTime() + DAY_MS) },
+        endDate: { $gte: start }
+      }).select('employeeId startDate endDate').lean<ILeavePlanner[]>(),
+      WeekoffPlanner.find({
+        employeeId: { $in: employeeIds },
+        status: 'approved',
+        isDeleted: false,
+        weekStartDate: { $lte: end },
+        weekEndDate: { $gte: start }
+      }).select('employeeId weekStartDate weekEndDate weekoffDays').lean<IWeekoffPlanner[]>(),
+      HolidayCalendarService.getOccurrences(facilityId, start, end)
+    ]);
+
+    const blockers: string[] = [];
+    for (const move of moves) {
+      const employee = userById.get(move.to.toString());
+      if (!employee) {
+        blockers.push('The employee taking the shift was not found');
+        continue;
+      }
+      const reason = RosterGeneratorService.unavailability(employee, move.shift.date, { leaves, weekoffs, holidays });
+      if (reason) {
+        const label = { leave: 'on leave', weekoff: 'on a week-off', holiday: 'off for a holiday' }[reason];
+        blockers.push(`${nameOf(employee)} is ${label} on ${toDateKey(move.shift.date)}`);
+      }
+    }
+    return blockers;
+  }
+
+  // The rosters as they would be after the swap must not break the facility's labour rules for either employee
+  private static async labourBlockers(facilityId: ObjectIdLike, moves: ShiftMove[], rosters: IRoster[]): Promise<string[]> {
+    const swapped = rosters.map(roster => ({
+      ...roster,
+      shifts: roster.shifts.map((entry: any) => {
+        const move = moves.find(candidate => candidate.shift.rosterEntryId.toString() === entry._id.toString());
+        return move ? { ...entry, employeeId: move.to } : entry;
+      })
+    }) as IRoster);
+
+    const labour = await LabourRuleService.checkRosters(facilityId, swapped, moves.map(move => move.to));
+    return labour.blocked ? [LabourRuleService.describe(labour.introduced)] : [];
+  }
+
+  // Headcounts may change (e.g. a cover by someone of another department) but never fall below a minimum
+  private static async staffingBlockers(facilityId: ObjectIdLike, moves: ShiftMove[], rosters: IRoster[]): Promise<string[]> {
+    const requirements = await StaffingRequirement.find({ facilityId, isActive: true }).lean<IStaffingRequirement[]>();
+    if (requirements.length === 0) {
+      return [];
+    }
+
+    const entries = rosters.flatMap(roster => roster.shifts);
+    const [schedules, employees] = await Promise.all([
+      ShiftSchedule.find({ _id: { $in: entries.map(entry => entry.shiftScheduleId) } }).select('shiftName').lean<IShiftSchedule[]>(),
+      User.find({ _id: { $in: [...entries.map(entry => entry.employeeId), ...moves.map(move => move.to)] } })
+        .select('profile.department')
+        .lean<IUser[]>()
+    ]);
+    const shiftNameOf = new Map(schedules.map(schedule => [String(schedule._id), schedule.shiftName]));
+    const departmentOf = new Map(employees.map(employee => [employee._id.toString(), employee.profile?.department]));
+
+    const blockers: string[] = [];
+    for (const roster of rosters) {
+      const weekday = WEEKDAY_NAMES[new Date(roster.date).getUTCDay()];
+      const dayRequirements = requirements.filter(requirement => !requirement.days?.length || requirement.days.includes(weekday));
+
+      const before = roster.shifts.map((entry: any) => ({ shiftScheduleId: entry.shiftScheduleId, employeeId: entry.employeeId }));
+      const after = roster.shifts.map((entry: any) => {
+        const move = moves.find(candidate => candidate.shift.rosterEntryId.toString() === entry._id.toString());
+        return { shiftScheduleId: entry.shiftScheduleId, employeeId: move ? move.to : entry.employeeId };
+      });
+      const headcount = (assigned: typeof before, requirement: IStaffingRequirement): number => assigned
+        .filter(entry => shiftNameOf.get(entry.shiftScheduleId.toString()) === requirement.shiftName
+          && (!requirement.department || sameText(departmentOf.get(entry.employeeId.toString()), requirement.department)))
+        .length;
+
+      for (const requirement of dayRequirements) {
+        const remaining = headcount(after, requirement);
+        if (remaining < requirement.minHeadcount && remaining < headcount(before, requirement)) {
+          const department = requirement.department ? ` (${requirement.department})` : '';
+          blockers.push(`The ${requirement.shiftName} shift${department} of ${toDateKey(new Date(roster.date))} would drop to ${remaining} of the ${requirement.minHeadcount} employees it needs`);
+        }
+      }
+    }
+    return blockers;
+  }
+}
@@ -0,0 +1,135 @@
+import fs from 'fs/promises';
+import jwt from 'jsonwebtoken';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface StoredFile {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface SignedUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+// A backend keeps files under keys such as checklist-photos/<facility>/<checklist>/<photo>.jpg
+export interface StorageBackend {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredFile | null>; // null when there is no such file
+  remove(key: string): Promise<void>;
+  getSignedUrl(key: string): Promise<SignedUrl>; // URL that serves the file to anyone holding it until it expires
+}
+
+// Payload of a signed URL of the local backend
+interface StorageUrlPayload {
+  key: string;
+  purpose: 'storage';
+  exp: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf'
+};
+
+// Keys are relative paths of plain segments; anything that could leave the storage root is refused
+const isValidKey = (key: string): boolean =>
+  /^[a-zA-Z0-9][a-zA-Z0-9._-]*(\/[a-zA-Z0-9][a-zA-Z0-9._-]*)*$/.test(key) && !key.split('/').includes('..');
+
+/**
+ * Keeps files in a directory on this server's disk. Signed URLs point at GET /api/storage/{token}, where the token
+ * is signed with the server secret and names the file and the time it expires.
+ */
+const createLocalBackend = (root: string): StorageBackend => {
+  const resolve = (key: string): string => {
+    if (!isValidKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+    async get(key) {
+      try {
+        const data = await fs.readFile(resolve(key));
+        return { data, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream' };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async remove(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+    async getSignedUrl(key) {
+      resolve(key);
+      const token = jwt.sign({ key, purpose: 'storage' }, config.JWT_SECRET, {
+        expiresIn: config.STORAGE_URL_EXPIRES_IN
+      } as jwt.SignOptions);
+      const { exp } = jwt.decode(token) as StorageUrlPayload;
+      return { url: `/api/storage/${token}`, expiresAt: new Date(exp * 1000) };
+    }
+  };
+};
+
+export class StorageService {
+  private static backend: StorageBackend | null = null;
+
+  // Resolve the configured backend once
+  private static getBackend(): StorageBackend {
+    if (!StorageService.backend) {
+      StorageService.backend = createLocalBackend(config.STORAGE_LOCAL_DIR);
+      logger.info(`File storage using ${StorageService.backend.name} backend`);
+    }
+    return StorageService.backend;
+  }
+
+  // Replace the backend (e.g. with an in-memory one in tests)
+  static setBackend(backend: StorageBackend | null): void {
+    StorageService.backend = backend;
+  }
+
+  static async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await StorageService.getBackend().put(key, data, contentType);
+  }
+
+  static async get(key: string): Promise<StoredFile | null> {
+    return StorageService.getBackend().get(key);
+  }
+
+  // Remove files, logging instead of failing so that a missing file never blocks the caller
+  static async remove(...keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await StorageService.getBackend().remove(key)
+        .catch(error => logger.error(`Could not remove stored file ${key}:`, error));
+    }
+  }
+
+  static async getSignedUrl(key: string): Promise<SignedUrl> {
+    return StorageService.getBackend().getSignedUrl(key);
+  }
+
+  // Key named by a signed URL of the local backend; null when the token is forged or expired
+  static readUrlToken(token: string): string | null {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET) as StorageUrlPayload;
+      return decoded.purpose === 'storage' && typeof decoded.key === 'string' && isValidKey(decoded.key) ? decoded.key : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
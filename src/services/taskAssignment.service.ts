@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import cron from 'node-cron';
+import { config } from '../config';
+import { FloorLocation, IFloorLocation } from '../models/FloorLocation';
+import { ITaskAssignment, OPEN_TASK_STATUSES, TaskAssignment, TaskStatus } from '../models/TaskAssignment';
+import { ITaskCompletion, TaskCompletion } from '../models/TaskCompletion';
+import { IUser } from '../models/User';
+import { logger } from '../utils/logger';
+import { FloorLocationQrService } from './floorLocationQr.service';
+
+export interface FloorScanCheck {
+  verified: boolean;
+  reason?: string; // Why the scan does not prove presence at the task's floor
+  floorLocation?: IFloorLocation;
+}
+
+// Proof of work recorded with a completion
+export interface CompletionProof {
+  qrCode: string;
+  notes?: string;
+  gpsLocation?: { latitude: number; longitude: number };
+  deviceInfo?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Checklist tasks assigned to employees per floor location. A task can only be completed by scanning the QR code
+ * of its floor, and the completion keeps the scan with the device's location, device and IP address as proof of
+ * work. Open tasks whose due date has passed are marked overdue by a scheduled job.
+ */
+export class TaskAssignmentService {
+  // Check that a scanned code is the QR code of the task's floor location
+  static async verifyFloorScan(task: ITaskAssignment, qrCode: string): Promise<FloorScanCheck> {
+    const floorLocation = await FloorLocation.findOne({ _id: task.floorLocationId, isDeleted: false });
+    if (!floorLocation || !floorLocation.isActive) {
+      return { verified: false, reason: 'The floor location of this task is no longer active' };
+    }
+    const scanned = await FloorLocationQrService.resolve(qrCode, { facilityId: task.facilityId });
+    if (!scanned || !scanned._id.equals(floorLocation._id)) {
+      return { verified: false, reason: `This is not the current QR code of ${floorLocation.floorName}; scan the code at the task's floor` };
+    }
+    return { verified: true, floorLocation };
+  }
+
+  /**
+   * Complete a task and record its proof of work in a single transaction.
+   * @returns null when the task was completed meanwhile; nothing is written then
+   */
+  static async complete(task: ITaskAssignment, proof: CompletionProof, actor: IUser): Promise<ITaskCompletion | null> {
+    const completedAt = new Date();
+    const session = await mongoose.startSession();
+    try {
+      let completion: ITaskCompletion | null = null;
+      await session.withTransaction(async () => {
+        const updated = await TaskAssignment.findOneAndUpdate(
+          { _id: task._id, isDeleted: false, status: { $in: OPEN_TASK_STATUSES } },
+          { $set: { status: TaskStatus.COMPLETED, completedAt, updatedBy: actor._id } },
+          { new: true, session }
+        );
+        if (!updated) return;
+
+        [completion] = await TaskCompletion.create([{
+          taskAssignmentId: task._id,
+          employeeId: actor._id,
+          floorLocationId: task.floorLocationId,
+          qrCodeScanned: proof.qrCode,
+          completedAt,
+          completionNotes: proof.notes,
+          gpsLocation: proof.gpsLocation,
+          deviceInfo: proof.deviceInfo,
+          ipAddress: proof.ipAddress,
+          createdBy: actor._id,
+          updatedBy: actor._id
+        }], { session });
+        task.set(updated.toObject());
+      });
+      return completion;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  // Mark open tasks whose due date has passed as overdue
+  static async markOverdue(now = new Date()): Promise<number> {
+    const result = await TaskAssignment.updateMany(
+      { isDeleted: false, status: { $in: [TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS] }, dueDate: { $lt: now } },
+      { $set: { status: TaskStatus.OVERDUE } }
+    );
+    return result.modifiedCount;
+  }
+
+  // Schedule the overdue marking (TASK_OVERDUE_CRON)
+  static startOverdueJob(): void {
+    if (!config.TASK_OVERDUE_CRON || config.NODE_ENV === 'test') {
+      return;
+    }
+
+    cron.schedule(config.TASK_OVERDUE_CRON, () => {
+      TaskAssignmentService.markOverdue()
+        .then(count => {
+          if (count > 0) {
+            logger.info(`Tasks: marked ${count} overdue`);
+          }
+        })
+        .catch(error => logger.error('Overdue task marking failed:', error));
+    });
+    logger.info(`Overdue task marking scheduled (${config.TASK_OVERDUE_CRON})`);
+  }
+}
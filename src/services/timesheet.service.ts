@@ -0,0 +1,333 @@
+import mongoose from 'mongoose';
+import { Attendance, AttendanceStatus, IAttendance } from '../models/Attendance';
+import { ILabourRules } from '../models/LabourRules';
+import { IShiftSchedule, ShiftSchedule } from '../models/ShiftSchedule';
+import {
+  ITimesheet,
+  ITimesheetEntry,
+  ITimesheetRules,
+  ITimesheetTotals,
+  OvertimeKind,
+  Timesheet,
+  TimesheetPeriod,
+  TimesheetStatus
+} from '../models/Timesheet';
+import { IUser, User } from '../models/User';
+import { AttendanceService } from './attendance.service';
+import { HolidayCalendarService, HolidayOccurrence } from './holidayCalendar.service';
+import { LabourRuleService } from './labourRule.service';
+import { RosterGeneratorService } from './rosterGenerator.service';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export interface TimesheetGenerationResult {
+  periodStart: string;
+  periodEnd: string;
+  created: number;
+  updated: number;
+  signedOff: string[]; // Employees whose timesheet is already signed off and was left as is
+  timesheets: ITimesheet[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00.000Z`);
+const addDays = (dateKey: string, days: number): string => toDateKey(new Date(fromDateKey(dateKey).getTime() + days * DAY_MS));
+const weekStart = (dateKey: string): string => addDays(dateKey, -((fromDateKey(dateKey).getUTCDay() + 6) % 7));
+const toHours = (minutes: number): number => Math.round(minutes / 60 * 100) / 100;
+const sum = (entries: ITimesheetEntry[], value: (entry: ITimesheetEntry) => number): number =>
+  entries.reduce((total, entry) => total + value(entry), 0);
+
+const CSV_COLUMNS: [string, (timesheet: any) => unknown][] = [
+  ['Employee code', timesheet => timesheet.employeeId?.profile?.employeeId],
+  ['Employee', timesheet => [timesheet.employeeId?.firstName, timesheet.employeeId?.lastName].filter(Boolean).join(' ')],
+  ['Email', timesheet => timesheet.employeeId?.email],
+  ['Facility', timesheet => timesheet.facilityId?.siteName],
+  ['Period', timesheet => timesheet.period],
+  ['Period start', timesheet => toDateKey(timesheet.periodStart)],
+  ['Period end', timesheet => toDateKey(timesheet.periodEnd)],
+  ['Status', timesheet => timesheet.status],
+  ['Shifts', timesheet => timesheet.totals.shifts],
+  ['Contracted hours', timesheet => timesheet.totals.contractedHours],
+  ['Scheduled hours', timesheet => timesheet.totals.scheduledHours],
+  ['Worked hours', timesheet => timesheet.totals.workedHours],
+  ['Regular hours', timesheet => timesheet.totals.regularHours],
+  ['Overtime hours', timesheet => timesheet.totals.overtimeHours],
+  ['Standard overtime hours', timesheet => timesheet.totals.standardOvertimeHours],
+  ['Night overtime hours', timesheet => timesheet.totals.nightOvertimeHours],
+  ['Holiday overtime hours', timesheet => timesheet.totals.holidayOvertimeHours],
+  ['Weighted overtime hours', timesheet => timesheet.totals.weightedOvertimeHours],
+  ['Late days', timesheet => timesheet.totals.lateDays],
+  ['Late minutes', timesheet => timesheet.totals.lateMinutes],
+  ['Early exit minutes', timesheet => timesheet.totals.earlyExitMinutes],
+  ['Absences', timesheet => timesheet.totals.absences],
+  ['Leave days', timesheet => timesheet.totals.leaveDays],
+  ['Signed off by', timesheet => [timesheet.signedOffBy?.firstName, timesheet.signedOffBy?.lastName].filter(Boolean).join(' ')],
+  ['Signed off at', timesheet => timesheet.signedOffAt?.toISOString()]
+];
+
+// Quote a CSV field; text starting like a formula is prefixed so spreadsheets do not evaluate it
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Timesheets of employees, computed from their attendance records against the shifts they were scheduled for.
+ * Worked time is check-in to check-out minus the shift's break. Hours worked on a holiday that applies to the
+ * employee are all overtime; other hours become overtime beyond the facility's daily and weekly overtime
+ * thresholds (LabourRules), weeks running Monday to Sunday and hours counting on the day the shift starts.
+ * Overtime is paid at the overtime, night overtime or holiday multiplier of the facility.
+ */
+export class TimesheetService {
+  // First and last day of the week or month a date falls in
+  static periodOf(period: TimesheetPeriod, dateKey: string): { start: string; end: string } {
+    if (period === TimesheetPeriod.WEEKLY) {
+      const start = weekStart(dateKey);
+      return { start, end: addDays(start, 6) };
+    }
+    const date = fromDateKey(dateKey);
+    return {
+      start: toDateKey(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))),
+      end: toDateKey(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)))
+    };
+  }
+
+  /**
+   * Generate the timesheets of a facility for the week or month a date falls in, one per employee with
+   * attendance in it. Shifts that ended without a check-in are marked absent (or on leave) first. Draft
+   * timesheets are recomputed; signed-off ones are left as they are.
+   */
+  static async generate(
+    facilityId: ObjectIdLike,
+    period: TimesheetPeriod,
+    dateKey: string,
+    actor: IUser,
+    options: { employeeIds?: string[]; now?: Date } = {}
+  ): Promise<TimesheetGenerationResult> {
+    const now = options.now ?? new Date();
+    const { start, end } = TimesheetService.periodOf(period, dateKey);
+    const result: TimesheetGenerationResult = { periodStart: start, periodEnd: end, created: 0, updated: 0, signedOff: [], timesheets: [] };
+
+    const [settings, rules] = await Promise.all([
+      AttendanceService.getSettings(facilityId),
+      LabourRuleService.getRules(facilityId)
+    ]);
+    const today = AttendanceService.localDateKey(now, settings.timezone);
+    for (let day = start; day <= end && day <= today; day = addDays(day, 1)) {
+      await AttendanceService.markAbsenteesForDay(facilityId, day, settings, now);
+    }
+
+    // Attendance from the Monday of the first week, so weekly overtime counts the days before a month starts
+    const contextStart = weekStart(start);
+    const filter: any = { facilityId, date: { $gte: fromDateKey(contextStart), $lte: fromDateKey(end) } };
+    if (options.employeeIds) filter.employeeId = { $in: options.employeeIds };
+    const records = await Attendance.find(filter)
+      .sort({ date: 1, scheduledStart: 1, 'checkIn.time': 1 })
+      .lean<IAttendance[]>();
+
+    const employeeIds = [...new Set(records.filter(record => toDateKey(record.date) >= start).map(record => record.employeeId.toString()))];
+    if (employeeIds.length === 0) {
+      return result;
+    }
+
+    const scheduleIds = [...new Set(records.filter(record => record.shiftScheduleId).map(record => record.shiftScheduleId!.toString()))];
+    const [schedules, employees, existing, holidays] = await Promise.all([
+      // Deleted schedules still describe the shifts worked under them
+      ShiftSchedule.find({ _id: { $in: scheduleIds } }).select('shiftName startTime endTime breakDuration').lean<IShiftSchedule[]>(),
+      User.find({ _id: { $in: employeeIds } }).select('firstName lastName profile.address profile.workSchedule'),
+      Timesheet.find({ facilityId, period, periodStart: fromDateKey(start), employeeId: { $in: employeeIds } }),
+      HolidayCalendarService.getOccurrences(facilityId, fromDateKey(contextStart), fromDateKey(end))
+    ]);
+    const scheduleById = new Map(schedules.map(schedule => [String(schedule._id), schedule]));
+    const sheetRules = TimesheetService.rulesOf(rules);
+
+    for (const employee of employees) {
+      const employeeId = employee._id.toString();
+      const timesheet = existing.find(entry => entry.employeeId.toString() === employeeId);
+      if (timesheet?.status === TimesheetStatus.SIGNED_OFF) {
+        result.signedOff.push(employeeId);
+        continue;
+      }
+
+      const { entries, totals } = TimesheetService.compute(
+        records.filter(record => record.employeeId.toString() === employeeId),
+        start,
+        scheduleById,
+        TimesheetService.holidaysOf(employee, holidays),
+        sheetRules
+      );
+      const weeklyHours = employee.profile?.workSchedule?.weeklyHours ?? 0;
+      const days = (fromDateKey(end).getTime() - fromDateKey(start).getTime()) / DAY_MS + 1;
+      totals.contractedHours = Math.round(weeklyHours * days / 7 * 100) / 100;
+
+      const sheet = timesheet ?? new Timesheet({
+        facilityId,
+        employeeId,
+        period,
+        periodStart: fromDateKey(start),
+        periodEnd: fromDateKey(end)
+      });
+      sheet.set({ entries, totals, rules: sheetRules, generatedAt: now, generatedBy: actor._id });
+      await sheet.save();
+
+      if (timesheet) result.updated++;
+      else result.created++;
+      result.timesheets.push(sheet);
+    }
+
+    return result;
+  }
+
+  // Whether attendance of the timesheet's period was recorded or corrected after it was generated
+  static async isOutdated(timesheet: ITimesheet): Promise<boolean> {
+    const changed = await Attendance.exists({
+      facilityId: timesheet.facilityId,
+      employeeId: timesheet.employeeId,
+      date: { $gte: timesheet.periodStart, $lte: timesheet.periodEnd },
+      updatedAt: { $gt: timesheet.generatedAt }
+    });
+    return !!changed;
+  }
+
+  // Signed-off timesheet covering an employee's attendance on a date, if any
+  static async findSignedOff(facilityId: ObjectIdLike, employeeId: ObjectIdLike, date: Date): Promise<ITimesheet | null> {
+    return Timesheet.findOne({
+      facilityId,
+      employeeId,
+      status: TimesheetStatus.SIGNED_OFF,
+      periodStart: { $lte: date },
+      periodEnd: { $gte: date }
+    });
+  }
+
+  // One row per timesheet, with a header row (timesheets populated with their employee, facility and signer)
+  static toCsv(timesheets: ITimesheet[]): string {
+    const rows = [
+      CSV_COLUMNS.map(([header]) => csvField(header)).join(','),
+      ...timesheets.map(timesheet => CSV_COLUMNS.map(([, value]) => csvField(value(timesheet))).join(','))
+    ];
+    return `${rows.join('\r\n')}\r\n`;
+  }
+
+  private static rulesOf(rules: ILabourRules): ITimesheetRules {
+    return {
+      overtimeDailyHours: rules.overtimeDailyHours,
+      overtimeWeeklyHours: rules.overtimeWeeklyHours,
+      overtimeMultiplier: rules.overtimeMultiplier,
+      nightOvertimeMultiplier: rules.nightOvertimeMultiplier,
+      holidayMultiplier: rules.holidayMultiplier
+    };
+  }
+
+  // Names of the holidays that are days off for the employee, by date
+  private static holidaysOf(employee: IUser, occurrences: HolidayOccurrence[]): Map<string, string> {
+    const regions = HolidayCalendarService.regionsOf(employee);
+    const names = new Map<string, string>();
+    for (const occurrence of occurrences) {
+      if (HolidayCalendarService.isDayOff(occurrence, regions) && !names.has(occurrence.date)) {
+        names.set(occurrence.date, occurrence.name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Entries and totals of one employee's timesheet. Records are in chronological order and may start before
+   * the period (from the Monday of its first week); those only count towards the weekly overtime threshold.
+   */
+  private static compute(
+    records: IAttendance[],
+    periodStart: string,
+    scheduleById: Map<string, IShiftSchedule>,
+    holidays: Map<string, string>,
+    rules: ITimesheetRules
+  ): { entries: ITimesheetEntry[]; totals: ITimesheetTotals } {
+    const dailyLimit = rules.overtimeDailyHours != null ? rules.overtimeDailyHours * 60 : Infinity;
+    const weeklyLimit = rules.overtimeWeeklyHours != null ? rules.overtimeWeeklyHours * 60 : Infinity;
+    const regularByDay = new Map<string, number>();
+    const regularByWeek = new Map<string, number>();
+    const entries: ITimesheetEntry[] = [];
+
+    for (const record of records) {
+      const date = toDateKey(record.date);
+      const week = weekStart(date);
+      const schedule = record.shiftScheduleId ? scheduleById.get(record.shiftScheduleId.toString()) : undefined;
+      const breakMinutes = schedule?.breakDuration ?? 0;
+      const night = schedule ? RosterGeneratorService.isNightShift(schedule) : false;
+      const holiday = holidays.get(date);
+
+      const workedMinutes = record.status === AttendanceStatus.PRESENT ? Math.max(record.workedMinutes - breakMinutes, 0) : 0;
+      let regularMinutes = 0;
+      if (!holiday) {
+        regularMinutes = Math.max(Math.min(
+          workedMinutes,
+          dailyLimit - (regularByDay.get(date) ?? 0),
+          weeklyLimit - (regularByWeek.get(week) ?? 0)
+        ), 0);
+        regularByDay.set(date, (regularByDay.get(date) ?? 0) + regularMinutes);
+        regularByWeek.set(week, (regularByWeek.get(week) ?? 0) + regularMinutes);
+      }
+      const overtimeMinutes = workedMinutes - regularMinutes;
+
+      if (date < periodStart) continue;
+
+      const scheduledMinutes = record.scheduledStart && record.scheduledEnd
+        ? Math.max(Math.round((new Date(record.scheduledEnd).getTime() - new Date(record.scheduledStart).getTime()) / MINUTE_MS) - breakMinutes, 0)
+        : 0;
+      entries.push({
+        date: record.date,
+        attendanceId: record._id as mongoose.Types.ObjectId,
+        shiftScheduleId: record.shiftScheduleId ?? null,
+        shiftName: schedule?.shiftName,
+        status: record.status,
+        scheduledMinutes,
+        workedMinutes,
+        regularMinutes,
+        overtimeMinutes,
+        overtimeKind: overtimeMinutes > 0
+          ? holiday ? OvertimeKind.HOLIDAY : night ? OvertimeKind.NIGHT : OvertimeKind.STANDARD
+          : undefined,
+        lateMinutes: record.lateMinutes,
+        earlyExitMinutes: record.earlyExitMinutes,
+        missingCheckOut: !!record.checkIn && !record.checkOut,
+        night,
+        holiday
+      });
+    }
+
+    const overtimeOf = (kind: OvertimeKind): number =>
+      sum(entries.filter(entry => entry.overtimeKind === kind), entry => entry.overtimeMinutes);
+    const standard = overtimeOf(OvertimeKind.STANDARD);
+    const nightOvertime = overtimeOf(OvertimeKind.NIGHT);
+    const holidayOvertime = overtimeOf(OvertimeKind.HOLIDAY);
+
+    const totals: ITimesheetTotals = {
+      shifts: entries.length,
+      contractedHours: 0,
+      scheduledHours: toHours(sum(entries, entry => entry.scheduledMinutes)),
+      workedHours: toHours(sum(entries, entry => entry.workedMinutes)),
+      regularHours: toHours(sum(entries, entry => entry.regularMinutes)),
+      overtimeHours: toHours(standard + nightOvertime + holidayOvertime),
+      standardOvertimeHours: toHours(standard),
+      nightOvertimeHours: toHours(nightOvertime),
+      holidayOvertimeHours: toHours(holidayOvertime),
+      weightedOvertimeHours: toHours(
+        standard * rules.overtimeMultiplier + nightOvertime * rules.nightOvertimeMultiplier + holidayOvertime * rules.holidayMultiplier
+      ),
+      lateDays: entries.filter(entry => entry.lateMinutes > 0).length,
+      lateMinutes: sum(entries, entry => entry.lateMinutes),
+      earlyExitMinutes: sum(entries, entry => entry.earlyExitMinutes),
+      absences: entries.filter(entry => entry.status === AttendanceStatus.ABSENT).length,
+      leaveDays: entries.filter(entry => entry.status === AttendanceStatus.ON_LEAVE).length,
+      missingCheckOuts: entries.filter(entry => entry.missingCheckOut).length
+    };
+    return { entries, totals };
+  }
+}
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { config } from '../config';
+import { IUser, User } from '../models/User';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// TOTP parameters (RFC 6238 defaults understood by every authenticator app)
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_ALLOWED_DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+export class TwoFactorService {
+  // Encode a buffer as RFC 4648 base32 without padding
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  // Decode an RFC 4648 base32 string (padding and whitespace are ignored)
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character in secret');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  // Compute the HOTP value for a given counter (RFC 4226)
+  private static generateHOTP(secret: string, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', TwoFactorService.base32Decode(secret)).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      ((hmac[offset + 1] & 0xff) << 16) |
+      ((hmac[offset + 2] & 0xff) << 8) |
+      (hmac[offset + 3] & 0xff);
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  // Generate a new random base32 TOTP secret (160 bits)
+  static generateSecret(): string {
+    return TwoFactorService.base32Encode(crypto.randomBytes(20));
+  }
+
+  // Generate the TOTP code for the current (or given) time
+  static generateToken(secret: string, timestamp: number = Date.now()): string {
+    const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+    return TwoFactorService.generateHOTP(secret, counter);
+  }
+
+  // Verify a TOTP code, tolerating one time step of clock drift either way
+  static verifyToken(secret: string, token: string, timestamp: number = Date.now()): boolean {
+    return TwoFactorService.matchTokenStep(secret, token, timestamp) !== null;
+  }
+
+  /**
+   * Time step (counter) a TOTP code was generated for, within the allowed drift.
+   * @returns null when the code matches none of them
+   */
+  static matchTokenStep(secret: string, token: string, timestamp: number = Date.now()): number | null {
+    const normalized = (token || '').replace(/\s+/g, '');
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+      return null;
+    }
+
+    const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+    for (let drift = -TOTP_ALLOWED_DRIFT_STEPS; drift <= TOTP_ALLOWED_DRIFT_STEPS; drift++) {
+      const expected = TwoFactorService.generateHOTP(secret, counter + drift);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return counter + drift;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Accept a TOTP code of the user's enabled secret at most once. The code's time step is recorded by the same
+   * update that checks it is newer than the last accepted one, so a code seen by someone else, or submitted twice
+   * at the same time, cannot be replayed while it is still within the allowed drift.
+   */
+  static async consumeToken(user: IUser, token: string, timestamp: number = Date.now()): Promise<boolean> {
+    const step = user.security.twoFactorSecret
+      ? TwoFactorService.matchTokenStep(user.security.twoFactorSecret, token, timestamp)
+      : null;
+    if (step === null) {
+      return false;
+    }
+
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { 'security.twoFactorLastUsedStep': null },
+          { 'security.twoFactorLastUsedStep': { $lt: step } }
+        ]
+      },
+      { $set: { 'security.twoFactorLastUsedStep': step } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Build the otpauth:// URI consumed by authenticator apps
+  static buildOtpAuthUri(secret: string, accountName: string): string {
+    const issuer = config.TWO_FACTOR_ISSUER;
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: TOTP_DIGITS.toString(),
+      period: TOTP_PERIOD_SECONDS.toString()
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  // Render the otpauth URI as a PNG data URL for display in the enrollment screen
+  static async generateQRCodeDataUrl(otpAuthUri: string): Promise<string> {
+    return QRCode.toDataURL(otpAuthUri);
+  }
+
+  // Generate a fresh set of one-time recovery codes (plain text, shown to the user once)
+  static generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+    return Array.from({ length: count }, () => {
+      const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  // Hash a recovery code for storage; codes are compared case-insensitively without dashes
+  static hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Accept one of the user's recovery codes at most once. The code is removed by the same update that checks it is
+   * still stored, so two requests presenting the same code at the same time cannot both succeed.
+   */
+  static async consumeRecoveryCode(user: IUser, code: string): Promise<boolean> {
+    const hashedCode = TwoFactorService.hashRecoveryCode(code);
+    const result = await User.updateOne(
+      { _id: user._id, 'security.recoveryTokens': hashedCode },
+      { $pull: { 'security.recoveryTokens': hashedCode } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Check whether two-factor authentication is mandatory for a role
+  static isRequiredForRole(role: string): boolean {
+    return config.TWO_FACTOR_ENFORCED_ROLES.includes(role);
+  }
+}
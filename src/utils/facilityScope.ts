@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import { UserRole } from '../models/User';
+
+export const FACILITY_ACCESS_DENIED_MESSAGE = 'You do not have access to this facility';
+
+/**
+ * Facilities the authenticated user may read and write.
+ * Super admins and admins are unrestricted; every other role is limited to its managedFacilities.
+ * AuthMiddleware.authenticate attaches an instance to every request as req.facilityScope.
+ */
+export class FacilityScope {
+  private readonly allowedIds: Set<string> | null;
+
+  constructor(allowedFacilityIds: string[] | null) {
+    this.allowedIds = allowedFacilityIds ? new Set(allowedFacilityIds) : null;
+  }
+
+  // Build the scope of a user (managedFacilities may be populated documents or plain ids)
+  static forUser(user: { role: string; managedFacilities?: any[] }): FacilityScope {
+    if (user.role === UserRole.SUPER_ADMIN || user.role === UserRole.ADMIN) {
+      return new FacilityScope(null);
+    }
+
+    const facilityIds = (user.managedFacilities || []).map((facility: any) =>
+      (facility?._id ?? facility).toString()
+    );
+    return new FacilityScope(facilityIds);
+  }
+
+  get isUnrestricted(): boolean {
+    return this.allowedIds === null;
+  }
+
+  // Allowed facility ids, or null when the user may access every facility
+  get facilityIds(): string[] | null {
+    return this.allowedIds ? Array.from(this.allowedIds) : null;
+  }
+
+  // Check a single facility id (ObjectId, populated document or string)
+  allows(facilityId: any): boolean {
+    if (this.allowedIds === null) {
+      return true;
+    }
+    if (!facilityId) {
+      return false;
+    }
+    return this.allowedIds.has((facilityId._id ?? facilityId).toString());
+  }
+
+  /**
+   * Query condition restricting a field to the allowed facilities.
+   * When a specific facility is requested it is used instead, provided it is in scope.
+   * @returns the condition, or null when the requested facility is out of scope
+   */
+  condition(requestedFacilityId?: any, field: string = 'facilityId'): Record<string, any> | null {
+    if (requestedFacilityId) {
+      if (!this.allows(requestedFacilityId)) {
+        return null;
+      }
+      return { [field]: requestedFacilityId.toString() };
+    }
+
+    if (this.allowedIds === null) {
+      return {};
+    }
+
+    return {
+      [field]: { $in: Array.from(this.allowedIds).map(id => new Types.ObjectId(id)) }
+    };
+  }
+
+  // Add the facility restriction to a detail/update/delete query (e.g. { _id: id })
+  apply<T extends Record<string, any>>(query: T, field: string = 'facilityId'): T {
+    const condition = this.condition(undefined, field)!;
+    // Scoping on a field the query already filters (e.g. _id of a facility) must not replace that filter
+    if (field in query && field in condition) {
+      return { ...query, $and: [...(query.$and || []), condition] };
+    }
+    return { ...query, ...condition };
+  }
+
+  // Facility to use for a write when none was given: the first facility in scope
+  defaultFacilityId(): string | undefined {
+    return this.allowedIds ? Array.from(this.allowedIds)[0] : undefined;
+  }
+}
@@ -42,6 +42,12 @@ const options = {
           bearerFormat: 'JWT',
           description: 'Enter JWT token in the format: Bearer <token>',
         },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'API key of a machine-to-machine client, limited to one facility and the permissions of the key',
+        },
       },
       schemas: {
         FacilityDetails: {
@@ -0,0 +1,53 @@
+import Joi from 'joi';
+import { PERMISSION_FLAGS } from '../config/permissions';
+import { ApiKeyService } from '../services/apiKey.service';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const permissionsSchema = Joi.array().items(Joi.string().valid(...PERMISSION_FLAGS)).min(1).unique().messages({
+  'any.only': 'Unknown permission: {#value}',
+  'array.unique': 'Permissions must be unique'
+});
+
+const allowedIpsSchema = Joi.array().items(
+  Joi.string().trim().custom((value, helpers) =>
+    ApiKeyService.isValidIpRule(value) ? value : helpers.error('any.invalid')
+  ).messages({ 'any.invalid': '{#value} is not a valid IP address or CIDR range' })
+).max(50).unique();
+
+// Validation schema for creating an API key
+export const createApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  facilityId: objectId.required().messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  permissions: permissionsSchema.required(),
+  allowedIps: allowedIpsSchema,
+  expiresAt: Joi.date().iso().greater('now').messages({ 'date.greater': 'expiresAt must be in the future' })
+});
+
+// Validation schema for updating an API key (facility and key value cannot change)
+export const updateApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  permissions: permissionsSchema,
+  allowedIps: allowedIpsSchema,
+  expiresAt: Joi.date().iso().greater('now').allow(null).messages({ 'date.greater': 'expiresAt must be in the future' })
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for API key list query parameters
+export const apiKeyQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  isActive: Joi.string().valid('true', 'false'),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the API key id parameter
+export const apiKeyIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'API key ID is required',
+    'string.pattern.base': 'Invalid API key ID format'
+  })
+});
@@ -0,0 +1,48 @@
+import Joi from 'joi';
+import { APPROVER_ROLES, ApprovalRequestType } from '../models/ApprovalWorkflow';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+// Validation schema for the id parameter of approval actions
+export const approvalIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'ID is required',
+    'string.pattern.base': 'Invalid ID format'
+  })
+});
+
+// Validation schema for approving, cancelling or withdrawing a request
+export const approvalActionSchema = Joi.object({
+  remarks: Joi.string().trim().max(500).allow('')
+});
+
+// Validation schema for rejecting a request; the applicant is told why
+export const rejectRequestSchema = Joi.object({
+  remarks: Joi.string().trim().min(3).max(500).required().messages({
+    'any.required': 'Remarks are required when rejecting a request'
+  })
+});
+
+// Validation schema for approval workflow query parameters
+export const approvalWorkflowQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  requestType: Joi.string().valid(...Object.values(ApprovalRequestType))
+});
+
+// Validation schema for the parameters of a facility's approval workflow
+export const approvalWorkflowParamSchema = Joi.object({
+  facilityId: objectId.required().messages({
+    'any.required': 'Facility ID is required',
+    'string.pattern.base': 'Invalid facility ID format'
+  }),
+  requestType: Joi.string().valid(...Object.values(ApprovalRequestType)).required()
+});
+
+// Validation schema for configuring the levels of an approval workflow
+export const setApprovalWorkflowSchema = Joi.object({
+  levels: Joi.array().items(Joi.string().valid(...APPROVER_ROLES)).min(1).max(5).required().messages({
+    'array.min': 'An approval chain needs at least one level',
+    'array.max': 'An approval chain has at most 5 levels'
+  }),
+  isActive: Joi.boolean()
+});
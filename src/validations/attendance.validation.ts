@@ -0,0 +1,118 @@
+import Joi from 'joi';
+import { AttendanceStatus } from '../models/Attendance';
+import { AttendanceVerification } from '../models/AttendanceSettings';
+import { AttendanceService } from '../services/attendance.service';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const facilityId = objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' });
+const dateKey = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({ 'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format' });
+const verificationMethod = Joi.string().valid(AttendanceVerification.QR, AttendanceVerification.GEOFENCE);
+
+const locationSchema = Joi.object({
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  accuracy: Joi.number().min(0)
+});
+
+// Validation schema for checking in or out
+export const attendancePunchSchema = Joi.object({
+  facilityId,
+  method: verificationMethod.required(),
+  qrCode: Joi.string().max(2000).when('method', {
+    is: AttendanceVerification.QR,
+    then: Joi.required()
+  }),
+  location: locationSchema.when('method', {
+    is: AttendanceVerification.GEOFENCE,
+    then: Joi.required()
+  }),
+  device: Joi.string().trim().max(200)
+});
+
+// Validation schema for the id parameter of attendance routes
+export const attendanceIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Attendance ID is required',
+    'string.pattern.base': 'Invalid attendance ID format'
+  })
+});
+
+// Validation schema for the facility id parameter of attendance settings routes
+export const attendanceFacilityParamSchema = Joi.object({
+  facilityId: facilityId.required()
+});
+
+// Validation schema for the signed-in employee's attendance query parameters
+export const myAttendanceQuerySchema = Joi.object({
+  from: dateKey,
+  to: dateKey,
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for attendance query parameters
+export const attendanceQuerySchema = Joi.object({
+  facilityId,
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  status: Joi.string().valid(...Object.values(AttendanceStatus)),
+  late: Joi.boolean(),
+  earlyExit: Joi.boolean(),
+  from: dateKey,
+  to: dateKey,
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for a manager's correction of an attendance record
+export const updateAttendanceSchema = Joi.object({
+  status: Joi.string().valid(...Object.values(AttendanceStatus)),
+  checkInTime: Joi.date().iso(),
+  checkOutTime: Joi.date().iso(),
+  remarks: Joi.string().trim().min(3).max(500).required()
+}).or('status', 'checkInTime', 'checkOutTime').messages({
+  'object.missing': 'Provide a status, checkInTime or checkOutTime to correct'
+});
+
+// Validation schema for the daily attendance report
+export const dailyAttendanceReportSchema = Joi.object({
+  facilityId,
+  date: dateKey
+});
+
+// Validation schema for the monthly attendance report
+export const monthlyAttendanceReportSchema = Joi.object({
+  facilityId,
+  year: Joi.number().integer().min(2000).max(2100),
+  month: Joi.number().integer().min(1).max(12)
+});
+
+// Validation schema for marking absentees on demand
+export const markAbsenteesSchema = Joi.object({
+  facilityId,
+  date: dateKey
+});
+
+// Validation schema for the fields sent with a biometric punch log (multipart form)
+export const importPunchLogSchema = Joi.object({
+  facilityId,
+  dateOrder: Joi.string().valid('DMY', 'MDY', 'YMD'),
+  dryRun: Joi.boolean()
+});
+
+// Validation schema for the attendance settings of a facility
+export const updateAttendanceSettingsSchema = Joi.object({
+  timezone: Joi.string().custom((value, helpers) =>
+    AttendanceService.isValidTimezone(value) ? value : helpers.error('any.invalid')
+  ).messages({ 'any.invalid': 'timezone must be an IANA time zone, e.g. Asia/Kolkata' }),
+  verificationMethods: Joi.array().items(verificationMethod).min(1).unique(),
+  geofence: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+    radiusMeters: Joi.number().min(10).max(10000).required()
+  }).allow(null),
+  lateGraceMinutes: Joi.number().integer().min(0).max(240),
+  earlyExitGraceMinutes: Joi.number().integer().min(0).max(240)
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
@@ -0,0 +1,28 @@
+import Joi from 'joi';
+import { AuditAction } from '../models/AuditLog';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+// Validation schema for audit log query parameters
+export const auditLogQuerySchema = Joi.object({
+  entityType: Joi.string().trim().max(100),
+  entityId: objectId.messages({ 'string.pattern.base': 'Invalid entity ID format' }),
+  userId: objectId.messages({ 'string.pattern.base': 'Invalid user ID format' }),
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  action: Joi.string().valid(...Object.values(AuditAction)),
+  startDate: Joi.date().iso(),
+  endDate: Joi.date().iso().when('startDate', {
+    is: Joi.exist(),
+    then: Joi.date().min(Joi.ref('startDate')).messages({ 'date.min': 'endDate must not be before startDate' })
+  }),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the audit log id parameter
+export const auditLogIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Audit log ID is required',
+    'string.pattern.base': 'Invalid audit log ID format'
+  })
+});
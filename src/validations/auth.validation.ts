@@ -105,4 +105,88 @@ export const tokenParamSchema = Joi.object({
       'any.required': 'Token is required',
       'string.empty': 'Token cannot be empty',
     })
-});
\ No newline at end of file
+});
+// Reusable TOTP code rule (6-digit authenticator code)
+const twoFactorCode = Joi.string()
+  .trim()
+  .pattern(/^\d{6}$/)
+  .messages({
+    'any.required': 'Two-factor code is required',
+    'string.empty': 'Two-factor code cannot be empty',
+    'string.pattern.base': 'Two-factor code must be a 6-digit number',
+  });
+
+// Two-factor code validation schema (enable, regenerate recovery codes)
+export const twoFactorCodeSchema = Joi.object({
+  code: twoFactorCode.required()
+});
+
+// Disable two-factor validation schema
+export const disableTwoFactorSchema = Joi.object({
+  password: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Password is required',
+      'string.empty': 'Password cannot be empty',
+    }),
+  code: twoFactorCode.required()
+});
+
+// MFA token validation rule (issued by login when a second factor is needed)
+const mfaToken = Joi.string()
+  .required()
+  .messages({
+    'any.required': 'MFA token is required',
+    'string.empty': 'MFA token cannot be empty',
+  });
+
+// Two-factor login verification schema
+export const verifyTwoFactorSchema = Joi.object({
+  mfaToken,
+  code: twoFactorCode.optional(),
+  recoveryCode: Joi.string()
+    .trim()
+    .pattern(/^[A-Fa-f0-9]{5}-?[A-Fa-f0-9]{5}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Recovery code must look like XXXXX-XXXXX',
+    })
+}).xor('code', 'recoveryCode')
+  .messages({
+    'object.xor': 'Provide either a two-factor code or a recovery code',
+  });
+
+// Mandatory two-factor enrollment during login schemas
+export const twoFactorEnrollmentSchema = Joi.object({
+  mfaToken
+});
+
+export const confirmTwoFactorEnrollmentSchema = Joi.object({
+  mfaToken,
+  code: twoFactorCode.required()
+});
+
+// Resend verification email validation schema
+export const resendVerificationSchema = Joi.object({
+  email: Joi.string()
+    .email()
+    .lowercase()
+    .required()
+    .messages({
+      'any.required': 'Email is required',
+      'string.empty': 'Email cannot be empty',
+      'string.email': 'Please provide a valid email address',
+    })
+});
+
+// Session id parameter validation schema
+export const sessionIdParamSchema = Joi.object({
+  id: Joi.string()
+    .trim()
+    .max(64)
+    .required()
+    .messages({
+      'any.required': 'Session id is required',
+      'string.empty': 'Session id cannot be empty',
+    })
+});
@@ -0,0 +1,92 @@
+import Joi from 'joi';
+import { RecurrenceFrequency } from '../models/ChecklistTemplate';
+import { ChecklistDepartment } from '../models/DailyChecklist';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const itemsSchema = Joi.array().items(Joi.object({
+  itemName: Joi.string().trim().min(1).max(200).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  photoRequired: Joi.boolean()
+})).min(1).max(100);
+
+const floorLocationIdsSchema = Joi.array()
+  .items(objectId.messages({ 'string.pattern.base': 'Invalid floor location ID format' }))
+  .min(1).max(200).unique();
+
+// Weekdays, days of the month or the interval, as the frequency needs
+const recurrenceSchema = Joi.object({
+  frequency: Joi.string().valid(...Object.values(RecurrenceFrequency)).required(),
+  weekdays: Joi.array().items(Joi.string().lowercase().valid(...WEEKDAYS)).min(1).unique().when('frequency', {
+    is: RecurrenceFrequency.WEEKLY,
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  monthDays: Joi.array().items(Joi.number().integer().min(1).max(31)).min(1).unique().when('frequency', {
+    is: RecurrenceFrequency.MONTHLY,
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  intervalDays: Joi.number().integer().min(2).max(365).when('frequency', {
+    is: RecurrenceFrequency.CUSTOM,
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
+});
+
+// Validation schema for creating a checklist template
+export const createChecklistTemplateSchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  hygieneSectionId: objectId.required().messages({
+    'any.required': 'Hygiene section ID is required',
+    'string.pattern.base': 'Invalid hygiene section ID format'
+  }),
+  assignedDepartment: Joi.string().valid(...Object.values(ChecklistDepartment)).required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  checklistItems: itemsSchema.required(),
+  floorLocationIds: floorLocationIdsSchema.required(),
+  recurrence: recurrenceSchema.required(),
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().min(Joi.ref('startDate')).allow(null),
+  isActive: Joi.boolean()
+});
+
+// Validation schema for updating a checklist template (the facility and section cannot change)
+export const updateChecklistTemplateSchema = Joi.object({
+  assignedDepartment: Joi.string().valid(...Object.values(ChecklistDepartment)),
+  name: Joi.string().trim().min(1).max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  checklistItems: itemsSchema,
+  floorLocationIds: floorLocationIdsSchema,
+  recurrence: recurrenceSchema,
+  startDate: Joi.date().iso(),
+  endDate: Joi.date().iso().allow(null),
+  isActive: Joi.boolean()
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for checklist template query parameters
+export const checklistTemplateQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  hygieneSectionId: objectId.messages({ 'string.pattern.base': 'Invalid hygiene section ID format' }),
+  assignedDepartment: Joi.string().valid(...Object.values(ChecklistDepartment)),
+  floorLocationId: objectId.messages({ 'string.pattern.base': 'Invalid floor location ID format' }),
+  isActive: Joi.boolean()
+});
+
+// Validation schema for generating a template's checklists of a date
+export const generateChecklistsSchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({ 'string.pattern.base': 'date must be a date in YYYY-MM-DD format' })
+});
+
+// Validation schema for the id parameter
+export const checklistTemplateIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Checklist template ID is required',
+    'string.pattern.base': 'Invalid checklist template ID format'
+  })
+});
@@ -20,7 +20,8 @@ export const createDailyChecklistValidation = Joi.object({
         'string.empty': 'Item name is required',
         'any.required': 'Item name is required'
       }),
-      description: Joi.string().optional().allow('', null)
+      description: Joi.string().optional().allow('', null),
+      photoRequired: Joi.boolean().optional()
     })
   ).min(1).required().messages({
     'array.min': 'At least one checklist item is required',
@@ -52,6 +53,9 @@ export const getDailyChecklistsValidation = Joi.object({
 
 // Validation schema for checklist statistics
 export const getChecklistStatsValidation = Joi.object({
+  facilityId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).optional().messages({
+    'string.pattern.base': 'Invalid facility ID format'
+  }),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional().when('startDate', {
     is: Joi.exist(),
@@ -1,5 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 import Joi from 'joi';
+import { PERMISSION_FLAGS } from '../config/permissions';
 
 // Validation for employee deletion with exit details
 export const deleteEmployeeSchema = Joi.object({
@@ -31,6 +32,35 @@ export const validateDeleteEmployee = (req: Request, res: Response, next: NextFu
   next();
 };
 
+// Validation for granting/revoking employee permissions
+export const updatePermissionsSchema = Joi.object({
+  permissions: Joi.object(
+    PERMISSION_FLAGS.reduce((keys, flag) => ({ ...keys, [flag]: Joi.boolean().allow(null) }), {} as Record<string, Joi.BooleanSchema>)
+  ).min(1).messages({
+    'object.unknown': 'Unknown permission: {#key}',
+    'object.min': 'At least one permission must be provided'
+  }),
+  customPermissions: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).unique().messages({
+    'array.unique': 'Custom permissions must be unique'
+  })
+}).or('permissions', 'customPermissions').messages({
+  'object.missing': 'Provide permissions and/or customPermissions to update'
+});
+
+// Validation middleware for permission updates
+export const validateUpdatePermissions = (req: Request, res: Response, next: NextFunction): void => {
+  const { error } = updatePermissionsSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      error: error.details[0].message
+    });
+    return;
+  }
+  next();
+};
+
 // Common exit reasons enum for reference
 export const ExitReasons = {
   RESIGNATION: 'Resignation',
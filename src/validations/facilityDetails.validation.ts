@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { PhotoEvidenceRequirement } from '../models/FacilityDetails';
 
 // Validation schema for creating a facility
 export const createFacilityValidation = Joi.object({
@@ -161,7 +162,15 @@ export const updateFacilityValidation = Joi.object({
     .optional()
     .messages({
       'any.only': 'Facility type must be one of: residential, corporate, industrial, hospitality'
-    })
+    }),
+
+  settings: Joi.object({
+    checklistPhotoEvidence: Joi.string()
+      .valid(...Object.values(PhotoEvidenceRequirement))
+      .messages({
+        'any.only': `Checklist photo evidence must be one of: ${Object.values(PhotoEvidenceRequirement).join(', ')}`
+      })
+  }).optional()
 });
 
 // Validation schema for bulk create facilities
@@ -32,6 +32,14 @@ const createFloorLocationSchema = Joi.object({
     .max(500)
     .messages({
       'string.max': 'Description cannot exceed 500 characters'
+    }),
+
+  // Defaults to the user's facility when omitted
+  facilityId: Joi.string()
+    .optional()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid facility ID format'
     })
 });
 
@@ -114,4 +122,23 @@ export const validateFloorLocationUpdate = (req: Request, res: Response, next: N
   }
   
   next();
-};
\ No newline at end of file
+};
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+// Validation schema for the id parameter
+export const floorLocationIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Floor location ID is required',
+    'string.pattern.base': 'Invalid floor location ID format'
+  })
+});
+
+// Validation schema for rendering a floor location's QR code
+export const floorLocationQRQuerySchema = Joi.object({
+  format: Joi.string().valid('png', 'svg')
+});
+
+// Validation schema for the printable QR sheet of a facility
+export const floorLocationQRSheetQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' })
+});
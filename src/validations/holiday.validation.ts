@@ -0,0 +1,53 @@
+import Joi from 'joi';
+import { HolidayType } from '../models/Holiday';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const regionsSchema = Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).unique();
+
+// Validation schema for creating a holiday
+export const createHolidaySchema = Joi.object({
+  facilityId: objectId.required().messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  name: Joi.string().trim().min(2).max(100).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  date: Joi.date().iso().required(),
+  recurring: Joi.boolean(),
+  type: Joi.string().valid(...Object.values(HolidayType)),
+  regions: regionsSchema.when('type', {
+    is: HolidayType.REGIONAL,
+    then: Joi.array().min(1).required(),
+    otherwise: Joi.array().max(0)
+  }).messages({
+    'any.required': 'Regional holidays must list at least one region',
+    'array.min': 'Regional holidays must list at least one region',
+    'array.max': 'Only regional holidays have regions'
+  })
+});
+
+// Validation schema for updating a holiday (the facility cannot change)
+export const updateHolidaySchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  date: Joi.date().iso(),
+  recurring: Joi.boolean(),
+  type: Joi.string().valid(...Object.values(HolidayType)),
+  regions: regionsSchema
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for holiday calendar query parameters
+export const holidayQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  year: Joi.number().integer().min(2000).max(2100),
+  type: Joi.string().valid(...Object.values(HolidayType)),
+  region: Joi.string().trim().max(100)
+});
+
+// Validation schema for the holiday id parameter
+export const holidayIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Holiday ID is required',
+    'string.pattern.base': 'Invalid holiday ID format'
+  })
+});
@@ -0,0 +1,40 @@
+import Joi from 'joi';
+import { ChecklistDepartment } from '../models/DailyChecklist';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const dateKey = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({ 'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format' });
+
+const floorLocationIds = Joi.array()
+  .items(objectId.messages({ 'string.pattern.base': 'Invalid floor location ID format' }))
+  .min(1).max(200).unique();
+
+// Validation schema for the id parameter
+export const hygieneChecklistIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Hygiene checklist ID is required',
+    'string.pattern.base': 'Invalid hygiene checklist ID format'
+  })
+});
+
+// Validation schema for uploading a new version of a checklist's file
+export const uploadHygieneChecklistVersionSchema = Joi.object({
+  dryRun: Joi.boolean()
+});
+
+// Validation schema for turning a checklist into checklist templates
+export const hygieneChecklistTemplatesSchema = Joi.object({
+  startDate: dateKey.required(),
+  assignedDepartment: Joi.string().valid(...Object.values(ChecklistDepartment)),
+  floorLocationIds,
+  weekdays: Joi.array().items(Joi.string().valid('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday')).min(1).unique(),
+  monthDays: Joi.array().items(Joi.number().integer().min(1).max(31)).min(1).unique()
+});
+
+// Validation schema for turning a checklist into the daily checklists of a date
+export const hygieneChecklistDailyChecklistsSchema = Joi.object({
+  date: dateKey.required(),
+  assignedDepartment: Joi.string().valid(...Object.values(ChecklistDepartment)),
+  floorLocationIds,
+  frequency: Joi.string().valid('daily', 'weekly', 'monthly')
+});
@@ -0,0 +1,17 @@
+import Joi from 'joi';
+
+// Validation schema for invitation list query parameters
+export const invitationQuerySchema = Joi.object({
+  status: Joi.string().valid('pending', 'expired', 'revoked'),
+  search: Joi.string().trim().max(100),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the invited user id parameter
+export const invitationUserParamSchema = Joi.object({
+  userId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).required().messages({
+    'any.required': 'User ID is required',
+    'string.pattern.base': 'Invalid user ID format'
+  })
+});
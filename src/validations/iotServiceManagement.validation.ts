@@ -27,14 +27,6 @@ export const initializeIoTServicesValidation = Joi.object({
     .required()
     .messages({
       'string.empty': 'Facility type is required'
-    }),
-    
-  createdBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Created by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -95,14 +87,6 @@ export const addIoTServiceToCategoryValidation = Joi.object({
     .optional()
     .messages({
       'string.uri': 'Integration endpoint must be a valid URL'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -131,14 +115,6 @@ export const updateIoTServiceStatusValidation = Joi.object({
     .required()
     .messages({
       'boolean.base': 'isActive must be a boolean value'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -203,14 +179,6 @@ export const updateIoTServiceDetailsValidation = Joi.object({
     .allow('')
     .messages({
       'string.uri': 'Integration endpoint must be a valid URL'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -233,14 +201,6 @@ export const removeIoTServiceFromCategoryValidation = Joi.object({
       'string.empty': 'Service name is required',
       'string.min': 'Service name must be at least 2 characters long',
       'string.max': 'Service name cannot exceed 100 characters'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -268,25 +228,6 @@ export const bulkUpdateIoTServicesValidation = Joi.object({
       'array.min': 'At least one IoT service update is required',
       'array.max': 'Cannot update more than 50 IoT services at once',
       'array.base': 'Services must be an array'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
-    })
-});
-
-// Validation schema for delete IoT service management
-export const deleteIoTServiceManagementValidation = Joi.object({
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -430,21 +371,6 @@ export const validateBulkUpdateIoTServices = (req: any, res: any, next: any) =>
   next();
 };
 
-export const validateDeleteIoTServiceManagement = (req: any, res: any, next: any) => {
-  const { error } = deleteIoTServiceManagementValidation.validate(req.body);
-  if (error) {
-    return res.status(400).json({
-      status: 'error',
-      message: 'Validation error',
-      errors: error.details.map(detail => ({
-        field: detail.path.join('.'),
-        message: detail.message
-      }))
-    });
-  }
-  next();
-};
-
 export const validateIoTServiceQuery = (req: any, res: any, next: any) => {
   const { error } = iotServiceQueryValidation.validate(req.query);
   if (error) {
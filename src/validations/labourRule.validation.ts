@@ -0,0 +1,42 @@
+import Joi from 'joi';
+import { LabourRuleEnforcement } from '../models/LabourRules';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const dateKey = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({ 'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format' });
+// A limit set to null is not checked
+const hours = (max: number) => Joi.number().positive().max(max).allow(null);
+const multiplier = Joi.number().min(1).max(5);
+
+// Validation schema for the facility id parameter of labour rule routes
+export const labourRuleFacilityParamSchema = Joi.object({
+  facilityId: objectId.required().messages({
+    'any.required': 'Facility ID is required',
+    'string.pattern.base': 'Invalid facility ID format'
+  })
+});
+
+// Validation schema for the labour rules of a facility
+export const updateLabourRulesSchema = Joi.object({
+  maxDailyHours: hours(24),
+  maxWeeklyHours: hours(168),
+  minRestHours: Joi.number().min(0).max(48).allow(null),
+  maxConsecutiveNights: Joi.number().integer().min(1).max(31).allow(null),
+  minWeeklyOffDays: Joi.number().integer().min(0).max(7).allow(null),
+  overtimeDailyHours: hours(24),
+  overtimeWeeklyHours: hours(168),
+  overtimeMultiplier: multiplier,
+  nightOvertimeMultiplier: multiplier,
+  holidayMultiplier: multiplier,
+  enforcement: Joi.string().valid(...Object.values(LabourRuleEnforcement))
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for validating the schedule of a facility over a date range
+export const validateScheduleQuerySchema = Joi.object({
+  from: dateKey.required(),
+  to: dateKey.required(),
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  includeDrafts: Joi.boolean()
+});
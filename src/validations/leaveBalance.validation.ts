@@ -0,0 +1,51 @@
+import Joi from 'joi';
+import { LeaveLedgerEntryType } from '../models/LeaveLedger';
+import { LEAVE_TYPES } from '../models/LeavePlanner';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const facilityId = objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' });
+const year = Joi.number().integer().min(2000).max(2100);
+
+// Validation schema for the employee id parameter of balance routes
+export const leaveBalanceParamSchema = Joi.object({
+  employeeId: objectId.required().messages({
+    'any.required': 'Employee ID is required',
+    'string.pattern.base': 'Invalid employee ID format'
+  })
+});
+
+// Validation schema for leave balance query parameters
+export const leaveBalanceQuerySchema = Joi.object({
+  facilityId,
+  year
+});
+
+// Validation schema for leave ledger query parameters
+export const leaveLedgerQuerySchema = Joi.object({
+  facilityId,
+  year,
+  leaveType: Joi.string().valid(...LEAVE_TYPES),
+  entryType: Joi.string().valid(...Object.values(LeaveLedgerEntryType)),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for encashing leave
+export const encashLeaveSchema = Joi.object({
+  facilityId,
+  leaveType: Joi.string().valid(...LEAVE_TYPES).required(),
+  days: Joi.number().positive().max(366).required(),
+  remarks: Joi.string().trim().max(500).allow('')
+});
+
+// Validation schema for a manual balance adjustment
+export const adjustLeaveBalanceSchema = Joi.object({
+  facilityId,
+  year,
+  leaveType: Joi.string().valid(...LEAVE_TYPES).required(),
+  days: Joi.number().min(-366).max(366).invalid(0).required().messages({
+    'any.invalid': 'days cannot be 0'
+  }),
+  remarks: Joi.string().trim().min(3).max(500).required()
+});
@@ -0,0 +1,55 @@
+import Joi from 'joi';
+import { LEAVE_TYPES } from '../models/LeavePlanner';
+import { LeaveAccrualFrequency, LeaveExceedAction } from '../models/LeavePolicy';
+import { EmployeeType } from '../models/User';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const days = Joi.number().min(0).max(366);
+
+// Validation schema for creating a leave policy
+export const createLeavePolicySchema = Joi.object({
+  facilityId: objectId.required().messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  employeeType: Joi.string().valid(...Object.values(EmployeeType)).required(),
+  leaveType: Joi.string().valid(...LEAVE_TYPES).required(),
+  annualEntitlement: days.required(),
+  accrualFrequency: Joi.string().valid(...Object.values(LeaveAccrualFrequency)),
+  proRateFromHireDate: Joi.boolean(),
+  carryForwardLimit: days,
+  encashable: Joi.boolean(),
+  maxEncashableDays: days,
+  exceedAction: Joi.string().valid(...Object.values(LeaveExceedAction)),
+  isActive: Joi.boolean()
+});
+
+// Validation schema for updating a leave policy (facility, employee type and leave type cannot change)
+export const updateLeavePolicySchema = Joi.object({
+  annualEntitlement: days,
+  accrualFrequency: Joi.string().valid(...Object.values(LeaveAccrualFrequency)),
+  proRateFromHireDate: Joi.boolean(),
+  carryForwardLimit: days,
+  encashable: Joi.boolean(),
+  maxEncashableDays: days,
+  exceedAction: Joi.string().valid(...Object.values(LeaveExceedAction)),
+  isActive: Joi.boolean()
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for leave policy list query parameters
+export const leavePolicyQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  employeeType: Joi.string().valid(...Object.values(EmployeeType)),
+  leaveType: Joi.string().valid(...LEAVE_TYPES),
+  isActive: Joi.string().valid('true', 'false'),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the leave policy id parameter
+export const leavePolicyIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Leave policy ID is required',
+    'string.pattern.base': 'Invalid leave policy ID format'
+  })
+});
@@ -0,0 +1,72 @@
+import Joi from 'joi';
+import { PERMISSION_FLAGS } from '../config/permissions';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const permissionsSchema = Joi.object(
+  PERMISSION_FLAGS.reduce((keys, flag) => ({ ...keys, [flag]: Joi.boolean() }), {} as Record<string, Joi.BooleanSchema>)
+).messages({
+  'object.unknown': 'Unknown permission: {#key}'
+});
+
+const customPermissionsSchema = Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).unique().messages({
+  'array.unique': 'Custom permissions must be unique'
+});
+
+// Validation schema for creating a custom role
+export const createRoleSchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  facilityId: objectId.allow(null).messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  permissions: permissionsSchema,
+  customPermissions: customPermissionsSchema,
+  isActive: Joi.boolean()
+});
+
+// Validation schema for updating a custom role (the facility of a role cannot change)
+export const updateRoleSchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  permissions: permissionsSchema,
+  customPermissions: customPermissionsSchema,
+  isActive: Joi.boolean()
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for role list query parameters
+export const roleQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  scope: Joi.string().valid('global', 'facility'),
+  isActive: Joi.string().valid('true', 'false'),
+  search: Joi.string().trim().max(100),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the role id parameter
+export const roleIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Role ID is required',
+    'string.pattern.base': 'Invalid role ID format'
+  })
+});
+
+// Validation schema for the role and user id parameters of an assignment
+export const roleAssignmentParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Role ID is required',
+    'string.pattern.base': 'Invalid role ID format'
+  }),
+  userId: objectId.required().messages({
+    'any.required': 'User ID is required',
+    'string.pattern.base': 'Invalid user ID format'
+  })
+});
+
+// Validation schema for assigning a role to users
+export const assignRoleSchema = Joi.object({
+  userIds: Joi.array().items(
+    objectId.messages({ 'string.pattern.base': 'Invalid user ID format' })
+  ).min(1).max(100).unique().required()
+});
@@ -0,0 +1,13 @@
+import Joi from 'joi';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const facilityId = objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' });
+const dateKey = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({ 'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format' });
+
+// Validation schema for generating or publishing the draft rosters of a date range
+export const rosterRangeSchema = Joi.object({
+  facilityId,
+  from: dateKey.required(),
+  to: dateKey.required()
+});
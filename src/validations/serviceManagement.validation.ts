@@ -31,14 +31,6 @@ export const initializeServicesValidation = Joi.object({
       'string.empty': 'Facility type is required',
       'string.min': 'Facility type must be at least 2 characters long',
       'string.max': 'Facility type cannot exceed 50 characters'
-    }),
-    
-  createdBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Created by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -76,15 +68,7 @@ export const addServiceToCategoryValidation = Joi.object({
     
   isActive: Joi.boolean()
     .optional()
-    .default(false),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
-    })
+    .default(false)
 });
 
 // Validation schema for updating service status
@@ -112,14 +96,6 @@ export const updateServiceStatusValidation = Joi.object({
     .required()
     .messages({
       'boolean.base': 'isActive must be a boolean value'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -162,14 +138,6 @@ export const updateServiceDetailsValidation = Joi.object({
     .messages({
       'string.min': 'Service description must be at least 5 characters long',
       'string.max': 'Service description cannot exceed 500 characters'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -192,14 +160,6 @@ export const removeServiceFromCategoryValidation = Joi.object({
       'string.empty': 'Service name is required',
       'string.min': 'Service name must be at least 2 characters long',
       'string.max': 'Service name cannot exceed 100 characters'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -227,25 +187,6 @@ export const bulkUpdateServicesValidation = Joi.object({
       'array.min': 'At least one service update is required',
       'array.max': 'Cannot update more than 50 services at once',
       'array.base': 'Services must be an array'
-    }),
-    
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
-    })
-});
-
-// Validation schema for delete service management
-export const deleteServiceManagementValidation = Joi.object({
-  updatedBy: Joi.string()
-    .pattern(/^[0-9a-fA-F]{24}$/)
-    .required()
-    .messages({
-      'string.empty': 'Updated by user ID is required',
-      'string.pattern.base': 'Invalid user ID format'
     })
 });
 
@@ -387,21 +328,6 @@ export const validateBulkUpdateServices = (req: any, res: any, next: any) => {
   next();
 };
 
-export const validateDeleteServiceManagement = (req: any, res: any, next: any) => {
-  const { error } = deleteServiceManagementValidation.validate(req.body);
-  if (error) {
-    return res.status(400).json({
-      status: 'error',
-      message: 'Validation error',
-      errors: error.details.map(detail => ({
-        field: detail.path.join('.'),
-        message: detail.message
-      }))
-    });
-  }
-  next();
-};
-
 export const validateServiceQuery = (req: any, res: any, next: any) => {
   const { error } = serviceQueryValidation.validate(req.query);
   if (error) {
@@ -0,0 +1,97 @@
+import Joi from 'joi';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const facilityId = objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' });
+const time = Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).messages({ 'string.pattern.base': '{#label} must be a time in HH:MM format' });
+
+const stepsSchema = Joi.array().items(Joi.object({
+  shiftTemplateId: objectId.allow(null).required().messages({ 'string.pattern.base': 'Invalid shift template ID format' }),
+  days: Joi.number().integer().min(1).max(366).required()
+})).min(1).max(50);
+
+const idParam = (label: string) => Joi.object({
+  id: objectId.required().messages({
+    'any.required': `${label} ID is required`,
+    'string.pattern.base': `Invalid ${label.toLowerCase()} ID format`
+  })
+});
+
+// Validation schema for creating a shift template
+export const createShiftTemplateSchema = Joi.object({
+  facilityId,
+  name: Joi.string().trim().min(1).max(100).required(),
+  startTime: time.required(),
+  endTime: time.required(),
+  breakDuration: Joi.number().integer().min(0).max(480),
+  description: Joi.string().trim().max(500).allow('')
+});
+
+// Validation schema for updating a shift template (the facility cannot change)
+export const updateShiftTemplateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  startTime: time,
+  endTime: time,
+  breakDuration: Joi.number().integer().min(0).max(480),
+  description: Joi.string().trim().max(500).allow('')
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for creating a rotation pattern
+export const createRotationPatternSchema = Joi.object({
+  facilityId,
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().max(500).allow(''),
+  steps: stepsSchema.required()
+});
+
+// Validation schema for updating a rotation pattern
+export const updateRotationPatternSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  steps: stepsSchema
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for assigning a rotation pattern to an employee or a team
+export const createRotationAssignmentSchema = Joi.object({
+  rotationPatternId: objectId.required().messages({ 'string.pattern.base': 'Invalid rotation pattern ID format' }),
+  employeeIds: Joi.array().items(objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' })).min(1).max(200).unique().required(),
+  teamName: Joi.string().trim().max(100),
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().min(Joi.ref('startDate')).allow(null),
+  startOffset: Joi.number().integer().min(0),
+  isActive: Joi.boolean()
+});
+
+// Validation schema for updating a rotation assignment (the pattern cannot change)
+export const updateRotationAssignmentSchema = Joi.object({
+  employeeIds: Joi.array().items(objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' })).min(1).max(200).unique(),
+  teamName: Joi.string().trim().max(100).allow(''),
+  startDate: Joi.date().iso(),
+  endDate: Joi.date().iso().allow(null),
+  startOffset: Joi.number().integer().min(0),
+  isActive: Joi.boolean()
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for shift template, rotation pattern and assignment query parameters
+export const shiftRotationQuerySchema = Joi.object({
+  facilityId,
+  rotationPatternId: objectId.messages({ 'string.pattern.base': 'Invalid rotation pattern ID format' }),
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  isActive: Joi.boolean()
+});
+
+// Validation schema for materializing an assignment further ahead than the horizon
+export const materializeRotationSchema = Joi.object({
+  until: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({ 'string.pattern.base': 'until must be a date in YYYY-MM-DD format' })
+});
+
+// Validation schemas for the id parameters
+export const shiftTemplateIdParamSchema = idParam('Shift template');
+export const rotationPatternIdParamSchema = idParam('Rotation pattern');
+export const rotationAssignmentIdParamSchema = idParam('Rotation assignment');
@@ -0,0 +1,47 @@
+import Joi from 'joi';
+import { SHIFT_SWAP_STATUSES, ShiftSwapType } from '../models/ShiftSwapRequest';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+// Validation schema for proposing a shift swap or cover
+export const proposeShiftSwapSchema = Joi.object({
+  type: Joi.string().valid(...Object.values(ShiftSwapType)).required(),
+  rosterEntryId: objectId.required().messages({
+    'any.required': 'The roster entry of the shift to give away is required',
+    'string.pattern.base': 'Invalid roster entry ID format'
+  }),
+  counterpartId: objectId.required().messages({
+    'any.required': 'The employee to swap with is required',
+    'string.pattern.base': 'Invalid counterpart ID format'
+  }),
+  counterpartRosterEntryId: objectId
+    .when('type', { is: ShiftSwapType.SWAP, then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'any.required': 'A swap needs the roster entry of the counterpart\'s shift',
+      'any.unknown': 'A cover does not take a shift of the counterpart',
+      'string.pattern.base': 'Invalid roster entry ID format'
+    }),
+  reason: Joi.string().trim().max(500).allow('')
+});
+
+// Validation schema for declining a proposed swap
+export const declineShiftSwapSchema = Joi.object({
+  reason: Joi.string().trim().max(500).allow('')
+});
+
+// Validation schema for shift swap query parameters
+export const shiftSwapQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  status: Joi.string().valid(...SHIFT_SWAP_STATUSES),
+  type: Joi.string().valid(...Object.values(ShiftSwapType)),
+  from: Joi.date().iso(),
+  to: Joi.date().iso(),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the shift swaps of the current user
+export const myShiftSwapsQuerySchema = Joi.object({
+  status: Joi.string().valid(...SHIFT_SWAP_STATUSES)
+});
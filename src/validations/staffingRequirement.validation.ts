@@ -0,0 +1,41 @@
+import Joi from 'joi';
+import { WEEKDAY_NAMES } from '../models/StaffingRequirement';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const daysSchema = Joi.array().items(Joi.string().lowercase().valid(...WEEKDAY_NAMES)).unique();
+
+// Validation schema for creating a staffing requirement
+export const createStaffingRequirementSchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  shiftName: Joi.string().trim().min(1).max(100).required(),
+  department: Joi.string().trim().max(100).allow(null),
+  minHeadcount: Joi.number().integer().min(1).max(500).required(),
+  days: daysSchema,
+  isActive: Joi.boolean()
+});
+
+// Validation schema for updating a staffing requirement (the facility cannot change)
+export const updateStaffingRequirementSchema = Joi.object({
+  shiftName: Joi.string().trim().min(1).max(100),
+  department: Joi.string().trim().max(100).allow(null),
+  minHeadcount: Joi.number().integer().min(1).max(500),
+  days: daysSchema,
+  isActive: Joi.boolean()
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for staffing requirement query parameters
+export const staffingRequirementQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  shiftName: Joi.string().trim().max(100)
+});
+
+// Validation schema for the staffing requirement id parameter
+export const staffingRequirementIdParamSchema = Joi.object({
+  id: objectId.required().messages({
+    'any.required': 'Staffing requirement ID is required',
+    'string.pattern.base': 'Invalid staffing requirement ID format'
+  })
+});
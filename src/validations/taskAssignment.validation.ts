@@ -0,0 +1,73 @@
+import Joi from 'joi';
+import { TaskPriority, TaskStatus, TaskType } from '../models/TaskAssignment';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+// Validation schema for assigning a checklist task to an employee
+export const createTaskAssignmentSchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  sectionId: objectId.required().messages({
+    'any.required': 'Hygiene section ID is required',
+    'string.pattern.base': 'Invalid hygiene section ID format'
+  }),
+  checklistId: objectId.required().messages({
+    'any.required': 'Checklist ID is required',
+    'string.pattern.base': 'Invalid checklist ID format'
+  }),
+  employeeId: objectId.required().messages({
+    'any.required': 'Employee ID is required',
+    'string.pattern.base': 'Invalid employee ID format'
+  }),
+  floorLocationId: objectId.required().messages({
+    'any.required': 'Floor location ID is required',
+    'string.pattern.base': 'Invalid floor location ID format'
+  }),
+  taskType: Joi.string().valid(...Object.values(TaskType)).required(),
+  priority: Joi.string().valid(...Object.values(TaskPriority)),
+  dueDate: Joi.date().iso().greater('now').messages({ 'date.greater': 'Due date must be in the future' }),
+  notes: Joi.string().trim().max(1000).allow('')
+});
+
+// Validation schema for updating an open task
+export const updateTaskAssignmentSchema = Joi.object({
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  priority: Joi.string().valid(...Object.values(TaskPriority)),
+  dueDate: Joi.date().iso().allow(null),
+  notes: Joi.string().trim().max(1000).allow('')
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update'
+});
+
+// Validation schema for task assignment query parameters
+export const taskAssignmentQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  floorLocationId: objectId.messages({ 'string.pattern.base': 'Invalid floor location ID format' }),
+  sectionId: objectId.messages({ 'string.pattern.base': 'Invalid hygiene section ID format' }),
+  status: Joi.string().valid(...Object.values(TaskStatus)),
+  priority: Joi.string().valid(...Object.values(TaskPriority)),
+  taskType: Joi.string().valid(...Object.values(TaskType)),
+  dueFrom: Joi.date().iso(),
+  dueTo: Joi.date().iso(),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for the tasks of the current user
+export const myTasksQuerySchema = Joi.object({
+  status: Joi.string().valid(...Object.values(TaskStatus)),
+  floorLocationId: objectId.messages({ 'string.pattern.base': 'Invalid floor location ID format' })
+});
+
+// Validation schema for completing a task at its floor
+export const completeTaskSchema = Joi.object({
+  qrCode: Joi.string().trim().required().messages({
+    'any.required': 'Scan the QR code of the task\'s floor to complete it'
+  }),
+  notes: Joi.string().trim().max(1000).allow(''),
+  gpsLocation: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required()
+  }),
+  deviceInfo: Joi.string().trim().max(200)
+});
@@ -0,0 +1,47 @@
+import Joi from 'joi';
+import { TimesheetPeriod, TimesheetStatus } from '../models/Timesheet';
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+const dateKey = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({ 'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format' });
+
+// Validation schema for generating the timesheets of the week or month a date falls in
+export const generateTimesheetsSchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  period: Joi.string().valid(...Object.values(TimesheetPeriod)).required(),
+  date: dateKey.required().messages({ 'any.required': 'A date of the week or month is required' }),
+  employeeIds: Joi.array().items(objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' })).min(1).unique()
+});
+
+// Validation schema for timesheet query parameters
+export const timesheetQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  employeeId: objectId.messages({ 'string.pattern.base': 'Invalid employee ID format' }),
+  period: Joi.string().valid(...Object.values(TimesheetPeriod)),
+  status: Joi.string().valid(...Object.values(TimesheetStatus)),
+  from: dateKey,
+  to: dateKey,
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100)
+});
+
+// Validation schema for exporting the timesheets of a period
+export const exportTimesheetsQuerySchema = Joi.object({
+  facilityId: objectId.messages({ 'string.pattern.base': 'Invalid facility ID format' }),
+  period: Joi.string().valid(...Object.values(TimesheetPeriod)).required(),
+  date: dateKey.required().messages({ 'any.required': 'A date of the week or month is required' }),
+  status: Joi.string().valid(...Object.values(TimesheetStatus))
+});
+
+// Validation schema for the timesheets of the current user
+export const myTimesheetsQuerySchema = Joi.object({
+  period: Joi.string().valid(...Object.values(TimesheetPeriod)),
+  status: Joi.string().valid(...Object.values(TimesheetStatus))
+});
+
+// Validation schema for reopening a signed-off timesheet; the reason is kept in its remarks
+export const reopenTimesheetSchema = Joi.object({
+  remarks: Joi.string().trim().min(3).max(500).required().messages({
+    'any.required': 'Remarks are required when reopening a timesheet'
+  })
+});
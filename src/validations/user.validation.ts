@@ -25,16 +25,15 @@ export const createUserSchema = Joi.object({
       'string.max': 'Username cannot exceed 30 characters'
     }),
 
+  // Optional: users created without a password are invited to choose one
   password: Joi.string()
     .min(8)
     .max(128)
-    .required()
     .pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
     .messages({
       'string.min': 'Password must be at least 8 characters long',
       'string.max': 'Password cannot exceed 128 characters',
-      'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
-      'any.required': 'Password is required'
+      'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
     }),
 
   firstName: Joi.string()
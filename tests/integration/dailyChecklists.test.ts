@@ -0,0 +1,35 @@
+import { Types } from 'mongoose';
+import { ChecklistDepartment, DailyChecklist } from '../../src/models/DailyChecklist';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Daily checklists', {
+  model: DailyChecklist,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    hygieneSectionId: new Types.ObjectId(),
+    floorLocationId: new Types.ObjectId(),
+    checklistDate: new Date('2026-11-02T00:00:00Z'),
+    assignedDepartment: ChecklistDepartment.HOUSEKEEPING,
+    checklistItems: [{ itemName: 'Mop the lobby' }],
+    overallStatus: 'COMPLETED',
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/daily-checklists',
+  facilityList: facilityId => `/api/daily-checklists?facilityId=${facilityId}`,
+  writes: [
+    { name: 'verify', method: 'patch', path: id => `/api/daily-checklists/${id}/verify` },
+    { name: 'complete an item of', method: 'patch', path: id => `/api/daily-checklists/${id}/items/0/complete`, body: () => ({ notes: 'Done' }) }
+  ],
+  create: {
+    path: () => '/api/daily-checklists',
+    body: facilityId => ({
+      facilityId,
+      hygieneSectionId: new Types.ObjectId().toString(),
+      floorLocationId: new Types.ObjectId().toString(),
+      checklistDate: '2026-11-03',
+      assignedDepartment: ChecklistDepartment.HOUSEKEEPING,
+      checklistItems: [{ itemName: 'Mop the lobby' }]
+    })
+  }
+});
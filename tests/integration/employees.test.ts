@@ -0,0 +1,99 @@
+import request from 'supertest';
+import { app } from '../../src/app';
+import { IFacilityDetails } from '../../src/models/FacilityDetails';
+import { IUser, User, UserRole, UserStatus } from '../../src/models/User';
+import { authHeader, createFacility, createUser, startDatabase, stopDatabase } from './helpers';
+
+describe('Employees facility isolation', () => {
+  let ownFacility: IFacilityDetails;
+  let otherFacility: IFacilityDetails;
+  let authorization: string;
+  let ownEmployee: IUser;
+  let otherEmployee: IUser;
+  let otherFormerEmployee: IUser;
+
+  const loadUser = (user: IUser) => User.findById(user._id).lean();
+
+  beforeAll(async () => {
+    await startDatabase();
+    ownFacility = await createFacility('Own Facility');
+    otherFacility = await createFacility('Other Facility');
+
+    const manager = await createUser(UserRole.FACILITY_MANAGER, [ownFacility._id]);
+    ownEmployee = await createUser(UserRole.TECHNICIAN, [ownFacility._id]);
+    otherEmployee = await createUser(UserRole.TECHNICIAN, [otherFacility._id]);
+    otherFormerEmployee = await createUser(UserRole.TECHNICIAN, [otherFacility._id], { isDeleted: true, status: UserStatus.INACTIVE });
+
+    authorization = await authHeader(manager);
+  });
+
+  afterAll(stopDatabase);
+
+  it.each([
+    ['all employees', '/api/employees'],
+    ['employees by role', `/api/employees/role/${UserRole.TECHNICIAN}`]
+  ])('lists only employees of the user\'s facilities (%s)', async (_name, path) => {
+    const res = await request(app).get(path).set('Authorization', authorization);
+
+    expect(res.status).toBe(200);
+    expect(JSON.stringify(res.body)).toContain(ownEmployee._id.toString());
+    expect(JSON.stringify(res.body)).not.toContain(otherEmployee._id.toString());
+  });
+
+  it('refuses to list the employees of another facility', async () => {
+    const res = await request(app).get(`/api/employees/facility/${otherFacility._id}`).set('Authorization', authorization);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('returns an employee of the user\'s facility', async () => {
+    const res = await request(app).get(`/api/employees/${ownEmployee._id}`).set('Authorization', authorization);
+
+    expect(res.status).toBe(200);
+    expect(JSON.stringify(res.body)).toContain(ownEmployee._id.toString());
+  });
+
+  it.each([
+    ['details', ''],
+    ['permissions', '/permissions'],
+    ['exit details', '/exit-details']
+  ])('reports an employee of another facility as not found (%s)', async (_name, suffix) => {
+    const res = await request(app).get(`/api/employees/${otherEmployee._id}${suffix}`).set('Authorization', authorization);
+
+    expect(res.status).toBe(404);
+    expect(JSON.stringify(res.body)).not.toContain(otherEmployee.email);
+  });
+
+  it.each([
+    ['update', 'put', '', { firstName: 'Changed' }],
+    ['change the status of', 'patch', '/status', { status: UserStatus.SUSPENDED }],
+    ['change the role of', 'patch', '/role', { role: UserRole.SUPERVISOR }],
+    ['change the password of', 'patch', '/password', { currentPassword: 'Password123!', newPassword: 'Changed123!' }],
+    ['delete', 'delete', '', { exitDate: '2026-01-15', exitReason: 'Contract ended' }]
+  ] as const)('refuses to %s an employee of another facility', async (_name, method, suffix, body) => {
+    const before = await loadUser(otherEmployee);
+
+    const res = await request(app)[method](`/api/employees/${otherEmployee._id}${suffix}`)
+      .set('Authorization', authorization)
+      .send(body);
+
+    expect(res.status).toBe(404);
+    expect(await loadUser(otherEmployee)).toEqual(before);
+  });
+
+  it('refuses to restore a former employee of another facility', async () => {
+    const res = await request(app).patch(`/api/employees/${otherFormerEmployee._id}/restore`).set('Authorization', authorization);
+
+    expect(res.status).toBe(404);
+    expect((await loadUser(otherFormerEmployee))?.isDeleted).toBe(true);
+  });
+
+  it('refuses to assign an employee to another facility', async () => {
+    const res = await request(app).put(`/api/employees/${ownEmployee._id}`)
+      .set('Authorization', authorization)
+      .send({ managedFacilities: [otherFacility._id.toString()] });
+
+    expect(res.status).toBe(403);
+    expect((await loadUser(ownEmployee))?.managedFacilities.map(String)).toEqual([ownFacility._id.toString()]);
+  });
+});
@@ -0,0 +1,135 @@
+import { Model, Types } from 'mongoose';
+import request from 'supertest';
+import { app } from '../../src/app';
+import { IFacilityDetails } from '../../src/models/FacilityDetails';
+import { IUser, UserRole } from '../../src/models/User';
+import { authHeader, createFacility, createUser, startDatabase, stopDatabase } from './helpers';
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface FacilityIsolationWrite {
+  name: string; // What the request does, e.g. 'update'
+  method: Exclude<Method, 'get'>;
+  path: (id: string) => string;
+  body?: (user: IUser) => Record<string, unknown>;
+}
+
+export interface FacilityIsolationSpec {
+  model: Model<any>;
+  // Fields of a record of the facility, created by the user
+  seed: (facility: IFacilityDetails, user: IUser) => Record<string, unknown>;
+  list?: string; // Lists the records of all facilities in the user's scope, when the router has such a route
+  facilityList: (facilityId: string) => string; // Lists the records of one facility
+  detail?: (id: string) => string;
+  writes: FacilityIsolationWrite[];
+  create?: {
+    path: (facilityId: string) => string;
+    body: (facilityId: string, user: IUser) => Record<string, unknown>;
+  };
+}
+
+/**
+ * Checks that a facility manager only reaches the records of their own facility through a router:
+ * records of another facility are left out of lists, cannot be read, changed or deleted, and none can be created there.
+ */
+export const describeFacilityIsolation = (name: string, spec: FacilityIsolationSpec): void => {
+  describe(`${name} facility isolation`, () => {
+    let ownFacility: IFacilityDetails;
+    let otherFacility: IFacilityDetails;
+    let manager: IUser;
+    let authorization: string;
+    let ownId: string;
+    let otherId: string;
+
+    const send = (method: Method, path: string, body?: Record<string, unknown>) => {
+      const pending = request(app)[method](path).set('Authorization', authorization);
+      return body ? pending.send(body) : pending;
+    };
+
+    const loadOther = () => spec.model.findById(otherId).lean();
+
+    beforeAll(async () => {
+      await startDatabase();
+      ownFacility = await createFacility('Own Facility');
+      otherFacility = await createFacility('Other Facility');
+      manager = await createUser(UserRole.FACILITY_MANAGER, [ownFacility._id]);
+      const otherManager = await createUser(UserRole.FACILITY_MANAGER, [otherFacility._id]);
+
+      const own = await spec.model.create(spec.seed(ownFacility, manager));
+      const other = await spec.model.create(spec.seed(otherFacility, otherManager));
+      ownId = (own._id as Types.ObjectId).toString();
+      otherId = (other._id as Types.ObjectId).toString();
+
+      authorization = await authHeader(manager);
+    });
+
+    afterAll(stopDatabase);
+
+    if (spec.list) {
+      const listPath = spec.list;
+      it('lists only records of the user\'s facilities', async () => {
+        const res = await send('get', listPath);
+
+        expect(res.status).toBe(200);
+        expect(JSON.stringify(res.body)).toContain(ownId);
+        expect(JSON.stringify(res.body)).not.toContain(otherId);
+      });
+    }
+
+    it('lists the records of the user\'s facility', async () => {
+      const res = await send('get', spec.facilityList(ownFacility._id.toString()));
+
+      expect(res.status).toBe(200);
+      expect(JSON.stringify(res.body)).toContain(ownId);
+      expect(JSON.stringify(res.body)).not.toContain(otherId);
+    });
+
+    it('refuses to list the records of another facility', async () => {
+      const res = await send('get', spec.facilityList(otherFacility._id.toString()));
+
+      expect(res.status).toBe(403);
+      expect(JSON.stringify(res.body)).not.toContain(otherId);
+    });
+
+    if (spec.detail) {
+      const detailPath = spec.detail;
+      it('returns a record of the user\'s facility', async () => {
+        const res = await send('get', detailPath(ownId));
+
+        expect(res.status).toBe(200);
+        expect(JSON.stringify(res.body)).toContain(ownId);
+      });
+
+      it('refuses to return a record of another facility', async () => {
+        const res = await send('get', detailPath(otherId));
+
+        expect([403, 404]).toContain(res.status);
+        expect(JSON.stringify(res.body)).not.toContain(otherId);
+      });
+    }
+
+    for (const write of spec.writes) {
+      it(`refuses to ${write.name} a record of another facility`, async () => {
+        const before = await loadOther();
+
+        const res = await send(write.method, write.path(otherId), write.body?.(manager));
+
+        expect([403, 404]).toContain(res.status);
+        expect(await loadOther()).toEqual(before);
+      });
+    }
+
+    if (spec.create) {
+      const create = spec.create;
+      it('refuses to create a record in another facility', async () => {
+        const facilityId = otherFacility._id.toString();
+        const count = await spec.model.countDocuments({ facilityId });
+
+        const res = await send('post', create.path(facilityId), create.body(facilityId, manager));
+
+        expect(res.status).toBe(403);
+        expect(await spec.model.countDocuments({ facilityId })).toBe(count);
+      });
+    }
+  });
+};
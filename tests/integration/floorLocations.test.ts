@@ -0,0 +1,26 @@
+import { FloorLocation } from '../../src/models/FloorLocation';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Floor locations', {
+  model: FloorLocation,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    floorName: 'Ground Floor',
+    floorNumber: 0,
+    qrCode: `FLOOR-${facility._id}-0`,
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/floor-locations',
+  facilityList: facilityId => `/api/floor-locations?facilityId=${facilityId}`,
+  detail: id => `/api/floor-locations/${id}`,
+  writes: [
+    { name: 'update', method: 'put', path: id => `/api/floor-locations/${id}`, body: () => ({ floorName: 'Renamed' }) },
+    { name: 'delete', method: 'delete', path: id => `/api/floor-locations/${id}` },
+    { name: 'rotate the QR code of', method: 'post', path: id => `/api/floor-locations/${id}/qr/rotate` }
+  ],
+  create: {
+    path: () => '/api/floor-locations',
+    body: facilityId => ({ facilityId, floorName: 'First Floor', floorNumber: 1 })
+  }
+});
@@ -0,0 +1,56 @@
+import jwt from 'jsonwebtoken';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import mongoose, { Types } from 'mongoose';
+import { config } from '../../src/config';
+import { FacilityDetails, IFacilityDetails } from '../../src/models/FacilityDetails';
+import { IUser, User, UserRole, UserStatus, VerificationStatus } from '../../src/models/User';
+
+// Shared setup of the integration tests: an in-memory database, facilities and signed-in users
+
+let mongoServer: MongoMemoryServer | undefined;
+
+export const startDatabase = async (): Promise<void> => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+};
+
+export const stopDatabase = async (): Promise<void> => {
+  await mongoose.disconnect();
+  await mongoServer?.stop();
+  mongoServer = undefined;
+};
+
+export const createFacility = (siteName: string): Promise<IFacilityDetails> =>
+  FacilityDetails.create({
+    siteName,
+    city: 'Bengaluru',
+    location: `${siteName} Road 1`,
+    clientName: `${siteName} Client`,
+    position: 'Site Lead',
+    contactNo: '+91 80 1234 5678',
+    facilityType: 'Commercial'
+  });
+
+let userCount = 0;
+
+export const createUser = (role: UserRole, facilities: Types.ObjectId[], overrides: Record<string, unknown> = {}): Promise<IUser> => {
+  userCount += 1;
+  return User.create({
+    email: `user${userCount}@example.com`,
+    password: 'Password123!',
+    firstName: 'Test',
+    lastName: `User ${userCount}`,
+    role,
+    status: UserStatus.ACTIVE,
+    verificationStatus: VerificationStatus.VERIFIED,
+    managedFacilities: facilities,
+    ...overrides
+  });
+};
+
+// Authorization header of a signed-in session of the user
+export const authHeader = async (user: IUser): Promise<string> => {
+  const token = jwt.sign({ id: user._id.toString(), email: user.email, role: user.role }, config.JWT_SECRET as string, { expiresIn: '1h' });
+  await user.addSessionToken(token);
+  return `Bearer ${token}`;
+};
@@ -0,0 +1,25 @@
+import { Types } from 'mongoose';
+import { HygieneChecklist } from '../../src/models/HygieneChecklist';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Hygiene checklists', {
+  model: HygieneChecklist,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    sectionId: new Types.ObjectId(),
+    checklistType: 'daily',
+    fileName: 'checklist.xlsx',
+    filePath: `hygiene-checklists/${facility._id}/checklist.xlsx`,
+    fileSize: 2048,
+    uploadedBy: user._id,
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/hygiene-checklists',
+  facilityList: facilityId => `/api/hygiene-checklists?facilityId=${facilityId}`,
+  detail: id => `/api/hygiene-checklists/${id}`,
+  writes: [
+    { name: 'update', method: 'patch', path: id => `/api/hygiene-checklists/${id}`, body: () => ({ checklistType: 'weekly' }) },
+    { name: 'delete', method: 'delete', path: id => `/api/hygiene-checklists/${id}` }
+  ]
+});
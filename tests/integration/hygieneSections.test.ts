@@ -0,0 +1,23 @@
+import { HygieneSection } from '../../src/models/HygieneSection';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Hygiene sections', {
+  model: HygieneSection,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    sectionName: `${facility.siteName} Lobby`,
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/hygiene-sections',
+  facilityList: facilityId => `/api/hygiene-sections?facilityId=${facilityId}`,
+  detail: id => `/api/hygiene-sections/${id}`,
+  writes: [
+    { name: 'update', method: 'patch', path: id => `/api/hygiene-sections/${id}`, body: () => ({ sectionName: 'Renamed' }) },
+    { name: 'delete', method: 'delete', path: id => `/api/hygiene-sections/${id}` }
+  ],
+  create: {
+    path: () => '/api/hygiene-sections',
+    body: facilityId => ({ facilityId, sectionName: 'Foyer' })
+  }
+});
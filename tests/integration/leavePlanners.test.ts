@@ -0,0 +1,36 @@
+import { LeavePlanner } from '../../src/models/LeavePlanner';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Leave planners', {
+  model: LeavePlanner,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    employeeId: user._id,
+    leaveType: 'annual',
+    startDate: new Date('2026-11-02T00:00:00Z'),
+    endDate: new Date('2026-11-03T00:00:00Z'),
+    totalDays: 2,
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/leave-planners',
+  facilityList: facilityId => `/api/leave-planners?facilityId=${facilityId}`,
+  detail: id => `/api/leave-planners/${id}`,
+  writes: [
+    { name: 'update', method: 'patch', path: id => `/api/leave-planners/${id}`, body: () => ({ reason: 'Family visit' }) },
+    { name: 'approve', method: 'post', path: id => `/api/leave-planners/${id}/approve`, body: () => ({}) },
+    { name: 'reject', method: 'post', path: id => `/api/leave-planners/${id}/reject`, body: () => ({ remarks: 'Short staffed' }) },
+    { name: 'cancel', method: 'post', path: id => `/api/leave-planners/${id}/cancel`, body: () => ({}) },
+    { name: 'delete', method: 'delete', path: id => `/api/leave-planners/${id}` }
+  ],
+  create: {
+    path: () => '/api/leave-planners',
+    body: (facilityId, user) => ({
+      facilityId,
+      employeeId: user._id.toString(),
+      leaveType: 'annual',
+      startDate: '2026-11-09',
+      endDate: '2026-11-10'
+    })
+  }
+});
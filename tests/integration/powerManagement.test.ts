@@ -0,0 +1,25 @@
+import { PowerManagement } from '../../src/models/PowerManagement';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Power management', {
+  model: PowerManagement,
+  seed: facility => ({
+    facilityId: facility._id,
+    meterId: `MTR-${facility._id}`,
+    location: 'Basement',
+    connectedLoad: 120,
+    units: 3400,
+    powerFactor: 0.95
+  }),
+  list: '/api/power-management',
+  facilityList: facilityId => `/api/power-management?facilityId=${facilityId}`,
+  detail: id => `/api/power-management/${id}`,
+  writes: [
+    { name: 'update', method: 'put', path: id => `/api/power-management/${id}`, body: () => ({ units: 3500 }) },
+    { name: 'delete', method: 'delete', path: id => `/api/power-management/${id}` }
+  ],
+  create: {
+    path: () => '/api/power-management',
+    body: facilityId => ({ facilityId, meterId: 'MTR-NEW', location: 'Roof', connectedLoad: 40, units: 0, powerFactor: 0.9 })
+  }
+});
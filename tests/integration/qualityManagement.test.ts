@@ -0,0 +1,21 @@
+import { STP } from '../../src/models/QualityManagement';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Sewage treatment plants', {
+  model: STP,
+  seed: facility => ({
+    facilityId: facility._id,
+    mlss: 3000
+  }),
+  list: '/api/quality-management/stp',
+  facilityList: facilityId => `/api/quality-management/stp?facilityId=${facilityId}`,
+  detail: id => `/api/quality-management/stp/${id}`,
+  writes: [
+    { name: 'update', method: 'put', path: id => `/api/quality-management/stp/${id}`, body: () => ({ mlss: 3500 }) },
+    { name: 'delete', method: 'delete', path: id => `/api/quality-management/stp/${id}` }
+  ],
+  create: {
+    path: () => '/api/quality-management/stp',
+    body: facilityId => ({ facilityId, mlss: 2500 })
+  }
+});
@@ -0,0 +1,23 @@
+import { Roster, RosterStatus } from '../../src/models/Roster';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Rosters', {
+  model: Roster,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    date: new Date('2026-11-02T00:00:00Z'),
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/rosters',
+  facilityList: facilityId => `/api/rosters?facilityId=${facilityId}`,
+  detail: id => `/api/rosters/${id}`,
+  writes: [
+    { name: 'update', method: 'patch', path: id => `/api/rosters/${id}`, body: () => ({ status: RosterStatus.DRAFT }) },
+    { name: 'delete', method: 'delete', path: id => `/api/rosters/${id}` }
+  ],
+  create: {
+    path: () => '/api/rosters',
+    body: facilityId => ({ facilityId, date: '2026-11-03', shifts: [] })
+  }
+});
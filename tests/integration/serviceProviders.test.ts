@@ -0,0 +1,43 @@
+import { ContractStatus, ServiceCategory, ServiceProvider } from '../../src/models/ServiceProvider';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Service providers', {
+  model: ServiceProvider,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    providerName: 'Sparkle Cleaning',
+    category: ServiceCategory.SOFT_SERVICES,
+    contactPerson: 'Asha Rao',
+    phone: '+91 98450 12345',
+    email: 'contact@sparkle.example.com',
+    contractStatus: ContractStatus.ACTIVE,
+    createdBy: user._id
+  }),
+  facilityList: facilityId => `/api/service-providers/${facilityId}`,
+  detail: id => `/api/service-providers/provider/${id}`,
+  writes: [
+    {
+      name: 'update',
+      method: 'put',
+      path: id => `/api/service-providers/provider/${id}`,
+      body: user => ({ contactPerson: 'Ravi Kumar', updatedBy: user._id.toString() })
+    },
+    {
+      name: 'delete',
+      method: 'delete',
+      path: id => `/api/service-providers/provider/${id}`,
+      body: user => ({ updatedBy: user._id.toString() })
+    }
+  ],
+  create: {
+    path: facilityId => `/api/service-providers/${facilityId}`,
+    body: () => ({
+      providerName: 'Green Gardens',
+      category: ServiceCategory.SOFT_SERVICES,
+      contactPerson: 'Meera Iyer',
+      phone: '+91 98450 67890',
+      email: 'hello@greengardens.example.com',
+      contractStatus: ContractStatus.ACTIVE
+    })
+  }
+});
@@ -0,0 +1,36 @@
+import { ShiftSchedule } from '../../src/models/ShiftSchedule';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Shift schedules', {
+  model: ShiftSchedule,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    employeeId: user._id,
+    shiftName: 'Morning',
+    startTime: '09:00',
+    endTime: '17:00',
+    workingDays: ['Monday', 'Tuesday'],
+    rosterDate: new Date('2026-11-02T00:00:00Z'),
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/shift-schedules',
+  facilityList: facilityId => `/api/shift-schedules?facilityId=${facilityId}`,
+  detail: id => `/api/shift-schedules/${id}`,
+  writes: [
+    { name: 'update', method: 'patch', path: id => `/api/shift-schedules/${id}`, body: () => ({ shiftName: 'Evening' }) },
+    { name: 'delete', method: 'delete', path: id => `/api/shift-schedules/${id}` }
+  ],
+  create: {
+    path: () => '/api/shift-schedules',
+    body: (facilityId, user) => ({
+      facilityId,
+      employeeId: user._id.toString(),
+      shiftName: 'Morning',
+      startTime: '09:00',
+      endTime: '17:00',
+      workingDays: ['Wednesday'],
+      rosterDate: '2026-11-04'
+    })
+  }
+});
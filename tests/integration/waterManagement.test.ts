@@ -0,0 +1,24 @@
+import { WaterTank } from '../../src/models/WaterManagement';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Water tanks', {
+  model: WaterTank,
+  seed: facility => ({
+    facilityId: facility._id,
+    tankName: 'Tank A',
+    location: 'Terrace',
+    capacity: 10000,
+    type: 'overhead'
+  }),
+  list: '/api/water-management/tanks',
+  facilityList: facilityId => `/api/water-management/tanks?facilityId=${facilityId}`,
+  detail: id => `/api/water-management/tanks/${id}`,
+  writes: [
+    { name: 'update', method: 'put', path: id => `/api/water-management/tanks/${id}`, body: () => ({ capacity: 12000 }) },
+    { name: 'delete', method: 'delete', path: id => `/api/water-management/tanks/${id}` }
+  ],
+  create: {
+    path: () => '/api/water-management/tanks',
+    body: facilityId => ({ facilityId, tankName: 'Tank B', location: 'Basement', capacity: 5000, type: 'underground' })
+  }
+});
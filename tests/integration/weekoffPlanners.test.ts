@@ -0,0 +1,35 @@
+import { WeekoffPlanner } from '../../src/models/WeekoffPlanner';
+import { describeFacilityIsolation } from './facilityIsolation';
+
+describeFacilityIsolation('Week-off planners', {
+  model: WeekoffPlanner,
+  seed: (facility, user) => ({
+    facilityId: facility._id,
+    employeeId: user._id,
+    weekStartDate: new Date('2026-11-02T00:00:00Z'),
+    weekEndDate: new Date('2026-11-08T00:00:00Z'),
+    weekoffDays: ['Sunday'],
+    createdBy: user._id,
+    updatedBy: user._id
+  }),
+  list: '/api/weekoff-planners',
+  facilityList: facilityId => `/api/weekoff-planners?facilityId=${facilityId}`,
+  detail: id => `/api/weekoff-planners/${id}`,
+  writes: [
+    { name: 'update', method: 'patch', path: id => `/api/weekoff-planners/${id}`, body: () => ({ weekoffDays: ['Saturday'] }) },
+    { name: 'approve', method: 'post', path: id => `/api/weekoff-planners/${id}/approve`, body: () => ({}) },
+    { name: 'reject', method: 'post', path: id => `/api/weekoff-planners/${id}/reject`, body: () => ({ remarks: 'Short staffed' }) },
+    { name: 'cancel', method: 'post', path: id => `/api/weekoff-planners/${id}/cancel`, body: () => ({}) },
+    { name: 'delete', method: 'delete', path: id => `/api/weekoff-planners/${id}` }
+  ],
+  create: {
+    path: () => '/api/weekoff-planners',
+    body: (facilityId, user) => ({
+      facilityId,
+      employeeId: user._id.toString(),
+      weekStartDate: '2026-11-09',
+      weekEndDate: '2026-11-15',
+      weekoffDays: ['Sunday']
+    })
+  }
+});
@@ -0,0 +1,11 @@
+// Environment of the test run, set before any module reads the config
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.JWT_REFRESH_SECRET = 'test-jwt-refresh-secret';
+process.env.MAIL_TRANSPORT = 'console';
+
+// Scheduled jobs never run in tests
+process.env.ATTENDANCE_ABSENTEE_CRON = '';
+process.env.SHIFT_ROTATION_CRON = '';
+process.env.TASK_OVERDUE_CRON = '';
+process.env.CHECKLIST_GENERATION_CRON = '';
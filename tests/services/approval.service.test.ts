@@ -0,0 +1,57 @@
+import { Types } from 'mongoose';
+import { LeavePlanner } from '../../src/models/LeavePlanner';
+import { IUser, UserRole } from '../../src/models/User';
+import { ApprovalService } from '../../src/services/approval.service';
+
+describe('ApprovalService', () => {
+  describe('saveDecision', () => {
+    const approver = { _id: new Types.ObjectId(), role: UserRole.FACILITY_MANAGER } as unknown as IUser;
+
+    const loadLeave = (fields: Record<string, unknown> = {}) => LeavePlanner.hydrate({
+      _id: new Types.ObjectId(),
+      facilityId: new Types.ObjectId(),
+      employeeId: new Types.ObjectId(),
+      leaveType: 'annual',
+      startDate: new Date('2026-03-02'),
+      endDate: new Date('2026-03-03'),
+      totalDays: 2,
+      status: 'pending',
+      approvalChain: [UserRole.SUPERVISOR, UserRole.FACILITY_MANAGER],
+      approvalLevel: 1,
+      approvalHistory: [],
+      isDeleted: false,
+      ...fields
+    });
+
+    it('writes the decision only if the request is still in the state it was loaded in', async () => {
+      const leave = loadLeave();
+      const loaded = ApprovalService.stateOf(leave);
+      ApprovalService.approve(leave, approver);
+      const findOneAndUpdate = jest.spyOn(LeavePlanner, 'findOneAndUpdate').mockResolvedValue(leave as any);
+
+      await expect(ApprovalService.saveDecision(leave, loaded)).resolves.toBe(leave);
+      const [filter, update] = findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: leave._id, status: 'pending', approvalLevel: 1 });
+      expect(update).toMatchObject({ $set: { status: 'approved', approvalLevel: 2 } });
+    });
+
+    it('matches requests without an approval level at the first level', async () => {
+      const leave = loadLeave({ approvalChain: [], approvalLevel: undefined });
+      const loaded = ApprovalService.stateOf(leave);
+      ApprovalService.reject(leave, approver, 'Short staffed');
+      const findOneAndUpdate = jest.spyOn(LeavePlanner, 'findOneAndUpdate').mockResolvedValue(leave as any);
+
+      await ApprovalService.saveDecision(leave, loaded);
+      expect(findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: leave._id, status: 'pending', approvalLevel: { $in: [0, null] } });
+    });
+
+    it('returns null when the request was decided on meanwhile', async () => {
+      const leave = loadLeave();
+      const loaded = ApprovalService.stateOf(leave);
+      ApprovalService.reject(leave, approver, 'Short staffed');
+      jest.spyOn(LeavePlanner, 'findOneAndUpdate').mockResolvedValue(null);
+
+      await expect(ApprovalService.saveDecision(leave, loaded)).resolves.toBeNull();
+    });
+  });
+});
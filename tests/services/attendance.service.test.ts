@@ -0,0 +1,112 @@
+import { Types } from 'mongoose';
+import { IAttendance } from '../../src/models/Attendance';
+import { AttendanceVerification, IAttendanceSettings } from '../../src/models/AttendanceSettings';
+import { AttendanceService } from '../../src/services/attendance.service';
+
+const facilityId = new Types.ObjectId();
+const buildSettings = (settings: Partial<IAttendanceSettings> = {}) => ({
+  facilityId,
+  verificationMethods: [AttendanceVerification.QR, AttendanceVerification.GEOFENCE],
+  geofence: { latitude: 12.9716, longitude: 77.5946, radiusMeters: 200 },
+  lateGraceMinutes: 10,
+  earlyExitGraceMinutes: 10,
+  qrTokenId: 'current-token',
+  ...settings
+}) as unknown as IAttendanceSettings;
+
+describe('AttendanceService', () => {
+  describe('shiftWindow', () => {
+    it('places a day shift on the local date of the facility', () => {
+      const window = AttendanceService.shiftWindow({ startTime: '09:00', endTime: '17:30' }, '2026-03-10', 'Asia/Kolkata');
+      expect(window.start.toISOString()).toBe('2026-03-10T03:30:00.000Z');
+      expect(window.end.toISOString()).toBe('2026-03-10T12:00:00.000Z');
+    });
+
+    it('ends a night shift on the next day', () => {
+      const window = AttendanceService.shiftWindow({ startTime: '22:00', endTime: '06:00' }, '2026-03-10', 'Asia/Kolkata');
+      expect(window.start.toISOString()).toBe('2026-03-10T16:30:00.000Z');
+      expect(window.end.toISOString()).toBe('2026-03-11T00:30:00.000Z');
+    });
+
+    it('ends a night shift over the new year in the next year', () => {
+      const window = AttendanceService.shiftWindow({ startTime: '23:00', endTime: '07:00' }, '2026-12-31', 'UTC');
+      expect(window.start.toISOString()).toBe('2026-12-31T23:00:00.000Z');
+      expect(window.end.toISOString()).toBe('2027-01-01T07:00:00.000Z');
+    });
+
+    it('reads both ends in the offset of their own day when the clocks change overnight', () => {
+      // Clocks in Berlin go forward from 02:00 to 03:00 on 29 March 2026
+      const window = AttendanceService.shiftWindow({ startTime: '22:00', endTime: '06:00' }, '2026-03-28', 'Europe/Berlin');
+      expect(window.start.toISOString()).toBe('2026-03-28T21:00:00.000Z');
+      expect(window.end.toISOString()).toBe('2026-03-29T04:00:00.000Z');
+    });
+  });
+
+  describe('localDateKey', () => {
+    it('gives the calendar date in the facility time zone', () => {
+      const instant = new Date('2026-03-10T20:00:00.000Z');
+      expect(AttendanceService.localDateKey(instant, 'Asia/Kolkata')).toBe('2026-03-11');
+      expect(AttendanceService.localDateKey(instant, 'America/New_York')).toBe('2026-03-10');
+    });
+  });
+
+  describe('verifyPresence', () => {
+    it('accepts a location inside the geofence and rejects one outside it', () => {
+      const settings = buildSettings();
+      const inside = AttendanceService.verifyPresence(settings, {
+        method: AttendanceVerification.GEOFENCE,
+        location: { latitude: 12.9720, longitude: 77.5950 }
+      });
+      expect(inside.verified).toBe(true);
+
+      const outside = AttendanceService.verifyPresence(settings, {
+        method: AttendanceVerification.GEOFENCE,
+        location: { latitude: 12.9816, longitude: 77.5946 }
+      });
+      expect(outside.verified).toBe(false);
+      expect(outside.distanceMeters).toBeGreaterThan(1000);
+    });
+
+    it('accepts only the current QR code of the facility', () => {
+      const settings = buildSettings();
+      const current = AttendanceService.getQrToken(settings)!;
+      const outdated = AttendanceService.getQrToken(buildSettings({ qrTokenId: 'earlier-token' }))!;
+      const otherFacility = AttendanceService.getQrToken(buildSettings({ facilityId: new Types.ObjectId() } as any))!;
+
+      expect(AttendanceService.verifyPresence(settings, { method: AttendanceVerification.QR, qrCode: current }).verified).toBe(true);
+      expect(AttendanceService.verifyPresence(settings, { method: AttendanceVerification.QR, qrCode: outdated }).verified).toBe(false);
+      expect(AttendanceService.verifyPresence(settings, { method: AttendanceVerification.QR, qrCode: otherFacility }).verified).toBe(false);
+      expect(AttendanceService.verifyPresence(settings, { method: AttendanceVerification.QR, qrCode: 'not-a-token' }).verified).toBe(false);
+    });
+
+    it('rejects methods the facility does not accept', () => {
+      const settings = buildSettings({ verificationMethods: [AttendanceVerification.QR] });
+      const check = AttendanceService.verifyPresence(settings, {
+        method: AttendanceVerification.GEOFENCE,
+        location: { latitude: 12.9716, longitude: 77.5946 }
+      });
+      expect(check.verified).toBe(false);
+    });
+  });
+
+  describe('applyCheckIn and applyCheckOut', () => {
+    it('measures lateness, early exit and time worked of a night shift against its window', () => {
+      const settings = buildSettings();
+      const window = AttendanceService.shiftWindow({ startTime: '22:00', endTime: '06:00' }, '2026-03-10', 'Asia/Kolkata');
+      const attendance = { scheduledStart: window.start, scheduledEnd: window.end } as unknown as IAttendance;
+
+      AttendanceService.applyCheckIn(attendance, { time: new Date('2026-03-10T16:55:00.000Z'), method: AttendanceVerification.QR }, settings);
+      AttendanceService.applyCheckOut(attendance, { time: new Date('2026-03-11T00:00:00.000Z'), method: AttendanceVerification.QR }, settings);
+
+      expect(attendance.lateMinutes).toBe(25);
+      expect(attendance.earlyExitMinutes).toBe(30);
+      expect(attendance.workedMinutes).toBe(425);
+    });
+
+    it('does not count lateness within the grace period', () => {
+      const attendance = { scheduledStart: new Date('2026-03-10T03:30:00.000Z') } as unknown as IAttendance;
+      AttendanceService.applyCheckIn(attendance, { time: new Date('2026-03-10T03:38:00.000Z'), method: AttendanceVerification.QR }, buildSettings());
+      expect(attendance.lateMinutes).toBe(0);
+    });
+  });
+});
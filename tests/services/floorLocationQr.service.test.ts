@@ -0,0 +1,101 @@
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { config } from '../../src/config';
+import { IAttendanceSettings } from '../../src/models/AttendanceSettings';
+import { FloorLocation, IFloorLocation } from '../../src/models/FloorLocation';
+import { AttendanceService } from '../../src/services/attendance.service';
+import { FloorLocationQrService } from '../../src/services/floorLocationQr.service';
+
+const buildFloor = (floor: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  facilityId: new Types.ObjectId(),
+  qrTokenId: 'current-code',
+  ...floor
+}) as unknown as IFloorLocation;
+
+const mockFindOne = (floor: IFloorLocation | null) =>
+  jest.spyOn(FloorLocation, 'findOne').mockReturnValue({ select: jest.fn().mockResolvedValue(floor) } as any);
+
+describe('FloorLocationQrService', () => {
+  describe('getToken', () => {
+    it('has no token for a floor without a code', () => {
+      expect(FloorLocationQrService.getToken(buildFloor({ qrTokenId: undefined }))).toBeNull();
+    });
+
+    it('signs the same token until the code is rotated', () => {
+      const floor = buildFloor();
+      const token = FloorLocationQrService.getToken(floor);
+      expect(FloorLocationQrService.getToken(floor)).toBe(token);
+
+      FloorLocationQrService.issue(floor);
+      expect(FloorLocationQrService.getToken(floor)).not.toBe(token);
+    });
+  });
+
+  describe('readToken', () => {
+    it('reads the floor, facility and code of a token, ignoring surrounding whitespace', () => {
+      const floor = buildFloor();
+      const payload = FloorLocationQrService.readToken(` ${FloorLocationQrService.getToken(floor)}\n`);
+      expect(payload).toEqual(expect.objectContaining({
+        floorLocationId: floor._id.toString(),
+        facilityId: floor.facilityId.toString(),
+        purpose: 'floor-location',
+        jti: 'current-code'
+      }));
+    });
+
+    it('rejects tokens signed with another secret', () => {
+      const forged = jwt.sign({ floorLocationId: new Types.ObjectId().toString(), purpose: 'floor-location' }, 'another-secret', { jwtid: 'code' });
+      expect(FloorLocationQrService.readToken(forged)).toBeNull();
+      expect(FloorLocationQrService.readToken('FLOOR-1-QR')).toBeNull();
+    });
+
+    it('rejects attendance QR tokens of a facility', () => {
+      const attendanceToken = AttendanceService.getQrToken({ facilityId: new Types.ObjectId(), qrTokenId: 'code' } as unknown as IAttendanceSettings)!;
+      expect(FloorLocationQrService.readToken(attendanceToken)).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    it('finds the floor of its current code among the floors matching the filter', async () => {
+      const floor = buildFloor();
+      const findOne = mockFindOne(floor);
+      const filter = { facilityId: { $in: [floor.facilityId] } };
+
+      await expect(FloorLocationQrService.resolve(FloorLocationQrService.getToken(floor)!, filter)).resolves.toBe(floor);
+      expect(findOne).toHaveBeenCalledWith({ ...filter, _id: floor._id.toString(), isDeleted: false });
+    });
+
+    it('rejects a code rotated out', async () => {
+      const floor = buildFloor();
+      const token = FloorLocationQrService.getToken(floor)!;
+      mockFindOne(buildFloor({ _id: floor._id, facilityId: floor.facilityId, qrTokenId: 'rotated-code' }));
+
+      await expect(FloorLocationQrService.resolve(token)).resolves.toBeNull();
+    });
+
+    it('rejects a code of a floor outside the filter', async () => {
+      mockFindOne(null);
+
+      await expect(FloorLocationQrService.resolve(FloorLocationQrService.getToken(buildFloor())!, { facilityId: new Types.ObjectId() })).resolves.toBeNull();
+    });
+
+    it('rejects a code issued for the floor while it belonged to another facility', async () => {
+      const floor = buildFloor();
+      const token = FloorLocationQrService.getToken(floor)!;
+      mockFindOne(buildFloor({ _id: floor._id, facilityId: new Types.ObjectId() }));
+
+      await expect(FloorLocationQrService.resolve(token)).resolves.toBeNull();
+    });
+
+    it('rejects forged and malformed tokens without a lookup', async () => {
+      const findOne = mockFindOne(buildFloor());
+      const forged = jwt.sign({ floorLocationId: new Types.ObjectId().toString(), facilityId: new Types.ObjectId().toString(), purpose: 'floor-location' }, 'another-secret', { jwtid: 'current-code' });
+      const invalidId = jwt.sign({ floorLocationId: 'not-an-id', facilityId: 'x', purpose: 'floor-location' }, config.JWT_SECRET as string, { jwtid: 'current-code' });
+
+      await expect(FloorLocationQrService.resolve(forged)).resolves.toBeNull();
+      await expect(FloorLocationQrService.resolve(invalidId)).resolves.toBeNull();
+      expect(findOne).not.toHaveBeenCalled();
+    });
+  });
+});
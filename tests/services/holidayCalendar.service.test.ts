@@ -0,0 +1,117 @@
+import { Types } from 'mongoose';
+import { Holiday, HolidayType } from '../../src/models/Holiday';
+import { IUser } from '../../src/models/User';
+import { WeekoffPlanner } from '../../src/models/WeekoffPlanner';
+import { HolidayCalendarService } from '../../src/services/holidayCalendar.service';
+
+const facilityId = new Types.ObjectId();
+const employeeIn = (state: string) => ({ _id: new Types.ObjectId(), profile: { address: { state } } }) as unknown as IUser;
+const utc = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+// 28 December 2026 is a Monday
+const HOLIDAYS = [
+  { _id: new Types.ObjectId(), name: 'New Year', type: HolidayType.PUBLIC, regions: [], recurring: true, date: utc('2020-01-01') },
+  { _id: new Types.ObjectId(), name: 'State Day', type: HolidayType.REGIONAL, regions: ['Karnataka'], recurring: false, date: utc('2026-12-30') },
+  { _id: new Types.ObjectId(), name: 'Year End', type: HolidayType.OPTIONAL, regions: [], recurring: false, date: utc('2026-12-31') }
+];
+const WEEKOFFS = [
+  { weekStartDate: utc('2026-12-28'), weekEndDate: utc('2027-01-03'), weekoffDays: ['Saturday', 'sunday'] }
+];
+
+const mockCalendar = (holidays = HOLIDAYS, weekoffs = WEEKOFFS) => {
+  jest.spyOn(Holiday, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue(holidays) } as any);
+  jest.spyOn(WeekoffPlanner, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue(weekoffs) } as any);
+};
+
+describe('HolidayCalendarService', () => {
+  describe('calculateLeaveDays', () => {
+    it('leaves out holidays of the employee and approved week-offs', async () => {
+      mockCalendar();
+
+      const duration = await HolidayCalendarService.calculateLeaveDays({
+        employee: employeeIn('karnataka'),
+        facilityId,
+        startDate: utc('2026-12-28'),
+        endDate: utc('2027-01-05')
+      });
+
+      expect(duration.calendarDays).toBe(9);
+      expect(duration.totalDays).toBe(5);
+      expect(duration.holidays).toEqual([
+        { date: '2026-12-30', name: 'State Day' },
+        { date: '2027-01-01', name: 'New Year' }
+      ]);
+      expect(duration.weekoffDates).toEqual(['2027-01-02', '2027-01-03']);
+    });
+
+    it('splits the working days by the calendar year they fall in', async () => {
+      mockCalendar();
+
+      const duration = await HolidayCalendarService.calculateLeaveDays({
+        employee: employeeIn('Karnataka'),
+        facilityId,
+        startDate: utc('2026-12-28'),
+        endDate: utc('2027-01-05')
+      });
+
+      expect(duration.daysByYear).toEqual({ 2026: 3, 2027: 2 });
+    });
+
+    it('counts regional holidays of other regions and optional holidays as working days', async () => {
+      mockCalendar();
+
+      const duration = await HolidayCalendarService.calculateLeaveDays({
+        employee: employeeIn('Kerala'),
+        facilityId,
+        startDate: utc('2026-12-29'),
+        endDate: utc('2026-12-31')
+      });
+
+      expect(duration.totalDays).toBe(3);
+      expect(duration.holidays).toEqual([]);
+    });
+
+    it('reads the dates as UTC calendar dates, whatever their time of day', async () => {
+      mockCalendar([], []);
+
+      const duration = await HolidayCalendarService.calculateLeaveDays({
+        employee: employeeIn('Kerala'),
+        facilityId,
+        startDate: new Date('2026-12-31T23:30:00.000Z'),
+        endDate: new Date('2027-01-01T00:15:00.000Z')
+      });
+
+      expect(duration.calendarDays).toBe(2);
+      expect(duration.daysByYear).toEqual({ 2026: 1, 2027: 1 });
+    });
+
+    it('counts half a day for a half-day leave', async () => {
+      mockCalendar();
+
+      const duration = await HolidayCalendarService.calculateLeaveDays({
+        employee: employeeIn('Kerala'),
+        facilityId,
+        startDate: utc('2026-12-29'),
+        endDate: utc('2026-12-29'),
+        halfDay: 'first_half'
+      });
+
+      expect(duration.totalDays).toBe(0.5);
+      expect(duration.daysByYear).toEqual({ 2026: 0.5 });
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('expands recurring holidays per year and skips 29 February in other years', async () => {
+      jest.spyOn(Holiday, 'find').mockReturnValue({
+        lean: jest.fn().mockResolvedValue([
+          { _id: new Types.ObjectId(), name: 'Leap Day', type: HolidayType.PUBLIC, regions: [], recurring: true, date: utc('2024-02-29') }
+        ])
+      } as any);
+
+      const occurrences = await HolidayCalendarService.getOccurrences(facilityId, utc('2025-01-01'), utc('2028-12-31'));
+
+      expect(occurrences.map(occurrence => occurrence.date)).toEqual(['2028-02-29']);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { Types } from 'mongoose';
+import { IAttendanceSettings } from '../../src/models/AttendanceSettings';
+import { ILabourRules, LabourRuleEnforcement } from '../../src/models/LabourRules';
+import { Roster } from '../../src/models/Roster';
+import { IShiftSchedule, ShiftSchedule } from '../../src/models/ShiftSchedule';
+import { User } from '../../src/models/User';
+import { AttendanceService } from '../../src/services/attendance.service';
+import { LabourRuleService, PlannedShift } from '../../src/services/labourRule.service';
+
+const facilityId = new Types.ObjectId();
+const employeeId = new Types.ObjectId().toString();
+
+const RULES = {
+  maxDailyHours: 12,
+  maxWeeklyHours: 60,
+  minRestHours: 11,
+  maxConsecutiveNights: 3,
+  minWeeklyOffDays: 1,
+  overtimeDailyHours: 8,
+  overtimeWeeklyHours: 48,
+  enforcement: LabourRuleEnforcement.BLOCK
+} as ILabourRules;
+
+const DAY: Partial<IShiftSchedule> = { shiftName: 'Day', startTime: '09:00', endTime: '17:00', breakDuration: 0 };
+const NIGHT: Partial<IShiftSchedule> = { shiftName: 'Night', startTime: '22:00', endTime: '06:00', breakDuration: 0 };
+
+const planned = (schedule: Partial<IShiftSchedule>, dateKey: string): PlannedShift =>
+  LabourRuleService.toPlannedShift(employeeId, schedule as IShiftSchedule, dateKey, 'UTC');
+const rulesOf = (violations: { rule: string; date: string }[]) => violations.map(violation => `${violation.rule} ${violation.date}`);
+
+// 9 March 2026 is a Monday
+describe('LabourRuleService', () => {
+  describe('toPlannedShift', () => {
+    it('measures a night shift across midnight without its break', () => {
+      const shift = planned({ ...NIGHT, breakDuration: 30 }, '2026-03-09');
+      expect(shift.end.toISOString()).toBe('2026-03-10T06:00:00.000Z');
+      expect(shift.hours).toBe(7.5);
+      expect(shift.night).toBe(true);
+      expect(planned(DAY, '2026-03-09').night).toBe(false);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('reports daily hours over the maximum as errors and over the overtime threshold as warnings', () => {
+      const violations = LabourRuleService.evaluate(RULES, [
+        planned({ ...DAY, endTime: '19:00' }, '2026-03-09'),
+        planned({ ...DAY, startTime: '06:00', endTime: '20:00' }, '2026-03-11')
+      ], '2026-03-09', '2026-03-15');
+
+      expect(violations).toEqual([
+        expect.objectContaining({ rule: 'daily_overtime', severity: 'warning', date: '2026-03-09', message: '2h of overtime on 2026-03-09' }),
+        expect.objectContaining({ rule: 'max_daily_hours', severity: 'error', date: '2026-03-11' })
+      ]);
+    });
+
+    it('requires the minimum rest between the end of a night shift and the next shift', () => {
+      const violations = LabourRuleService.evaluate(RULES, [
+        planned(NIGHT, '2026-03-09'),
+        planned({ ...DAY, startTime: '14:00', endTime: '22:00' }, '2026-03-10')
+      ], '2026-03-09', '2026-03-15');
+
+      expect(rulesOf(violations)).toEqual(['min_rest 2026-03-10']);
+      expect(violations[0].message).toContain('Only 8h of rest');
+    });
+
+    it('reports overlapping shifts', () => {
+      const violations = LabourRuleService.evaluate(RULES, [
+        planned(NIGHT, '2026-03-09'),
+        planned({ ...DAY, startTime: '05:00', endTime: '09:00' }, '2026-03-10')
+      ], '2026-03-09', '2026-03-15');
+
+      expect(violations).toEqual([expect.objectContaining({ rule: 'min_rest', date: '2026-03-10', message: expect.stringContaining('overlaps') })]);
+    });
+
+    it('reports a run of night shifts once, on the night it exceeds the maximum', () => {
+      const nights = ['2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13'].map(date => planned(NIGHT, date));
+
+      expect(rulesOf(LabourRuleService.evaluate(RULES, nights, '2026-03-09', '2026-03-15'))).toEqual(['max_consecutive_nights 2026-03-12']);
+    });
+
+    it('applies weekly hours and days off to the week starting on Monday', () => {
+      const long = { ...DAY, startTime: '08:00', endTime: '19:00', breakDuration: 60 };
+      const week = ['2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-14', '2026-03-15']
+        .map(date => planned(long, date));
+
+      const violations = LabourRuleService.evaluate({ ...RULES, overtimeDailyHours: null } as unknown as ILabourRules, week, '2026-03-09', '2026-03-15');
+
+      expect(violations).toEqual([
+        expect.objectContaining({ rule: 'max_weekly_hours', severity: 'error', date: '2026-03-09', message: expect.stringContaining('70h scheduled') }),
+        expect.objectContaining({ rule: 'weekly_off', severity: 'error', date: '2026-03-09' })
+      ]);
+    });
+
+    it('leaves out violations on days outside the range', () => {
+      const shifts = [planned(NIGHT, '2026-03-02'), planned({ ...DAY, endTime: '19:00' }, '2026-03-03')];
+
+      expect(LabourRuleService.evaluate(RULES, shifts, '2026-03-09', '2026-03-15')).toEqual([]);
+    });
+  });
+
+  describe('checkSchedule', () => {
+    const schedule = (overrides: Partial<IShiftSchedule>) => ({
+      _id: new Types.ObjectId(),
+      facilityId,
+      employeeId: new Types.ObjectId(employeeId),
+      workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+      rosterDate: new Date('2026-03-09T00:00:00.000Z'),
+      isDeleted: false,
+      ...DAY,
+      ...overrides
+    }) as unknown as IShiftSchedule;
+
+    const mockPlan = (rules: Partial<ILabourRules>, schedules: IShiftSchedule[]) => {
+      jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      jest.spyOn(LabourRuleService, 'getRules').mockResolvedValue({ ...RULES, ...rules } as ILabourRules);
+      jest.spyOn(AttendanceService, 'getSettings').mockResolvedValue({ timezone: 'UTC' } as IAttendanceSettings);
+      jest.spyOn(Roster, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue([]) } as any);
+      jest.spyOn(ShiftSchedule, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue(schedules) } as any);
+      jest.spyOn(User, 'find').mockReturnValue({
+        select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue([{ _id: employeeId, firstName: 'Asha', lastName: 'Rao' }]) })
+      } as any);
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('blocks a schedule that leaves too little rest after an existing night shift', async () => {
+      mockPlan({}, [schedule({ ...NIGHT, workingDays: ['Monday'] })]);
+
+      const check = await LabourRuleService.checkSchedule(schedule({ ...DAY, startTime: '12:00', endTime: '16:00', workingDays: ['Tuesday'] }));
+
+      expect(check!.blocked).toBe(true);
+      expect(check!.introduced.length).toBeGreaterThan(0);
+      check!.introduced.forEach(violation => {
+        expect(violation).toEqual(expect.objectContaining({ rule: 'min_rest', employeeName: 'Asha Rao' }));
+      });
+      expect(LabourRuleService.describe(check!.introduced)).toContain('Asha Rao: Only 6h of rest');
+    });
+
+    it('only warns about the same schedule when the facility does not enforce its rules', async () => {
+      mockPlan({ enforcement: LabourRuleEnforcement.WARN }, [schedule({ ...NIGHT, workingDays: ['Monday'] })]);
+
+      const check = await LabourRuleService.checkSchedule(schedule({ ...DAY, startTime: '12:00', endTime: '16:00', workingDays: ['Tuesday'] }));
+
+      expect(check!.blocked).toBe(false);
+      expect(check!.introduced.length).toBeGreaterThan(0);
+    });
+
+    it('does not block on violations the plan already had', async () => {
+      const night = schedule({ ...NIGHT, workingDays: ['Monday'] });
+      const early = schedule({ ...DAY, startTime: '12:00', endTime: '16:00', workingDays: ['Tuesday'] });
+      mockPlan({}, [night, early]);
+
+      const check = await LabourRuleService.checkSchedule({ ...early, shiftName: 'Early' } as IShiftSchedule);
+
+      expect(check!.violations.length).toBeGreaterThan(0);
+      expect(check!.introduced).toEqual([]);
+      expect(check!.blocked).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Types } from 'mongoose';
+import { LeaveLedgerEntry, LeaveLedgerEntryType } from '../../src/models/LeaveLedger';
+import { ILeavePlanner, LeavePlanner } from '../../src/models/LeavePlanner';
+import { IUser, User } from '../../src/models/User';
+import { HolidayCalendarService } from '../../src/services/holidayCalendar.service';
+import { LeaveBalanceService } from '../../src/services/leaveBalance.service';
+
+const employee = { _id: new Types.ObjectId() } as unknown as IUser;
+const utc = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const buildLeave = (leave: Partial<ILeavePlanner>) => ({
+  _id: new Types.ObjectId(),
+  employeeId: employee._id,
+  facilityId: new Types.ObjectId(),
+  leaveType: 'casual',
+  status: 'approved',
+  isDeleted: false,
+  halfDay: null,
+  lossOfPayDays: 0,
+  ...leave
+}) as unknown as ILeavePlanner;
+
+// 28 December 2026 to 5 January 2027: three working days in 2026 and two in 2027
+const yearEndLeave = (leave: Partial<ILeavePlanner> = {}) => buildLeave({
+  startDate: utc('2026-12-28'),
+  endDate: utc('2027-01-05'),
+  totalDays: 5,
+  ...leave
+});
+
+const mockYearEndCalendar = () => jest.spyOn(HolidayCalendarService, 'calculateLeaveDays').mockResolvedValue({
+  totalDays: 5,
+  daysByYear: { 2026: 3, 2027: 2 },
+  calendarDays: 9,
+  weekoffDates: ['2027-01-02', '2027-01-03'],
+  holidays: [{ date: '2026-12-30', name: 'State Day' }, { date: '2027-01-01', name: 'New Year' }]
+});
+
+describe('LeaveBalanceService', () => {
+  describe('getPaidDaysByYear', () => {
+    it('puts a leave within one year in that year without reading the calendar', async () => {
+      const calculate = jest.spyOn(HolidayCalendarService, 'calculateLeaveDays');
+      const leave = buildLeave({ startDate: utc('2026-03-02'), endDate: utc('2026-03-04'), totalDays: 3, lossOfPayDays: 1 });
+
+      expect(await LeaveBalanceService.getPaidDaysByYear(leave, employee)).toEqual(new Map([[2026, 2]]));
+      expect(calculate).not.toHaveBeenCalled();
+    });
+
+    it('splits a leave over the year end by the year each working day falls in', async () => {
+      mockYearEndCalendar();
+
+      expect(await LeaveBalanceService.getPaidDaysByYear(yearEndLeave(), employee)).toEqual(new Map([[2026, 3], [2027, 2]]));
+    });
+
+    it('takes loss-of-pay days off the last days of the leave', async () => {
+      mockYearEndCalendar();
+
+      expect(await LeaveBalanceService.getPaidDaysByYear(yearEndLeave({ lossOfPayDays: 1 }), employee))
+        .toEqual(new Map([[2026, 3], [2027, 1]]));
+      expect(await LeaveBalanceService.getPaidDaysByYear(yearEndLeave({ lossOfPayDays: 3 }), employee))
+        .toEqual(new Map([[2026, 2]]));
+    });
+  });
+
+  describe('getPendingDays', () => {
+    it('reserves applications starting within the UTC calendar year', async () => {
+      const aggregate = jest.spyOn(LeavePlanner, 'aggregate').mockResolvedValue([{ _id: 'casual', days: 2 }]);
+
+      expect(await LeaveBalanceService.getPendingDays(employee._id, 2026)).toEqual({ casual: 2 });
+      expect(aggregate.mock.calls[0][0]![0]).toEqual({
+        $match: expect.objectContaining({ startDate: { $gte: utc('2026-01-01'), $lt: utc('2027-01-01') } })
+      });
+    });
+  });
+
+  describe('checkApplication', () => {
+    // Balance and pending days of each year
+    const mockBalances = (years: Record<number, { balance: number; pending?: number }>) => {
+      jest.spyOn(LeaveBalanceService, 'findPolicy').mockResolvedValue({} as any);
+      jest.spyOn(LeaveBalanceService, 'syncYear').mockResolvedValue();
+      jest.spyOn(LeaveBalanceService, 'getBalance').mockImplementation(async (_employeeId, _leaveType, year) => years[year].balance);
+      jest.spyOn(LeaveBalanceService, 'getPendingDays')
+        .mockImplementation(async (_employeeId, year) => ({ casual: years[year].pending ?? 0 }));
+    };
+
+    const check = (leave: ILeavePlanner) => LeaveBalanceService.checkApplication({
+      employee,
+      facilityId: leave.facilityId,
+      leaveType: 'casual',
+      startDate: leave.startDate,
+      endDate: leave.endDate,
+      totalDays: leave.totalDays
+    });
+
+    it('records days beyond the available balance as loss of pay', async () => {
+      mockBalances({ 2026: { balance: 5, pending: 1 } });
+      const leave = buildLeave({ startDate: utc('2026-03-02'), endDate: utc('2026-03-09'), totalDays: 6 });
+
+      expect(await check(leave)).toMatchObject({ balance: 5, pending: 1, available: 4, lossOfPayDays: 2 });
+    });
+
+    it('checks each year of a leave over the year end against that year\'s balance', async () => {
+      mockYearEndCalendar();
+      mockBalances({ 2026: { balance: 10 }, 2027: { balance: 1 } });
+
+      const result = await check(yearEndLeave());
+
+      expect(result.years).toEqual([
+        { year: 2026, days: 3, balance: 10, pending: 0, available: 10 },
+        { year: 2027, days: 2, balance: 1, pending: 0, available: 1 }
+      ]);
+      expect(result.lossOfPayDays).toBe(1);
+    });
+
+    it('leaves the rest of the leave unpaid from the first year that runs short', async () => {
+      mockYearEndCalendar();
+      mockBalances({ 2026: { balance: 1 }, 2027: { balance: 10 } });
+
+      expect((await check(yearEndLeave())).lossOfPayDays).toBe(4);
+    });
+  });
+
+  describe('syncLeave', () => {
+    const mockLedger = (entries: Record<string, unknown>[]) => {
+      jest.spyOn(User, 'findById').mockResolvedValue(employee);
+      jest.spyOn(LeaveBalanceService, 'findPolicy').mockResolvedValue({} as any);
+      jest.spyOn(LeaveLedgerEntry, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue(entries) } as any);
+      return jest.spyOn(LeaveLedgerEntry, 'insertMany').mockResolvedValue([] as any);
+    };
+
+    it('debits an approved leave over the year end to both years', async () => {
+      mockYearEndCalendar();
+      const insertMany = mockLedger([]);
+      const leave = yearEndLeave();
+
+      await LeaveBalanceService.syncLeave(leave);
+
+      expect(insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ leaveType: 'casual', year: 2026, days: -3, entryType: LeaveLedgerEntryType.DEBIT, leavePlannerId: leave._id }),
+        expect.objectContaining({ leaveType: 'casual', year: 2027, days: -2, entryType: LeaveLedgerEntryType.DEBIT, leavePlannerId: leave._id })
+      ]);
+    });
+
+    it('moves days of an earlier single-year debit to the year they fall in', async () => {
+      mockYearEndCalendar();
+      const insertMany = mockLedger([{ leaveType: 'casual', year: 2026, days: -5 }]);
+
+      await LeaveBalanceService.syncLeave(yearEndLeave());
+
+      expect(insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ year: 2026, days: 2, entryType: LeaveLedgerEntryType.CREDIT }),
+        expect.objectContaining({ year: 2027, days: -2, entryType: LeaveLedgerEntryType.DEBIT })
+      ]);
+    });
+
+    it('credits every year back when the leave is cancelled', async () => {
+      const insertMany = mockLedger([
+        { leaveType: 'casual', year: 2026, days: -3 },
+        { leaveType: 'casual', year: 2027, days: -2 }
+      ]);
+
+      await LeaveBalanceService.syncLeave(yearEndLeave({ status: 'cancelled' }));
+
+      expect(insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ year: 2026, days: 3, entryType: LeaveLedgerEntryType.CREDIT, remarks: 'Leave cancelled' }),
+        expect.objectContaining({ year: 2027, days: 2, entryType: LeaveLedgerEntryType.CREDIT, remarks: 'Leave cancelled' })
+      ]);
+    });
+
+    it('posts nothing when the ledger already matches', async () => {
+      mockYearEndCalendar();
+      const insertMany = mockLedger([
+        { leaveType: 'casual', year: 2026, days: -3 },
+        { leaveType: 'casual', year: 2027, days: -2 }
+      ]);
+
+      await LeaveBalanceService.syncLeave(yearEndLeave());
+
+      expect(insertMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { Types } from 'mongoose';
+import { AuthenticatedRequest, AuthMiddleware } from '../../src/middleware/auth.middleware';
+import { AppError } from '../../src/middleware/errorHandler';
+import { IUser, UserRole } from '../../src/models/User';
+import { PermissionService } from '../../src/services/permission.service';
+import { FacilityScope } from '../../src/utils/facilityScope';
+
+const facilityA = new Types.ObjectId().toString();
+const facilityB = new Types.ObjectId().toString();
+
+// A user with no permissions of their own, holding the given custom roles
+const buildUser = (customRoles: Record<string, unknown>[], overrides: Record<string, boolean> = {}): IUser => ({
+  _id: new Types.ObjectId(),
+  role: UserRole.SUPERVISOR,
+  permissionOverrides: overrides,
+  permissions: { customPermissions: [] },
+  customRoles: customRoles.map(role => ({
+    _id: new Types.ObjectId(),
+    name: 'Role',
+    customPermissions: [],
+    isActive: true,
+    isDeleted: false,
+    ...role
+  })),
+  managedFacilities: [],
+  $locals: {},
+  hasPermission: () => false
+}) as unknown as IUser;
+
+const facilityRole = (facilityId: string, permissions: Record<string, boolean>) => ({ facilityId: new Types.ObjectId(facilityId), permissions });
+
+describe('PermissionService', () => {
+  describe('hasPermission', () => {
+    it('applies a facility role in its own facility', () => {
+      const user = buildUser([facilityRole(facilityA, { canApproveLeaves: true })]);
+      expect(PermissionService.hasPermission(user, 'canApproveLeaves', facilityA)).toBe(true);
+      expect(PermissionService.hasPermission(user, 'canApproveLeaves', new Types.ObjectId(facilityA))).toBe(true);
+    });
+
+    it('does not apply a facility role in another facility', () => {
+      const user = buildUser([facilityRole(facilityA, { canApproveLeaves: true })]);
+      expect(PermissionService.hasPermission(user, 'canApproveLeaves', facilityB)).toBe(false);
+    });
+
+    it('does not apply a facility role when no facility is given', () => {
+      const user = buildUser([facilityRole(facilityA, { canApproveLeaves: true })]);
+      expect(PermissionService.hasPermission(user, 'canApproveLeaves')).toBe(false);
+    });
+
+    it('applies the custom permissions of a facility role only in its facility', () => {
+      const user = buildUser([{ facilityId: new Types.ObjectId(facilityA), permissions: {}, customPermissions: ['all'] }]);
+      expect(PermissionService.hasPermission(user, 'canManageShifts', facilityA)).toBe(true);
+      expect(PermissionService.hasPermission(user, 'canManageShifts', facilityB)).toBe(false);
+    });
+
+    it('applies global roles in every facility and without one', () => {
+      const user = buildUser([{ facilityId: null, permissions: { canManageShifts: true } }]);
+      expect(PermissionService.hasPermission(user, 'canManageShifts', facilityA)).toBe(true);
+      expect(PermissionService.hasPermission(user, 'canManageShifts', facilityB)).toBe(true);
+      expect(PermissionService.hasPermission(user, 'canManageShifts')).toBe(true);
+    });
+
+    it('lets a per-user override win over the roles', () => {
+      const user = buildUser([facilityRole(facilityA, { canApproveLeaves: true })], { canApproveLeaves: false });
+      expect(PermissionService.hasPermission(user, 'canApproveLeaves', facilityA)).toBe(false);
+    });
+
+    it('ignores inactive roles', () => {
+      const user = buildUser([{ ...facilityRole(facilityA, { canApproveLeaves: true }), isActive: false }]);
+      expect(PermissionService.hasPermission(user, 'canApproveLeaves', facilityA)).toBe(false);
+    });
+  });
+
+  describe('getEffectivePermissions', () => {
+    it('resolves the flags in the given facility and lists every assigned role', () => {
+      const user = buildUser([
+        facilityRole(facilityA, { canApproveLeaves: true }),
+        facilityRole(facilityB, { canManageShifts: true })
+      ]);
+
+      const inA = PermissionService.getEffectivePermissions(user, facilityA);
+      expect(inA.facilityId).toBe(facilityA);
+      expect(inA.permissions.canApproveLeaves).toBe(true);
+      expect(inA.permissions.canManageShifts).toBe(false);
+      expect(inA.customRoles.map(role => role.facilityId)).toEqual([facilityA, facilityB]);
+
+      const withoutFacility = PermissionService.getEffectivePermissions(user);
+      expect(withoutFacility.facilityId).toBeNull();
+      expect(withoutFacility.permissions.canApproveLeaves).toBe(false);
+      expect(withoutFacility.permissions.canManageShifts).toBe(false);
+    });
+  });
+});
+
+describe('AuthMiddleware facility roles', () => {
+  const buildRequest = (request: Partial<AuthenticatedRequest>, facilityIds: string[] | null = [facilityA, facilityB]) => ({
+    params: {},
+    query: {},
+    body: {},
+    method: 'GET',
+    originalUrl: '/api/test',
+    facilityScope: new FacilityScope(facilityIds),
+    ...request
+  }) as AuthenticatedRequest;
+
+  describe('getRequestFacilityId', () => {
+    it('takes the facility from the path, query or body', () => {
+      expect(AuthMiddleware.getRequestFacilityId(buildRequest({ params: { facilityId: facilityA } }))).toBe(facilityA);
+      expect(AuthMiddleware.getRequestFacilityId(buildRequest({ query: { facilityId: facilityA } }))).toBe(facilityA);
+      expect(AuthMiddleware.getRequestFacilityId(buildRequest({ body: { facilityId: facilityA } }))).toBe(facilityA);
+    });
+
+    it('has no facility when the request names different ones', () => {
+      const req = buildRequest({ query: { facilityId: facilityA }, body: { facilityId: facilityB } });
+      expect(AuthMiddleware.getRequestFacilityId(req)).toBeUndefined();
+    });
+
+    it("falls back to the user's only facility", () => {
+      expect(AuthMiddleware.getRequestFacilityId(buildRequest({}, [facilityA]))).toBe(facilityA);
+      expect(AuthMiddleware.getRequestFacilityId(buildRequest({}, [facilityA, facilityB]))).toBeUndefined();
+      expect(AuthMiddleware.getRequestFacilityId(buildRequest({}, null))).toBeUndefined();
+    });
+  });
+
+  describe('requirePermission', () => {
+    const user = buildUser([facilityRole(facilityA, { canApproveLeaves: true })]);
+
+    it("grants a facility role's permission for requests in its facility", () => {
+      const next = jest.fn();
+      AuthMiddleware.requirePermission('canApproveLeaves')(buildRequest({ user, query: { facilityId: facilityA } }), {} as any, next);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("refuses a facility role's permission for requests in another facility", () => {
+      const next = jest.fn();
+      AuthMiddleware.requirePermission('canApproveLeaves')(buildRequest({ user, params: { facilityId: facilityB } }), {} as any, next);
+      expect(next).toHaveBeenCalledWith(expect.any(AppError));
+      expect(next.mock.calls[0][0].statusCode).toBe(403);
+    });
+  });
+});
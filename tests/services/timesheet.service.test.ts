@@ -0,0 +1,163 @@
+import { Types } from 'mongoose';
+import { Attendance, AttendanceStatus, IAttendance } from '../../src/models/Attendance';
+import { IAttendanceSettings } from '../../src/models/AttendanceSettings';
+import { HolidayType } from '../../src/models/Holiday';
+import { ILabourRules } from '../../src/models/LabourRules';
+import { ShiftSchedule } from '../../src/models/ShiftSchedule';
+import { ITimesheet, OvertimeKind, Timesheet, TimesheetPeriod } from '../../src/models/Timesheet';
+import { IUser, User } from '../../src/models/User';
+import { AttendanceService } from '../../src/services/attendance.service';
+import { HolidayCalendarService } from '../../src/services/holidayCalendar.service';
+import { LabourRuleService } from '../../src/services/labourRule.service';
+import { TimesheetService } from '../../src/services/timesheet.service';
+
+const facilityId = new Types.ObjectId();
+const actor = { _id: new Types.ObjectId() } as IUser;
+const employee = { _id: new Types.ObjectId(), profile: { address: { state: 'Karnataka' }, workSchedule: { weeklyHours: 40 } } };
+const utc = (date: string, time = '00:00') => new Date(`${date}T${time}:00.000Z`);
+
+const DAY_SHIFT = { _id: new Types.ObjectId(), shiftName: 'Day', startTime: '09:00', endTime: '19:00', breakDuration: 60 };
+const NIGHT_SHIFT = { _id: new Types.ObjectId(), shiftName: 'Night', startTime: '21:00', endTime: '07:00', breakDuration: 60 };
+
+// Ten hours on the clock, nine worked after the break
+const worked = (date: string, shift = DAY_SHIFT, record: Partial<IAttendance> = {}) => ({
+  _id: new Types.ObjectId(),
+  facilityId,
+  employeeId: employee._id,
+  shiftScheduleId: shift._id,
+  date: utc(date),
+  status: AttendanceStatus.PRESENT,
+  scheduledStart: utc(date, shift.startTime),
+  scheduledEnd: new Date(utc(date, shift.startTime).getTime() + 10 * 60 * 60 * 1000),
+  checkIn: { time: utc(date, shift.startTime) },
+  checkOut: { time: new Date(utc(date, shift.startTime).getTime() + 10 * 60 * 60 * 1000) },
+  workedMinutes: 600,
+  lateMinutes: 0,
+  earlyExitMinutes: 0,
+  ...record
+});
+
+describe('TimesheetService', () => {
+  describe('generate', () => {
+    // 1 April 2026 is a Wednesday: the Monday and Tuesday before it count towards the first week's threshold
+    const RECORDS = [
+      worked('2026-03-30'),
+      worked('2026-03-31'),
+      worked('2026-04-01', DAY_SHIFT, { lateMinutes: 15 }),
+      worked('2026-04-02'),
+      worked('2026-04-03'),
+      worked('2026-04-04', NIGHT_SHIFT),
+      worked('2026-04-05'),
+      worked('2026-04-06', DAY_SHIFT, { status: AttendanceStatus.ABSENT, workedMinutes: 0, checkIn: undefined, checkOut: undefined })
+    ];
+
+    const generate = async () => {
+      jest.spyOn(AttendanceService, 'getSettings').mockResolvedValue({ timezone: 'UTC' } as IAttendanceSettings);
+      jest.spyOn(AttendanceService, 'markAbsenteesForDay').mockResolvedValue({} as any);
+      jest.spyOn(LabourRuleService, 'getRules').mockResolvedValue({
+        overtimeDailyHours: 8,
+        overtimeWeeklyHours: 40,
+        overtimeMultiplier: 1.5,
+        nightOvertimeMultiplier: 1.75,
+        holidayMultiplier: 2
+      } as ILabourRules);
+      jest.spyOn(Attendance, 'find').mockReturnValue({ sort: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(RECORDS) }) } as any);
+      jest.spyOn(ShiftSchedule, 'find').mockReturnValue({
+        select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue([DAY_SHIFT, NIGHT_SHIFT]) })
+      } as any);
+      jest.spyOn(User, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue([employee]) } as any);
+      jest.spyOn(Timesheet, 'find').mockResolvedValue([]);
+      jest.spyOn(HolidayCalendarService, 'getOccurrences').mockResolvedValue([
+        { holidayId: new Types.ObjectId(), name: 'Founders Day', type: HolidayType.PUBLIC, regions: [], recurring: false, date: '2026-04-02' }
+      ]);
+      jest.spyOn(Timesheet.prototype, 'save').mockResolvedValue({} as any);
+
+      return TimesheetService.generate(facilityId, TimesheetPeriod.MONTHLY, '2026-04-15', actor, { now: utc('2026-05-01') });
+    };
+
+    it('splits worked hours into regular hours and overtime by kind', async () => {
+      const result = await generate();
+
+      expect(result).toEqual(expect.objectContaining({ periodStart: '2026-04-01', periodEnd: '2026-04-30', created: 1, updated: 0 }));
+      const [timesheet] = result.timesheets;
+      expect(timesheet.entries.map(entry => [entry.regularMinutes, entry.overtimeMinutes, entry.overtimeKind ?? null])).toEqual([
+        [480, 60, OvertimeKind.STANDARD],
+        [0, 540, OvertimeKind.HOLIDAY], // Every hour worked on a holiday is overtime
+        [480, 60, OvertimeKind.STANDARD],
+        [480, 60, OvertimeKind.NIGHT], // Reaches the 40 hours of the week
+        [0, 540, OvertimeKind.STANDARD], // Beyond the weekly threshold
+        [0, 0, null]
+      ]);
+    });
+
+    it('totals the period and weighs overtime by its multiplier', async () => {
+      const { totals } = (await generate()).timesheets[0];
+
+      expect(totals).toEqual(expect.objectContaining({
+        shifts: 6,
+        contractedHours: 171.43,
+        scheduledHours: 54,
+        workedHours: 45,
+        regularHours: 24,
+        overtimeHours: 21,
+        standardOvertimeHours: 11,
+        nightOvertimeHours: 1,
+        holidayOvertimeHours: 9,
+        weightedOvertimeHours: 36.25,
+        lateDays: 1,
+        lateMinutes: 15,
+        absences: 1,
+        missingCheckOuts: 0
+      }));
+    });
+
+    it('marks absentees of each day of the period up to today first', async () => {
+      await generate();
+
+      expect(AttendanceService.markAbsenteesForDay).toHaveBeenCalledTimes(30);
+    });
+  });
+
+  describe('toCsv', () => {
+    const timesheet = (employeeId: Record<string, unknown>, facility: Record<string, unknown>) => ({
+      employeeId,
+      facilityId: facility,
+      period: TimesheetPeriod.WEEKLY,
+      periodStart: utc('2026-04-06'),
+      periodEnd: utc('2026-04-12'),
+      status: 'draft',
+      totals: { shifts: 5, workedHours: 41.5, overtimeHours: 0 }
+    }) as unknown as ITimesheet;
+
+    it('quotes fields with commas, quotes and line breaks', () => {
+      const csv = TimesheetService.toCsv([
+        timesheet({ firstName: 'Rao, Asha', lastName: '"AJ"', email: 'asha@example.com' }, { siteName: 'North\nPlant' })
+      ]);
+      const [header, row] = csv.split('\r\n');
+
+      expect(header.startsWith('Employee code,Employee,Email,Facility,Period,Period start,Period end,Status,Shifts')).toBe(true);
+      expect(row.startsWith(',"Rao, Asha ""AJ""",asha@example.com,"North\nPlant",weekly,2026-04-06,2026-04-12,draft,5')).toBe(true);
+      expect(csv.endsWith('\r\n')).toBe(true);
+    });
+
+    it('keeps spreadsheets from evaluating text that starts like a formula', () => {
+      const csv = TimesheetService.toCsv([
+        timesheet({ firstName: '=HYPERLINK("http://example.com")', lastName: 'X', email: '@evil', profile: { employeeId: '-1+2' } }, { siteName: '+Plant' })
+      ]);
+      const row = csv.split('\r\n')[1];
+
+      expect(row.startsWith(`'-1+2,"'=HYPERLINK(""http://example.com"") X",'@evil,'+Plant,`)).toBe(true);
+    });
+
+    it('leaves numbers as they are and missing values empty', () => {
+      const csv = TimesheetService.toCsv([timesheet({}, {})]);
+      const fields = csv.split('\r\n')[1].split(',');
+
+      expect(fields.slice(0, 4)).toEqual(['', '', '', '']);
+      expect(fields[8]).toBe('5');
+      expect(fields[11]).toBe('41.5');
+      expect(fields[13]).toBe('0');
+      expect(fields[fields.length - 1]).toBe('');
+    });
+  });
+});
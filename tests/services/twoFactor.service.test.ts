@@ -0,0 +1,148 @@
+import { Types } from 'mongoose';
+import { IUser, User } from '../../src/models/User';
+import { TwoFactorService } from '../../src/services/twoFactor.service';
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890" in base32, codes truncated to six digits
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1234567890, '005924'],
+  [2000000000, '279037']
+];
+
+describe('TwoFactorService', () => {
+  describe('generateToken', () => {
+    it.each(RFC_VECTORS)('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+      expect(TwoFactorService.generateToken(RFC_SECRET, seconds * 1000)).toBe(code);
+    });
+
+    it('reads lower-case, padded and spaced secrets like the canonical form', () => {
+      const secret = 'gezd gnbv gy3t qojq gezd gnbv gy3t qojq====';
+      expect(TwoFactorService.generateToken(secret, 59 * 1000)).toBe('287082');
+    });
+
+    it('rejects secrets with characters outside the base32 alphabet', () => {
+      expect(() => TwoFactorService.generateToken('GEZDGNBV0189', 0)).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateSecret', () => {
+    it('encodes 160 random bits as 32 base32 characters', () => {
+      const secret = TwoFactorService.generateSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(TwoFactorService.generateSecret()).not.toBe(secret);
+    });
+
+    it('produces secrets the generator can read back', () => {
+      const secret = TwoFactorService.generateSecret();
+      const now = Date.now();
+      expect(TwoFactorService.verifyToken(secret, TwoFactorService.generateToken(secret, now), now)).toBe(true);
+    });
+  });
+
+  describe('matchTokenStep', () => {
+    const now = 1234567890 * 1000;
+    const step = Math.floor(1234567890 / 30);
+
+    it('returns the time step of a current code', () => {
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, '005924', now)).toBe(step);
+    });
+
+    it('tolerates one step of clock drift either way', () => {
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, TwoFactorService.generateToken(RFC_SECRET, now - 30000), now)).toBe(step - 1);
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, TwoFactorService.generateToken(RFC_SECRET, now + 30000), now)).toBe(step + 1);
+    });
+
+    it('rejects codes two steps away', () => {
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, TwoFactorService.generateToken(RFC_SECRET, now - 60000), now)).toBeNull();
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, TwoFactorService.generateToken(RFC_SECRET, now + 60000), now)).toBeNull();
+    });
+
+    it('ignores whitespace in the code and rejects malformed codes', () => {
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, '005 924', now)).toBe(step);
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, '5924', now)).toBeNull();
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, '00592a', now)).toBeNull();
+      expect(TwoFactorService.matchTokenStep(RFC_SECRET, '', now)).toBeNull();
+    });
+  });
+
+  describe('consumeToken', () => {
+    const now = 1234567890 * 1000;
+    const step = Math.floor(1234567890 / 30);
+    const user = { _id: new Types.ObjectId(), security: { twoFactorSecret: RFC_SECRET } } as unknown as IUser;
+
+    it('records the step of an accepted code only if it is newer than the last one', async () => {
+      const updateOne = jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+      await expect(TwoFactorService.consumeToken(user, '005924', now)).resolves.toBe(true);
+      expect(updateOne).toHaveBeenCalledWith(
+        {
+          _id: user._id,
+          $or: [
+            { 'security.twoFactorLastUsedStep': null },
+            { 'security.twoFactorLastUsedStep': { $lt: step } }
+          ]
+        },
+        { $set: { 'security.twoFactorLastUsedStep': step } }
+      );
+    });
+
+    it('rejects a replayed code whose step was already used', async () => {
+      jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+
+      await expect(TwoFactorService.consumeToken(user, '005924', now)).resolves.toBe(false);
+    });
+
+    it('rejects wrong codes without touching the user', async () => {
+      const updateOne = jest.spyOn(User, 'updateOne');
+
+      await expect(TwoFactorService.consumeToken(user, '000000', now)).resolves.toBe(false);
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('generates unique codes of two five-character groups', () => {
+      const codes = TwoFactorService.generateRecoveryCodes();
+      expect(codes).toHaveLength(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9A-F]{5}-[0-9A-F]{5}$/));
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+
+    it('hashes codes regardless of case and dashes', () => {
+      expect(TwoFactorService.hashRecoveryCode('abcde-12345')).toBe(TwoFactorService.hashRecoveryCode('ABCDE12345'));
+      expect(TwoFactorService.hashRecoveryCode('ABCDE-12345')).not.toBe(TwoFactorService.hashRecoveryCode('ABCDE-12346'));
+    });
+
+    it('removes a consumed code only if it is still stored', async () => {
+      const user = { _id: new Types.ObjectId() } as unknown as IUser;
+      const hashedCode = TwoFactorService.hashRecoveryCode('ABCDE-12345');
+      const updateOne = jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+      await expect(TwoFactorService.consumeRecoveryCode(user, 'abcde12345')).resolves.toBe(true);
+      expect(updateOne).toHaveBeenCalledWith(
+        { _id: user._id, 'security.recoveryTokens': hashedCode },
+        { $pull: { 'security.recoveryTokens': hashedCode } }
+      );
+    });
+
+    it('rejects a code that was already used', async () => {
+      const user = { _id: new Types.ObjectId() } as unknown as IUser;
+      jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+
+      await expect(TwoFactorService.consumeRecoveryCode(user, 'ABCDE-12345')).resolves.toBe(false);
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('labels the account with the issuer and states the TOTP parameters', () => {
+      const uri = new URL(TwoFactorService.buildOtpAuthUri(RFC_SECRET, 'jane@example.com'));
+      expect(uri.protocol).toBe('otpauth:');
+      expect(decodeURIComponent(uri.pathname)).toMatch(/:jane@example\.com$/);
+      expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+      expect(uri.searchParams.get('digits')).toBe('6');
+      expect(uri.searchParams.get('period')).toBe('30');
+    });
+  });
+});
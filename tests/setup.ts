@@ -0,0 +1,4 @@
+import { logger } from '../src/utils/logger';
+
+// Keep test output readable; errors that are expected in a test would otherwise be logged
+logger.silent = true;